@@ -2,13 +2,21 @@ import request from 'supertest';
 import app from '../../server';
 import { User } from '../../models/User';
 
+// Key material a browser would derive from the master password
+const vaultKeys = {
+  masterPasswordHash: 'bWFzdGVyLXBhc3N3b3JkLWhhc2gtZGVyaXZlZC1ieS1jbGllbnQ=',
+  masterKeySalt: '00112233445566778899aabbccddeeff',
+  encryptedVaultKey: 'd3JhcHBlZC12YXVsdC1rZXk=',
+  kdf: { algorithm: 'argon2id', iterations: 3, memory: 65536, parallelism: 4, version: 2 },
+};
+
 describe('Auth Controller', () => {
   describe('POST /api/auth/register', () => {
     it('should register a new user successfully', async () => {
       const userData = {
         email: 'test@example.com',
         password: 'TestPassword123!',
-        masterPassword: 'MasterPassword123!',
+        ...vaultKeys,
       };
 
       const response = await request(app)
@@ -27,7 +35,7 @@ describe('Auth Controller', () => {
       const userData = {
         email: 'invalid-email',
         password: 'TestPassword123!',
-        masterPassword: 'MasterPassword123!',
+        ...vaultKeys,
       };
 
       const response = await request(app)
@@ -43,7 +51,7 @@ describe('Auth Controller', () => {
       const userData = {
         email: 'test@example.com',
         password: 'weak',
-        masterPassword: 'MasterPassword123!',
+        ...vaultKeys,
       };
 
       const response = await request(app)
@@ -58,7 +66,7 @@ describe('Auth Controller', () => {
       const userData = {
         email: 'test@example.com',
         password: 'TestPassword123!',
-        masterPassword: 'MasterPassword123!',
+        ...vaultKeys,
       };
 
       // Register first user
@@ -86,7 +94,7 @@ describe('Auth Controller', () => {
         .send({
           email: 'test@example.com',
           password: 'TestPassword123!',
-          masterPassword: 'MasterPassword123!',
+          ...vaultKeys,
         });
     });
 
@@ -157,7 +165,7 @@ describe('Auth Controller', () => {
         .send({
           email: 'test@example.com',
           password: 'TestPassword123!',
-          masterPassword: 'MasterPassword123!',
+          ...vaultKeys,
         });
 
       accessToken = registerResponse.body.data.accessToken;
@@ -192,7 +200,7 @@ describe('Auth Controller', () => {
         .send({
           email: 'test@example.com',
           password: 'TestPassword123!',
-          masterPassword: 'MasterPassword123!',
+          ...vaultKeys,
         });
 
       accessToken = registerResponse.body.data.accessToken;
@@ -228,7 +236,7 @@ describe('Auth Controller', () => {
         .send({
           email: 'test@example.com',
           password: 'TestPassword123!',
-          masterPassword: 'MasterPassword123!',
+          ...vaultKeys,
         });
 
       refreshToken = registerResponse.body.data.refreshToken;
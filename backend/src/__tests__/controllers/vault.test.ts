@@ -0,0 +1,225 @@
+import request from 'supertest';
+import app from '../../server';
+import { VaultItem, VaultItemType } from '../../models/VaultItem';
+
+// Key material a browser would derive from the master password
+const vaultKeys = {
+  masterPasswordHash: 'bWFzdGVyLXBhc3N3b3JkLWhhc2gtZGVyaXZlZC1ieS1jbGllbnQ=',
+  masterKeySalt: '00112233445566778899aabbccddeeff',
+  encryptedVaultKey: 'd3JhcHBlZC12YXVsdC1rZXk=',
+  kdf: { algorithm: 'argon2id', iterations: 3, memory: 65536, parallelism: 4 },
+};
+
+// Stand-ins for the keyed hashes the browser derives from each word
+const searchToken = (word: string): string => Buffer.from(`token:${word}`).toString('base64');
+
+const itemData = (searchTokens: string[] = []) => ({
+  type: VaultItemType.LOGIN,
+  encryptedData: 'ZW5jcnlwdGVkLWl0ZW0=',
+  encryptedDataKey: 'd3JhcHBlZC1kYXRhLWtleQ==',
+  iv: 'aW5pdGlhbGl6YXRpb24=',
+  tag: 'YXV0aC10YWc=',
+  searchTokens,
+  searchIndexVersion: 1,
+});
+
+describe('Vault Controller', () => {
+  let accessToken: string;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'test@example.com',
+        password: 'TestPassword123!',
+        ...vaultKeys,
+      });
+    accessToken = response.body.data.accessToken;
+  });
+
+  const createItem = async (searchTokens: string[] = []): Promise<string> => {
+    const response = await request(app)
+      .post('/api/vault/items')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(itemData(searchTokens))
+      .expect(201);
+    return response.body.data.id;
+  };
+
+  const listItems = (query: Record<string, unknown>) =>
+    request(app)
+      .get('/api/vault/items')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .query(query);
+
+  describe('search tokens', () => {
+    it('should store the tokens of a new item without returning them', async () => {
+      const response = await request(app)
+        .post('/api/vault/items')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(itemData([searchToken('github'), searchToken('work')]))
+        .expect(201);
+
+      expect(response.body.data.searchTokens).toBeUndefined();
+      const stored = await VaultItem.findOne({ userId: response.body.data.userId });
+      expect(stored?.searchTokens).toEqual([searchToken('github'), searchToken('work')]);
+      expect(stored?.searchIndexVersion).toBe(1);
+    });
+
+    it('should list the items matching a token', async () => {
+      const github = await createItem([searchToken('github'), searchToken('work')]);
+      await createItem([searchToken('gitlab'), searchToken('work')]);
+
+      const response = await listItems({ searchTokens: searchToken('github') }).expect(200);
+
+      expect(response.body.data.items.map((item: any) => item.id)).toEqual([github]);
+    });
+
+    it('should only list items matching every token', async () => {
+      const github = await createItem([searchToken('github'), searchToken('work')]);
+      await createItem([searchToken('github'), searchToken('personal')]);
+      await createItem([searchToken('gitlab'), searchToken('work')]);
+
+      const response = await listItems({ searchTokens: [searchToken('github'), searchToken('work')] }).expect(200);
+
+      expect(response.body.data.items.map((item: any) => item.id)).toEqual([github]);
+    });
+
+    it('should match the new tokens of an updated item only', async () => {
+      const id = await createItem([searchToken('github')]);
+
+      await request(app)
+        .put(`/api/vault/items/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ searchTokens: [searchToken('gitlab')], searchIndexVersion: 2 })
+        .expect(200);
+
+      expect((await listItems({ searchTokens: searchToken('github') }).expect(200)).body.data.items).toHaveLength(0);
+      expect((await listItems({ searchTokens: searchToken('gitlab') }).expect(200)).body.data.items).toHaveLength(1);
+      expect((await VaultItem.findById(id))?.searchIndexVersion).toBe(2);
+    });
+
+    it('should keep the tokens when an update does not send them', async () => {
+      const id = await createItem([searchToken('github')]);
+
+      await request(app)
+        .put(`/api/vault/items/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ favorite: true })
+        .expect(200);
+
+      expect((await listItems({ searchTokens: searchToken('github') }).expect(200)).body.data.items).toHaveLength(1);
+    });
+
+    it('should reject tokens that are not base64', async () => {
+      const response = await listItems({ searchTokens: 'not a token!' }).expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should reject searches for too many words', async () => {
+      const words = Array.from({ length: 17 }, (_, i) => searchToken(`word${i}`));
+
+      await listItems({ searchTokens: words }).expect(400);
+    });
+  });
+
+  describe('pagination', () => {
+    const readAllPages = async (query: Record<string, unknown>): Promise<string[]> => {
+      const ids: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const response: request.Response = await listItems(cursor ? { ...query, cursor } : query).expect(200);
+        ids.push(...response.body.data.items.map((item: any) => item.id));
+        cursor = response.body.data.nextCursor;
+        expect(response.body.data.hasMore).toBe(cursor !== null);
+      } while (cursor);
+      return ids;
+    };
+
+    it('should page through every item once, newest first', async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        ids.push(await createItem());
+      }
+      // Same creation time for all, so only the _id tie-break orders them
+      await VaultItem.collection.updateMany({}, { $set: { createdAt: new Date('2024-01-01T00:00:00Z') } });
+
+      const pages = await readAllPages({ limit: 2 });
+
+      expect(pages).toEqual([...ids].reverse());
+    });
+
+    it('should page in ascending order by another field', async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push(await createItem());
+      }
+      const note = await request(app)
+        .post('/api/vault/items')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ ...itemData(), type: VaultItemType.SECURE_NOTE })
+        .expect(201);
+
+      const pages = await readAllPages({ limit: 1, sortBy: 'type', sortOrder: 'asc' });
+
+      expect(pages).toEqual([...ids, note.body.data.id]);
+    });
+
+    it('should not skip or repeat items created between pages', async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        ids.push(await createItem());
+      }
+
+      const first = await listItems({ limit: 2, sortOrder: 'asc' }).expect(200);
+      await createItem();
+      const second = await listItems({ limit: 2, sortOrder: 'asc', cursor: first.body.data.nextCursor }).expect(200);
+
+      expect([...first.body.data.items, ...second.body.data.items].map((item: any) => item.id)).toEqual(ids);
+    });
+
+    it('should reject a cursor that was tampered with', async () => {
+      await createItem();
+      await createItem();
+      const { nextCursor } = (await listItems({ limit: 1 }).expect(200)).body.data;
+      const decoded = JSON.parse(Buffer.from(nextCursor, 'base64url').toString('utf8'));
+      const tampered = Buffer.from(JSON.stringify({ ...decoded, id: { $ne: null } })).toString('base64url');
+
+      const response = await listItems({ cursor: tampered }).expect(400);
+
+      expect(response.body.success).toBe(false);
+      await listItems({ cursor: 'not-a-cursor' }).expect(400);
+    });
+
+    it('should reject a cursor from a list sorted by another field', async () => {
+      await createItem();
+      await createItem();
+      const { nextCursor } = (await listItems({ limit: 1 }).expect(200)).body.data;
+
+      await listItems({ cursor: nextCursor, sortBy: 'type' }).expect(400);
+    });
+
+    it('should reject unknown sort fields and out of range limits', async () => {
+      await listItems({ sortBy: 'encryptedData' }).expect(400);
+      await listItems({ limit: 0 }).expect(400);
+      await listItems({ limit: 201 }).expect(400);
+    });
+  });
+
+  describe('folder filter', () => {
+    it('should list the items outside any folder for none', async () => {
+      const id = await createItem();
+
+      const response = await listItems({ folderId: 'none' }).expect(200);
+
+      expect(response.body.data.items.map((item: any) => item.id)).toEqual([id]);
+    });
+
+    it('should reject a folder ID that is not an ObjectId', async () => {
+      const response = await listItems({ folderId: 'not-a-folder' }).expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+});
@@ -344,6 +344,26 @@ export const mockVaultExport = {
   ],
 };
 
+/**
+ * Legacy server-encrypted login item
+ * Written by the createCipher-based EncryptionService, which ignored the IV and dropped the wrapped
+ * key's tag. The master key is PBKDF2-SHA512 of the master password under the salt.
+ */
+export const mockLegacyVaultItem = {
+  masterPassword: 'MasterPassword123!',
+  masterKeySalt: '00112233445566778899aabbccddeeff',
+  masterKey: '680f82c495ce3fabaf4c012e15e2470cc5dd1c2eb36a95e5e4ce487e8eaf715a',
+  item: {
+    type: VaultItemType.LOGIN,
+    encryptedData: 'f36e64cebb338d3bf57f1c198ec837f82a50a136fede8d02c8af437193cecca0b12b436328902b3025',
+    encryptedDataKey: '36e7caacefecece0a638118bfc2bfe0f88a33332fb4c98d910b10b3f2332aaaeeb81243c4ad2626b9f3e08c058ccb3e2b2b505230f3a789ceb05d261760dfa48',
+    iv: '4ce850b45093bb694e5a0416',
+    tag: 'cd07797eda2b6389d8996712ff5f2265',
+    algorithm: 'aes' as const,
+  },
+  data: { username: 'alice', password: 'hunter2' },
+};
+
 /**
  * Helper function to create mock user with vault items and security features
  */
@@ -387,7 +407,7 @@ export const createMockUserWithData = async (userData: any) => {
 export const generateTestTokens = (userId: string, email: string) => {
   const jwt = require('jsonwebtoken');
   const accessToken = jwt.sign(
-    { userId, email, type: 'access' },
+    { userId, email, type: 'access', jti: require('crypto').randomUUID() },
     process.env.JWT_SECRET || 'test-secret',
     { expiresIn: '1h' }
   );
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { AttachmentService, AttachmentInput } from '../../services/attachments';
+import { LocalBlobStore } from '../../services/blobStore';
+import { TrashService } from '../../services/trash';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { VaultItem, IVaultItem } from '../../models/VaultItem';
+import { Attachment } from '../../models/Attachment';
+import { AppError } from '../../middleware/errorHandler';
+import { mockVaultItems } from '../mockData';
+
+const attachmentDir = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+process.env.ATTACHMENT_DIR = attachmentDir;
+
+const ciphertext = Buffer.from('encrypted-attachment-bytes');
+
+const attachmentInput = (overrides: Partial<AttachmentInput> = {}): AttachmentInput => ({
+  encryptedFileName: 'ZW5jcnlwdGVkLWZpbGUtbmFtZQ==',
+  encryptedKey: 'd3JhcHBlZC1hdHRhY2htZW50LWtleQ==',
+  size: ciphertext.length,
+  ...overrides,
+});
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+afterAll(() => {
+  fs.rmSync(attachmentDir, { recursive: true, force: true });
+});
+
+describe('LocalBlobStore', () => {
+  const store = new LocalBlobStore(attachmentDir);
+
+  it('should round-trip a stream', async () => {
+    await store.put('user/blob', Readable.from([ciphertext]));
+
+    expect(await readAll(await store.get('user/blob'))).toEqual(ciphertext);
+
+    await store.delete('user/blob');
+    await expect(store.get('user/blob')).rejects.toThrow('Attachment content not found');
+  });
+
+  it('should leave nothing behind when the stream fails', async () => {
+    async function* failing() {
+      yield ciphertext;
+      throw new Error('connection reset');
+    }
+
+    await expect(store.put('user/failed', Readable.from(failing()))).rejects.toThrow('connection reset');
+
+    expect(fs.readdirSync(path.join(attachmentDir, 'user'))).toHaveLength(0);
+  });
+
+  it('should reject keys that escape the root', async () => {
+    await expect(store.put('../outside', Readable.from([ciphertext]))).rejects.toThrow('Invalid blob key');
+  });
+});
+
+describe('AttachmentService', () => {
+  let userId: string;
+  let item: IVaultItem;
+
+  const upload = (body: Buffer = ciphertext, overrides: Partial<AttachmentInput> = {}) =>
+    AttachmentService.upload(userId, item.id, attachmentInput(overrides), Readable.from([body]));
+
+  beforeEach(async () => {
+    const user = await User.create({
+      email: 'attachments@example.com',
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      masterKeySalt: '00112233445566778899aabbccddeeff',
+      zeroKnowledge: true,
+    });
+    userId = user._id.toString();
+    item = await VaultItem.create({ userId, ...mockVaultItems[0], clientEncrypted: true });
+  });
+
+  describe('upload and download', () => {
+    it('should store the ciphertext and count it on the item', async () => {
+      const attachment = await upload();
+
+      expect(attachment.toJSON()).not.toHaveProperty('blobKey');
+      expect((await VaultItem.findById(item.id))!.attachmentCount).toBe(1);
+
+      const { content } = await AttachmentService.download(userId, item.id, attachment.id);
+      expect(await readAll(content)).toEqual(ciphertext);
+    });
+
+    it('should reject bodies that do not match the declared size', async () => {
+      await expect(upload(ciphertext, { size: ciphertext.length - 1 })).rejects.toThrow('Attachment is larger than its declared size');
+      await expect(upload(ciphertext, { size: ciphertext.length + 1 })).rejects.toThrow('Attachment upload was incomplete');
+
+      expect(await Attachment.countDocuments({ itemId: item.id })).toBe(0);
+    });
+
+    it('should reject attachments over the size limit before reading them', async () => {
+      await expect(upload(ciphertext, { size: AttachmentService.MAX_SIZE_BYTES + 1 })).rejects.toThrow(AppError);
+    });
+
+    it('should not let other users download an attachment', async () => {
+      const attachment = await upload();
+      const other = await User.create({
+        email: 'other@example.com',
+        password: await AuthService.hashPassword('TestPassword123!'),
+        masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      });
+
+      await expect(AttachmentService.download(other._id.toString(), item.id, attachment.id)).rejects.toThrow('Attachment not found');
+    });
+  });
+
+  it('should remove the attachment and its ciphertext', async () => {
+    const attachment = await upload();
+
+    await AttachmentService.remove(userId, item.id, attachment.id);
+
+    expect((await VaultItem.findById(item.id))!.attachmentCount).toBe(0);
+    expect(fs.readdirSync(path.join(attachmentDir, userId))).toHaveLength(0);
+  });
+
+  describe('assertAttachmentKeys', () => {
+    it('should require a key for every attachment when the data key changes', async () => {
+      const attachment = await upload();
+      const withAttachment = (await VaultItem.findById(item.id))!;
+
+      await expect(AttachmentService.assertAttachmentKeys(withAttachment)).rejects.toThrow('Every attachment key must be re-wrapped under the new data key');
+
+      const keys = [{ attachmentId: attachment.id, encryptedKey: 'cmV3cmFwcGVkLWtleQ==' }];
+      await AttachmentService.assertAttachmentKeys(withAttachment, keys);
+      await AttachmentService.setAttachmentKeys(keys);
+
+      expect((await Attachment.findById(attachment.id))!.encryptedKey).toBe('cmV3cmFwcGVkLWtleQ==');
+    });
+  });
+
+  it('should delete attachments when the item is purged from the trash', async () => {
+    await upload();
+    const withAttachment = (await VaultItem.findById(item.id))!;
+    await withAttachment.softDelete(30);
+
+    await TrashService.emptyTrash(userId);
+
+    expect(await Attachment.countDocuments({ itemId: item.id })).toBe(0);
+    expect(fs.readdirSync(path.join(attachmentDir, userId))).toHaveLength(0);
+  });
+});
@@ -1,7 +1,24 @@
-import { AuthService } from '../../services/auth';
+import jwt from 'jsonwebtoken';
+import speakeasy from 'speakeasy';
+import { AuthService, AuthResult } from '../../services/auth';
+import { SecurityFeaturesService } from '../../services/securityFeatures';
+import { DeviceService } from '../../services/devices';
+import { SessionService } from '../../services/sessions';
+import { TokenDenylistService } from '../../services/tokenDenylist';
+import { KdfService } from '../../services/kdf';
+import { WebAuthnService } from '../../services/webauthn';
 import { User } from '../../models/User';
+import { WebAuthnCredential } from '../../models/WebAuthnCredential';
 import { AppError } from '../../middleware/errorHandler';
 
+// Key material a browser would derive from the master password
+const vaultKeys = {
+  masterPasswordHash: 'bWFzdGVyLXBhc3N3b3JkLWhhc2gtZGVyaXZlZC1ieS1jbGllbnQ=',
+  masterKeySalt: '00112233445566778899aabbccddeeff',
+  encryptedVaultKey: 'd3JhcHBlZC12YXVsdC1rZXk=',
+  kdf: KdfService.CURRENT,
+};
+
 describe('AuthService', () => {
   describe('hashPassword', () => {
     it('should hash a password using Argon2id', async () => {
@@ -73,13 +90,12 @@ describe('AuthService', () => {
       const userData = {
         email: 'test@example.com',
         password: 'TestPassword123!',
-        masterPassword: 'MasterPassword123!',
       };
 
       const result = await AuthService.register(
         userData.email,
         userData.password,
-        userData.masterPassword
+        vaultKeys
       );
 
       expect(result.user).toBeDefined();
@@ -93,14 +109,13 @@ describe('AuthService', () => {
       const userData = {
         email: 'test@example.com',
         password: 'TestPassword123!',
-        masterPassword: 'MasterPassword123!',
       };
 
       // Register first user
       await AuthService.register(
         userData.email,
         userData.password,
-        userData.masterPassword
+        vaultKeys
       );
 
       // Try to register with same email
@@ -108,7 +123,7 @@ describe('AuthService', () => {
         AuthService.register(
           userData.email,
           userData.password,
-          userData.masterPassword
+          vaultKeys
         )
       ).rejects.toThrow(AppError);
     });
@@ -117,17 +132,22 @@ describe('AuthService', () => {
       const userData = {
         email: 'test@example.com',
         password: 'weak',
-        masterPassword: 'MasterPassword123!',
       };
 
       await expect(
         AuthService.register(
           userData.email,
           userData.password,
-          userData.masterPassword
+          vaultKeys
         )
       ).rejects.toThrow(AppError);
     });
+
+    it('should reject a guessable password that has every character class', async () => {
+      await expect(
+        AuthService.register('test@example.com', 'P@ssword123', vaultKeys)
+      ).rejects.toThrow('Password is too easy to guess');
+    });
   });
 
   describe('login', () => {
@@ -136,12 +156,12 @@ describe('AuthService', () => {
       await AuthService.register(
         'test@example.com',
         'TestPassword123!',
-        'MasterPassword123!'
+        vaultKeys
       );
     });
 
     it('should login with correct credentials', async () => {
-      const result = await AuthService.login('test@example.com', 'TestPassword123!');
+      const result = await AuthService.login('test@example.com', 'TestPassword123!') as AuthResult;
 
       expect(result.user).toBeDefined();
       expect(result.user.email).toBe('test@example.com');
@@ -162,20 +182,321 @@ describe('AuthService', () => {
     });
   });
 
+  describe('loginWithTwoFactor', () => {
+    const secret = 'JBSWY3DPEHPK3PXP';
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+      const { user } = await AuthService.register(
+        'test@example.com',
+        'TestPassword123!',
+        vaultKeys
+      );
+      await User.findByIdAndUpdate(user.id, { twoFactorEnabled: true, twoFactorSecret: secret });
+      recoveryCodes = await SecurityFeaturesService.generateRecoveryCodes(user.id.toString());
+    });
+
+    const getChallengeToken = async (): Promise<string> => {
+      const result = await AuthService.login('test@example.com', 'TestPassword123!');
+      if (!('requiresTwoFactor' in result)) {
+        throw new Error('Expected a two-factor challenge');
+      }
+      return result.challengeToken;
+    };
+
+    it('should return a challenge instead of tokens when 2FA is enabled', async () => {
+      const result = await AuthService.login('test@example.com', 'TestPassword123!');
+
+      expect(result).toEqual({ requiresTwoFactor: true, challengeToken: expect.any(String), methods: ['totp'] });
+    });
+
+    it('should issue tokens for a valid TOTP code', async () => {
+      const code = speakeasy.totp({ secret, encoding: 'base32' });
+
+      const result = await AuthService.loginWithTwoFactor(await getChallengeToken(), code);
+
+      expect(result.accessToken).toBeDefined();
+      expect(result.refreshToken).toBeDefined();
+    });
+
+    it('should not accept the same TOTP code twice', async () => {
+      const code = speakeasy.totp({ secret, encoding: 'base32' });
+
+      await AuthService.loginWithTwoFactor(await getChallengeToken(), code);
+
+      await expect(AuthService.loginWithTwoFactor(await getChallengeToken(), code)).rejects.toThrow(AppError);
+    });
+
+    it('should reject TOTP codes beyond one step of drift', async () => {
+      const code = speakeasy.totp({ secret, encoding: 'base32', time: Math.floor(Date.now() / 1000) - 90 });
+
+      await expect(AuthService.loginWithTwoFactor(await getChallengeToken(), code)).rejects.toThrow(AppError);
+    });
+
+    it('should only check recovery codes against input shaped like one', async () => {
+      const challengeToken = await getChallengeToken();
+      const verifyPassword = jest.spyOn(AuthService, 'verifyPassword');
+
+      await expect(AuthService.loginWithTwoFactor(challengeToken, 'not-a-recovery-code')).rejects.toThrow(AppError);
+
+      expect(verifyPassword).not.toHaveBeenCalled();
+      verifyPassword.mockRestore();
+    });
+
+    it('should accept a recovery code only once', async () => {
+      const result = await AuthService.loginWithTwoFactor(await getChallengeToken(), recoveryCodes[0].toLowerCase());
+      expect(result.accessToken).toBeDefined();
+
+      await expect(
+        AuthService.loginWithTwoFactor(await getChallengeToken(), recoveryCodes[0])
+      ).rejects.toThrow(AppError);
+
+      const user = await User.findOne({ email: 'test@example.com' });
+      expect(user?.twoFactorRecoveryCodes).toHaveLength(recoveryCodes.length - 1);
+    });
+
+    it('should not accept a challenge token as an access token', async () => {
+      const challengeToken = await getChallengeToken();
+
+      expect(() => AuthService.verifyAccessToken(challengeToken)).toThrow(AppError);
+    });
+  });
+
+  describe('two-factor challenge', () => {
+    const secret = 'JBSWY3DPEHPK3PXP';
+    const laptop = { deviceId: 'laptop', userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0' };
+    const phone = { deviceId: 'phone', userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) Safari/604.1' };
+    let userId: string;
+
+    beforeEach(async () => {
+      const { user } = await AuthService.register(
+        'test@example.com',
+        'TestPassword123!',
+        vaultKeys,
+        laptop
+      );
+      userId = user.id.toString();
+      await User.findByIdAndUpdate(userId, { twoFactorEnabled: true, twoFactorSecret: secret });
+      await WebAuthnCredential.create({
+        userId,
+        credentialId: 'credential-1',
+        publicKey: 'cHVibGljLWtleQ',
+        name: 'Security key',
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const getChallengeToken = async (): Promise<string> => {
+      const result = await AuthService.login('test@example.com', 'TestPassword123!', laptop);
+      if (!('requiresTwoFactor' in result)) {
+        throw new Error('Expected a two-factor challenge');
+      }
+      return result.challengeToken;
+    };
+
+    const totpCode = () => speakeasy.totp({ secret, encoding: 'base32' });
+
+    it('should offer every second factor the account has', async () => {
+      const result = await AuthService.login('test@example.com', 'TestPassword123!', laptop);
+
+      expect(result).toMatchObject({ requiresTwoFactor: true, methods: ['totp', 'webauthn'] });
+    });
+
+    it('should reject a token issued for another audience', async () => {
+      const { accessToken } = await AuthService.loginWithTwoFactor(await getChallengeToken(), totpCode(), laptop);
+
+      await expect(AuthService.loginWithTwoFactor(accessToken, totpCode(), laptop))
+        .rejects.toMatchObject({ statusCode: 401, code: 'INVALID_2FA_CHALLENGE' });
+    });
+
+    it('should reject a challenge of another type', async () => {
+      const token = jwt.sign(
+        { userId, device: DeviceService.fingerprint(laptop), type: 'access' },
+        process.env.JWT_SECRET!,
+        { expiresIn: '5m', issuer: 'astadigbandhanam', audience: 'astadigbandhanam-mfa' }
+      );
+
+      await expect(AuthService.loginWithTwoFactor(token, totpCode(), laptop))
+        .rejects.toMatchObject({ statusCode: 401, code: 'INVALID_2FA_CHALLENGE' });
+    });
+
+    it('should reject a challenge completed from another device', async () => {
+      const challengeToken = await getChallengeToken();
+
+      await expect(AuthService.loginWithTwoFactor(challengeToken, totpCode(), phone))
+        .rejects.toMatchObject({ code: 'INVALID_2FA_CHALLENGE' });
+      await expect(AuthService.loginWithMasterPassword(challengeToken, vaultKeys.masterPasswordHash, phone))
+        .rejects.toMatchObject({ code: 'INVALID_2FA_CHALLENGE' });
+      await expect(AuthService.generateWebAuthnLoginOptions(challengeToken, phone))
+        .rejects.toMatchObject({ code: 'INVALID_2FA_CHALLENGE' });
+    });
+
+    it('should reject an expired challenge', async () => {
+      const challengeToken = await getChallengeToken();
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 6 * 60 * 1000);
+
+      await expect(AuthService.loginWithTwoFactor(challengeToken, totpCode(), laptop))
+        .rejects.toMatchObject({ statusCode: 401, code: '2FA_CHALLENGE_EXPIRED' });
+    });
+
+    it('should issue tokens for a TOTP code', async () => {
+      const result = await AuthService.loginWithTwoFactor(await getChallengeToken(), totpCode(), laptop);
+
+      expect(result.user.email).toBe('test@example.com');
+      expect(result.accessToken).toBeDefined();
+    });
+
+    it('should issue tokens for a security key assertion', async () => {
+      const user = await User.findById(userId);
+      const verifyAuthentication = jest.spyOn(WebAuthnService, 'verifyAuthentication').mockResolvedValue(user!);
+      const response = {
+        id: 'credential-1',
+        rawId: 'credential-1',
+        type: 'public-key' as const,
+        clientExtensionResults: {},
+        response: { clientDataJSON: '', authenticatorData: '', signature: '' },
+      };
+
+      const result = await AuthService.loginWithWebAuthn(response, await getChallengeToken(), laptop);
+
+      expect(result.accessToken).toBeDefined();
+      expect(verifyAuthentication).toHaveBeenCalledWith(response, userId);
+    });
+
+    it('should not let the master password replace a second factor', async () => {
+      await expect(AuthService.loginWithMasterPassword(await getChallengeToken(), vaultKeys.masterPasswordHash, laptop))
+        .rejects.toMatchObject({ statusCode: 403, code: '2FA_REQUIRED' });
+    });
+  });
+
+  describe('device verification', () => {
+    const knownDevice = { deviceId: 'known-device', userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0' };
+    const newDevice = { deviceId: 'new-device', userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Firefox/121.0' };
+
+    beforeEach(async () => {
+      await AuthService.register(
+        'test@example.com',
+        'TestPassword123!',
+        vaultKeys,
+        knownDevice
+      );
+    });
+
+    it('should issue tokens directly on a trusted device', async () => {
+      const result = await AuthService.login('test@example.com', 'TestPassword123!', knownDevice);
+
+      expect((result as AuthResult).accessToken).toBeDefined();
+    });
+
+    it('should require the master password on an unknown device', async () => {
+      const result = await AuthService.login('test@example.com', 'TestPassword123!', newDevice);
+      if (!('requiresTwoFactor' in result)) {
+        throw new Error('Expected a device challenge');
+      }
+      expect(result.methods).toEqual(['master_password']);
+      expect(result.kdf?.salt).toBe(vaultKeys.masterKeySalt);
+
+      await expect(
+        AuthService.loginWithMasterPassword(result.challengeToken, vaultKeys.masterPasswordHash, knownDevice)
+      ).rejects.toThrow(AppError);
+
+      const verified = await AuthService.loginWithMasterPassword(result.challengeToken, vaultKeys.masterPasswordHash, newDevice);
+      expect(verified.accessToken).toBeDefined();
+
+      const user = await User.findOne({ email: 'test@example.com' });
+      expect(await DeviceService.isTrusted(user!._id.toString(), newDevice)).toBe(true);
+    });
+
+    it('should stop refreshing tokens issued to a revoked device', async () => {
+      const result = await AuthService.login('test@example.com', 'TestPassword123!', knownDevice) as AuthResult;
+      const [device] = await DeviceService.listDevices(result.user.id.toString());
+
+      await DeviceService.revokeDevice(result.user.id.toString(), device._id.toString());
+
+      await expect(AuthService.refreshToken(result.refreshToken)).rejects.toThrow(AppError);
+      expect(await DeviceService.isTrusted(result.user.id.toString(), knownDevice)).toBe(false);
+    });
+
+    it('should revoke the access tokens issued to a revoked device', async () => {
+      const onDevice = await AuthService.login('test@example.com', 'TestPassword123!', knownDevice) as AuthResult;
+      const elsewhere = await AuthService.login('test@example.com', 'TestPassword123!', newDevice);
+      if (!('requiresTwoFactor' in elsewhere)) {
+        throw new Error('Expected a device challenge');
+      }
+      const other = await AuthService.loginWithMasterPassword(elsewhere.challengeToken, vaultKeys.masterPasswordHash, newDevice);
+      const [device] = (await DeviceService.listDevices(onDevice.user.id.toString()))
+        .filter(candidate => candidate.userAgent === knownDevice.userAgent);
+
+      await DeviceService.revokeDevice(onDevice.user.id.toString(), device._id.toString());
+
+      expect(await TokenDenylistService.isRevoked(AuthService.verifyAccessToken(onDevice.accessToken))).toBe(true);
+      expect(await TokenDenylistService.isRevoked(AuthService.verifyAccessToken(other.accessToken))).toBe(false);
+    });
+  });
+
+  describe('refreshToken', () => {
+    beforeEach(async () => {
+      await AuthService.register(
+        'test@example.com',
+        'TestPassword123!',
+        vaultKeys
+      );
+    });
+
+    it('should rotate the refresh token', async () => {
+      const login = await AuthService.login('test@example.com', 'TestPassword123!') as AuthResult;
+
+      const result = await AuthService.refreshToken(login.refreshToken);
+
+      expect(result.refreshToken).not.toBe(login.refreshToken);
+      expect((await AuthService.refreshToken(result.refreshToken)).accessToken).toBeDefined();
+    });
+
+    it('should revoke the session when an old refresh token is reused', async () => {
+      const login = await AuthService.login('test@example.com', 'TestPassword123!') as AuthResult;
+      const rotated = await AuthService.refreshToken(login.refreshToken);
+
+      await expect(AuthService.refreshToken(login.refreshToken)).rejects.toThrow(AppError);
+      await expect(AuthService.refreshToken(rotated.refreshToken)).rejects.toThrow(AppError);
+    });
+
+    it('should keep other sessions when one is revoked', async () => {
+      const first = await AuthService.login('test@example.com', 'TestPassword123!') as AuthResult;
+      const second = await AuthService.login('test@example.com', 'TestPassword123!') as AuthResult;
+
+      const { sessionId } = AuthService.verifyAccessToken(first.accessToken);
+      await SessionService.revokeSession(first.user.id.toString(), sessionId);
+
+      await expect(AuthService.refreshToken(first.refreshToken)).rejects.toThrow(AppError);
+      expect((await AuthService.refreshToken(second.refreshToken)).accessToken).toBeDefined();
+    });
+  });
+
   describe('logout', () => {
     it('should logout user successfully', async () => {
       // Register and login a user
       const registerResult = await AuthService.register(
         'test@example.com',
         'TestPassword123!',
-        'MasterPassword123!'
+        vaultKeys
       );
+      const login = await AuthService.login('test@example.com', 'TestPassword123!') as AuthResult;
+      const decoded = AuthService.verifyAccessToken(registerResult.accessToken);
+
+      await AuthService.logout(registerResult.user.id, decoded.sessionId, decoded);
 
-      await AuthService.logout(registerResult.user.id);
+      // Verify only the current session is ended
+      await expect(AuthService.refreshToken(registerResult.refreshToken)).rejects.toThrow(AppError);
+      expect(await SessionService.listSessions(registerResult.user.id.toString())).toHaveLength(1);
+      expect((await AuthService.refreshToken(login.refreshToken)).accessToken).toBeDefined();
 
-      // Verify user's refresh token is cleared
-      const user = await User.findById(registerResult.user.id);
-      expect(user?.refreshToken).toBeNull();
+      // The access token is denylisted, falling back to memory without Redis
+      expect(await TokenDenylistService.isRevoked(decoded)).toBe(true);
+      expect(await TokenDenylistService.isRevoked(AuthService.verifyAccessToken(login.accessToken))).toBe(false);
     });
   });
 });
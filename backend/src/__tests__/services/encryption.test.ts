@@ -1,4 +1,7 @@
+import crypto from 'crypto';
 import { EncryptionService } from '../../services/encryption';
+import { CiphertextVersion } from '../../models/VaultItem';
+import { mockLegacyVaultItem } from '../mockData';
 
 describe('EncryptionService', () => {
   describe('generateKey', () => {
@@ -95,6 +98,46 @@ describe('EncryptionService', () => {
         EncryptionService.decryptAES(encrypted, key);
       }).toThrow();
     });
+
+    it('should use a fresh IV for every encryption', () => {
+      const data = 'This is a test message';
+      const key = EncryptionService.generateKey();
+
+      const encrypted1 = EncryptionService.encryptAES(data, key);
+      const encrypted2 = EncryptionService.encryptAES(data, key);
+
+      expect(encrypted1.iv).not.toBe(encrypted2.iv);
+      expect(encrypted1.encrypted).not.toBe(encrypted2.encrypted);
+    });
+  });
+
+  describe('XChaCha20-Poly1305 encryption/decryption', () => {
+    it('should encrypt and decrypt data correctly', () => {
+      const data = 'This is a test message';
+      const key = EncryptionService.generateKey();
+
+      const encrypted = EncryptionService.encryptXChaCha(data, key);
+
+      expect(encrypted.iv).toHaveLength(48); // 24-byte nonce
+      expect(EncryptionService.decryptXChaCha(encrypted, key)).toBe(data);
+    });
+
+    it('should not be readable as AES-256-GCM', () => {
+      const key = EncryptionService.generateKey();
+
+      const encrypted = EncryptionService.encryptXChaCha('This is a test message', key);
+
+      expect(() => EncryptionService.decryptAES(encrypted, key)).toThrow();
+    });
+
+    it('should fail to decrypt with a tampered tag', () => {
+      const key = EncryptionService.generateKey();
+
+      const encrypted = EncryptionService.encryptXChaCha('This is a test message', key);
+      encrypted.tag = '00'.repeat(16);
+
+      expect(() => EncryptionService.decryptXChaCha(encrypted, key)).toThrow();
+    });
   });
 
   describe('envelope encryption/decryption', () => {
@@ -131,6 +174,129 @@ describe('EncryptionService', () => {
         );
       }).toThrow();
     });
+
+    it('should store the wrapped data key with its own IV and tag', () => {
+      const masterKey = EncryptionService.generateKey();
+
+      const encrypted = EncryptionService.envelopeEncrypt('This is a test message', masterKey, 'xchacha');
+      const tampered = encrypted.encryptedDataKey.slice(0, -2) + (encrypted.encryptedDataKey.endsWith('00') ? '01' : '00');
+
+      expect(EncryptionService.unwrapDataKey(encrypted.encryptedDataKey, masterKey)).toHaveLength(32);
+      expect(() => EncryptionService.unwrapDataKey(tampered, masterKey)).toThrow();
+    });
+  });
+
+  describe('rewrapDataKey', () => {
+    it('should move a data key to a new master key without re-encrypting the data', () => {
+      const data = 'This is a test message';
+      const oldMasterKey = EncryptionService.generateKey();
+      const newMasterKey = EncryptionService.generateKey();
+
+      const encrypted = EncryptionService.envelopeEncrypt(data, oldMasterKey);
+      const rewrapped = EncryptionService.rewrapDataKey(encrypted.encryptedDataKey, oldMasterKey, newMasterKey);
+
+      expect(EncryptionService.envelopeDecrypt(encrypted.encryptedData, rewrapped, encrypted.iv, encrypted.tag, newMasterKey)).toBe(data);
+      expect(() => EncryptionService.rewrapDataKey(rewrapped, oldMasterKey, newMasterKey)).toThrow();
+    });
+  });
+
+  describe('legacy ciphertext', () => {
+    const { item } = mockLegacyVaultItem;
+    const masterKey = Buffer.from(mockLegacyVaultItem.masterKey, 'hex');
+    const data = JSON.stringify(mockLegacyVaultItem.data);
+
+    it('should decrypt items in the legacy format', () => {
+      const decrypted = EncryptionService.envelopeDecrypt(
+        item.encryptedData,
+        item.encryptedDataKey,
+        item.iv,
+        item.tag,
+        masterKey,
+        'aes',
+        CiphertextVersion.LEGACY
+      );
+
+      expect(decrypted).toBe(data);
+    });
+
+    it('should reject the wrong master key', () => {
+      expect(() => EncryptionService.envelopeDecrypt(
+        item.encryptedData,
+        item.encryptedDataKey,
+        item.iv,
+        item.tag,
+        EncryptionService.generateKey(),
+        'aes',
+        CiphertextVersion.LEGACY
+      )).toThrow();
+    });
+
+    it('should re-encrypt legacy items in the current format', () => {
+      const upgraded = EncryptionService.upgradeEnvelope(
+        item.encryptedData,
+        item.encryptedDataKey,
+        item.tag,
+        masterKey,
+        'xchacha'
+      );
+
+      expect(upgraded.encryptedData).not.toBe(item.encryptedData);
+      expect(EncryptionService.envelopeDecrypt(
+        upgraded.encryptedData,
+        upgraded.encryptedDataKey,
+        upgraded.iv,
+        upgraded.tag,
+        masterKey,
+        'xchacha'
+      )).toBe(data);
+    });
+  });
+
+  describe('keypairs', () => {
+    // RSA key generation is slow, so the tests share one pair
+    const keyPair = EncryptionService.generateKeyPair();
+
+    it('should generate a valid public key', () => {
+      expect(EncryptionService.isValidPublicKey(keyPair.publicKey)).toBe(true);
+    });
+
+    it('should reject malformed and weak public keys', () => {
+      const weak = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 1024,
+        publicKeyEncoding: { type: 'spki', format: 'der' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+      });
+
+      expect(EncryptionService.isValidPublicKey('bm90IGEga2V5')).toBe(false);
+      expect(EncryptionService.isValidPublicKey(weak.publicKey.toString('base64'))).toBe(false);
+    });
+
+    it('should wrap a data key only the private key can unwrap', () => {
+      const dataKey = EncryptionService.generateKey();
+      const other = EncryptionService.generateKeyPair();
+
+      const wrapped = EncryptionService.wrapKeyForRecipient(dataKey, keyPair.publicKey);
+
+      expect(EncryptionService.unwrapKeyWithPrivateKey(wrapped, keyPair.privateKey)).toEqual(dataKey);
+      expect(() => EncryptionService.unwrapKeyWithPrivateKey(wrapped, other.privateKey)).toThrow('Data key unwrap failed');
+    });
+
+    it('should round-trip a private key wrapped by a master key', () => {
+      const masterKey = EncryptionService.generateKey();
+
+      const encryptedPrivateKey = EncryptionService.wrapPrivateKey(keyPair.privateKey, masterKey);
+
+      expect(EncryptionService.unwrapPrivateKey(encryptedPrivateKey, masterKey)).toBe(keyPair.privateKey);
+      expect(() => EncryptionService.unwrapPrivateKey(encryptedPrivateKey, EncryptionService.generateKey())).toThrow();
+    });
+
+    it('should fingerprint a public key deterministically', () => {
+      const fingerprint = EncryptionService.publicKeyFingerprint(keyPair.publicKey);
+
+      expect(fingerprint).toMatch(/^([0-9a-f]{4} ){15}[0-9a-f]{4}$/);
+      expect(EncryptionService.publicKeyFingerprint(keyPair.publicKey)).toBe(fingerprint);
+      expect(EncryptionService.publicKeyFingerprint(EncryptionService.generateKeyPair().publicKey)).not.toBe(fingerprint);
+    });
   });
 
   describe('hash', () => {
@@ -0,0 +1,116 @@
+import { FolderService } from '../../services/folders';
+import { TrashService } from '../../services/trash';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { Folder, FolderDeletePolicy } from '../../models/Folder';
+import { VaultItem } from '../../models/VaultItem';
+import { AppError } from '../../middleware/errorHandler';
+import { mockVaultItems } from '../mockData';
+
+const encryptedName = 'ZW5jcnlwdGVkLWZvbGRlci1uYW1l';
+
+describe('FolderService', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      email: 'folders@example.com',
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      masterKeySalt: '00112233445566778899aabbccddeeff',
+      zeroKnowledge: true,
+    });
+    userId = user._id.toString();
+  });
+
+  const createTree = async () => {
+    const root = await FolderService.create(userId, encryptedName);
+    const child = await FolderService.create(userId, encryptedName, root.id);
+    const grandchild = await FolderService.create(userId, encryptedName, child.id);
+    return { root, child, grandchild };
+  };
+
+  describe('create', () => {
+    it('should reject parents of another user', async () => {
+      const other = await Folder.create({ userId: '507f1f77bcf86cd799439011', encryptedName });
+
+      await expect(FolderService.create(userId, encryptedName, other.id)).rejects.toThrow(AppError);
+    });
+
+    it('should limit nesting depth', async () => {
+      let parentId: string | null = null;
+      for (let depth = 1; depth <= FolderService.MAX_DEPTH; depth++) {
+        parentId = (await FolderService.create(userId, encryptedName, parentId)).id;
+      }
+
+      await expect(FolderService.create(userId, encryptedName, parentId)).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('move', () => {
+    it('should move a folder under another one', async () => {
+      const { grandchild } = await createTree();
+      const other = await FolderService.create(userId, encryptedName);
+
+      const moved = await FolderService.move(userId, grandchild.id, other.id);
+
+      expect(moved.parentId?.toString()).toBe(other.id);
+    });
+
+    it('should refuse to move a folder into its own subtree', async () => {
+      const { root, grandchild } = await createTree();
+
+      await expect(FolderService.move(userId, root.id, grandchild.id)).rejects.toThrow(AppError);
+      await expect(FolderService.move(userId, root.id, root.id)).rejects.toThrow(AppError);
+    });
+
+    it('should move a folder to the top level', async () => {
+      const { child } = await createTree();
+
+      const moved = await FolderService.move(userId, child.id, null);
+
+      expect(moved.parentId).toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('should move items and subfolders up to the parent by default', async () => {
+      const { root, child, grandchild } = await createTree();
+      const item = await VaultItem.create({ userId, ...mockVaultItems[0], folderId: child._id });
+
+      const result = await FolderService.delete(userId, child.id);
+
+      expect(result).toEqual({ movedItems: 1, trashedItems: 0 });
+      expect((await VaultItem.findById(item._id))!.folderId?.toString()).toBe(root.id);
+      expect((await Folder.findById(grandchild._id))!.parentId?.toString()).toBe(root.id);
+      expect(await Folder.findById(child._id)).toBeNull();
+    });
+
+    it('should trash every item below the folder with the trash policy', async () => {
+      const { root, child, grandchild } = await createTree();
+      const outside = await VaultItem.create({ userId, ...mockVaultItems[0] });
+      const inChild = await VaultItem.create({ userId, ...mockVaultItems[1], folderId: child._id });
+      const inGrandchild = await VaultItem.create({ userId, ...mockVaultItems[2], folderId: grandchild._id });
+
+      const result = await FolderService.delete(userId, child.id, FolderDeletePolicy.TRASH);
+
+      expect(result).toEqual({ movedItems: 0, trashedItems: 2 });
+      expect(await Folder.find({ userId }).then(folders => folders.map(folder => folder.id))).toEqual([root.id]);
+
+      const trash = await TrashService.listTrash(userId);
+      expect(trash.map(item => item.id).sort()).toEqual([inChild.id, inGrandchild.id].sort());
+      expect(trash[0].purgeAt).not.toBeNull();
+      expect(await VaultItem.findById(outside._id)).not.toBeNull();
+    });
+
+    it('should restore trashed items outside any folder once their folder is gone', async () => {
+      const { child } = await createTree();
+      const item = await VaultItem.create({ userId, ...mockVaultItems[0], folderId: child._id });
+      await FolderService.delete(userId, child.id, FolderDeletePolicy.TRASH);
+
+      const restored = await TrashService.restore(userId, item.id);
+
+      expect(restored.folderId).toBeNull();
+    });
+  });
+});
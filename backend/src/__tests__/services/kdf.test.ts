@@ -0,0 +1,55 @@
+import { KdfService } from '../../services/kdf';
+import { EncryptionService } from '../../services/encryption';
+import { KdfAlgorithm } from '../../models/User';
+import { AppError } from '../../middleware/errorHandler';
+
+describe('KdfService', () => {
+  const salt = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+
+  describe('deriveKey', () => {
+    it('should derive legacy keys exactly as before', async () => {
+      const key = await KdfService.deriveKey('MasterPassword123!', salt, KdfService.LEGACY);
+
+      expect(key).toEqual(EncryptionService.deriveKeyFromPassword('MasterPassword123!', salt));
+    });
+
+    it('should derive a 32-byte Argon2id key deterministically', async () => {
+      const key1 = await KdfService.deriveKey('MasterPassword123!', salt, KdfService.CURRENT);
+      const key2 = await KdfService.deriveKey('MasterPassword123!', salt, KdfService.CURRENT);
+
+      expect(key1.length).toBe(32);
+      expect(key1).toEqual(key2);
+      expect(key1).not.toEqual(await KdfService.deriveKey('MasterPassword123!', salt, KdfService.LEGACY));
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept the current parameters', () => {
+      expect(KdfService.validate(KdfService.CURRENT)).toEqual(KdfService.CURRENT);
+    });
+
+    it('should drop Argon2id options from PBKDF2 parameters', () => {
+      expect(KdfService.validate({ ...KdfService.LEGACY, memory: 65536, parallelism: 4 })).toEqual(KdfService.LEGACY);
+    });
+
+    it('should reject weak parameters', () => {
+      expect(() => KdfService.validate({ ...KdfService.CURRENT, memory: 1024 })).toThrow(AppError);
+      expect(() => KdfService.validate({ ...KdfService.LEGACY, iterations: 1000 })).toThrow(AppError);
+      expect(() => KdfService.validate({ ...KdfService.CURRENT, algorithm: 'scrypt' as KdfAlgorithm })).toThrow(AppError);
+    });
+
+    it('should derive the version from the parameters instead of trusting the client', () => {
+      expect(KdfService.validate({ ...KdfService.LEGACY, version: 2 }).version).toBe(KdfService.LEGACY.version);
+      expect(KdfService.validate({ ...KdfService.CURRENT, memory: 2 ** 14, version: 2 }).version).toBe(KdfService.LEGACY.version);
+      expect(KdfService.validate({ ...KdfService.CURRENT, iterations: 4, memory: 2 ** 17, version: 1 }).version).toBe(KdfService.CURRENT.version);
+      expect(KdfService.isOutdated(KdfService.validate({ ...KdfService.CURRENT, iterations: 2, version: 99 }))).toBe(true);
+    });
+  });
+
+  describe('isOutdated', () => {
+    it('should flag parameters older than the current version', () => {
+      expect(KdfService.isOutdated(KdfService.LEGACY)).toBe(true);
+      expect(KdfService.isOutdated(KdfService.CURRENT)).toBe(false);
+    });
+  });
+});
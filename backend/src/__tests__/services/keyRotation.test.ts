@@ -0,0 +1,85 @@
+import { KeyRotationService } from '../../services/keyRotation';
+import { AuthService } from '../../services/auth';
+import { SessionService } from '../../services/sessions';
+import { EncryptionService } from '../../services/encryption';
+import { User } from '../../models/User';
+import { VaultItem, CiphertextVersion } from '../../models/VaultItem';
+import { KeyRotationStatus } from '../../models/KeyRotation';
+import { AppError } from '../../middleware/errorHandler';
+import { mockLegacyVaultItem } from '../mockData';
+
+describe('KeyRotationService', () => {
+  const newMasterPassword = 'NewMasterPassword456!';
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      email: 'legacy@example.com',
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword(mockLegacyVaultItem.masterPassword),
+      masterKeySalt: mockLegacyVaultItem.masterKeySalt,
+    });
+    userId = user._id.toString();
+
+    await VaultItem.create({ userId, ...mockLegacyVaultItem.item });
+  });
+
+  const decryptItem = async (masterPassword: string) => {
+    const user = await User.findById(userId);
+    const masterKey = await AuthService.generateMasterKey(masterPassword, user!.masterKeySalt, user!.kdf);
+    const item = await VaultItem.findOne({ userId });
+
+    return {
+      item: item!,
+      data: JSON.parse(EncryptionService.envelopeDecrypt(
+        item!.encryptedData,
+        item!.encryptedDataKey,
+        item!.iv,
+        item!.tag,
+        masterKey,
+        item!.algorithm,
+        item!.encryptionVersion
+      )),
+    };
+  };
+
+  describe('startRotation', () => {
+    it('should reject the wrong current master password', async () => {
+      await expect(
+        KeyRotationService.startRotation(userId, 'WrongPassword123!', newMasterPassword)
+      ).rejects.toThrow(AppError);
+    });
+
+    it('should re-encrypt legacy items and re-wrap their keys under the new master key', async () => {
+      const rotation = await KeyRotationService.startRotation(userId, mockLegacyVaultItem.masterPassword, newMasterPassword);
+
+      expect(rotation.status).toBe(KeyRotationStatus.COMPLETED);
+      expect(rotation.processedItems).toBe(1);
+
+      const { item, data } = await decryptItem(newMasterPassword);
+      expect(item.encryptionVersion).toBe(CiphertextVersion.V2);
+      expect(item.keyVersion).toBe(1);
+      expect(item.encryptedData).not.toBe(mockLegacyVaultItem.item.encryptedData);
+      expect(data).toEqual(mockLegacyVaultItem.data);
+    });
+
+    it('should keep items readable after a second rotation', async () => {
+      await KeyRotationService.startRotation(userId, mockLegacyVaultItem.masterPassword, newMasterPassword);
+      await KeyRotationService.startRotation(userId, newMasterPassword, mockLegacyVaultItem.masterPassword);
+
+      const { item, data } = await decryptItem(mockLegacyVaultItem.masterPassword);
+      expect(item.keyVersion).toBe(2);
+      expect(data).toEqual(mockLegacyVaultItem.data);
+    });
+
+    it('should sign out every session but the current one once committed', async () => {
+      const { session: current } = await SessionService.createSession(userId, {});
+      await SessionService.createSession(userId, {});
+
+      await KeyRotationService.startRotation(userId, mockLegacyVaultItem.masterPassword, newMasterPassword, current.id);
+
+      const sessions = await SessionService.listSessions(userId);
+      expect(sessions.map(session => session.id)).toEqual([current.id]);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { OrganizationService } from '../../services/organizations';
+import { CollectionService } from '../../services/collections';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { OrganizationRole } from '../../models/Organization';
+import { OrganizationMember, IOrganizationMember } from '../../models/OrganizationMember';
+import { OrganizationItem } from '../../models/OrganizationItem';
+import { VaultItemType } from '../../models/VaultItem';
+import { AppError } from '../../middleware/errorHandler';
+
+const ciphertext = {
+  encryptedData: 'ZW5jcnlwdGVkLXNoYXJlZC1pdGVt',
+  iv: 'MTIzNDU2Nzg5MDEy',
+  tag: 'YXV0aGVudGljYXRpb24tdGFn',
+};
+
+const wrappedFor = (userId: string) => ({ userId, encryptedDataKey: Buffer.from(`key-for-${userId}`).toString('base64') });
+
+describe('Organizations', () => {
+  let ownerId: string;
+  let memberId: string;
+  let owner: IOrganizationMember;
+
+  const createUser = async (email: string, publicKey: string | null = 'cHVibGljLWtleQ==') => {
+    const user = await User.create({
+      email,
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      masterKeySalt: '00112233445566778899aabbccddeeff',
+      zeroKnowledge: true,
+      publicKey,
+      encryptedPrivateKey: publicKey ? 'd3JhcHBlZC1wcml2YXRlLWtleQ==' : null,
+    });
+    return user._id.toString();
+  };
+
+  const membershipOf = async (userId: string) =>
+    (await OrganizationMember.findOne({ userId }))!;
+
+  beforeEach(async () => {
+    ownerId = await createUser('owner@example.com');
+    memberId = await createUser('member@example.com');
+
+    await OrganizationService.create(ownerId, 'Infrastructure');
+    owner = await membershipOf(ownerId);
+  });
+
+  describe('OrganizationService', () => {
+    it('should make the creator the owner', async () => {
+      const organizations = await OrganizationService.listForUser(ownerId);
+
+      expect(organizations).toHaveLength(1);
+      expect(organizations[0]).toMatchObject({ name: 'Infrastructure', role: OrganizationRole.OWNER, memberCount: 1 });
+    });
+
+    it('should require a published keypair to join', async () => {
+      await createUser('nokeys@example.com', null);
+
+      await expect(
+        OrganizationService.addMember(owner, 'nokeys@example.com', OrganizationRole.MEMBER)
+      ).rejects.toThrow(AppError);
+    });
+
+    it('should only let owners manage owners', async () => {
+      await OrganizationService.addMember(owner, 'member@example.com', OrganizationRole.ADMIN);
+      const admin = await membershipOf(memberId);
+
+      await expect(OrganizationService.updateMemberRole(admin, ownerId, OrganizationRole.MEMBER)).rejects.toThrow(AppError);
+      await expect(OrganizationService.updateMemberRole(admin, memberId, OrganizationRole.OWNER)).rejects.toThrow(AppError);
+    });
+
+    it('should keep at least one owner', async () => {
+      await expect(OrganizationService.removeMember(owner, ownerId)).rejects.toThrow(AppError);
+      await expect(OrganizationService.updateMemberRole(owner, ownerId, OrganizationRole.ADMIN)).rejects.toThrow(AppError);
+    });
+
+    it('should drop a removed member\'s access and wrapped keys', async () => {
+      await OrganizationService.addMember(owner, 'member@example.com', OrganizationRole.MEMBER);
+      const collection = await CollectionService.create(owner, 'Servers');
+      await CollectionService.setAccess(owner, collection.id, [
+        { userId: ownerId, readOnly: false },
+        { userId: memberId, readOnly: true },
+      ]);
+      const item = await CollectionService.createItem(owner, collection.id, VaultItemType.LOGIN, ciphertext, [
+        wrappedFor(ownerId),
+        wrappedFor(memberId),
+      ]);
+
+      await OrganizationService.removeMember(owner, memberId);
+
+      const stored = await OrganizationItem.findById(item.id);
+      expect(stored!.keys.map(key => key.userId.toString())).toEqual([ownerId]);
+    });
+  });
+
+  describe('CollectionService', () => {
+    let collectionId: string;
+    let member: IOrganizationMember;
+
+    beforeEach(async () => {
+      await OrganizationService.addMember(owner, 'member@example.com', OrganizationRole.MEMBER);
+      member = await membershipOf(memberId);
+      collectionId = (await CollectionService.create(owner, 'Servers')).id;
+    });
+
+    it('should require the data key to be wrapped for every collection member', async () => {
+      await CollectionService.setAccess(owner, collectionId, [
+        { userId: ownerId, readOnly: false },
+        { userId: memberId, readOnly: false },
+      ]);
+
+      await expect(
+        CollectionService.createItem(owner, collectionId, VaultItemType.LOGIN, ciphertext, [wrappedFor(ownerId)])
+      ).rejects.toThrow(AppError);
+    });
+
+    it('should give each member only their own wrapped key', async () => {
+      await CollectionService.setAccess(owner, collectionId, [
+        { userId: ownerId, readOnly: false },
+        { userId: memberId, readOnly: true },
+      ]);
+      await CollectionService.createItem(owner, collectionId, VaultItemType.LOGIN, ciphertext, [
+        wrappedFor(ownerId),
+        wrappedFor(memberId),
+      ]);
+
+      const items = await CollectionService.listItems(member);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].encryptedDataKey).toBe(wrappedFor(memberId).encryptedDataKey);
+      expect(items[0].readOnly).toBe(true);
+      await expect(CollectionService.deleteItem(member, items[0].id)).rejects.toThrow(AppError);
+    });
+
+    it('should require wrapped keys for existing items when access is granted', async () => {
+      const item = await CollectionService.createItem(owner, collectionId, VaultItemType.LOGIN, ciphertext, [
+        wrappedFor(ownerId),
+      ]);
+      const access = [
+        { userId: ownerId, readOnly: false },
+        { userId: memberId, readOnly: false },
+      ];
+
+      await expect(CollectionService.setAccess(owner, collectionId, access)).rejects.toThrow(AppError);
+
+      await CollectionService.setAccess(owner, collectionId, access, [{ itemId: item.id, ...wrappedFor(memberId) }]);
+
+      expect(await CollectionService.listItems(member)).toHaveLength(1);
+    });
+
+    it('should hide collections from members without access', async () => {
+      await CollectionService.createItem(owner, collectionId, VaultItemType.LOGIN, ciphertext, [wrappedFor(ownerId)]);
+
+      expect(await CollectionService.list(member)).toEqual([]);
+      expect(await CollectionService.listItems(member)).toEqual([]);
+    });
+
+    it('should not give access to users outside the organization', async () => {
+      const outsiderId = await createUser('outsider@example.com');
+
+      await expect(
+        CollectionService.setAccess(owner, collectionId, [{ userId: outsiderId, readOnly: false }])
+      ).rejects.toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { PasswordGeneratorService, PasswordOptions, GeneratorSettings } from '../../services/passwordGenerator';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { EFF_SHORT_WORDLIST } from '../../data/effShortWordlist';
+import { AppError } from '../../middleware/errorHandler';
+
+const passwordOptions = (overrides: Partial<PasswordOptions> = {}): PasswordOptions => ({
+  ...PasswordGeneratorService.DEFAULT_SETTINGS.password,
+  ...overrides,
+});
+
+describe('PasswordGeneratorService', () => {
+  describe('generatePassword', () => {
+    it('should honour the length and minimum counts', () => {
+      for (let i = 0; i < 50; i++) {
+        const { value } = PasswordGeneratorService.generatePassword(passwordOptions({ length: 12, minNumbers: 3, minSymbols: 2 }));
+
+        expect(value).toHaveLength(12);
+        expect(value.replace(/[^0-9]/g, '').length).toBeGreaterThanOrEqual(3);
+        expect(value.replace(/[a-zA-Z0-9]/g, '').length).toBeGreaterThanOrEqual(2);
+        expect(value).toMatch(/[a-z]/);
+        expect(value).toMatch(/[A-Z]/);
+      }
+    });
+
+    it('should only use enabled classes and leave out ambiguous characters', () => {
+      const { value } = PasswordGeneratorService.generatePassword(passwordOptions({
+        length: 128,
+        uppercase: false,
+        symbols: false,
+        excludeAmbiguous: true,
+      }));
+
+      expect(value).toMatch(/^[a-z2-9]+$/);
+      expect(value).not.toMatch(/[o1l0]/);
+    });
+
+    it('should report entropy from the character pools', () => {
+      const { entropyBits } = PasswordGeneratorService.generatePassword(passwordOptions({
+        length: 16,
+        uppercase: false,
+        numbers: false,
+        symbols: false,
+        minLowercase: 0,
+      }));
+
+      expect(entropyBits).toBeCloseTo(16 * Math.log2(26), 1);
+    });
+
+    it('should reject options that cannot be satisfied', () => {
+      expect(() => PasswordGeneratorService.generatePassword(passwordOptions({ length: 4 }))).toThrow(AppError);
+      expect(() => PasswordGeneratorService.generatePassword(passwordOptions({
+        lowercase: false, uppercase: false, numbers: false, symbols: false,
+      }))).toThrow('Enable at least one character class');
+      expect(() => PasswordGeneratorService.generatePassword(passwordOptions({ length: 8, minNumbers: 5, minSymbols: 5 })))
+        .toThrow('Minimum character counts exceed the length');
+    });
+  });
+
+  describe('generatePassphrase', () => {
+    it('should join words from the EFF short wordlist', () => {
+      const { value, entropyBits } = PasswordGeneratorService.generatePassphrase({ words: 5, separator: '.', capitalize: false });
+
+      const words = value.split('.');
+      expect(words).toHaveLength(5);
+      words.forEach(word => expect(EFF_SHORT_WORDLIST).toContain(word));
+      expect(entropyBits).toBeCloseTo(5 * Math.log2(1296), 1);
+    });
+
+    it('should capitalize words when asked', () => {
+      const { value } = PasswordGeneratorService.generatePassphrase({ words: 4, separator: ' ', capitalize: true });
+
+      value.split(' ').forEach(word => expect(word.charAt(0)).toMatch(/[A-Z]/));
+    });
+
+    it('should reject word counts out of range', () => {
+      expect(() => PasswordGeneratorService.generatePassphrase({ words: 2, separator: '-', capitalize: false })).toThrow(AppError);
+    });
+  });
+
+  describe('settings', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      const user = await User.create({
+        email: 'generator@example.com',
+        password: await AuthService.hashPassword('TestPassword123!'),
+        masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      });
+      userId = user._id.toString();
+    });
+
+    it('should fall back to the defaults until saved', async () => {
+      expect(await PasswordGeneratorService.getSettings(userId)).toEqual(PasswordGeneratorService.DEFAULT_SETTINGS);
+    });
+
+    it('should merge and keep saved settings', async () => {
+      await PasswordGeneratorService.updateSettings(userId, { type: 'passphrase', passphrase: { words: 7, separator: '_', capitalize: true } });
+      await PasswordGeneratorService.updateSettings(userId, { password: { ...PasswordGeneratorService.DEFAULT_SETTINGS.password, length: 32 } });
+
+      const settings = await PasswordGeneratorService.getSettings(userId);
+      expect(settings.type).toBe('passphrase');
+      expect(settings.passphrase).toEqual({ words: 7, separator: '_', capitalize: true });
+      expect(settings.password.length).toBe(32);
+    });
+
+    it('should reject unknown or mistyped options', async () => {
+      const settings = { password: { length: 24, $where: 'sleep(1000)' } } as unknown as Partial<GeneratorSettings>;
+
+      await expect(PasswordGeneratorService.updateSettings(userId, settings)).rejects.toThrow('Unknown or invalid generator option: $where');
+      await expect(PasswordGeneratorService.updateSettings(userId, {
+        passphrase: { words: '7' },
+      } as unknown as Partial<GeneratorSettings>)).rejects.toThrow(AppError);
+      expect(await PasswordGeneratorService.getSettings(userId)).toEqual(PasswordGeneratorService.DEFAULT_SETTINGS);
+    });
+
+    it('should not save settings that cannot generate anything', async () => {
+      await expect(PasswordGeneratorService.updateSettings(userId, {
+        password: passwordOptions({ length: 6, minNumbers: 4, minSymbols: 4 }),
+      })).rejects.toThrow(AppError);
+    });
+  });
+});
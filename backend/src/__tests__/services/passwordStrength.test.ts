@@ -0,0 +1,72 @@
+import { PasswordStrengthService } from '../../services/passwordStrength';
+
+const patterns = (password: string, userInputs?: string[]) =>
+  PasswordStrengthService.estimate(password, userInputs).sequence.map(match => match.pattern);
+
+describe('PasswordStrengthService', () => {
+  describe('estimate', () => {
+    it('should rank common passwords as the weakest', () => {
+      const result = PasswordStrengthService.estimate('password');
+
+      expect(result.score).toBe(0);
+      expect(result.weakest?.dictionary).toBe('passwords');
+      expect(result.weakest?.explanation).toBe('"password" is the 2nd most common password');
+      expect(result.feedback).toHaveLength(1);
+      expect(result.recommendations.length).toBeGreaterThan(0);
+    });
+
+    it('should see through l33t substitutions, capitals and reversal', () => {
+      const l33t = PasswordStrengthService.estimate('P@ssw0rd');
+      expect(l33t.score).toBe(0);
+      expect(l33t.weakest?.substitutions).toEqual({ '@': 'a', '0': 'o' });
+
+      const reversed = PasswordStrengthService.estimate('drowssap');
+      expect(reversed.score).toBe(0);
+      expect(reversed.weakest?.reversed).toBe(true);
+    });
+
+    it('should recognise keyboard patterns, repeats, sequences and dates', () => {
+      expect(patterns('zxcvbnm,./')).toEqual(['spatial']);
+      expect(patterns('abcabcabc')).toEqual(['repeat']);
+      expect(patterns('abcdefgh')).toEqual(['sequence']);
+      expect(patterns('13/05/1987')).toEqual(['date']);
+    });
+
+    it('should treat the user\'s own details as a dictionary', () => {
+      const result = PasswordStrengthService.estimate('hendrix.lovelace', ['hendrix.lovelace@example.com']);
+
+      expect(result.score).toBe(0);
+      expect(result.weakest?.dictionary).toBe('userInputs');
+    });
+
+    it('should give random passwords the top score', () => {
+      const result = PasswordStrengthService.estimate('xK9#mQ2$vL7p');
+
+      expect(result.score).toBe(4);
+      expect(result.weakest).toBeNull();
+      expect(result.feedback).toEqual([]);
+    });
+
+    it('should report crack times for every attacker model', () => {
+      const result = PasswordStrengthService.estimate('Tr0ub4dour&3');
+
+      expect(Object.keys(result.crackTimes)).toEqual([
+        'onlineThrottled',
+        'onlineUnthrottled',
+        'offlineSlowHash',
+        'offlineFastHash',
+      ]);
+      expect(result.crackTimes.onlineThrottled.seconds).toBeGreaterThan(result.crackTimes.offlineFastHash.seconds);
+      expect(result.crackTimes.offlineSlowHash.seconds).toBeCloseTo(result.guesses / 1e4);
+    });
+
+    it('should cover the password with its sequence', () => {
+      const password = 'correct-horse-battery-staple';
+      const { sequence } = PasswordStrengthService.estimate(password);
+
+      expect(sequence.map(match => match.token).join('')).toBe(password);
+      expect(sequence[0].i).toBe(0);
+      expect(sequence[sequence.length - 1].j).toBe(password.length - 1);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import {
+  ApiRangeSource,
+  HashFileRangeSource,
+  PwnedPasswordsService,
+  RangeMirrorSource,
+} from '../../services/pwnedPasswords';
+import { AppError } from '../../middleware/errorHandler';
+
+const sha1 = (value: string) => crypto.createHash('sha1').update(value).digest('hex').toUpperCase();
+
+// A small corpus, padded out with random hashes so ranges and the sorted file have some bulk
+const BREACHED: Record<string, number> = { password: 9545824, letmein: 344385, 'correct horse battery staple': 368 };
+const corpus = new Map<string, number>(Object.entries(BREACHED).map(([password, count]) => [sha1(password), count]));
+for (let i = 0; i < 2000; i++) {
+  corpus.set(crypto.randomBytes(20).toString('hex').toUpperCase(), i + 1);
+}
+const sortedHashes = [...corpus.keys()].sort();
+
+const rangeLines = (prefix: string) =>
+  sortedHashes.filter(hash => hash.startsWith(prefix)).map(hash => `${hash.slice(5)}:${corpus.get(hash)}`);
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pwned-'));
+const requests: Array<{ url: string; padding: boolean }> = [];
+
+// Stand-in for the range API
+const server = http.createServer((req, res) => {
+  const prefix = /^\/range\/([0-9A-F]{5})$/.exec(req.url || '')?.[1];
+  if (!prefix || prefix === 'FFFFF') {
+    res.writeHead(prefix ? 500 : 404);
+    res.end();
+    return;
+  }
+
+  const padding = req.headers['add-padding'] === 'true';
+  requests.push({ url: req.url!, padding });
+  const lines = rangeLines(prefix);
+  if (padding) {
+    lines.push(`${'0'.repeat(35)}:0`);
+  }
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(lines.join('\r\n'));
+});
+
+let baseUrl: string;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // The service reads its source from the environment the first time it is used
+  process.env.PWNED_PASSWORDS_SOURCE = 'api';
+  process.env.PWNED_PASSWORDS_URL = baseUrl;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  PwnedPasswordsService.clearCache();
+});
+
+describe('ApiRangeSource', () => {
+  it('should only send the hash prefix and drop padding entries', async () => {
+    const hash = sha1('password');
+    const range = await new ApiRangeSource(baseUrl).getRange(hash.slice(0, 5));
+
+    expect(requests).toEqual([{ url: `/range/${hash.slice(0, 5)}`, padding: true }]);
+    expect(range.get(hash.slice(5))).toBe(BREACHED.password);
+    expect(range.has('0'.repeat(35))).toBe(false);
+  });
+
+  it('should leave padding off when asked', async () => {
+    await new ApiRangeSource(`${baseUrl}/`, { padding: false }).getRange(sha1('letmein').slice(0, 5));
+
+    expect(requests[0].padding).toBe(false);
+  });
+});
+
+describe('PwnedPasswordsService', () => {
+  it('should count breached passwords and return 0 for others', async () => {
+    expect(await PwnedPasswordsService.getBreachCount('password')).toBe(BREACHED.password);
+    expect(await PwnedPasswordsService.getBreachCount('correct horse battery staple')).toBe(368);
+    expect(await PwnedPasswordsService.getBreachCount(crypto.randomBytes(16).toString('hex'))).toBe(0);
+  });
+
+  it('should serve repeated prefixes from the cache', async () => {
+    await Promise.all([
+      PwnedPasswordsService.getBreachCount('letmein'),
+      PwnedPasswordsService.getBreachCount('letmein'),
+    ]);
+    await PwnedPasswordsService.getBreachCount('letmein');
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should reject malformed prefixes and report unavailable sources', async () => {
+    await expect(PwnedPasswordsService.getRange('XYZ')).rejects.toThrow(AppError);
+    await expect(PwnedPasswordsService.getRange('fffff')).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
+
+describe('HashFileRangeSource', () => {
+  const filePath = path.join(workDir, 'pwned-passwords-ordered-by-hash.txt');
+  fs.writeFileSync(filePath, sortedHashes.map(hash => `${hash}:${corpus.get(hash)}`).join('\r\n') + '\r\n');
+  const source = new HashFileRangeSource(filePath);
+
+  it('should find every hash of a range by binary search', async () => {
+    for (const password of Object.keys(BREACHED)) {
+      const prefix = sha1(password).slice(0, 5);
+      const range = await source.getRange(prefix);
+
+      expect(range.get(sha1(password).slice(5))).toBe(BREACHED[password]);
+      expect(range.size).toBe(rangeLines(prefix).length);
+    }
+  });
+
+  it('should find the first and last lines and handle absent prefixes', async () => {
+    const first = sortedHashes[0];
+    const last = sortedHashes[sortedHashes.length - 1];
+
+    expect((await source.getRange(first.slice(0, 5))).get(first.slice(5))).toBe(corpus.get(first));
+    expect((await source.getRange(last.slice(0, 5))).get(last.slice(5))).toBe(corpus.get(last));
+
+    const absent = ['00000', '7FFFF', 'FFFFF'].find(prefix => !rangeLines(prefix).length)!;
+    expect((await source.getRange(absent)).size).toBe(0);
+  });
+});
+
+describe('RangeMirrorSource', () => {
+  it('should read the range file for a prefix', async () => {
+    const mirrorDir = path.join(workDir, 'ranges');
+    const prefix = sha1('letmein').slice(0, 5);
+    fs.mkdirSync(mirrorDir, { recursive: true });
+    fs.writeFileSync(path.join(mirrorDir, `${prefix}.txt`), rangeLines(prefix).join('\n'));
+
+    const source = new RangeMirrorSource(mirrorDir);
+
+    expect((await source.getRange(prefix)).get(sha1('letmein').slice(5))).toBe(BREACHED.letmein);
+    await expect(source.getRange('00000')).rejects.toThrow('missing from the mirror');
+  });
+});
@@ -0,0 +1,92 @@
+import { RevisionService } from '../../services/revisions';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { VaultItem, IVaultItem } from '../../models/VaultItem';
+import { VaultItemRevision } from '../../models/VaultItemRevision';
+import { AppError } from '../../middleware/errorHandler';
+import { mockVaultItems } from '../mockData';
+
+describe('RevisionService', () => {
+  let userId: string;
+  let item: IVaultItem;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      email: 'revisions@example.com',
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      masterKeySalt: '00112233445566778899aabbccddeeff',
+      zeroKnowledge: true,
+    });
+    userId = user._id.toString();
+    item = await VaultItem.create({ userId, ...mockVaultItems[0], clientEncrypted: true });
+  });
+
+  // What updateVaultItem does when new ciphertext arrives
+  const overwrite = async (encryptedData: string) => {
+    await RevisionService.record(item);
+    item.revision += 1;
+    item.encryptedData = encryptedData;
+    await item.save();
+  };
+
+  describe('record', () => {
+    it('should keep the payload being replaced', async () => {
+      await overwrite('encrypted_login_data_v2');
+
+      const revisions = await RevisionService.list(userId, item.id);
+
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0].revision).toBe(0);
+      expect(revisions[0].encryptedData).toBe(mockVaultItems[0].encryptedData);
+      expect(item.revision).toBe(1);
+    });
+
+    it('should keep at most the configured number of revisions', async () => {
+      for (let i = 1; i <= RevisionService.MAX_REVISIONS_PER_ITEM + 5; i++) {
+        await overwrite(`encrypted_login_data_v${i}`);
+      }
+
+      const revisions = await RevisionService.list(userId, item.id);
+
+      expect(revisions).toHaveLength(RevisionService.MAX_REVISIONS_PER_ITEM);
+      expect(revisions[0].revision).toBe(RevisionService.MAX_REVISIONS_PER_ITEM + 4);
+    });
+
+    it('should skip legacy server-encrypted payloads', async () => {
+      const legacy = await VaultItem.create({ userId, ...mockVaultItems[1], clientEncrypted: false });
+
+      await RevisionService.record(legacy);
+
+      expect(await VaultItemRevision.countDocuments({ itemId: legacy._id })).toBe(0);
+    });
+  });
+
+  describe('list', () => {
+    it('should not list revisions of another user\'s item', async () => {
+      await expect(
+        RevisionService.list('507f1f77bcf86cd799439011', item.id)
+      ).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('restore', () => {
+    it('should roll back by recording a new revision', async () => {
+      await overwrite('encrypted_login_data_mistyped');
+
+      const restored = await RevisionService.restore(userId, item.id, 0);
+
+      expect(restored.encryptedData).toBe(mockVaultItems[0].encryptedData);
+      expect(restored.revision).toBe(2);
+      expect(restored.restoredFrom).toBe(0);
+
+      const revisions = await RevisionService.list(userId, item.id);
+      expect(revisions.map(revision => revision.revision)).toEqual([1, 0]);
+      expect(revisions[0].encryptedData).toBe('encrypted_login_data_mistyped');
+    });
+
+    it('should reject unknown revisions', async () => {
+      await expect(RevisionService.restore(userId, item.id, 7)).rejects.toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { SendService, SendInput } from '../../services/sends';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { Send, SendType } from '../../models/Send';
+import { AppError } from '../../middleware/errorHandler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sendInput = (overrides: Partial<SendInput> = {}): SendInput => ({
+  type: SendType.TEXT,
+  encryptedData: 'ZW5jcnlwdGVkLXNlbmQtdGV4dA==',
+  iv: 'MTIzNDU2Nzg5MDEy',
+  tag: 'YXV0aGVudGljYXRpb24tdGFn',
+  encryptedName: 'ZW5jcnlwdGVkLW5hbWU=',
+  encryptedKey: 'd3JhcHBlZC1zZW5kLWtleQ==',
+  expiresAt: new Date(Date.now() + DAY_MS),
+  ...overrides,
+});
+
+describe('SendService', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      email: 'sends@example.com',
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      masterKeySalt: '00112233445566778899aabbccddeeff',
+      zeroKnowledge: true,
+    });
+    userId = user._id.toString();
+  });
+
+  describe('create', () => {
+    it('should store the ciphertext under a random access ID', async () => {
+      const send = await SendService.create(userId, sendInput());
+
+      expect(send.accessId).toMatch(/^[A-Za-z0-9_-]{22}$/);
+      expect(send.size).toBe(Buffer.byteLength(sendInput().encryptedData, 'base64'));
+      expect(send.toJSON()).toMatchObject({ hasPassword: false });
+      expect(send.toJSON()).not.toHaveProperty('passwordHash');
+    });
+
+    it('should reject expiry dates in the past or too far ahead', async () => {
+      await expect(
+        SendService.create(userId, sendInput({ expiresAt: new Date(Date.now() - 1000) }))
+      ).rejects.toThrow(AppError);
+      await expect(
+        SendService.create(userId, sendInput({ expiresAt: new Date(Date.now() + 31 * DAY_MS) }))
+      ).rejects.toThrow('Sends can last at most 30 days');
+    });
+
+    it('should reject oversized sends', async () => {
+      const encryptedData = Buffer.alloc(SendService.MAX_SIZE_BYTES + 1).toString('base64');
+
+      await expect(SendService.create(userId, sendInput({ encryptedData }))).rejects.toThrow(AppError);
+    });
+
+    it('should require a file name for files', async () => {
+      await expect(SendService.create(userId, sendInput({ type: SendType.FILE }))).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('access', () => {
+    it('should delete the send once the view limit is reached', async () => {
+      const send = await SendService.create(userId, sendInput({ maxViews: 2 }));
+
+      const first = await SendService.access(send.accessId);
+      expect(first).toMatchObject({ encryptedData: sendInput().encryptedData, remainingViews: 1 });
+
+      const second = await SendService.access(send.accessId);
+      expect(second.remainingViews).toBe(0);
+      expect(await Send.findById(send.id)).toBeNull();
+
+      await expect(SendService.access(send.accessId)).rejects.toThrow(AppError);
+    });
+
+    it('should delete expired sends when they are opened', async () => {
+      const send = await SendService.create(userId, sendInput());
+      await Send.updateOne({ _id: send._id }, { expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(SendService.access(send.accessId)).rejects.toThrow(AppError);
+      expect(await Send.findById(send.id)).toBeNull();
+    });
+
+    it('should check the password before counting a view', async () => {
+      const send = await SendService.create(userId, sendInput({ password: 'open sesame' }));
+
+      await expect(SendService.access(send.accessId)).rejects.toThrow('This send is protected by a password');
+      await expect(SendService.access(send.accessId, 'wrong')).rejects.toThrow('Invalid password');
+      expect((await Send.findById(send.id))!.viewCount).toBe(0);
+
+      await expect(SendService.access(send.accessId, 'open sesame')).resolves.toMatchObject({ remainingViews: null });
+    });
+
+    it('should hide disabled sends', async () => {
+      const send = await SendService.create(userId, sendInput());
+      await SendService.update(userId, send.id, { disabled: true });
+
+      await expect(SendService.access(send.accessId)).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('update', () => {
+    it('should not lower the view limit below the views already counted', async () => {
+      const send = await SendService.create(userId, sendInput({ maxViews: 5 }));
+      await SendService.access(send.accessId);
+
+      await expect(SendService.update(userId, send.id, { maxViews: 1 })).rejects.toThrow(AppError);
+
+      const updated = await SendService.update(userId, send.id, { maxViews: null, password: 'secret' });
+      expect(updated.maxViews).toBeNull();
+      expect(updated.toJSON()).toMatchObject({ hasPassword: true });
+    });
+  });
+
+  it('should not let other users read or delete a send', async () => {
+    const send = await SendService.create(userId, sendInput());
+
+    await expect(SendService.get('507f1f77bcf86cd799439011', send.id)).rejects.toThrow(AppError);
+    await expect(SendService.remove('507f1f77bcf86cd799439011', send.id)).rejects.toThrow(AppError);
+  });
+});
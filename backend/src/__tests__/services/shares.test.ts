@@ -0,0 +1,192 @@
+import { ShareService } from '../../services/shares';
+import { RevisionService } from '../../services/revisions';
+import { TrashService } from '../../services/trash';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { VaultItem, IVaultItem } from '../../models/VaultItem';
+import { ItemShare, SharePermission, ShareStatus } from '../../models/ItemShare';
+import { AppError } from '../../middleware/errorHandler';
+import { mockVaultItems } from '../mockData';
+
+const rotated = {
+  encryptedData: 'cm90YXRlZC1pdGVtLWRhdGE=',
+  encryptedDataKey: 'cm90YXRlZC1kYXRhLWtleQ==',
+  iv: 'MTIzNDU2Nzg5MDEy',
+  tag: 'YXV0aGVudGljYXRpb24tdGFn',
+};
+
+describe('ShareService', () => {
+  let ownerId: string;
+  let recipientId: string;
+  let item: IVaultItem;
+
+  const createUser = async (email: string) => {
+    const user = await User.create({
+      email,
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      masterKeySalt: '00112233445566778899aabbccddeeff',
+      zeroKnowledge: true,
+      publicKey: 'cHVibGljLWtleQ==',
+      encryptedPrivateKey: 'd3JhcHBlZC1wcml2YXRlLWtleQ==',
+    });
+    return user._id.toString();
+  };
+
+  const shareWith = (userId: string, permission = SharePermission.READ) =>
+    ShareService.share(ownerId, item.id, userId, permission, Buffer.from(`key-for-${userId}`).toString('base64'));
+
+  beforeEach(async () => {
+    ownerId = await createUser('owner@example.com');
+    recipientId = await createUser('recipient@example.com');
+    item = await VaultItem.create({ userId: ownerId, ...mockVaultItems[0], clientEncrypted: true });
+  });
+
+  describe('share', () => {
+    it('should share an item pending acceptance', async () => {
+      const share = await shareWith(recipientId);
+
+      expect(share).toMatchObject({ recipientId, email: 'recipient@example.com', status: ShareStatus.PENDING });
+      expect((await VaultItem.findById(item.id))!.shareCount).toBe(1);
+
+      const [incoming] = await ShareService.listIncoming(recipientId);
+      expect(incoming).toMatchObject({ ownerEmail: 'owner@example.com', status: ShareStatus.PENDING, encryptedData: null });
+    });
+
+    it('should reject sharing with yourself or twice with the same user', async () => {
+      await expect(shareWith(ownerId)).rejects.toThrow(AppError);
+
+      await shareWith(recipientId);
+      await expect(shareWith(recipientId)).rejects.toThrow('This item is already shared with that user');
+    });
+  });
+
+  describe('accept and decline', () => {
+    it('should hand over the ciphertext once accepted', async () => {
+      const share = await shareWith(recipientId);
+
+      const accepted = await ShareService.accept(recipientId, share.id);
+
+      expect(accepted).toMatchObject({
+        status: ShareStatus.ACCEPTED,
+        encryptedData: mockVaultItems[0].encryptedData,
+        encryptedDataKey: Buffer.from(`key-for-${recipientId}`).toString('base64'),
+      });
+    });
+
+    it('should drop the share when declined', async () => {
+      const share = await shareWith(recipientId);
+
+      await ShareService.decline(recipientId, share.id);
+
+      expect(await ShareService.listIncoming(recipientId)).toHaveLength(0);
+      expect((await VaultItem.findById(item.id))!.shareCount).toBe(0);
+    });
+
+    it('should not let other users answer a share', async () => {
+      const share = await shareWith(recipientId);
+
+      await expect(ShareService.accept(ownerId, share.id)).rejects.toThrow('Share not found');
+    });
+  });
+
+  describe('updateShared', () => {
+    it('should let recipients with edit rights write under the same data key', async () => {
+      const share = await shareWith(recipientId, SharePermission.EDIT);
+      await ShareService.accept(recipientId, share.id);
+
+      await ShareService.updateShared(recipientId, share.id, rotated);
+
+      const updated = (await VaultItem.findById(item.id))!;
+      expect(updated.encryptedData).toBe(rotated.encryptedData);
+      expect(updated.encryptedDataKey).toBe(mockVaultItems[0].encryptedDataKey);
+      expect(await RevisionService.list(ownerId, item.id)).toHaveLength(1);
+    });
+
+    it('should reject edits to read-only or unaccepted shares', async () => {
+      const share = await shareWith(recipientId);
+
+      await expect(ShareService.updateShared(recipientId, share.id, rotated)).rejects.toThrow('Accept the share before editing the item');
+
+      await ShareService.accept(recipientId, share.id);
+      await expect(ShareService.updateShared(recipientId, share.id, rotated)).rejects.toThrow('This item is shared with you read-only');
+    });
+  });
+
+  describe('revoke', () => {
+    it('should rotate the data key for the remaining recipients', async () => {
+      const otherId = await createUser('other@example.com');
+      const revoked = await shareWith(recipientId);
+      const kept = await shareWith(otherId);
+
+      await expect(
+        ShareService.revoke(ownerId, item.id, revoked.id, { ...rotated, shareKeys: [] })
+      ).rejects.toThrow('The new data key must be wrapped for every user the item is shared with');
+
+      const updated = await ShareService.revoke(ownerId, item.id, revoked.id, {
+        ...rotated,
+        shareKeys: [{ shareId: kept.id, encryptedDataKey: 'bmV3LWtleS1mb3Itb3RoZXI=' }],
+      });
+
+      expect(updated.encryptedDataKey).toBe(rotated.encryptedDataKey);
+      expect(updated.shareCount).toBe(1);
+      expect(await ShareService.listIncoming(recipientId)).toHaveLength(0);
+      expect((await ItemShare.findById(kept.id))!.encryptedDataKey).toBe('bmV3LWtleS1mb3Itb3RoZXI=');
+    });
+
+    it('should keep the share when the rotated item cannot be saved', async () => {
+      const share = await shareWith(recipientId);
+      jest.spyOn(VaultItem.prototype, 'save').mockRejectedValueOnce(new Error('write failed'));
+
+      await expect(ShareService.revoke(ownerId, item.id, share.id, { ...rotated, shareKeys: [] })).rejects.toThrow('write failed');
+
+      expect(await ItemShare.findById(share.id)).not.toBeNull();
+      expect((await VaultItem.findById(item.id))!.encryptedDataKey).toBe(mockVaultItems[0].encryptedDataKey);
+    });
+
+    it('should refuse to restore revisions under the revoked data key', async () => {
+      const share = await shareWith(recipientId);
+      await RevisionService.record(item);
+      item.revision += 1;
+      item.encryptedData = 'ZWRpdGVkLWJlZm9yZS1yZXZva2U=';
+      await item.save();
+
+      const updated = await ShareService.revoke(ownerId, item.id, share.id, { ...rotated, shareKeys: [] });
+      await RevisionService.record(updated);
+      updated.revision += 1;
+      updated.encryptedData = 'ZWRpdGVkLWFmdGVyLXJldm9rZQ==';
+      await updated.save();
+
+      await expect(RevisionService.restore(ownerId, item.id, 0)).rejects.toThrow('This revision predates a revoked share');
+
+      // The revision recorded after the revoke holds the rotated key
+      const restored = await RevisionService.restore(ownerId, item.id, 1);
+      expect(restored.encryptedDataKey).toBe(rotated.encryptedDataKey);
+      expect(restored.encryptedData).toBe(rotated.encryptedData);
+    });
+  });
+
+  describe('assertShareKeys', () => {
+    it('should require a key for every share when the data key changes', async () => {
+      const share = await shareWith(recipientId);
+      const shared = (await VaultItem.findById(item.id))!;
+
+      await expect(ShareService.assertShareKeys(shared)).rejects.toThrow(AppError);
+      await expect(
+        ShareService.assertShareKeys(shared, [{ shareId: share.id, encryptedDataKey: 'bmV3LWtleQ==' }])
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  it('should delete shares when the item is purged from the trash', async () => {
+    await shareWith(recipientId);
+    const shared = (await VaultItem.findById(item.id))!;
+    await shared.softDelete(30);
+
+    expect(await ShareService.listIncoming(recipientId)).toHaveLength(0);
+
+    await TrashService.emptyTrash(ownerId);
+
+    expect(await ItemShare.countDocuments({ itemId: item.id })).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { connectRedis, disconnectRedis } from '../../config/redis';
+import { TokenDenylistService } from '../../services/tokenDenylist';
+
+describe('TokenDenylistService', () => {
+  const userId = '507f1f77bcf86cd799439011';
+
+  const token = (issuedAt: number, jti = `jti-${issuedAt}`) => ({
+    jti,
+    userId,
+    iat: Math.floor(issuedAt / 1000),
+    iatMs: issuedAt,
+  });
+
+  describe('without Redis', () => {
+    const redisUrl = process.env.REDIS_URL;
+
+    beforeAll(() => {
+      // Nothing listens on port 1
+      process.env.REDIS_URL = 'redis://127.0.0.1:1';
+    });
+
+    afterAll(async () => {
+      process.env.REDIS_URL = redisUrl;
+      await disconnectRedis();
+    });
+
+    it('should give up connecting instead of retrying forever', async () => {
+      await expect(connectRedis()).rejects.toThrow();
+    });
+
+    it('should keep revocations in memory', async () => {
+      const revoked = token(Date.now(), 'revoked-jti');
+
+      await TokenDenylistService.revokeToken(revoked.jti, revoked.iat + 60);
+
+      expect(await TokenDenylistService.isRevoked(revoked)).toBe(true);
+      expect(await TokenDenylistService.isRevoked(token(Date.now(), 'other-jti'))).toBe(false);
+    });
+  });
+
+  describe('revokeSessions', () => {
+    it('should revoke the tokens of the given sessions only', async () => {
+      await TokenDenylistService.revokeSessions(['revoked-session']);
+
+      expect(await TokenDenylistService.isRevoked({ ...token(Date.now()), sessionId: 'revoked-session' })).toBe(true);
+      expect(await TokenDenylistService.isRevoked({ ...token(Date.now()), sessionId: 'other-session' })).toBe(false);
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should revoke tokens issued before the cutoff only', async () => {
+      const before = token(Date.now() - 1);
+
+      await TokenDenylistService.revokeAllForUser(userId);
+      const after = token(Date.now() + 1);
+
+      expect(await TokenDenylistService.isRevoked(before)).toBe(true);
+      // Issued within the same second as the cutoff, but after it
+      expect(await TokenDenylistService.isRevoked({ ...after, iat: before.iat })).toBe(false);
+      expect(await TokenDenylistService.isRevoked({ ...after, userId: '507f191e810c19729de860ea' })).toBe(false);
+    });
+
+    it('should fall back to whole seconds for tokens without a millisecond issue time', async () => {
+      const legacy = { jti: 'legacy-jti', userId, iat: Math.floor(Date.now() / 1000) - 1 };
+
+      await TokenDenylistService.revokeAllForUser(userId);
+
+      expect(await TokenDenylistService.isRevoked(legacy)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { TrashService } from '../../services/trash';
+import { AuthService } from '../../services/auth';
+import { User } from '../../models/User';
+import { VaultItem } from '../../models/VaultItem';
+import { AppError } from '../../middleware/errorHandler';
+import { mockVaultItems } from '../mockData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('TrashService', () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    const user = await User.create({
+      email: 'trash@example.com',
+      password: await AuthService.hashPassword('TestPassword123!'),
+      masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+      masterKeySalt: '00112233445566778899aabbccddeeff',
+      trashRetentionDays: 7,
+    });
+    userId = user._id.toString();
+  });
+
+  const createTrashedItem = async (deletedDaysAgo = 0, retentionDays = 7) => {
+    const item = await VaultItem.create({ userId, ...mockVaultItems[0] });
+    await item.softDelete(retentionDays);
+    return VaultItem.findOneAndUpdate(
+      { _id: item._id, isDeleted: true },
+      {
+        $set: {
+          deletedAt: new Date(Date.now() - deletedDaysAgo * DAY_MS),
+          purgeAt: new Date(Date.now() + (retentionDays - deletedDaysAgo) * DAY_MS),
+        },
+      },
+      { new: true }
+    );
+  };
+
+  describe('softDelete', () => {
+    it('should schedule the purge for the end of the retention period', async () => {
+      const item = await VaultItem.create({ userId, ...mockVaultItems[0] });
+      await item.softDelete(7);
+
+      expect(item.isDeleted).toBe(true);
+      expect(item.purgeAt!.getTime() - item.deletedAt!.getTime()).toBe(7 * DAY_MS);
+    });
+  });
+
+  describe('listTrash', () => {
+    it('should list only trashed items', async () => {
+      await VaultItem.create({ userId, ...mockVaultItems[1] });
+      const trashed = await createTrashedItem();
+
+      const items = await TrashService.listTrash(userId);
+
+      expect(items.map(item => item.id)).toEqual([trashed!.id]);
+    });
+  });
+
+  describe('restore', () => {
+    it('should move a trashed item back into the vault', async () => {
+      const trashed = await createTrashedItem();
+
+      const restored = await TrashService.restore(userId, trashed!.id);
+
+      expect(restored.isDeleted).toBe(false);
+      expect(restored.deletedAt).toBeNull();
+      expect(restored.purgeAt).toBeNull();
+      expect(await VaultItem.findById(trashed!._id)).not.toBeNull();
+    });
+
+    it('should not restore items of another user', async () => {
+      const trashed = await createTrashedItem();
+
+      await expect(
+        TrashService.restore('507f1f77bcf86cd799439011', trashed!.id)
+      ).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('purge', () => {
+    it('should permanently delete a trashed item', async () => {
+      const trashed = await createTrashedItem();
+
+      await TrashService.purge(userId, trashed!.id);
+
+      expect(await VaultItem.countDocuments({ _id: trashed!._id, isDeleted: { $in: [true, false] } })).toBe(0);
+    });
+
+    it('should refuse to purge items that are not in the trash', async () => {
+      const item = await VaultItem.create({ userId, ...mockVaultItems[0] });
+
+      await expect(TrashService.purge(userId, item.id)).rejects.toThrow(AppError);
+      expect(await VaultItem.findById(item._id)).not.toBeNull();
+    });
+  });
+
+  describe('setRetention', () => {
+    it('should reschedule items already in the trash', async () => {
+      const trashed = await createTrashedItem(2);
+
+      await TrashService.setRetention(userId, 30);
+
+      const updated = await VaultItem.findOne({ _id: trashed!._id, isDeleted: true });
+      expect(updated!.purgeAt!.getTime() - updated!.deletedAt!.getTime()).toBe(30 * DAY_MS);
+      expect((await User.findById(userId))!.trashRetentionDays).toBe(30);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should purge only items past their retention period', async () => {
+      const expired = await createTrashedItem(10);
+      const kept = await createTrashedItem(3);
+      const live = await VaultItem.create({ userId, ...mockVaultItems[1] });
+
+      const purgedCount = await TrashService.purgeExpired();
+
+      expect(purgedCount).toBe(1);
+      const remaining = await VaultItem.find({ userId, isDeleted: { $in: [true, false] } });
+      expect(remaining.map(item => item.id).sort()).toEqual([kept!.id, live.id].sort());
+      expect(remaining.map(item => item.id)).not.toContain(expired!.id);
+    });
+
+    it('should fall back to the default period for items trashed before retention was tracked', async () => {
+      await VaultItem.create({
+        userId,
+        ...mockVaultItems[3],
+        deletedAt: new Date(Date.now() - (TrashService.DEFAULT_RETENTION_DAYS + 1) * DAY_MS),
+      });
+
+      expect(await TrashService.purgeExpired()).toBe(1);
+    });
+  });
+});
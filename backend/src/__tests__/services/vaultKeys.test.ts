@@ -0,0 +1,181 @@
+import { VaultKeyService } from '../../services/vaultKeys';
+import { AuthService, AuthResult } from '../../services/auth';
+import { TokenDenylistService } from '../../services/tokenDenylist';
+import { EncryptionService } from '../../services/encryption';
+import { KdfService } from '../../services/kdf';
+import { User } from '../../models/User';
+import { AppError } from '../../middleware/errorHandler';
+
+const vaultKeys = {
+  masterPasswordHash: 'bWFzdGVyLXBhc3N3b3JkLWhhc2gtZGVyaXZlZC1ieS1jbGllbnQ=',
+  masterKeySalt: '00112233445566778899aabbccddeeff',
+  encryptedVaultKey: 'd3JhcHBlZC12YXVsdC1rZXk=',
+  kdf: KdfService.CURRENT,
+};
+
+describe('VaultKeyService', () => {
+  describe('getVaultKeys', () => {
+    it('should return the wrapped vault key and KDF parameters', async () => {
+      const { user } = await AuthService.register('test@example.com', 'TestPassword123!', vaultKeys);
+
+      const keys = await VaultKeyService.getVaultKeys(user.id.toString());
+
+      expect(keys).toEqual({
+        zeroKnowledge: true,
+        kdf: { ...KdfService.CURRENT, salt: vaultKeys.masterKeySalt },
+        encryptedVaultKey: vaultKeys.encryptedVaultKey,
+        publicKey: null,
+        encryptedPrivateKey: null,
+        legacyItemCount: 0,
+        kdfUpgrade: null,
+      });
+    });
+
+    it('should offer the current KDF parameters to accounts still on PBKDF2', async () => {
+      const { user } = await AuthService.register('test@example.com', 'TestPassword123!', {
+        ...vaultKeys,
+        kdf: KdfService.LEGACY,
+      });
+
+      const keys = await VaultKeyService.getVaultKeys(user.id.toString());
+
+      expect(keys.kdf.algorithm).toBe('pbkdf2-sha512');
+      expect(keys.kdfUpgrade).toEqual(KdfService.CURRENT);
+    });
+  });
+
+  describe('changeMasterPassword', () => {
+    const newKeys = {
+      masterPasswordHash: 'bmV3LW1hc3Rlci1wYXNzd29yZC1oYXNo',
+      masterKeySalt: 'ffeeddccbbaa99887766554433221100',
+      encryptedVaultKey: 'cmV3cmFwcGVkLXZhdWx0LWtleQ==',
+      kdf: KdfService.CURRENT,
+    };
+
+    it('should replace the wrapped vault key when the current hash matches', async () => {
+      const { user } = await AuthService.register('test@example.com', 'TestPassword123!', vaultKeys);
+      const userId = user.id.toString();
+
+      await expect(
+        VaultKeyService.changeMasterPassword(userId, newKeys.masterPasswordHash, newKeys)
+      ).rejects.toThrow(AppError);
+
+      await VaultKeyService.changeMasterPassword(userId, vaultKeys.masterPasswordHash, newKeys);
+
+      const updated = await User.findById(userId);
+      expect(updated?.encryptedVaultKey).toBe(newKeys.encryptedVaultKey);
+      expect(updated?.masterKeyVersion).toBe(1);
+      await expect(VaultKeyService.verifyMasterPasswordHash(updated!, newKeys.masterPasswordHash)).resolves.toBeUndefined();
+    });
+
+    it('should upgrade the KDF when the vault key is re-wrapped', async () => {
+      const { user } = await AuthService.register('test@example.com', 'TestPassword123!', {
+        ...vaultKeys,
+        kdf: KdfService.LEGACY,
+      });
+      const userId = user.id.toString();
+
+      await VaultKeyService.changeMasterPassword(userId, vaultKeys.masterPasswordHash, newKeys);
+
+      const keys = await VaultKeyService.getVaultKeys(userId);
+      expect(keys.kdf.algorithm).toBe('argon2id');
+      expect(keys.kdfUpgrade).toBeNull();
+
+      await expect(
+        VaultKeyService.changeMasterPassword(userId, newKeys.masterPasswordHash, { ...newKeys, kdf: KdfService.LEGACY })
+      ).rejects.toThrow(AppError);
+    });
+
+    it('should sign out every session but the current one', async () => {
+      const current = await AuthService.register('test@example.com', 'TestPassword123!', vaultKeys);
+      const other = await AuthService.login('test@example.com', 'TestPassword123!') as AuthResult;
+      const userId = current.user.id.toString();
+      const decoded = AuthService.verifyAccessToken(current.accessToken);
+
+      await VaultKeyService.changeMasterPassword(userId, vaultKeys.masterPasswordHash, newKeys, decoded.sessionId);
+
+      expect(await TokenDenylistService.isRevoked(decoded)).toBe(true);
+      expect(await TokenDenylistService.isRevoked(AuthService.verifyAccessToken(other.accessToken))).toBe(true);
+      await expect(AuthService.refreshToken(other.refreshToken)).rejects.toThrow(AppError);
+
+      // The current session gets a new access token that is not caught by the cutoff
+      const refreshed = await AuthService.refreshToken(current.refreshToken);
+      expect(await TokenDenylistService.isRevoked(AuthService.verifyAccessToken(refreshed.accessToken))).toBe(false);
+    });
+  });
+
+  describe('setKeyPair', () => {
+    const { publicKey } = EncryptionService.generateKeyPair();
+
+    it('should publish a keypair only once', async () => {
+      const { user } = await AuthService.register('test@example.com', 'TestPassword123!', vaultKeys);
+      const userId = user.id.toString();
+
+      await VaultKeyService.setKeyPair(userId, publicKey, 'd3JhcHBlZC1wcml2YXRlLWtleQ==');
+
+      const keys = await VaultKeyService.getVaultKeys(userId);
+      expect(keys.publicKey).toBe(publicKey);
+      expect(keys.encryptedPrivateKey).toBe('d3JhcHBlZC1wcml2YXRlLWtleQ==');
+      await expect(
+        VaultKeyService.setKeyPair(userId, EncryptionService.generateKeyPair().publicKey, 'b3RoZXItcHJpdmF0ZS1rZXk=')
+      ).rejects.toThrow(AppError);
+    });
+
+    it('should reject a key that is not an RSA public key', async () => {
+      const { user } = await AuthService.register('test@example.com', 'TestPassword123!', vaultKeys);
+
+      await expect(
+        VaultKeyService.setKeyPair(user.id.toString(), 'cHVibGljLWtleQ==', 'd3JhcHBlZC1wcml2YXRlLWtleQ==')
+      ).rejects.toThrow('Public key must be an RSA key of at least 3072 bits');
+    });
+  });
+
+  describe('getPublicKey', () => {
+    it('should find a published key by id or email with its fingerprint', async () => {
+      const { publicKey } = EncryptionService.generateKeyPair();
+      const { user } = await AuthService.register('test@example.com', 'TestPassword123!', vaultKeys);
+      const userId = user.id.toString();
+
+      await expect(VaultKeyService.getPublicKey({ userId })).rejects.toThrow('No public key found for this user');
+
+      await VaultKeyService.setKeyPair(userId, publicKey, 'd3JhcHBlZC1wcml2YXRlLWtleQ==');
+
+      const expected = {
+        userId,
+        email: 'test@example.com',
+        publicKey,
+        fingerprint: EncryptionService.publicKeyFingerprint(publicKey),
+      };
+      expect(await VaultKeyService.getPublicKey({ userId })).toEqual(expected);
+      expect(await VaultKeyService.getPublicKey({ email: 'Test@Example.com' })).toEqual(expected);
+    });
+  });
+
+  describe('startMigration', () => {
+    it('should switch a legacy account to client-side encryption', async () => {
+      const legacyUser = await User.create({
+        email: 'legacy@example.com',
+        password: await AuthService.hashPassword('TestPassword123!'),
+        masterPassword: await AuthService.hashPassword('MasterPassword123!'),
+        masterKeySalt: EncryptionService.generateSalt().toString('hex'),
+      });
+      const userId = legacyUser._id.toString();
+
+      await expect(
+        VaultKeyService.startMigration(userId, 'WrongPassword123!', vaultKeys.masterPasswordHash, vaultKeys.encryptedVaultKey)
+      ).rejects.toThrow(AppError);
+
+      const items = await VaultKeyService.startMigration(
+        userId,
+        'MasterPassword123!',
+        vaultKeys.masterPasswordHash,
+        vaultKeys.encryptedVaultKey
+      );
+
+      expect(items).toEqual([]);
+      const keys = await VaultKeyService.getVaultKeys(userId);
+      expect(keys.zeroKnowledge).toBe(true);
+      expect(keys.encryptedVaultKey).toBe(vaultKeys.encryptedVaultKey);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+import { WatchtowerService, ItemHealthInput } from '../../services/watchtower';
+import { VaultItem, VaultItemType } from '../../models/VaultItem';
+import { mockVaultItems } from '../mockData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const health = (overrides: Partial<ItemHealthInput> = {}): ItemHealthInput => ({
+  version: 1,
+  passwordHash: 'aGFzaC1vZi1hLXN0cm9uZy1wYXNzd29yZA==',
+  strength: 4,
+  breachCount: 0,
+  hasTotp: false,
+  totpSupported: false,
+  ...overrides,
+});
+
+describe('WatchtowerService', () => {
+  const userId = new mongoose.Types.ObjectId();
+
+  // Logins as they come back from the database, with the health a client reported
+  const login = (overrides: Partial<ItemHealthInput> | null = {}, changedDaysAgo = 10) => {
+    const item = new VaultItem({ userId, ...mockVaultItems[0] });
+    if (overrides) {
+      WatchtowerService.applyHealth(item, health(overrides), new Date(Date.now() - changedDaysAgo * DAY_MS));
+    }
+    return item;
+  };
+
+  describe('analyze', () => {
+    it('should report nothing for a healthy vault', () => {
+      const report = WatchtowerService.analyze([login({ passwordHash: 'YQ==' }), login({ passwordHash: 'Yg==' })], 365);
+
+      expect(report.findings).toEqual([]);
+      expect(report.score).toBe(100);
+      expect(report.summary).toMatchObject({ logins: 2, checked: 2, unchecked: 0 });
+    });
+
+    it('should point every finding at the affected item', () => {
+      const breached = login({ passwordHash: 'YnJlYWNoZWQ=', breachCount: 3861493 });
+      const reused = [login({ passwordHash: 'cmV1c2Vk' }), login({ passwordHash: 'cmV1c2Vk' })];
+      const weak = login({ passwordHash: 'd2Vhaw==', strength: 1 });
+      const old = login({ passwordHash: 'b2xk' }, 400);
+      const missingTotp = login({ passwordHash: 'dG90cA==', totpSupported: true });
+      const withTotp = login({ passwordHash: 'dG90cDI=', totpSupported: true, hasTotp: true });
+
+      const report = WatchtowerService.analyze([breached, ...reused, weak, old, missingTotp, withTotp], 365);
+
+      expect(report.findings).toEqual([
+        { type: 'breached', itemId: breached.id, breachCount: 3861493 },
+        { type: 'reused', itemId: reused[0].id, reusedWith: [reused[1].id] },
+        { type: 'reused', itemId: reused[1].id, reusedWith: [reused[0].id] },
+        { type: 'weak', itemId: weak.id, strength: 1 },
+        expect.objectContaining({ type: 'old', itemId: old.id, ageDays: 400 }),
+        { type: 'missingTotp', itemId: missingTotp.id },
+      ]);
+      expect(report.summary).toMatchObject({ breached: 1, reused: 2, weak: 1, old: 1, missingTotp: 1 });
+    });
+
+    it('should use the configured password age', () => {
+      const items = [login({}, 100)];
+
+      expect(WatchtowerService.analyze(items, 365).summary.old).toBe(0);
+      expect(WatchtowerService.analyze(items, 90).summary.old).toBe(1);
+    });
+
+    it('should derive the score from the findings of checked logins only', () => {
+      const healthy = login({ passwordHash: 'YQ==' });
+      const breached = login({ passwordHash: 'Yg==', breachCount: 12, strength: 0 });
+      const unchecked = login(null);
+
+      const report = WatchtowerService.analyze([healthy, breached, unchecked], 365);
+
+      // The breached login loses its whole share however many findings it has
+      expect(report.score).toBe(50);
+      expect(report.summary).toMatchObject({ checked: 2, unchecked: 1 });
+      expect(WatchtowerService.analyze([unchecked], 365).score).toBe(0);
+      expect(WatchtowerService.analyze([], 365).score).toBe(100);
+    });
+  });
+
+  describe('applyHealth', () => {
+    it('should keep the change date while the password hash stays the same', () => {
+      const item = login({}, 30);
+      const changedAt = item.health!.passwordChangedAt;
+
+      WatchtowerService.applyHealth(item, health({ breachCount: 5 }));
+
+      expect(item.health!.passwordChangedAt).toEqual(changedAt);
+      expect(item.health!.breachCount).toBe(5);
+    });
+
+    it('should restart the password age when the hash changes', () => {
+      const item = login({}, 30);
+
+      WatchtowerService.applyHealth(item, health({ passwordHash: 'bmV3LXBhc3N3b3Jk' }), new Date(0));
+
+      expect(Date.now() - item.health!.passwordChangedAt!.getTime()).toBeLessThan(1000);
+    });
+
+    it('should not date logins without a password', () => {
+      const item = login({ passwordHash: null, strength: null, breachCount: null });
+
+      expect(item.health!.passwordChangedAt).toBeNull();
+      expect(WatchtowerService.analyze([item], 365).findings).toEqual([]);
+    });
+
+    it('should not expose the password hash', () => {
+      expect(login().toJSON().health).not.toHaveProperty('passwordHash');
+    });
+  });
+
+  describe('updateHealth', () => {
+    it('should store the health of the user\'s own logins only', async () => {
+      const own = await VaultItem.create({ userId, ...mockVaultItems[0] });
+      const note = await VaultItem.create({ userId, ...mockVaultItems[0], type: VaultItemType.SECURE_NOTE });
+      const foreign = await VaultItem.create({ userId: new mongoose.Types.ObjectId(), ...mockVaultItems[0] });
+
+      const checkedCount = await WatchtowerService.updateHealth(userId.toString(), [
+        { id: own.id, health: health() },
+        { id: note.id, health: health() },
+        { id: foreign.id, health: health() },
+      ]);
+
+      expect(checkedCount).toBe(1);
+      const stored = await VaultItem.findById(own._id);
+      expect(stored!.health!.passwordHash).toBe(health().passwordHash);
+      // First check of an item: dated by its last edit, which a check does not count as
+      expect(stored!.health!.passwordChangedAt).toEqual(own.updatedAt);
+      expect(stored!.updatedAt).toEqual(own.updatedAt);
+      expect((await VaultItem.findById(note._id))!.health).toBeNull();
+      expect((await VaultItem.findById(foreign._id))!.health).toBeNull();
+    });
+  });
+});
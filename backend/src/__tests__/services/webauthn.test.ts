@@ -0,0 +1,338 @@
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { WebAuthnService } from '../../services/webauthn';
+import { AuthService, AuthResult } from '../../services/auth';
+import { User, IUser } from '../../models/User';
+import { WebAuthnCredential } from '../../models/WebAuthnCredential';
+import { WebAuthnChallenge, WebAuthnCeremony } from '../../models/WebAuthnChallenge';
+import { AuditLog, AuditEventType } from '../../models/AuditLog';
+import { AppError } from '../../middleware/errorHandler';
+import { mockUsers } from '../mockData';
+
+// Attestation and assertion signatures are the library's job, only the service around it is tested here
+jest.mock('@simplewebauthn/server', () => ({
+  generateRegistrationOptions: jest.fn(),
+  verifyRegistrationResponse: jest.fn(),
+  generateAuthenticationOptions: jest.fn(),
+  verifyAuthenticationResponse: jest.fn(),
+}));
+
+const mockGenerateRegistrationOptions = jest.mocked(generateRegistrationOptions);
+const mockVerifyRegistrationResponse = jest.mocked(verifyRegistrationResponse);
+const mockGenerateAuthenticationOptions = jest.mocked(generateAuthenticationOptions);
+const mockVerifyAuthenticationResponse = jest.mocked(verifyAuthenticationResponse);
+
+const clientDataJSON = (type: string, challenge: string): string =>
+  Buffer.from(JSON.stringify({ type, challenge, origin: 'http://localhost:3000' })).toString('base64url');
+
+// RP ID hash (32 bytes), flags (1 byte) and the big-endian signature counter
+const authenticatorData = (signCount: number): string => {
+  const data = Buffer.alloc(37);
+  data.writeUInt8(0x05, 32);
+  data.writeUInt32BE(signCount, 33);
+  return data.toString('base64url');
+};
+
+const registrationResponse = (challenge: string, credentialId = 'credential-1'): RegistrationResponseJSON => ({
+  id: credentialId,
+  rawId: credentialId,
+  type: 'public-key',
+  clientExtensionResults: {},
+  authenticatorAttachment: 'cross-platform',
+  response: {
+    clientDataJSON: clientDataJSON('webauthn.create', challenge),
+    attestationObject: 'attestation-object',
+  },
+});
+
+const authenticationResponse = (
+  challenge: string,
+  signCount: number,
+  credentialId = 'credential-1',
+  userHandle?: string
+): AuthenticationResponseJSON => ({
+  id: credentialId,
+  rawId: credentialId,
+  type: 'public-key',
+  clientExtensionResults: {},
+  response: {
+    clientDataJSON: clientDataJSON('webauthn.get', challenge),
+    authenticatorData: authenticatorData(signCount),
+    signature: 'signature',
+    userHandle,
+  },
+});
+
+const mockRegistrationVerified = (credentialId = 'credential-1') => {
+  mockVerifyRegistrationResponse.mockResolvedValueOnce({
+    verified: true,
+    registrationInfo: {
+      fmt: 'none',
+      aaguid: '00000000-0000-0000-0000-000000000000',
+      credential: { id: credentialId, publicKey: new Uint8Array([1, 2, 3]), counter: 0, transports: ['usb'] },
+      credentialType: 'public-key',
+      attestationObject: new Uint8Array(),
+      userVerified: true,
+      credentialDeviceType: 'singleDevice',
+      credentialBackedUp: false,
+      origin: 'http://localhost:3000',
+    },
+  });
+};
+
+const mockAuthenticationVerified = (newCounter: number, credentialId = 'credential-1') => {
+  mockVerifyAuthenticationResponse.mockResolvedValueOnce({
+    verified: true,
+    authenticationInfo: {
+      credentialID: credentialId,
+      newCounter,
+      userVerified: true,
+      credentialDeviceType: 'singleDevice',
+      credentialBackedUp: false,
+      origin: 'http://localhost:3000',
+      rpID: 'localhost',
+    },
+  });
+};
+
+describe('WebAuthnService', () => {
+  let user: IUser;
+  let userId: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockGenerateRegistrationOptions.mockResolvedValue({ challenge: 'registration-challenge' } as PublicKeyCredentialCreationOptionsJSON);
+    mockGenerateAuthenticationOptions.mockResolvedValue({ challenge: 'authentication-challenge' } as PublicKeyCredentialRequestOptionsJSON);
+
+    user = await User.create(mockUsers[0]);
+    userId = user._id.toString();
+  });
+
+  const registerCredential = async (credentialId = 'credential-1', counter = 0) => {
+    await WebAuthnCredential.create({
+      userId,
+      credentialId,
+      publicKey: Buffer.from([1, 2, 3]).toString('base64url'),
+      counter,
+      transports: ['usb'],
+      name: 'Security key',
+    });
+  };
+
+  describe('registration', () => {
+    it('should store the challenge for the registration ceremony', async () => {
+      await WebAuthnService.generateRegistrationOptions(userId);
+
+      const challenge = await WebAuthnChallenge.findOne({ challenge: 'registration-challenge' });
+      expect(challenge?.ceremony).toBe(WebAuthnCeremony.REGISTRATION);
+      expect(challenge?.userId?.toString()).toBe(userId);
+    });
+
+    it('should exclude credentials the user already registered', async () => {
+      await registerCredential();
+
+      await WebAuthnService.generateRegistrationOptions(userId);
+
+      expect(mockGenerateRegistrationOptions).toHaveBeenCalledWith(expect.objectContaining({
+        excludeCredentials: [{ id: 'credential-1', transports: ['usb'] }],
+      }));
+    });
+
+    it('should store the credential and issue recovery codes for a first second factor', async () => {
+      await WebAuthnService.generateRegistrationOptions(userId);
+      mockRegistrationVerified();
+
+      const result = await WebAuthnService.verifyRegistration(userId, registrationResponse('registration-challenge'), 'YubiKey');
+
+      expect(result.credential.credentialId).toBe('credential-1');
+      expect(result.credential.name).toBe('YubiKey');
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect(await WebAuthnService.hasCredentials(userId)).toBe(true);
+    });
+
+    it('should not issue new recovery codes for a second key', async () => {
+      await registerCredential('credential-1');
+      await WebAuthnService.generateRegistrationOptions(userId);
+      mockRegistrationVerified('credential-2');
+
+      const result = await WebAuthnService.verifyRegistration(userId, registrationResponse('registration-challenge', 'credential-2'));
+
+      expect(result.recoveryCodes).toBeUndefined();
+    });
+
+    it('should reject a response the library does not verify', async () => {
+      await WebAuthnService.generateRegistrationOptions(userId);
+      mockVerifyRegistrationResponse.mockRejectedValueOnce(new Error('Unexpected registration response origin'));
+
+      await expect(
+        WebAuthnService.verifyRegistration(userId, registrationResponse('registration-challenge'))
+      ).rejects.toMatchObject({ statusCode: 400, code: 'WEBAUTHN_REGISTRATION_FAILED' });
+      expect(await WebAuthnService.hasCredentials(userId)).toBe(false);
+    });
+  });
+
+  describe('challenges', () => {
+    it('should consume a challenge so it cannot be used twice', async () => {
+      await WebAuthnService.generateRegistrationOptions(userId);
+      mockRegistrationVerified();
+      await WebAuthnService.verifyRegistration(userId, registrationResponse('registration-challenge'));
+
+      await expect(
+        WebAuthnService.verifyRegistration(userId, registrationResponse('registration-challenge', 'credential-2'))
+      ).rejects.toMatchObject({ code: 'WEBAUTHN_CHALLENGE_INVALID' });
+      expect(mockVerifyRegistrationResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a challenge issued for another ceremony', async () => {
+      await registerCredential();
+      await WebAuthnService.generateRegistrationOptions(userId);
+
+      await expect(
+        WebAuthnService.verifyAuthentication(authenticationResponse('registration-challenge', 1), userId)
+      ).rejects.toMatchObject({ code: 'WEBAUTHN_CHALLENGE_INVALID' });
+    });
+
+    it('should reject a challenge issued to another user', async () => {
+      const other = await User.create(mockUsers[1]);
+      await WebAuthnService.generateRegistrationOptions(other._id.toString());
+
+      await expect(
+        WebAuthnService.verifyRegistration(userId, registrationResponse('registration-challenge'))
+      ).rejects.toMatchObject({ code: 'WEBAUTHN_CHALLENGE_INVALID' });
+    });
+
+    it('should reject an expired challenge', async () => {
+      await WebAuthnService.generateRegistrationOptions(userId);
+      await WebAuthnChallenge.updateOne({ challenge: 'registration-challenge' }, { expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(
+        WebAuthnService.verifyRegistration(userId, registrationResponse('registration-challenge'))
+      ).rejects.toMatchObject({ code: 'WEBAUTHN_CHALLENGE_INVALID' });
+    });
+
+    it('should reject a response without a readable challenge', async () => {
+      const response = registrationResponse('registration-challenge');
+      response.response.clientDataJSON = Buffer.from('not json').toString('base64url');
+
+      await expect(WebAuthnService.verifyRegistration(userId, response)).rejects.toMatchObject({ code: 'WEBAUTHN_INVALID_RESPONSE' });
+    });
+  });
+
+  describe('authentication', () => {
+    beforeEach(async () => {
+      await registerCredential('credential-1', 5);
+    });
+
+    it('should only allow the user\'s credentials as a second factor', async () => {
+      await WebAuthnService.generateAuthenticationOptions(userId);
+
+      expect(mockGenerateAuthenticationOptions).toHaveBeenCalledWith(expect.objectContaining({
+        allowCredentials: [{ id: 'credential-1', transports: ['usb'] }],
+        userVerification: 'preferred',
+      }));
+    });
+
+    it('should refuse second factor options without a registered key', async () => {
+      await WebAuthnCredential.deleteMany({ userId });
+
+      await expect(WebAuthnService.generateAuthenticationOptions(userId)).rejects.toMatchObject({ code: 'WEBAUTHN_NOT_REGISTERED' });
+    });
+
+    it('should authenticate the user and store the new counter', async () => {
+      await WebAuthnService.generateAuthenticationOptions(userId);
+      mockAuthenticationVerified(6);
+
+      const authenticated = await WebAuthnService.verifyAuthentication(authenticationResponse('authentication-challenge', 6), userId);
+
+      expect(authenticated._id.toString()).toBe(userId);
+      const credential = await WebAuthnCredential.findOne({ credentialId: 'credential-1' });
+      expect(credential?.counter).toBe(6);
+      expect(credential?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject a credential registered to another user', async () => {
+      const other = await User.create(mockUsers[1]);
+      const otherId = other._id.toString();
+      await WebAuthnService.generateAuthenticationOptions(userId);
+      await WebAuthnChallenge.updateOne({ challenge: 'authentication-challenge' }, { userId: otherId });
+
+      await expect(
+        WebAuthnService.verifyAuthentication(authenticationResponse('authentication-challenge', 6), otherId)
+      ).rejects.toMatchObject({ statusCode: 401, code: 'WEBAUTHN_UNKNOWN_CREDENTIAL' });
+      expect(mockVerifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should flag a counter that did not increase as a possible clone', async () => {
+      await WebAuthnService.generateAuthenticationOptions(userId);
+      mockVerifyAuthenticationResponse.mockRejectedValueOnce(new Error('Response counter value 5 was lower than expected 5'));
+
+      await expect(
+        WebAuthnService.verifyAuthentication(authenticationResponse('authentication-challenge', 5), userId)
+      ).rejects.toMatchObject({ statusCode: 401, code: 'WEBAUTHN_VERIFICATION_FAILED' });
+
+      const event = await AuditLog.findOne({ userId, eventType: AuditEventType.SUSPICIOUS_ACTIVITY });
+      expect(event).not.toBeNull();
+      const credential = await WebAuthnCredential.findOne({ credentialId: 'credential-1' });
+      expect(credential?.counter).toBe(5);
+    });
+
+    it('should not flag other failed assertions as clones', async () => {
+      await WebAuthnService.generateAuthenticationOptions(userId);
+      mockVerifyAuthenticationResponse.mockRejectedValueOnce(new Error('Signature verification failed'));
+
+      await expect(
+        WebAuthnService.verifyAuthentication(authenticationResponse('authentication-challenge', 6), userId)
+      ).rejects.toThrow(AppError);
+
+      expect(await AuditLog.exists({ userId, eventType: AuditEventType.SUSPICIOUS_ACTIVITY })).toBeNull();
+    });
+  });
+
+  describe('passwordless login', () => {
+    beforeEach(async () => {
+      await User.findByIdAndUpdate(userId, { twoFactorEnabled: true, twoFactorSecret: mockUsers[1].twoFactorSecret });
+      await registerCredential('credential-1', 5);
+    });
+
+    it('should require user verification without a challenge token', async () => {
+      await AuthService.generateWebAuthnLoginOptions();
+
+      expect(mockGenerateAuthenticationOptions).toHaveBeenCalledWith(expect.objectContaining({
+        allowCredentials: undefined,
+        userVerification: 'required',
+      }));
+    });
+
+    it('should issue tokens without asking for a TOTP code', async () => {
+      await AuthService.generateWebAuthnLoginOptions();
+      mockAuthenticationVerified(6);
+
+      const result: AuthResult = await AuthService.loginWithWebAuthn(
+        authenticationResponse('authentication-challenge', 6, 'credential-1', Buffer.from(userId).toString('base64url'))
+      );
+
+      expect(result.user.email).toBe(mockUsers[0].email);
+      expect(result.accessToken).toBeDefined();
+      expect(result.refreshToken).toBeDefined();
+      expect(mockVerifyAuthenticationResponse).toHaveBeenCalledWith(expect.objectContaining({ requireUserVerification: true }));
+    });
+
+    it('should reject a user handle that does not match the credential', async () => {
+      await AuthService.generateWebAuthnLoginOptions();
+
+      await expect(
+        AuthService.loginWithWebAuthn(
+          authenticationResponse('authentication-challenge', 6, 'credential-1', Buffer.from('507f191e810c19729de860ea').toString('base64url'))
+        )
+      ).rejects.toMatchObject({ code: 'WEBAUTHN_UNKNOWN_CREDENTIAL' });
+    });
+  });
+});
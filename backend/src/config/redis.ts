@@ -1,16 +1,26 @@
 import { createClient, RedisClientType } from 'redis';
-import { logger } from './logger';
+import { logger } from '../utils/logger';
 
 let redisClient: RedisClientType;
 
+// Reconnect attempts before the first connect gives up, so the server can start without Redis
+const CONNECT_RETRIES = 5;
+
 export const connectRedis = async (): Promise<RedisClientType> => {
   try {
     const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+    let hasConnected = false;
     
     redisClient = createClient({
       url: redisUrl,
       socket: {
-        reconnectStrategy: (retries) => Math.min(retries * 50, 500)
+        // Once connected, dropped connections are retried for as long as it takes
+        reconnectStrategy: (retries) => {
+          if (!hasConnected && retries >= CONNECT_RETRIES) {
+            return new Error(`Redis unreachable after ${retries} attempts`);
+          }
+          return Math.min(retries * 50, 500);
+        }
       }
     });
 
@@ -23,6 +33,7 @@ export const connectRedis = async (): Promise<RedisClientType> => {
     });
 
     redisClient.on('ready', () => {
+      hasConnected = true;
       logger.info('Redis Client Ready');
     });
 
@@ -49,7 +60,7 @@ export const getRedisClient = (): RedisClientType => {
 
 export const disconnectRedis = async (): Promise<void> => {
   try {
-    if (redisClient) {
+    if (redisClient?.isOpen) {
       await redisClient.quit();
       logger.info('Redis disconnected successfully');
     }
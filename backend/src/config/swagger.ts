@@ -87,6 +87,35 @@ const options = {
             },
           },
         },
+        KdfConfig: {
+          type: 'object',
+          required: ['algorithm', 'iterations'],
+          properties: {
+            algorithm: {
+              type: 'string',
+              enum: ['pbkdf2-sha512', 'argon2id'],
+              description: 'Key derivation function for the master key',
+            },
+            iterations: {
+              type: 'integer',
+              description: 'PBKDF2 iterations or Argon2id passes',
+            },
+            memory: {
+              type: 'integer',
+              nullable: true,
+              description: 'Argon2id memory in KiB',
+            },
+            parallelism: {
+              type: 'integer',
+              nullable: true,
+              description: 'Argon2id lanes',
+            },
+            version: {
+              type: 'integer',
+              description: 'Parameter set version, raised whenever the defaults are strengthened; derived by the server from the other parameters',
+            },
+          },
+        },
         SecurityFeature: {
           type: 'object',
           properties: {
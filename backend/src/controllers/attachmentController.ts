@@ -0,0 +1,179 @@
+import { Request, Response, NextFunction } from 'express';
+import { header, param, validationResult } from 'express-validator';
+import { pipeline } from 'stream/promises';
+import { AttachmentService } from '../services/attachments';
+import { VaultKeyService } from '../services/vaultKeys';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Attachment Controller
+ * Handles encrypted files on vault items. Uploads and downloads are raw ciphertext streams,
+ * so they bypass the JSON body limit and never sit in memory whole.
+ */
+export class AttachmentController {
+  /**
+   * List an item's attachments
+   * @route GET /api/vault/items/:id/attachments
+   */
+  static async getAttachments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const attachments = await AttachmentService.list(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Attachments retrieved successfully',
+        data: {
+          attachments,
+          count: attachments.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Upload an attachment as an application/octet-stream body
+   * The encrypted file name and wrapped key travel in headers so the body can stay a stream.
+   * @route POST /api/vault/items/:id/attachments
+   */
+  static async uploadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      if (!req.is('application/octet-stream')) {
+        throw new AppError('Attachments must be uploaded as application/octet-stream', 415, 'UNSUPPORTED_MEDIA_TYPE');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await VaultKeyService.assertZeroKnowledge(userId);
+      const attachment = await AttachmentService.upload(userId, req.params.id, {
+        encryptedFileName: req.get('X-Encrypted-File-Name')!,
+        encryptedKey: req.get('X-Encrypted-Key')!,
+        size: Number(req.get('Content-Length')),
+      }, req);
+
+      res.status(201).json({
+        success: true,
+        message: 'Attachment uploaded successfully',
+        data: attachment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stream an attachment's ciphertext
+   * @route GET /api/vault/items/:id/attachments/:attachmentId
+   */
+  static async downloadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const { attachment, content } = await AttachmentService.download(userId, req.params.id, req.params.attachmentId);
+
+      res.status(200).set({
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': attachment.size.toString(),
+        'Cache-Control': 'no-store',
+      });
+      await pipeline(content, res);
+    } catch (error) {
+      // Once streaming has begun the response can only be cut off, which pipeline already did
+      if (res.headersSent) {
+        logger.error('Attachment download failed midway:', error);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an attachment and its ciphertext
+   * @route DELETE /api/vault/items/:id/attachments/:attachmentId
+   */
+  static async deleteAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await AttachmentService.remove(userId, req.params.id, req.params.attachmentId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Attachment deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+const itemIdValidation = param('id')
+  .isMongoId()
+  .withMessage('Invalid vault item ID');
+
+// Validation rules
+export const getAttachmentsValidation = [
+  itemIdValidation,
+];
+
+export const uploadAttachmentValidation = [
+  itemIdValidation,
+  header('x-encrypted-file-name')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted file name must be base64'),
+  header('x-encrypted-key')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted key must be base64'),
+  header('content-length')
+    .isInt({ min: 1 })
+    .withMessage('Content-Length is required'),
+];
+
+export const attachmentValidation = [
+  itemIdValidation,
+  param('attachmentId')
+    .isMongoId()
+    .withMessage('Invalid attachment ID'),
+];
@@ -1,10 +1,25 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, oneOf, param, validationResult } from 'express-validator';
 import { AuthService } from '../services/auth';
 import { SecurityFeaturesService } from '../services/securityFeatures';
+import { KeyRotationService } from '../services/keyRotation';
+import { DeviceService, DeviceContext } from '../services/devices';
+import { SessionService } from '../services/sessions';
+import { VaultKeyService } from '../services/vaultKeys';
+import { User, KdfAlgorithm } from '../models/User';
+import { SessionRevocationReason } from '../models/Session';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 
+/**
+ * Identify the calling device from the X-Device-Id header, IP and user agent
+ */
+const getDeviceContext = (req: Request): DeviceContext => ({
+  deviceId: req.get('X-Device-Id')?.slice(0, 128) || undefined,
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')?.slice(0, 512),
+});
+
 /**
  * Authentication Controller
  * Handles user registration, login, logout, and token management
@@ -22,20 +37,24 @@ export class AuthController {
         throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
       }
 
-      const { email, password, masterPassword } = req.body;
+      const { email, password, masterPasswordHash, masterKeySalt, encryptedVaultKey, kdf } = req.body;
 
       // Register user
-      const result = await AuthService.register(email, password, masterPassword);
+      const result = await AuthService.register(
+        email,
+        password,
+        { masterPasswordHash, masterKeySalt, encryptedVaultKey, kdf },
+        getDeviceContext(req)
+      );
 
       // Initialize security features for new user
       await SecurityFeaturesService.initializeUserSecurityFeatures(result.user.id);
 
-      // Enable master password protection (East direction)
-      await SecurityFeaturesService.updateSecurityFeature(
-        result.user.id,
-        'east' as any,
-        { enabled: true, score: 100 }
-      );
+      // Count the registering device towards Device Binding (South direction)
+      await SecurityFeaturesService.syncDeviceBindingFeature(result.user.id);
+
+      // Score master password protection (East direction) from the KDF parameters
+      await SecurityFeaturesService.syncMasterPasswordFeature(result.user.id);
 
       logger.info('User registered successfully', { userId: result.user.id, email });
 
@@ -62,33 +81,26 @@ export class AuthController {
       }
 
       const { email, password, twoFactorToken } = req.body;
+      const context = getDeviceContext(req);
 
       // Login user
-      const result = await AuthService.login(email, password);
+      let result = await AuthService.login(email, password, context);
 
-      // Check if 2FA is enabled
-      if (result.user.twoFactorEnabled) {
-        if (!twoFactorToken) {
+      // Second factor or device verification required before tokens are issued
+      if ('requiresTwoFactor' in result) {
+        if (!twoFactorToken || !result.methods.includes('totp')) {
           res.status(200).json({
             success: true,
-            message: 'Two-factor authentication required',
-            data: {
-              requiresTwoFactor: true,
-              userId: result.user.id,
-            },
+            message: result.methods.includes('master_password')
+              ? 'New device, confirm with your master password'
+              : 'Two-factor authentication required',
+            data: result,
           });
           return;
         }
 
-        // Verify 2FA token
-        const isTwoFactorValid = await SecurityFeaturesService.verifyTwoFactor(
-          result.user.id,
-          twoFactorToken
-        );
-
-        if (!isTwoFactorValid) {
-          throw new AppError('Invalid two-factor authentication token', 401, 'INVALID_2FA_TOKEN');
-        }
+        // Code supplied up front, complete both steps in one request
+        result = await AuthService.loginWithTwoFactor(result.challengeToken, twoFactorToken, context);
       }
 
       logger.info('User logged in successfully', { userId: result.user.id, email });
@@ -103,6 +115,114 @@ export class AuthController {
     }
   }
 
+  /**
+   * Complete login with a TOTP code
+   * @route POST /api/auth/login/2fa
+   */
+  static async loginTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const { challengeToken, code } = req.body;
+
+      const result = await AuthService.loginWithTwoFactor(challengeToken, code, getDeviceContext(req));
+
+      logger.info('User completed two-factor login', { userId: result.user.id });
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete login from an unknown device with the master password
+   * @route POST /api/auth/login/verify-device
+   */
+  static async verifyDevice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const { challengeToken, masterPassword, masterPasswordHash } = req.body;
+
+      const result = await AuthService.loginWithMasterPassword(
+        challengeToken,
+        masterPasswordHash ?? masterPassword,
+        getDeviceContext(req)
+      );
+
+      logger.info('User verified new device', { userId: result.user.id });
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get WebAuthn assertion options for a second factor or passwordless login
+   * @route POST /api/auth/webauthn/options
+   */
+  static async webAuthnLoginOptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const options = await AuthService.generateWebAuthnLoginOptions(req.body.challengeToken, getDeviceContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: { options },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete login with a WebAuthn assertion
+   * @route POST /api/auth/webauthn/verify
+   */
+  static async webAuthnLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const { response, challengeToken } = req.body;
+
+      const result = await AuthService.loginWithWebAuthn(response, challengeToken, getDeviceContext(req));
+
+      logger.info('User logged in with WebAuthn', { userId: result.user.id, passwordless: !challengeToken });
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Logout user
    * @route POST /api/auth/logout
@@ -112,7 +232,7 @@ export class AuthController {
       const userId = req.user?.id;
 
       if (userId) {
-        await AuthService.logout(userId);
+        await AuthService.logout(userId, req.sessionId, req.accessToken);
         logger.info('User logged out successfully', { userId });
       }
 
@@ -137,7 +257,7 @@ export class AuthController {
         throw new AppError('Refresh token required', 400, 'REFRESH_TOKEN_REQUIRED');
       }
 
-      const result = await AuthService.refreshToken(refreshToken);
+      const result = await AuthService.refreshToken(refreshToken, getDeviceContext(req));
 
       res.status(200).json({
         success: true,
@@ -149,6 +269,150 @@ export class AuthController {
     }
   }
 
+  /**
+   * List devices that have signed in to the account
+   * @route GET /api/auth/devices
+   */
+  static async getDevices(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const devices = await DeviceService.listDevices(userId);
+      const currentFingerprint = DeviceService.fingerprint(getDeviceContext(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Devices retrieved successfully',
+        data: {
+          devices: devices.map(device => ({
+            ...device.toJSON(),
+            current: device.fingerprint === currentFingerprint,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a device and sign it out
+   * @route DELETE /api/auth/devices/:id
+   */
+  static async revokeDevice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const device = await DeviceService.revokeDevice(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Device revoked successfully',
+        data: { device },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List active sessions
+   * @route GET /api/auth/sessions
+   */
+  static async getSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const sessions = await SessionService.listSessions(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Sessions retrieved successfully',
+        data: {
+          sessions: sessions.map(session => ({
+            ...session.toJSON(),
+            current: session._id.toString() === req.sessionId,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a single session
+   * @route DELETE /api/auth/sessions/:id
+   */
+  static async revokeSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await SessionService.revokeSession(userId, req.params.id);
+
+      logger.info('Session revoked', { userId, sessionId: req.params.id });
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke every session, signing the account out everywhere
+   * @route DELETE /api/auth/sessions
+   */
+  static async revokeAllSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const count = await AuthService.revokeAllAccess(userId, SessionRevocationReason.USER_REVOKED);
+
+      logger.info('All sessions revoked', { userId, count });
+
+      res.status(200).json({
+        success: true,
+        message: 'All sessions revoked successfully',
+        data: { count },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get current user profile
    * @route GET /api/auth/me
@@ -200,6 +464,8 @@ export class AuthController {
         throw new AppError('Current password is incorrect', 400, 'INVALID_CURRENT_PASSWORD');
       }
 
+      AuthService.validatePasswordStrength(newPassword, 'account', [user.email]);
+
       // Hash new password
       const hashedNewPassword = await AuthService.hashPassword(newPassword);
 
@@ -207,11 +473,14 @@ export class AuthController {
       user.password = hashedNewPassword;
       await user.save();
 
+      // Whoever else knew the old password may hold tokens, so sign out everywhere
+      await AuthService.revokeAllAccess(userId, SessionRevocationReason.PASSWORD_CHANGE);
+
       logger.info('Password changed successfully', { userId });
 
       res.status(200).json({
         success: true,
-        message: 'Password changed successfully',
+        message: 'Password changed successfully, please sign in again',
       });
     } catch (error) {
       next(error);
@@ -220,6 +489,8 @@ export class AuthController {
 
   /**
    * Change master password
+   * Zero-knowledge accounts send a vault key the client already re-wrapped, legacy accounts
+   * send both passwords and have every data key re-wrapped on the server.
    * @route PUT /api/auth/change-master-password
    */
   static async changeMasterPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -229,43 +500,110 @@ export class AuthController {
         throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
       }
 
-      const { currentMasterPassword, newMasterPassword } = req.body;
+      const {
+        currentMasterPassword,
+        newMasterPassword,
+        currentMasterPasswordHash,
+        newMasterPasswordHash,
+        masterKeySalt,
+        encryptedVaultKey,
+        kdf,
+      } = req.body;
       const userId = req.user?.id;
 
       if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      // Verify current master password
+      if (currentMasterPasswordHash) {
+        await VaultKeyService.changeMasterPassword(userId, currentMasterPasswordHash, {
+          masterPasswordHash: newMasterPasswordHash,
+          masterKeySalt,
+          encryptedVaultKey,
+          kdf,
+        }, req.sessionId);
+
+        logger.info('Master password changed successfully', { userId });
+
+        res.status(200).json({
+          success: true,
+          message: 'Master password changed successfully',
+          data: { rotation: null },
+        });
+        return;
+      }
+
       const user = await User.findById(userId);
-      if (!user) {
+      if (user?.zeroKnowledge) {
+        throw new AppError('Change the master password from an unlocked vault', 400, 'MASTER_PASSWORD_HASH_REQUIRED');
+      }
+
+      AuthService.validatePasswordStrength(newMasterPassword, 'master', user ? [user.email] : []);
+
+      const rotation = await KeyRotationService.startRotation(userId, currentMasterPassword, newMasterPassword, req.sessionId);
+
+      logger.info('Master password changed successfully', { userId, itemCount: rotation.totalItems });
+
+      res.status(200).json({
+        success: true,
+        message: 'Master password changed successfully',
+        data: { rotation },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get progress of the latest master password change
+   * @route GET /api/auth/master-password/rotation
+   */
+  static async getMasterPasswordRotation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      const isCurrentMasterPasswordValid = await AuthService.verifyPassword(
-        currentMasterPassword,
-        user.masterPassword
-      );
-      if (!isCurrentMasterPasswordValid) {
-        throw new AppError('Current master password is incorrect', 400, 'INVALID_CURRENT_MASTER_PASSWORD');
+      const rotation = await KeyRotationService.getLatestRotation(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Master password rotation retrieved successfully',
+        data: { rotation },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Resume an interrupted master password change
+   * @route POST /api/auth/master-password/rotation/resume
+   */
+  static async resumeMasterPasswordRotation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
       }
 
-      // Hash new master password
-      const hashedNewMasterPassword = await AuthService.hashPassword(newMasterPassword);
+      const { currentMasterPassword, newMasterPassword } = req.body;
+      const userId = req.user?.id;
 
-      // Generate new master key salt
-      const newSalt = EncryptionService.generateSalt();
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
 
-      // Update master password and salt
-      user.masterPassword = hashedNewMasterPassword;
-      user.masterKeySalt = newSalt.toString('hex');
-      await user.save();
+      const rotation = await KeyRotationService.resumeRotation(userId, currentMasterPassword, newMasterPassword, req.sessionId);
 
-      logger.info('Master password changed successfully', { userId });
+      logger.info('Master password change resumed successfully', { userId, itemCount: rotation.totalItems });
 
       res.status(200).json({
         success: true,
         message: 'Master password changed successfully',
+        data: { rotation },
       });
     } catch (error) {
       next(error);
@@ -273,6 +611,40 @@ export class AuthController {
   }
 }
 
+/**
+ * Key material derived in the browser: a master password hash, the KDF salt and parameters,
+ * and the wrapped vault key. KdfService checks the parameters' bounds.
+ */
+const vaultKeyValidation = (hashField: string) => [
+  body(hashField)
+    .isBase64()
+    .notEmpty()
+    .withMessage('Master password hash is required'),
+  body('masterKeySalt')
+    .isHexadecimal()
+    .isLength({ min: 32, max: 128 })
+    .withMessage('Master key salt must be hexadecimal'),
+  body('encryptedVaultKey')
+    .isBase64()
+    .notEmpty()
+    .withMessage('Encrypted vault key is required'),
+  body('kdf.algorithm')
+    .isIn(Object.values(KdfAlgorithm))
+    .withMessage('Unsupported key derivation function'),
+  body('kdf.iterations')
+    .isInt({ min: 1 })
+    .withMessage('Key derivation parameters must be positive integers'),
+  // Ignored, the server derives the version from the parameters
+  body('kdf.version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Key derivation parameters must be positive integers'),
+  body(['kdf.memory', 'kdf.parallelism'])
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Key derivation parameters must be positive integers'),
+];
+
 // Validation rules
 export const registerValidation = [
   body('email')
@@ -281,14 +653,8 @@ export const registerValidation = [
     .withMessage('Please provide a valid email address'),
   body('password')
     .isLength({ min: 8 })
-    .withMessage('Password must be at least 8 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/)
-    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
-  body('masterPassword')
-    .isLength({ min: 8 })
-    .withMessage('Master password must be at least 8 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/)
-    .withMessage('Master password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    .withMessage('Password must be at least 8 characters long'),
+  ...vaultKeyValidation('masterPasswordHash'),
 ];
 
 export const loginValidation = [
@@ -301,24 +667,93 @@ export const loginValidation = [
     .withMessage('Password is required'),
 ];
 
+export const loginTwoFactorValidation = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  body('code')
+    .isString()
+    .trim()
+    .isLength({ min: 6, max: 16 })
+    .withMessage('Enter a 6-digit code or a recovery code'),
+];
+
+export const verifyDeviceValidation = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  oneOf([
+    body('masterPasswordHash').isBase64().notEmpty(),
+    body('masterPassword').notEmpty(),
+  ], { message: 'Master password is required' }),
+];
+
+export const webAuthnLoginOptionsValidation = [
+  body('challengeToken')
+    .optional()
+    .isString()
+    .withMessage('Challenge token must be a string'),
+];
+
+export const webAuthnLoginValidation = [
+  body('response')
+    .isObject()
+    .withMessage('WebAuthn response is required'),
+  body('response.id')
+    .isString()
+    .withMessage('WebAuthn credential ID is required'),
+  body('challengeToken')
+    .optional()
+    .isString()
+    .withMessage('Challenge token must be a string'),
+];
+
 export const changePasswordValidation = [
   body('currentPassword')
     .notEmpty()
     .withMessage('Current password is required'),
   body('newPassword')
     .isLength({ min: 8 })
-    .withMessage('New password must be at least 8 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/)
-    .withMessage('New password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    .withMessage('New password must be at least 8 characters long'),
 ];
 
 export const changeMasterPasswordValidation = [
+  oneOf([
+    [
+      body('currentMasterPasswordHash')
+        .isBase64()
+        .notEmpty()
+        .withMessage('Current master password hash is required'),
+      ...vaultKeyValidation('newMasterPasswordHash'),
+    ],
+    [
+      body('currentMasterPassword')
+        .notEmpty()
+        .withMessage('Current master password is required'),
+      body('newMasterPassword')
+        .isLength({ min: 8 })
+        .withMessage('New master password must be at least 8 characters long'),
+    ],
+  ]),
+];
+
+export const resumeMasterPasswordRotationValidation = [
   body('currentMasterPassword')
     .notEmpty()
     .withMessage('Current master password is required'),
   body('newMasterPassword')
-    .isLength({ min: 8 })
-    .withMessage('New master password must be at least 8 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/)
-    .withMessage('New master password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    .notEmpty()
+    .withMessage('New master password is required'),
+];
+
+export const revokeDeviceValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid device ID'),
+];
+
+export const revokeSessionValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid session ID'),
 ];
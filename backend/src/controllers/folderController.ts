@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { FolderDeletePolicy } from '../models/Folder';
+import { FolderService } from '../services/folders';
+import { VaultKeyService } from '../services/vaultKeys';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Folder Controller
+ * Handles the folder tree vault items are filed in. Folder names are encrypted in the browser.
+ */
+export class FolderController {
+  /**
+   * Get every folder of the authenticated user
+   * @route GET /api/vault/folders
+   */
+  static async getFolders(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const folders = await FolderService.list(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Folders retrieved successfully',
+        data: {
+          folders,
+          count: folders.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a folder, at the top level or inside another one
+   * @route POST /api/vault/folders
+   */
+  static async createFolder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { encryptedName, parentId } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await VaultKeyService.assertZeroKnowledge(userId);
+      const folder = await FolderService.create(userId, encryptedName, parentId || null);
+
+      res.status(201).json({
+        success: true,
+        message: 'Folder created successfully',
+        data: folder,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a folder and/or move it under another parent
+   * @route PUT /api/vault/folders/:id
+   */
+  static async updateFolder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { id } = req.params;
+      const { encryptedName, parentId } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      if (encryptedName === undefined && parentId === undefined) {
+        throw new AppError('Nothing to update', 400, 'VALIDATION_ERROR');
+      }
+
+      let folder;
+      if (encryptedName !== undefined) {
+        folder = await FolderService.rename(userId, id, encryptedName);
+      }
+      if (parentId !== undefined) {
+        folder = await FolderService.move(userId, id, parentId);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Folder updated successfully',
+        data: folder,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a folder
+   * By default its items and subfolders move up to its parent; ?items=trash sends every
+   * item below it to the trash instead.
+   * @route DELETE /api/vault/folders/:id
+   */
+  static async deleteFolder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const policy = (req.query.items as FolderDeletePolicy) || FolderDeletePolicy.MOVE_TO_PARENT;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const result = await FolderService.delete(userId, req.params.id, policy);
+
+      res.status(200).json({
+        success: true,
+        message: 'Folder deleted successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+const folderIdValidation = param('id')
+  .isMongoId()
+  .withMessage('Invalid folder ID');
+
+// Validation rules
+export const createFolderValidation = [
+  body('encryptedName')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted name must be base64'),
+  body('parentId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid parent folder ID'),
+];
+
+export const updateFolderValidation = [
+  folderIdValidation,
+  body('encryptedName')
+    .optional()
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted name must be base64'),
+  body('parentId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid parent folder ID'),
+];
+
+export const deleteFolderValidation = [
+  folderIdValidation,
+  query('items')
+    .optional()
+    .isIn(Object.values(FolderDeletePolicy))
+    .withMessage(`Items must be one of: ${Object.values(FolderDeletePolicy).join(', ')}`),
+];
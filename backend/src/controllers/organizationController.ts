@@ -0,0 +1,613 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { OrganizationRole } from '../models/Organization';
+import { VaultItemType } from '../models/VaultItem';
+import { OrganizationService } from '../services/organizations';
+import { CollectionService } from '../services/collections';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Organization Controller
+ * Handles organizations, their members, collections and shared items. Routes under an
+ * organization go through authorizeOrganization, which attaches the caller's membership.
+ */
+export class OrganizationController {
+  /**
+   * Get the organizations the authenticated user belongs to
+   * @route GET /api/organizations
+   */
+  static async getOrganizations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const organizations = await OrganizationService.listForUser(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Organizations retrieved successfully',
+        data: {
+          organizations,
+          count: organizations.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create an organization owned by the authenticated user
+   * @route POST /api/organizations
+   */
+  static async createOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const organization = await OrganizationService.create(userId, req.body.name);
+
+      res.status(201).json({
+        success: true,
+        message: 'Organization created successfully',
+        data: organization,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename an organization
+   * @route PUT /api/organizations/:id
+   */
+  static async updateOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const organization = await OrganizationService.rename(req.params.id, req.body.name);
+
+      res.status(200).json({
+        success: true,
+        message: 'Organization updated successfully',
+        data: organization,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an organization with everything shared in it
+   * @route DELETE /api/organizations/:id
+   */
+  static async deleteOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await OrganizationService.delete(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Organization deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the members of an organization with their public keys
+   * @route GET /api/organizations/:id/members
+   */
+  static async getMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const members = await OrganizationService.listMembers(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Members retrieved successfully',
+        data: {
+          members,
+          count: members.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a registered user to an organization
+   * @route POST /api/organizations/:id/members
+   */
+  static async addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+      const { email, role = OrganizationRole.MEMBER } = req.body;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      const member = await OrganizationService.addMember(membership, email, role);
+
+      res.status(201).json({
+        success: true,
+        message: 'Member added successfully',
+        data: member,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a member's role
+   * @route PUT /api/organizations/:id/members/:userId
+   */
+  static async updateMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      const member = await OrganizationService.updateMemberRole(membership, req.params.userId, req.body.role);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member updated successfully',
+        data: member,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a member, or leave the organization
+   * @route DELETE /api/organizations/:id/members/:userId
+   */
+  static async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      await OrganizationService.removeMember(membership, req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the collections visible to the caller
+   * @route GET /api/organizations/:id/collections
+   */
+  static async getCollections(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const membership = req.membership;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      const collections = await CollectionService.list(membership);
+
+      res.status(200).json({
+        success: true,
+        message: 'Collections retrieved successfully',
+        data: {
+          collections,
+          count: collections.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a collection
+   * @route POST /api/organizations/:id/collections
+   */
+  static async createCollection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      const collection = await CollectionService.create(membership, req.body.name);
+
+      res.status(201).json({
+        success: true,
+        message: 'Collection created successfully',
+        data: collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a collection and/or replace who has access to it
+   * Users given access need their wrapped copy of every item's data key in keys.
+   * @route PUT /api/organizations/:id/collections/:collectionId
+   */
+  static async updateCollection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+      const { collectionId } = req.params;
+      const { name, access, keys } = req.body;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      if (name === undefined && access === undefined) {
+        throw new AppError('Nothing to update', 400, 'VALIDATION_ERROR');
+      }
+
+      let collection;
+      if (name !== undefined) {
+        collection = await CollectionService.rename(membership, collectionId, name);
+      }
+      if (access !== undefined) {
+        collection = await CollectionService.setAccess(membership, collectionId, access, keys);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Collection updated successfully',
+        data: collection,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a collection and its items
+   * @route DELETE /api/organizations/:id/collections/:collectionId
+   */
+  static async deleteCollection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      await CollectionService.delete(membership, req.params.collectionId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Collection deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the shared items the caller can decrypt, each with the caller's wrapped data key
+   * @route GET /api/organizations/:id/items
+   */
+  static async getItems(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      const items = await CollectionService.listItems(membership, req.query.collectionId as string | undefined);
+
+      res.status(200).json({
+        success: true,
+        message: 'Items retrieved successfully',
+        data: {
+          items,
+          count: items.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add an item to a collection
+   * @route POST /api/organizations/:id/items
+   */
+  static async createItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+      const { collectionId, type, encryptedData, iv, tag, algorithm, keys } = req.body;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      const item = await CollectionService.createItem(
+        membership,
+        collectionId,
+        type,
+        { encryptedData, iv, tag, algorithm },
+        keys
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Item created successfully',
+        data: item,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace a shared item's ciphertext
+   * @route PUT /api/organizations/:id/items/:itemId
+   */
+  static async updateItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+      const { encryptedData, iv, tag, algorithm } = req.body;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      const item = await CollectionService.updateItem(membership, req.params.itemId, { encryptedData, iv, tag, algorithm });
+
+      res.status(200).json({
+        success: true,
+        message: 'Item updated successfully',
+        data: item,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a shared item
+   * @route DELETE /api/organizations/:id/items/:itemId
+   */
+  static async deleteItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const membership = req.membership;
+
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      await CollectionService.deleteItem(membership, req.params.itemId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Item deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+const organizationIdValidation = param('id')
+  .isMongoId()
+  .withMessage('Invalid organization ID');
+
+const nameValidation = (optional = false) => (optional ? body('name').optional() : body('name'))
+  .isString()
+  .trim()
+  .isLength({ min: 1, max: 100 })
+  .withMessage('Name must be 1 to 100 characters long');
+
+const ciphertextValidation = () => [
+  body('encryptedData')
+    .isBase64()
+    .withMessage('Encrypted data must be base64'),
+  body('iv')
+    .isBase64()
+    .withMessage('IV must be base64'),
+  body('tag')
+    .isBase64()
+    .withMessage('Authentication tag must be base64'),
+  body('algorithm')
+    .optional()
+    .isIn(['aes', 'xchacha'])
+    .withMessage('Algorithm must be either aes or xchacha'),
+];
+
+// Validation rules
+export const organizationValidation = [
+  nameValidation(),
+];
+
+export const updateOrganizationValidation = [
+  organizationIdValidation,
+  nameValidation(),
+];
+
+export const addMemberValidation = [
+  organizationIdValidation,
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email'),
+  body('role')
+    .optional()
+    .isIn(Object.values(OrganizationRole))
+    .withMessage(`Role must be one of: ${Object.values(OrganizationRole).join(', ')}`),
+];
+
+export const memberValidation = [
+  organizationIdValidation,
+  param('userId')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+];
+
+export const updateMemberValidation = [
+  ...memberValidation,
+  body('role')
+    .isIn(Object.values(OrganizationRole))
+    .withMessage(`Role must be one of: ${Object.values(OrganizationRole).join(', ')}`),
+];
+
+export const createCollectionValidation = [
+  organizationIdValidation,
+  nameValidation(),
+];
+
+export const collectionValidation = [
+  organizationIdValidation,
+  param('collectionId')
+    .isMongoId()
+    .withMessage('Invalid collection ID'),
+];
+
+export const updateCollectionValidation = [
+  ...collectionValidation,
+  nameValidation(true),
+  body('access')
+    .optional()
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Access must be an array of 1 to 500 members'),
+  body('access.*.userId')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('access.*.readOnly')
+    .optional()
+    .isBoolean()
+    .withMessage('Read-only must be a boolean')
+    .toBoolean(),
+  body('keys')
+    .optional()
+    .isArray({ max: 50000 })
+    .withMessage('Keys must be an array'),
+  body('keys.*.itemId')
+    .isMongoId()
+    .withMessage('Invalid item ID'),
+  body('keys.*.userId')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('keys.*.encryptedDataKey')
+    .isBase64()
+    .withMessage('Encrypted data key must be base64'),
+];
+
+export const getItemsValidation = [
+  organizationIdValidation,
+  query('collectionId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid collection ID'),
+];
+
+export const createItemValidation = [
+  organizationIdValidation,
+  body('collectionId')
+    .isMongoId()
+    .withMessage('Invalid collection ID'),
+  body('type')
+    .isIn(Object.values(VaultItemType))
+    .withMessage('Invalid vault item type'),
+  ...ciphertextValidation(),
+  body('keys')
+    .isArray({ min: 1, max: 500 })
+    .withMessage('Keys must be an array of 1 to 500 wrapped data keys'),
+  body('keys.*.userId')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('keys.*.encryptedDataKey')
+    .isBase64()
+    .withMessage('Encrypted data key must be base64'),
+];
+
+export const itemValidation = [
+  organizationIdValidation,
+  param('itemId')
+    .isMongoId()
+    .withMessage('Invalid item ID'),
+];
+
+export const updateItemValidation = [
+  ...itemValidation,
+  ...ciphertextValidation(),
+];
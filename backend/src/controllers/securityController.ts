@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
 import { SecurityFeaturesService } from '../services/securityFeatures';
+import { WebAuthnService } from '../services/webauthn';
+import { PasswordGeneratorService } from '../services/passwordGenerator';
+import { PasswordStrengthService } from '../services/passwordStrength';
+import { PwnedPasswordsService } from '../services/pwnedPasswords';
 import { SecurityDirection } from '../models/SecurityFeature';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
@@ -125,15 +129,16 @@ export class SecurityController {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      const isValid = await SecurityFeaturesService.verifyTwoFactor(userId, token);
+      const { verified, recoveryCodes } = await SecurityFeaturesService.verifyTwoFactor(userId, token);
 
-      if (!isValid) {
+      if (!verified) {
         throw new AppError('Invalid two-factor authentication token', 401, 'INVALID_2FA_TOKEN');
       }
 
       res.status(200).json({
         success: true,
         message: 'Two-factor authentication verified successfully',
+        data: { recoveryCodes },
       });
     } catch (error) {
       next(error);
@@ -163,6 +168,168 @@ export class SecurityController {
     }
   }
 
+  /**
+   * Get the number of unused recovery codes
+   * @route GET /api/security/two-factor/recovery-codes
+   */
+  static async getRecoveryCodeStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const remaining = await SecurityFeaturesService.getRemainingRecoveryCodes(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { remaining },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Regenerate recovery codes, invalidating the previous set
+   * @route POST /api/security/two-factor/recovery-codes
+   */
+  static async regenerateRecoveryCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { token } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const recoveryCodes = await SecurityFeaturesService.regenerateRecoveryCodes(userId, token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Recovery codes regenerated successfully',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get WebAuthn registration options
+   * @route POST /api/security/webauthn/register/options
+   */
+  static async webAuthnRegistrationOptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const options = await WebAuthnService.generateRegistrationOptions(userId, req.body.authenticatorAttachment);
+
+      res.status(200).json({
+        success: true,
+        data: { options },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Verify a WebAuthn registration and store the credential
+   * @route POST /api/security/webauthn/register/verify
+   */
+  static async webAuthnRegistrationVerify(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { response, name } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const result = await WebAuthnService.verifyRegistration(userId, response, name);
+
+      res.status(201).json({
+        success: true,
+        message: 'Security key registered successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List registered WebAuthn credentials
+   * @route GET /api/security/webauthn/credentials
+   */
+  static async getWebAuthnCredentials(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const credentials = await WebAuthnService.listCredentials(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { credentials },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a WebAuthn credential
+   * @route DELETE /api/security/webauthn/credentials/:id
+   */
+  static async deleteWebAuthnCredential(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await WebAuthnService.deleteCredential(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Security key removed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Analyze password strength
    * @route POST /api/security/analyze-password
@@ -174,9 +341,9 @@ export class SecurityController {
         throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
       }
 
-      const { password } = req.body;
+      const { password, userInputs } = req.body;
 
-      const analysis = SecurityFeaturesService.analyzePasswordStrength(password);
+      const analysis = PasswordStrengthService.estimate(password, userInputs);
       const breachCheck = await SecurityFeaturesService.checkPasswordBreach(password);
 
       res.status(200).json({
@@ -217,6 +384,117 @@ export class SecurityController {
     }
   }
 
+  /**
+   * Get the breach counts for a SHA-1 hash prefix
+   * Lets the browser check vault passwords without them, or their full hashes, leaving it.
+   * @route GET /api/security/breach-range/:prefix
+   */
+  static async getBreachRange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const { prefix } = req.params;
+
+      const range = await PwnedPasswordsService.getRange(prefix);
+
+      res.status(200).json({
+        success: true,
+        message: 'Breach range retrieved successfully',
+        data: {
+          prefix: prefix.toUpperCase(),
+          suffixes: Object.fromEntries(range),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Generate a random password or passphrase
+   * @route POST /api/security/generate
+   */
+  static async generate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const { type = 'password', ...options } = req.body;
+      const defaults = PasswordGeneratorService.DEFAULT_SETTINGS;
+
+      const generated = type === 'passphrase'
+        ? PasswordGeneratorService.generatePassphrase({ ...defaults.passphrase, ...options })
+        : PasswordGeneratorService.generatePassword({ ...defaults.password, ...options });
+
+      res.status(200).json({
+        success: true,
+        message: 'Generated successfully',
+        data: { type, ...generated },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the saved password generator settings
+   * @route GET /api/security/generator/settings
+   */
+  static async getGeneratorSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const settings = await PasswordGeneratorService.getSettings(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Generator settings retrieved successfully',
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Save password generator settings
+   * @route PUT /api/security/generator/settings
+   */
+  static async updateGeneratorSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { type, password, passphrase } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const settings = await PasswordGeneratorService.updateSettings(userId, { type, password, passphrase });
+
+      res.status(200).json({
+        success: true,
+        message: 'Generator settings updated successfully',
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Enable Vault Encryption
    * @route POST /api/security/vault-encryption/enable
@@ -274,6 +552,60 @@ export class SecurityController {
     }
   }
 
+  /**
+   * Get the Watchtower report over the user's logins
+   * @route GET /api/security/watchtower/report
+   */
+  static async getWatchtowerReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const report = await SecurityFeaturesService.syncWatchtowerFeature(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Watchtower report generated successfully',
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update Watchtower settings
+   * @route PUT /api/security/watchtower/settings
+   */
+  static async updateWatchtowerSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { maxPasswordAgeDays } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const report = await SecurityFeaturesService.updateWatchtowerSettings(userId, maxPasswordAgeDays);
+
+      res.status(200).json({
+        success: true,
+        message: 'Watchtower settings updated successfully',
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get security dashboard data
    * @route GET /api/security/dashboard
@@ -286,6 +618,8 @@ export class SecurityController {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
+      // The Watchtower score follows the vault, which changes without the feature being touched
+      await SecurityFeaturesService.syncWatchtowerFeature(userId);
       const features = await SecurityFeaturesService.getUserSecurityFeatures(userId);
       const securityScore = await SecurityFeaturesService.calculateSecurityScore(userId);
 
@@ -334,10 +668,50 @@ export const verifyTwoFactorValidation = [
     .withMessage('Token must be a 6-digit number'),
 ];
 
+export const regenerateRecoveryCodesValidation = [
+  body('token')
+    .isString()
+    .trim()
+    .isLength({ min: 6, max: 16 })
+    .withMessage('Enter a 6-digit code or a recovery code'),
+];
+
+export const webAuthnRegistrationOptionsValidation = [
+  body('authenticatorAttachment')
+    .optional()
+    .isIn(['platform', 'cross-platform'])
+    .withMessage('Authenticator attachment must be platform or cross-platform'),
+];
+
+export const webAuthnRegistrationVerifyValidation = [
+  body('response')
+    .isObject()
+    .withMessage('WebAuthn response is required'),
+  body('name')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+];
+
+export const webAuthnCredentialIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid credential ID'),
+];
+
 export const analyzePasswordValidation = [
   body('password')
     .notEmpty()
     .withMessage('Password is required'),
+  body('userInputs')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('User inputs must be an array of at most 20 strings'),
+  body('userInputs.*')
+    .isString()
+    .isLength({ max: 256 })
+    .withMessage('User inputs must be strings'),
 ];
 
 export const checkBreachValidation = [
@@ -346,9 +720,88 @@ export const checkBreachValidation = [
     .withMessage('Password is required'),
 ];
 
+export const breachRangeValidation = [
+  param('prefix')
+    .matches(/^[0-9A-Fa-f]{5}$/)
+    .withMessage('Hash prefix must be five hexadecimal characters'),
+];
+
+export const watchtowerSettingsValidation = [
+  body('maxPasswordAgeDays')
+    .isInt({ min: 30, max: 3650 })
+    .withMessage('Password age limit must be between 30 and 3650 days')
+    .toInt(),
+];
+
 export const enableVaultEncryptionValidation = [
   body('algorithm')
     .optional()
     .isIn(['aes', 'xchacha'])
     .withMessage('Algorithm must be either aes or xchacha'),
 ];
+
+const passwordOptionRules = (prefix = '') => [
+  body(`${prefix}length`)
+    .optional()
+    .isInt({ min: PasswordGeneratorService.MIN_LENGTH, max: PasswordGeneratorService.MAX_LENGTH })
+    .withMessage(`Length must be between ${PasswordGeneratorService.MIN_LENGTH} and ${PasswordGeneratorService.MAX_LENGTH}`)
+    .toInt(),
+  body(['lowercase', 'uppercase', 'numbers', 'symbols', 'excludeAmbiguous'].map(field => `${prefix}${field}`))
+    .optional()
+    .isBoolean()
+    .withMessage('Character class options must be true or false')
+    .toBoolean(),
+  body(['minLowercase', 'minUppercase', 'minNumbers', 'minSymbols'].map(field => `${prefix}${field}`))
+    .optional()
+    .isInt({ min: 0, max: PasswordGeneratorService.MAX_LENGTH })
+    .withMessage('Minimum counts must be whole numbers')
+    .toInt(),
+];
+
+const passphraseOptionRules = (prefix = '') => [
+  body(`${prefix}words`)
+    .optional()
+    .isInt({ min: PasswordGeneratorService.MIN_WORDS, max: PasswordGeneratorService.MAX_WORDS })
+    .withMessage(`Word count must be between ${PasswordGeneratorService.MIN_WORDS} and ${PasswordGeneratorService.MAX_WORDS}`)
+    .toInt(),
+  body(`${prefix}separator`)
+    .optional()
+    .isString()
+    .isLength({ max: PasswordGeneratorService.MAX_SEPARATOR_LENGTH })
+    .withMessage(`Separator can be at most ${PasswordGeneratorService.MAX_SEPARATOR_LENGTH} characters`),
+  body(`${prefix}capitalize`)
+    .optional()
+    .isBoolean()
+    .withMessage('Capitalize must be true or false')
+    .toBoolean(),
+];
+
+export const generateValidation = [
+  body('type')
+    .optional()
+    .isIn(['password', 'passphrase'])
+    .withMessage('Type must be either password or passphrase'),
+  ...passwordOptionRules(),
+  ...passphraseOptionRules(),
+];
+
+export const generatorSettingsValidation = [
+  body('type')
+    .optional()
+    .isIn(['password', 'passphrase'])
+    .withMessage('Type must be either password or passphrase'),
+  body(['password', 'passphrase'])
+    .optional()
+    .isObject()
+    .withMessage('Options must be objects'),
+  body('password')
+    .optional()
+    .custom(value => Object.keys(value).every(key => key in PasswordGeneratorService.DEFAULT_SETTINGS.password))
+    .withMessage('Unknown password option'),
+  body('passphrase')
+    .optional()
+    .custom(value => Object.keys(value).every(key => key in PasswordGeneratorService.DEFAULT_SETTINGS.passphrase))
+    .withMessage('Unknown passphrase option'),
+  ...passwordOptionRules('password.'),
+  ...passphraseOptionRules('passphrase.'),
+];
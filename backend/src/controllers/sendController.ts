@@ -0,0 +1,291 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { SendType } from '../models/Send';
+import { SendService } from '../services/sends';
+import { VaultKeyService } from '../services/vaultKeys';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Send Controller
+ * Handles one-off encrypted texts and files. The key to open a send is never sent to the server.
+ */
+export class SendController {
+  /**
+   * Get the authenticated user's sends, without their ciphertext
+   * @route GET /api/sends
+   */
+  static async getSends(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const sends = await SendService.list(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Sends retrieved successfully',
+        data: {
+          sends,
+          count: sends.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get one of the authenticated user's sends
+   * @route GET /api/sends/:id
+   */
+  static async getSend(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const send = await SendService.get(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Send retrieved successfully',
+        data: send,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a send from ciphertext encrypted in the browser
+   * @route POST /api/sends
+   */
+  static async createSend(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const {
+        type,
+        encryptedData,
+        iv,
+        tag,
+        encryptedFileName,
+        encryptedName,
+        encryptedKey,
+        password,
+        maxViews,
+        expiresAt,
+      } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await VaultKeyService.assertZeroKnowledge(userId);
+      const send = await SendService.create(userId, {
+        type,
+        encryptedData,
+        iv,
+        tag,
+        encryptedFileName,
+        encryptedName,
+        encryptedKey,
+        password,
+        maxViews,
+        expiresAt: new Date(expiresAt),
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Send created successfully',
+        data: send,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a send's name, password, view limit, expiry or availability
+   * @route PUT /api/sends/:id
+   */
+  static async updateSend(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { encryptedName, password, maxViews, expiresAt, disabled } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const send = await SendService.update(userId, req.params.id, {
+        encryptedName,
+        password,
+        maxViews,
+        expiresAt: expiresAt === undefined ? undefined : new Date(expiresAt),
+        disabled,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Send updated successfully',
+        data: send,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a send and its ciphertext
+   * @route DELETE /api/sends/:id
+   */
+  static async deleteSend(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await SendService.remove(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Send deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Open a send without an account; each call counts as a view
+   * @route POST /api/sends/access/:accessId
+   */
+  static async accessSend(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const send = await SendService.access(req.params.accessId, req.body.password);
+
+      res.status(200).json({
+        success: true,
+        message: 'Send retrieved successfully',
+        data: send,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+const sendIdValidation = param('id')
+  .isMongoId()
+  .withMessage('Invalid send ID');
+
+const passwordValidation = body('password')
+  .optional({ values: 'null' })
+  .isString()
+  .isLength({ min: 1, max: 128 })
+  .withMessage('Password must be between 1 and 128 characters');
+
+const maxViewsValidation = body('maxViews')
+  .optional({ values: 'null' })
+  .isInt({ min: 1, max: SendService.MAX_VIEWS })
+  .withMessage(`Max views must be between 1 and ${SendService.MAX_VIEWS}`);
+
+// Validation rules
+export const sendValidation = [
+  sendIdValidation,
+];
+
+export const createSendValidation = [
+  body('type')
+    .isIn(Object.values(SendType))
+    .withMessage(`Type must be one of: ${Object.values(SendType).join(', ')}`),
+  body('encryptedData')
+    .isBase64()
+    .withMessage('Encrypted data must be base64'),
+  body('iv')
+    .isBase64()
+    .withMessage('IV must be base64'),
+  body('tag')
+    .isBase64()
+    .withMessage('Authentication tag must be base64'),
+  body('encryptedFileName')
+    .optional({ values: 'null' })
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted file name must be base64'),
+  body('encryptedName')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted name must be base64'),
+  body('encryptedKey')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted key must be base64'),
+  passwordValidation,
+  maxViewsValidation,
+  body('expiresAt')
+    .isISO8601()
+    .withMessage('Expiry must be an ISO 8601 date'),
+];
+
+export const updateSendValidation = [
+  sendIdValidation,
+  body('encryptedName')
+    .optional()
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted name must be base64'),
+  passwordValidation,
+  maxViewsValidation,
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Expiry must be an ISO 8601 date'),
+  body('disabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Disabled must be a boolean'),
+];
+
+export const accessSendValidation = [
+  param('accessId')
+    .matches(/^[A-Za-z0-9_-]{22}$/)
+    .withMessage('Invalid send link'),
+  body('password')
+    .optional()
+    .isString()
+    .isLength({ max: 128 })
+    .withMessage('Password must be at most 128 characters'),
+];
@@ -0,0 +1,287 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { SharePermission } from '../models/ItemShare';
+import { ShareService } from '../services/shares';
+import { KeyRotationService } from '../services/keyRotation';
+import { VaultKeyService } from '../services/vaultKeys';
+import { ciphertextValidation, shareKeysValidation, attachmentKeysValidation } from './vaultController';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Share Controller
+ * Handles sharing single vault items with other users. Data keys are wrapped for recipients in the browser.
+ */
+export class ShareController {
+  /**
+   * List who an item is shared with
+   * @route GET /api/vault/items/:id/shares
+   */
+  static async getShares(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const shares = await ShareService.listForItem(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Shares retrieved successfully',
+        data: {
+          shares,
+          count: shares.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Share an item with another user
+   * @route POST /api/vault/items/:id/shares
+   */
+  static async createShare(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { recipientId, permission = SharePermission.READ, encryptedDataKey } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await VaultKeyService.assertZeroKnowledge(userId);
+      const share = await ShareService.share(userId, req.params.id, recipientId, permission, encryptedDataKey);
+
+      res.status(201).json({
+        success: true,
+        message: 'Item shared successfully',
+        data: share,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a share, re-encrypting the item under a new data key
+   * @route POST /api/vault/items/:id/shares/:shareId/revoke
+   */
+  static async revokeShare(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { encryptedData, encryptedDataKey, iv, tag, algorithm, shareKeys = [], attachmentKeys } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await KeyRotationService.assertNoRotationInProgress(userId);
+      const vaultItem = await ShareService.revoke(userId, req.params.id, req.params.shareId, {
+        encryptedData,
+        encryptedDataKey,
+        iv,
+        tag,
+        algorithm,
+        shareKeys,
+        attachmentKeys,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Share revoked successfully',
+        data: vaultItem,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List items shared with the authenticated user
+   * @route GET /api/vault/shared
+   */
+  static async getSharedWithMe(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const shares = await ShareService.listIncoming(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Shared items retrieved successfully',
+        data: {
+          shares,
+          count: shares.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Accept an item shared with the authenticated user
+   * @route POST /api/vault/shared/:shareId/accept
+   */
+  static async acceptShare(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const share = await ShareService.accept(userId, req.params.shareId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Share accepted successfully',
+        data: share,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Decline an item shared with the authenticated user, or stop receiving it
+   * @route POST /api/vault/shared/:shareId/decline
+   */
+  static async declineShare(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await ShareService.decline(userId, req.params.shareId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Share declined successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Edit an item shared with the authenticated user
+   * @route PUT /api/vault/shared/:shareId
+   */
+  static async updateSharedItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { encryptedData, iv, tag, algorithm } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const share = await ShareService.updateShared(userId, req.params.shareId, { encryptedData, iv, tag, algorithm });
+
+      res.status(200).json({
+        success: true,
+        message: 'Shared item updated successfully',
+        data: share,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+const itemIdValidation = param('id')
+  .isMongoId()
+  .withMessage('Invalid vault item ID');
+
+const shareIdValidation = param('shareId')
+  .isMongoId()
+  .withMessage('Invalid share ID');
+
+// Validation rules
+export const getSharesValidation = [
+  itemIdValidation,
+];
+
+export const createShareValidation = [
+  itemIdValidation,
+  body('recipientId')
+    .isMongoId()
+    .withMessage('Invalid recipient ID'),
+  body('permission')
+    .optional()
+    .isIn(Object.values(SharePermission))
+    .withMessage(`Permission must be one of: ${Object.values(SharePermission).join(', ')}`),
+  body('encryptedDataKey')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted data key must be base64'),
+];
+
+export const revokeShareValidation = [
+  itemIdValidation,
+  shareIdValidation,
+  ...ciphertextValidation(),
+  ...shareKeysValidation(),
+  ...attachmentKeysValidation(),
+];
+
+export const shareValidation = [
+  shareIdValidation,
+];
+
+export const updateSharedItemValidation = [
+  shareIdValidation,
+  body('encryptedData')
+    .isBase64()
+    .withMessage('Encrypted data must be base64'),
+  body('iv')
+    .isBase64()
+    .withMessage('IV must be base64'),
+  body('tag')
+    .isBase64()
+    .withMessage('Authentication tag must be base64'),
+  body('algorithm')
+    .optional()
+    .isIn(['aes', 'xchacha'])
+    .withMessage('Algorithm must be either aes or xchacha'),
+];
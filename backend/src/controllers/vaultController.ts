@@ -1,64 +1,126 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
-import { VaultItem, VaultItemType } from '../models/VaultItem';
-import { EncryptionService } from '../services/encryption';
-import { AuthService } from '../services/auth';
+import { body, oneOf, param, query, validationResult } from 'express-validator';
+import { VaultItem, VaultItemType, CiphertextVersion } from '../models/VaultItem';
+import { KeyRotationService } from '../services/keyRotation';
+import { VaultKeyService } from '../services/vaultKeys';
+import { TrashService } from '../services/trash';
+import { RevisionService } from '../services/revisions';
+import { FolderService } from '../services/folders';
+import { ShareService } from '../services/shares';
+import { AttachmentService } from '../services/attachments';
+import { WatchtowerService } from '../services/watchtower';
+import { SecurityFeaturesService } from '../services/securityFeatures';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 
+// Fields the item list can be ordered by; ties are broken by _id so every item has one position
+const SORT_FIELDS = ['createdAt', 'updatedAt', 'type', 'favorite'] as const;
+type SortField = typeof SORT_FIELDS[number];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Opaque cursor: the sort value and id of the last item on the previous page
+ */
+const encodeCursor = (item: any, sortBy: SortField): string =>
+  Buffer.from(JSON.stringify({ sortBy, value: item[sortBy], id: item._id.toString() })).toString('base64url');
+
+const decodeCursor = (cursor: string, sortBy: SortField): { value: any; id: string } => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (decoded.sortBy === sortBy && /^[0-9a-f]{24}$/.test(decoded.id)) {
+      const isDate = sortBy === 'createdAt' || sortBy === 'updatedAt';
+      return { value: isDate ? new Date(decoded.value) : decoded.value, id: decoded.id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new AppError('Invalid pagination cursor', 400, 'INVALID_CURSOR');
+};
+
 /**
  * Vault Controller
  * Handles CRUD operations for vault items with end-to-end encryption
+ * Items are encrypted in the browser; the server stores and returns opaque ciphertext.
  */
 export class VaultController {
   /**
-   * Get all vault items for the authenticated user
+   * Get a page of vault items for the authenticated user
+   * Search sends blind tokens of the query words, matched against the tokens stored with each item.
+   * Pages are cursor based so inserts and deletes between requests never skip or repeat items.
    * @route GET /api/vault/items
    */
   static async getVaultItems(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
       const userId = req.user?.id;
-      const { type, tags, favorite, search } = req.query;
+      const { type, tags, favorite, searchTokens, folderId, cursor } = req.query;
+      const sortBy = (req.query.sortBy as SortField) || 'createdAt';
+      const direction = req.query.sortOrder === 'asc' ? 1 : -1;
+      const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_PAGE_SIZE;
 
       if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      // Build query
-      const query: any = { userId, isDeleted: false };
+      // Build filter
+      const filter: any = { userId, isDeleted: false };
 
       if (type) {
-        query.type = type;
+        filter.type = type;
       }
 
       if (tags) {
         const tagArray = Array.isArray(tags) ? tags : [tags];
-        query.tags = { $in: tagArray };
+        filter.tags = { $in: tagArray };
       }
 
       if (favorite !== undefined) {
-        query.favorite = favorite === 'true';
+        filter.favorite = favorite === 'true';
       }
 
-      // Get vault items
-      let vaultItems = await VaultItem.find(query).sort({ createdAt: -1 });
+      // "none" lists the items outside any folder
+      if (folderId) {
+        filter.folderId = folderId === 'none' ? null : folderId;
+      }
 
-      // Apply search filter if provided
-      if (search) {
-        // Note: In a real implementation, you'd want to decrypt and search
-        // For now, we'll just filter by tags
-        const searchTerm = (search as string).toLowerCase();
-        vaultItems = vaultItems.filter(item => 
-          item.tags.some(tag => tag.toLowerCase().includes(searchTerm))
-        );
+      // Every query word must match one of the item's tokens
+      if (searchTokens) {
+        filter.searchTokens = { $all: Array.isArray(searchTokens) ? searchTokens : [searchTokens] };
       }
 
+      // Continue after the last item of the previous page
+      if (cursor) {
+        const after = decodeCursor(cursor as string, sortBy);
+        const operator = direction === 1 ? '$gt' : '$lt';
+        filter.$or = [
+          { [sortBy]: { [operator]: after.value } },
+          { [sortBy]: after.value, _id: { [operator]: after.id } },
+        ];
+      }
+
+      // Fetch one extra item to know whether another page follows
+      const vaultItems = await VaultItem.find(filter)
+        .sort({ [sortBy]: direction, _id: direction })
+        .limit(limit + 1);
+
+      const hasMore = vaultItems.length > limit;
+      const items = vaultItems.slice(0, limit);
+
       res.status(200).json({
         success: true,
         message: 'Vault items retrieved successfully',
         data: {
-          items: vaultItems,
-          count: vaultItems.length,
+          items,
+          count: items.length,
+          limit,
+          nextCursor: hasMore ? encodeCursor(items[items.length - 1], sortBy) : null,
+          hasMore,
         },
       });
     } catch (error) {
@@ -68,54 +130,28 @@ export class VaultController {
 
   /**
    * Get a specific vault item
+   * The ciphertext is returned as stored; only the client holds the key to open it.
    * @route GET /api/vault/items/:id
    */
   static async getVaultItem(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user?.id;
       const { id } = req.params;
-      const { masterPassword } = req.body;
 
       if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      if (!masterPassword) {
-        throw new AppError('Master password required for decryption', 400, 'MASTER_PASSWORD_REQUIRED');
-      }
-
       // Find vault item
       const vaultItem = await VaultItem.findOne({ _id: id, userId, isDeleted: false });
       if (!vaultItem) {
         throw new AppError('Vault item not found', 404, 'VAULT_ITEM_NOT_FOUND');
       }
 
-      // Get user to access master key salt
-      const user = await User.findById(userId);
-      if (!user) {
-        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
-      }
-
-      // Generate master key
-      const masterKey = AuthService.generateMasterKey(masterPassword, user.masterKeySalt);
-
-      // Decrypt vault item data
-      const decryptedData = EncryptionService.envelopeDecrypt(
-        vaultItem.encryptedData,
-        vaultItem.encryptedDataKey,
-        vaultItem.iv,
-        vaultItem.tag,
-        masterKey,
-        vaultItem.algorithm
-      );
-
       res.status(200).json({
         success: true,
         message: 'Vault item retrieved successfully',
-        data: {
-          ...vaultItem.toJSON(),
-          decryptedData: JSON.parse(decryptedData),
-        },
+        data: vaultItem,
       });
     } catch (error) {
       next(error);
@@ -123,7 +159,7 @@ export class VaultController {
   }
 
   /**
-   * Create a new vault item
+   * Create a new vault item from client-encrypted ciphertext
    * @route POST /api/vault/items
    */
   static async createVaultItem(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -134,44 +170,50 @@ export class VaultController {
       }
 
       const userId = req.user?.id;
-      const { type, data, tags, favorite, masterPassword, algorithm = 'aes' } = req.body;
+      const {
+        type,
+        encryptedData,
+        encryptedDataKey,
+        iv,
+        tag,
+        tags,
+        favorite,
+        algorithm = 'aes',
+        searchTokens,
+        searchIndexVersion,
+        health,
+        folderId,
+      } = req.body;
 
       if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      if (!masterPassword) {
-        throw new AppError('Master password required for encryption', 400, 'MASTER_PASSWORD_REQUIRED');
-      }
-
-      // Get user to access master key salt
-      const user = await User.findById(userId);
-      if (!user) {
-        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
-      }
-
-      // Generate master key
-      const masterKey = AuthService.generateMasterKey(masterPassword, user.masterKeySalt);
-
-      // Encrypt vault item data
-      const encrypted = EncryptionService.envelopeEncrypt(
-        JSON.stringify(data),
-        masterKey,
-        algorithm as 'aes' | 'xchacha'
-      );
+      await KeyRotationService.assertNoRotationInProgress(userId);
+      const user = await VaultKeyService.assertZeroKnowledge(userId);
+      await FolderService.assertFolder(userId, folderId);
 
       // Create vault item
       const vaultItem = new VaultItem({
         userId,
+        folderId: folderId || null,
         type,
-        encryptedData: encrypted.encryptedData,
-        encryptedDataKey: encrypted.encryptedDataKey,
-        iv: encrypted.iv,
-        tag: encrypted.tag,
+        encryptedData,
+        encryptedDataKey,
+        keyVersion: user.masterKeyVersion,
+        iv,
+        tag,
         algorithm,
+        encryptionVersion: CiphertextVersion.V2,
+        clientEncrypted: true,
+        searchTokens: searchTokens || [],
+        searchIndexVersion: searchIndexVersion ?? null,
         tags: tags || [],
         favorite: favorite || false,
       });
+      if (health && type === VaultItemType.LOGIN) {
+        WatchtowerService.applyHealth(vaultItem, health);
+      }
 
       await vaultItem.save();
 
@@ -188,7 +230,9 @@ export class VaultController {
   }
 
   /**
-   * Update a vault item
+   * Update a vault item, replacing its ciphertext when new ciphertext is sent
+   * The replaced ciphertext is kept as a revision. A shared item's new data key must come
+   * wrapped for each of its recipients.
    * @route PUT /api/vault/items/:id
    */
   static async updateVaultItem(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -200,15 +244,28 @@ export class VaultController {
 
       const userId = req.user?.id;
       const { id } = req.params;
-      const { data, tags, favorite, masterPassword, algorithm = 'aes' } = req.body;
+      const {
+        encryptedData,
+        encryptedDataKey,
+        iv,
+        tag,
+        tags,
+        favorite,
+        algorithm = 'aes',
+        searchTokens,
+        searchIndexVersion,
+        health,
+        folderId,
+        shareKeys,
+        attachmentKeys,
+      } = req.body;
 
       if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      if (!masterPassword) {
-        throw new AppError('Master password required for encryption', 400, 'MASTER_PASSWORD_REQUIRED');
-      }
+      await KeyRotationService.assertNoRotationInProgress(userId);
+      const user = await VaultKeyService.assertZeroKnowledge(userId);
 
       // Find vault item
       const vaultItem = await VaultItem.findOne({ _id: id, userId, isDeleted: false });
@@ -216,31 +273,44 @@ export class VaultController {
         throw new AppError('Vault item not found', 404, 'VAULT_ITEM_NOT_FOUND');
       }
 
-      // Get user to access master key salt
-      const user = await User.findById(userId);
-      if (!user) {
-        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      // Replace ciphertext if provided
+      if (encryptedData) {
+        if (!encryptedDataKey || !iv || !tag) {
+          throw new AppError('Encrypted data must come with its data key, IV and tag', 400, 'INCOMPLETE_CIPHERTEXT');
+        }
+        await ShareService.assertShareKeys(vaultItem, shareKeys);
+        await AttachmentService.assertAttachmentKeys(vaultItem, attachmentKeys);
+
+        await RevisionService.record(vaultItem);
+
+        vaultItem.revision += 1;
+        vaultItem.restoredFrom = null;
+        vaultItem.encryptedData = encryptedData;
+        vaultItem.encryptedDataKey = encryptedDataKey;
+        vaultItem.keyVersion = user.masterKeyVersion;
+        vaultItem.iv = iv;
+        vaultItem.tag = tag;
+        vaultItem.algorithm = algorithm;
+        vaultItem.encryptionVersion = CiphertextVersion.V2;
+        vaultItem.clientEncrypted = true;
       }
 
-      // Generate master key
-      const masterKey = AuthService.generateMasterKey(masterPassword, user.masterKeySalt);
-
-      // Encrypt updated data if provided
-      if (data) {
-        const encrypted = EncryptionService.envelopeEncrypt(
-          JSON.stringify(data),
-          masterKey,
-          algorithm as 'aes' | 'xchacha'
-        );
+      // Tokens are rebuilt by the client whenever the fields they cover change
+      if (searchTokens !== undefined) {
+        vaultItem.searchTokens = searchTokens;
+        vaultItem.searchIndexVersion = searchIndexVersion ?? null;
+      }
 
-        vaultItem.encryptedData = encrypted.encryptedData;
-        vaultItem.encryptedDataKey = encrypted.encryptedDataKey;
-        vaultItem.iv = encrypted.iv;
-        vaultItem.tag = encrypted.tag;
-        vaultItem.algorithm = algorithm;
+      // Health is rechecked along with the ciphertext; only new ciphertext can have changed the password
+      if (health && vaultItem.type === VaultItemType.LOGIN) {
+        WatchtowerService.applyHealth(vaultItem, health, encryptedData ? new Date() : vaultItem.updatedAt);
       }
 
       // Update other fields
+      if (folderId !== undefined) {
+        await FolderService.assertFolder(userId, folderId);
+        vaultItem.folderId = folderId;
+      }
       if (tags !== undefined) {
         vaultItem.tags = tags;
       }
@@ -249,6 +319,10 @@ export class VaultController {
       }
 
       await vaultItem.save();
+      if (encryptedData) {
+        await ShareService.setShareKeys(shareKeys);
+        await AttachmentService.setAttachmentKeys(attachmentKeys);
+      }
 
       logger.info('Vault item updated successfully', { userId, itemId: vaultItem._id });
 
@@ -281,14 +355,15 @@ export class VaultController {
         throw new AppError('Vault item not found', 404, 'VAULT_ITEM_NOT_FOUND');
       }
 
-      // Soft delete
-      await vaultItem.softDelete();
+      // Soft delete into the trash
+      await vaultItem.softDelete(req.user.trashRetentionDays ?? TrashService.DEFAULT_RETENTION_DAYS);
 
       logger.info('Vault item deleted successfully', { userId, itemId: vaultItem._id });
 
       res.status(200).json({
         success: true,
-        message: 'Vault item deleted successfully',
+        message: 'Vault item moved to trash',
+        data: { purgeAt: vaultItem.purgeAt },
       });
     } catch (error) {
       next(error);
@@ -296,65 +371,233 @@ export class VaultController {
   }
 
   /**
-   * Export vault data
-   * @route GET /api/vault/export
+   * List the earlier payloads of a vault item, newest first
+   * @route GET /api/vault/items/:id/revisions
    */
-  static async exportVault(req: Request, res: Response, next: NextFunction): Promise<void> {
+  static async getRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const revisions = await RevisionService.list(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Revisions retrieved successfully',
+        data: {
+          revisions,
+          count: revisions.length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Roll a vault item back to an earlier revision
+   * @route POST /api/vault/items/:id/revisions/:revision/restore
+   */
+  static async restoreRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
       const userId = req.user?.id;
-      const { masterPassword } = req.body;
 
       if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      if (!masterPassword) {
-        throw new AppError('Master password required for export', 400, 'MASTER_PASSWORD_REQUIRED');
+      await KeyRotationService.assertNoRotationInProgress(userId);
+      await VaultKeyService.assertZeroKnowledge(userId);
+
+      const vaultItem = await RevisionService.restore(userId, req.params.id, Number(req.params.revision), req.body.shareKeys, req.body.attachmentKeys);
+
+      res.status(200).json({
+        success: true,
+        message: 'Revision restored successfully',
+        data: vaultItem,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List deleted vault items still within the retention period
+   * @route GET /api/vault/trash
+   */
+  static async getTrash(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      // Get all vault items
-      const vaultItems = await VaultItem.find({ userId, isDeleted: false });
+      const items = await TrashService.listTrash(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trash retrieved successfully',
+        data: {
+          items,
+          count: items.length,
+          retentionDays: req.user.trashRetentionDays ?? TrashService.DEFAULT_RETENTION_DAYS,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 
-      // Get user to access master key salt
-      const user = await User.findById(userId);
-      if (!user) {
+  /**
+   * Restore a vault item from the trash
+   * @route POST /api/vault/items/:id/restore
+   */
+  static async restoreVaultItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const vaultItem = await TrashService.restore(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Vault item restored successfully',
+        data: vaultItem,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Permanently delete a vault item from the trash
+   * @route DELETE /api/vault/trash/:id
+   */
+  static async purgeVaultItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await TrashService.purge(userId, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Vault item permanently deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Permanently delete everything in the trash
+   * @route DELETE /api/vault/trash
+   */
+  static async emptyTrash(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      // Generate master key
-      const masterKey = AuthService.generateMasterKey(masterPassword, user.masterKeySalt);
-
-      // Decrypt all vault items
-      const decryptedItems = await Promise.all(
-        vaultItems.map(async (item) => {
-          const decryptedData = EncryptionService.envelopeDecrypt(
-            item.encryptedData,
-            item.encryptedDataKey,
-            item.iv,
-            item.tag,
-            masterKey,
-            item.algorithm
-          );
-
-          return {
-            id: item._id,
-            type: item.type,
-            data: JSON.parse(decryptedData),
-            tags: item.tags,
-            favorite: item.favorite,
-            createdAt: item.createdAt,
-            updatedAt: item.updatedAt,
-          };
-        })
-      );
+      const purgedCount = await TrashService.emptyTrash(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trash emptied successfully',
+        data: { purgedCount },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set how many days deleted items are kept before they are purged
+   * @route PUT /api/vault/trash/settings
+   */
+  static async updateTrashSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { retentionDays } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await TrashService.setRetention(userId, retentionDays);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trash settings updated successfully',
+        data: { retentionDays },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Export vault data
+   * Items stay encrypted; the client decrypts them to build a readable export.
+   * @route GET /api/vault/export
+   */
+  static async exportVault(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await VaultKeyService.assertZeroKnowledge(userId);
+
+      // Get all vault items
+      const vaultItems = await VaultItem.find({ userId, isDeleted: false });
 
       const exportData = {
-        version: '1.0',
+        version: '2.0',
         exportedAt: new Date().toISOString(),
-        items: decryptedItems,
+        items: vaultItems,
       };
 
-      logger.info('Vault exported successfully', { userId, itemCount: decryptedItems.length });
+      logger.info('Vault exported successfully', { userId, itemCount: vaultItems.length });
 
       res.status(200).json({
         success: true,
@@ -367,7 +610,7 @@ export class VaultController {
   }
 
   /**
-   * Import vault data
+   * Import vault items encrypted by the client
    * @route POST /api/vault/import
    */
   static async importVault(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -378,82 +621,397 @@ export class VaultController {
       }
 
       const userId = req.user?.id;
-      const { importData, masterPassword, algorithm = 'aes' } = req.body;
+      const { items } = req.body;
 
       if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      if (!masterPassword) {
-        throw new AppError('Master password required for import', 400, 'MASTER_PASSWORD_REQUIRED');
+      await KeyRotationService.assertNoRotationInProgress(userId);
+      const user = await VaultKeyService.assertZeroKnowledge(userId);
+
+      // Import vault items
+      const importedItems = await VaultItem.insertMany(items.map((itemData: any) => ({
+        userId,
+        type: itemData.type,
+        encryptedData: itemData.encryptedData,
+        encryptedDataKey: itemData.encryptedDataKey,
+        keyVersion: user.masterKeyVersion,
+        iv: itemData.iv,
+        tag: itemData.tag,
+        algorithm: itemData.algorithm || 'aes',
+        encryptionVersion: CiphertextVersion.V2,
+        clientEncrypted: true,
+        searchTokens: itemData.searchTokens || [],
+        searchIndexVersion: itemData.searchIndexVersion ?? null,
+        tags: itemData.tags || [],
+        favorite: itemData.favorite || false,
+      })));
+
+      logger.info('Vault imported successfully', { userId, itemCount: importedItems.length });
+
+      res.status(201).json({
+        success: true,
+        message: 'Vault imported successfully',
+        data: {
+          importedCount: importedItems.length,
+          items: importedItems,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the search tokens of existing items
+   * Used to index items stored before search or under an older tokenizer version.
+   * @route PUT /api/vault/search-index
+   */
+  static async updateSearchIndex(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
       }
 
-      // Validate import data
-      if (!importData || !importData.items || !Array.isArray(importData.items)) {
-        throw new AppError('Invalid import data format', 400, 'INVALID_IMPORT_DATA');
+      const userId = req.user?.id;
+      const { items } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      // Get user to access master key salt
-      const user = await User.findById(userId);
-      if (!user) {
+      const result = await VaultItem.bulkWrite(items.map((item: any) => ({
+        updateOne: {
+          filter: { _id: item.id, userId, isDeleted: { $in: [true, false] } },
+          update: {
+            $set: {
+              searchTokens: item.searchTokens,
+              searchIndexVersion: item.searchIndexVersion,
+            },
+          },
+        },
+      })));
+
+      logger.info('Vault search index updated', { userId, indexedCount: result.modifiedCount });
+
+      res.status(200).json({
+        success: true,
+        message: 'Search index updated successfully',
+        data: { indexedCount: result.modifiedCount },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Store the password health of existing logins, as checked by the client
+   * Used by vault scans, which recheck every login for new breaches and old passwords.
+   * @route PUT /api/vault/health
+   */
+  static async updateHealth(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { items } = req.body;
+
+      if (!userId) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      // Generate master key
-      const masterKey = AuthService.generateMasterKey(masterPassword, user.masterKeySalt);
+      const checkedCount = await WatchtowerService.updateHealth(userId, items);
+      await SecurityFeaturesService.syncWatchtowerFeature(userId);
 
-      // Import vault items
-      const importedItems = [];
-      for (const itemData of importData.items) {
-        const encrypted = EncryptionService.envelopeEncrypt(
-          JSON.stringify(itemData.data),
-          masterKey,
-          algorithm as 'aes' | 'xchacha'
-        );
-
-        const vaultItem = new VaultItem({
-          userId,
-          type: itemData.type,
-          encryptedData: encrypted.encryptedData,
-          encryptedDataKey: encrypted.encryptedDataKey,
-          iv: encrypted.iv,
-          tag: encrypted.tag,
-          algorithm,
-          tags: itemData.tags || [],
-          favorite: itemData.favorite || false,
-        });
-
-        await vaultItem.save();
-        importedItems.push(vaultItem);
+      res.status(200).json({
+        success: true,
+        message: 'Vault health updated successfully',
+        data: { checkedCount },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the key material needed to unlock the vault in the browser
+   * @route GET /api/vault/keys
+   */
+  static async getVaultKeys(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      logger.info('Vault imported successfully', { userId, itemCount: importedItems.length });
+      const keys = await VaultKeyService.getVaultKeys(userId);
 
-      res.status(201).json({
+      res.status(200).json({
         success: true,
-        message: 'Vault imported successfully',
+        message: 'Vault keys retrieved successfully',
+        data: keys,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Publish the user's public key and wrapped private key
+   * @route PUT /api/vault/keys/keypair
+   */
+  static async setKeyPair(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { publicKey, encryptedPrivateKey } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      await VaultKeyService.setKeyPair(userId, publicKey, encryptedPrivateKey);
+
+      res.status(200).json({
+        success: true,
+        message: 'Keypair published successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Switch to client-side encryption and decrypt legacy items for re-encryption
+   * @route POST /api/vault/migration
+   */
+  static async startMigration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { masterPassword, masterPasswordHash, encryptedVaultKey } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const items = await VaultKeyService.startMigration(userId, masterPassword, masterPasswordHash, encryptedVaultKey);
+
+      res.status(200).json({
+        success: true,
+        message: 'Vault migration started successfully',
         data: {
-          importedCount: importedItems.length,
-          items: importedItems,
+          items,
+          count: items.length,
         },
       });
     } catch (error) {
       next(error);
     }
   }
+
+  /**
+   * Store the client-encrypted replacements for legacy items
+   * @route POST /api/vault/migration/complete
+   */
+  static async completeMigration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const userId = req.user?.id;
+      const { items } = req.body;
+
+      if (!userId) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const result = await VaultKeyService.completeMigration(userId, items);
+
+      res.status(200).json({
+        success: true,
+        message: 'Vault items migrated successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
+/**
+ * Client-encrypted ciphertext fields, optionally nested under a wildcard path such as `items.*.`
+ */
+export const ciphertextValidation = (prefix = '', optional = false) => {
+  const field = (name: string) => (optional ? body(prefix + name).optional() : body(prefix + name));
+
+  return [
+    field('encryptedData')
+      .isBase64()
+      .withMessage('Encrypted data must be base64'),
+    field('encryptedDataKey')
+      .isBase64()
+      .withMessage('Encrypted data key must be base64'),
+    field('iv')
+      .isBase64()
+      .withMessage('IV must be base64'),
+    field('tag')
+      .isBase64()
+      .withMessage('Authentication tag must be base64'),
+    body(prefix + 'algorithm')
+      .optional()
+      .isIn(['aes', 'xchacha'])
+      .withMessage('Algorithm must be either aes or xchacha'),
+  ];
+};
+
+/**
+ * A changed data key wrapped for each user the item is shared with
+ */
+export const shareKeysValidation = () => [
+  body('shareKeys')
+    .optional()
+    .isArray({ max: ShareService.MAX_SHARES_PER_ITEM })
+    .withMessage(`Share keys must be an array of at most ${ShareService.MAX_SHARES_PER_ITEM} keys`),
+  body('shareKeys.*.shareId')
+    .isMongoId()
+    .withMessage('Invalid share ID'),
+  body('shareKeys.*.encryptedDataKey')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted data key must be base64'),
+];
+
+/**
+ * Attachment keys re-wrapped under an item's new data key
+ */
+export const attachmentKeysValidation = () => [
+  body('attachmentKeys')
+    .optional()
+    .isArray({ max: AttachmentService.MAX_PER_ITEM })
+    .withMessage(`Attachment keys must be an array of at most ${AttachmentService.MAX_PER_ITEM} keys`),
+  body('attachmentKeys.*.attachmentId')
+    .isMongoId()
+    .withMessage('Invalid attachment ID'),
+  body('attachmentKeys.*.encryptedKey')
+    .isBase64()
+    .isLength({ max: 1024 })
+    .withMessage('Encrypted key must be base64'),
+];
+
+/**
+ * Blind search tokens built by the client alongside the ciphertext
+ */
+const searchIndexValidation = (prefix = '', optional = true) => {
+  const field = (name: string) => (optional ? body(prefix + name).optional() : body(prefix + name));
+
+  return [
+    field('searchTokens')
+      .isArray({ max: 512 })
+      .withMessage('Search tokens must be an array of at most 512 tokens'),
+    body(prefix + 'searchTokens.*')
+      .isBase64()
+      .isLength({ max: 64 })
+      .withMessage('Search tokens must be base64'),
+    field('searchIndexVersion')
+      .isInt({ min: 1 })
+      .withMessage('Search index version must be a positive integer'),
+  ];
+};
+
+/**
+ * Password health of a login, computed by the client alongside the ciphertext
+ */
+const healthValidation = (prefix = '', optional = true) => [
+  (optional ? body(prefix + 'health').optional() : body(prefix + 'health'))
+    .isObject()
+    .withMessage('Health must be an object'),
+  (optional ? body(prefix + 'health.version').if(body(prefix + 'health').exists()) : body(prefix + 'health.version'))
+    .isInt({ min: 1 })
+    .withMessage('Health version must be a positive integer'),
+  body(prefix + 'health.passwordHash')
+    .optional({ values: 'null' })
+    .isBase64()
+    .isLength({ max: 64 })
+    .withMessage('Password hash must be base64'),
+  body(prefix + 'health.strength')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 4 })
+    .withMessage('Strength must be a score from 0 to 4'),
+  body(prefix + 'health.breachCount')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('Breach count must be a non-negative integer'),
+  body([prefix + 'health.hasTotp', prefix + 'health.totpSupported'])
+    .optional()
+    .isBoolean()
+    .withMessage('TOTP flags must be true or false'),
+];
+
 // Validation rules
+export const getVaultItemsValidation = [
+  query('type')
+    .optional()
+    .isIn(Object.values(VaultItemType))
+    .withMessage('Invalid vault item type'),
+  query('favorite')
+    .optional()
+    .isBoolean()
+    .withMessage('Favorite must be a boolean'),
+  query('searchTokens')
+    .optional()
+    .toArray()
+    .isArray({ max: 16 })
+    .withMessage('Search at most 16 words at a time'),
+  query('searchTokens.*')
+    .isBase64()
+    .withMessage('Search tokens must be base64'),
+  oneOf([
+    query('folderId').optional().isMongoId(),
+    query('folderId').equals('none'),
+  ], { message: 'Folder ID must be a folder ID or none' }),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+  query('cursor')
+    .optional()
+    .isString()
+    .isLength({ max: 512 })
+    .withMessage('Invalid pagination cursor'),
+  query('sortBy')
+    .optional()
+    .isIn(SORT_FIELDS)
+    .withMessage(`Sort by one of: ${SORT_FIELDS.join(', ')}`),
+  query('sortOrder')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('Sort order must be asc or desc'),
+];
+
 export const createVaultItemValidation = [
   body('type')
     .isIn(Object.values(VaultItemType))
     .withMessage('Invalid vault item type'),
-  body('data')
-    .isObject()
-    .withMessage('Data must be an object'),
-  body('masterPassword')
-    .notEmpty()
-    .withMessage('Master password is required'),
+  ...ciphertextValidation(),
+  ...searchIndexValidation(),
+  ...healthValidation(),
   body('tags')
     .optional()
     .isArray()
@@ -462,20 +1020,18 @@ export const createVaultItemValidation = [
     .optional()
     .isBoolean()
     .withMessage('Favorite must be a boolean'),
-  body('algorithm')
-    .optional()
-    .isIn(['aes', 'xchacha'])
-    .withMessage('Algorithm must be either aes or xchacha'),
+  body('folderId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid folder ID'),
 ];
 
 export const updateVaultItemValidation = [
-  body('masterPassword')
-    .notEmpty()
-    .withMessage('Master password is required'),
-  body('data')
-    .optional()
-    .isObject()
-    .withMessage('Data must be an object'),
+  ...ciphertextValidation('', true),
+  ...searchIndexValidation(),
+  ...healthValidation(),
+  ...shareKeysValidation(),
+  ...attachmentKeysValidation(),
   body('tags')
     .optional()
     .isArray()
@@ -484,27 +1040,108 @@ export const updateVaultItemValidation = [
     .optional()
     .isBoolean()
     .withMessage('Favorite must be a boolean'),
-  body('algorithm')
+  body('folderId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid folder ID'),
+];
+
+export const importVaultValidation = [
+  body('items')
+    .isArray({ min: 1, max: 1000 })
+    .withMessage('Items must be an array of 1 to 1000 items'),
+  body('items.*.type')
+    .isIn(Object.values(VaultItemType))
+    .withMessage('Invalid vault item type'),
+  ...ciphertextValidation('items.*.'),
+  ...searchIndexValidation('items.*.'),
+  body('items.*.tags')
     .optional()
-    .isIn(['aes', 'xchacha'])
-    .withMessage('Algorithm must be either aes or xchacha'),
+    .isArray()
+    .withMessage('Tags must be an array'),
+  body('items.*.favorite')
+    .optional()
+    .isBoolean()
+    .withMessage('Favorite must be a boolean'),
 ];
 
-export const exportVaultValidation = [
-  body('masterPassword')
-    .notEmpty()
-    .withMessage('Master password is required'),
+export const keyPairValidation = [
+  body('publicKey')
+    .isBase64()
+    .isLength({ max: 2048 })
+    .withMessage('Public key must be base64'),
+  body('encryptedPrivateKey')
+    .isBase64()
+    .isLength({ max: 8192 })
+    .withMessage('Encrypted private key must be base64'),
 ];
 
-export const importVaultValidation = [
-  body('importData')
-    .isObject()
-    .withMessage('Import data must be an object'),
+export const startMigrationValidation = [
   body('masterPassword')
     .notEmpty()
     .withMessage('Master password is required'),
-  body('algorithm')
+  body('masterPasswordHash')
+    .isBase64()
+    .notEmpty()
+    .withMessage('Master password hash is required'),
+  body('encryptedVaultKey')
+    .optional()
+    .isBase64()
+    .withMessage('Encrypted vault key must be base64'),
+];
+
+export const completeMigrationValidation = [
+  body('items')
+    .isArray({ max: 1000 })
+    .withMessage('Items must be an array of at most 1000 items'),
+  body('items.*.id')
+    .isMongoId()
+    .withMessage('Invalid vault item ID'),
+  ...ciphertextValidation('items.*.'),
+  ...searchIndexValidation('items.*.'),
+];
+
+export const updateSearchIndexValidation = [
+  body('items')
+    .isArray({ min: 1, max: 1000 })
+    .withMessage('Items must be an array of 1 to 1000 items'),
+  body('items.*.id')
+    .isMongoId()
+    .withMessage('Invalid vault item ID'),
+  ...searchIndexValidation('items.*.', false),
+];
+
+export const updateHealthValidation = [
+  body('items')
+    .isArray({ min: 1, max: 1000 })
+    .withMessage('Items must be an array of 1 to 1000 items'),
+  body('items.*.id')
+    .isMongoId()
+    .withMessage('Invalid vault item ID'),
+  ...healthValidation('items.*.', false),
+];
+
+export const trashItemValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid vault item ID'),
+];
+
+export const trashSettingsValidation = [
+  body('retentionDays')
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Retention must be between 1 and 365 days')
+    .toInt(),
+];
+
+export const revisionValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid vault item ID'),
+  param('revision')
     .optional()
-    .isIn(['aes', 'xchacha'])
-    .withMessage('Algorithm must be either aes or xchacha'),
+    .isInt({ min: 0 })
+    .withMessage('Revision must be a non-negative integer'),
+  ...shareKeysValidation(),
+  ...attachmentKeysValidation(),
 ];
@@ -2,13 +2,19 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AppError } from './errorHandler';
 import { User } from '../models/User';
+import { OrganizationRole } from '../models/Organization';
+import { OrganizationMember, IOrganizationMember } from '../models/OrganizationMember';
+import { TokenDenylistService } from '../services/tokenDenylist';
 import { logger } from '../utils/logger';
 
-// Extend Express Request interface to include user
+// Extend Express Request interface to include user and session
 declare global {
   namespace Express {
     interface Request {
       user?: any;
+      sessionId?: string;
+      accessToken?: { jti: string; exp: number };
+      membership?: IOrganizationMember;
     }
   }
 }
@@ -33,6 +39,15 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
 
     // Verify JWT token
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+
+    // Only access tokens grant access (MFA challenge tokens share the signing secret)
+    if (decoded.type !== 'access' || !decoded.jti) {
+      throw new AppError('Invalid token', 401, 'INVALID_TOKEN');
+    }
+
+    if (await TokenDenylistService.isRevoked(decoded)) {
+      throw new AppError('Token has been revoked', 401, 'TOKEN_REVOKED');
+    }
     
     // Get user from database
     const user = await User.findById(decoded.userId).select('-password -__v');
@@ -46,8 +61,10 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       throw new AppError('Account is deactivated', 401, 'ACCOUNT_DEACTIVATED');
     }
 
-    // Attach user to request object
+    // Attach user and session to request object
     req.user = user;
+    req.sessionId = decoded.sessionId;
+    req.accessToken = { jti: decoded.jti, exp: decoded.exp };
     
     next();
   } catch (error) {
@@ -81,6 +98,10 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
 
     // Verify JWT token
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+
+    if (decoded.type !== 'access' || !decoded.jti || await TokenDenylistService.isRevoked(decoded)) {
+      return next();
+    }
     
     // Get user from database
     const user = await User.findById(decoded.userId).select('-password -__v');
@@ -114,6 +135,35 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+/**
+ * Organization role authorization middleware
+ * Attaches the caller's membership of the organization in the :id parameter. Non-members get
+ * a 404 so organization ids cannot be probed; with no roles given any member passes.
+ */
+export const authorizeOrganization = (...roles: OrganizationRole[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'AUTH_REQUIRED');
+      }
+
+      const membership = await OrganizationMember.findOne({ organizationId: req.params.id, userId: req.user.id });
+      if (!membership) {
+        throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+      }
+
+      if (roles.length > 0 && !roles.includes(membership.role)) {
+        throw new AppError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS');
+      }
+
+      req.membership = membership;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Rate limiting for authentication endpoints
  */
@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Attachment interface
+ * The file is encrypted in the browser under its own key, which is wrapped by the item's data key.
+ */
+export interface IAttachment extends Document {
+  userId: mongoose.Types.ObjectId;
+  itemId: mongoose.Types.ObjectId;
+  encryptedFileName: string;
+  encryptedKey: string;
+  size: number;
+  blobKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Attachment schema
+ */
+const AttachmentSchema = new Schema<IAttachment>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+  },
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'VaultItem',
+    required: [true, 'Vault item ID is required'],
+  },
+  // Encrypted under the attachment key
+  encryptedFileName: {
+    type: String,
+    required: [true, 'Encrypted file name is required'],
+  },
+  // Attachment key wrapped by the item's data key; re-wrapped whenever that key changes
+  encryptedKey: {
+    type: String,
+    required: [true, 'Encrypted key is required'],
+  },
+  // Ciphertext size in bytes
+  size: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  // Where the ciphertext lives in the blob store
+  blobKey: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.blobKey;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+AttachmentSchema.index({ itemId: 1, createdAt: 1 });
+AttachmentSchema.index({ userId: 1 });
+
+export const Attachment = mongoose.model<IAttachment>('Attachment', AttachmentSchema);
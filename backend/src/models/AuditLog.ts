@@ -11,6 +11,13 @@ export enum AuditEventType {
   MASTER_PASSWORD_CHANGE = 'master_password_change',
   TWO_FACTOR_ENABLE = 'two_factor_enable',
   TWO_FACTOR_DISABLE = 'two_factor_disable',
+  RECOVERY_CODES_GENERATE = 'recovery_codes_generate',
+  RECOVERY_CODE_USED = 'recovery_code_used',
+  WEBAUTHN_CREDENTIAL_ADD = 'webauthn_credential_add',
+  WEBAUTHN_CREDENTIAL_REMOVE = 'webauthn_credential_remove',
+  DEVICE_VERIFIED = 'device_verified',
+  DEVICE_REVOKED = 'device_revoked',
+  SESSION_REVOKED = 'session_revoked',
   VAULT_ITEM_CREATE = 'vault_item_create',
   VAULT_ITEM_UPDATE = 'vault_item_update',
   VAULT_ITEM_DELETE = 'vault_item_delete',
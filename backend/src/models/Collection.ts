@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Member of an organization with access to a collection
+ */
+export interface ICollectionAccess {
+  userId: mongoose.Types.ObjectId;
+  readOnly: boolean;
+}
+
+/**
+ * Collection interface
+ */
+export interface ICollection extends Document {
+  organizationId: mongoose.Types.ObjectId;
+  name: string;
+  access: ICollectionAccess[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Collection schema
+ * Every item in a collection has its data key wrapped for each user in access.
+ */
+const CollectionSchema = new Schema<ICollection>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: [true, 'Organization ID is required'],
+  },
+  name: {
+    type: String,
+    required: [true, 'Collection name is required'],
+    trim: true,
+    maxlength: [100, 'Collection name must be at most 100 characters long'],
+  },
+  access: [{
+    _id: false,
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    readOnly: {
+      type: Boolean,
+      default: false,
+    },
+  }],
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+CollectionSchema.index({ organizationId: 1 });
+CollectionSchema.index({ 'access.userId': 1 });
+
+export const Collection = mongoose.model<ICollection>('Collection', CollectionSchema);
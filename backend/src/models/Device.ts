@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Device interface
+ */
+export interface IDevice extends Document {
+  userId: mongoose.Types.ObjectId;
+  fingerprint: string;
+  name: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  verifiedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Device schema (SOUTH - Dakshina)
+ * The fingerprint is a SHA-256 of the client's device identifier, never the identifier itself.
+ */
+const DeviceSchema = new Schema<IDevice>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true,
+  },
+  fingerprint: {
+    type: String,
+    required: [true, 'Device fingerprint is required'],
+  },
+  name: {
+    type: String,
+    required: [true, 'Device name is required'],
+    trim: true,
+    maxlength: [100, 'Device name cannot exceed 100 characters'],
+  },
+  ipAddress: {
+    type: String,
+    default: null,
+  },
+  userAgent: {
+    type: String,
+    default: null,
+  },
+  firstSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  verifiedAt: {
+    type: Date,
+    default: null,
+  },
+  revokedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.fingerprint;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+DeviceSchema.index({ userId: 1, fingerprint: 1 }, { unique: true });
+DeviceSchema.index({ userId: 1, lastSeenAt: -1 });
+
+export const Device = mongoose.model<IDevice>('Device', DeviceSchema);
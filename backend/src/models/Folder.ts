@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * What happens to a folder's contents when it is deleted
+ *
+ * MOVE_TO_PARENT - items and subfolders move up to the deleted folder's parent
+ * TRASH          - items anywhere below the folder go to the trash and its subfolders are removed
+ */
+export enum FolderDeletePolicy {
+  MOVE_TO_PARENT = 'moveToParent',
+  TRASH = 'trash',
+}
+
+/**
+ * Folder interface
+ */
+export interface IFolder extends Document {
+  userId: mongoose.Types.ObjectId;
+  parentId: mongoose.Types.ObjectId | null;
+  encryptedName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Folder schema
+ */
+const FolderSchema = new Schema<IFolder>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+  },
+  // Null for folders at the top level
+  parentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Folder',
+    default: null,
+  },
+  // Encrypted in the browser under the user's vault key
+  encryptedName: {
+    type: String,
+    required: [true, 'Encrypted name is required'],
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+FolderSchema.index({ userId: 1, parentId: 1 });
+
+export const Folder = mongoose.model<IFolder>('Folder', FolderSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * What a recipient may do with a shared item
+ */
+export enum SharePermission {
+  READ = 'read',
+  EDIT = 'edit',
+}
+
+export enum ShareStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+}
+
+/**
+ * Item share interface
+ * The recipient's copy of the item's data key, wrapped with their public key.
+ */
+export interface IItemShare extends Document {
+  itemId: mongoose.Types.ObjectId;
+  ownerId: mongoose.Types.ObjectId;
+  recipientId: mongoose.Types.ObjectId;
+  permission: SharePermission;
+  status: ShareStatus;
+  encryptedDataKey: string;
+  acceptedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Item share schema
+ */
+const ItemShareSchema = new Schema<IItemShare>({
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'VaultItem',
+    required: [true, 'Item ID is required'],
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Owner ID is required'],
+  },
+  recipientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recipient ID is required'],
+  },
+  permission: {
+    type: String,
+    enum: Object.values(SharePermission),
+    default: SharePermission.READ,
+  },
+  status: {
+    type: String,
+    enum: Object.values(ShareStatus),
+    default: ShareStatus.PENDING,
+  },
+  encryptedDataKey: {
+    type: String,
+    required: [true, 'Encrypted data key is required'],
+  },
+  acceptedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+ItemShareSchema.index({ itemId: 1, recipientId: 1 }, { unique: true });
+ItemShareSchema.index({ recipientId: 1, status: 1 });
+ItemShareSchema.index({ ownerId: 1 });
+
+export const ItemShare = mongoose.model<IItemShare>('ItemShare', ItemShareSchema);
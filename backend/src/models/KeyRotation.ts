@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Key rotation status
+ *
+ * STAGING   - re-wrapped data keys are being written beside the live ones
+ * COMMITTED - the user's master key version has been switched, staged keys are being promoted
+ * COMPLETED - every item is on the new master key
+ * FAILED    - staging stopped before commit; the old master key is still authoritative
+ */
+export enum KeyRotationStatus {
+  STAGING = 'staging',
+  COMMITTED = 'committed',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Key rotation interface
+ */
+export interface IKeyRotation extends Document {
+  userId: mongoose.Types.ObjectId;
+  status: KeyRotationStatus;
+  fromKeyVersion: number;
+  toKeyVersion: number;
+  newMasterPasswordHash: string;
+  newMasterKeySalt: string;
+  totalItems: number;
+  processedItems: number;
+  error: string | null;
+  startedAt: Date;
+  committedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Key rotation schema
+ */
+const KeyRotationSchema = new Schema<IKeyRotation>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true,
+  },
+  status: {
+    type: String,
+    enum: Object.values(KeyRotationStatus),
+    default: KeyRotationStatus.STAGING,
+  },
+  fromKeyVersion: {
+    type: Number,
+    required: [true, 'Source key version is required'],
+  },
+  toKeyVersion: {
+    type: Number,
+    required: [true, 'Target key version is required'],
+  },
+  newMasterPasswordHash: {
+    type: String,
+    required: [true, 'New master password hash is required'],
+  },
+  newMasterKeySalt: {
+    type: String,
+    required: [true, 'New master key salt is required'],
+  },
+  totalItems: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  processedItems: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  error: {
+    type: String,
+    default: null,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  committedAt: {
+    type: Date,
+    default: null,
+  },
+  completedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      delete ret.newMasterPasswordHash;
+      delete ret.newMasterKeySalt;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+KeyRotationSchema.index({ userId: 1, createdAt: -1 });
+KeyRotationSchema.index({ userId: 1, status: 1 });
+
+export const KeyRotation = mongoose.model<IKeyRotation>('KeyRotation', KeyRotationSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Roles within an organization, from most to least privileged
+ *
+ * OWNER   - everything, including deleting the organization and managing other owners
+ * ADMIN   - manages members below owner and every collection
+ * MANAGER - creates collections and manages those they belong to
+ * MEMBER  - uses the items of the collections they belong to
+ */
+export enum OrganizationRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MANAGER = 'manager',
+  MEMBER = 'member',
+}
+
+/**
+ * Organization interface
+ */
+export interface IOrganization extends Document {
+  name: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Organization schema
+ */
+const OrganizationSchema = new Schema<IOrganization>({
+  name: {
+    type: String,
+    required: [true, 'Organization name is required'],
+    trim: true,
+    maxlength: [100, 'Organization name must be at most 100 characters long'],
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required'],
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+export const Organization = mongoose.model<IOrganization>('Organization', OrganizationSchema);
@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { VaultItemType } from './VaultItem';
+
+/**
+ * An item's data key wrapped with one member's public key
+ */
+export interface IWrappedKey {
+  userId: mongoose.Types.ObjectId;
+  encryptedDataKey: string;
+}
+
+/**
+ * Organization item interface
+ */
+export interface IOrganizationItem extends Document {
+  organizationId: mongoose.Types.ObjectId;
+  collectionId: mongoose.Types.ObjectId;
+  type: VaultItemType;
+  encryptedData: string;
+  iv: string;
+  tag: string;
+  algorithm: 'aes' | 'xchacha';
+  keys: IWrappedKey[];
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Organization item schema
+ * Shaped like a vault item, except that the data key is wrapped once per collection member
+ * with their public key instead of once with a vault key.
+ */
+const OrganizationItemSchema = new Schema<IOrganizationItem>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: [true, 'Organization ID is required'],
+  },
+  collectionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Collection',
+    required: [true, 'Collection ID is required'],
+  },
+  type: {
+    type: String,
+    enum: Object.values(VaultItemType),
+    required: [true, 'Item type is required'],
+  },
+  encryptedData: {
+    type: String,
+    required: [true, 'Encrypted data is required'],
+  },
+  iv: {
+    type: String,
+    required: [true, 'IV is required'],
+  },
+  tag: {
+    type: String,
+    required: [true, 'Authentication tag is required'],
+  },
+  algorithm: {
+    type: String,
+    enum: ['aes', 'xchacha'],
+    default: 'aes',
+  },
+  keys: [{
+    _id: false,
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    encryptedDataKey: {
+      type: String,
+      required: true,
+    },
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Creator is required'],
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Last editor is required'],
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+OrganizationItemSchema.index({ collectionId: 1, createdAt: -1 });
+OrganizationItemSchema.index({ organizationId: 1 });
+
+export const OrganizationItem = mongoose.model<IOrganizationItem>('OrganizationItem', OrganizationItemSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { OrganizationRole } from './Organization';
+
+/**
+ * Organization member interface
+ */
+export interface IOrganizationMember extends Document {
+  organizationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  role: OrganizationRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Organization member schema
+ */
+const OrganizationMemberSchema = new Schema<IOrganizationMember>({
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization',
+    required: [true, 'Organization ID is required'],
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+  },
+  role: {
+    type: String,
+    enum: Object.values(OrganizationRole),
+    default: OrganizationRole.MEMBER,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+OrganizationMemberSchema.index({ organizationId: 1, userId: 1 }, { unique: true });
+OrganizationMemberSchema.index({ userId: 1 });
+
+export const OrganizationMember = mongoose.model<IOrganizationMember>('OrganizationMember', OrganizationMemberSchema);
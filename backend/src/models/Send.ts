@@ -0,0 +1,138 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * What a send carries
+ */
+export enum SendType {
+  TEXT = 'text',
+  FILE = 'file',
+}
+
+/**
+ * Send interface
+ * The key opening a send never reaches the server; it travels in the fragment of the link.
+ */
+export interface ISend extends Document {
+  userId: mongoose.Types.ObjectId;
+  accessId: string;
+  type: SendType;
+  encryptedData: string;
+  iv: string;
+  tag: string;
+  algorithm: 'aes';
+  encryptedFileName: string | null;
+  encryptedName: string;
+  encryptedKey: string;
+  size: number;
+  passwordHash: string | null;
+  maxViews: number | null;
+  viewCount: number;
+  expiresAt: Date;
+  disabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Send schema
+ */
+const SendSchema = new Schema<ISend>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+  },
+  // Random public identifier in the link, so sends cannot be enumerated by ID
+  accessId: {
+    type: String,
+    required: [true, 'Access ID is required'],
+    unique: true,
+  },
+  type: {
+    type: String,
+    enum: Object.values(SendType),
+    required: [true, 'Send type is required'],
+  },
+  // Text or file contents encrypted under the send key
+  encryptedData: {
+    type: String,
+    required: [true, 'Encrypted data is required'],
+  },
+  iv: {
+    type: String,
+    required: [true, 'IV is required'],
+  },
+  tag: {
+    type: String,
+    required: [true, 'Authentication tag is required'],
+  },
+  algorithm: {
+    type: String,
+    enum: ['aes'],
+    default: 'aes',
+  },
+  // File name encrypted under the send key; null for text
+  encryptedFileName: {
+    type: String,
+    default: null,
+  },
+  // Label for the owner's list, encrypted under their vault key
+  encryptedName: {
+    type: String,
+    required: [true, 'Encrypted name is required'],
+  },
+  // Send key wrapped by the owner's vault key, so the link can be copied again
+  encryptedKey: {
+    type: String,
+    required: [true, 'Encrypted key is required'],
+  },
+  // Ciphertext size in bytes
+  size: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  passwordHash: {
+    type: String,
+    default: null,
+  },
+  // Null for no view limit
+  maxViews: {
+    type: Number,
+    default: null,
+    min: 1,
+  },
+  viewCount: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required'],
+  },
+  disabled: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      ret.hasPassword = !!ret.passwordHash;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.passwordHash;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+SendSchema.index({ userId: 1, createdAt: -1 });
+
+// TTL index so expired ciphertext is deleted even if nobody opens the link again
+SendSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Send = mongoose.model<ISend>('Send', SendSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Reasons a session can end before it expires
+ */
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  USER_REVOKED = 'user_revoked',
+  DEVICE_REVOKED = 'device_revoked',
+  TOKEN_REUSE = 'token_reuse',
+  PASSWORD_CHANGE = 'password_change',
+  ACCOUNT_LOCKED = 'account_locked',
+}
+
+/**
+ * Session interface
+ * Each session is one refresh token family: every refresh replaces the token hash,
+ * so presenting an older token from the family means it was stolen or replayed.
+ */
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  deviceId: mongoose.Types.ObjectId | null;
+  tokenHash: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: SessionRevocationReason | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Session schema
+ * Only a SHA-256 hash of the current refresh token is stored.
+ */
+const SessionSchema = new Schema<ISession>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true,
+  },
+  deviceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Device',
+    default: null,
+  },
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+  },
+  ipAddress: {
+    type: String,
+    default: null,
+  },
+  userAgent: {
+    type: String,
+    default: null,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required'],
+  },
+  revokedAt: {
+    type: Date,
+    default: null,
+  },
+  revokedReason: {
+    type: String,
+    enum: [...Object.values(SessionRevocationReason), null],
+    default: null,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.tokenHash;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+SessionSchema.index({ userId: 1, lastUsedAt: -1 });
+SessionSchema.index({ userId: 1, deviceId: 1 });
+
+// TTL index to clean up expired sessions
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
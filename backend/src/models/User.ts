@@ -1,5 +1,25 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+/**
+ * Key derivation functions for the master key
+ */
+export enum KdfAlgorithm {
+  PBKDF2_SHA512 = 'pbkdf2-sha512',
+  ARGON2ID = 'argon2id',
+}
+
+/**
+ * Versioned parameters the client derives its master key with
+ * Memory (in KiB) and parallelism only apply to Argon2id.
+ */
+export interface IKdfConfig {
+  algorithm: KdfAlgorithm;
+  iterations: number;
+  memory: number | null;
+  parallelism: number | null;
+  version: number;
+}
+
 /**
  * User interface
  */
@@ -8,16 +28,26 @@ export interface IUser extends Document {
   password: string;
   masterPassword: string;
   masterKeySalt: string;
+  masterKeyVersion: number;
+  kdf: IKdfConfig;
+  zeroKnowledge: boolean;
+  encryptedVaultKey: string | null;
+  publicKey: string | null;
+  encryptedPrivateKey: string | null;
   isEmailVerified: boolean;
   twoFactorEnabled: boolean;
   twoFactorSecret?: string;
+  twoFactorLastStep: number | null;
+  twoFactorRecoveryCodes: string[];
   securityScore: number;
   isActive: boolean;
   lastLoginAt: Date | null;
   loginAttempts: number;
   lockoutUntil: Date | null;
-  refreshToken: string | null;
   role: string;
+  trashRetentionDays: number;
+  // Saved password generator settings; null until first changed
+  passwordGenerator: Record<string, any> | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,6 +69,8 @@ const UserSchema = new Schema<IUser>({
     required: [true, 'Password is required'],
     minlength: [8, 'Password must be at least 8 characters long'],
   },
+  // Argon2id hash of the client's master password hash for zero-knowledge accounts,
+  // of the master password itself for legacy accounts that still encrypt on the server
   masterPassword: {
     type: String,
     required: [true, 'Master password is required'],
@@ -48,6 +80,56 @@ const UserSchema = new Schema<IUser>({
     type: String,
     required: [true, 'Master key salt is required'],
   },
+  masterKeyVersion: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  // Defaults describe the PBKDF2 parameters every account used before they were stored
+  kdf: {
+    algorithm: {
+      type: String,
+      enum: Object.values(KdfAlgorithm),
+      default: KdfAlgorithm.PBKDF2_SHA512,
+    },
+    iterations: {
+      type: Number,
+      default: 100000,
+      min: 1,
+    },
+    memory: {
+      type: Number,
+      default: null,
+    },
+    parallelism: {
+      type: Number,
+      default: null,
+    },
+    version: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+  },
+  zeroKnowledge: {
+    type: Boolean,
+    default: false,
+  },
+  // Vault key wrapped by the client-derived master key, opaque to the server
+  encryptedVaultKey: {
+    type: String,
+    default: null,
+  },
+  // RSA-OAEP public key (SPKI, base64) others wrap shared data keys for
+  publicKey: {
+    type: String,
+    default: null,
+  },
+  // Matching private key (PKCS#8) wrapped by the vault key, opaque to the server
+  encryptedPrivateKey: {
+    type: String,
+    default: null,
+  },
   isEmailVerified: {
     type: Boolean,
     default: false,
@@ -60,6 +142,15 @@ const UserSchema = new Schema<IUser>({
     type: String,
     default: null,
   },
+  // Time step of the last TOTP code accepted, so no code is accepted twice
+  twoFactorLastStep: {
+    type: Number,
+    default: null,
+  },
+  twoFactorRecoveryCodes: {
+    type: [String],
+    default: [],
+  },
   securityScore: {
     type: Number,
     default: 0,
@@ -82,24 +173,34 @@ const UserSchema = new Schema<IUser>({
     type: Date,
     default: null,
   },
-  refreshToken: {
-    type: String,
-    default: null,
-  },
   role: {
     type: String,
     enum: ['user', 'admin'],
     default: 'user',
   },
+  // Days deleted vault items stay in the trash before they are purged
+  trashRetentionDays: {
+    type: Number,
+    default: 30,
+    min: 1,
+    max: 365,
+  },
+  passwordGenerator: {
+    type: Schema.Types.Mixed,
+    default: null,
+  },
 }, {
   timestamps: true,
   toJSON: {
-    transform: function(doc, ret) {
+    transform: function(doc, ret: Record<string, any>) {
       delete ret.password;
       delete ret.masterPassword;
       delete ret.masterKeySalt;
+      delete ret.encryptedVaultKey;
+      delete ret.encryptedPrivateKey;
       delete ret.twoFactorSecret;
-      delete ret.refreshToken;
+      delete ret.twoFactorLastStep;
+      delete ret.twoFactorRecoveryCodes;
       delete ret.__v;
       return ret;
     },
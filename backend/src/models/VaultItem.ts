@@ -10,25 +10,112 @@ export enum VaultItemType {
   IDENTITY = 'identity',
 }
 
+/**
+ * Ciphertext formats
+ * LEGACY items were encrypted with crypto.createCipher, which derived the IV from the key and
+ * kept no tag for the wrapped data key. V2 uses a random nonce per encryption and stores the
+ * wrapped data key as nonce || ciphertext || tag.
+ */
+export enum CiphertextVersion {
+  LEGACY = 1,
+  V2 = 2,
+}
+
+/**
+ * Password health of a login, reported by the client that can read it
+ * None of it reveals the password: the hash is a keyed HMAC under a key derived from the
+ * vault key, and the breach count comes from a k-anonymity range lookup.
+ */
+export interface IItemHealth {
+  version: number;
+  // Null for logins without a password
+  passwordHash: string | null;
+  // Estimator score from 0 to 4
+  strength: number | null;
+  // Null when the breach check could not be completed
+  breachCount: number | null;
+  hasTotp: boolean;
+  // The site is known to offer authenticator codes
+  totpSupported: boolean;
+  // Set by the server whenever the password hash changes
+  passwordChangedAt: Date | null;
+  checkedAt: Date;
+}
+
 /**
  * Vault item interface
  */
 export interface IVaultItem extends Document {
   userId: mongoose.Types.ObjectId;
+  folderId: mongoose.Types.ObjectId | null;
   type: VaultItemType;
   encryptedData: string;
   encryptedDataKey: string;
+  keyVersion: number;
+  pendingEncryptedDataKey: string | null;
+  pendingKeyVersion: number | null;
   iv: string;
   tag: string;
   algorithm: 'aes' | 'xchacha';
+  encryptionVersion: CiphertextVersion;
+  clientEncrypted: boolean;
+  searchTokens: string[];
+  searchIndexVersion: number | null;
+  health: IItemHealth | null;
+  revision: number;
+  restoredFrom: number | null;
+  keyRotatedRevision: number;
+  shareCount: number;
+  attachmentCount: number;
   tags: string[];
   favorite: boolean;
   isDeleted: boolean;
   deletedAt: Date | null;
+  purgeAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  softDelete(retentionDays: number): Promise<IVaultItem>;
 }
 
+const ItemHealthSchema = new Schema<IItemHealth>({
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  passwordHash: {
+    type: String,
+    default: null,
+  },
+  strength: {
+    type: Number,
+    min: 0,
+    max: 4,
+    default: null,
+  },
+  breachCount: {
+    type: Number,
+    min: 0,
+    default: null,
+  },
+  hasTotp: {
+    type: Boolean,
+    default: false,
+  },
+  totpSupported: {
+    type: Boolean,
+    default: false,
+  },
+  passwordChangedAt: {
+    type: Date,
+    default: null,
+  },
+  checkedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
 /**
  * Vault item schema
  */
@@ -39,6 +126,12 @@ const VaultItemSchema = new Schema<IVaultItem>({
     required: [true, 'User ID is required'],
     index: true,
   },
+  // Null for items outside any folder
+  folderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Folder',
+    default: null,
+  },
   type: {
     type: String,
     enum: Object.values(VaultItemType),
@@ -52,6 +145,20 @@ const VaultItemSchema = new Schema<IVaultItem>({
     type: String,
     required: [true, 'Encrypted data key is required'],
   },
+  keyVersion: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  // Data key re-wrapped under the next master key while a rotation is staging
+  pendingEncryptedDataKey: {
+    type: String,
+    default: null,
+  },
+  pendingKeyVersion: {
+    type: Number,
+    default: null,
+  },
   iv: {
     type: String,
     required: [true, 'IV is required'],
@@ -65,6 +172,62 @@ const VaultItemSchema = new Schema<IVaultItem>({
     enum: ['aes', 'xchacha'],
     default: 'aes',
   },
+  // Items stored before the format was versioned are legacy
+  encryptionVersion: {
+    type: Number,
+    enum: Object.values(CiphertextVersion).filter(value => typeof value === 'number'),
+    default: CiphertextVersion.LEGACY,
+  },
+  // Encrypted in the browser under the user's vault key; false for legacy server-encrypted items
+  clientEncrypted: {
+    type: Boolean,
+    default: false,
+  },
+  // Blind keyed-HMAC tokens of searchable fields, computed in the browser with a key the server never sees
+  searchTokens: {
+    type: [String],
+    default: [],
+  },
+  // Tokenizer version the tokens were built with; null until the client has indexed the item
+  searchIndexVersion: {
+    type: Number,
+    default: null,
+  },
+  // Null until the client has checked the item; only logins are checked
+  health: {
+    type: ItemHealthSchema,
+    default: null,
+  },
+  // Incremented every time the ciphertext is replaced; earlier payloads live in VaultItemRevision
+  revision: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  // Revision the current payload was rolled back to, if any
+  restoredFrom: {
+    type: Number,
+    default: null,
+  },
+  // Revision at which revoking a share last replaced the data key; earlier revisions are under
+  // a key a former recipient may still hold
+  keyRotatedRevision: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  // Users holding a copy of the data key in ItemShare; each must get the new key when it changes
+  shareCount: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  // Attachments whose keys are wrapped by the data key; they too must be re-wrapped when it changes
+  attachmentCount: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
   tags: [{
     type: String,
     trim: true,
@@ -82,14 +245,23 @@ const VaultItemSchema = new Schema<IVaultItem>({
     type: Date,
     default: null,
   },
+  // When the retention job permanently removes a trashed item
+  purgeAt: {
+    type: Date,
+    default: null,
+  },
 }, {
   timestamps: true,
   toJSON: {
-    transform: function(doc, ret) {
-      delete ret.encryptedData;
-      delete ret.encryptedDataKey;
-      delete ret.iv;
-      delete ret.tag;
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.pendingEncryptedDataKey;
+      delete ret.pendingKeyVersion;
+      delete ret.searchTokens;
+      if (ret.health) {
+        delete ret.health.passwordHash;
+      }
       delete ret.__v;
       return ret;
     },
@@ -100,26 +272,43 @@ const VaultItemSchema = new Schema<IVaultItem>({
 VaultItemSchema.index({ userId: 1, type: 1 });
 VaultItemSchema.index({ userId: 1, favorite: 1 });
 VaultItemSchema.index({ userId: 1, tags: 1 });
+VaultItemSchema.index({ userId: 1, folderId: 1 });
 VaultItemSchema.index({ userId: 1, isDeleted: 1 });
 VaultItemSchema.index({ userId: 1, createdAt: -1 });
+VaultItemSchema.index({ userId: 1, updatedAt: -1 });
+VaultItemSchema.index({ userId: 1, pendingKeyVersion: 1 });
+VaultItemSchema.index({ userId: 1, clientEncrypted: 1 });
+VaultItemSchema.index({ userId: 1, encryptionVersion: 1 });
+VaultItemSchema.index({ userId: 1, searchTokens: 1 });
+VaultItemSchema.index({ userId: 1, isDeleted: 1, deletedAt: -1 });
+VaultItemSchema.index({ isDeleted: 1, purgeAt: 1 });
 
 // Soft delete middleware
+// Queries that filter on isDeleted themselves (e.g. key rotation) keep their own condition
 VaultItemSchema.pre('find', function() {
-  this.where({ isDeleted: false });
+  if (this.getFilter().isDeleted === undefined) {
+    this.where({ isDeleted: false });
+  }
 });
 
 VaultItemSchema.pre('findOne', function() {
-  this.where({ isDeleted: false });
+  if (this.getFilter().isDeleted === undefined) {
+    this.where({ isDeleted: false });
+  }
 });
 
 VaultItemSchema.pre('findOneAndUpdate', function() {
-  this.where({ isDeleted: false });
+  if (this.getFilter().isDeleted === undefined) {
+    this.where({ isDeleted: false });
+  }
 });
 
 // Soft delete method
-VaultItemSchema.methods.softDelete = function() {
+// Trashed items are kept for the owner's retention period, then purged
+VaultItemSchema.methods.softDelete = function(retentionDays: number) {
   this.isDeleted = true;
   this.deletedAt = new Date();
+  this.purgeAt = new Date(this.deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
   return this.save();
 };
 
@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CiphertextVersion } from './VaultItem';
+
+/**
+ * Vault item revision interface
+ * A payload an item held before it was overwritten, still encrypted under the vault key.
+ */
+export interface IVaultItemRevision extends Document {
+  itemId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  revision: number;
+  encryptedData: string;
+  encryptedDataKey: string;
+  iv: string;
+  tag: string;
+  algorithm: 'aes' | 'xchacha';
+  encryptionVersion: CiphertextVersion;
+  searchTokens: string[];
+  searchIndexVersion: number | null;
+  // Revision the payload was restored from, if it was put back by a rollback
+  restoredFrom: number | null;
+  createdAt: Date;
+}
+
+/**
+ * Vault item revision schema
+ */
+const VaultItemRevisionSchema = new Schema<IVaultItemRevision>({
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'VaultItem',
+    required: [true, 'Vault item ID is required'],
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true,
+  },
+  revision: {
+    type: Number,
+    required: [true, 'Revision number is required'],
+    min: 0,
+  },
+  encryptedData: {
+    type: String,
+    required: [true, 'Encrypted data is required'],
+  },
+  encryptedDataKey: {
+    type: String,
+    required: [true, 'Encrypted data key is required'],
+  },
+  iv: {
+    type: String,
+    required: [true, 'IV is required'],
+  },
+  tag: {
+    type: String,
+    required: [true, 'Authentication tag is required'],
+  },
+  algorithm: {
+    type: String,
+    enum: ['aes', 'xchacha'],
+    default: 'aes',
+  },
+  encryptionVersion: {
+    type: Number,
+    enum: Object.values(CiphertextVersion).filter(value => typeof value === 'number'),
+    default: CiphertextVersion.V2,
+  },
+  searchTokens: {
+    type: [String],
+    default: [],
+  },
+  searchIndexVersion: {
+    type: Number,
+    default: null,
+  },
+  restoredFrom: {
+    type: Number,
+    default: null,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.searchTokens;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+VaultItemRevisionSchema.index({ itemId: 1, revision: -1 }, { unique: true });
+
+export const VaultItemRevision = mongoose.model<IVaultItemRevision>('VaultItemRevision', VaultItemRevisionSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * WebAuthn ceremony types
+ */
+export enum WebAuthnCeremony {
+  REGISTRATION = 'registration',
+  AUTHENTICATION = 'authentication',
+}
+
+/**
+ * WebAuthn challenge interface
+ * Challenges are single-use and consumed when the ceremony is verified.
+ */
+export interface IWebAuthnChallenge extends Document {
+  challenge: string;
+  ceremony: WebAuthnCeremony;
+  userId: mongoose.Types.ObjectId | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * WebAuthn challenge schema
+ */
+const WebAuthnChallengeSchema = new Schema<IWebAuthnChallenge>({
+  challenge: {
+    type: String,
+    required: [true, 'Challenge is required'],
+    unique: true,
+  },
+  ceremony: {
+    type: String,
+    enum: Object.values(WebAuthnCeremony),
+    required: [true, 'Ceremony type is required'],
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required'],
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// TTL index to clean up unused challenges
+WebAuthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const WebAuthnChallenge = mongoose.model<IWebAuthnChallenge>('WebAuthnChallenge', WebAuthnChallengeSchema);
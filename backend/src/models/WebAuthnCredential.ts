@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * WebAuthn credential interface
+ */
+export interface IWebAuthnCredential extends Document {
+  userId: mongoose.Types.ObjectId;
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports: string[];
+  authenticatorAttachment: 'platform' | 'cross-platform' | null;
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  userVerified: boolean;
+  name: string;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WebAuthn credential schema
+ * Credential ID and public key are stored base64url encoded.
+ */
+const WebAuthnCredentialSchema = new Schema<IWebAuthnCredential>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true,
+  },
+  credentialId: {
+    type: String,
+    required: [true, 'Credential ID is required'],
+    unique: true,
+  },
+  publicKey: {
+    type: String,
+    required: [true, 'Public key is required'],
+  },
+  counter: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  transports: {
+    type: [String],
+    default: [],
+  },
+  authenticatorAttachment: {
+    type: String,
+    enum: ['platform', 'cross-platform', null],
+    default: null,
+  },
+  deviceType: {
+    type: String,
+    enum: ['singleDevice', 'multiDevice'],
+    default: 'singleDevice',
+  },
+  backedUp: {
+    type: Boolean,
+    default: false,
+  },
+  userVerified: {
+    type: Boolean,
+    default: false,
+  },
+  name: {
+    type: String,
+    required: [true, 'Credential name is required'],
+    trim: true,
+    maxlength: [100, 'Credential name cannot exceed 100 characters'],
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret: Record<string, any>) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.publicKey;
+      delete ret.__v;
+      return ret;
+    },
+  },
+});
+
+// Indexes for performance
+WebAuthnCredentialSchema.index({ userId: 1, createdAt: -1 });
+
+export const WebAuthnCredential = mongoose.model<IWebAuthnCredential>('WebAuthnCredential', WebAuthnCredentialSchema);
@@ -1,5 +1,5 @@
 import express from 'express';
-import { AuthController, registerValidation, loginValidation, changePasswordValidation, changeMasterPasswordValidation } from '../controllers/authController';
+import { AuthController, registerValidation, loginValidation, loginTwoFactorValidation, verifyDeviceValidation, webAuthnLoginOptionsValidation, webAuthnLoginValidation, changePasswordValidation, changeMasterPasswordValidation, resumeMasterPasswordRotationValidation, revokeDeviceValidation, revokeSessionValidation } from '../controllers/authController';
 import { authenticate } from '../middleware/auth';
 
 const router = express.Router();
@@ -19,7 +19,10 @@ const router = express.Router();
  *             required:
  *               - email
  *               - password
- *               - masterPassword
+ *               - masterPasswordHash
+ *               - masterKeySalt
+ *               - encryptedVaultKey
+ *               - kdf
  *             properties:
  *               email:
  *                 type: string
@@ -27,9 +30,17 @@ const router = express.Router();
  *               password:
  *                 type: string
  *                 minLength: 8
- *               masterPassword:
+ *               masterPasswordHash:
  *                 type: string
- *                 minLength: 8
+ *                 description: Base64 hash derived in the browser from the master key and master password
+ *               masterKeySalt:
+ *                 type: string
+ *                 description: Hex salt the browser used to derive the master key
+ *               encryptedVaultKey:
+ *                 type: string
+ *                 description: Base64 vault key wrapped by the master key
+ *               kdf:
+ *                 $ref: '#/components/schemas/KdfConfig'
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -63,15 +74,144 @@ router.post('/register', registerValidation, AuthController.register);
  *                 type: string
  *               twoFactorToken:
  *                 type: string
- *                 description: Required if 2FA is enabled
+ *                 description: Optional TOTP or recovery code to complete 2FA in a single request
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a two-factor challenge when 2FA is enabled
  *       401:
  *         description: Invalid credentials
+ *       423:
+ *         description: Account temporarily locked
  */
 router.post('/login', loginValidation, AuthController.login);
 
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Complete login with a two-factor code
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Challenge token returned by /api/auth/login
+ *               code:
+ *                 type: string
+ *                 description: 6-digit TOTP code or a single-use recovery code
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid or expired challenge, or invalid code
+ *       423:
+ *         description: Account temporarily locked
+ */
+router.post('/login/2fa', loginTwoFactorValidation, AuthController.loginTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/login/verify-device:
+ *   post:
+ *     summary: Confirm a login from an unknown device with the master password
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Challenge token returned by /api/auth/login
+ *               masterPasswordHash:
+ *                 type: string
+ *                 description: Derived with the KDF parameters in the challenge
+ *               masterPassword:
+ *                 type: string
+ *                 description: Only for accounts not yet upgraded to client-side encryption
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid or expired challenge, or invalid master password
+ *       403:
+ *         description: Account has a second factor that must be used instead
+ *       423:
+ *         description: Account temporarily locked
+ */
+router.post('/login/verify-device', verifyDeviceValidation, AuthController.verifyDevice);
+
+/**
+ * @swagger
+ * /api/auth/webauthn/options:
+ *   post:
+ *     summary: Get WebAuthn assertion options
+ *     description: With a challenge token the security key is used as the second factor, without one any passkey may sign in passwordless.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Challenge token returned by /api/auth/login
+ *     responses:
+ *       200:
+ *         description: PublicKeyCredentialRequestOptions JSON
+ *       400:
+ *         description: No security keys registered
+ *       401:
+ *         description: Invalid or expired challenge
+ */
+router.post('/webauthn/options', webAuthnLoginOptionsValidation, AuthController.webAuthnLoginOptions);
+
+/**
+ * @swagger
+ * /api/auth/webauthn/verify:
+ *   post:
+ *     summary: Complete login with a WebAuthn assertion
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - response
+ *             properties:
+ *               response:
+ *                 type: object
+ *                 description: AuthenticationResponseJSON from navigator.credentials.get()
+ *               challengeToken:
+ *                 type: string
+ *                 description: Challenge token when the key is the second factor
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         description: Invalid or expired WebAuthn challenge
+ *       401:
+ *         description: Assertion could not be verified
+ *       423:
+ *         description: Account temporarily locked
+ */
+router.post('/webauthn/verify', webAuthnLoginValidation, AuthController.webAuthnLogin);
+
 /**
  * @swagger
  * /api/auth/logout:
@@ -109,7 +249,7 @@ router.post('/logout', authenticate, AuthController.logout);
  *       200:
  *         description: Token refreshed successfully
  *       401:
- *         description: Invalid refresh token
+ *         description: Invalid refresh token, or a reused one (the session is revoked)
  */
 router.post('/refresh', AuthController.refreshToken);
 
@@ -176,6 +316,65 @@ router.put('/change-password', authenticate, changePasswordValidation, AuthContr
  *         application/json:
  *           schema:
  *             type: object
+ *             description: Zero-knowledge accounts send hashes and the re-wrapped vault key, legacy accounts both passwords
+ *             properties:
+ *               currentMasterPasswordHash:
+ *                 type: string
+ *               newMasterPasswordHash:
+ *                 type: string
+ *               masterKeySalt:
+ *                 type: string
+ *               encryptedVaultKey:
+ *                 type: string
+ *               kdf:
+ *                 $ref: '#/components/schemas/KdfConfig'
+ *               currentMasterPassword:
+ *                 type: string
+ *               newMasterPassword:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Master password changed and vault keys re-wrapped
+ *       400:
+ *         description: Validation error or invalid current master password
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: A previous master password change must be resumed first
+ */
+router.put('/change-master-password', authenticate, changeMasterPasswordValidation, AuthController.changeMasterPassword);
+
+/**
+ * @swagger
+ * /api/auth/master-password/rotation:
+ *   get:
+ *     summary: Get progress of the latest master password change
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Master password rotation retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/master-password/rotation', authenticate, AuthController.getMasterPasswordRotation);
+
+/**
+ * @swagger
+ * /api/auth/master-password/rotation/resume:
+ *   post:
+ *     summary: Resume an interrupted master password change
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
  *             required:
  *               - currentMasterPassword
  *               - newMasterPassword
@@ -184,15 +383,107 @@ router.put('/change-password', authenticate, changePasswordValidation, AuthContr
  *                 type: string
  *               newMasterPassword:
  *                 type: string
- *                 minLength: 8
  *     responses:
  *       200:
  *         description: Master password changed successfully
  *       400:
- *         description: Validation error or invalid current master password
+ *         description: Validation error or password mismatch
  *       401:
  *         description: Unauthorized
+ *       404:
+ *         description: No master password change to resume
  */
-router.put('/change-master-password', authenticate, changeMasterPasswordValidation, AuthController.changeMasterPassword);
+router.post('/master-password/rotation/resume', authenticate, resumeMasterPasswordRotationValidation, AuthController.resumeMasterPasswordRotation);
+
+/**
+ * @swagger
+ * /api/auth/devices:
+ *   get:
+ *     summary: List devices that have signed in to the account
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Devices retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/devices', authenticate, AuthController.getDevices);
+
+/**
+ * @swagger
+ * /api/auth/devices/{id}:
+ *   delete:
+ *     summary: Revoke a device and end its sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Device revoked successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Device not found
+ */
+router.delete('/devices/:id', authenticate, revokeDeviceValidation, AuthController.revokeDevice);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *   delete:
+ *     summary: Revoke every session
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/sessions', authenticate, AuthController.getSessions);
+router.delete('/sessions', authenticate, AuthController.revokeAllSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a single session
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:id', authenticate, revokeSessionValidation, AuthController.revokeSession);
 
 export default router;
@@ -0,0 +1,550 @@
+import express from 'express';
+import {
+  OrganizationController,
+  organizationValidation,
+  updateOrganizationValidation,
+  addMemberValidation,
+  memberValidation,
+  updateMemberValidation,
+  createCollectionValidation,
+  collectionValidation,
+  updateCollectionValidation,
+  getItemsValidation,
+  createItemValidation,
+  itemValidation,
+  updateItemValidation,
+} from '../controllers/organizationController';
+import { OrganizationRole } from '../models/Organization';
+import { authenticate, authorizeOrganization } from '../middleware/auth';
+
+const router = express.Router();
+
+const { OWNER, ADMIN, MANAGER } = OrganizationRole;
+
+/**
+ * @swagger
+ * /api/organizations:
+ *   get:
+ *     summary: Get the organizations the user belongs to, with their role in each
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organizations retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *   post:
+ *     summary: Create an organization owned by the user
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Organization created successfully
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: The user has not published a keypair yet
+ */
+router.get('/', authenticate, OrganizationController.getOrganizations);
+router.post('/', authenticate, organizationValidation, OrganizationController.createOrganization);
+
+/**
+ * @swagger
+ * /api/organizations/{id}:
+ *   put:
+ *     summary: Rename an organization (owners and admins)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Organization updated successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Organization not found
+ *   delete:
+ *     summary: Delete an organization with its collections and items (owners)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *     responses:
+ *       200:
+ *         description: Organization deleted successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Organization not found
+ */
+router.put('/:id', authenticate, updateOrganizationValidation, authorizeOrganization(OWNER, ADMIN), OrganizationController.updateOrganization);
+router.delete('/:id', authenticate, authorizeOrganization(OWNER), OrganizationController.deleteOrganization);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/members:
+ *   get:
+ *     summary: Get the members of an organization with the public keys to wrap data keys for
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *     responses:
+ *       200:
+ *         description: Members retrieved successfully
+ *       404:
+ *         description: Organization not found
+ *   post:
+ *     summary: Add a registered user to an organization (owners and admins)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [owner, admin, manager, member]
+ *                 default: member
+ *     responses:
+ *       201:
+ *         description: Member added successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Organization or user not found
+ *       409:
+ *         description: Already a member, or the user has not published a keypair yet
+ */
+router.get('/:id/members', authenticate, authorizeOrganization(), OrganizationController.getMembers);
+router.post('/:id/members', authenticate, addMemberValidation, authorizeOrganization(OWNER, ADMIN), OrganizationController.addMember);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/members/{userId}:
+ *   put:
+ *     summary: Change a member's role (owners and admins; only owners manage owners)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID of the member
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [owner, admin, manager, member]
+ *     responses:
+ *       200:
+ *         description: Member updated successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       409:
+ *         description: The organization would be left without an owner
+ *   delete:
+ *     summary: Remove a member, or leave the organization by removing yourself
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID of the member
+ *     responses:
+ *       200:
+ *         description: Member removed successfully, with their wrapped keys
+ *       403:
+ *         description: Insufficient permissions
+ *       409:
+ *         description: The organization would be left without an owner
+ */
+router.put('/:id/members/:userId', authenticate, updateMemberValidation, authorizeOrganization(OWNER, ADMIN), OrganizationController.updateMember);
+router.delete('/:id/members/:userId', authenticate, memberValidation, authorizeOrganization(), OrganizationController.removeMember);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/collections:
+ *   get:
+ *     summary: Get collections; admins see all of them, others those they belong to
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *     responses:
+ *       200:
+ *         description: Collections retrieved successfully
+ *       404:
+ *         description: Organization not found
+ *   post:
+ *     summary: Create a collection with the caller as its only member (owners, admins and managers)
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Collection created successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/:id/collections', authenticate, authorizeOrganization(), OrganizationController.getCollections);
+router.post('/:id/collections', authenticate, createCollectionValidation, authorizeOrganization(OWNER, ADMIN, MANAGER), OrganizationController.createCollection);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/collections/{collectionId}:
+ *   put:
+ *     summary: Rename a collection and/or replace who has access to it
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Collection ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               access:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     userId:
+ *                       type: string
+ *                     readOnly:
+ *                       type: boolean
+ *               keys:
+ *                 type: array
+ *                 description: Data key of every item in the collection wrapped for each user being given access
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     itemId:
+ *                       type: string
+ *                     userId:
+ *                       type: string
+ *                     encryptedDataKey:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Collection updated successfully
+ *       400:
+ *         description: Validation error, a non-member was given access, or wrapped keys are missing
+ *       403:
+ *         description: Insufficient permissions
+ *   delete:
+ *     summary: Delete a collection and its items
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *       - in: path
+ *         name: collectionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Collection ID
+ *     responses:
+ *       200:
+ *         description: Collection deleted successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.put('/:id/collections/:collectionId', authenticate, updateCollectionValidation, authorizeOrganization(OWNER, ADMIN, MANAGER), OrganizationController.updateCollection);
+router.delete('/:id/collections/:collectionId', authenticate, collectionValidation, authorizeOrganization(OWNER, ADMIN, MANAGER), OrganizationController.deleteCollection);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/items:
+ *   get:
+ *     summary: Get the shared items of the caller's collections, each with the caller's wrapped data key
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *       - in: query
+ *         name: collectionId
+ *         schema:
+ *           type: string
+ *         description: Only items of this collection
+ *     responses:
+ *       200:
+ *         description: Items retrieved successfully
+ *       404:
+ *         description: Organization not found
+ *   post:
+ *     summary: Add an item to a collection the caller can write to
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - collectionId
+ *               - type
+ *               - encryptedData
+ *               - iv
+ *               - tag
+ *               - keys
+ *             properties:
+ *               collectionId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [login, secureNote, paymentCard, identity]
+ *               encryptedData:
+ *                 type: string
+ *               iv:
+ *                 type: string
+ *               tag:
+ *                 type: string
+ *               algorithm:
+ *                 type: string
+ *                 enum: [aes, xchacha]
+ *               keys:
+ *                 type: array
+ *                 description: The data key wrapped for every member of the collection
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     userId:
+ *                       type: string
+ *                     encryptedDataKey:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Item created successfully
+ *       400:
+ *         description: Validation error, or the data key is not wrapped for exactly the collection's members
+ *       403:
+ *         description: The collection is read-only for the caller
+ */
+router.get('/:id/items', authenticate, getItemsValidation, authorizeOrganization(), OrganizationController.getItems);
+router.post('/:id/items', authenticate, createItemValidation, authorizeOrganization(), OrganizationController.createItem);
+
+/**
+ * @swagger
+ * /api/organizations/{id}/items/{itemId}:
+ *   put:
+ *     summary: Replace a shared item's ciphertext, encrypted under its existing data key
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Item ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - encryptedData
+ *               - iv
+ *               - tag
+ *             properties:
+ *               encryptedData:
+ *                 type: string
+ *               iv:
+ *                 type: string
+ *               tag:
+ *                 type: string
+ *               algorithm:
+ *                 type: string
+ *                 enum: [aes, xchacha]
+ *     responses:
+ *       200:
+ *         description: Item updated successfully
+ *       403:
+ *         description: The collection is read-only for the caller
+ *       404:
+ *         description: Item not found
+ *   delete:
+ *     summary: Delete a shared item
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization ID
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Item ID
+ *     responses:
+ *       200:
+ *         description: Item deleted successfully
+ *       403:
+ *         description: The collection is read-only for the caller
+ *       404:
+ *         description: Item not found
+ */
+router.put('/:id/items/:itemId', authenticate, updateItemValidation, authorizeOrganization(), OrganizationController.updateItem);
+router.delete('/:id/items/:itemId', authenticate, itemValidation, authorizeOrganization(), OrganizationController.deleteItem);
+
+export default router;
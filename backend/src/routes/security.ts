@@ -1,5 +1,5 @@
 import express from 'express';
-import { SecurityController, verifyTwoFactorValidation, analyzePasswordValidation, checkBreachValidation, enableVaultEncryptionValidation } from '../controllers/securityController';
+import { SecurityController, verifyTwoFactorValidation, regenerateRecoveryCodesValidation, webAuthnRegistrationOptionsValidation, webAuthnRegistrationVerifyValidation, webAuthnCredentialIdValidation, analyzePasswordValidation, checkBreachValidation, breachRangeValidation, enableVaultEncryptionValidation, generateValidation, generatorSettingsValidation, watchtowerSettingsValidation } from '../controllers/securityController';
 import { authenticate } from '../middleware/auth';
 
 const router = express.Router();
@@ -126,11 +126,157 @@ router.post('/two-factor/verify', authenticate, verifyTwoFactorValidation, Secur
  */
 router.delete('/two-factor/disable', authenticate, SecurityController.disableTwoFactor);
 
+/**
+ * @swagger
+ * /api/security/two-factor/recovery-codes:
+ *   get:
+ *     summary: Count unused two-factor recovery codes
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of remaining recovery codes
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/two-factor/recovery-codes', authenticate, SecurityController.getRecoveryCodeStatus);
+
+/**
+ * @swagger
+ * /api/security/two-factor/recovery-codes:
+ *   post:
+ *     summary: Regenerate two-factor recovery codes
+ *     description: Invalidates all previous recovery codes. The new codes are only returned once.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Current TOTP code or an unused recovery code
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Validation error or 2FA not enabled
+ *       401:
+ *         description: Invalid token or unauthorized
+ */
+router.post('/two-factor/recovery-codes', authenticate, regenerateRecoveryCodesValidation, SecurityController.regenerateRecoveryCodes);
+
+/**
+ * @swagger
+ * /api/security/webauthn/register/options:
+ *   post:
+ *     summary: Get WebAuthn registration options
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               authenticatorAttachment:
+ *                 type: string
+ *                 enum: [platform, cross-platform]
+ *                 description: platform for FaceID/TouchID, cross-platform for roaming security keys
+ *     responses:
+ *       200:
+ *         description: PublicKeyCredentialCreationOptions JSON
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/webauthn/register/options', authenticate, webAuthnRegistrationOptionsValidation, SecurityController.webAuthnRegistrationOptions);
+
+/**
+ * @swagger
+ * /api/security/webauthn/register/verify:
+ *   post:
+ *     summary: Verify a WebAuthn registration and store the credential
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - response
+ *             properties:
+ *               response:
+ *                 type: object
+ *                 description: RegistrationResponseJSON from navigator.credentials.create()
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Credential registered, with recovery codes if it is the first second factor
+ *       400:
+ *         description: Registration could not be verified or challenge expired
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/webauthn/register/verify', authenticate, webAuthnRegistrationVerifyValidation, SecurityController.webAuthnRegistrationVerify);
+
+/**
+ * @swagger
+ * /api/security/webauthn/credentials:
+ *   get:
+ *     summary: List registered WebAuthn credentials
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Registered credentials
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/webauthn/credentials', authenticate, SecurityController.getWebAuthnCredentials);
+
+/**
+ * @swagger
+ * /api/security/webauthn/credentials/{id}:
+ *   delete:
+ *     summary: Remove a WebAuthn credential
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Credential removed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Credential not found
+ */
+router.delete('/webauthn/credentials/:id', authenticate, webAuthnCredentialIdValidation, SecurityController.deleteWebAuthnCredential);
+
 /**
  * @swagger
  * /api/security/analyze-password:
  *   post:
  *     summary: Analyze password strength
+ *     description: Estimates guesses and crack times from dictionary words, keyboard patterns, dates, sequences, repeats and l33t substitutions, and explains the weakest part.
  *     tags: [Security]
  *     requestBody:
  *       required: true
@@ -143,9 +289,14 @@ router.delete('/two-factor/disable', authenticate, SecurityController.disableTwo
  *             properties:
  *               password:
  *                 type: string
+ *               userInputs:
+ *                 type: array
+ *                 description: Details an attacker would try first, such as the user's email or name
+ *                 items:
+ *                   type: string
  *     responses:
  *       200:
- *         description: Password analysis completed
+ *         description: Score from 0 to 4, guesses, crack times per attacker model, the matched sequence and feedback
  *       400:
  *         description: Validation error
  */
@@ -156,6 +307,7 @@ router.post('/analyze-password', analyzePasswordValidation, SecurityController.a
  * /api/security/check-breach:
  *   post:
  *     summary: Check if password has been breached
+ *     description: Looks the password up in Pwned Passwords by the first five characters of its SHA-1 hash, or in the local corpus configured for offline use.
  *     tags: [Security]
  *     requestBody:
  *       required: true
@@ -173,9 +325,135 @@ router.post('/analyze-password', analyzePasswordValidation, SecurityController.a
  *         description: Breach check completed
  *       400:
  *         description: Validation error
+ *       503:
+ *         description: The range source could not be reached
  */
 router.post('/check-breach', checkBreachValidation, SecurityController.checkPasswordBreach);
 
+/**
+ * @swagger
+ * /api/security/breach-range/{prefix}:
+ *   get:
+ *     summary: Get breach counts for every hash sharing a SHA-1 prefix
+ *     description: For checking vault passwords in the browser. Only the first five characters of a password's SHA-1 hash are sent; the client matches the rest against the returned suffixes.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: prefix
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9A-Fa-f]{5}$'
+ *     responses:
+ *       200:
+ *         description: Breach counts keyed by the remaining 35 hash characters
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       503:
+ *         description: The range source could not be reached
+ */
+router.get('/breach-range/:prefix', authenticate, breachRangeValidation, SecurityController.getBreachRange);
+
+/**
+ * @swagger
+ * /api/security/generate:
+ *   post:
+ *     summary: Generate a random password or passphrase
+ *     description: Options left out fall back to the defaults. Passphrases use the EFF short wordlist.
+ *     tags: [Security]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [password, passphrase]
+ *               length:
+ *                 type: integer
+ *                 minimum: 5
+ *                 maximum: 128
+ *               lowercase:
+ *                 type: boolean
+ *               uppercase:
+ *                 type: boolean
+ *               numbers:
+ *                 type: boolean
+ *               symbols:
+ *                 type: boolean
+ *               excludeAmbiguous:
+ *                 type: boolean
+ *               minLowercase:
+ *                 type: integer
+ *               minUppercase:
+ *                 type: integer
+ *               minNumbers:
+ *                 type: integer
+ *               minSymbols:
+ *                 type: integer
+ *               words:
+ *                 type: integer
+ *                 minimum: 3
+ *                 maximum: 20
+ *               separator:
+ *                 type: string
+ *                 maxLength: 3
+ *               capitalize:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: The generated value and its entropy in bits
+ *       400:
+ *         description: Validation error, or options that cannot be satisfied
+ */
+router.post('/generate', generateValidation, SecurityController.generate);
+
+/**
+ * @swagger
+ * /api/security/generator/settings:
+ *   get:
+ *     summary: Get saved password generator settings
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Generator settings retrieved successfully
+ *   put:
+ *     summary: Save password generator settings
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [password, passphrase]
+ *               password:
+ *                 type: object
+ *                 description: Password options, as for /api/security/generate
+ *               passphrase:
+ *                 type: object
+ *                 description: Passphrase options, as for /api/security/generate
+ *     responses:
+ *       200:
+ *         description: Generator settings updated successfully
+ *       400:
+ *         description: Validation error, or options that cannot be satisfied
+ */
+router.get('/generator/settings', authenticate, SecurityController.getGeneratorSettings);
+router.put('/generator/settings', authenticate, generatorSettingsValidation, SecurityController.updateGeneratorSettings);
+
 /**
  * @swagger
  * /api/security/vault-encryption/enable:
@@ -221,6 +499,55 @@ router.post('/vault-encryption/enable', authenticate, enableVaultEncryptionValid
  */
 router.post('/watchtower/enable', authenticate, SecurityController.enableWatchtowerAI);
 
+/**
+ * @swagger
+ * /api/security/watchtower/report:
+ *   get:
+ *     summary: Get the Watchtower report over the user's logins
+ *     description: Breached, reused, weak and old passwords and logins without authenticator codes, each pointing at the affected vault item. Built from the health the client reports for each login; the affected items come back encrypted for the client to name.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Watchtower report generated successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/watchtower/report', authenticate, SecurityController.getWatchtowerReport);
+
+/**
+ * @swagger
+ * /api/security/watchtower/settings:
+ *   put:
+ *     summary: Update Watchtower settings
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - maxPasswordAgeDays
+ *             properties:
+ *               maxPasswordAgeDays:
+ *                 type: integer
+ *                 minimum: 30
+ *                 maximum: 3650
+ *                 description: Days a password may go unchanged before it is reported
+ *     responses:
+ *       200:
+ *         description: Settings updated; returns the report under them
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/watchtower/settings', authenticate, watchtowerSettingsValidation, SecurityController.updateWatchtowerSettings);
+
 /**
  * @swagger
  * /api/security/dashboard:
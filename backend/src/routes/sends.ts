@@ -0,0 +1,210 @@
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import {
+  SendController,
+  sendValidation,
+  createSendValidation,
+  updateSendValidation,
+  accessSendValidation,
+} from '../controllers/sendController';
+import { authenticate } from '../middleware/auth';
+
+const router = express.Router();
+
+// Anyone holding a link can call the access route, so slow down password guessing
+const accessLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: 'Too many attempts to open sends, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * @swagger
+ * /api/sends:
+ *   get:
+ *     summary: Get the user's sends, without their ciphertext
+ *     tags: [Sends]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sends retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *   post:
+ *     summary: Create a send from a text or file encrypted in the browser
+ *     description: The send key is kept out of the request; recipients get it in the fragment of the link.
+ *     tags: [Sends]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - encryptedData
+ *               - iv
+ *               - tag
+ *               - encryptedName
+ *               - encryptedKey
+ *               - expiresAt
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [text, file]
+ *               encryptedData:
+ *                 type: string
+ *                 description: Contents encrypted under the send key, at most 5 MB
+ *               iv:
+ *                 type: string
+ *               tag:
+ *                 type: string
+ *               encryptedFileName:
+ *                 type: string
+ *                 description: File name encrypted under the send key; required for files
+ *               encryptedName:
+ *                 type: string
+ *                 description: Label for the owner, encrypted under their vault key
+ *               encryptedKey:
+ *                 type: string
+ *                 description: Send key wrapped by the owner's vault key
+ *               password:
+ *                 type: string
+ *                 description: Optional password recipients must enter
+ *               maxViews:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 1000
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: At most 30 days from now
+ *     responses:
+ *       201:
+ *         description: Send created successfully
+ *       400:
+ *         description: Validation error, invalid expiry or too many sends
+ *       413:
+ *         description: Send too large
+ */
+router.get('/', authenticate, SendController.getSends);
+router.post('/', authenticate, createSendValidation, SendController.createSend);
+
+/**
+ * @swagger
+ * /api/sends/access/{accessId}:
+ *   post:
+ *     summary: Open a send without an account
+ *     description: Counts as a view. The send is deleted once its view limit is reached or after it expires.
+ *     tags: [Sends]
+ *     parameters:
+ *       - in: path
+ *         name: accessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Send ciphertext, to decrypt with the key from the link
+ *       401:
+ *         description: Password required or invalid
+ *       404:
+ *         description: Send not found, expired or used up
+ *       429:
+ *         description: Too many attempts
+ */
+router.post('/access/:accessId', accessLimiter, accessSendValidation, SendController.accessSend);
+
+/**
+ * @swagger
+ * /api/sends/{id}:
+ *   get:
+ *     summary: Get one of the user's sends
+ *     tags: [Sends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Send retrieved successfully
+ *       404:
+ *         description: Send not found
+ *   put:
+ *     summary: Change a send's name, password, view limit, expiry or availability
+ *     tags: [Sends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               encryptedName:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 nullable: true
+ *                 description: A new password, or null to remove it
+ *               maxViews:
+ *                 type: integer
+ *                 nullable: true
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               disabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Send updated successfully
+ *       400:
+ *         description: Validation error or invalid expiry
+ *       404:
+ *         description: Send not found
+ *   delete:
+ *     summary: Delete a send and its ciphertext
+ *     tags: [Sends]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Send deleted successfully
+ *       404:
+ *         description: Send not found
+ */
+router.get('/:id', authenticate, sendValidation, SendController.getSend);
+router.put('/:id', authenticate, updateSendValidation, SendController.updateSend);
+router.delete('/:id', authenticate, sendValidation, SendController.deleteSend);
+
+export default router;
@@ -1,7 +1,10 @@
 import express from 'express';
 import { Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
 import { User } from '../models/User';
-import { authenticate } from '../middleware/auth';
+import { AuthService } from '../services/auth';
+import { VaultKeyService } from '../services/vaultKeys';
+import { authenticate, authorize } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 
@@ -86,4 +89,189 @@ router.get('/stats', authenticate, async (req: Request, res: Response, next: Nex
   }
 });
 
+const userIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+];
+
+/**
+ * @swagger
+ * /api/user/public-key:
+ *   get:
+ *     summary: Look up a user's public key by email, to wrap data keys for them
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: email
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Public key and its SHA-256 fingerprint
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No public key found for this user
+ */
+router.get(
+  '/public-key',
+  authenticate,
+  [query('email').isEmail().withMessage('Valid email is required')],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+      }
+
+      const publicKey = await VaultKeyService.getPublicKey({ email: req.query.email as string });
+
+      res.status(200).json({
+        success: true,
+        message: 'Public key retrieved successfully',
+        data: publicKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/user/{id}/public-key:
+ *   get:
+ *     summary: Get a user's public key, to wrap data keys for them
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Public key and its SHA-256 fingerprint
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No public key found for this user
+ */
+router.get('/:id/public-key', authenticate, userIdValidation, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+    }
+
+    const publicKey = await VaultKeyService.getPublicKey({ userId: req.params.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'Public key retrieved successfully',
+      data: publicKey,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/{id}/lock:
+ *   post:
+ *     summary: Lock a user account and revoke all of its tokens (admin only)
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account locked successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.post('/:id/lock', authenticate, authorize('admin'), userIdValidation, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+    }
+
+    if (req.params.id === req.user.id) {
+      throw new AppError('You cannot lock your own account', 400, 'CANNOT_LOCK_SELF');
+    }
+
+    await AuthService.lockAccount(req.params.id, req.user.id);
+
+    logger.info('Account locked', { userId: req.params.id, lockedBy: req.user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'Account locked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user account (admin only)
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.post('/:id/unlock', authenticate, authorize('admin'), userIdValidation, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR');
+    }
+
+    await AuthService.unlockAccount(req.params.id, req.user.id);
+
+    logger.info('Account unlocked', { userId: req.params.id, unlockedBy: req.user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'Account unlocked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,5 +1,39 @@
 import express from 'express';
-import { VaultController, createVaultItemValidation, updateVaultItemValidation, exportVaultValidation, importVaultValidation } from '../controllers/vaultController';
+import {
+  VaultController,
+  createVaultItemValidation,
+  updateVaultItemValidation,
+  importVaultValidation,
+  getVaultItemsValidation,
+  updateSearchIndexValidation,
+  updateHealthValidation,
+  trashItemValidation,
+  trashSettingsValidation,
+  revisionValidation,
+  keyPairValidation,
+  startMigrationValidation,
+  completeMigrationValidation,
+} from '../controllers/vaultController';
+import {
+  FolderController,
+  createFolderValidation,
+  updateFolderValidation,
+  deleteFolderValidation,
+} from '../controllers/folderController';
+import {
+  ShareController,
+  getSharesValidation,
+  createShareValidation,
+  revokeShareValidation,
+  shareValidation,
+  updateSharedItemValidation,
+} from '../controllers/shareController';
+import {
+  AttachmentController,
+  getAttachmentsValidation,
+  uploadAttachmentValidation,
+  attachmentValidation,
+} from '../controllers/attachmentController';
 import { authenticate } from '../middleware/auth';
 
 const router = express.Router();
@@ -8,7 +42,7 @@ const router = express.Router();
  * @swagger
  * /api/vault/items:
  *   get:
- *     summary: Get all vault items
+ *     summary: Get a page of vault items
  *     tags: [Vault]
  *     security:
  *       - bearerAuth: []
@@ -32,17 +66,53 @@ const router = express.Router();
  *           type: boolean
  *         description: Filter by favorite status
  *       - in: query
- *         name: search
+ *         name: folderId
  *         schema:
  *           type: string
- *         description: Search term
+ *         description: Only items in this folder, or "none" for items outside any folder
+ *       - in: query
+ *         name: searchTokens
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description: Blind tokens of the search words, computed in the browser; items must match all of them
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Number of items per page
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor from the previous page
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, updatedAt, type, favorite]
+ *           default: createdAt
+ *         description: Field to sort by
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *         description: Sort direction
  *     responses:
  *       200:
- *         description: Vault items retrieved successfully
+ *         description: A page of vault items with the cursor for the next one
+ *       400:
+ *         description: Validation error or invalid cursor
  *       401:
  *         description: Unauthorized
  */
-router.get('/items', authenticate, VaultController.getVaultItems);
+router.get('/items', authenticate, getVaultItemsValidation, VaultController.getVaultItems);
 
 /**
  * @swagger
@@ -59,20 +129,9 @@ router.get('/items', authenticate, VaultController.getVaultItems);
  *         schema:
  *           type: string
  *         description: Vault item ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - masterPassword
- *             properties:
- *               masterPassword:
- *                 type: string
  *     responses:
  *       200:
- *         description: Vault item retrieved successfully
+ *         description: Vault item retrieved successfully, still encrypted
  *       401:
  *         description: Unauthorized
  *       404:
@@ -96,16 +155,23 @@ router.get('/items/:id', authenticate, VaultController.getVaultItem);
  *             type: object
  *             required:
  *               - type
- *               - data
- *               - masterPassword
+ *               - encryptedData
+ *               - encryptedDataKey
+ *               - iv
+ *               - tag
  *             properties:
  *               type:
  *                 type: string
  *                 enum: [login, secureNote, paymentCard, identity]
- *               data:
- *                 type: object
- *                 description: Vault item data
- *               masterPassword:
+ *               encryptedData:
+ *                 type: string
+ *                 description: Base64 ciphertext of the item data, encrypted in the browser
+ *               encryptedDataKey:
+ *                 type: string
+ *                 description: Base64 item data key wrapped by the vault key
+ *               iv:
+ *                 type: string
+ *               tag:
  *                 type: string
  *               tags:
  *                 type: array
@@ -113,10 +179,23 @@ router.get('/items/:id', authenticate, VaultController.getVaultItem);
  *                   type: string
  *               favorite:
  *                 type: boolean
+ *               folderId:
+ *                 type: string
+ *                 nullable: true
  *               algorithm:
  *                 type: string
  *                 enum: [aes, xchacha]
  *                 default: aes
+ *               searchTokens:
+ *                 type: array
+ *                 description: Blind HMAC tokens of searchable fields, keyed by a key derived from the vault key
+ *                 items:
+ *                   type: string
+ *               searchIndexVersion:
+ *                 type: integer
+ *               health:
+ *                 type: object
+ *                 description: Password health of a login, as for /api/vault/health
  *     responses:
  *       201:
  *         description: Vault item created successfully
@@ -148,28 +227,63 @@ router.post('/items', authenticate, createVaultItemValidation, VaultController.c
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - masterPassword
  *             properties:
- *               masterPassword:
+ *               encryptedData:
+ *                 type: string
+ *                 description: Replacement ciphertext, sent together with encryptedDataKey, iv and tag
+ *               encryptedDataKey:
+ *                 type: string
+ *               iv:
+ *                 type: string
+ *               tag:
  *                 type: string
- *               data:
- *                 type: object
- *                 description: Updated vault item data
  *               tags:
  *                 type: array
  *                 items:
  *                   type: string
  *               favorite:
  *                 type: boolean
+ *               folderId:
+ *                 type: string
+ *                 nullable: true
  *               algorithm:
  *                 type: string
  *                 enum: [aes, xchacha]
+ *               searchTokens:
+ *                 type: array
+ *                 description: Blind HMAC tokens of searchable fields, keyed by a key derived from the vault key
+ *                 items:
+ *                   type: string
+ *               searchIndexVersion:
+ *                 type: integer
+ *               health:
+ *                 type: object
+ *                 description: Password health of a login, as for /api/vault/health
+ *               shareKeys:
+ *                 type: array
+ *                 description: The new data key wrapped for each share of the item; required when the item is shared
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     shareId:
+ *                       type: string
+ *                     encryptedDataKey:
+ *                       type: string
+ *               attachmentKeys:
+ *                 type: array
+ *                 description: Each attachment key re-wrapped under the new data key; required when the item has attachments
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     attachmentId:
+ *                       type: string
+ *                     encryptedKey:
+ *                       type: string
  *     responses:
  *       200:
  *         description: Vault item updated successfully
  *       400:
- *         description: Validation error
+ *         description: Validation error, or share keys missing for a shared item
  *       401:
  *         description: Unauthorized
  *       404:
@@ -181,7 +295,7 @@ router.put('/items/:id', authenticate, updateVaultItemValidation, VaultControlle
  * @swagger
  * /api/vault/items/{id}:
  *   delete:
- *     summary: Delete a vault item
+ *     summary: Move a vault item to the trash
  *     tags: [Vault]
  *     security:
  *       - bearerAuth: []
@@ -194,7 +308,7 @@ router.put('/items/:id', authenticate, updateVaultItemValidation, VaultControlle
  *         description: Vault item ID
  *     responses:
  *       200:
- *         description: Vault item deleted successfully
+ *         description: Vault item moved to trash
  *       401:
  *         description: Unauthorized
  *       404:
@@ -204,41 +318,151 @@ router.delete('/items/:id', authenticate, VaultController.deleteVaultItem);
 
 /**
  * @swagger
- * /api/vault/export:
+ * /api/vault/items/{id}/restore:
+ *   post:
+ *     summary: Restore a vault item from the trash
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *     responses:
+ *       200:
+ *         description: Vault item restored successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Vault item not found in trash
+ */
+router.post('/items/:id/restore', authenticate, trashItemValidation, VaultController.restoreVaultItem);
+
+/**
+ * @swagger
+ * /api/vault/items/{id}/revisions:
  *   get:
- *     summary: Export vault data
+ *     summary: List the earlier encrypted payloads of a vault item
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *     responses:
+ *       200:
+ *         description: Revisions retrieved successfully, newest first
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Vault item not found
+ */
+router.get('/items/:id/revisions', authenticate, revisionValidation, VaultController.getRevisions);
+
+/**
+ * @swagger
+ * /api/vault/items/{id}/revisions/{revision}/restore:
+ *   post:
+ *     summary: Roll a vault item back to an earlier revision
+ *     description: The current payload is kept as a new revision, so the rollback can be undone.
  *     tags: [Vault]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Revision number to restore
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - masterPassword
  *             properties:
- *               masterPassword:
- *                 type: string
+ *               shareKeys:
+ *                 type: array
+ *                 description: The revision's data key wrapped for each share of the item; required when the item is shared
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     shareId:
+ *                       type: string
+ *                     encryptedDataKey:
+ *                       type: string
+ *               attachmentKeys:
+ *                 type: array
+ *                 description: Each attachment key re-wrapped under the new data key; required when the item has attachments
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     attachmentId:
+ *                       type: string
+ *                     encryptedKey:
+ *                       type: string
  *     responses:
  *       200:
- *         description: Vault exported successfully
+ *         description: Revision restored successfully
  *       400:
- *         description: Validation error
+ *         description: Share keys missing for a shared item
  *       401:
  *         description: Unauthorized
+ *       404:
+ *         description: Vault item or revision not found
+ *       409:
+ *         description: A key rotation is in progress, the vault must be upgraded first, or the revision predates a revoked share
  */
-router.get('/export', authenticate, exportVaultValidation, VaultController.exportVault);
+router.post('/items/:id/revisions/:revision/restore', authenticate, revisionValidation, VaultController.restoreRevision);
 
 /**
  * @swagger
- * /api/vault/import:
+ * /api/vault/items/{id}/shares:
+ *   get:
+ *     summary: List who a vault item is shared with, with their public keys
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *     responses:
+ *       200:
+ *         description: Shares retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Vault item not found
  *   post:
- *     summary: Import vault data
+ *     summary: Share a vault item with another user
+ *     description: The recipient sees the item once they accept. The data key is wrapped with their public key in the browser.
  *     tags: [Vault]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
  *     requestBody:
  *       required: true
  *       content:
@@ -246,26 +470,798 @@ router.get('/export', authenticate, exportVaultValidation, VaultController.expor
  *           schema:
  *             type: object
  *             required:
- *               - importData
- *               - masterPassword
+ *               - recipientId
+ *               - encryptedDataKey
  *             properties:
- *               importData:
- *                 type: object
- *                 description: Import data structure
- *               masterPassword:
+ *               recipientId:
+ *                 type: string
+ *               permission:
+ *                 type: string
+ *                 enum: [read, edit]
+ *               encryptedDataKey:
+ *                 type: string
+ *                 description: The item's data key wrapped with the recipient's RSA-OAEP public key
+ *     responses:
+ *       201:
+ *         description: Item shared successfully
+ *       400:
+ *         description: Validation error, or sharing with yourself
+ *       404:
+ *         description: Vault item or recipient's public key not found
+ *       409:
+ *         description: Already shared with that user, or the share limit was reached
+ */
+router.get('/items/:id/shares', authenticate, getSharesValidation, ShareController.getShares);
+router.post('/items/:id/shares', authenticate, createShareValidation, ShareController.createShare);
+
+/**
+ * @swagger
+ * /api/vault/items/{id}/shares/{shareId}/revoke:
+ *   post:
+ *     summary: Revoke a share and rotate the item's data key
+ *     description: The item is re-encrypted under a new data key, wrapped for the owner and every remaining share, so the former recipient cannot read later edits.
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - encryptedData
+ *               - encryptedDataKey
+ *               - iv
+ *               - tag
+ *             properties:
+ *               encryptedData:
+ *                 type: string
+ *               encryptedDataKey:
+ *                 type: string
+ *               iv:
+ *                 type: string
+ *               tag:
  *                 type: string
  *               algorithm:
  *                 type: string
  *                 enum: [aes, xchacha]
- *                 default: aes
+ *               shareKeys:
+ *                 type: array
+ *                 description: The new data key wrapped for each remaining share
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     shareId:
+ *                       type: string
+ *                     encryptedDataKey:
+ *                       type: string
+ *               attachmentKeys:
+ *                 type: array
+ *                 description: Each attachment key re-wrapped under the new data key
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     attachmentId:
+ *                       type: string
+ *                     encryptedKey:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Share revoked successfully
+ *       400:
+ *         description: Validation error, or share keys missing for a remaining share
+ *       404:
+ *         description: Vault item or share not found
+ */
+router.post('/items/:id/shares/:shareId/revoke', authenticate, revokeShareValidation, ShareController.revokeShare);
+
+/**
+ * @swagger
+ * /api/vault/items/{id}/attachments:
+ *   get:
+ *     summary: List a vault item's attachments
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *     responses:
+ *       200:
+ *         description: Attachments retrieved successfully
+ *       404:
+ *         description: Vault item not found
+ *   post:
+ *     summary: Upload an encrypted attachment
+ *     description: The body is the raw ciphertext, streamed to the blob store. The file is encrypted in the browser under its own key, which is wrapped by the item's data key.
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *       - in: header
+ *         name: X-Encrypted-File-Name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The file name encrypted under the attachment key
+ *       - in: header
+ *         name: X-Encrypted-Key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The attachment key wrapped by the item's data key
+ *       - in: header
+ *         name: Content-Length
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
  *     responses:
  *       201:
- *         description: Vault imported successfully
+ *         description: Attachment uploaded successfully
  *       400:
- *         description: Validation error
- *       401:
- *         description: Unauthorized
+ *         description: Validation error, incomplete upload, or the item's attachment limit was reached
+ *       404:
+ *         description: Vault item not found
+ *       413:
+ *         description: Attachment too large, or attachment storage is full
+ *       415:
+ *         description: Body is not application/octet-stream
  */
-router.post('/import', authenticate, importVaultValidation, VaultController.importVault);
+router.get('/items/:id/attachments', authenticate, getAttachmentsValidation, AttachmentController.getAttachments);
+router.post('/items/:id/attachments', authenticate, uploadAttachmentValidation, AttachmentController.uploadAttachment);
+
+/**
+ * @swagger
+ * /api/vault/items/{id}/attachments/{attachmentId}:
+ *   get:
+ *     summary: Download an attachment's ciphertext
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The attachment's ciphertext
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Attachment not found
+ *   delete:
+ *     summary: Delete an attachment
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachment deleted successfully
+ *       404:
+ *         description: Attachment not found
+ */
+router.get('/items/:id/attachments/:attachmentId', authenticate, attachmentValidation, AttachmentController.downloadAttachment);
+router.delete('/items/:id/attachments/:attachmentId', authenticate, attachmentValidation, AttachmentController.deleteAttachment);
+
+/**
+ * @swagger
+ * /api/vault/shared:
+ *   get:
+ *     summary: List items shared with you
+ *     description: Ciphertext and your wrapped copy of the data key are only included once a share is accepted.
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Shared items retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/shared', authenticate, ShareController.getSharedWithMe);
+
+/**
+ * @swagger
+ * /api/vault/shared/{shareId}:
+ *   put:
+ *     summary: Edit an item shared with you with edit rights
+ *     description: The item keeps its data key; send ciphertext encrypted under it.
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - encryptedData
+ *               - iv
+ *               - tag
+ *             properties:
+ *               encryptedData:
+ *                 type: string
+ *               iv:
+ *                 type: string
+ *               tag:
+ *                 type: string
+ *               algorithm:
+ *                 type: string
+ *                 enum: [aes, xchacha]
+ *     responses:
+ *       200:
+ *         description: Shared item updated successfully
+ *       403:
+ *         description: The item is shared with you read-only
+ *       404:
+ *         description: Share not found
+ *       409:
+ *         description: The share has not been accepted
+ */
+router.put('/shared/:shareId', authenticate, updateSharedItemValidation, ShareController.updateSharedItem);
+
+/**
+ * @swagger
+ * /api/vault/shared/{shareId}/accept:
+ *   post:
+ *     summary: Accept an item shared with you
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share accepted successfully
+ *       404:
+ *         description: Share not found
+ */
+router.post('/shared/:shareId/accept', authenticate, shareValidation, ShareController.acceptShare);
+
+/**
+ * @swagger
+ * /api/vault/shared/{shareId}/decline:
+ *   post:
+ *     summary: Decline an item shared with you, or stop receiving it
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share declined successfully
+ *       404:
+ *         description: Share not found
+ */
+router.post('/shared/:shareId/decline', authenticate, shareValidation, ShareController.declineShare);
+
+/**
+ * @swagger
+ * /api/vault/folders:
+ *   get:
+ *     summary: Get all folders; the client builds the tree from parentId
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Folders retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *   post:
+ *     summary: Create a folder
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - encryptedName
+ *             properties:
+ *               encryptedName:
+ *                 type: string
+ *                 description: Folder name encrypted in the browser under the vault key
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Folder created successfully
+ *       400:
+ *         description: Validation error, or the folder limit or nesting depth was reached
+ *       404:
+ *         description: Parent folder not found
+ */
+router.get('/folders', authenticate, FolderController.getFolders);
+router.post('/folders', authenticate, createFolderValidation, FolderController.createFolder);
+
+/**
+ * @swagger
+ * /api/vault/folders/{id}:
+ *   put:
+ *     summary: Rename a folder and/or move it under another parent
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Folder ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               encryptedName:
+ *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: New parent, or null to move to the top level
+ *     responses:
+ *       200:
+ *         description: Folder updated successfully
+ *       400:
+ *         description: Validation error, or the move would nest a folder in itself or too deep
+ *       404:
+ *         description: Folder not found
+ *   delete:
+ *     summary: Delete a folder
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Folder ID
+ *       - in: query
+ *         name: items
+ *         schema:
+ *           type: string
+ *           enum: [moveToParent, trash]
+ *           default: moveToParent
+ *         description: Move the folder's items and subfolders up to its parent, or send every item below it to the trash
+ *     responses:
+ *       200:
+ *         description: Folder deleted successfully
+ *       404:
+ *         description: Folder not found
+ */
+router.put('/folders/:id', authenticate, updateFolderValidation, FolderController.updateFolder);
+router.delete('/folders/:id', authenticate, deleteFolderValidation, FolderController.deleteFolder);
+
+/**
+ * @swagger
+ * /api/vault/trash:
+ *   get:
+ *     summary: List deleted vault items and the retention period
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Trash retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *   delete:
+ *     summary: Permanently delete everything in the trash
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Trash emptied successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/trash', authenticate, VaultController.getTrash);
+router.delete('/trash', authenticate, VaultController.emptyTrash);
+
+/**
+ * @swagger
+ * /api/vault/trash/settings:
+ *   put:
+ *     summary: Set how long deleted items are kept before they are purged
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - retentionDays
+ *             properties:
+ *               retentionDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *     responses:
+ *       200:
+ *         description: Trash settings updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/trash/settings', authenticate, trashSettingsValidation, VaultController.updateTrashSettings);
+
+/**
+ * @swagger
+ * /api/vault/trash/{id}:
+ *   delete:
+ *     summary: Permanently delete a vault item from the trash
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vault item ID
+ *     responses:
+ *       200:
+ *         description: Vault item permanently deleted
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Vault item not found in trash
+ */
+router.delete('/trash/:id', authenticate, trashItemValidation, VaultController.purgeVaultItem);
+
+/**
+ * @swagger
+ * /api/vault/export:
+ *   get:
+ *     summary: Export vault data as ciphertext for the client to decrypt
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Vault exported successfully
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Vault must be upgraded to client-side encryption first
+ */
+router.get('/export', authenticate, VaultController.exportVault);
+
+/**
+ * @swagger
+ * /api/vault/import:
+ *   post:
+ *     summary: Import vault data
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 description: Items encrypted in the browser, in the same shape as item creation
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       201:
+ *         description: Vault imported successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/import', authenticate, importVaultValidation, VaultController.importVault);
+
+/**
+ * @swagger
+ * /api/vault/search-index:
+ *   put:
+ *     summary: Replace the search tokens of existing items
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - id
+ *                     - searchTokens
+ *                     - searchIndexVersion
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     searchTokens:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     searchIndexVersion:
+ *                       type: integer
+ *     responses:
+ *       200:
+ *         description: Search index updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/search-index', authenticate, updateSearchIndexValidation, VaultController.updateSearchIndex);
+
+/**
+ * @swagger
+ * /api/vault/health:
+ *   put:
+ *     summary: Store the password health of existing logins
+ *     description: Reported by vault scans in the browser. The password hash is a keyed HMAC the server cannot reverse; when it changes, the password counts as changed. Items that are not logins are skipped.
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - id
+ *                     - health
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     health:
+ *                       type: object
+ *                       required:
+ *                         - version
+ *                       properties:
+ *                         version:
+ *                           type: integer
+ *                         passwordHash:
+ *                           type: string
+ *                           nullable: true
+ *                         strength:
+ *                           type: integer
+ *                           minimum: 0
+ *                           maximum: 4
+ *                           nullable: true
+ *                         breachCount:
+ *                           type: integer
+ *                           nullable: true
+ *                         hasTotp:
+ *                           type: boolean
+ *                         totpSupported:
+ *                           type: boolean
+ *     responses:
+ *       200:
+ *         description: Vault health updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/health', authenticate, updateHealthValidation, VaultController.updateHealth);
+
+/**
+ * @swagger
+ * /api/vault/keys:
+ *   get:
+ *     summary: Get the KDF parameters and wrapped vault key needed to unlock the vault
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Vault keys retrieved successfully, with the KDF parameters to upgrade to when the stored ones are outdated
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/keys', authenticate, VaultController.getVaultKeys);
+
+/**
+ * @swagger
+ * /api/vault/keys/keypair:
+ *   put:
+ *     summary: Publish the keypair other users share data keys with
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - publicKey
+ *               - encryptedPrivateKey
+ *             properties:
+ *               publicKey:
+ *                 type: string
+ *                 description: RSA-OAEP public key in SPKI form, base64
+ *               encryptedPrivateKey:
+ *                 type: string
+ *                 description: PKCS#8 private key wrapped in the browser by the vault key
+ *     responses:
+ *       200:
+ *         description: Keypair published successfully
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: A keypair has already been published
+ */
+router.put('/keys/keypair', authenticate, keyPairValidation, VaultController.setKeyPair);
+
+/**
+ * @swagger
+ * /api/vault/migration:
+ *   post:
+ *     summary: Upgrade to client-side encryption and decrypt server-encrypted items for re-encryption
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - masterPassword
+ *               - masterPasswordHash
+ *             properties:
+ *               masterPassword:
+ *                 type: string
+ *                 description: Sent only to open items the server encrypted
+ *               masterPasswordHash:
+ *                 type: string
+ *               encryptedVaultKey:
+ *                 type: string
+ *                 description: Required on the first migration
+ *     responses:
+ *       200:
+ *         description: Legacy items decrypted for re-encryption
+ *       400:
+ *         description: Invalid master password
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/migration', authenticate, startMigrationValidation, VaultController.startMigration);
+
+/**
+ * @swagger
+ * /api/vault/migration/complete:
+ *   post:
+ *     summary: Replace legacy items with their client-encrypted ciphertext
+ *     tags: [Vault]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Vault items migrated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/migration/complete', authenticate, completeMigrationValidation, VaultController.completeMigration);
 
 export default router;
@@ -7,6 +7,7 @@ import mongoSanitize from 'express-mongo-sanitize';
 import hpp from 'hpp';
 import dotenv from 'dotenv';
 import { connectDB } from './config/database';
+import { connectRedis } from './config/redis';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
@@ -14,7 +15,10 @@ import authRoutes from './routes/auth';
 import vaultRoutes from './routes/vault';
 import securityRoutes from './routes/security';
 import userRoutes from './routes/user';
+import organizationRoutes from './routes/organizations';
+import sendRoutes from './routes/sends';
 import { swaggerSpec } from './config/swagger';
+import { TrashService } from './services/trash';
 
 // Load environment variables
 dotenv.config();
@@ -55,7 +59,7 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Device-Id', 'X-Encrypted-File-Name', 'X-Encrypted-Key'],
 }));
 
 // Body parsing middleware
@@ -91,6 +95,8 @@ app.use('/api/auth', authRoutes);
 app.use('/api/vault', vaultRoutes);
 app.use('/api/security', securityRoutes);
 app.use('/api/user', userRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/sends', sendRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -120,6 +126,16 @@ const startServer = async () => {
   try {
     // Connect to database
     await connectDB();
+
+    // Redis backs the access token denylist, which falls back to memory without it
+    try {
+      await connectRedis();
+    } catch (error) {
+      logger.warn('Redis unavailable, token revocations will be kept in memory only');
+    }
+
+    // Purge trashed vault items past their retention period
+    TrashService.startRetentionJob();
     
     app.listen(PORT, () => {
       logger.info(`🚀 Server running on port ${PORT}`);
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import { Attachment, IAttachment } from '../models/Attachment';
+import { VaultItem, IVaultItem } from '../models/VaultItem';
+import { getBlobStore } from './blobStore';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * An attachment's key wrapped by an item's new data key
+ */
+export interface AttachmentKey {
+  attachmentId: string;
+  encryptedKey: string;
+}
+
+/**
+ * What the client sends alongside an attachment's ciphertext
+ */
+export interface AttachmentInput {
+  encryptedFileName: string;
+  encryptedKey: string;
+  // Declared size, checked before reading the body and again while streaming it
+  size: number;
+}
+
+/**
+ * Attachment Service
+ * Handles encrypted files on vault items. Ciphertext is streamed to and from the blob store
+ * without ever being held in memory as a whole.
+ */
+export class AttachmentService {
+  static readonly MAX_SIZE_BYTES = 100 * 1024 * 1024;
+  static readonly MAX_PER_ITEM = 20;
+  static readonly MAX_TOTAL_BYTES = 1024 * 1024 * 1024;
+
+  static async list(userId: string, itemId: string): Promise<IAttachment[]> {
+    const item = await this.getOwnedItem(userId, itemId);
+    return Attachment.find({ itemId: item._id }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Stream an uploaded ciphertext into the blob store and record it on the item
+   */
+  static async upload(userId: string, itemId: string, input: AttachmentInput, body: Readable): Promise<IAttachment> {
+    const item = await this.getOwnedItem(userId, itemId);
+
+    if (input.size > this.MAX_SIZE_BYTES) {
+      throw new AppError(`Attachments can be at most ${this.MAX_SIZE_BYTES / (1024 * 1024)} MB`, 413, 'ATTACHMENT_TOO_LARGE');
+    }
+    if (item.attachmentCount >= this.MAX_PER_ITEM) {
+      throw new AppError(`An item can have at most ${this.MAX_PER_ITEM} attachments`, 400, 'ATTACHMENT_LIMIT_REACHED');
+    }
+    if (await this.getUsage(userId) + input.size > this.MAX_TOTAL_BYTES) {
+      throw new AppError('Attachment storage is full', 413, 'ATTACHMENT_QUOTA_EXCEEDED');
+    }
+
+    const blobKey = `${userId}/${crypto.randomBytes(16).toString('hex')}`;
+    let size = 0;
+
+    // A client that sends more than it declared is cut off instead of filling the disk
+    const limit = input.size;
+    async function* countBytes() {
+      for await (const chunk of body) {
+        size += chunk.length;
+        if (size > limit) {
+          throw new AppError('Attachment is larger than its declared size', 413, 'ATTACHMENT_TOO_LARGE');
+        }
+        yield chunk;
+      }
+    }
+
+    const store = getBlobStore();
+    await store.put(blobKey, Readable.from(countBytes()));
+
+    if (size !== input.size) {
+      await store.delete(blobKey);
+      throw new AppError('Attachment upload was incomplete', 400, 'ATTACHMENT_INCOMPLETE');
+    }
+
+    try {
+      const attachment = await Attachment.create({
+        userId,
+        itemId: item._id,
+        encryptedFileName: input.encryptedFileName,
+        encryptedKey: input.encryptedKey,
+        size,
+        blobKey,
+      });
+      await VaultItem.updateOne({ _id: item._id }, { $inc: { attachmentCount: 1 } });
+
+      logger.info('Attachment uploaded', { userId, itemId, attachmentId: attachment._id, size });
+
+      return attachment;
+    } catch (error) {
+      await store.delete(blobKey);
+      throw error;
+    }
+  }
+
+  /**
+   * An attachment with a stream of its ciphertext
+   */
+  static async download(userId: string, itemId: string, attachmentId: string): Promise<{
+    attachment: IAttachment;
+    content: Readable;
+  }> {
+    const attachment = await this.getAttachment(userId, itemId, attachmentId);
+
+    return { attachment, content: await getBlobStore().get(attachment.blobKey) };
+  }
+
+  static async remove(userId: string, itemId: string, attachmentId: string): Promise<void> {
+    const attachment = await this.getAttachment(userId, itemId, attachmentId);
+
+    await attachment.deleteOne();
+    await VaultItem.updateOne({ _id: attachment.itemId }, { $inc: { attachmentCount: -1 } });
+    await getBlobStore().delete(attachment.blobKey);
+
+    logger.info('Attachment deleted', { userId, itemId, attachmentId });
+  }
+
+  /**
+   * Check that an item's new data key comes with every attachment key re-wrapped under it
+   * Call before replacing an item's data key, then store the keys with setAttachmentKeys.
+   */
+  static async assertAttachmentKeys(item: IVaultItem, attachmentKeys: AttachmentKey[] = []): Promise<void> {
+    if (item.attachmentCount === 0 && attachmentKeys.length === 0) {
+      return;
+    }
+
+    const attachmentIds = new Set((await Attachment.find({ itemId: item._id }).select('_id')).map(attachment => attachment._id.toString()));
+    const keyIds = new Set(attachmentKeys.map(key => key.attachmentId));
+
+    if (keyIds.size !== attachmentKeys.length || keyIds.size !== attachmentIds.size || [...keyIds].some(id => !attachmentIds.has(id))) {
+      throw new AppError('Every attachment key must be re-wrapped under the new data key', 400, 'ATTACHMENT_KEYS_INCOMPLETE');
+    }
+  }
+
+  static async setAttachmentKeys(attachmentKeys: AttachmentKey[] = []): Promise<void> {
+    if (attachmentKeys.length === 0) {
+      return;
+    }
+
+    await Attachment.bulkWrite(attachmentKeys.map(key => ({
+      updateOne: {
+        filter: { _id: key.attachmentId },
+        update: { $set: { encryptedKey: key.encryptedKey } },
+      },
+    })));
+  }
+
+  /**
+   * Drop the attachments of items that were permanently deleted, ciphertext included
+   */
+  static async deleteForItems(itemIds: mongoose.Types.ObjectId[] | string[]): Promise<void> {
+    if (itemIds.length === 0) {
+      return;
+    }
+
+    const attachments = await Attachment.find({ itemId: { $in: itemIds } }).select('blobKey');
+    const store = getBlobStore();
+    for (const attachment of attachments) {
+      await store.delete(attachment.blobKey);
+    }
+    await Attachment.deleteMany({ itemId: { $in: itemIds } });
+  }
+
+  /**
+   * Total ciphertext a user stores in attachments
+   */
+  private static async getUsage(userId: string): Promise<number> {
+    const [usage] = await Attachment.aggregate([
+      { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+      { $group: { _id: null, total: { $sum: '$size' } } },
+    ]);
+    return usage?.total ?? 0;
+  }
+
+  private static async getOwnedItem(userId: string, itemId: string): Promise<IVaultItem> {
+    const item = await VaultItem.findOne({ _id: itemId, userId, isDeleted: false });
+    if (!item) {
+      throw new AppError('Vault item not found', 404, 'VAULT_ITEM_NOT_FOUND');
+    }
+    if (!item.clientEncrypted) {
+      throw new AppError('Unlock the vault to upgrade it to client-side encryption first', 409, 'VAULT_MIGRATION_REQUIRED');
+    }
+    return item;
+  }
+
+  private static async getAttachment(userId: string, itemId: string, attachmentId: string): Promise<IAttachment> {
+    const attachment = await Attachment.findOne({ _id: attachmentId, itemId, userId });
+    if (!attachment) {
+      throw new AppError('Attachment not found', 404, 'ATTACHMENT_NOT_FOUND');
+    }
+    return attachment;
+  }
+}
@@ -1,11 +1,53 @@
 import argon2 from 'argon2';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import { User } from '../models/User';
+import { AuthenticationResponseJSON, PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/server';
+import { User, IUser, IKdfConfig } from '../models/User';
+import { AuditEventType } from '../models/AuditLog';
+import { SessionRevocationReason } from '../models/Session';
 import { EncryptionService } from './encryption';
+import { SecurityFeaturesService } from './securityFeatures';
+import { WebAuthnService } from './webauthn';
+import { DeviceService, DeviceContext } from './devices';
+import { SessionService } from './sessions';
+import { TokenDenylistService } from './tokenDenylist';
+import { VaultKeyService, VaultKeyMaterial, KdfParams } from './vaultKeys';
+import { KdfService } from './kdf';
+import { PasswordStrengthService } from './passwordStrength';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 
+/**
+ * Tokens issued after a fully authenticated login
+ */
+export interface AuthResult {
+  user: any;
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Factors that can answer a login challenge (recovery codes are always accepted)
+ * The master password is only offered to confirm an unknown device when no second factor is set up.
+ */
+export type TwoFactorMethod = 'totp' | 'webauthn' | 'master_password';
+
+/**
+ * Returned by login when a second factor is still required
+ */
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string;
+  methods: TwoFactorMethod[];
+  // Present when the master password is offered to a zero-knowledge account, so the client can hash it
+  kdf?: KdfParams;
+}
+
+/**
+ * Which password is being set; the master password protects the vault itself, so it needs more
+ */
+export type PasswordKind = 'account' | 'master';
+
 /**
  * Authentication service implementing Argon2id and JWT
  * Provides secure authentication with zero-knowledge architecture
@@ -13,6 +55,7 @@ import { AppError } from '../middleware/errorHandler';
 export class AuthService {
   private static readonly JWT_EXPIRES_IN = '7d';
   private static readonly REFRESH_TOKEN_EXPIRES_IN = '30d';
+  private static readonly MFA_CHALLENGE_EXPIRES_IN = '5m';
   private static readonly ARGON2_OPTIONS = {
     type: argon2.argon2id,
     memoryCost: 2 ** 16, // 64 MB
@@ -20,6 +63,11 @@ export class AuthService {
     parallelism: 1,
     hashLength: 32,
   };
+  // Lowest strength score accepted, 2 being over a million guesses and 3 over a hundred million
+  private static readonly MIN_PASSWORD_SCORE: Record<PasswordKind, number> = {
+    account: 2,
+    master: 3,
+  };
 
   /**
    * Hash password using Argon2id
@@ -52,14 +100,20 @@ export class AuthService {
 
   /**
    * Generate JWT access token
+   * The jti lets a single token be revoked before it expires, and the issue time in
+   * milliseconds lets tokens issued just after revoking all of a user's access through.
    */
-  static generateAccessToken(userId: string, email: string): string {
+  static generateAccessToken(userId: string, email: string, sessionId?: string): string {
     try {
+      const now = Date.now();
       const payload = {
         userId,
         email,
+        sessionId,
+        jti: crypto.randomUUID(),
         type: 'access',
-        iat: Math.floor(Date.now() / 1000),
+        iat: Math.floor(now / 1000),
+        iatMs: now,
       };
 
       return jwt.sign(payload, process.env.JWT_SECRET!, {
@@ -74,12 +128,15 @@ export class AuthService {
   }
 
   /**
-   * Generate JWT refresh token
+   * Generate JWT refresh token for a session
+   * The random jti keeps every token in a session's family distinct.
    */
-  static generateRefreshToken(userId: string): string {
+  static generateRefreshToken(userId: string, sessionId: string): string {
     try {
       const payload = {
         userId,
+        sessionId,
+        jti: crypto.randomUUID(),
         type: 'refresh',
         iat: Math.floor(Date.now() / 1000),
       };
@@ -135,8 +192,14 @@ export class AuthService {
 
   /**
    * Register a new user
+   * The master password never arrives here, only the key material the client derived from it.
    */
-  static async register(email: string, password: string, masterPassword: string): Promise<{
+  static async register(
+    email: string,
+    password: string,
+    keys: VaultKeyMaterial,
+    context: DeviceContext = {}
+  ): Promise<{
     user: any;
     accessToken: string;
     refreshToken: string;
@@ -148,24 +211,23 @@ export class AuthService {
         throw new AppError('User already exists', 409, 'USER_EXISTS');
       }
 
-      // Validate password strength
-      this.validatePasswordStrength(password);
-      this.validatePasswordStrength(masterPassword);
+      // Validate password strength and the client's KDF parameters
+      this.validatePasswordStrength(password, 'account', [email]);
+      const kdf = KdfService.validate(keys.kdf);
 
-      // Hash passwords
+      // Hash the password and the client's master password hash
       const hashedPassword = await this.hashPassword(password);
-      const hashedMasterPassword = await this.hashPassword(masterPassword);
-
-      // Generate master key from master password
-      const salt = EncryptionService.generateSalt();
-      const masterKey = EncryptionService.deriveKeyFromPassword(masterPassword, salt);
+      const hashedMasterPassword = await this.hashPassword(keys.masterPasswordHash);
 
       // Create user
       const user = new User({
         email: email.toLowerCase(),
         password: hashedPassword,
         masterPassword: hashedMasterPassword,
-        masterKeySalt: salt.toString('hex'),
+        masterKeySalt: keys.masterKeySalt,
+        kdf,
+        zeroKnowledge: true,
+        encryptedVaultKey: keys.encryptedVaultKey,
         isEmailVerified: false,
         twoFactorEnabled: false,
         securityScore: 0,
@@ -177,13 +239,16 @@ export class AuthService {
 
       await user.save();
 
-      // Generate tokens
-      const accessToken = this.generateAccessToken(user._id.toString(), user.email);
-      const refreshToken = this.generateRefreshToken(user._id.toString());
+      // The device used to create the account is trusted from the start
+      const device = await DeviceService.trustDevice(user._id.toString(), context);
 
-      // Update user with refresh token
-      user.refreshToken = refreshToken;
-      await user.save();
+      // Generate tokens
+      const { session, refreshToken } = await SessionService.createSession(
+        user._id.toString(),
+        context,
+        device._id.toString()
+      );
+      const accessToken = this.generateAccessToken(user._id.toString(), user.email, session._id.toString());
 
       logger.info('User registered successfully', { userId: user._id, email: user.email });
 
@@ -210,12 +275,13 @@ export class AuthService {
 
   /**
    * Login user
+   * Returns a short-lived MFA challenge instead of tokens when 2FA is enabled or the device is unknown
    */
-  static async login(email: string, password: string): Promise<{
-    user: any;
-    accessToken: string;
-    refreshToken: string;
-  }> {
+  static async login(
+    email: string,
+    password: string,
+    context: DeviceContext = {}
+  ): Promise<AuthResult | TwoFactorChallenge> {
     try {
       // Find user
       const user = await User.findOne({ email: email.toLowerCase() });
@@ -231,46 +297,37 @@ export class AuthService {
       // Verify password
       const isPasswordValid = await this.verifyPassword(password, user.password);
       if (!isPasswordValid) {
-        // Increment login attempts
-        user.loginAttempts += 1;
-        
-        // Lock account after 5 failed attempts
-        if (user.loginAttempts >= 5) {
-          user.lockoutUntil = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
-        }
-        
-        await user.save();
+        await this.recordFailedLogin(user);
         throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
       }
 
-      // Reset login attempts on successful login
-      user.loginAttempts = 0;
-      user.lockoutUntil = null;
-      user.lastLoginAt = new Date();
-      await user.save();
+      // Second factor required before any tokens are issued
+      const methods: TwoFactorMethod[] = [];
+      if (user.twoFactorEnabled) {
+        methods.push('totp');
+      }
+      if (await WebAuthnService.hasCredentials(user._id.toString())) {
+        methods.push('webauthn');
+      }
 
-      // Generate tokens
-      const accessToken = this.generateAccessToken(user._id.toString(), user.email);
-      const refreshToken = this.generateRefreshToken(user._id.toString());
+      // Without a second factor, unknown devices are confirmed with the master password
+      if (methods.length === 0 && !(await DeviceService.isTrusted(user._id.toString(), context))) {
+        await DeviceService.recordSighting(user._id.toString(), context);
+        methods.push('master_password');
+      }
 
-      // Update user with refresh token
-      user.refreshToken = refreshToken;
-      await user.save();
+      if (methods.length > 0) {
+        logger.info('Password verified, additional verification pending', { userId: user._id, methods });
 
-      logger.info('User logged in successfully', { userId: user._id, email: user.email });
+        return {
+          requiresTwoFactor: true,
+          challengeToken: this.generateTwoFactorChallengeToken(user._id.toString(), DeviceService.fingerprint(context)),
+          methods,
+          ...(methods.includes('master_password') && user.zeroKnowledge && { kdf: VaultKeyService.getKdfParams(user) }),
+        };
+      }
 
-      return {
-        user: {
-          id: user._id,
-          email: user.email,
-          isEmailVerified: user.isEmailVerified,
-          twoFactorEnabled: user.twoFactorEnabled,
-          securityScore: user.securityScore,
-          lastLoginAt: user.lastLoginAt,
-        },
-        accessToken,
-        refreshToken,
-      };
+      return await this.completeLogin(user, context);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -281,9 +338,248 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Exchange an MFA challenge token and a TOTP or recovery code for access and refresh tokens
+   */
+  static async loginWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    context: DeviceContext = {}
+  ): Promise<AuthResult> {
+    try {
+      const decoded = this.verifyTwoFactorChallengeToken(challengeToken, context);
+
+      const user = await User.findById(decoded.userId);
+      if (!user) {
+        throw new AppError('Invalid two-factor challenge', 401, 'INVALID_2FA_CHALLENGE');
+      }
+
+      if (user.lockoutUntil && user.lockoutUntil > new Date()) {
+        throw new AppError('Account is temporarily locked', 423, 'ACCOUNT_LOCKED');
+      }
+
+      const isCodeValid = await SecurityFeaturesService.verifySecondFactor(user, code);
+      if (!isCodeValid) {
+        await this.recordFailedLogin(user);
+        throw new AppError('Invalid two-factor authentication token', 401, 'INVALID_2FA_TOKEN');
+      }
+
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Two-factor login failed:', error);
+      throw new AppError('Login failed', 500, 'LOGIN_ERROR');
+    }
+  }
+
+  /**
+   * Confirm an unknown device with the master password and issue tokens
+   * Zero-knowledge accounts send their master password hash, legacy accounts the master password.
+   */
+  static async loginWithMasterPassword(
+    challengeToken: string,
+    masterPassword: string,
+    context: DeviceContext = {}
+  ): Promise<AuthResult> {
+    try {
+      const decoded = this.verifyTwoFactorChallengeToken(challengeToken, context);
+
+      const user = await User.findById(decoded.userId);
+      if (!user) {
+        throw new AppError('Invalid two-factor challenge', 401, 'INVALID_2FA_CHALLENGE');
+      }
+
+      if (user.lockoutUntil && user.lockoutUntil > new Date()) {
+        throw new AppError('Account is temporarily locked', 423, 'ACCOUNT_LOCKED');
+      }
+
+      // Accounts with a second factor must use it instead
+      if (user.twoFactorEnabled || await WebAuthnService.hasCredentials(user._id.toString())) {
+        throw new AppError('Two-factor authentication is required', 403, '2FA_REQUIRED');
+      }
+
+      const isMasterPasswordValid = await this.verifyPassword(masterPassword, user.masterPassword);
+      if (!isMasterPasswordValid) {
+        await this.recordFailedLogin(user);
+        throw new AppError('Invalid master password', 401, 'INVALID_MASTER_PASSWORD');
+      }
+
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Device verification failed:', error);
+      throw new AppError('Login failed', 500, 'LOGIN_ERROR');
+    }
+  }
+
+  /**
+   * Generate WebAuthn assertion options
+   * With a challenge token the key is the second factor, without one it is a passwordless login.
+   */
+  static async generateWebAuthnLoginOptions(
+    challengeToken?: string,
+    context: DeviceContext = {}
+  ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const userId = challengeToken ? this.verifyTwoFactorChallengeToken(challengeToken, context).userId : null;
+    return WebAuthnService.generateAuthenticationOptions(userId);
+  }
+
+  /**
+   * Log in with a WebAuthn assertion, as a second factor or passwordless
+   */
+  static async loginWithWebAuthn(
+    response: AuthenticationResponseJSON,
+    challengeToken?: string,
+    context: DeviceContext = {}
+  ): Promise<AuthResult> {
+    try {
+      let pendingUser: IUser | null = null;
+      if (challengeToken) {
+        const decoded = this.verifyTwoFactorChallengeToken(challengeToken, context);
+        pendingUser = await User.findById(decoded.userId);
+        if (!pendingUser) {
+          throw new AppError('Invalid two-factor challenge', 401, 'INVALID_2FA_CHALLENGE');
+        }
+        if (pendingUser.lockoutUntil && pendingUser.lockoutUntil > new Date()) {
+          throw new AppError('Account is temporarily locked', 423, 'ACCOUNT_LOCKED');
+        }
+      }
+
+      let user: IUser;
+      try {
+        user = await WebAuthnService.verifyAuthentication(response, pendingUser ? pendingUser._id.toString() : null);
+      } catch (error) {
+        if (pendingUser && error instanceof AppError && error.statusCode === 401) {
+          await this.recordFailedLogin(pendingUser);
+        }
+        throw error;
+      }
+
+      if (user.lockoutUntil && user.lockoutUntil > new Date()) {
+        throw new AppError('Account is temporarily locked', 423, 'ACCOUNT_LOCKED');
+      }
+
+      return await this.completeLogin(user, context);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('WebAuthn login failed:', error);
+      throw new AppError('Login failed', 500, 'LOGIN_ERROR');
+    }
+  }
+
+  /**
+   * Generate a short-lived token proving the password step succeeded on a given device
+   */
+  static generateTwoFactorChallengeToken(userId: string, device: string): string {
+    try {
+      const payload = {
+        userId,
+        device,
+        type: 'mfa_pending',
+        iat: Math.floor(Date.now() / 1000),
+      };
+
+      return jwt.sign(payload, process.env.JWT_SECRET!, {
+        expiresIn: this.MFA_CHALLENGE_EXPIRES_IN,
+        issuer: 'astadigbandhanam',
+        audience: 'astadigbandhanam-mfa',
+      });
+    } catch (error) {
+      logger.error('Two-factor challenge generation failed:', error);
+      throw new AppError('Token generation failed', 500, 'TOKEN_ERROR');
+    }
+  }
+
+  /**
+   * Verify an MFA challenge token and that it is being completed from the same device
+   */
+  static verifyTwoFactorChallengeToken(token: string, context: DeviceContext = {}): any {
+    try {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!, {
+        issuer: 'astadigbandhanam',
+        audience: 'astadigbandhanam-mfa',
+      }) as any;
+
+      if (decoded.type !== 'mfa_pending' || decoded.device !== DeviceService.fingerprint(context)) {
+        throw new AppError('Invalid two-factor challenge', 401, 'INVALID_2FA_CHALLENGE');
+      }
+
+      return decoded;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AppError('Two-factor challenge expired, please sign in again', 401, '2FA_CHALLENGE_EXPIRED');
+      } else if (error instanceof jwt.JsonWebTokenError) {
+        throw new AppError('Invalid two-factor challenge', 401, 'INVALID_2FA_CHALLENGE');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Issue tokens once every required factor has been verified
+   * Completing verification also trusts the device for future logins.
+   */
+  private static async completeLogin(user: IUser, context: DeviceContext): Promise<AuthResult> {
+    if (!user.isActive) {
+      throw new AppError('Account is deactivated', 401, 'ACCOUNT_DEACTIVATED');
+    }
+
+    // Reset login attempts on successful login
+    user.loginAttempts = 0;
+    user.lockoutUntil = null;
+    user.lastLoginAt = new Date();
+
+    await user.save();
+
+    const device = await DeviceService.trustDevice(user._id.toString(), context);
+
+    // Generate tokens
+    const { session, refreshToken } = await SessionService.createSession(
+      user._id.toString(),
+      context,
+      device._id.toString()
+    );
+    const accessToken = this.generateAccessToken(user._id.toString(), user.email, session._id.toString());
+
+    logger.info('User logged in successfully', { userId: user._id, email: user.email });
+
+    return {
+      user: {
+        id: user._id,
+        email: user.email,
+        isEmailVerified: user.isEmailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        securityScore: user.securityScore,
+        lastLoginAt: user.lastLoginAt,
+      },
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  /**
+   * Count a failed password or second-factor attempt towards the lockout
+   */
+  private static async recordFailedLogin(user: IUser): Promise<void> {
+    user.loginAttempts += 1;
+
+    // Lock account after 5 failed attempts
+    if (user.loginAttempts >= 5) {
+      user.lockoutUntil = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+    }
+
+    await user.save();
+  }
+
+  /**
+   * Refresh access token, rotating the session's refresh token
    */
-  static async refreshToken(refreshToken: string): Promise<{
+  static async refreshToken(refreshToken: string, context: DeviceContext = {}): Promise<{
     accessToken: string;
     refreshToken: string;
   }> {
@@ -293,17 +589,12 @@ export class AuthService {
       
       // Find user
       const user = await User.findById(decoded.userId);
-      if (!user || user.refreshToken !== refreshToken) {
+      if (!user || !user.isActive) {
         throw new AppError('Invalid refresh token', 401, 'INVALID_REFRESH_TOKEN');
       }
 
-      // Generate new tokens
-      const newAccessToken = this.generateAccessToken(user._id.toString(), user.email);
-      const newRefreshToken = this.generateRefreshToken(user._id.toString());
-
-      // Update user with new refresh token
-      user.refreshToken = newRefreshToken;
-      await user.save();
+      const { session, refreshToken: newRefreshToken } = await SessionService.rotateSession(decoded, refreshToken, context);
+      const newAccessToken = this.generateAccessToken(user._id.toString(), user.email, session._id.toString());
 
       return {
         accessToken: newAccessToken,
@@ -319,12 +610,27 @@ export class AuthService {
   }
 
   /**
-   * Logout user
+   * Logout user, ending only the current session
+   * Tokens issued before sessions existed carry no session ID, so every session is ended.
    */
-  static async logout(userId: string): Promise<void> {
+  static async logout(
+    userId: string,
+    sessionId?: string,
+    accessToken?: { jti: string; exp: number }
+  ): Promise<void> {
     try {
-      await User.findByIdAndUpdate(userId, { refreshToken: null });
-      logger.info('User logged out successfully', { userId });
+      if (sessionId) {
+        await SessionService.endSession(userId, sessionId);
+      } else {
+        await SessionService.revokeAllSessions(userId, SessionRevocationReason.LOGOUT);
+      }
+
+      // Otherwise the access token stays usable until it expires
+      if (accessToken) {
+        await TokenDenylistService.revokeToken(accessToken.jti, accessToken.exp);
+      }
+
+      logger.info('User logged out successfully', { userId, sessionId });
     } catch (error) {
       logger.error('Logout failed:', error);
       throw new AppError('Logout failed', 500, 'LOGOUT_ERROR');
@@ -332,34 +638,77 @@ export class AuthService {
   }
 
   /**
-   * Validate password strength
+   * End every session and invalidate every access token already issued to a user
+   * A kept session loses its access token too but can refresh it, so its client stays signed in.
    */
-  private static validatePasswordStrength(password: string): void {
-    if (password.length < 8) {
-      throw new AppError('Password must be at least 8 characters long', 400, 'WEAK_PASSWORD');
-    }
+  static async revokeAllAccess(userId: string, reason: SessionRevocationReason, keepSessionId?: string): Promise<number> {
+    const count = await SessionService.revokeAllSessions(userId, reason, keepSessionId);
+    await TokenDenylistService.revokeAllForUser(userId);
 
-    if (!/(?=.*[a-z])/.test(password)) {
-      throw new AppError('Password must contain at least one lowercase letter', 400, 'WEAK_PASSWORD');
+    logger.info('All access revoked', { userId, reason, sessions: count, keptSessionId: keepSessionId });
+
+    return count;
+  }
+
+  /**
+   * Lock an account, signing it out everywhere
+   */
+  static async lockAccount(userId: string, lockedBy: string): Promise<void> {
+    const user = await User.findByIdAndUpdate(userId, { isActive: false });
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    if (!/(?=.*[A-Z])/.test(password)) {
-      throw new AppError('Password must contain at least one uppercase letter', 400, 'WEAK_PASSWORD');
+    await this.revokeAllAccess(userId, SessionRevocationReason.ACCOUNT_LOCKED);
+
+    await SecurityFeaturesService.logSecurityEvent(
+      userId,
+      AuditEventType.ACCOUNT_LOCKED,
+      'Account locked by administrator',
+      { lockedBy }
+    );
+  }
+
+  /**
+   * Unlock an account locked by an administrator
+   */
+  static async unlockAccount(userId: string, unlockedBy: string): Promise<void> {
+    const user = await User.findByIdAndUpdate(userId, { isActive: true, loginAttempts: 0, lockoutUntil: null });
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
     }
 
-    if (!/(?=.*\d)/.test(password)) {
-      throw new AppError('Password must contain at least one number', 400, 'WEAK_PASSWORD');
+    await SecurityFeaturesService.logSecurityEvent(
+      userId,
+      AuditEventType.ACCOUNT_UNLOCKED,
+      'Account unlocked by administrator',
+      { unlockedBy }
+    );
+  }
+
+  /**
+   * Validate password strength
+   * Zero-knowledge master passwords never reach the server, so the browser runs the same check on them.
+   * @param userInputs Account details an attacker would try first, such as the email address
+   */
+  static validatePasswordStrength(password: string, kind: PasswordKind = 'account', userInputs: string[] = []): void {
+    if (password.length < 8) {
+      throw new AppError('Password must be at least 8 characters long', 400, 'WEAK_PASSWORD');
     }
 
-    if (!/(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/.test(password)) {
-      throw new AppError('Password must contain at least one special character', 400, 'WEAK_PASSWORD');
+    const strength = PasswordStrengthService.estimate(password, userInputs);
+    if (strength.score < this.MIN_PASSWORD_SCORE[kind]) {
+      const label = kind === 'master' ? 'Master password' : 'Password';
+      const reason = strength.weakest?.explanation ?? `it could be guessed in ${strength.crackTimes.offlineSlowHash.display}`;
+      throw new AppError(`${label} is too easy to guess: ${reason}`, 400, 'WEAK_PASSWORD');
     }
   }
 
   /**
    * Generate master key from master password
+   * Only used for legacy vaults that were encrypted on the server.
    */
-  static generateMasterKey(masterPassword: string, salt: string): Buffer {
-    return EncryptionService.deriveKeyFromPassword(masterPassword, Buffer.from(salt, 'hex'));
+  static async generateMasterKey(masterPassword: string, salt: string, kdf: IKdfConfig): Promise<Buffer> {
+    return KdfService.deriveKey(masterPassword, Buffer.from(salt, 'hex'), kdf);
   }
 }
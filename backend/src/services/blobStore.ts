@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Storage for opaque blobs such as encrypted attachments
+ * Implementations only ever see ciphertext and must stream rather than buffer whole blobs.
+ */
+export interface BlobStore {
+  /**
+   * Store a stream under a key; a stream that errors must leave nothing behind
+   */
+  put(key: string, body: Readable): Promise<void>;
+  get(key: string): Promise<Readable>;
+  /**
+   * Remove a blob; keys that do not exist are ignored
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Blobs as files under a directory on the local filesystem
+ */
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  async put(key: string, body: Readable): Promise<void> {
+    const target = this.resolve(key);
+    // Written aside and renamed, so a failed upload never shows up under its key
+    const partial = `${target}.${crypto.randomBytes(4).toString('hex')}.partial`;
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await pipeline(body, fs.createWriteStream(partial, { flags: 'wx' }));
+      await fs.promises.rename(partial, target);
+    } catch (error) {
+      await fs.promises.rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolve(key);
+
+    try {
+      await fs.promises.access(target);
+    } catch {
+      throw new AppError('Attachment content not found', 404, 'BLOB_NOT_FOUND');
+    }
+
+    return fs.createReadStream(target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    if (!/^[a-zA-Z0-9/_-]+$/.test(key) || key.split('/').includes('..')) {
+      throw new AppError('Invalid blob key', 400, 'INVALID_BLOB_KEY');
+    }
+    return path.join(this.root, key);
+  }
+}
+
+let blobStore: BlobStore | null = null;
+
+/**
+ * The blob store selected by BLOB_STORE
+ * Only `local` exists for now; an S3-compatible store plugs in here by implementing BlobStore.
+ */
+export const getBlobStore = (): BlobStore => {
+  if (!blobStore) {
+    const type = process.env.BLOB_STORE || 'local';
+
+    switch (type) {
+      case 'local':
+        blobStore = new LocalBlobStore(process.env.ATTACHMENT_DIR || path.join(process.cwd(), 'data', 'attachments'));
+        break;
+      default:
+        throw new Error(`Unsupported blob store: ${type}`);
+    }
+  }
+
+  return blobStore;
+};
@@ -0,0 +1,342 @@
+import mongoose from 'mongoose';
+import { OrganizationRole } from '../models/Organization';
+import { IOrganizationMember } from '../models/OrganizationMember';
+import { Collection, ICollection, ICollectionAccess } from '../models/Collection';
+import { OrganizationItem, IOrganizationItem } from '../models/OrganizationItem';
+import { VaultItemType } from '../models/VaultItem';
+import { OrganizationService } from './organizations';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Client-encrypted payload of a shared item
+ */
+export interface SharedCiphertext {
+  encryptedData: string;
+  iv: string;
+  tag: string;
+  algorithm?: 'aes' | 'xchacha';
+}
+
+/**
+ * Data key wrapped with a member's public key
+ */
+export interface MemberKey {
+  userId: string;
+  encryptedDataKey: string;
+}
+
+/**
+ * Data key of an existing item wrapped for a member being given access
+ */
+export interface ItemMemberKey extends MemberKey {
+  itemId: string;
+}
+
+/**
+ * A shared item as seen by one member, with only their own wrapped key
+ */
+export interface OrganizationItemView {
+  id: string;
+  collectionId: string;
+  type: VaultItemType;
+  encryptedData: string;
+  encryptedDataKey: string;
+  iv: string;
+  tag: string;
+  algorithm: 'aes' | 'xchacha';
+  readOnly: boolean;
+  createdBy: string;
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Collection Service
+ * Shares items inside an organization. Each item's data key is wrapped in the browser for every
+ * user in its collection's access list, so giving someone access means sending their wrapped
+ * copy of every item's key, and taking it away drops those copies.
+ */
+export class CollectionService {
+  static readonly MAX_ITEMS_PER_COLLECTION = 1000;
+
+  /**
+   * Collections the member can see: all of them for admins, the ones they belong to otherwise
+   */
+  static async list(member: IOrganizationMember): Promise<ICollection[]> {
+    const filter = OrganizationService.hasRole(member.role, OrganizationRole.ADMIN)
+      ? { organizationId: member.organizationId }
+      : { organizationId: member.organizationId, 'access.userId': member.userId };
+
+    return Collection.find(filter).sort({ name: 1 });
+  }
+
+  /**
+   * Create a collection with its creator as the only member
+   */
+  static async create(member: IOrganizationMember, name: string): Promise<ICollection> {
+    const collection = await Collection.create({
+      organizationId: member.organizationId,
+      name,
+      access: [{ userId: member.userId, readOnly: false }],
+    });
+
+    logger.info('Collection created', { organizationId: member.organizationId, collectionId: collection._id });
+
+    return collection;
+  }
+
+  static async rename(member: IOrganizationMember, collectionId: string, name: string): Promise<ICollection> {
+    const collection = await this.getManageable(member, collectionId);
+    collection.name = name;
+    await collection.save();
+
+    return collection;
+  }
+
+  /**
+   * Replace a collection's access list
+   * Every user added must come with their wrapped key for every item already in the collection.
+   */
+  static async setAccess(
+    member: IOrganizationMember,
+    collectionId: string,
+    access: Array<{ userId: string; readOnly: boolean }>,
+    keys: ItemMemberKey[] = []
+  ): Promise<ICollection> {
+    const collection = await this.getManageable(member, collectionId);
+    const userIds = access.map(entry => entry.userId);
+
+    if (userIds.length === 0) {
+      throw new AppError('A collection needs at least one member', 400, 'COLLECTION_EMPTY');
+    }
+    if (new Set(userIds).size !== userIds.length) {
+      throw new AppError('Each member can only be listed once', 400, 'VALIDATION_ERROR');
+    }
+    await OrganizationService.assertMembers(member.organizationId.toString(), userIds);
+
+    const current = collection.access.map(entry => entry.userId.toString());
+    const added = userIds.filter(userId => !current.includes(userId));
+    const removed = current.filter(userId => !userIds.includes(userId));
+
+    const items = await OrganizationItem.find({ collectionId: collection._id }).select('_id');
+    for (const item of items) {
+      for (const userId of added) {
+        if (!keys.some(key => key.itemId === item.id && key.userId === userId)) {
+          throw new AppError('Every item key must be wrapped for each new member', 400, 'KEYS_INCOMPLETE');
+        }
+      }
+    }
+
+    const changed = [...added, ...removed].map(userId => new mongoose.Types.ObjectId(userId));
+    await OrganizationItem.updateMany(
+      { collectionId: collection._id },
+      { $pull: { keys: { userId: { $in: changed } } } }
+    );
+    if (added.length > 0) {
+      await OrganizationItem.bulkWrite(items.map(item => ({
+        updateOne: {
+          filter: { _id: item._id },
+          update: {
+            $push: {
+              keys: {
+                $each: keys
+                  .filter(key => key.itemId === item.id && added.includes(key.userId))
+                  .map(key => ({ userId: new mongoose.Types.ObjectId(key.userId), encryptedDataKey: key.encryptedDataKey })),
+              },
+            },
+          },
+        },
+      })));
+    }
+
+    collection.access = access.map(entry => ({
+      userId: new mongoose.Types.ObjectId(entry.userId),
+      readOnly: entry.readOnly,
+    })) as ICollectionAccess[];
+    await collection.save();
+
+    logger.info('Collection access changed', { collectionId, added: added.length, removed: removed.length });
+
+    return collection;
+  }
+
+  /**
+   * Delete a collection and every item in it
+   */
+  static async delete(member: IOrganizationMember, collectionId: string): Promise<void> {
+    const collection = await this.getManageable(member, collectionId);
+
+    await OrganizationItem.deleteMany({ collectionId: collection._id });
+    await collection.deleteOne();
+
+    logger.info('Collection deleted', { organizationId: member.organizationId, collectionId });
+  }
+
+  /**
+   * Items of the collections the member belongs to
+   */
+  static async listItems(member: IOrganizationMember, collectionId?: string): Promise<OrganizationItemView[]> {
+    const collections = await Collection.find({
+      organizationId: member.organizationId,
+      'access.userId': member.userId,
+      ...(collectionId ? { _id: collectionId } : {}),
+    });
+
+    const items = await OrganizationItem.find({
+      collectionId: { $in: collections.map(collection => collection._id) },
+      'keys.userId': member.userId,
+    }).sort({ createdAt: -1 });
+
+    return items.map(item => this.toView(
+      item,
+      member,
+      collections.find(collection => collection._id.equals(item.collectionId))!
+    ));
+  }
+
+  /**
+   * Add an item whose data key is wrapped for everyone in the collection
+   */
+  static async createItem(
+    member: IOrganizationMember,
+    collectionId: string,
+    type: VaultItemType,
+    ciphertext: SharedCiphertext,
+    keys: MemberKey[]
+  ): Promise<OrganizationItemView> {
+    const collection = await this.getWritable(member, collectionId);
+    this.assertKeysCoverAccess(collection, keys);
+
+    if (await OrganizationItem.countDocuments({ collectionId: collection._id }) >= this.MAX_ITEMS_PER_COLLECTION) {
+      throw new AppError(`A collection can hold at most ${this.MAX_ITEMS_PER_COLLECTION} items`, 400, 'COLLECTION_FULL');
+    }
+
+    const item = await OrganizationItem.create({
+      organizationId: member.organizationId,
+      collectionId: collection._id,
+      type,
+      encryptedData: ciphertext.encryptedData,
+      iv: ciphertext.iv,
+      tag: ciphertext.tag,
+      algorithm: ciphertext.algorithm || 'aes',
+      keys,
+      createdBy: member.userId,
+      updatedBy: member.userId,
+    });
+
+    logger.info('Organization item created', { organizationId: member.organizationId, collectionId, itemId: item._id });
+
+    return this.toView(item, member, collection);
+  }
+
+  /**
+   * Replace an item's ciphertext; the client keeps the same data key so wrapped keys stay valid
+   */
+  static async updateItem(
+    member: IOrganizationMember,
+    itemId: string,
+    ciphertext: SharedCiphertext
+  ): Promise<OrganizationItemView> {
+    const item = await this.getItem(member, itemId);
+    const collection = await this.getWritable(member, item.collectionId.toString());
+
+    item.encryptedData = ciphertext.encryptedData;
+    item.iv = ciphertext.iv;
+    item.tag = ciphertext.tag;
+    item.algorithm = ciphertext.algorithm || item.algorithm;
+    item.updatedBy = member.userId;
+    await item.save();
+
+    return this.toView(item, member, collection);
+  }
+
+  static async deleteItem(member: IOrganizationMember, itemId: string): Promise<void> {
+    const item = await this.getItem(member, itemId);
+    await this.getWritable(member, item.collectionId.toString());
+
+    await item.deleteOne();
+
+    logger.info('Organization item deleted', { organizationId: member.organizationId, itemId });
+  }
+
+  /**
+   * Admins manage any collection, managers only those they belong to
+   */
+  private static async getManageable(member: IOrganizationMember, collectionId: string): Promise<ICollection> {
+    const collection = await this.getCollection(member, collectionId);
+
+    const allowed = OrganizationService.hasRole(member.role, OrganizationRole.ADMIN)
+      || (member.role === OrganizationRole.MANAGER && this.findAccess(collection, member) !== undefined);
+    if (!allowed) {
+      throw new AppError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS');
+    }
+
+    return collection;
+  }
+
+  private static async getWritable(member: IOrganizationMember, collectionId: string): Promise<ICollection> {
+    const collection = await this.getCollection(member, collectionId);
+    const access = this.findAccess(collection, member);
+
+    if (!access) {
+      throw new AppError('Collection not found', 404, 'COLLECTION_NOT_FOUND');
+    }
+    if (access.readOnly) {
+      throw new AppError('This collection is read-only for you', 403, 'READ_ONLY_COLLECTION');
+    }
+
+    return collection;
+  }
+
+  private static async getCollection(member: IOrganizationMember, collectionId: string): Promise<ICollection> {
+    const collection = await Collection.findOne({ _id: collectionId, organizationId: member.organizationId });
+    if (!collection) {
+      throw new AppError('Collection not found', 404, 'COLLECTION_NOT_FOUND');
+    }
+    return collection;
+  }
+
+  private static async getItem(member: IOrganizationMember, itemId: string): Promise<IOrganizationItem> {
+    const item = await OrganizationItem.findOne({ _id: itemId, organizationId: member.organizationId });
+    if (!item) {
+      throw new AppError('Item not found', 404, 'ITEM_NOT_FOUND');
+    }
+    return item;
+  }
+
+  private static findAccess(collection: ICollection, member: IOrganizationMember): ICollectionAccess | undefined {
+    return collection.access.find(entry => entry.userId.equals(member.userId));
+  }
+
+  /**
+   * A new item must be readable by exactly the users with access to its collection
+   */
+  private static assertKeysCoverAccess(collection: ICollection, keys: MemberKey[]): void {
+    const keyUserIds = keys.map(key => key.userId).sort();
+    const accessUserIds = collection.access.map(entry => entry.userId.toString()).sort();
+
+    if (keyUserIds.length !== accessUserIds.length || keyUserIds.some((userId, i) => userId !== accessUserIds[i])) {
+      throw new AppError('The data key must be wrapped for each collection member', 400, 'KEYS_INCOMPLETE');
+    }
+  }
+
+  private static toView(item: IOrganizationItem, member: IOrganizationMember, collection: ICollection): OrganizationItemView {
+    return {
+      id: item._id.toString(),
+      collectionId: item.collectionId.toString(),
+      type: item.type,
+      encryptedData: item.encryptedData,
+      encryptedDataKey: item.keys.find(key => key.userId.equals(member.userId))?.encryptedDataKey ?? '',
+      iv: item.iv,
+      tag: item.tag,
+      algorithm: item.algorithm,
+      readOnly: this.findAccess(collection, member)?.readOnly ?? true,
+      createdBy: item.createdBy.toString(),
+      updatedBy: item.updatedBy.toString(),
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+    };
+  }
+}
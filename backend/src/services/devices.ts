@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { Device, IDevice } from '../models/Device';
+import { AuditEventType } from '../models/AuditLog';
+import { SecurityDirection } from '../models/SecurityFeature';
+import { SecurityFeaturesService } from './securityFeatures';
+import { SessionService } from './sessions';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * What the server knows about the client making a request
+ */
+export interface DeviceContext {
+  deviceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Device Service (SOUTH - Dakshina)
+ * Keeps the registry of devices a user has signed in from and which of them are trusted.
+ */
+export class DeviceService {
+  /**
+   * Fingerprint a device from its client-held identifier
+   * Clients without one (scripts, API tools) fall back to their user agent.
+   */
+  static fingerprint(context: DeviceContext): string {
+    const source = context.deviceId ? `id:${context.deviceId}` : `ua:${context.userAgent || ''}`;
+    return crypto.createHash('sha256').update(source).digest('hex');
+  }
+
+  /**
+   * Whether the device has completed verification and has not been revoked
+   */
+  static async isTrusted(userId: string, context: DeviceContext): Promise<boolean> {
+    const device = await Device.findOne({ userId, fingerprint: this.fingerprint(context) });
+    return !!device && device.verifiedAt !== null && device.revokedAt === null;
+  }
+
+  /**
+   * Record that a device was seen, registering it unverified if new
+   */
+  static async recordSighting(userId: string, context: DeviceContext): Promise<IDevice> {
+    const now = new Date();
+    const device = await Device.findOneAndUpdate(
+      { userId, fingerprint: this.fingerprint(context) },
+      {
+        $set: {
+          ipAddress: context.ipAddress || null,
+          userAgent: context.userAgent || null,
+          lastSeenAt: now,
+        },
+        $setOnInsert: {
+          name: this.describeUserAgent(context.userAgent),
+          firstSeenAt: now,
+        },
+      },
+      { new: true, upsert: true }
+    );
+
+    return device!;
+  }
+
+  /**
+   * Mark a device as verified, restoring it if it had been revoked
+   */
+  static async trustDevice(userId: string, context: DeviceContext): Promise<IDevice> {
+    const device = await this.recordSighting(userId, context);
+
+    if (device.verifiedAt === null || device.revokedAt !== null) {
+      device.verifiedAt = new Date();
+      device.revokedAt = null;
+      await device.save();
+
+      await SecurityFeaturesService.logSecurityEvent(
+        userId,
+        AuditEventType.DEVICE_VERIFIED,
+        `Device verified: ${device.name}`,
+        { direction: SecurityDirection.SOUTH, deviceId: device._id, ipAddress: device.ipAddress }
+      );
+      await SecurityFeaturesService.syncDeviceBindingFeature(userId);
+    }
+
+    return device;
+  }
+
+  /**
+   * List a user's devices, most recently seen first
+   */
+  static async listDevices(userId: string): Promise<IDevice[]> {
+    return Device.find({ userId }).sort({ lastSeenAt: -1 });
+  }
+
+  /**
+   * Revoke a device and end every session opened from it
+   */
+  static async revokeDevice(userId: string, id: string): Promise<IDevice> {
+    const device = await Device.findOne({ _id: id, userId });
+    if (!device) {
+      throw new AppError('Device not found', 404, 'DEVICE_NOT_FOUND');
+    }
+
+    device.revokedAt = new Date();
+    device.verifiedAt = null;
+    await device.save();
+
+    await SessionService.revokeDeviceSessions(userId, device._id.toString());
+
+    await SecurityFeaturesService.logSecurityEvent(
+      userId,
+      AuditEventType.DEVICE_REVOKED,
+      `Device revoked: ${device.name}`,
+      { direction: SecurityDirection.SOUTH, deviceId: device._id }
+    );
+    await SecurityFeaturesService.syncDeviceBindingFeature(userId);
+
+    logger.info('Device revoked', { userId, deviceId: device._id });
+
+    return device;
+  }
+
+  /**
+   * Human readable name such as "Chrome on Windows"
+   */
+  static describeUserAgent(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\//, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+    ];
+    const systems: [RegExp, string][] = [
+      [/Windows/, 'Windows'],
+      [/iPhone|iPad/, 'iOS'],
+      [/Mac OS X/, 'macOS'],
+      [/Android/, 'Android'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) {
+      return `${browser} on ${system}`;
+    }
+    return (browser || system || userAgent.split(/[\s/]/)[0] || 'Unknown device').slice(0, 100);
+  }
+}
@@ -1,17 +1,22 @@
 import crypto from 'crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { CiphertextVersion } from '../models/VaultItem';
 import { logger } from '../utils/logger';
 
 /**
  * Encryption service implementing AES-256-GCM and XChaCha20-Poly1305
- * Provides envelope encryption for vault items
+ * Provides envelope encryption for vault items, and RSA-OAEP keypairs to wrap a data key for
+ * another user
  */
 export class EncryptionService {
   private static readonly ALGORITHM_AES = 'aes-256-gcm';
-  private static readonly ALGORITHM_XCHACHA = 'xchacha20-poly1305';
   private static readonly KEY_LENGTH = 32; // 256 bits
   private static readonly IV_LENGTH = 12; // 96 bits for GCM
   private static readonly XCHACHA_IV_LENGTH = 24; // 192 bits for XChaCha20
   private static readonly TAG_LENGTH = 16; // 128 bits for authentication tag
+  private static readonly AAD = Buffer.from('astadigbandhanam', 'utf8');
+  private static readonly RSA_MODULUS_LENGTH = 3072; // Matches the keypairs browsers generate
+  private static readonly RSA_OAEP_HASH = 'sha256';
 
   /**
    * Generate a cryptographically secure random key
@@ -41,8 +46,8 @@ export class EncryptionService {
   static encryptAES(data: string, key: Buffer): { encrypted: string; iv: string; tag: string } {
     try {
       const iv = this.generateIV('aes');
-      const cipher = crypto.createCipher(this.ALGORITHM_AES, key);
-      cipher.setAAD(Buffer.from('astadigbandhanam', 'utf8')); // Additional authenticated data
+      const cipher = crypto.createCipheriv(this.ALGORITHM_AES, key, iv, { authTagLength: this.TAG_LENGTH });
+      cipher.setAAD(this.AAD); // Additional authenticated data
       
       let encrypted = cipher.update(data, 'utf8', 'hex');
       encrypted += cipher.final('hex');
@@ -65,8 +70,13 @@ export class EncryptionService {
    */
   static decryptAES(encryptedData: { encrypted: string; iv: string; tag: string }, key: Buffer): string {
     try {
-      const decipher = crypto.createDecipher(this.ALGORITHM_AES, key);
-      decipher.setAAD(Buffer.from('astadigbandhanam', 'utf8'));
+      const decipher = crypto.createDecipheriv(
+        this.ALGORITHM_AES,
+        key,
+        Buffer.from(encryptedData.iv, 'hex'),
+        { authTagLength: this.TAG_LENGTH }
+      );
+      decipher.setAAD(this.AAD);
       decipher.setAuthTag(Buffer.from(encryptedData.tag, 'hex'));
       
       let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
@@ -80,28 +90,18 @@ export class EncryptionService {
   }
 
   /**
-   * Encrypt data using XChaCha20-Poly1305 (if available)
+   * Encrypt data using XChaCha20-Poly1305
+   * Node's OpenSSL has no XChaCha20, so this uses the audited pure-JS implementation from @noble/ciphers.
    */
   static encryptXChaCha(data: string, key: Buffer): { encrypted: string; iv: string; tag: string } {
     try {
-      // Fallback to AES if XChaCha20 is not available
-      if (!crypto.getCiphers().includes('xchacha20-poly1305')) {
-        logger.warn('XChaCha20-Poly1305 not available, falling back to AES-256-GCM');
-        return this.encryptAES(data, key);
-      }
-
       const iv = this.generateIV('xchacha');
-      const cipher = crypto.createCipher(this.ALGORITHM_XCHACHA, key);
-      
-      let encrypted = cipher.update(data, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-      
-      const tag = cipher.getAuthTag();
+      const sealed = xchacha20poly1305(key, iv, this.AAD).encrypt(Buffer.from(data, 'utf8'));
       
       return {
-        encrypted,
+        encrypted: Buffer.from(sealed.subarray(0, sealed.length - this.TAG_LENGTH)).toString('hex'),
         iv: iv.toString('hex'),
-        tag: tag.toString('hex'),
+        tag: Buffer.from(sealed.subarray(sealed.length - this.TAG_LENGTH)).toString('hex'),
       };
     } catch (error) {
       logger.error('XChaCha20 encryption failed:', error);
@@ -114,18 +114,13 @@ export class EncryptionService {
    */
   static decryptXChaCha(encryptedData: { encrypted: string; iv: string; tag: string }, key: Buffer): string {
     try {
-      // Fallback to AES if XChaCha20 is not available
-      if (!crypto.getCiphers().includes('xchacha20-poly1305')) {
-        return this.decryptAES(encryptedData, key);
-      }
-
-      const decipher = crypto.createDecipher(this.ALGORITHM_XCHACHA, key);
-      decipher.setAuthTag(Buffer.from(encryptedData.tag, 'hex'));
+      const sealed = Buffer.concat([
+        Buffer.from(encryptedData.encrypted, 'hex'),
+        Buffer.from(encryptedData.tag, 'hex'),
+      ]);
+      const decrypted = xchacha20poly1305(key, Buffer.from(encryptedData.iv, 'hex'), this.AAD).decrypt(sealed);
       
-      let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-      
-      return decrypted;
+      return Buffer.from(decrypted).toString('utf8');
     } catch (error) {
       logger.error('XChaCha20 decryption failed:', error);
       throw new Error('Decryption failed');
@@ -134,6 +129,7 @@ export class EncryptionService {
 
   /**
    * Envelope encryption: encrypt data with a data key, then encrypt the data key with master key
+   * Always produces the current ciphertext format.
    */
   static envelopeEncrypt(data: string, masterKey: Buffer, algorithm: 'aes' | 'xchacha' = 'aes'): {
     encryptedData: string;
@@ -151,11 +147,11 @@ export class EncryptionService {
         : this.encryptXChaCha(data, dataKey);
       
       // Encrypt the data key with the master key
-      const encryptedDataKey = this.encryptAES(dataKey.toString('hex'), masterKey);
+      const encryptedDataKey = this.wrapDataKey(dataKey, masterKey);
       
       return {
         encryptedData: encrypted.encrypted,
-        encryptedDataKey: encryptedDataKey.encrypted,
+        encryptedDataKey,
         iv: encrypted.iv,
         tag: encrypted.tag,
       };
@@ -174,16 +170,18 @@ export class EncryptionService {
     iv: string,
     tag: string,
     masterKey: Buffer,
-    algorithm: 'aes' | 'xchacha' = 'aes'
+    algorithm: 'aes' | 'xchacha' = 'aes',
+    version: CiphertextVersion = CiphertextVersion.V2
   ): string {
     try {
       // Decrypt the data key with the master key
-      const decryptedDataKeyHex = this.decryptAES(
-        { encrypted: encryptedDataKey, iv: '', tag: '' },
-        masterKey
-      );
-      const dataKey = Buffer.from(decryptedDataKeyHex, 'hex');
+      const dataKey = this.unwrapDataKey(encryptedDataKey, masterKey, version);
       
+      // Legacy items labelled xchacha were silently encrypted with AES
+      if (version === CiphertextVersion.LEGACY) {
+        return this.decryptLegacyAES({ encrypted: encryptedData, tag }, dataKey);
+      }
+
       // Decrypt the data with the data key
       const decrypted = algorithm === 'aes'
         ? this.decryptAES({ encrypted: encryptedData, iv, tag }, dataKey)
@@ -196,6 +194,216 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Wrap (encrypt) a data key with the master key as hex(iv || ciphertext || tag)
+   */
+  static wrapDataKey(dataKey: Buffer, masterKey: Buffer): string {
+    const { encrypted, iv, tag } = this.encryptAES(dataKey.toString('hex'), masterKey);
+    return iv + encrypted + tag;
+  }
+
+  /**
+   * Unwrap (decrypt) a data key with the master key
+   */
+  static unwrapDataKey(
+    encryptedDataKey: string,
+    masterKey: Buffer,
+    version: CiphertextVersion = CiphertextVersion.V2
+  ): Buffer {
+    if (version === CiphertextVersion.LEGACY) {
+      return this.unwrapLegacyDataKey(encryptedDataKey, masterKey);
+    }
+
+    const ivLength = this.IV_LENGTH * 2;
+    const tagLength = this.TAG_LENGTH * 2;
+    const decryptedDataKeyHex = this.decryptAES(
+      {
+        iv: encryptedDataKey.slice(0, ivLength),
+        encrypted: encryptedDataKey.slice(ivLength, encryptedDataKey.length - tagLength),
+        tag: encryptedDataKey.slice(encryptedDataKey.length - tagLength),
+      },
+      masterKey
+    );
+    return Buffer.from(decryptedDataKeyHex, 'hex');
+  }
+
+  /**
+   * Re-wrap a data key under a new master key without touching the data it protects
+   */
+  static rewrapDataKey(encryptedDataKey: string, oldMasterKey: Buffer, newMasterKey: Buffer): string {
+    try {
+      const dataKey = this.unwrapDataKey(encryptedDataKey, oldMasterKey);
+      return this.wrapDataKey(dataKey, newMasterKey);
+    } catch (error) {
+      logger.error('Data key re-wrap failed:', error);
+      throw new Error('Data key re-wrap failed');
+    }
+  }
+
+  /**
+   * Re-encrypt a legacy envelope in the current format under the same master key
+   */
+  static upgradeEnvelope(
+    encryptedData: string,
+    encryptedDataKey: string,
+    tag: string,
+    masterKey: Buffer,
+    algorithm: 'aes' | 'xchacha' = 'aes'
+  ): { encryptedData: string; encryptedDataKey: string; iv: string; tag: string } {
+    const data = this.envelopeDecrypt(encryptedData, encryptedDataKey, '', tag, masterKey, algorithm, CiphertextVersion.LEGACY);
+    return this.envelopeEncrypt(data, masterKey, algorithm);
+  }
+
+  /**
+   * Generate an RSA-OAEP keypair as base64 DER (SPKI public key, PKCS8 private key)
+   * The same encoding WebCrypto exports, so keys move freely between browser and server.
+   */
+  static generateKeyPair(): { publicKey: string; privateKey: string } {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: this.RSA_MODULUS_LENGTH,
+      publicKeyEncoding: { type: 'spki', format: 'der' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'der' },
+    });
+
+    return {
+      publicKey: publicKey.toString('base64'),
+      privateKey: privateKey.toString('base64'),
+    };
+  }
+
+  /**
+   * Check that a published public key is an RSA key at least as strong as the ones we generate
+   */
+  static isValidPublicKey(publicKey: string): boolean {
+    try {
+      const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+      return key.asymmetricKeyType === 'rsa'
+        && (key.asymmetricKeyDetails?.modulusLength ?? 0) >= this.RSA_MODULUS_LENGTH;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * SHA-256 of a public key's DER encoding, in groups of four hex digits
+   * Users compare it out of band to be sure the server handed them the right recipient's key.
+   */
+  static publicKeyFingerprint(publicKey: string): string {
+    const digest = crypto.createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('hex');
+    return digest.match(/.{4}/g)!.join(' ');
+  }
+
+  /**
+   * Wrap a data key for the holder of a public key, as base64 RSA-OAEP with SHA-256
+   */
+  static wrapKeyForRecipient(dataKey: Buffer, publicKey: string): string {
+    try {
+      return crypto.publicEncrypt(
+        {
+          key: crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' }),
+          padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+          oaepHash: this.RSA_OAEP_HASH,
+        },
+        dataKey
+      ).toString('base64');
+    } catch (error) {
+      logger.error('Data key wrap for recipient failed:', error);
+      throw new Error('Data key wrap failed');
+    }
+  }
+
+  /**
+   * Unwrap a data key wrapped for our public key
+   */
+  static unwrapKeyWithPrivateKey(wrappedKey: string, privateKey: string): Buffer {
+    try {
+      return crypto.privateDecrypt(
+        {
+          key: crypto.createPrivateKey({ key: Buffer.from(privateKey, 'base64'), format: 'der', type: 'pkcs8' }),
+          padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+          oaepHash: this.RSA_OAEP_HASH,
+        },
+        Buffer.from(wrappedKey, 'base64')
+      );
+    } catch (error) {
+      logger.error('Data key unwrap with private key failed:', error);
+      throw new Error('Data key unwrap failed');
+    }
+  }
+
+  /**
+   * Encrypt a private key under a master key as hex(iv || ciphertext || tag)
+   */
+  static wrapPrivateKey(privateKey: string, masterKey: Buffer): string {
+    const { encrypted, iv, tag } = this.encryptAES(privateKey, masterKey);
+    return iv + encrypted + tag;
+  }
+
+  /**
+   * Decrypt a private key wrapped by wrapPrivateKey
+   */
+  static unwrapPrivateKey(encryptedPrivateKey: string, masterKey: Buffer): string {
+    const ivLength = this.IV_LENGTH * 2;
+    const tagLength = this.TAG_LENGTH * 2;
+    return this.decryptAES(
+      {
+        iv: encryptedPrivateKey.slice(0, ivLength),
+        encrypted: encryptedPrivateKey.slice(ivLength, encryptedPrivateKey.length - tagLength),
+        tag: encryptedPrivateKey.slice(encryptedPrivateKey.length - tagLength),
+      },
+      masterKey
+    );
+  }
+
+  /**
+   * Key and IV that crypto.createCipher derived from its key argument
+   * (OpenSSL EVP_BytesToKey with MD5, one round and no salt)
+   */
+  private static deriveLegacyKeyAndIV(password: Buffer): { key: Buffer; iv: Buffer } {
+    const blocks: Buffer[] = [];
+    let block = Buffer.alloc(0);
+    while (blocks.length * 16 < this.KEY_LENGTH + this.IV_LENGTH) {
+      block = crypto.createHash('md5').update(Buffer.concat([block, password])).digest();
+      blocks.push(block);
+    }
+
+    const material = Buffer.concat(blocks);
+    return {
+      key: material.subarray(0, this.KEY_LENGTH),
+      iv: material.subarray(this.KEY_LENGTH, this.KEY_LENGTH + this.IV_LENGTH),
+    };
+  }
+
+  /**
+   * Decrypt data written by the createCipher-based encryptAES; the stored IV was never used
+   */
+  private static decryptLegacyAES(encryptedData: { encrypted: string; tag: string }, key: Buffer): string {
+    const legacy = this.deriveLegacyKeyAndIV(key);
+    const decipher = crypto.createDecipheriv(this.ALGORITHM_AES, legacy.key, legacy.iv, { authTagLength: this.TAG_LENGTH });
+    decipher.setAAD(this.AAD);
+    decipher.setAuthTag(Buffer.from(encryptedData.tag, 'hex'));
+
+    return decipher.update(encryptedData.encrypted, 'hex', 'utf8') + decipher.final('utf8');
+  }
+
+  /**
+   * Unwrap a legacy data key, whose tag was discarded
+   * GCM is CTR underneath, so the key stream starts at counter 2 after the IV. Without a tag
+   * the result is checked for the expected hex data key instead; the item's own tag then
+   * authenticates the data.
+   */
+  private static unwrapLegacyDataKey(encryptedDataKey: string, masterKey: Buffer): Buffer {
+    const legacy = this.deriveLegacyKeyAndIV(masterKey);
+    const counter = Buffer.concat([legacy.iv, Buffer.from([0, 0, 0, 2])]);
+    const decipher = crypto.createDecipheriv('aes-256-ctr', legacy.key, counter);
+
+    const decryptedDataKeyHex = decipher.update(encryptedDataKey, 'hex', 'latin1') + decipher.final('latin1');
+    if (!/^[0-9a-f]{64}$/.test(decryptedDataKeyHex)) {
+      throw new Error('Invalid legacy data key');
+    }
+    return Buffer.from(decryptedDataKeyHex, 'hex');
+  }
+
   /**
    * Generate a secure random salt
    */
@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+import { Folder, IFolder, FolderDeletePolicy } from '../models/Folder';
+import { User } from '../models/User';
+import { VaultItem } from '../models/VaultItem';
+import { TrashService } from './trash';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Folder Service
+ * Organizes vault items in a tree of folders whose names only the client can read.
+ */
+export class FolderService {
+  static readonly MAX_DEPTH = 8;
+  static readonly MAX_FOLDERS = 1000;
+
+  /**
+   * Every folder of a user; the client builds the tree from parentId
+   */
+  static async list(userId: string): Promise<IFolder[]> {
+    return Folder.find({ userId }).sort({ createdAt: 1 });
+  }
+
+  static async create(userId: string, encryptedName: string, parentId: string | null = null): Promise<IFolder> {
+    if (await Folder.countDocuments({ userId }) >= this.MAX_FOLDERS) {
+      throw new AppError(`A vault can hold at most ${this.MAX_FOLDERS} folders`, 400, 'FOLDER_LIMIT_REACHED');
+    }
+
+    if (parentId) {
+      const ancestors = await this.getAncestorIds(userId, parentId);
+      if (ancestors.length + 1 >= this.MAX_DEPTH) {
+        throw new AppError(`Folders can be nested at most ${this.MAX_DEPTH} levels deep`, 400, 'FOLDER_TOO_DEEP');
+      }
+    }
+
+    const folder = await Folder.create({ userId, parentId, encryptedName });
+
+    logger.info('Folder created', { userId, folderId: folder._id });
+
+    return folder;
+  }
+
+  static async rename(userId: string, folderId: string, encryptedName: string): Promise<IFolder> {
+    const folder = await this.getFolder(userId, folderId);
+    folder.encryptedName = encryptedName;
+    await folder.save();
+
+    return folder;
+  }
+
+  /**
+   * Move a folder under another one, or to the top level with a null parent
+   */
+  static async move(userId: string, folderId: string, parentId: string | null): Promise<IFolder> {
+    const folder = await this.getFolder(userId, folderId);
+
+    if (parentId) {
+      // A folder cannot end up inside itself
+      const ancestors = await this.getAncestorIds(userId, parentId);
+      if (parentId === folderId || ancestors.includes(folderId)) {
+        throw new AppError('A folder cannot be moved into itself', 400, 'FOLDER_CYCLE');
+      }
+
+      const subtreeDepth = await this.getSubtreeDepth(userId, folderId);
+      if (ancestors.length + 1 + subtreeDepth > this.MAX_DEPTH) {
+        throw new AppError(`Folders can be nested at most ${this.MAX_DEPTH} levels deep`, 400, 'FOLDER_TOO_DEEP');
+      }
+    }
+
+    folder.parentId = parentId ? new mongoose.Types.ObjectId(parentId) : null;
+    await folder.save();
+
+    logger.info('Folder moved', { userId, folderId, parentId });
+
+    return folder;
+  }
+
+  /**
+   * Delete a folder, handling its contents according to the policy
+   */
+  static async delete(
+    userId: string,
+    folderId: string,
+    policy: FolderDeletePolicy = FolderDeletePolicy.MOVE_TO_PARENT
+  ): Promise<{ movedItems: number; trashedItems: number }> {
+    const folder = await this.getFolder(userId, folderId);
+
+    if (policy === FolderDeletePolicy.TRASH) {
+      const folderIds = [folder._id, ...await this.getDescendantIds(userId, folderId)];
+      const user = await User.findById(userId);
+      const deletedAt = new Date();
+      const retentionDays = user?.trashRetentionDays ?? TrashService.DEFAULT_RETENTION_DAYS;
+
+      const result = await VaultItem.updateMany(
+        { userId, folderId: { $in: folderIds }, isDeleted: false },
+        { $set: { isDeleted: true, deletedAt, purgeAt: new Date(deletedAt.getTime() + retentionDays * DAY_MS) } }
+      );
+      await Folder.deleteMany({ userId, _id: { $in: folderIds } });
+
+      logger.info('Folder deleted with its items', { userId, folderId, trashedItems: result.modifiedCount });
+
+      return { movedItems: 0, trashedItems: result.modifiedCount };
+    }
+
+    // Trashed items follow too, so restoring one puts it back in a folder that still exists
+    const result = await VaultItem.updateMany(
+      { userId, folderId: folder._id, isDeleted: { $in: [true, false] } },
+      { $set: { folderId: folder.parentId } }
+    );
+    await Folder.updateMany({ userId, parentId: folder._id }, { $set: { parentId: folder.parentId } });
+    await folder.deleteOne();
+
+    logger.info('Folder deleted', { userId, folderId, movedItems: result.modifiedCount });
+
+    return { movedItems: result.modifiedCount, trashedItems: 0 };
+  }
+
+  /**
+   * Check that a folder exists and belongs to the user before filing an item in it
+   */
+  static async assertFolder(userId: string, folderId: string | null | undefined): Promise<void> {
+    if (folderId) {
+      await this.getFolder(userId, folderId);
+    }
+  }
+
+  private static async getFolder(userId: string, folderId: string): Promise<IFolder> {
+    const folder = await Folder.findOne({ _id: folderId, userId });
+    if (!folder) {
+      throw new AppError('Folder not found', 404, 'FOLDER_NOT_FOUND');
+    }
+    return folder;
+  }
+
+  /**
+   * Ids from the folder's parent up to the top level
+   */
+  private static async getAncestorIds(userId: string, folderId: string): Promise<string[]> {
+    const ancestors: string[] = [];
+    let folder: IFolder | null = await this.getFolder(userId, folderId);
+
+    while (folder?.parentId && ancestors.length <= this.MAX_DEPTH) {
+      ancestors.push(folder.parentId.toString());
+      folder = await Folder.findOne({ _id: folder.parentId, userId });
+    }
+
+    return ancestors;
+  }
+
+  private static async getDescendantIds(userId: string, folderId: string): Promise<string[]> {
+    const folders = await Folder.find({ userId }).select('parentId');
+    const descendants: string[] = [];
+    let level = [folderId];
+
+    while (level.length > 0) {
+      level = folders
+        .filter(folder => folder.parentId && level.includes(folder.parentId.toString()))
+        .map(folder => folder._id.toString());
+      descendants.push(...level);
+    }
+
+    return descendants;
+  }
+
+  /**
+   * Number of levels in a folder's subtree, counting the folder itself
+   */
+  private static async getSubtreeDepth(userId: string, folderId: string): Promise<number> {
+    const folders = await Folder.find({ userId }).select('parentId');
+    let depth = 0;
+    let level = [folderId];
+
+    while (level.length > 0) {
+      depth += 1;
+      level = folders
+        .filter(folder => folder.parentId && level.includes(folder.parentId.toString()))
+        .map(folder => folder._id.toString());
+    }
+
+    return depth;
+  }
+}
@@ -0,0 +1,103 @@
+import argon2 from 'argon2';
+import { IKdfConfig, KdfAlgorithm } from '../models/User';
+import { EncryptionService } from './encryption';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * KDF Service (EAST - Purva)
+ * Derives master keys under versioned, per-user parameters. New accounts use Argon2id;
+ * accounts created earlier keep PBKDF2 until their next unlock re-wraps the vault key
+ * under the current parameters.
+ */
+export class KdfService {
+  private static readonly KEY_LENGTH = 32; // 256 bits
+
+  // What every account used before parameters were stored per user
+  static readonly LEGACY: IKdfConfig = {
+    algorithm: KdfAlgorithm.PBKDF2_SHA512,
+    iterations: 100000,
+    memory: null,
+    parallelism: null,
+    version: 1,
+  };
+
+  static readonly CURRENT: IKdfConfig = {
+    algorithm: KdfAlgorithm.ARGON2ID,
+    iterations: 3,
+    memory: 2 ** 16, // 64 MB
+    parallelism: 4,
+    version: 2,
+  };
+
+  // Clients may pick stronger parameters, never weaker or absurdly expensive ones
+  private static readonly LIMITS = {
+    [KdfAlgorithm.PBKDF2_SHA512]: { iterations: [100000, 2000000] },
+    [KdfAlgorithm.ARGON2ID]: { iterations: [2, 10], memory: [2 ** 14, 2 ** 20], parallelism: [1, 16] },
+  };
+
+  /**
+   * Derive a 256-bit key from a password
+   */
+  static async deriveKey(password: string, salt: Buffer, config: IKdfConfig): Promise<Buffer> {
+    if (config.algorithm === KdfAlgorithm.ARGON2ID) {
+      return argon2.hash(password, {
+        type: argon2.argon2id,
+        salt,
+        timeCost: config.iterations,
+        memoryCost: config.memory!,
+        parallelism: config.parallelism!,
+        hashLength: this.KEY_LENGTH,
+        raw: true,
+      });
+    }
+
+    return EncryptionService.deriveKeyFromPassword(password, salt, config.iterations);
+  }
+
+  /**
+   * Check parameters sent by a client before storing them
+   * The version is derived from the parameters rather than taken from the client, so weak
+   * parameters cannot be passed off as current and escape the upgrade on next unlock.
+   */
+  static validate(config: Omit<IKdfConfig, 'version'> & { version?: number }): IKdfConfig {
+    const inRange = (value: number | null, [min, max]: number[]) =>
+      value !== null && Number.isInteger(value) && value >= min && value <= max;
+
+    const valid = config.algorithm === KdfAlgorithm.ARGON2ID
+      ? inRange(config.iterations, this.LIMITS[KdfAlgorithm.ARGON2ID].iterations)
+        && inRange(config.memory, this.LIMITS[KdfAlgorithm.ARGON2ID].memory)
+        && inRange(config.parallelism, this.LIMITS[KdfAlgorithm.ARGON2ID].parallelism)
+      : config.algorithm === KdfAlgorithm.PBKDF2_SHA512
+        && inRange(config.iterations, this.LIMITS[KdfAlgorithm.PBKDF2_SHA512].iterations);
+
+    if (!valid) {
+      throw new AppError('Unsupported key derivation parameters', 400, 'INVALID_KDF_PARAMETERS');
+    }
+
+    return {
+      algorithm: config.algorithm,
+      iterations: config.iterations,
+      memory: config.algorithm === KdfAlgorithm.ARGON2ID ? config.memory : null,
+      parallelism: config.algorithm === KdfAlgorithm.ARGON2ID ? config.parallelism : null,
+      version: this.versionOf(config),
+    };
+  }
+
+  /**
+   * Argon2id at least as strong as the current parameters is current, anything else predates it
+   */
+  private static versionOf(config: Omit<IKdfConfig, 'version'>): number {
+    const isCurrent = config.algorithm === KdfAlgorithm.ARGON2ID
+      && config.iterations >= this.CURRENT.iterations
+      && config.memory! >= this.CURRENT.memory!;
+
+    return isCurrent ? this.CURRENT.version : this.LEGACY.version;
+  }
+
+  /**
+   * Whether a user's parameters predate the current ones
+   */
+  static isOutdated(config: IKdfConfig): boolean {
+    return config.version < this.CURRENT.version;
+  }
+}
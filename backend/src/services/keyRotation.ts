@@ -0,0 +1,331 @@
+import { User, IUser } from '../models/User';
+import { VaultItem, IVaultItem, CiphertextVersion } from '../models/VaultItem';
+import { KeyRotation, IKeyRotation, KeyRotationStatus } from '../models/KeyRotation';
+import { SessionRevocationReason } from '../models/Session';
+import { AuthService } from './auth';
+import { EncryptionService } from './encryption';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Key Rotation Service
+ * Re-wraps every vault item's data key when the master password changes.
+ *
+ * Rotation is staged: each item gets its data key re-wrapped under the new master key
+ * into `pendingEncryptedDataKey` while the live key stays untouched. The single atomic
+ * update of the user's salt, hash and `masterKeyVersion` is the commit point, after which
+ * staged keys are promoted. A crash before commit leaves the old master key valid, a crash
+ * after commit is finished by resuming, and readers pick the right key via `keyVersion`.
+ *
+ * Items still in the legacy ciphertext format are re-encrypted under the current master key
+ * before staging, since their wrapped data keys carry no IV or tag of their own to re-wrap.
+ */
+export class KeyRotationService {
+  private static readonly BATCH_SIZE = 100;
+
+  /**
+   * Start a new master password rotation and run it to completion
+   * Once committed, every session other than `currentSessionId` is signed out.
+   */
+  static async startRotation(
+    userId: string,
+    currentMasterPassword: string,
+    newMasterPassword: string,
+    currentSessionId?: string
+  ): Promise<IKeyRotation> {
+    const user = await this.getUser(userId);
+    await this.verifyCurrentMasterPassword(user, currentMasterPassword);
+
+    const active = await this.getActiveRotation(userId);
+    if (active?.status === KeyRotationStatus.COMMITTED) {
+      throw new AppError(
+        'A previous master password change is still being applied, resume it first',
+        409,
+        'KEY_ROTATION_IN_PROGRESS'
+      );
+    }
+
+    // Abandon any unfinished staging and discard its re-wrapped keys
+    if (active) {
+      active.status = KeyRotationStatus.FAILED;
+      active.error = 'Superseded by a new master password change';
+      await active.save();
+    }
+    await VaultItem.updateMany(
+      { userId, pendingKeyVersion: { $ne: null } },
+      { $set: { pendingEncryptedDataKey: null, pendingKeyVersion: null } }
+    );
+
+    const rotation = await KeyRotation.create({
+      userId,
+      status: KeyRotationStatus.STAGING,
+      fromKeyVersion: user.masterKeyVersion,
+      toKeyVersion: user.masterKeyVersion + 1,
+      newMasterPasswordHash: await AuthService.hashPassword(newMasterPassword),
+      newMasterKeySalt: EncryptionService.generateSalt().toString('hex'),
+      totalItems: await this.countItems(userId),
+      processedItems: 0,
+    });
+
+    logger.info('Master key rotation started', { userId, rotationId: rotation._id });
+
+    return this.run(rotation, user, currentMasterPassword, newMasterPassword, currentSessionId);
+  }
+
+  /**
+   * Resume an interrupted rotation
+   * Staging needs both passwords again because keys are never persisted.
+   */
+  static async resumeRotation(
+    userId: string,
+    currentMasterPassword: string,
+    newMasterPassword: string,
+    currentSessionId?: string
+  ): Promise<IKeyRotation> {
+    const user = await this.getUser(userId);
+    const rotation = await this.getActiveRotation(userId);
+
+    if (!rotation) {
+      throw new AppError('No master password change to resume', 404, 'KEY_ROTATION_NOT_FOUND');
+    }
+
+    if (rotation.status === KeyRotationStatus.STAGING) {
+      await this.verifyCurrentMasterPassword(user, currentMasterPassword);
+    }
+
+    const isNewPasswordValid = await AuthService.verifyPassword(newMasterPassword, rotation.newMasterPasswordHash);
+    if (!isNewPasswordValid) {
+      throw new AppError('New master password does not match the pending change', 400, 'INVALID_NEW_MASTER_PASSWORD');
+    }
+
+    logger.info('Master key rotation resumed', { userId, rotationId: rotation._id, status: rotation.status });
+
+    return this.run(rotation, user, currentMasterPassword, newMasterPassword, currentSessionId);
+  }
+
+  /**
+   * Get the most recent rotation for progress reporting
+   */
+  static async getLatestRotation(userId: string): Promise<IKeyRotation | null> {
+    return KeyRotation.findOne({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Reject vault writes while data keys are being re-wrapped
+   */
+  static async assertNoRotationInProgress(userId: string): Promise<void> {
+    const active = await this.getActiveRotation(userId);
+    if (active) {
+      throw new AppError(
+        'Vault is locked while the master password change completes',
+        409,
+        'KEY_ROTATION_IN_PROGRESS'
+      );
+    }
+  }
+
+  /**
+   * Select the wrapped data key that matches the user's current master key
+   */
+  static resolveEncryptedDataKey(item: IVaultItem, masterKeyVersion: number): string {
+    if (item.keyVersion !== masterKeyVersion
+      && item.pendingKeyVersion === masterKeyVersion
+      && item.pendingEncryptedDataKey) {
+      return item.pendingEncryptedDataKey;
+    }
+    return item.encryptedDataKey;
+  }
+
+  /**
+   * Drive a rotation through its remaining phases
+   */
+  private static async run(
+    rotation: IKeyRotation,
+    user: IUser,
+    currentMasterPassword: string,
+    newMasterPassword: string,
+    currentSessionId?: string
+  ): Promise<IKeyRotation> {
+    try {
+      if (rotation.status === KeyRotationStatus.STAGING) {
+        const oldMasterKey = await AuthService.generateMasterKey(currentMasterPassword, user.masterKeySalt, user.kdf);
+        const newMasterKey = await AuthService.generateMasterKey(newMasterPassword, rotation.newMasterKeySalt, user.kdf);
+
+        await this.upgradeLegacyItems(rotation, oldMasterKey);
+        await this.stageItems(rotation, oldMasterKey, newMasterKey);
+        await this.commit(rotation, currentSessionId);
+      }
+
+      await this.promote(rotation);
+      return rotation;
+    } catch (error) {
+      // Only staging can fail safely; a committed rotation stays resumable
+      if (rotation.status === KeyRotationStatus.STAGING) {
+        rotation.status = KeyRotationStatus.FAILED;
+        rotation.error = error instanceof Error ? error.message : 'Unknown error';
+        await rotation.save();
+      }
+
+      logger.error('Master key rotation failed:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError('Master password change failed', 500, 'KEY_ROTATION_ERROR');
+    }
+  }
+
+  /**
+   * Re-encrypt legacy-format items in the current format, still under the old master key
+   * Each item stays readable throughout, so this is safe to interrupt and repeat.
+   */
+  private static async upgradeLegacyItems(rotation: IKeyRotation, masterKey: Buffer): Promise<void> {
+    const filter = {
+      userId: rotation.userId,
+      isDeleted: { $in: [true, false] },
+      clientEncrypted: false,
+      keyVersion: rotation.fromKeyVersion,
+      encryptionVersion: CiphertextVersion.LEGACY,
+    };
+
+    for (;;) {
+      const batch = await VaultItem.find(filter).limit(this.BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      await VaultItem.bulkWrite(batch.map(item => ({
+        updateOne: {
+          filter: { _id: item._id, encryptionVersion: CiphertextVersion.LEGACY },
+          update: {
+            $set: {
+              ...EncryptionService.upgradeEnvelope(item.encryptedData, item.encryptedDataKey, item.tag, masterKey, item.algorithm),
+              encryptionVersion: CiphertextVersion.V2,
+            },
+          },
+        },
+      })));
+    }
+
+    logger.info('Legacy vault items re-encrypted', { userId: rotation.userId, rotationId: rotation._id });
+  }
+
+  /**
+   * Re-wrap every not-yet-staged data key in batches, recording progress as it goes
+   */
+  private static async stageItems(rotation: IKeyRotation, oldMasterKey: Buffer, newMasterKey: Buffer): Promise<void> {
+    const filter = {
+      userId: rotation.userId,
+      isDeleted: { $in: [true, false] },
+      keyVersion: rotation.fromKeyVersion,
+      pendingKeyVersion: { $ne: rotation.toKeyVersion },
+    };
+
+    // Re-count so items created before the lock engaged are included
+    rotation.totalItems = await this.countItems(rotation.userId.toString());
+    rotation.processedItems = rotation.totalItems - await VaultItem.countDocuments(filter);
+    await rotation.save();
+
+    for (;;) {
+      const batch = await VaultItem.find(filter).limit(this.BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      await VaultItem.bulkWrite(batch.map(item => ({
+        updateOne: {
+          filter: { _id: item._id },
+          update: {
+            $set: {
+              pendingEncryptedDataKey: EncryptionService.rewrapDataKey(item.encryptedDataKey, oldMasterKey, newMasterKey),
+              pendingKeyVersion: rotation.toKeyVersion,
+            },
+          },
+        },
+      })));
+
+      rotation.processedItems += batch.length;
+      await rotation.save();
+    }
+  }
+
+  /**
+   * Atomically switch the user to the new master key, then sign out everywhere else
+   */
+  private static async commit(rotation: IKeyRotation, currentSessionId?: string): Promise<void> {
+    const updated = await User.findOneAndUpdate(
+      { _id: rotation.userId, masterKeyVersion: rotation.fromKeyVersion },
+      {
+        $set: {
+          masterPassword: rotation.newMasterPasswordHash,
+          masterKeySalt: rotation.newMasterKeySalt,
+          masterKeyVersion: rotation.toKeyVersion,
+        },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      throw new AppError('Master key changed during rotation', 409, 'KEY_ROTATION_CONFLICT');
+    }
+
+    rotation.status = KeyRotationStatus.COMMITTED;
+    rotation.committedAt = new Date();
+    await rotation.save();
+
+    logger.info('Master key rotation committed', { userId: rotation.userId, rotationId: rotation._id });
+
+    await AuthService.revokeAllAccess(rotation.userId.toString(), SessionRevocationReason.PASSWORD_CHANGE, currentSessionId);
+  }
+
+  /**
+   * Promote staged data keys to live ones
+   */
+  private static async promote(rotation: IKeyRotation): Promise<void> {
+    await VaultItem.updateMany(
+      { userId: rotation.userId, pendingKeyVersion: rotation.toKeyVersion },
+      [
+        {
+          $set: {
+            encryptedDataKey: '$pendingEncryptedDataKey',
+            keyVersion: '$pendingKeyVersion',
+            pendingEncryptedDataKey: null,
+            pendingKeyVersion: null,
+          },
+        },
+      ]
+    );
+
+    rotation.status = KeyRotationStatus.COMPLETED;
+    rotation.processedItems = rotation.totalItems;
+    rotation.completedAt = new Date();
+    await rotation.save();
+
+    logger.info('Master key rotation completed', { userId: rotation.userId, rotationId: rotation._id });
+  }
+
+  private static async getUser(userId: string): Promise<IUser> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+
+  private static async verifyCurrentMasterPassword(user: IUser, currentMasterPassword: string): Promise<void> {
+    const isValid = await AuthService.verifyPassword(currentMasterPassword, user.masterPassword);
+    if (!isValid) {
+      throw new AppError('Current master password is incorrect', 400, 'INVALID_CURRENT_MASTER_PASSWORD');
+    }
+  }
+
+  private static async getActiveRotation(userId: string): Promise<IKeyRotation | null> {
+    return KeyRotation.findOne({
+      userId,
+      status: { $in: [KeyRotationStatus.STAGING, KeyRotationStatus.COMMITTED] },
+    }).sort({ createdAt: -1 });
+  }
+
+  private static async countItems(userId: string): Promise<number> {
+    return VaultItem.countDocuments({ userId, isDeleted: { $in: [true, false] } });
+  }
+}
@@ -0,0 +1,254 @@
+import { Organization, IOrganization, OrganizationRole } from '../models/Organization';
+import { OrganizationMember, IOrganizationMember } from '../models/OrganizationMember';
+import { Collection } from '../models/Collection';
+import { OrganizationItem } from '../models/OrganizationItem';
+import { User } from '../models/User';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  [OrganizationRole.OWNER]: 3,
+  [OrganizationRole.ADMIN]: 2,
+  [OrganizationRole.MANAGER]: 1,
+  [OrganizationRole.MEMBER]: 0,
+};
+
+/**
+ * An organization as seen by one of its members
+ */
+export interface OrganizationSummary {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  memberCount: number;
+  createdAt: Date;
+}
+
+/**
+ * A member with the public key data keys are wrapped for
+ */
+export interface OrganizationMemberInfo {
+  userId: string;
+  email: string;
+  role: OrganizationRole;
+  publicKey: string | null;
+  joinedAt: Date;
+}
+
+/**
+ * Organization Service
+ * Manages organizations and their members. Items are shared through collections; see
+ * CollectionService. Every member needs a published keypair, since shared data keys are
+ * wrapped with members' public keys.
+ */
+export class OrganizationService {
+  static readonly MAX_MEMBERS = 500;
+
+  /**
+   * Whether a role is at least as privileged as another
+   */
+  static hasRole(role: OrganizationRole, minimum: OrganizationRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[minimum];
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  static async listForUser(userId: string): Promise<OrganizationSummary[]> {
+    const memberships = await OrganizationMember.find({ userId });
+    const organizationIds = memberships.map(membership => membership.organizationId);
+
+    const [organizations, counts] = await Promise.all([
+      Organization.find({ _id: { $in: organizationIds } }).sort({ name: 1 }),
+      OrganizationMember.aggregate<{ _id: string; count: number }>([
+        { $match: { organizationId: { $in: organizationIds } } },
+        { $group: { _id: '$organizationId', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    return organizations.map(organization => ({
+      id: organization._id.toString(),
+      name: organization.name,
+      role: memberships.find(membership => membership.organizationId.equals(organization._id))!.role,
+      memberCount: counts.find(count => organization._id.equals(count._id))?.count ?? 0,
+      createdAt: organization.createdAt,
+    }));
+  }
+
+  /**
+   * Create an organization owned by the user
+   */
+  static async create(userId: string, name: string): Promise<IOrganization> {
+    await this.assertKeyPair(userId);
+
+    const organization = await Organization.create({ name, createdBy: userId });
+    await OrganizationMember.create({ organizationId: organization._id, userId, role: OrganizationRole.OWNER });
+
+    logger.info('Organization created', { userId, organizationId: organization._id });
+
+    return organization;
+  }
+
+  static async rename(organizationId: string, name: string): Promise<IOrganization> {
+    const organization = await Organization.findById(organizationId);
+    if (!organization) {
+      throw new AppError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND');
+    }
+
+    organization.name = name;
+    await organization.save();
+
+    return organization;
+  }
+
+  /**
+   * Delete an organization with its collections and items
+   */
+  static async delete(organizationId: string): Promise<void> {
+    await OrganizationItem.deleteMany({ organizationId });
+    await Collection.deleteMany({ organizationId });
+    await OrganizationMember.deleteMany({ organizationId });
+    await Organization.deleteOne({ _id: organizationId });
+
+    logger.info('Organization deleted', { organizationId });
+  }
+
+  static async listMembers(organizationId: string): Promise<OrganizationMemberInfo[]> {
+    const members = await OrganizationMember.find({ organizationId }).sort({ createdAt: 1 });
+    const users = await User.find({ _id: { $in: members.map(member => member.userId) } }).select('email publicKey');
+
+    return members.map((member) => {
+      const user = users.find(candidate => candidate._id.equals(member.userId));
+      return {
+        userId: member.userId.toString(),
+        email: user?.email ?? '',
+        role: member.role,
+        publicKey: user?.publicKey ?? null,
+        joinedAt: member.createdAt,
+      };
+    });
+  }
+
+  /**
+   * Add a registered user to the organization
+   * Access to items is granted separately, per collection.
+   */
+  static async addMember(
+    actor: IOrganizationMember,
+    email: string,
+    role: OrganizationRole
+  ): Promise<IOrganizationMember> {
+    this.assertCanManage(actor, role);
+    const organizationId = actor.organizationId;
+
+    if (await OrganizationMember.countDocuments({ organizationId }) >= this.MAX_MEMBERS) {
+      throw new AppError(`An organization can have at most ${this.MAX_MEMBERS} members`, 400, 'MEMBER_LIMIT_REACHED');
+    }
+
+    const user = await User.findOne({ email: email.toLowerCase().trim(), isActive: true });
+    if (!user) {
+      throw new AppError('No user with that email', 404, 'USER_NOT_FOUND');
+    }
+    await this.assertKeyPair(user._id.toString());
+
+    if (await OrganizationMember.exists({ organizationId, userId: user._id })) {
+      throw new AppError('User is already a member', 409, 'MEMBER_EXISTS');
+    }
+
+    const member = await OrganizationMember.create({ organizationId, userId: user._id, role });
+
+    logger.info('Organization member added', { organizationId, userId: user._id, role, addedBy: actor.userId });
+
+    return member;
+  }
+
+  static async updateMemberRole(
+    actor: IOrganizationMember,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<IOrganizationMember> {
+    const member = await this.getMember(actor.organizationId.toString(), userId);
+    this.assertCanManage(actor, member.role);
+    this.assertCanManage(actor, role);
+
+    if (member.role === OrganizationRole.OWNER && role !== OrganizationRole.OWNER) {
+      await this.assertNotLastOwner(member);
+    }
+
+    member.role = role;
+    await member.save();
+
+    logger.info('Organization member role changed', { organizationId: actor.organizationId, userId, role });
+
+    return member;
+  }
+
+  /**
+   * Remove a member, or leave the organization when the actor removes themselves
+   * Their wrapped keys are dropped; anything they already decrypted stays with them.
+   */
+  static async removeMember(actor: IOrganizationMember, userId: string): Promise<void> {
+    const organizationId = actor.organizationId;
+    const member = await this.getMember(organizationId.toString(), userId);
+
+    if (!member.userId.equals(actor.userId)) {
+      this.assertCanManage(actor, member.role);
+    }
+    if (member.role === OrganizationRole.OWNER) {
+      await this.assertNotLastOwner(member);
+    }
+
+    await Collection.updateMany({ organizationId }, { $pull: { access: { userId: member.userId } } });
+    await OrganizationItem.updateMany({ organizationId }, { $pull: { keys: { userId: member.userId } } });
+    await member.deleteOne();
+
+    logger.info('Organization member removed', { organizationId, userId, removedBy: actor.userId });
+  }
+
+  /**
+   * Check that everyone given access is a member of the organization
+   */
+  static async assertMembers(organizationId: string, userIds: string[]): Promise<void> {
+    const count = await OrganizationMember.countDocuments({ organizationId, userId: { $in: userIds } });
+    if (count !== new Set(userIds).size) {
+      throw new AppError('Access can only be given to organization members', 400, 'NOT_A_MEMBER');
+    }
+  }
+
+  private static async getMember(organizationId: string, userId: string): Promise<IOrganizationMember> {
+    const member = await OrganizationMember.findOne({ organizationId, userId });
+    if (!member) {
+      throw new AppError('Member not found', 404, 'MEMBER_NOT_FOUND');
+    }
+    return member;
+  }
+
+  /**
+   * Admins manage everyone below owner; only owners manage owners
+   */
+  private static assertCanManage(actor: IOrganizationMember, role: OrganizationRole): void {
+    const allowed = this.hasRole(actor.role, OrganizationRole.ADMIN)
+      && (role !== OrganizationRole.OWNER || actor.role === OrganizationRole.OWNER);
+
+    if (!allowed) {
+      throw new AppError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS');
+    }
+  }
+
+  private static async assertNotLastOwner(member: IOrganizationMember): Promise<void> {
+    const owners = await OrganizationMember.countDocuments({
+      organizationId: member.organizationId,
+      role: OrganizationRole.OWNER,
+    });
+    if (owners <= 1) {
+      throw new AppError('An organization needs at least one owner', 409, 'LAST_OWNER');
+    }
+  }
+
+  private static async assertKeyPair(userId: string): Promise<void> {
+    const user = await User.findById(userId).select('publicKey');
+    if (!user?.publicKey) {
+      throw new AppError('The user must unlock their vault once to publish a keypair', 409, 'KEY_PAIR_REQUIRED');
+    }
+  }
+}
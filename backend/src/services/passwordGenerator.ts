@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import { User } from '../models/User';
+import { EFF_SHORT_WORDLIST } from '../data/effShortWordlist';
+import { AppError } from '../middleware/errorHandler';
+
+export type GeneratorType = 'password' | 'passphrase';
+
+export interface PasswordOptions {
+  length: number;
+  lowercase: boolean;
+  uppercase: boolean;
+  numbers: boolean;
+  symbols: boolean;
+  // Leave out characters that are easily confused when read, such as 0/O and 1/l/I
+  excludeAmbiguous: boolean;
+  // Fewest characters each enabled class contributes
+  minLowercase: number;
+  minUppercase: number;
+  minNumbers: number;
+  minSymbols: number;
+}
+
+export interface PassphraseOptions {
+  words: number;
+  separator: string;
+  capitalize: boolean;
+}
+
+/**
+ * What the generator form remembers for a user
+ */
+export interface GeneratorSettings {
+  type: GeneratorType;
+  password: PasswordOptions;
+  passphrase: PassphraseOptions;
+}
+
+export interface GeneratedSecret {
+  value: string;
+  // Bits of randomness behind the value, for comparing settings
+  entropyBits: number;
+}
+
+const CHARACTER_CLASSES = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  numbers: '0123456789',
+  symbols: '!@#$%^&*()-_=+[]{};:,.<>/?~',
+};
+
+type CharacterClass = keyof typeof CHARACTER_CLASSES;
+
+const MINIMUMS = {
+  lowercase: 'minLowercase',
+  uppercase: 'minUppercase',
+  numbers: 'minNumbers',
+  symbols: 'minSymbols',
+} as const;
+
+const AMBIGUOUS_CHARACTERS = /[0Oo1Il|]/g;
+
+/**
+ * Password Generator Service
+ * Random passwords and EFF diceware passphrases from the system CSPRNG, with their entropy.
+ */
+export class PasswordGeneratorService {
+  static readonly MIN_LENGTH = 5;
+  static readonly MAX_LENGTH = 128;
+  static readonly MIN_WORDS = 3;
+  static readonly MAX_WORDS = 20;
+  static readonly MAX_SEPARATOR_LENGTH = 3;
+
+  static readonly DEFAULT_SETTINGS: GeneratorSettings = {
+    type: 'password',
+    password: {
+      length: 20,
+      lowercase: true,
+      uppercase: true,
+      numbers: true,
+      symbols: true,
+      excludeAmbiguous: false,
+      minLowercase: 1,
+      minUppercase: 1,
+      minNumbers: 1,
+      minSymbols: 1,
+    },
+    passphrase: {
+      words: 6,
+      separator: '-',
+      capitalize: false,
+    },
+  };
+
+  /**
+   * Generate a password: each class's minimum is drawn from that class, the rest from every
+   * enabled class together, and the result is shuffled
+   */
+  static generatePassword(options: PasswordOptions): GeneratedSecret {
+    if (!Number.isInteger(options.length) || options.length < this.MIN_LENGTH || options.length > this.MAX_LENGTH) {
+      throw new AppError(`Length must be between ${this.MIN_LENGTH} and ${this.MAX_LENGTH}`, 400, 'INVALID_GENERATOR_OPTIONS');
+    }
+
+    const classes = this.getCharacterClasses(options);
+    const required = (Object.keys(classes) as CharacterClass[])
+      .filter(name => classes[name])
+      .map(name => ({ characters: classes[name], count: Math.max(0, Math.floor(options[MINIMUMS[name]] || 0)) }));
+    const pool = Object.values(classes).join('');
+    const requiredCount = required.reduce((total, entry) => total + entry.count, 0);
+
+    if (!pool) {
+      throw new AppError('Enable at least one character class', 400, 'INVALID_GENERATOR_OPTIONS');
+    }
+    if (requiredCount > options.length) {
+      throw new AppError('Minimum character counts exceed the length', 400, 'INVALID_GENERATOR_OPTIONS');
+    }
+
+    const characters: string[] = [];
+    for (const entry of required) {
+      for (let i = 0; i < entry.count; i++) {
+        characters.push(this.pick(entry.characters));
+      }
+    }
+    while (characters.length < options.length) {
+      characters.push(this.pick(pool));
+    }
+
+    // Fisher-Yates, so required characters can land anywhere
+    for (let i = characters.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [characters[i], characters[j]] = [characters[j], characters[i]];
+    }
+
+    // Entropy of the draws before shuffling, which the shuffle can only add to
+    const entropyBits = required.reduce((bits, entry) => bits + entry.count * Math.log2(entry.characters.length), 0)
+      + (options.length - requiredCount) * Math.log2(pool.length);
+
+    return { value: characters.join(''), entropyBits: this.round(entropyBits) };
+  }
+
+  /**
+   * Generate a diceware passphrase from the EFF short wordlist
+   */
+  static generatePassphrase(options: PassphraseOptions): GeneratedSecret {
+    if (!Number.isInteger(options.words) || options.words < this.MIN_WORDS || options.words > this.MAX_WORDS) {
+      throw new AppError(`Word count must be between ${this.MIN_WORDS} and ${this.MAX_WORDS}`, 400, 'INVALID_GENERATOR_OPTIONS');
+    }
+    if (options.separator.length > this.MAX_SEPARATOR_LENGTH) {
+      throw new AppError(`Separator can be at most ${this.MAX_SEPARATOR_LENGTH} characters`, 400, 'INVALID_GENERATOR_OPTIONS');
+    }
+
+    const words = Array.from({ length: options.words }, () => {
+      const word = EFF_SHORT_WORDLIST[crypto.randomInt(EFF_SHORT_WORDLIST.length)];
+      return options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+    });
+
+    return {
+      value: words.join(options.separator),
+      entropyBits: this.round(options.words * Math.log2(EFF_SHORT_WORDLIST.length)),
+    };
+  }
+
+  static async getSettings(userId: string): Promise<GeneratorSettings> {
+    const user = await User.findById(userId).select('passwordGenerator').lean();
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    return this.mergeSettings(user.passwordGenerator);
+  }
+
+  /**
+   * Save the generator form's settings, checking they can actually generate something
+   * Only known options are stored, as the settings live in a schemaless field.
+   */
+  static async updateSettings(userId: string, settings: Partial<GeneratorSettings>): Promise<GeneratorSettings> {
+    if (settings.type !== undefined && settings.type !== 'password' && settings.type !== 'passphrase') {
+      throw new AppError('Type must be either password or passphrase', 400, 'INVALID_GENERATOR_OPTIONS');
+    }
+
+    const current = await this.getSettings(userId);
+    const merged: GeneratorSettings = {
+      type: settings.type ?? current.type,
+      password: { ...current.password, ...this.pickOptions(this.DEFAULT_SETTINGS.password, settings.password) },
+      passphrase: { ...current.passphrase, ...this.pickOptions(this.DEFAULT_SETTINGS.passphrase, settings.passphrase) },
+    };
+    this.generatePassword(merged.password);
+    this.generatePassphrase(merged.passphrase);
+
+    await User.findByIdAndUpdate(userId, { passwordGenerator: merged });
+
+    return merged;
+  }
+
+  /**
+   * Options from client input, each of which must be known and of the same type as its default
+   */
+  private static pickOptions<T extends object>(defaults: T, input: unknown): Partial<T> {
+    if (input === undefined || input === null) {
+      return {};
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new AppError('Options must be objects', 400, 'INVALID_GENERATOR_OPTIONS');
+    }
+
+    const picked: Partial<T> = {};
+    for (const [key, value] of Object.entries(input)) {
+      if (!(key in defaults) || typeof value !== typeof defaults[key as keyof T]) {
+        throw new AppError(`Unknown or invalid generator option: ${key}`, 400, 'INVALID_GENERATOR_OPTIONS');
+      }
+      picked[key as keyof T] = value;
+    }
+    return picked;
+  }
+
+  private static mergeSettings(settings?: Partial<GeneratorSettings> | null): GeneratorSettings {
+    return {
+      type: settings?.type ?? this.DEFAULT_SETTINGS.type,
+      password: { ...this.DEFAULT_SETTINGS.password, ...settings?.password },
+      passphrase: { ...this.DEFAULT_SETTINGS.passphrase, ...settings?.passphrase },
+    };
+  }
+
+  private static getCharacterClasses(options: PasswordOptions): Record<CharacterClass, string> {
+    const filter = (characters: string) =>
+      options.excludeAmbiguous ? characters.replace(AMBIGUOUS_CHARACTERS, '') : characters;
+
+    return {
+      lowercase: options.lowercase ? filter(CHARACTER_CLASSES.lowercase) : '',
+      uppercase: options.uppercase ? filter(CHARACTER_CLASSES.uppercase) : '',
+      numbers: options.numbers ? filter(CHARACTER_CLASSES.numbers) : '',
+      symbols: options.symbols ? filter(CHARACTER_CLASSES.symbols) : '',
+    };
+  }
+
+  private static pick(characters: string): string {
+    return characters[crypto.randomInt(characters.length)];
+  }
+
+  private static round(bits: number): number {
+    return Math.round(bits * 10) / 10;
+  }
+}
@@ -0,0 +1,929 @@
+import { COMMON_PASSWORDS, ENGLISH_WORDS, NAMES } from '../data/passwordDictionaries';
+import { EFF_SHORT_WORDLIST } from '../data/effShortWordlist';
+
+export type MatchPattern = 'dictionary' | 'spatial' | 'repeat' | 'sequence' | 'date' | 'bruteforce';
+
+export type DictionaryName = 'passwords' | 'english' | 'names' | 'userInputs';
+
+/**
+ * A guessable piece of a password, with how many guesses an attacker who knows its
+ * pattern would need for it
+ */
+export interface PasswordMatch {
+  pattern: MatchPattern;
+  token: string;
+  // Inclusive positions of the token in the password
+  i: number;
+  j: number;
+  guesses: number;
+  dictionary?: DictionaryName;
+  matchedWord?: string;
+  rank?: number;
+  reversed?: boolean;
+  // Substituted character to the letter it stands for, e.g. { '@': 'a' }
+  substitutions?: Record<string, string>;
+  graph?: string;
+  turns?: number;
+  shiftedCount?: number;
+  baseToken?: string;
+  baseGuesses?: number;
+  repeatCount?: number;
+  ascending?: boolean;
+  year?: number;
+}
+
+export interface WeakestMatch extends PasswordMatch {
+  explanation: string;
+}
+
+/**
+ * How fast an attacker can guess
+ * - onlineThrottled: against a login form with rate limiting, 100 guesses an hour
+ * - onlineUnthrottled: against a login form without it, 10 guesses a second
+ * - offlineSlowHash: with a stolen Argon2, bcrypt or PBKDF2 hash, 10k guesses a second
+ * - offlineFastHash: with a stolen unsalted SHA or MD5 hash on GPUs, 10 billion a second
+ */
+export type AttackerModel = 'onlineThrottled' | 'onlineUnthrottled' | 'offlineSlowHash' | 'offlineFastHash';
+
+export interface CrackTime {
+  seconds: number;
+  display: string;
+}
+
+export interface PasswordStrength {
+  // 0 (guessable in under a thousand tries) to 4 (over ten billion)
+  score: number;
+  guesses: number;
+  guessesLog10: number;
+  crackTimes: Record<AttackerModel, CrackTime>;
+  // The cheapest way to guess the password, piece by piece
+  sequence: PasswordMatch[];
+  weakest: WeakestMatch | null;
+  feedback: string[];
+  recommendations: string[];
+}
+
+const GUESSES_PER_SECOND: Record<AttackerModel, number> = {
+  onlineThrottled: 100 / 3600,
+  onlineUnthrottled: 10,
+  offlineSlowHash: 1e4,
+  offlineFastHash: 1e10,
+};
+
+// Beyond this many characters the password is strong anyway, so the rest is not searched
+const MAX_ANALYZED_LENGTH = 100;
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000;
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_YEAR_SPACE = 20;
+const MAX_SEQUENCE_DELTA = 5;
+
+const buildRankedDictionary = (...lists: ReadonlyArray<readonly string[]>): Map<string, number> => {
+  const ranked = new Map<string, number>();
+  for (const word of lists.flat()) {
+    if (!ranked.has(word)) {
+      ranked.set(word, ranked.size + 1);
+    }
+  }
+  return ranked;
+};
+
+const DICTIONARIES: Array<[DictionaryName, Map<string, number>]> = [
+  ['passwords', buildRankedDictionary(COMMON_PASSWORDS)],
+  // Diceware words come after the frequency list, so passphrases are judged word by word
+  ['english', buildRankedDictionary(ENGLISH_WORDS, EFF_SHORT_WORDLIST)],
+  ['names', buildRankedDictionary(NAMES)],
+];
+
+const L33T_TABLE: Record<string, string[]> = {
+  a: ['4', '@'],
+  b: ['8'],
+  c: ['(', '{', '[', '<'],
+  e: ['3'],
+  g: ['6', '9'],
+  i: ['1', '!', '|'],
+  l: ['1', '|', '7'],
+  o: ['0'],
+  s: ['$', '5'],
+  t: ['+', '7'],
+  x: ['%'],
+  z: ['2'],
+};
+
+/**
+ * Keyboard layouts as rows of keys; a key lists its unshifted then shifted character.
+ * Rows of a slanted keyboard start half a key further right than the row above.
+ */
+const KEYBOARD_LAYOUTS: Array<{ name: string; slanted: boolean; rows: string[][] }> = [
+  {
+    name: 'qwerty',
+    slanted: true,
+    rows: [
+      ['`~', '1!', '2@', '3#', '4$', '5%', '6^', '7&', '8*', '9(', '0)', '-_', '=+'],
+      ['qQ', 'wW', 'eE', 'rR', 'tT', 'yY', 'uU', 'iI', 'oO', 'pP', '[{', ']}', '\\|'],
+      ['aA', 'sS', 'dD', 'fF', 'gG', 'hH', 'jJ', 'kK', 'lL', ';:', '\'"'],
+      ['zZ', 'xX', 'cC', 'vV', 'bB', 'nN', 'mM', ',<', '.>', '/?'],
+    ],
+  },
+  {
+    name: 'keypad',
+    slanted: false,
+    rows: [
+      ['', '/', '*', '-'],
+      ['7', '8', '9', '+'],
+      ['4', '5', '6'],
+      ['1', '2', '3'],
+      ['', '0', '.'],
+    ],
+  },
+];
+
+interface KeyboardGraph {
+  name: string;
+  // Character to the keys next to it, one slot per direction so turns can be counted
+  adjacency: Map<string, Array<string | null>>;
+  // Characters typed with shift held, the second character on their key
+  shifted: Set<string>;
+  startingPositions: number;
+  averageDegree: number;
+}
+
+const buildKeyboardGraph = ({ name, slanted, rows }: typeof KEYBOARD_LAYOUTS[number]): KeyboardGraph => {
+  const positions = new Map<string, string>();
+  rows.forEach((row, y) => row.forEach((key, column) => {
+    if (key) {
+      // Keys below the top row of a slanted keyboard sit between the two keys above them
+      positions.set(`${slanted && y > 0 ? column + 1 : column},${y}`, key);
+    }
+  }));
+
+  const directions = slanted
+    ? [[-1, 0], [0, -1], [1, -1], [1, 0], [0, 1], [-1, 1]]
+    : [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+
+  const adjacency = new Map<string, Array<string | null>>();
+  const shifted = new Set<string>();
+  let degrees = 0;
+  for (const [position, key] of positions) {
+    const [x, y] = position.split(',').map(Number);
+    const neighbours = directions.map(([dx, dy]) => positions.get(`${x + dx},${y + dy}`) ?? null);
+    degrees += neighbours.filter(Boolean).length;
+    for (const char of key) {
+      adjacency.set(char, neighbours);
+    }
+    if (key.length > 1) {
+      shifted.add(key[1]);
+    }
+  }
+
+  return { name, adjacency, shifted, startingPositions: positions.size, averageDegree: degrees / positions.size };
+};
+
+const KEYBOARD_GRAPHS = KEYBOARD_LAYOUTS.map(buildKeyboardGraph);
+
+const factorial = (n: number): number => {
+  let result = 1;
+  for (let i = 2; i <= n; i++) {
+    result *= i;
+  }
+  return result;
+};
+
+const binomial = (n: number, k: number): number => {
+  if (k > n) {
+    return 0;
+  }
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+};
+
+const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Password Strength Service
+ * Estimates how many guesses a password takes, in the manner of Dropbox's zxcvbn: the password
+ * is split into the cheapest sequence of dictionary words, keyboard patterns, dates, sequences,
+ * repeats and brute-forced characters, and the guesses for each piece are multiplied together.
+ */
+export class PasswordStrengthService {
+  /**
+   * Estimate the strength of a password
+   * @param userInputs Values an attacker would try first for this user, such as their email
+   */
+  static estimate(password: string, userInputs: string[] = []): PasswordStrength {
+    const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+    const sequence = this.mostGuessableSequence(analyzed, this.findMatches(analyzed, userInputs));
+    const guesses = this.sequenceGuesses(sequence);
+    const score = this.guessesToScore(guesses);
+    const weakest = this.findWeakest(sequence);
+
+    const crackTimes = {} as Record<AttackerModel, CrackTime>;
+    for (const [model, rate] of Object.entries(GUESSES_PER_SECOND) as Array<[AttackerModel, number]>) {
+      const seconds = guesses / rate;
+      crackTimes[model] = { seconds, display: this.displayTime(seconds) };
+    }
+
+    const { feedback, recommendations } = this.getFeedback(analyzed, score, sequence, weakest);
+
+    return {
+      score,
+      guesses,
+      guessesLog10: Math.round(Math.log10(guesses) * 100) / 100,
+      crackTimes,
+      sequence,
+      weakest,
+      feedback,
+      recommendations,
+    };
+  }
+
+  /**
+   * Every pattern found anywhere in the password, overlapping freely
+   */
+  private static findMatches(password: string, userInputs: string[]): PasswordMatch[] {
+    const dictionaries = [...DICTIONARIES];
+    const inputs = userInputs
+      // The whole value, an email's local part, and each word in it
+      .flatMap(input => [input, input.split('@')[0], ...input.split(/[^a-zA-Z0-9]+/)])
+      .map(input => input.toLowerCase())
+      .filter(input => input.length >= 3);
+    if (inputs.length) {
+      dictionaries.push(['userInputs', buildRankedDictionary(inputs)]);
+    }
+
+    const matches = [
+      ...this.dictionaryMatches(password, dictionaries),
+      ...this.reversedDictionaryMatches(password, dictionaries),
+      ...this.l33tMatches(password, dictionaries),
+      ...this.spatialMatches(password),
+      ...this.repeatMatches(password, userInputs),
+      ...this.sequenceMatches(password),
+      ...this.dateMatches(password),
+    ];
+
+    for (const match of matches) {
+      match.guesses = this.estimateGuesses(match, password);
+    }
+    return matches;
+  }
+
+  private static dictionaryMatches(
+    password: string,
+    dictionaries: Array<[DictionaryName, Map<string, number>]>
+  ): PasswordMatch[] {
+    const lower = password.toLowerCase();
+    const matches: PasswordMatch[] = [];
+
+    for (const [dictionary, ranked] of dictionaries) {
+      for (let i = 0; i < password.length; i++) {
+        for (let j = i; j < password.length; j++) {
+          const word = lower.slice(i, j + 1);
+          const rank = ranked.get(word);
+          if (rank) {
+            matches.push({
+              pattern: 'dictionary',
+              token: password.slice(i, j + 1),
+              i,
+              j,
+              guesses: 0,
+              dictionary,
+              matchedWord: word,
+              rank,
+            });
+          }
+        }
+      }
+    }
+    return matches;
+  }
+
+  private static reversedDictionaryMatches(
+    password: string,
+    dictionaries: Array<[DictionaryName, Map<string, number>]>
+  ): PasswordMatch[] {
+    const reversed = [...password].reverse().join('');
+    return this.dictionaryMatches(reversed, dictionaries)
+      // Palindromes and single characters read the same both ways
+      .filter(match => match.token.length > 1 && match.matchedWord !== [...match.matchedWord!].reverse().join(''))
+      .map(match => ({
+        ...match,
+        token: [...match.token].reverse().join(''),
+        i: password.length - 1 - match.j,
+        j: password.length - 1 - match.i,
+        reversed: true,
+      }));
+  }
+
+  private static l33tMatches(
+    password: string,
+    dictionaries: Array<[DictionaryName, Map<string, number>]>
+  ): PasswordMatch[] {
+    // Each substituted character present in the password, with the letters it could stand for
+    const candidates = new Map<string, string[]>();
+    for (const [letter, substitutes] of Object.entries(L33T_TABLE)) {
+      for (const substitute of substitutes) {
+        if (password.includes(substitute)) {
+          candidates.set(substitute, [...(candidates.get(substitute) || []), letter]);
+        }
+      }
+    }
+    if (!candidates.size) {
+      return [];
+    }
+
+    // Every way of reading the ambiguous characters, such as 1 for either i or l
+    let substitutionSets: Array<Record<string, string>> = [{}];
+    for (const [substitute, letters] of candidates) {
+      substitutionSets = substitutionSets.flatMap(set => letters.map(letter => ({ ...set, [substitute]: letter })));
+    }
+
+    const matches: PasswordMatch[] = [];
+    const seen = new Set<string>();
+    for (const substitutions of substitutionSets) {
+      const translated = [...password].map(char => substitutions[char] ?? char).join('');
+      for (const match of this.dictionaryMatches(translated, dictionaries)) {
+        const token = password.slice(match.i, match.j + 1);
+        const used: Record<string, string> = {};
+        for (const char of token) {
+          if (substitutions[char]) {
+            used[char] = substitutions[char];
+          }
+        }
+        const key = `${match.dictionary}:${match.i}:${match.j}:${match.matchedWord}`;
+        // Single characters would turn every digit into a word
+        if (!Object.keys(used).length || token.length < 2 || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        matches.push({ ...match, token, substitutions: used });
+      }
+    }
+    return matches;
+  }
+
+  private static spatialMatches(password: string): PasswordMatch[] {
+    const matches: PasswordMatch[] = [];
+
+    for (const graph of KEYBOARD_GRAPHS) {
+      let i = 0;
+      while (i < password.length - 1) {
+        let j = i + 1;
+        let lastDirection: number | null = null;
+        let turns = 0;
+        let shiftedCount = graph.shifted.has(password[i]) ? 1 : 0;
+
+        while (j < password.length) {
+          const neighbours = graph.adjacency.get(password[j - 1]);
+          const direction = neighbours?.findIndex(key => key?.includes(password[j])) ?? -1;
+          if (direction === -1) {
+            break;
+          }
+          if (direction !== lastDirection) {
+            turns++;
+            lastDirection = direction;
+          }
+          if (graph.shifted.has(password[j])) {
+            shiftedCount++;
+          }
+          j++;
+        }
+
+        // Runs of three or more keys count as a pattern
+        if (j - i > 2) {
+          matches.push({
+            pattern: 'spatial',
+            token: password.slice(i, j),
+            i,
+            j: j - 1,
+            guesses: 0,
+            graph: graph.name,
+            turns,
+            shiftedCount,
+          });
+        }
+        i = j;
+      }
+    }
+    return matches;
+  }
+
+  private static repeatMatches(password: string, userInputs: string[]): PasswordMatch[] {
+    const matches: PasswordMatch[] = [];
+    const greedy = /(.+)\1+/g;
+    const lazy = /(.+?)\1+/g;
+    const lazyAnchored = /^(.+?)\1+$/;
+    let lastIndex = 0;
+
+    while (lastIndex < password.length) {
+      greedy.lastIndex = lazy.lastIndex = lastIndex;
+      const greedyMatch = greedy.exec(password);
+      const lazyMatch = lazy.exec(password);
+      if (!greedyMatch || !lazyMatch) {
+        break;
+      }
+
+      // The greedy match finds "abcabc" where the lazy one stops at "aa"; whichever is longer wins
+      const [match, baseToken] = greedyMatch[0].length > lazyMatch[0].length
+        ? [greedyMatch, lazyAnchored.exec(greedyMatch[0])![1]]
+        : [lazyMatch, lazyMatch[1]];
+
+      const baseGuesses = this.sequenceGuesses(
+        this.mostGuessableSequence(baseToken, this.findMatches(baseToken, userInputs))
+      );
+
+      matches.push({
+        pattern: 'repeat',
+        token: match[0],
+        i: match.index,
+        j: match.index + match[0].length - 1,
+        guesses: 0,
+        baseToken,
+        baseGuesses,
+        repeatCount: match[0].length / baseToken.length,
+      });
+      lastIndex = match.index + match[0].length;
+    }
+    return matches;
+  }
+
+  private static sequenceMatches(password: string): PasswordMatch[] {
+    const matches: PasswordMatch[] = [];
+    if (password.length < 3) {
+      return matches;
+    }
+
+    const pushRun = (i: number, j: number, delta: number) => {
+      if (j - i >= 2 && delta !== 0 && Math.abs(delta) <= MAX_SEQUENCE_DELTA) {
+        matches.push({
+          pattern: 'sequence',
+          token: password.slice(i, j + 1),
+          i,
+          j,
+          guesses: 0,
+          ascending: delta > 0,
+        });
+      }
+    };
+
+    let i = 0;
+    let lastDelta: number | null = null;
+    for (let k = 1; k < password.length; k++) {
+      const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+      if (lastDelta === null) {
+        lastDelta = delta;
+      }
+      if (delta === lastDelta) {
+        continue;
+      }
+      pushRun(i, k - 1, lastDelta);
+      i = k - 1;
+      lastDelta = delta;
+    }
+    pushRun(i, password.length - 1, lastDelta!);
+    return matches;
+  }
+
+  private static dateMatches(password: string): PasswordMatch[] {
+    const matches: PasswordMatch[] = [];
+
+    // Bare years
+    const years = /19\d\d|20\d\d/g;
+    let year: RegExpExecArray | null;
+    while ((year = years.exec(password))) {
+      matches.push({
+        pattern: 'date',
+        token: year[0],
+        i: year.index,
+        j: year.index + 3,
+        guesses: 0,
+        year: Number(year[0]),
+      });
+      years.lastIndex = year.index + 1;
+    }
+
+    // Day, month and year in either order, with or without a separator
+    for (let i = 0; i < password.length; i++) {
+      for (let j = i + 3; j < Math.min(password.length, i + 10); j++) {
+        const token = password.slice(i, j + 1);
+        const parsed = /^\d{4,8}$/.test(token)
+          ? this.parseDigitDate(token)
+          : this.parseSeparatedDate(token);
+        if (parsed) {
+          matches.push({ pattern: 'date', token, i, j, guesses: 0, year: parsed });
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * The year of a run of digits such as 13051987 or 870513, if it can be read as a date
+   */
+  private static parseDigitDate(token: string): number | null {
+    for (let yearLength = 2; yearLength <= 4; yearLength += 2) {
+      const rest = token.length - yearLength;
+      if (rest < 2 || rest > 4) {
+        continue;
+      }
+      // The year comes either first or last
+      for (const [yearPart, dayMonth] of [
+        [token.slice(0, yearLength), token.slice(yearLength)],
+        [token.slice(rest), token.slice(0, rest)],
+      ]) {
+        for (let split = 1; split < dayMonth.length; split++) {
+          const year = this.parseYear(yearPart);
+          if (year && this.isDayAndMonth(Number(dayMonth.slice(0, split)), Number(dayMonth.slice(split)))) {
+            return year;
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  private static parseSeparatedDate(token: string): number | null {
+    const parts = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/.exec(token);
+    if (!parts) {
+      return null;
+    }
+    const [, first, , middle, last] = parts;
+    const yearFirst = first.length === 4 ? this.parseYear(first) : null;
+    if (yearFirst && this.isDayAndMonth(Number(middle), Number(last))) {
+      return yearFirst;
+    }
+    const yearLast = last.length !== 3 && first.length <= 2 ? this.parseYear(last) : null;
+    if (yearLast && this.isDayAndMonth(Number(first), Number(middle))) {
+      return yearLast;
+    }
+    return null;
+  }
+
+  private static parseYear(value: string): number | null {
+    const year = Number(value);
+    if (value.length === 2) {
+      // Two-digit years are read as the most recent century that makes sense
+      return year > 50 ? 1900 + year : 2000 + year;
+    }
+    return value.length === 4 && year >= 1000 && year <= 2050 ? year : null;
+  }
+
+  private static isDayAndMonth(a: number, b: number): boolean {
+    return (a >= 1 && a <= 31 && b >= 1 && b <= 12) || (b >= 1 && b <= 31 && a >= 1 && a <= 12);
+  }
+
+  private static estimateGuesses(match: PasswordMatch, password: string): number {
+    let guesses: number;
+    switch (match.pattern) {
+      case 'dictionary':
+        guesses = match.rank!
+          * this.uppercaseVariations(match.token)
+          * this.l33tVariations(match)
+          * (match.reversed ? 2 : 1);
+        break;
+      case 'spatial':
+        guesses = this.spatialGuesses(match);
+        break;
+      case 'repeat':
+        guesses = match.baseGuesses! * match.repeatCount!;
+        break;
+      case 'sequence': {
+        const first = match.token.charAt(0);
+        let base = 'aAzZ019'.includes(first) ? 4 : /\d/.test(first) ? 10 : 26;
+        if (!match.ascending) {
+          base *= 2;
+        }
+        guesses = base * match.token.length;
+        break;
+      }
+      case 'date': {
+        const yearSpace = Math.max(Math.abs(match.year! - new Date().getFullYear()), MIN_YEAR_SPACE);
+        // A full date also needs its day and month, and a separator quadruples the options
+        guesses = match.token === String(match.year)
+          ? yearSpace
+          : yearSpace * 365 * (/\D/.test(match.token) ? 4 : 1);
+        break;
+      }
+      default:
+        guesses = Math.pow(BRUTEFORCE_CARDINALITY, match.token.length);
+    }
+
+    // A match inside a longer password still costs the attacker a few guesses to place
+    if (match.token.length < password.length) {
+      guesses = Math.max(
+        guesses,
+        match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR
+      );
+    }
+    return Math.max(guesses, 1);
+  }
+
+  private static uppercaseVariations(token: string): number {
+    const upper = token.replace(/[^A-Z]/g, '').length;
+    const lower = token.replace(/[^a-z]/g, '').length;
+    if (!upper || token === token.toLowerCase()) {
+      return 1;
+    }
+    // Capitalized, all caps and a capital at the end are the first things tried
+    if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || !lower) {
+      return 2;
+    }
+    let variations = 0;
+    for (let i = 1; i <= Math.min(upper, lower); i++) {
+      variations += binomial(upper + lower, i);
+    }
+    return variations;
+  }
+
+  private static l33tVariations(match: PasswordMatch): number {
+    if (!match.substitutions) {
+      return 1;
+    }
+    let variations = 1;
+    const lower = match.token.toLowerCase();
+    for (const [substitute, letter] of Object.entries(match.substitutions)) {
+      const substituted = [...lower].filter(char => char === substitute).length;
+      const unsubstituted = [...lower].filter(char => char === letter).length;
+      if (!substituted || !unsubstituted) {
+        variations *= 2;
+      } else {
+        let possibilities = 0;
+        for (let i = 1; i <= Math.min(substituted, unsubstituted); i++) {
+          possibilities += binomial(substituted + unsubstituted, i);
+        }
+        variations *= possibilities;
+      }
+    }
+    return variations;
+  }
+
+  private static spatialGuesses(match: PasswordMatch): number {
+    const graph = KEYBOARD_GRAPHS.find(entry => entry.name === match.graph)!;
+    const length = match.token.length;
+    let guesses = 0;
+    // Every pattern up to this length and number of turns, from every starting key
+    for (let i = 2; i <= length; i++) {
+      for (let j = 1; j <= Math.min(match.turns!, i - 1); j++) {
+        guesses += binomial(i - 1, j - 1) * graph.startingPositions * Math.pow(graph.averageDegree, j);
+      }
+    }
+
+    const shifted = match.shiftedCount!;
+    if (shifted) {
+      const unshifted = length - shifted;
+      if (!unshifted) {
+        guesses *= 2;
+      } else {
+        let variations = 0;
+        for (let i = 1; i <= Math.min(shifted, unshifted); i++) {
+          variations += binomial(shifted + unshifted, i);
+        }
+        guesses *= variations;
+      }
+    }
+    return guesses;
+  }
+
+  private static bruteforceMatch(password: string, i: number, j: number): PasswordMatch {
+    const match: PasswordMatch = { pattern: 'bruteforce', token: password.slice(i, j + 1), i, j, guesses: 0 };
+    match.guesses = this.estimateGuesses(match, password);
+    return match;
+  }
+
+  /**
+   * The sequence of non-overlapping matches covering the password that takes the fewest guesses
+   *
+   * An attacker guessing l pieces tries every order of them (l!) and every shorter sequence
+   * first, so for each position and sequence length only the cheapest candidate is kept.
+   */
+  private static mostGuessableSequence(password: string, matches: PasswordMatch[]): PasswordMatch[] {
+    const n = password.length;
+    if (!n) {
+      return [];
+    }
+
+    interface Candidate { match: PasswordMatch; product: number; total: number }
+    // best[k] maps a sequence length to the cheapest sequence ending at position k
+    const best: Array<Map<number, Candidate>> = Array.from({ length: n }, () => new Map());
+
+    const update = (match: PasswordMatch, length: number) => {
+      const k = match.j;
+      let product = match.guesses;
+      if (length > 1) {
+        product *= best[match.i - 1].get(length - 1)!.product;
+      }
+      const total = factorial(length) * product + Math.pow(MIN_GUESSES_BEFORE_GROWING_SEQUENCE, length - 1);
+
+      for (const [otherLength, other] of best[k]) {
+        if (otherLength <= length && other.total <= total) {
+          return;
+        }
+      }
+      best[k].set(length, { match, product, total });
+    };
+
+    const byEnd: PasswordMatch[][] = Array.from({ length: n }, () => []);
+    for (const match of matches) {
+      byEnd[match.j].push(match);
+    }
+
+    for (let k = 0; k < n; k++) {
+      for (const match of byEnd[k]) {
+        if (match.i > 0) {
+          for (const length of [...best[match.i - 1].keys()]) {
+            update(match, length + 1);
+          }
+        } else {
+          update(match, 1);
+        }
+      }
+
+      update(this.bruteforceMatch(password, 0, k), 1);
+      for (let i = 1; i <= k; i++) {
+        const bruteforce = this.bruteforceMatch(password, i, k);
+        for (const [length, previous] of [...best[i - 1]]) {
+          // Two brute-forced runs in a row are one longer run, considered separately
+          if (previous.match.pattern !== 'bruteforce') {
+            update(bruteforce, length + 1);
+          }
+        }
+      }
+    }
+
+    let length = 0;
+    let cheapest = Infinity;
+    for (const [candidateLength, candidate] of best[n - 1]) {
+      if (candidate.total < cheapest) {
+        cheapest = candidate.total;
+        length = candidateLength;
+      }
+    }
+
+    const sequence: PasswordMatch[] = [];
+    let k = n - 1;
+    while (k >= 0) {
+      const { match } = best[k].get(length)!;
+      sequence.unshift(match);
+      k = match.i - 1;
+      length--;
+    }
+    return sequence;
+  }
+
+  private static sequenceGuesses(sequence: PasswordMatch[]): number {
+    if (!sequence.length) {
+      return 1;
+    }
+    const product = sequence.reduce((total, match) => total * match.guesses, 1);
+    return factorial(sequence.length) * product + Math.pow(MIN_GUESSES_BEFORE_GROWING_SEQUENCE, sequence.length - 1);
+  }
+
+  private static guessesToScore(guesses: number): number {
+    // A little slack so a password right at a threshold lands above it
+    const delta = 5;
+    if (guesses < 1e3 + delta) return 0;
+    if (guesses < 1e6 + delta) return 1;
+    if (guesses < 1e8 + delta) return 2;
+    if (guesses < 1e10 + delta) return 3;
+    return 4;
+  }
+
+  /**
+   * The piece that gives the least protection for its length
+   */
+  private static findWeakest(sequence: PasswordMatch[]): WeakestMatch | null {
+    const candidates = sequence.filter(match => match.pattern !== 'bruteforce');
+    if (!candidates.length) {
+      return null;
+    }
+    const weakest = candidates.reduce((worst, match) =>
+      Math.log10(match.guesses) / match.token.length < Math.log10(worst.guesses) / worst.token.length ? match : worst
+    );
+    return { ...weakest, explanation: this.explain(weakest) };
+  }
+
+  private static explain(match: PasswordMatch): string {
+    const token = `"${match.token}"`;
+    switch (match.pattern) {
+      case 'dictionary': {
+        let explanation: string;
+        if (match.dictionary === 'passwords') {
+          explanation = match.rank! <= 100
+            ? `${token} is the ${ordinal(match.rank!)} most common password`
+            : `${token} is a commonly used password`;
+        } else if (match.dictionary === 'names') {
+          explanation = `${token} is a common name`;
+        } else if (match.dictionary === 'userInputs') {
+          explanation = `${token} is taken from your own account details`;
+        } else {
+          explanation = `${token} is a common word`;
+        }
+        if (match.reversed) {
+          explanation += ', spelled backwards';
+        }
+        if (match.substitutions) {
+          const swaps = Object.entries(match.substitutions).map(([substitute, letter]) => `${substitute} for ${letter}`);
+          explanation += `, with predictable substitutions (${swaps.join(', ')})`;
+        }
+        return explanation;
+      }
+      case 'spatial':
+        return match.turns === 1
+          ? `${token} is a straight line of keys on a ${match.graph} keyboard`
+          : `${token} is a short pattern of neighbouring keys on a ${match.graph} keyboard`;
+      case 'repeat':
+        return match.baseToken!.length === 1
+          ? `${token} repeats the same character`
+          : `${token} repeats "${match.baseToken}" ${match.repeatCount} times`;
+      case 'sequence':
+        if (/\d/.test(match.token)) {
+          return `${token} counts ${match.ascending ? 'up' : 'down'} through the digits`;
+        }
+        return `${token} runs ${match.ascending ? 'forwards' : 'backwards'} through the alphabet`;
+      case 'date':
+        return /^\d{4}$/.test(match.token) ? `${token} looks like a year` : `${token} looks like a date`;
+      default:
+        return `${token} has no recognisable pattern`;
+    }
+  }
+
+  private static getFeedback(
+    password: string,
+    score: number,
+    sequence: PasswordMatch[],
+    weakest: WeakestMatch | null
+  ): { feedback: string[]; recommendations: string[] } {
+    if (!password) {
+      return {
+        feedback: [],
+        recommendations: ['Use a few words, avoid common phrases', 'No need for symbols, digits, or uppercase letters'],
+      };
+    }
+    if (score > 2) {
+      return { feedback: [], recommendations: [] };
+    }
+
+    const feedback = weakest ? [weakest.explanation] : ['Password is too short'];
+    const recommendations = ['Add another word or two. Uncommon words are better.'];
+    const patterns = new Set(sequence.map(match => match.pattern));
+
+    if (patterns.has('spatial')) {
+      recommendations.push('Use a longer keyboard pattern with more turns');
+    }
+    if (patterns.has('repeat')) {
+      recommendations.push('Avoid repeated words and characters');
+    }
+    if (patterns.has('sequence')) {
+      recommendations.push('Avoid sequences');
+    }
+    if (patterns.has('date')) {
+      recommendations.push('Avoid dates and years that are associated with you');
+    }
+    for (const match of sequence.filter(entry => entry.pattern === 'dictionary')) {
+      if (/^[A-Z][^A-Z]+$/.test(match.token)) {
+        recommendations.push('Capitalization doesn\'t help very much');
+      } else if (match.token === match.token.toUpperCase() && match.token !== match.token.toLowerCase()) {
+        recommendations.push('All-uppercase is almost as easy to guess as all-lowercase');
+      }
+      if (match.reversed) {
+        recommendations.push('Reversed words aren\'t much harder to guess');
+      }
+      if (match.substitutions) {
+        recommendations.push('Predictable substitutions like \'@\' instead of \'a\' don\'t help very much');
+      }
+    }
+
+    return { feedback, recommendations: [...new Set(recommendations)] };
+  }
+
+  private static displayTime(seconds: number): string {
+    const units: Array<[string, number]> = [
+      ['second', 1],
+      ['minute', 60],
+      ['hour', 3600],
+      ['day', 86400],
+      ['month', 86400 * 31],
+      ['year', 86400 * 365],
+    ];
+    if (seconds < 1) {
+      return 'less than a second';
+    }
+    if (seconds >= 86400 * 365 * 100) {
+      return 'centuries';
+    }
+    let [unit, size] = units[0];
+    for (const entry of units) {
+      if (seconds >= entry[1]) {
+        [unit, size] = entry;
+      }
+    }
+    const count = Math.round(seconds / size);
+    return `${count} ${unit}${count === 1 ? '' : 's'}`;
+  }
+}
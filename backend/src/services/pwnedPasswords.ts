@@ -0,0 +1,291 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import https from 'https';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Breach counts for every SHA-1 hash sharing a five character prefix, keyed by the
+ * remaining 35 characters in upper case
+ */
+export type PwnedRange = Map<string, number>;
+
+/**
+ * Where hash ranges come from, following the Pwned Passwords k-anonymity model:
+ * only the first five characters of a password's SHA-1 hash are ever looked up.
+ */
+export interface PwnedRangeSource {
+  getRange(prefix: string): Promise<PwnedRange>;
+}
+
+const PREFIX_PATTERN = /^[0-9A-F]{5}$/;
+const HASH_LINE_PATTERN = /^([0-9A-F]{35}):(\d+)$/;
+
+/**
+ * Parse "SUFFIX:COUNT" lines, skipping the zero-count entries that padding adds
+ */
+const parseRange = (body: string): PwnedRange => {
+  const range: PwnedRange = new Map();
+  for (const line of body.split(/\r?\n/)) {
+    const match = HASH_LINE_PATTERN.exec(line.trim().toUpperCase());
+    if (match && Number(match[2]) > 0) {
+      range.set(match[1], Number(match[2]));
+    }
+  }
+  return range;
+};
+
+/**
+ * The Pwned Passwords range API, or anything serving the same GET /range/{prefix} protocol
+ */
+export class ApiRangeSource implements PwnedRangeSource {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly options: { padding?: boolean; timeoutMs?: number } = {}
+  ) {}
+
+  async getRange(prefix: string): Promise<PwnedRange> {
+    const url = new URL(`range/${prefix}`, this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`);
+    const headers: Record<string, string> = { 'User-Agent': 'astadigbandhanam-vault' };
+    if (this.options.padding !== false) {
+      // Pads every response to 800-1000 entries, so its size does not give the prefix away
+      headers['Add-Padding'] = 'true';
+    }
+
+    return parseRange(await this.get(url, headers));
+  }
+
+  private get(url: URL, headers: Record<string, string>): Promise<string> {
+    const client = url.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const request = client.get(url, { headers, timeout: this.options.timeoutMs ?? 5000 }, (response) => {
+        if (response.statusCode !== 200) {
+          response.resume();
+          reject(new Error(`Range request failed with status ${response.statusCode}`));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        response.on('error', reject);
+      });
+      request.on('timeout', () => request.destroy(new Error('Range request timed out')));
+      request.on('error', reject);
+    });
+  }
+}
+
+/**
+ * A local copy of the full corpus as one file of "HASH:COUNT" lines sorted by hash, as
+ * published for download ordered by hash. Ranges are found by binary search, so the file is
+ * never loaded into memory.
+ */
+export class HashFileRangeSource implements PwnedRangeSource {
+  // Longer than any line, so a read from anywhere in the file reaches the next line start
+  private static readonly PROBE_SIZE = 256;
+  private static readonly CHUNK_SIZE = 64 * 1024;
+
+  constructor(private readonly filePath: string) {}
+
+  async getRange(prefix: string): Promise<PwnedRange> {
+    const handle = await fs.promises.open(this.filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+
+      // Narrow down to a window just before the first line with the prefix
+      let low = 0;
+      let high = size;
+      while (high - low > HashFileRangeSource.PROBE_SIZE) {
+        const middle = Math.floor((low + high) / 2);
+        const key = await this.probe(handle, middle);
+        if (key !== null && key < prefix) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+
+      return parseRange((await this.collect(handle, low, prefix)).join('\n'));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * The hash prefix of the first line starting after an offset, or null past the last line
+   */
+  private async probe(handle: fs.promises.FileHandle, offset: number): Promise<string | null> {
+    const buffer = Buffer.alloc(HashFileRangeSource.PROBE_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+    const text = buffer.toString('utf8', 0, bytesRead);
+    const newline = text.indexOf('\n');
+    const key = newline === -1 ? '' : text.slice(newline + 1, newline + 6);
+    return key.length === 5 ? key.toUpperCase() : null;
+  }
+
+  /**
+   * Suffixes of the lines with the prefix, reading on from the line after an offset
+   */
+  private async collect(handle: fs.promises.FileHandle, offset: number, prefix: string): Promise<string[]> {
+    const buffer = Buffer.alloc(HashFileRangeSource.CHUNK_SIZE);
+    const suffixes: string[] = [];
+    // Unless reading from the very start, the text before the first newline is a partial line
+    let skipPartial = offset > 0;
+    let rest = '';
+
+    for (let position = offset; ; ) {
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      position += bytesRead;
+      const lines = (rest + buffer.toString('utf8', 0, bytesRead)).split('\n');
+      rest = bytesRead ? lines.pop()! : '';
+
+      for (const line of lines) {
+        if (skipPartial) {
+          skipPartial = false;
+          continue;
+        }
+        const key = line.slice(0, 5).toUpperCase();
+        if (key > prefix) {
+          return suffixes;
+        }
+        if (key === prefix) {
+          suffixes.push(line.slice(5));
+        }
+      }
+
+      if (!bytesRead) {
+        return suffixes;
+      }
+    }
+  }
+}
+
+/**
+ * A downloaded mirror of the range API: one "{prefix}.txt" file of "SUFFIX:COUNT" lines per prefix
+ */
+export class RangeMirrorSource implements PwnedRangeSource {
+  constructor(private readonly directory: string) {}
+
+  async getRange(prefix: string): Promise<PwnedRange> {
+    try {
+      return parseRange(await fs.promises.readFile(path.join(this.directory, `${prefix}.txt`), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Range file for ${prefix} is missing from the mirror`);
+      }
+      throw error;
+    }
+  }
+}
+
+let rangeSource: PwnedRangeSource | null = null;
+
+/**
+ * The range source selected by PWNED_PASSWORDS_SOURCE: `api` (the default), `file` for a
+ * sorted hash file or `mirror` for a directory of range files, for air-gapped deployments
+ */
+export const getPwnedRangeSource = (): PwnedRangeSource => {
+  if (!rangeSource) {
+    const type = process.env.PWNED_PASSWORDS_SOURCE || 'api';
+
+    switch (type) {
+      case 'api':
+        rangeSource = new ApiRangeSource(process.env.PWNED_PASSWORDS_URL || 'https://api.pwnedpasswords.com', {
+          padding: process.env.PWNED_PASSWORDS_PADDING !== 'false',
+        });
+        break;
+      case 'file':
+        if (!process.env.PWNED_PASSWORDS_FILE) {
+          throw new Error('PWNED_PASSWORDS_FILE must point to a sorted hash file');
+        }
+        rangeSource = new HashFileRangeSource(process.env.PWNED_PASSWORDS_FILE);
+        break;
+      case 'mirror':
+        if (!process.env.PWNED_PASSWORDS_RANGE_DIR) {
+          throw new Error('PWNED_PASSWORDS_RANGE_DIR must point to a directory of range files');
+        }
+        rangeSource = new RangeMirrorSource(process.env.PWNED_PASSWORDS_RANGE_DIR);
+        break;
+      default:
+        throw new Error(`Unsupported Pwned Passwords source: ${type}`);
+    }
+  }
+
+  return rangeSource;
+};
+
+/**
+ * Pwned Passwords Service
+ * Counts how often a password appears in known breaches without the password, or even its
+ * full hash, leaving this server.
+ */
+export class PwnedPasswordsService {
+  // Ranges change only when a new breach is loaded, so a day is fresh enough
+  private static readonly CACHE_TTL_MS = Number(process.env.PWNED_PASSWORDS_CACHE_TTL || 24 * 60 * 60) * 1000;
+  // About 30 KB each once padded
+  private static readonly MAX_CACHED_RANGES = 256;
+
+  private static readonly cache = new Map<string, { range: PwnedRange; expiresAt: number }>();
+  private static readonly pending = new Map<string, Promise<PwnedRange>>();
+
+  /**
+   * How many times a password appears in the corpus, 0 if never
+   */
+  static async getBreachCount(password: string): Promise<number> {
+    const hash = crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+    const range = await this.getRange(hash.slice(0, 5));
+
+    return range.get(hash.slice(5)) ?? 0;
+  }
+
+  /**
+   * The range for a hash prefix, from the cache when it is still fresh
+   */
+  static async getRange(prefix: string): Promise<PwnedRange> {
+    const normalized = prefix.toUpperCase();
+    if (!PREFIX_PATTERN.test(normalized)) {
+      throw new AppError('Hash prefix must be five hexadecimal characters', 400, 'INVALID_HASH_PREFIX');
+    }
+
+    const cached = this.cache.get(normalized);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.range;
+    }
+
+    // Concurrent checks of the same prefix share one lookup
+    let lookup = this.pending.get(normalized);
+    if (!lookup) {
+      lookup = this.fetchRange(normalized);
+      this.pending.set(normalized, lookup);
+    }
+    return lookup;
+  }
+
+  static clearCache(): void {
+    this.cache.clear();
+  }
+
+  private static async fetchRange(prefix: string): Promise<PwnedRange> {
+    try {
+      const range = await getPwnedRangeSource().getRange(prefix);
+
+      this.cache.delete(prefix);
+      if (this.cache.size >= this.MAX_CACHED_RANGES) {
+        // Maps keep insertion order, so the first key is the oldest entry
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+      this.cache.set(prefix, { range, expiresAt: Date.now() + this.CACHE_TTL_MS });
+
+      return range;
+    } catch (error) {
+      logger.error('Pwned Passwords range lookup failed:', error);
+      throw new AppError('Breach check is unavailable, try again later', 503, 'BREACH_CHECK_UNAVAILABLE');
+    } finally {
+      this.pending.delete(prefix);
+    }
+  }
+}
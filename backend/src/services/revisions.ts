@@ -0,0 +1,123 @@
+import mongoose from 'mongoose';
+import { VaultItem, IVaultItem } from '../models/VaultItem';
+import { VaultItemRevision, IVaultItemRevision } from '../models/VaultItemRevision';
+import { ShareService, ShareKey } from './shares';
+import { AttachmentService, AttachmentKey } from './attachments';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Revision Service
+ * Keeps the payloads a vault item held before each overwrite, so a bad edit can be undone.
+ * Revisions stay encrypted under the vault key; comparing them happens in the browser.
+ */
+export class RevisionService {
+  // Older revisions beyond this are dropped as new ones are recorded
+  static readonly MAX_REVISIONS_PER_ITEM = 20;
+
+  /**
+   * Keep an item's current payload as a revision before it is replaced
+   * Legacy server-encrypted payloads are skipped: they are re-encrypted on migration anyway,
+   * and their data keys follow the master key rather than the vault key.
+   */
+  static async record(item: IVaultItem): Promise<void> {
+    if (!item.clientEncrypted) {
+      return;
+    }
+
+    await VaultItemRevision.create({
+      itemId: item._id,
+      userId: item.userId,
+      revision: item.revision,
+      encryptedData: item.encryptedData,
+      encryptedDataKey: item.encryptedDataKey,
+      iv: item.iv,
+      tag: item.tag,
+      algorithm: item.algorithm,
+      encryptionVersion: item.encryptionVersion,
+      searchTokens: item.searchTokens,
+      searchIndexVersion: item.searchIndexVersion,
+      restoredFrom: item.restoredFrom,
+    });
+
+    await VaultItemRevision.deleteMany({
+      itemId: item._id,
+      revision: { $lte: item.revision - this.MAX_REVISIONS_PER_ITEM },
+    });
+  }
+
+  /**
+   * Earlier payloads of an item, newest first
+   */
+  static async list(userId: string, itemId: string): Promise<IVaultItemRevision[]> {
+    await this.getItem(userId, itemId);
+
+    return VaultItemRevision.find({ itemId, userId }).sort({ revision: -1 });
+  }
+
+  /**
+   * Put an earlier payload back as the item's current one
+   * The payload being replaced is recorded first and the item moves to a new revision,
+   * so a rollback can itself be rolled back. Shared items need the revision's data key wrapped
+   * for each recipient, and attachment keys re-wrapped under it. Revisions from before a share
+   * was revoked are refused, as they would put the item back under a key the former recipient holds.
+   */
+  static async restore(
+    userId: string,
+    itemId: string,
+    revision: number,
+    shareKeys: ShareKey[] = [],
+    attachmentKeys: AttachmentKey[] = []
+  ): Promise<IVaultItem> {
+    const item = await this.getItem(userId, itemId);
+    const previous = await VaultItemRevision.findOne({ itemId, userId, revision });
+    if (!previous) {
+      throw new AppError('Revision not found', 404, 'REVISION_NOT_FOUND');
+    }
+    if (revision < item.keyRotatedRevision) {
+      throw new AppError('This revision predates a revoked share and can no longer be restored', 409, 'REVISION_KEY_REVOKED');
+    }
+    await ShareService.assertShareKeys(item, shareKeys);
+    await AttachmentService.assertAttachmentKeys(item, attachmentKeys);
+
+    await this.record(item);
+
+    item.encryptedData = previous.encryptedData;
+    item.encryptedDataKey = previous.encryptedDataKey;
+    item.iv = previous.iv;
+    item.tag = previous.tag;
+    item.algorithm = previous.algorithm;
+    item.encryptionVersion = previous.encryptionVersion;
+    item.clientEncrypted = true;
+    item.searchTokens = previous.searchTokens;
+    item.searchIndexVersion = previous.searchIndexVersion;
+    // Rechecked by the client from the restored payload
+    item.health = null;
+    item.revision += 1;
+    item.restoredFrom = revision;
+    await item.save();
+    await ShareService.setShareKeys(shareKeys);
+    await AttachmentService.setAttachmentKeys(attachmentKeys);
+
+    logger.info('Vault item revision restored', { userId, itemId, restoredFrom: revision, revision: item.revision });
+
+    return item;
+  }
+
+  /**
+   * Drop the history of items that were permanently deleted
+   */
+  static async deleteForItems(itemIds: mongoose.Types.ObjectId[] | string[]): Promise<void> {
+    if (itemIds.length > 0) {
+      await VaultItemRevision.deleteMany({ itemId: { $in: itemIds } });
+    }
+  }
+
+  private static async getItem(userId: string, itemId: string): Promise<IVaultItem> {
+    const item = await VaultItem.findOne({ _id: itemId, userId, isDeleted: false });
+    if (!item) {
+      throw new AppError('Vault item not found', 404, 'VAULT_ITEM_NOT_FOUND');
+    }
+    return item;
+  }
+}
@@ -1,16 +1,29 @@
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
+import crypto from 'crypto';
 import { SecurityFeature, SecurityDirection } from '../models/SecurityFeature';
-import { User } from '../models/User';
+import { User, IUser } from '../models/User';
+import { WebAuthnCredential } from '../models/WebAuthnCredential';
+import { Device } from '../models/Device';
 import { AuditLog, AuditEventType, AuditSeverity } from '../models/AuditLog';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { AuthService } from './auth';
+import { KdfService } from './kdf';
+import { PwnedPasswordsService } from './pwnedPasswords';
+import { WatchtowerService, WatchtowerReport } from './watchtower';
 
 /**
  * Security Features Service implementing Aṣṭa Digbandhanam
  * Manages the eight-directional security protection system
  */
 export class SecurityFeaturesService {
+  private static readonly RECOVERY_CODE_COUNT = 10;
+  private static readonly RECOVERY_CODE_LENGTH = 10;
+  // Crockford-style alphabet without easily confused characters (0/O, 1/I/L)
+  private static readonly RECOVERY_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  private static readonly TOTP_STEP_SECONDS = 30;
+
   /**
    * Initialize default security features for a new user
    */
@@ -22,7 +35,7 @@ export class SecurityFeaturesService {
           name: 'Master Password Protection',
           description: 'Argon2id KDF with zero-knowledge architecture',
           maxScore: 100,
-          configuration: { algorithm: 'argon2id', iterations: 100000 },
+          configuration: { ...KdfService.CURRENT },
         },
         {
           direction: SecurityDirection.SOUTHEAST,
@@ -71,7 +84,11 @@ export class SecurityFeaturesService {
           name: 'Watchtower AI',
           description: 'Breach alerts and password strength analysis',
           maxScore: 100,
-          configuration: { breachMonitoring: false, strengthAnalysis: false },
+          configuration: {
+            breachMonitoring: false,
+            strengthAnalysis: false,
+            maxPasswordAgeDays: WatchtowerService.DEFAULT_MAX_PASSWORD_AGE_DAYS,
+          },
         },
         {
           direction: SecurityDirection.ABOVE,
@@ -192,16 +209,10 @@ export class SecurityFeaturesService {
       // Update user with 2FA secret
       await User.findByIdAndUpdate(userId, {
         twoFactorSecret: secret.base32,
+        twoFactorLastStep: null,
         twoFactorEnabled: false, // Will be enabled after verification
       });
 
-      // Update security feature
-      await this.updateSecurityFeature(userId, SecurityDirection.SOUTHEAST, {
-        enabled: false,
-        score: 50, // Partial score until verified
-        configuration: { totpEnabled: true, secret: secret.base32 },
-      });
-
       await this.logSecurityEvent(
         userId,
         AuditEventType.TWO_FACTOR_ENABLE,
@@ -218,29 +229,22 @@ export class SecurityFeaturesService {
 
   /**
    * Verify Two-Factor Authentication token
+   * Returns a fresh set of recovery codes once the setup is verified
    */
-  static async verifyTwoFactor(userId: string, token: string): Promise<boolean> {
+  static async verifyTwoFactor(userId: string, token: string): Promise<{ verified: boolean; recoveryCodes?: string[] }> {
     try {
       const user = await User.findById(userId);
       if (!user || !user.twoFactorSecret) {
         throw new AppError('Two-factor authentication not set up', 400, 'TWO_FACTOR_NOT_SETUP');
       }
 
-      const verified = speakeasy.totp.verify({
-        secret: user.twoFactorSecret,
-        encoding: 'base32',
-        token,
-        window: 2, // Allow 2 time steps tolerance
-      });
+      const verified = await this.consumeTotpCode(user, token);
+      let recoveryCodes: string[] | undefined;
 
       if (verified) {
         // Enable 2FA and update security score
         await User.findByIdAndUpdate(userId, { twoFactorEnabled: true });
-        await this.updateSecurityFeature(userId, SecurityDirection.SOUTHEAST, {
-          enabled: true,
-          score: 100,
-          configuration: { totpEnabled: true, verified: true },
-        });
+        await this.syncAuthenticatorFeatures(userId);
 
         await this.logSecurityEvent(
           userId,
@@ -248,9 +252,11 @@ export class SecurityFeaturesService {
           'Two-factor authentication verified and enabled',
           { direction: SecurityDirection.SOUTHEAST }
         );
+
+        recoveryCodes = await this.generateRecoveryCodes(userId);
       }
 
-      return verified;
+      return { verified, recoveryCodes };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -260,21 +266,249 @@ export class SecurityFeaturesService {
     }
   }
 
+  /**
+   * Check a TOTP code and record its time step, so neither it nor an older code works again
+   * Codes from the neighbouring steps are accepted to allow for clock drift.
+   */
+  private static async consumeTotpCode(user: IUser, token: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const match = speakeasy.totp.verifyDelta({
+      secret: user.twoFactorSecret,
+      encoding: 'base32',
+      token,
+      window: 1,
+    });
+    if (!match) {
+      return false;
+    }
+
+    // Conditional update so two concurrent logins cannot both spend the same code
+    const step = Math.floor(Date.now() / 1000 / this.TOTP_STEP_SECONDS) + match.delta;
+    const result = await User.updateOne(
+      { _id: user._id, $or: [{ twoFactorLastStep: null }, { twoFactorLastStep: { $lt: step } }] },
+      { $set: { twoFactorLastStep: step } }
+    );
+    if (result.modifiedCount === 0) {
+      return false;
+    }
+
+    user.twoFactorLastStep = step;
+    return true;
+  }
+
+  /**
+   * Derive SOUTHEAST (MFA) and NORTH (biometric unlock) from the factors actually registered
+   */
+  static async syncAuthenticatorFeatures(userId: string): Promise<void> {
+    const user = await User.findById(userId).select('twoFactorEnabled');
+    const credentials = await WebAuthnCredential.find({ userId }).select('authenticatorAttachment userVerified');
+
+    const totpEnabled = !!user?.twoFactorEnabled;
+    const webauthnEnabled = credentials.length > 0;
+    // Platform authenticators that verified the user are FaceID/TouchID/Windows Hello style unlocks
+    const biometricEnabled = credentials.some(
+      credential => credential.authenticatorAttachment === 'platform' && credential.userVerified
+    );
+
+    await SecurityFeature.findOneAndUpdate(
+      { userId, direction: SecurityDirection.SOUTHEAST },
+      {
+        $set: {
+          enabled: totpEnabled || webauthnEnabled,
+          score: totpEnabled || webauthnEnabled ? 100 : 0,
+          'configuration.totpEnabled': totpEnabled,
+          'configuration.webauthnEnabled': webauthnEnabled,
+          'configuration.webauthnCredentials': credentials.length,
+        },
+      }
+    );
+
+    await SecurityFeature.findOneAndUpdate(
+      { userId, direction: SecurityDirection.NORTH },
+      {
+        $set: {
+          enabled: biometricEnabled,
+          score: biometricEnabled ? 100 : 0,
+          'configuration.biometricEnabled': biometricEnabled,
+        },
+      }
+    );
+
+    await this.calculateSecurityScore(userId);
+  }
+
+  /**
+   * Derive EAST (Master Password Protection) from the user's key derivation parameters
+   * Half marks while the vault key is still wrapped under outdated parameters.
+   */
+  static async syncMasterPasswordFeature(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      return;
+    }
+
+    const { algorithm, iterations, memory, parallelism, version } = user.kdf;
+
+    await SecurityFeature.findOneAndUpdate(
+      { userId, direction: SecurityDirection.EAST },
+      {
+        $set: {
+          enabled: user.zeroKnowledge,
+          score: user.zeroKnowledge ? (KdfService.isOutdated(user.kdf) ? 50 : 100) : 0,
+          configuration: { algorithm, iterations, memory, parallelism, version },
+        },
+      }
+    );
+
+    await this.calculateSecurityScore(userId);
+  }
+
+  /**
+   * Derive SOUTH (Device Binding) from the device registry
+   * Full marks when every bound device has been verified, nothing until one is.
+   */
+  static async syncDeviceBindingFeature(userId: string): Promise<void> {
+    const devices = await Device.find({ userId, revokedAt: null }).sort({ lastSeenAt: -1 });
+    const verified = devices.filter(device => device.verifiedAt !== null);
+
+    await SecurityFeature.findOneAndUpdate(
+      { userId, direction: SecurityDirection.SOUTH },
+      {
+        $set: {
+          enabled: verified.length > 0,
+          score: verified.length > 0 ? Math.round((verified.length / devices.length) * 100) : 0,
+          'configuration.trustedDevices': verified.map(device => ({
+            id: device._id,
+            name: device.name,
+            lastSeenAt: device.lastSeenAt,
+          })),
+          'configuration.boundDevices': devices.length,
+          'configuration.verifiedDevices': verified.length,
+        },
+      }
+    );
+
+    await this.calculateSecurityScore(userId);
+  }
+
+  /**
+   * Derive NORTHEAST (Watchtower) from the findings over the user's logins
+   * Nothing while Watchtower is off. Returns the report the score came from.
+   */
+  static async syncWatchtowerFeature(userId: string): Promise<WatchtowerReport> {
+    const feature = await SecurityFeature.findOne({ userId, direction: SecurityDirection.NORTHEAST });
+    const report = await WatchtowerService.getReport(
+      userId,
+      feature?.configuration?.maxPasswordAgeDays ?? WatchtowerService.DEFAULT_MAX_PASSWORD_AGE_DAYS
+    );
+
+    await SecurityFeature.findOneAndUpdate(
+      { userId, direction: SecurityDirection.NORTHEAST },
+      {
+        $set: {
+          score: feature?.enabled ? report.score : 0,
+          'configuration.summary': report.summary,
+          'configuration.lastReportAt': report.generatedAt,
+        },
+      }
+    );
+
+    await this.calculateSecurityScore(userId);
+
+    return report;
+  }
+
+  /**
+   * Check a TOTP code or consume a recovery code, whichever the input is shaped like
+   * Recovery codes cost an Argon2 verify per stored hash, so other input never reaches them.
+   */
+  static async verifySecondFactor(user: IUser, code: string): Promise<boolean> {
+    if (/^\d{6}$/.test(code.trim())) {
+      return this.consumeTotpCode(user, code.trim());
+    }
+
+    return this.consumeRecoveryCode(user, code);
+  }
+
+  /**
+   * Replace the user's recovery codes with a new set
+   * Only hashes are stored, so the plaintext codes are returned exactly once.
+   */
+  static async generateRecoveryCodes(userId: string): Promise<string[]> {
+    try {
+      const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+      // One at a time, as every Argon2 hash holds its own 64 MB
+      const hashes: string[] = [];
+      for (const code of codes) {
+        hashes.push(await AuthService.hashPassword(this.normalizeRecoveryCode(code)));
+      }
+
+      await User.findByIdAndUpdate(userId, { twoFactorRecoveryCodes: hashes });
+
+      await this.logSecurityEvent(
+        userId,
+        AuditEventType.RECOVERY_CODES_GENERATE,
+        'Two-factor recovery codes generated',
+        { direction: SecurityDirection.SOUTHEAST, count: codes.length }
+      );
+
+      return codes;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Failed to generate recovery codes:', error);
+      throw new AppError('Failed to generate recovery codes', 500, 'RECOVERY_CODES_ERROR');
+    }
+  }
+
+  /**
+   * Regenerate recovery codes after confirming a current second factor
+   */
+  static async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await User.findById(userId);
+    const hasSecurityKey = (await WebAuthnCredential.exists({ userId })) !== null;
+    if (!user || (!user.twoFactorEnabled && !hasSecurityKey)) {
+      throw new AppError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    const isValid = await this.verifySecondFactor(user, code);
+    if (!isValid) {
+      throw new AppError('Invalid two-factor authentication token', 401, 'INVALID_2FA_TOKEN');
+    }
+
+    return this.generateRecoveryCodes(userId);
+  }
+
+  /**
+   * Count unused recovery codes
+   */
+  static async getRemainingRecoveryCodes(userId: string): Promise<number> {
+    const user = await User.findById(userId).select('twoFactorRecoveryCodes');
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    return user.twoFactorRecoveryCodes.length;
+  }
+
   /**
    * Disable Two-Factor Authentication
    */
   static async disableTwoFactor(userId: string): Promise<void> {
     try {
+      // Recovery codes stay valid while a security key still guards the account
+      const hasSecurityKey = (await WebAuthnCredential.exists({ userId })) !== null;
+
       await User.findByIdAndUpdate(userId, {
         twoFactorEnabled: false,
         twoFactorSecret: null,
+        ...(hasSecurityKey ? {} : { twoFactorRecoveryCodes: [] }),
       });
 
-      await this.updateSecurityFeature(userId, SecurityDirection.SOUTHEAST, {
-        enabled: false,
-        score: 0,
-        configuration: { totpEnabled: false, webauthnEnabled: false },
-      });
+      await this.syncAuthenticatorFeatures(userId);
 
       await this.logSecurityEvent(
         userId,
@@ -318,9 +552,10 @@ export class SecurityFeaturesService {
     try {
       await this.updateSecurityFeature(userId, SecurityDirection.NORTHEAST, {
         enabled: true,
-        score: 100,
-        configuration: { breachMonitoring: true, strengthAnalysis: true },
+        'configuration.breachMonitoring': true,
+        'configuration.strengthAnalysis': true,
       });
+      await this.syncWatchtowerFeature(userId);
 
       await this.logSecurityEvent(
         userId,
@@ -335,105 +570,32 @@ export class SecurityFeaturesService {
   }
 
   /**
-   * Check password strength and provide recommendations
+   * Set how many days a password may go unchanged before Watchtower reports it
    */
-  static analyzePasswordStrength(password: string): {
-    score: number;
-    feedback: string[];
-    recommendations: string[];
-  } {
-    const feedback: string[] = [];
-    const recommendations: string[] = [];
-    let score = 0;
-
-    // Length check
-    if (password.length >= 12) {
-      score += 25;
-    } else if (password.length >= 8) {
-      score += 15;
-      feedback.push('Password could be longer');
-      recommendations.push('Use at least 12 characters');
-    } else {
-      feedback.push('Password is too short');
-      recommendations.push('Use at least 8 characters');
-    }
+  static async updateWatchtowerSettings(userId: string, maxPasswordAgeDays: number): Promise<WatchtowerReport> {
+    await SecurityFeature.findOneAndUpdate(
+      { userId, direction: SecurityDirection.NORTHEAST },
+      { $set: { 'configuration.maxPasswordAgeDays': maxPasswordAgeDays } }
+    );
 
-    // Character variety checks
-    if (/[a-z]/.test(password)) score += 10;
-    else {
-      feedback.push('Missing lowercase letters');
-      recommendations.push('Include lowercase letters');
-    }
-
-    if (/[A-Z]/.test(password)) score += 10;
-    else {
-      feedback.push('Missing uppercase letters');
-      recommendations.push('Include uppercase letters');
-    }
-
-    if (/\d/.test(password)) score += 10;
-    else {
-      feedback.push('Missing numbers');
-      recommendations.push('Include numbers');
-    }
-
-    if (/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) score += 15;
-    else {
-      feedback.push('Missing special characters');
-      recommendations.push('Include special characters');
-    }
-
-    // Common patterns check
-    if (!/(.)\1{2,}/.test(password)) score += 10;
-    else {
-      feedback.push('Avoid repeated characters');
-      recommendations.push('Avoid repeating the same character');
-    }
-
-    if (!/123|abc|qwe|password|admin/i.test(password)) score += 10;
-    else {
-      feedback.push('Avoid common patterns');
-      recommendations.push('Avoid common words and patterns');
-    }
-
-    // Entropy check
-    const uniqueChars = new Set(password).size;
-    if (uniqueChars >= password.length * 0.7) score += 10;
-    else {
-      feedback.push('Low character diversity');
-      recommendations.push('Use more diverse characters');
-    }
-
-    return {
-      score: Math.min(score, 100),
-      feedback,
-      recommendations,
-    };
+    return this.syncWatchtowerFeature(userId);
   }
 
   /**
-   * Mock breach check (in production, this would integrate with HaveIBeenPwned API)
+   * Check a password against the Pwned Passwords corpus
+   * Only the first five characters of its SHA-1 hash leave the server, or none in offline mode.
    */
   static async checkPasswordBreach(password: string): Promise<{
     isBreached: boolean;
     breachCount: number;
     recommendations: string[];
   }> {
-    // Mock implementation - in production, use HaveIBeenPwned API
-    const mockBreachedPasswords = [
-      'password123',
-      '123456',
-      'admin',
-      'qwerty',
-      'letmein',
-    ];
-
-    const isBreached = mockBreachedPasswords.includes(password.toLowerCase());
-    const breachCount = isBreached ? Math.floor(Math.random() * 1000000) + 1000 : 0;
+    const breachCount = await PwnedPasswordsService.getBreachCount(password);
+    const isBreached = breachCount > 0;
 
     const recommendations = isBreached
       ? ['This password has been found in data breaches', 'Change this password immediately']
-      : ['Password appears to be secure'];
+      : ['Password was not found in any known data breach'];
 
     return {
       isBreached,
@@ -442,10 +604,75 @@ export class SecurityFeaturesService {
     };
   }
 
+  /**
+   * Match a recovery code against the stored hashes and remove it so it cannot be reused
+   */
+  private static async consumeRecoveryCode(user: IUser, code: string): Promise<boolean> {
+    const normalized = this.normalizeRecoveryCode(code);
+    if (!this.isRecoveryCode(normalized)) {
+      return false;
+    }
+
+    for (const hash of user.twoFactorRecoveryCodes) {
+      if (!await AuthService.verifyPassword(normalized, hash)) {
+        continue;
+      }
+
+      // Conditional pull so two concurrent logins cannot both spend the same code
+      const result = await User.updateOne(
+        { _id: user._id, twoFactorRecoveryCodes: hash },
+        { $pull: { twoFactorRecoveryCodes: hash } }
+      );
+      if (result.modifiedCount === 0) {
+        return false;
+      }
+
+      user.twoFactorRecoveryCodes = user.twoFactorRecoveryCodes.filter(stored => stored !== hash);
+
+      await this.logSecurityEvent(
+        user._id.toString(),
+        AuditEventType.RECOVERY_CODE_USED,
+        'Two-factor recovery code used',
+        { direction: SecurityDirection.SOUTHEAST, remaining: user.twoFactorRecoveryCodes.length }
+      );
+
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Generate a single recovery code formatted as XXXXX-XXXXX
+   */
+  private static generateRecoveryCode(): string {
+    const alphabet = this.RECOVERY_CODE_ALPHABET;
+    let code = '';
+    for (let i = 0; i < this.RECOVERY_CODE_LENGTH; i++) {
+      code += alphabet[crypto.randomInt(alphabet.length)];
+    }
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  /**
+   * Whether normalized input could be a recovery code at all
+   */
+  private static isRecoveryCode(normalized: string): boolean {
+    return normalized.length === this.RECOVERY_CODE_LENGTH
+      && [...normalized].every(char => this.RECOVERY_CODE_ALPHABET.includes(char));
+  }
+
+  /**
+   * Canonical form used for hashing, tolerant of case, spaces and dashes
+   */
+  private static normalizeRecoveryCode(code: string): string {
+    return code.toUpperCase().replace(/[\s-]/g, '');
+  }
+
   /**
    * Log security events for audit trail
    */
-  private static async logSecurityEvent(
+  static async logSecurityEvent(
     userId: string,
     eventType: AuditEventType,
     description: string,
@@ -479,6 +706,13 @@ export class SecurityFeaturesService {
       [AuditEventType.MASTER_PASSWORD_CHANGE]: AuditSeverity.CRITICAL,
       [AuditEventType.TWO_FACTOR_ENABLE]: AuditSeverity.HIGH,
       [AuditEventType.TWO_FACTOR_DISABLE]: AuditSeverity.HIGH,
+      [AuditEventType.RECOVERY_CODES_GENERATE]: AuditSeverity.HIGH,
+      [AuditEventType.RECOVERY_CODE_USED]: AuditSeverity.HIGH,
+      [AuditEventType.WEBAUTHN_CREDENTIAL_ADD]: AuditSeverity.HIGH,
+      [AuditEventType.WEBAUTHN_CREDENTIAL_REMOVE]: AuditSeverity.HIGH,
+      [AuditEventType.DEVICE_VERIFIED]: AuditSeverity.MEDIUM,
+      [AuditEventType.DEVICE_REVOKED]: AuditSeverity.HIGH,
+      [AuditEventType.SESSION_REVOKED]: AuditSeverity.MEDIUM,
       [AuditEventType.VAULT_ITEM_CREATE]: AuditSeverity.MEDIUM,
       [AuditEventType.VAULT_ITEM_UPDATE]: AuditSeverity.MEDIUM,
       [AuditEventType.VAULT_ITEM_DELETE]: AuditSeverity.MEDIUM,
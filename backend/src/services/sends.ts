@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { Send, ISend, SendType } from '../models/Send';
+import { AuthService } from './auth';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A send as encrypted in the owner's browser
+ */
+export interface SendInput {
+  type: SendType;
+  encryptedData: string;
+  iv: string;
+  tag: string;
+  encryptedFileName?: string | null;
+  encryptedName: string;
+  encryptedKey: string;
+  password?: string | null;
+  maxViews?: number | null;
+  expiresAt: Date;
+}
+
+/**
+ * Settings the owner can change after creating a send; a null password removes it
+ */
+export interface SendUpdate {
+  encryptedName?: string;
+  password?: string | null;
+  maxViews?: number | null;
+  expiresAt?: Date;
+  disabled?: boolean;
+}
+
+/**
+ * What an anonymous recipient gets, to decrypt with the key from the link
+ */
+export interface SendAccess {
+  type: SendType;
+  encryptedData: string;
+  iv: string;
+  tag: string;
+  algorithm: 'aes';
+  encryptedFileName: string | null;
+  expiresAt: Date;
+  // Null when the send has no view limit
+  remainingViews: number | null;
+}
+
+/**
+ * Send Service
+ * Handles one-off encrypted texts and files for people without an account. The server
+ * only ever holds ciphertext and deletes it once the view limit or the expiry is reached.
+ */
+export class SendService {
+  static readonly MAX_SIZE_BYTES = 5 * 1024 * 1024;
+  static readonly MAX_LIFETIME_DAYS = 30;
+  static readonly MAX_VIEWS = 1000;
+  static readonly MAX_SENDS = 100;
+
+  /**
+   * The user's sends, newest first, without their ciphertext
+   */
+  static async list(userId: string): Promise<ISend[]> {
+    return Send.find({ userId }).select('-encryptedData').sort({ createdAt: -1 });
+  }
+
+  static async get(userId: string, sendId: string): Promise<ISend> {
+    const send = await Send.findOne({ _id: sendId, userId });
+    if (!send) {
+      throw new AppError('Send not found', 404, 'SEND_NOT_FOUND');
+    }
+
+    return send;
+  }
+
+  static async create(userId: string, input: SendInput): Promise<ISend> {
+    if (await Send.countDocuments({ userId }) >= this.MAX_SENDS) {
+      throw new AppError(`You can have at most ${this.MAX_SENDS} active sends`, 400, 'SEND_LIMIT_REACHED');
+    }
+
+    const size = Buffer.byteLength(input.encryptedData, 'base64');
+    if (size > this.MAX_SIZE_BYTES) {
+      throw new AppError(`Sends can be at most ${this.MAX_SIZE_BYTES / (1024 * 1024)} MB`, 413, 'SEND_TOO_LARGE');
+    }
+
+    if (input.type === SendType.FILE && !input.encryptedFileName) {
+      throw new AppError('File sends need an encrypted file name', 400, 'SEND_FILE_NAME_REQUIRED');
+    }
+
+    this.assertExpiry(input.expiresAt);
+
+    const send = await Send.create({
+      userId,
+      accessId: crypto.randomBytes(16).toString('base64url'),
+      type: input.type,
+      encryptedData: input.encryptedData,
+      iv: input.iv,
+      tag: input.tag,
+      encryptedFileName: input.type === SendType.FILE ? input.encryptedFileName : null,
+      encryptedName: input.encryptedName,
+      encryptedKey: input.encryptedKey,
+      size,
+      passwordHash: input.password ? await AuthService.hashPassword(input.password) : null,
+      maxViews: input.maxViews ?? null,
+      expiresAt: input.expiresAt,
+    });
+
+    logger.info('Send created', { userId, sendId: send._id, type: send.type });
+
+    return send;
+  }
+
+  static async update(userId: string, sendId: string, updates: SendUpdate): Promise<ISend> {
+    const send = await this.get(userId, sendId);
+
+    if (updates.expiresAt !== undefined) {
+      this.assertExpiry(updates.expiresAt);
+      send.expiresAt = updates.expiresAt;
+    }
+
+    if (updates.maxViews !== undefined) {
+      if (updates.maxViews !== null && updates.maxViews <= send.viewCount) {
+        throw new AppError(`This send has already been viewed ${send.viewCount} times`, 400, 'SEND_MAX_VIEWS_TOO_LOW');
+      }
+      send.maxViews = updates.maxViews;
+    }
+
+    if (updates.password !== undefined) {
+      send.passwordHash = updates.password ? await AuthService.hashPassword(updates.password) : null;
+    }
+
+    if (updates.encryptedName !== undefined) {
+      send.encryptedName = updates.encryptedName;
+    }
+
+    if (updates.disabled !== undefined) {
+      send.disabled = updates.disabled;
+    }
+
+    await send.save();
+
+    return send;
+  }
+
+  static async remove(userId: string, sendId: string): Promise<void> {
+    const send = await this.get(userId, sendId);
+    await send.deleteOne();
+
+    logger.info('Send deleted', { userId, sendId });
+  }
+
+  /**
+   * Hand a send's ciphertext to an anonymous recipient, counting the view
+   * The last allowed view deletes the send, as does opening it after it expired.
+   */
+  static async access(accessId: string, password?: string): Promise<SendAccess> {
+    const send = await Send.findOne({ accessId });
+    if (!send || send.disabled) {
+      throw new AppError('This send does not exist or is no longer available', 404, 'SEND_NOT_FOUND');
+    }
+
+    // The TTL monitor only runs once a minute
+    if (send.expiresAt <= new Date()) {
+      await send.deleteOne();
+      throw new AppError('This send does not exist or is no longer available', 404, 'SEND_NOT_FOUND');
+    }
+
+    if (send.passwordHash) {
+      if (!password) {
+        throw new AppError('This send is protected by a password', 401, 'SEND_PASSWORD_REQUIRED');
+      }
+      if (!await AuthService.verifyPassword(password, send.passwordHash)) {
+        throw new AppError('Invalid password', 401, 'INVALID_SEND_PASSWORD');
+      }
+    }
+
+    // Counted atomically, so concurrent requests cannot go over the limit
+    const viewed = await Send.findOneAndUpdate(
+      {
+        _id: send._id,
+        $or: [{ maxViews: null }, { $expr: { $lt: ['$viewCount', '$maxViews'] } }],
+      },
+      { $inc: { viewCount: 1 } },
+      { new: true }
+    );
+    if (!viewed) {
+      throw new AppError('This send does not exist or is no longer available', 404, 'SEND_NOT_FOUND');
+    }
+
+    const remainingViews = viewed.maxViews === null ? null : viewed.maxViews - viewed.viewCount;
+    if (remainingViews === 0) {
+      await viewed.deleteOne();
+      logger.info('Send reached its view limit and was deleted', { sendId: viewed._id });
+    }
+
+    return {
+      type: viewed.type,
+      encryptedData: viewed.encryptedData,
+      iv: viewed.iv,
+      tag: viewed.tag,
+      algorithm: viewed.algorithm,
+      encryptedFileName: viewed.encryptedFileName,
+      expiresAt: viewed.expiresAt,
+      remainingViews,
+    };
+  }
+
+  private static assertExpiry(expiresAt: Date): void {
+    const now = Date.now();
+    if (expiresAt.getTime() <= now) {
+      throw new AppError('Expiry must be in the future', 400, 'INVALID_SEND_EXPIRY');
+    }
+    if (expiresAt.getTime() > now + this.MAX_LIFETIME_DAYS * DAY_MS) {
+      throw new AppError(`Sends can last at most ${this.MAX_LIFETIME_DAYS} days`, 400, 'INVALID_SEND_EXPIRY');
+    }
+  }
+}
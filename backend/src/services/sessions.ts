@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Session, ISession, SessionRevocationReason } from '../models/Session';
+import { Device } from '../models/Device';
+import { AuditEventType } from '../models/AuditLog';
+import { AuthService } from './auth';
+import { DeviceContext } from './devices';
+import { TokenDenylistService } from './tokenDenylist';
+import { SecurityFeaturesService } from './securityFeatures';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Session Service
+ * Stores refresh tokens per session so each browser can be signed out on its own.
+ */
+export class SessionService {
+  /**
+   * Hash a refresh token for storage and lookup
+   */
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Start a new session and issue its first refresh token
+   */
+  static async createSession(
+    userId: string,
+    context: DeviceContext,
+    deviceId: string | null = null
+  ): Promise<{ session: ISession; refreshToken: string }> {
+    const session = new Session({
+      userId,
+      deviceId,
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null,
+    });
+
+    const refreshToken = AuthService.generateRefreshToken(userId, session._id.toString());
+    session.tokenHash = this.hashToken(refreshToken);
+    session.expiresAt = this.getExpiry(refreshToken);
+    await session.save();
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Swap a session's refresh token for a new one
+   * A token that verifies but is no longer the session's current one has been replayed,
+   * so the whole family is revoked.
+   */
+  static async rotateSession(
+    decoded: { userId: string; sessionId?: string },
+    refreshToken: string,
+    context: DeviceContext = {}
+  ): Promise<{ session: ISession; refreshToken: string }> {
+    if (!decoded.sessionId) {
+      throw new AppError('Invalid refresh token', 401, 'INVALID_REFRESH_TOKEN');
+    }
+
+    const newRefreshToken = AuthService.generateRefreshToken(decoded.userId, decoded.sessionId);
+    const now = new Date();
+
+    const session = await Session.findOneAndUpdate(
+      {
+        _id: decoded.sessionId,
+        userId: decoded.userId,
+        tokenHash: this.hashToken(refreshToken),
+        revokedAt: null,
+      },
+      {
+        $set: {
+          tokenHash: this.hashToken(newRefreshToken),
+          expiresAt: this.getExpiry(newRefreshToken),
+          lastUsedAt: now,
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+          ...(context.userAgent && { userAgent: context.userAgent }),
+        },
+      },
+      { new: true }
+    );
+
+    if (!session) {
+      const family = await Session.findOne({ _id: decoded.sessionId, userId: decoded.userId, revokedAt: null });
+      if (family) {
+        await this.revoke(family, SessionRevocationReason.TOKEN_REUSE);
+
+        await SecurityFeaturesService.logSecurityEvent(
+          decoded.userId,
+          AuditEventType.SUSPICIOUS_ACTIVITY,
+          'Refresh token reuse detected, session revoked',
+          { sessionId: family._id, ipAddress: context.ipAddress }
+        );
+        logger.warn('Refresh token reuse detected', { userId: decoded.userId, sessionId: family._id });
+
+        throw new AppError('Session revoked, please sign in again', 401, 'REFRESH_TOKEN_REUSED');
+      }
+
+      throw new AppError('Invalid refresh token', 401, 'INVALID_REFRESH_TOKEN');
+    }
+
+    if (session.deviceId) {
+      await Device.updateOne({ _id: session.deviceId }, { $set: { lastSeenAt: now } });
+    }
+
+    return { session, refreshToken: newRefreshToken };
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  static async listSessions(userId: string): Promise<ISession[]> {
+    return Session.find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } }).sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<ISession> {
+    const session = await Session.findOne({ _id: sessionId, userId, revokedAt: null });
+    if (!session) {
+      throw new AppError('Session not found', 404, 'SESSION_NOT_FOUND');
+    }
+
+    await this.revoke(session, SessionRevocationReason.USER_REVOKED);
+
+    await SecurityFeaturesService.logSecurityEvent(
+      userId,
+      AuditEventType.SESSION_REVOKED,
+      'Session revoked',
+      { sessionId: session._id }
+    );
+
+    return session;
+  }
+
+  /**
+   * End the caller's own session on logout, a no-op if it was already revoked
+   */
+  static async endSession(userId: string, sessionId: string): Promise<void> {
+    await Session.updateOne(
+      { _id: sessionId, userId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: SessionRevocationReason.LOGOUT } }
+    );
+  }
+
+  /**
+   * Revoke every active session of a user, optionally sparing one
+   */
+  static async revokeAllSessions(
+    userId: string,
+    reason: SessionRevocationReason = SessionRevocationReason.USER_REVOKED,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await Session.updateMany(
+      { userId, revokedAt: null, ...(exceptSessionId && { _id: { $ne: exceptSessionId } }) },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    if (reason !== SessionRevocationReason.LOGOUT) {
+      await SecurityFeaturesService.logSecurityEvent(
+        userId,
+        AuditEventType.SESSION_REVOKED,
+        'All sessions revoked',
+        { count: result.modifiedCount, reason }
+      );
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Revoke the sessions opened from a device, along with the access tokens issued in them
+   */
+  static async revokeDeviceSessions(userId: string, deviceId: string): Promise<number> {
+    const sessions = await Session.find({ userId, deviceId, revokedAt: null }).select('_id');
+    const result = await Session.updateMany(
+      { _id: { $in: sessions.map(session => session._id) }, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: SessionRevocationReason.DEVICE_REVOKED } }
+    );
+    await TokenDenylistService.revokeSessions(sessions.map(session => session._id.toString()));
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Mark a session revoked, along with the access tokens issued in it
+   */
+  private static async revoke(session: ISession, reason: SessionRevocationReason): Promise<void> {
+    session.revokedAt = new Date();
+    session.revokedReason = reason;
+    await session.save();
+    await TokenDenylistService.revokeSessions([session._id.toString()]);
+  }
+
+  /**
+   * Read the expiry of a freshly signed refresh token
+   */
+  private static getExpiry(refreshToken: string): Date {
+    const { exp } = jwt.decode(refreshToken) as { exp: number };
+    return new Date(exp * 1000);
+  }
+}
@@ -0,0 +1,370 @@
+import mongoose from 'mongoose';
+import { ItemShare, IItemShare, SharePermission, ShareStatus } from '../models/ItemShare';
+import { VaultItem, IVaultItem, VaultItemType, CiphertextVersion } from '../models/VaultItem';
+import { User } from '../models/User';
+import { VaultKeyService } from './vaultKeys';
+import { RevisionService } from './revisions';
+import { AttachmentService, AttachmentKey } from './attachments';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * A share's copy of a new data key, wrapped with its recipient's public key
+ */
+export interface ShareKey {
+  shareId: string;
+  encryptedDataKey: string;
+}
+
+/**
+ * An item re-encrypted under a fresh data key, with that key wrapped for the owner and every recipient
+ */
+export interface RotatedItem {
+  encryptedData: string;
+  encryptedDataKey: string;
+  iv: string;
+  tag: string;
+  algorithm?: 'aes' | 'xchacha';
+  shareKeys: ShareKey[];
+  attachmentKeys?: AttachmentKey[];
+}
+
+/**
+ * Ciphertext written by a recipient, under the data key the item already has
+ */
+export interface SharedItemCiphertext {
+  encryptedData: string;
+  iv: string;
+  tag: string;
+  algorithm?: 'aes' | 'xchacha';
+}
+
+/**
+ * A share as its owner sees it, with the recipient's public key to re-wrap data keys for
+ */
+export interface OutgoingShare {
+  id: string;
+  recipientId: string;
+  email: string;
+  publicKey: string | null;
+  permission: SharePermission;
+  status: ShareStatus;
+  createdAt: Date;
+  acceptedAt: Date | null;
+}
+
+/**
+ * A share as its recipient sees it; the ciphertext is only handed over once accepted
+ */
+export interface IncomingShare {
+  id: string;
+  itemId: string;
+  ownerEmail: string;
+  type: VaultItemType;
+  permission: SharePermission;
+  status: ShareStatus;
+  encryptedData: string | null;
+  encryptedDataKey: string | null;
+  iv: string | null;
+  tag: string | null;
+  algorithm: 'aes' | 'xchacha' | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Share Service
+ * Shares a single vault item with another user. The owner wraps the item's data key with the
+ * recipient's public key in the browser, so the recipient can open the item without ever seeing
+ * the owner's vault key. Whenever the data key changes, every share must get the new key; revoking
+ * a share rotates the key so the former recipient cannot read later edits.
+ */
+export class ShareService {
+  static readonly MAX_SHARES_PER_ITEM = 50;
+
+  /**
+   * Share an item, pending until the recipient accepts
+   */
+  static async share(
+    ownerId: string,
+    itemId: string,
+    recipientId: string,
+    permission: SharePermission,
+    encryptedDataKey: string
+  ): Promise<OutgoingShare> {
+    const item = await this.getOwnedItem(ownerId, itemId);
+
+    if (recipientId === ownerId) {
+      throw new AppError('You cannot share an item with yourself', 400, 'CANNOT_SHARE_WITH_SELF');
+    }
+
+    const recipient = await VaultKeyService.getPublicKey({ userId: recipientId });
+
+    if (await ItemShare.exists({ itemId: item._id, recipientId })) {
+      throw new AppError('This item is already shared with that user', 409, 'ALREADY_SHARED');
+    }
+    if (item.shareCount >= this.MAX_SHARES_PER_ITEM) {
+      throw new AppError(`An item can be shared with at most ${this.MAX_SHARES_PER_ITEM} users`, 409, 'SHARE_LIMIT_REACHED');
+    }
+
+    const share = await ItemShare.create({
+      itemId: item._id,
+      ownerId,
+      recipientId,
+      permission,
+      encryptedDataKey,
+    });
+    await VaultItem.updateOne({ _id: item._id }, { $inc: { shareCount: 1 } });
+
+    logger.info('Vault item shared', { ownerId, itemId, recipientId, permission });
+
+    return this.toOutgoing(share, recipient.email, recipient.publicKey);
+  }
+
+  /**
+   * Everyone an item is shared with
+   */
+  static async listForItem(ownerId: string, itemId: string): Promise<OutgoingShare[]> {
+    const item = await this.getOwnedItem(ownerId, itemId);
+    const shares = await ItemShare.find({ itemId: item._id }).sort({ createdAt: 1 });
+    const users = await User.find({ _id: { $in: shares.map(share => share.recipientId) } }).select('email publicKey');
+
+    return shares.map((share) => {
+      const user = users.find(candidate => candidate._id.equals(share.recipientId));
+      return this.toOutgoing(share, user?.email ?? '', user?.publicKey ?? null);
+    });
+  }
+
+  /**
+   * Revoke a share, putting the item under a fresh data key the former recipient never held
+   * The share is only deleted once the new key is stored, so a failed save leaves it revocable.
+   */
+  static async revoke(ownerId: string, itemId: string, shareId: string, rotated: RotatedItem): Promise<IVaultItem> {
+    const owner = await VaultKeyService.assertZeroKnowledge(ownerId);
+    const item = await this.getOwnedItem(ownerId, itemId);
+
+    const share = await ItemShare.findOne({ _id: shareId, itemId: item._id });
+    if (!share) {
+      throw new AppError('Share not found', 404, 'SHARE_NOT_FOUND');
+    }
+
+    const remaining = await ItemShare.find({ itemId: item._id, _id: { $ne: share._id } });
+    this.assertKeysCoverShares(remaining, rotated.shareKeys);
+    await AttachmentService.assertAttachmentKeys(item, rotated.attachmentKeys);
+
+    item.encryptedData = rotated.encryptedData;
+    item.encryptedDataKey = rotated.encryptedDataKey;
+    item.keyVersion = owner.masterKeyVersion;
+    item.iv = rotated.iv;
+    item.tag = rotated.tag;
+    item.algorithm = rotated.algorithm ?? 'aes';
+    item.encryptionVersion = CiphertextVersion.V2;
+    item.keyRotatedRevision = item.revision;
+    item.shareCount = remaining.length;
+    await item.save();
+    await this.setShareKeys(rotated.shareKeys);
+    await AttachmentService.setAttachmentKeys(rotated.attachmentKeys);
+    await share.deleteOne();
+
+    logger.info('Vault item share revoked', { ownerId, itemId, recipientId: share.recipientId.toString() });
+
+    return item;
+  }
+
+  /**
+   * Check that a new data key comes wrapped for exactly the item's current shares
+   * Call before replacing an item's data key, then store the keys with setShareKeys.
+   */
+  static async assertShareKeys(item: IVaultItem, shareKeys: ShareKey[] = []): Promise<void> {
+    if (item.shareCount === 0 && shareKeys.length === 0) {
+      return;
+    }
+
+    this.assertKeysCoverShares(await ItemShare.find({ itemId: item._id }), shareKeys);
+  }
+
+  /**
+   * Replace the recipients' copies of a data key that has changed
+   */
+  static async setShareKeys(shareKeys: ShareKey[] = []): Promise<void> {
+    if (shareKeys.length === 0) {
+      return;
+    }
+
+    await ItemShare.bulkWrite(shareKeys.map(key => ({
+      updateOne: {
+        filter: { _id: key.shareId },
+        update: { $set: { encryptedDataKey: key.encryptedDataKey } },
+      },
+    })));
+  }
+
+  /**
+   * Items shared with a user, newest first
+   * Items their owner moved to the trash drop out until restored.
+   */
+  static async listIncoming(recipientId: string): Promise<IncomingShare[]> {
+    const shares = await ItemShare.find({ recipientId }).sort({ createdAt: -1 });
+    const items = await VaultItem.find({ _id: { $in: shares.map(share => share.itemId) }, isDeleted: false });
+    const owners = await User.find({ _id: { $in: shares.map(share => share.ownerId) } }).select('email');
+
+    return shares.flatMap((share) => {
+      const item = items.find(candidate => candidate._id.equals(share.itemId));
+      if (!item) {
+        return [];
+      }
+      const owner = owners.find(candidate => candidate._id.equals(share.ownerId));
+      return [this.toIncoming(share, item, owner?.email ?? '')];
+    });
+  }
+
+  /**
+   * Accept a pending share
+   */
+  static async accept(recipientId: string, shareId: string): Promise<IncomingShare> {
+    const share = await this.getIncoming(recipientId, shareId);
+
+    if (share.status !== ShareStatus.ACCEPTED) {
+      share.status = ShareStatus.ACCEPTED;
+      share.acceptedAt = new Date();
+      await share.save();
+    }
+
+    logger.info('Vault item share accepted', { recipientId, shareId });
+
+    return this.getIncomingView(share);
+  }
+
+  /**
+   * Decline a pending share, or leave an accepted one
+   * The recipient's copy of the key is deleted; the owner can share the item again later.
+   */
+  static async decline(recipientId: string, shareId: string): Promise<void> {
+    const share = await this.getIncoming(recipientId, shareId);
+
+    await share.deleteOne();
+    await VaultItem.updateOne({ _id: share.itemId, shareCount: { $gt: 0 } }, { $inc: { shareCount: -1 } });
+
+    logger.info('Vault item share declined', { recipientId, shareId });
+  }
+
+  /**
+   * Write a recipient's edit to a shared item
+   * The data key stays the same, since only the owner can wrap a new one for their own vault.
+   * The replaced payload is kept in the owner's revision history; the owner's search tokens are
+   * left as they were, as only the owner can build them.
+   */
+  static async updateShared(recipientId: string, shareId: string, ciphertext: SharedItemCiphertext): Promise<IncomingShare> {
+    const share = await this.getIncoming(recipientId, shareId);
+
+    if (share.status !== ShareStatus.ACCEPTED) {
+      throw new AppError('Accept the share before editing the item', 409, 'SHARE_NOT_ACCEPTED');
+    }
+    if (share.permission !== SharePermission.EDIT) {
+      throw new AppError('This item is shared with you read-only', 403, 'READ_ONLY_SHARE');
+    }
+
+    const item = await this.getSharedItem(share);
+
+    await RevisionService.record(item);
+
+    item.revision += 1;
+    item.restoredFrom = null;
+    item.encryptedData = ciphertext.encryptedData;
+    item.iv = ciphertext.iv;
+    item.tag = ciphertext.tag;
+    item.algorithm = ciphertext.algorithm ?? 'aes';
+    await item.save();
+
+    logger.info('Shared vault item updated', { recipientId, shareId, itemId: item._id });
+
+    return this.toIncoming(share, item, await this.getOwnerEmail(share));
+  }
+
+  /**
+   * Drop the shares of items that were permanently deleted
+   */
+  static async deleteForItems(itemIds: mongoose.Types.ObjectId[] | string[]): Promise<void> {
+    if (itemIds.length > 0) {
+      await ItemShare.deleteMany({ itemId: { $in: itemIds } });
+    }
+  }
+
+  private static assertKeysCoverShares(shares: IItemShare[], shareKeys: ShareKey[]): void {
+    const shareIds = new Set(shares.map(share => share._id.toString()));
+    const keyIds = new Set(shareKeys.map(key => key.shareId));
+
+    if (keyIds.size !== shareKeys.length || keyIds.size !== shareIds.size || [...keyIds].some(id => !shareIds.has(id))) {
+      throw new AppError('The new data key must be wrapped for every user the item is shared with', 400, 'SHARE_KEYS_INCOMPLETE');
+    }
+  }
+
+  private static async getOwnedItem(ownerId: string, itemId: string): Promise<IVaultItem> {
+    const item = await VaultItem.findOne({ _id: itemId, userId: ownerId, isDeleted: false });
+    if (!item) {
+      throw new AppError('Vault item not found', 404, 'VAULT_ITEM_NOT_FOUND');
+    }
+    if (!item.clientEncrypted) {
+      throw new AppError('Unlock the vault to upgrade it to client-side encryption first', 409, 'VAULT_MIGRATION_REQUIRED');
+    }
+    return item;
+  }
+
+  private static async getIncoming(recipientId: string, shareId: string): Promise<IItemShare> {
+    const share = await ItemShare.findOne({ _id: shareId, recipientId });
+    if (!share) {
+      throw new AppError('Share not found', 404, 'SHARE_NOT_FOUND');
+    }
+    return share;
+  }
+
+  private static async getSharedItem(share: IItemShare): Promise<IVaultItem> {
+    const item = await VaultItem.findOne({ _id: share.itemId, isDeleted: false });
+    if (!item) {
+      throw new AppError('Vault item not found', 404, 'VAULT_ITEM_NOT_FOUND');
+    }
+    return item;
+  }
+
+  private static async getOwnerEmail(share: IItemShare): Promise<string> {
+    const owner = await User.findById(share.ownerId).select('email');
+    return owner?.email ?? '';
+  }
+
+  private static async getIncomingView(share: IItemShare): Promise<IncomingShare> {
+    return this.toIncoming(share, await this.getSharedItem(share), await this.getOwnerEmail(share));
+  }
+
+  private static toOutgoing(share: IItemShare, email: string, publicKey: string | null): OutgoingShare {
+    return {
+      id: share._id.toString(),
+      recipientId: share.recipientId.toString(),
+      email,
+      publicKey,
+      permission: share.permission,
+      status: share.status,
+      createdAt: share.createdAt,
+      acceptedAt: share.acceptedAt,
+    };
+  }
+
+  private static toIncoming(share: IItemShare, item: IVaultItem, ownerEmail: string): IncomingShare {
+    const accepted = share.status === ShareStatus.ACCEPTED;
+
+    return {
+      id: share._id.toString(),
+      itemId: item._id.toString(),
+      ownerEmail,
+      type: item.type,
+      permission: share.permission,
+      status: share.status,
+      encryptedData: accepted ? item.encryptedData : null,
+      encryptedDataKey: accepted ? share.encryptedDataKey : null,
+      iv: accepted ? item.iv : null,
+      tag: accepted ? item.tag : null,
+      algorithm: accepted ? item.algorithm : null,
+      createdAt: share.createdAt,
+      updatedAt: item.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { getRedisClient } from '../config/redis';
+import { logger } from '../utils/logger';
+
+/**
+ * Access token denylist
+ * Revoked tokens are kept in Redis until they would have expired anyway. Entries are
+ * mirrored in memory so revocations still apply while Redis is unavailable.
+ */
+export class TokenDenylistService {
+  private static readonly TOKEN_PREFIX = 'denylist:jti:';
+  private static readonly USER_PREFIX = 'denylist:user:';
+  private static readonly SESSION_PREFIX = 'denylist:session:';
+  // Matches the access token lifetime, after which user and session revocations have nothing left to reject
+  private static readonly ACCESS_TOKEN_TTL = 7 * 24 * 60 * 60;
+
+  private static readonly revokedTokens = new Map<string, number>();
+  private static readonly revokedSessions = new Map<string, number>();
+  // Cutoffs are in milliseconds so a token issued right after one, in the same second, stays valid
+  private static readonly userCutoffs = new Map<string, { issuedBefore: number; expiresAt: number }>();
+
+  /**
+   * Revoke a single access token until its expiry
+   */
+  static async revokeToken(jti: string, exp: number): Promise<void> {
+    const ttl = exp - Math.floor(Date.now() / 1000);
+    if (ttl <= 0) {
+      return;
+    }
+
+    this.prune();
+    this.revokedTokens.set(jti, exp * 1000);
+
+    const client = this.getClient();
+    if (client) {
+      try {
+        await client.set(this.TOKEN_PREFIX + jti, '1', { EX: ttl });
+      } catch (error) {
+        logger.warn('Failed to write token revocation to Redis, kept in memory only:', error);
+      }
+    }
+  }
+
+  /**
+   * Revoke every access token issued to a user up to now
+   */
+  static async revokeAllForUser(userId: string): Promise<void> {
+    const issuedBefore = Date.now();
+
+    this.prune();
+    this.userCutoffs.set(userId, { issuedBefore, expiresAt: Date.now() + this.ACCESS_TOKEN_TTL * 1000 });
+
+    const client = this.getClient();
+    if (client) {
+      try {
+        await client.set(this.USER_PREFIX + userId, issuedBefore.toString(), { EX: this.ACCESS_TOKEN_TTL });
+      } catch (error) {
+        logger.warn('Failed to write user token cutoff to Redis, kept in memory only:', error);
+      }
+    }
+  }
+
+  /**
+   * Revoke every access token issued within the given sessions
+   */
+  static async revokeSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    this.prune();
+    const expiresAt = Date.now() + this.ACCESS_TOKEN_TTL * 1000;
+    for (const sessionId of sessionIds) {
+      this.revokedSessions.set(sessionId, expiresAt);
+    }
+
+    const client = this.getClient();
+    if (client) {
+      try {
+        await Promise.all(sessionIds.map(sessionId =>
+          client.set(this.SESSION_PREFIX + sessionId, '1', { EX: this.ACCESS_TOKEN_TTL })
+        ));
+      } catch (error) {
+        logger.warn('Failed to write session revocation to Redis, kept in memory only:', error);
+      }
+    }
+  }
+
+  /**
+   * Check whether an access token has been revoked, individually, with its session or with all of its user's tokens
+   */
+  static async isRevoked(token: { jti: string; userId: string; sessionId?: string; iat: number; iatMs?: number }): Promise<boolean> {
+    const now = Date.now();
+    // Tokens from before issue times were recorded in milliseconds only carry whole seconds
+    const issuedAt = token.iatMs ?? token.iat * 1000;
+
+    const revokedUntil = this.revokedTokens.get(token.jti);
+    if (revokedUntil && revokedUntil > now) {
+      return true;
+    }
+
+    const sessionRevokedUntil = token.sessionId ? this.revokedSessions.get(token.sessionId) : undefined;
+    if (sessionRevokedUntil && sessionRevokedUntil > now) {
+      return true;
+    }
+
+    const cutoff = this.userCutoffs.get(token.userId);
+    if (cutoff && cutoff.expiresAt > now && issuedAt < cutoff.issuedBefore) {
+      return true;
+    }
+
+    const client = this.getClient();
+    if (!client) {
+      return false;
+    }
+
+    try {
+      const [revoked, sessionRevoked, issuedBefore] = await Promise.all([
+        client.exists(this.TOKEN_PREFIX + token.jti),
+        token.sessionId ? client.exists(this.SESSION_PREFIX + token.sessionId) : Promise.resolve(0),
+        client.get(this.USER_PREFIX + token.userId),
+      ]);
+
+      return revoked > 0 || sessionRevoked > 0 || (issuedBefore !== null && issuedAt < Number(issuedBefore));
+    } catch (error) {
+      logger.warn('Failed to read token denylist from Redis, using in-memory entries only:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Redis client if connected, otherwise null
+   */
+  private static getClient(): ReturnType<typeof getRedisClient> | null {
+    try {
+      const client = getRedisClient();
+      return client.isReady ? client : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Drop in-memory entries that have expired
+   */
+  private static prune(): void {
+    const now = Date.now();
+
+    for (const [jti, expiresAt] of this.revokedTokens) {
+      if (expiresAt <= now) {
+        this.revokedTokens.delete(jti);
+      }
+    }
+
+    for (const [sessionId, expiresAt] of this.revokedSessions) {
+      if (expiresAt <= now) {
+        this.revokedSessions.delete(sessionId);
+      }
+    }
+
+    for (const [userId, cutoff] of this.userCutoffs) {
+      if (cutoff.expiresAt <= now) {
+        this.userCutoffs.delete(userId);
+      }
+    }
+  }
+}
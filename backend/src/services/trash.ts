@@ -0,0 +1,142 @@
+import { User } from '../models/User';
+import { VaultItem, IVaultItem } from '../models/VaultItem';
+import { Folder } from '../models/Folder';
+import { RevisionService } from './revisions';
+import { ShareService } from './shares';
+import { AttachmentService } from './attachments';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trash Service
+ * Deleted vault items stay restorable for the owner's retention period. A background job
+ * purges them for good once it has passed.
+ */
+export class TrashService {
+  static readonly DEFAULT_RETENTION_DAYS = 30;
+  private static readonly PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+  /**
+   * Items in a user's trash, most recently deleted first
+   */
+  static async listTrash(userId: string): Promise<IVaultItem[]> {
+    return VaultItem.find({ userId, isDeleted: true }).sort({ deletedAt: -1, _id: -1 });
+  }
+
+  /**
+   * Move a trashed item back into the vault
+   * Items whose folder was deleted meanwhile come back outside any folder.
+   */
+  static async restore(userId: string, itemId: string): Promise<IVaultItem> {
+    const item = await VaultItem.findOneAndUpdate(
+      { _id: itemId, userId, isDeleted: true },
+      { $set: { isDeleted: false, deletedAt: null, purgeAt: null } },
+      { new: true }
+    );
+
+    if (!item) {
+      throw new AppError('Vault item not found in trash', 404, 'VAULT_ITEM_NOT_FOUND');
+    }
+
+    if (item.folderId && !await Folder.exists({ _id: item.folderId, userId })) {
+      item.folderId = null;
+      await item.save();
+    }
+
+    logger.info('Vault item restored from trash', { userId, itemId });
+
+    return item;
+  }
+
+  /**
+   * Permanently delete one trashed item
+   * Only trashed items can be purged, so a single request can never destroy a live item.
+   */
+  static async purge(userId: string, itemId: string): Promise<void> {
+    const purgedCount = await this.deleteItems({ _id: itemId, userId, isDeleted: true });
+
+    if (purgedCount === 0) {
+      throw new AppError('Vault item not found in trash', 404, 'VAULT_ITEM_NOT_FOUND');
+    }
+
+    logger.info('Vault item purged', { userId, itemId });
+  }
+
+  /**
+   * Permanently delete everything in a user's trash
+   */
+  static async emptyTrash(userId: string): Promise<number> {
+    const purgedCount = await this.deleteItems({ userId, isDeleted: true });
+
+    logger.info('Trash emptied', { userId, purgedCount });
+
+    return purgedCount;
+  }
+
+  /**
+   * Change how long deleted items are kept
+   * Items already in the trash are rescheduled from their own deletion time.
+   */
+  static async setRetention(userId: string, retentionDays: number): Promise<void> {
+    const user = await User.findByIdAndUpdate(userId, { $set: { trashRetentionDays: retentionDays } });
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    await VaultItem.updateMany(
+      { userId, isDeleted: true },
+      [{ $set: { purgeAt: { $add: [{ $ifNull: ['$deletedAt', '$$NOW'] }, retentionDays * DAY_MS] } } }]
+    );
+
+    logger.info('Trash retention changed', { userId, retentionDays });
+  }
+
+  /**
+   * Purge trashed items whose retention period has passed
+   * Items trashed before retention was tracked fall back to the default period.
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const purgedCount = await this.deleteItems({
+      isDeleted: true,
+      $or: [
+        { purgeAt: { $lte: now } },
+        { purgeAt: null, deletedAt: { $lte: new Date(now.getTime() - this.DEFAULT_RETENTION_DAYS * DAY_MS) } },
+      ],
+    });
+
+    if (purgedCount > 0) {
+      logger.info('Expired trash purged', { purgedCount });
+    }
+
+    return purgedCount;
+  }
+
+  /**
+   * Delete trashed items along with their revision history and shares
+   */
+  private static async deleteItems(filter: Record<string, any>): Promise<number> {
+    const itemIds = await VaultItem.find(filter).distinct('_id');
+    const result = await VaultItem.deleteMany({ _id: { $in: itemIds }, isDeleted: true });
+    await RevisionService.deleteForItems(itemIds);
+    await ShareService.deleteForItems(itemIds);
+    await AttachmentService.deleteForItems(itemIds);
+    return result.deletedCount;
+  }
+
+  /**
+   * Run the retention job now and then every hour
+   */
+  static startRetentionJob(): NodeJS.Timeout {
+    const run = () => {
+      this.purgeExpired().catch(error => {
+        logger.error('Failed to purge expired trash:', error);
+      });
+    };
+
+    run();
+    // Never keep the process alive just for the job
+    return setInterval(run, this.PURGE_INTERVAL_MS).unref();
+  }
+}
@@ -0,0 +1,352 @@
+import { User, IUser, IKdfConfig } from '../models/User';
+import { SessionRevocationReason } from '../models/Session';
+import { VaultItem, VaultItemType, CiphertextVersion } from '../models/VaultItem';
+import { AuthService } from './auth';
+import { EncryptionService } from './encryption';
+import { KeyRotationService } from './keyRotation';
+import { KdfService } from './kdf';
+import { SecurityFeaturesService } from './securityFeatures';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Key material produced in the browser from the master password
+ */
+export interface VaultKeyMaterial {
+  masterPasswordHash: string;
+  masterKeySalt: string;
+  encryptedVaultKey: string;
+  kdf: IKdfConfig;
+}
+
+/**
+ * Parameters the client needs to derive its master key
+ */
+export interface KdfParams extends IKdfConfig {
+  salt: string;
+}
+
+/**
+ * Everything a client needs to unlock the vault
+ */
+export interface VaultKeys {
+  zeroKnowledge: boolean;
+  kdf: KdfParams;
+  encryptedVaultKey: string | null;
+  publicKey: string | null;
+  encryptedPrivateKey: string | null;
+  legacyItemCount: number;
+  // Parameters to re-wrap the vault key under once the vault is unlocked, if the stored ones are outdated
+  kdfUpgrade: IKdfConfig | null;
+}
+
+/**
+ * A user's published public key, for wrapping data keys they can open
+ */
+export interface PublicKeyInfo {
+  userId: string;
+  email: string;
+  publicKey: string;
+  fingerprint: string;
+}
+
+/**
+ * Ciphertext for a legacy item re-encrypted by the client
+ */
+export interface MigratedVaultItem {
+  id: string;
+  encryptedData: string;
+  encryptedDataKey: string;
+  iv: string;
+  tag: string;
+  algorithm: 'aes' | 'xchacha';
+  searchTokens?: string[];
+  searchIndexVersion?: number;
+}
+
+/**
+ * Legacy item decrypted for the client to re-encrypt
+ */
+export interface LegacyVaultItem {
+  id: string;
+  type: VaultItemType;
+  data: any;
+  tags: string[];
+  favorite: boolean;
+  isDeleted: boolean;
+}
+
+/**
+ * Vault Key Service (EAST - Purva)
+ * Manages the zero-knowledge key hierarchy: the browser derives a master key from the master
+ * password, uses it to wrap a random vault key, and wraps each item's data key with the vault key.
+ * The server only ever stores the wrapped vault key and an Argon2id hash of the client's
+ * master password hash.
+ *
+ * Accounts created before this stored a hash of the master password and encrypted on the server.
+ * Migrating one sends the master password a final time so the server can decrypt its items
+ * for the client to re-encrypt.
+ */
+export class VaultKeyService {
+  /**
+   * Get the key material needed to unlock the vault
+   */
+  static async getVaultKeys(userId: string): Promise<VaultKeys> {
+    const user = await this.getUser(userId);
+
+    return {
+      zeroKnowledge: user.zeroKnowledge,
+      kdf: this.getKdfParams(user),
+      encryptedVaultKey: user.encryptedVaultKey,
+      publicKey: user.publicKey,
+      encryptedPrivateKey: user.encryptedPrivateKey,
+      legacyItemCount: await this.countLegacyItems(userId),
+      kdfUpgrade: KdfService.isOutdated(user.kdf) ? KdfService.CURRENT : null,
+    };
+  }
+
+  /**
+   * KDF parameters for a user's master key
+   */
+  static getKdfParams(user: IUser): KdfParams {
+    const { algorithm, iterations, memory, parallelism, version } = user.kdf;
+
+    return {
+      algorithm,
+      iterations,
+      memory,
+      parallelism,
+      version,
+      salt: user.masterKeySalt,
+    };
+  }
+
+  /**
+   * Verify the client's master password hash
+   */
+  static async verifyMasterPasswordHash(user: IUser, masterPasswordHash: string): Promise<void> {
+    const isValid = await AuthService.verifyPassword(masterPasswordHash, user.masterPassword);
+    if (!isValid) {
+      throw new AppError('Invalid master password', 400, 'INVALID_MASTER_PASSWORD');
+    }
+  }
+
+  /**
+   * Reject vault writes from accounts that still encrypt on the server
+   */
+  static async assertZeroKnowledge(userId: string): Promise<IUser> {
+    const user = await this.getUser(userId);
+    if (!user.zeroKnowledge) {
+      throw new AppError('Unlock the vault to upgrade it to client-side encryption first', 409, 'VAULT_MIGRATION_REQUIRED');
+    }
+    return user;
+  }
+
+  /**
+   * Switch an account to client-side encryption and hand back its server-encrypted items
+   * The salt and KDF parameters are kept so items left over from an interrupted migration
+   * stay decryptable; the client upgrades the KDF once none remain.
+   */
+  static async startMigration(
+    userId: string,
+    masterPassword: string,
+    masterPasswordHash: string,
+    encryptedVaultKey?: string
+  ): Promise<LegacyVaultItem[]> {
+    const user = await this.getUser(userId);
+    await KeyRotationService.assertNoRotationInProgress(userId);
+
+    if (user.zeroKnowledge) {
+      await this.verifyMasterPasswordHash(user, masterPasswordHash);
+    } else {
+      const isValid = await AuthService.verifyPassword(masterPassword, user.masterPassword);
+      if (!isValid) {
+        throw new AppError('Invalid master password', 400, 'INVALID_MASTER_PASSWORD');
+      }
+      if (!encryptedVaultKey) {
+        throw new AppError('A vault key is required to enable client-side encryption', 400, 'VAULT_KEY_REQUIRED');
+      }
+    }
+
+    // Decrypt before switching so a wrong key leaves the account untouched
+    const masterKey = await AuthService.generateMasterKey(masterPassword, user.masterKeySalt, user.kdf);
+    const legacyItems = await VaultItem.find({
+      userId,
+      clientEncrypted: false,
+      isDeleted: { $in: [true, false] },
+    });
+
+    const items = legacyItems.map(item => ({
+      id: item._id.toString(),
+      type: item.type,
+      data: JSON.parse(EncryptionService.envelopeDecrypt(
+        item.encryptedData,
+        KeyRotationService.resolveEncryptedDataKey(item, user.masterKeyVersion),
+        item.iv,
+        item.tag,
+        masterKey,
+        item.algorithm,
+        item.encryptionVersion
+      )),
+      tags: item.tags,
+      favorite: item.favorite,
+      isDeleted: item.isDeleted,
+    }));
+
+    if (!user.zeroKnowledge) {
+      user.masterPassword = await AuthService.hashPassword(masterPasswordHash);
+      user.encryptedVaultKey = encryptedVaultKey!;
+      user.zeroKnowledge = true;
+      await user.save();
+      await SecurityFeaturesService.syncMasterPasswordFeature(userId);
+
+      logger.info('Vault switched to client-side encryption', { userId, legacyItemCount: items.length });
+    }
+
+    return items;
+  }
+
+  /**
+   * Store client re-encrypted ciphertext for legacy items
+   */
+  static async completeMigration(userId: string, items: MigratedVaultItem[]): Promise<{ migratedCount: number; remaining: number }> {
+    await this.assertZeroKnowledge(userId);
+
+    const result = await VaultItem.bulkWrite(items.map(item => ({
+      updateOne: {
+        filter: { _id: item.id, userId, clientEncrypted: false },
+        update: {
+          $set: {
+            encryptedData: item.encryptedData,
+            encryptedDataKey: item.encryptedDataKey,
+            iv: item.iv,
+            tag: item.tag,
+            algorithm: item.algorithm,
+            encryptionVersion: CiphertextVersion.V2,
+            clientEncrypted: true,
+            searchTokens: item.searchTokens ?? [],
+            searchIndexVersion: item.searchIndexVersion ?? null,
+            pendingEncryptedDataKey: null,
+            pendingKeyVersion: null,
+          },
+        },
+      },
+    })));
+
+    const remaining = await this.countLegacyItems(userId);
+
+    logger.info('Legacy vault items migrated', { userId, migratedCount: result.modifiedCount, remaining });
+
+    return { migratedCount: result.modifiedCount, remaining };
+  }
+
+  /**
+   * Change the master password of a zero-knowledge account
+   * Only the vault key is re-wrapped, which the client has already done. Unlocking with outdated
+   * KDF parameters goes through here too, with the same password and the current parameters.
+   * Every other session is signed out; `currentSessionId` stays signed in.
+   */
+  static async changeMasterPassword(
+    userId: string,
+    currentMasterPasswordHash: string,
+    keys: VaultKeyMaterial,
+    currentSessionId?: string
+  ): Promise<void> {
+    const user = await this.assertZeroKnowledge(userId);
+    await this.verifyMasterPasswordHash(user, currentMasterPasswordHash);
+    const kdf = KdfService.validate(keys.kdf);
+
+    if (kdf.version < user.kdf.version) {
+      throw new AppError('Key derivation parameters cannot be downgraded', 400, 'KDF_DOWNGRADE');
+    }
+
+    // A new salt or KDF would strand items the server can still only decrypt with the old one
+    if (await this.countLegacyItems(userId) > 0) {
+      throw new AppError('Finish upgrading the vault before changing the master password', 409, 'VAULT_MIGRATION_INCOMPLETE');
+    }
+
+    const updated = await User.findOneAndUpdate(
+      { _id: userId, masterKeyVersion: user.masterKeyVersion },
+      {
+        $set: {
+          masterPassword: await AuthService.hashPassword(keys.masterPasswordHash),
+          masterKeySalt: keys.masterKeySalt,
+          encryptedVaultKey: keys.encryptedVaultKey,
+          kdf,
+        },
+        $inc: { masterKeyVersion: 1 },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      throw new AppError('Master key changed concurrently', 409, 'KEY_ROTATION_CONFLICT');
+    }
+
+    await AuthService.revokeAllAccess(userId, SessionRevocationReason.PASSWORD_CHANGE, currentSessionId);
+    await SecurityFeaturesService.syncMasterPasswordFeature(userId);
+
+    logger.info('Master password changed', {
+      userId,
+      masterKeyVersion: updated.masterKeyVersion,
+      kdf: kdf.algorithm,
+      kdfVersion: kdf.version,
+    });
+  }
+
+  /**
+   * Publish the keypair other users share data keys with
+   * It is set once: replacing it would strand every data key already wrapped for the old one.
+   */
+  static async setKeyPair(userId: string, publicKey: string, encryptedPrivateKey: string): Promise<void> {
+    await this.assertZeroKnowledge(userId);
+
+    if (!EncryptionService.isValidPublicKey(publicKey)) {
+      throw new AppError('Public key must be an RSA key of at least 3072 bits', 400, 'INVALID_PUBLIC_KEY');
+    }
+
+    const updated = await User.findOneAndUpdate(
+      { _id: userId, publicKey: null },
+      { $set: { publicKey, encryptedPrivateKey } }
+    );
+
+    if (!updated) {
+      throw new AppError('A keypair has already been published', 409, 'KEY_PAIR_EXISTS');
+    }
+
+    logger.info('Keypair published', { userId });
+  }
+
+  /**
+   * Look up another user's public key by id or email
+   * The fingerprint is a convenience: clients recompute it from the key before trusting either.
+   */
+  static async getPublicKey(query: { userId: string } | { email: string }): Promise<PublicKeyInfo> {
+    const user = 'userId' in query
+      ? await User.findById(query.userId)
+      : await User.findOne({ email: query.email.toLowerCase() });
+
+    if (!user?.publicKey) {
+      throw new AppError('No public key found for this user', 404, 'PUBLIC_KEY_NOT_FOUND');
+    }
+
+    return {
+      userId: user._id.toString(),
+      email: user.email,
+      publicKey: user.publicKey,
+      fingerprint: EncryptionService.publicKeyFingerprint(user.publicKey),
+    };
+  }
+
+  private static async getUser(userId: string): Promise<IUser> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+
+  private static async countLegacyItems(userId: string): Promise<number> {
+    return VaultItem.countDocuments({ userId, clientEncrypted: false, isDeleted: { $in: [true, false] } });
+  }
+}
@@ -0,0 +1,234 @@
+import { VaultItem, VaultItemType, IVaultItem, IItemHealth } from '../models/VaultItem';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Health fields a client reports for one login; the server keeps track of when the password changed
+ */
+export type ItemHealthInput = Omit<IItemHealth, 'passwordChangedAt' | 'checkedAt'>;
+
+export type WatchtowerFindingType = 'breached' | 'reused' | 'weak' | 'old' | 'missingTotp';
+
+/**
+ * One problem with one login
+ */
+export interface WatchtowerFinding {
+  type: WatchtowerFindingType;
+  itemId: string;
+  // Other logins with the same password
+  reusedWith?: string[];
+  breachCount?: number;
+  strength?: number;
+  passwordChangedAt?: Date;
+  ageDays?: number;
+}
+
+export interface WatchtowerAnalysis {
+  // 0-100, how much of the checked vault is free of findings
+  score: number;
+  maxPasswordAgeDays: number;
+  summary: Record<WatchtowerFindingType, number> & {
+    logins: number;
+    checked: number;
+    unchecked: number;
+  };
+  // Most severe first
+  findings: WatchtowerFinding[];
+}
+
+export interface WatchtowerReport extends WatchtowerAnalysis {
+  // The logins the findings point at, still encrypted, so the client can show their names
+  items: IVaultItem[];
+  generatedAt: Date;
+}
+
+/**
+ * Watchtower Service
+ * Reports reused, weak, old and breached passwords and logins missing authenticator codes.
+ * The server never sees the passwords: clients check each login and report its health, and
+ * reuse is found by comparing keyed hashes.
+ */
+export class WatchtowerService {
+  static readonly DEFAULT_MAX_PASSWORD_AGE_DAYS = 365;
+  // Passwords the estimator scores below this are weak, the same bar master passwords must clear
+  static readonly MIN_STRENGTH = 3;
+
+  private static readonly FINDING_ORDER: WatchtowerFindingType[] = ['breached', 'reused', 'weak', 'old', 'missingTotp'];
+  // How much each finding takes off a login's share of the score; a login loses at most its share
+  private static readonly FINDING_WEIGHTS: Record<WatchtowerFindingType, number> = {
+    breached: 1,
+    reused: 0.75,
+    weak: 0.75,
+    old: 0.25,
+    missingTotp: 0.25,
+  };
+
+  /**
+   * Store the health a client reported for an item
+   * Where there is no earlier hash of the same version to compare with, the password is taken
+   * to have changed at `changedAt`, the latest time it could have, so its age is never overstated.
+   */
+  static applyHealth(item: IVaultItem, input: ItemHealthInput, changedAt: Date = new Date()): void {
+    item.health = this.nextHealth(item.health, input, changedAt);
+  }
+
+  /**
+   * Store the health of many items at once, as reported by a vault scan
+   */
+  static async updateHealth(userId: string, entries: Array<{ id: string; health: ItemHealthInput }>): Promise<number> {
+    const items = await VaultItem.find({
+      _id: { $in: entries.map(entry => entry.id) },
+      userId,
+      type: VaultItemType.LOGIN,
+    }).select('health updatedAt');
+    const byId = new Map(items.map(item => [item.id as string, item]));
+
+    const operations = entries
+      .filter(entry => byId.has(entry.id))
+      .map(entry => {
+        const item = byId.get(entry.id)!;
+        return {
+          updateOne: {
+            filter: { _id: item._id, userId },
+            update: { $set: { health: this.nextHealth(item.health, entry.health, item.updatedAt) } },
+            // A check is not an edit
+            timestamps: false,
+          },
+        };
+      });
+
+    if (operations.length === 0) {
+      return 0;
+    }
+
+    const result = await VaultItem.bulkWrite(operations);
+
+    logger.info('Vault health updated', { userId, checkedCount: result.matchedCount });
+
+    return result.matchedCount;
+  }
+
+  /**
+   * Findings over all of a user's logins
+   */
+  static async getReport(userId: string, maxPasswordAgeDays = this.DEFAULT_MAX_PASSWORD_AGE_DAYS): Promise<WatchtowerReport> {
+    const logins = await VaultItem.find({ userId, type: VaultItemType.LOGIN });
+    const analysis = this.analyze(logins, maxPasswordAgeDays);
+    const affected = new Set(analysis.findings.map(finding => finding.itemId));
+
+    return {
+      ...analysis,
+      items: logins.filter(item => affected.has(item.id)),
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Findings and score for a set of logins
+   */
+  static analyze(logins: IVaultItem[], maxPasswordAgeDays: number, now: Date = new Date()): WatchtowerAnalysis {
+    const checked = logins.filter(item => item.health);
+    const findings: WatchtowerFinding[] = [];
+
+    // Logins per password hash
+    const byHash = new Map<string, string[]>();
+    for (const item of checked) {
+      if (item.health!.passwordHash) {
+        byHash.set(item.health!.passwordHash, [...(byHash.get(item.health!.passwordHash) ?? []), item.id]);
+      }
+    }
+
+    for (const item of checked) {
+      const health = item.health!;
+      const itemId = item.id as string;
+
+      if (health.breachCount) {
+        findings.push({ type: 'breached', itemId, breachCount: health.breachCount });
+      }
+
+      const sharing = health.passwordHash ? byHash.get(health.passwordHash)! : [];
+      if (sharing.length > 1) {
+        findings.push({ type: 'reused', itemId, reusedWith: sharing.filter(id => id !== itemId) });
+      }
+
+      if (health.strength !== null && health.strength < this.MIN_STRENGTH) {
+        findings.push({ type: 'weak', itemId, strength: health.strength });
+      }
+
+      if (health.passwordHash && health.passwordChangedAt) {
+        const ageDays = Math.floor((now.getTime() - health.passwordChangedAt.getTime()) / DAY_MS);
+        if (ageDays > maxPasswordAgeDays) {
+          findings.push({ type: 'old', itemId, passwordChangedAt: health.passwordChangedAt, ageDays });
+        }
+      }
+
+      if (health.totpSupported && !health.hasTotp) {
+        findings.push({ type: 'missingTotp', itemId });
+      }
+    }
+
+    findings.sort((a, b) => this.FINDING_ORDER.indexOf(a.type) - this.FINDING_ORDER.indexOf(b.type));
+
+    const summary = {
+      logins: logins.length,
+      checked: checked.length,
+      unchecked: logins.length - checked.length,
+      breached: 0,
+      reused: 0,
+      weak: 0,
+      old: 0,
+      missingTotp: 0,
+    };
+    const penalties = new Map<string, number>();
+    for (const finding of findings) {
+      summary[finding.type] += 1;
+      penalties.set(finding.itemId, (penalties.get(finding.itemId) ?? 0) + this.FINDING_WEIGHTS[finding.type]);
+    }
+
+    return {
+      score: this.score(logins.length, checked.length, [...penalties.values()]),
+      maxPasswordAgeDays,
+      summary,
+      findings,
+    };
+  }
+
+  /**
+   * Share of the checked logins free of findings; nothing is known of a vault none of whose logins were checked
+   */
+  private static score(logins: number, checked: number, penalties: number[]): number {
+    if (checked === 0) {
+      return logins === 0 ? 100 : 0;
+    }
+
+    const lost = penalties.reduce((sum, penalty) => sum + Math.min(penalty, 1), 0);
+    return Math.round(100 * (1 - lost / checked));
+  }
+
+  private static nextHealth(previous: IItemHealth | null, input: ItemHealthInput, changedAt: Date): IItemHealth {
+    const comparable = previous?.passwordHash && previous.version === input.version;
+
+    let passwordChangedAt: Date | null = null;
+    if (input.passwordHash) {
+      if (comparable && previous!.passwordHash === input.passwordHash) {
+        passwordChangedAt = previous!.passwordChangedAt;
+      } else if (comparable) {
+        passwordChangedAt = new Date();
+      } else {
+        passwordChangedAt = previous?.passwordChangedAt ?? changedAt;
+      }
+    }
+
+    return {
+      version: input.version,
+      passwordHash: input.passwordHash ?? null,
+      strength: input.strength ?? null,
+      breachCount: input.breachCount ?? null,
+      hasTotp: !!input.hasTotp,
+      totpSupported: !!input.totpSupported,
+      passwordChangedAt,
+      checkedAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,330 @@
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { User, IUser } from '../models/User';
+import { WebAuthnCredential, IWebAuthnCredential } from '../models/WebAuthnCredential';
+import { WebAuthnChallenge, WebAuthnCeremony } from '../models/WebAuthnChallenge';
+import { AuditEventType } from '../models/AuditLog';
+import { SecurityDirection } from '../models/SecurityFeature';
+import { SecurityFeaturesService } from './securityFeatures';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * WebAuthn Service (SOUTHEAST - Agneya, NORTH - Uttara)
+ * Registers FIDO2 security keys and platform authenticators and verifies assertions,
+ * either as a second factor after the password or as passwordless login.
+ */
+export class WebAuthnService {
+  private static readonly CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+  /**
+   * Generate registration options for a signed-in user
+   */
+  static async generateRegistrationOptions(
+    userId: string,
+    authenticatorAttachment?: 'platform' | 'cross-platform'
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const user = await this.getUser(userId);
+    const existing = await WebAuthnCredential.find({ userId }).select('credentialId transports');
+    const { rpName, rpID } = this.getRelyingParty();
+
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userName: user.email,
+      userID: Buffer.from(user._id.toString()),
+      attestationType: 'none',
+      excludeCredentials: existing.map(credential => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+        authenticatorAttachment,
+      },
+    });
+
+    await this.storeChallenge(options.challenge, WebAuthnCeremony.REGISTRATION, userId);
+
+    return options;
+  }
+
+  /**
+   * Verify a registration response and store the new credential
+   * Returns recovery codes when this is the user's first second factor.
+   */
+  static async verifyRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<{ credential: IWebAuthnCredential; recoveryCodes?: string[] }> {
+    const user = await this.getUser(userId);
+    const challenge = this.extractChallenge(response.response.clientDataJSON);
+    await this.consumeChallenge(challenge, WebAuthnCeremony.REGISTRATION, userId);
+
+    const { rpID, origin } = this.getRelyingParty();
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      logger.warn('WebAuthn registration rejected', { userId, error: error instanceof Error ? error.message : error });
+      throw new AppError('Security key registration could not be verified', 400, 'WEBAUTHN_REGISTRATION_FAILED');
+    }
+
+    if (!verification.verified) {
+      throw new AppError('Security key registration could not be verified', 400, 'WEBAUTHN_REGISTRATION_FAILED');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp, userVerified } = verification.registrationInfo;
+    const hadSecondFactor = user.twoFactorEnabled || await this.hasCredentials(userId);
+
+    const stored = await WebAuthnCredential.create({
+      userId,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+      counter: credential.counter,
+      transports: credential.transports || [],
+      authenticatorAttachment: response.authenticatorAttachment || null,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      userVerified,
+      name: name?.trim() || (response.authenticatorAttachment === 'platform' ? 'This device' : 'Security key'),
+    });
+
+    await SecurityFeaturesService.logSecurityEvent(
+      userId,
+      AuditEventType.WEBAUTHN_CREDENTIAL_ADD,
+      'WebAuthn credential registered',
+      { direction: SecurityDirection.SOUTHEAST, credentialId: stored._id, attachment: stored.authenticatorAttachment }
+    );
+    await SecurityFeaturesService.syncAuthenticatorFeatures(userId);
+
+    // The first second factor gets recovery codes so a lost key is not a lockout
+    const recoveryCodes = !hadSecondFactor && user.twoFactorRecoveryCodes.length === 0
+      ? await SecurityFeaturesService.generateRecoveryCodes(userId)
+      : undefined;
+
+    return { credential: stored, recoveryCodes };
+  }
+
+  /**
+   * Generate authentication options
+   * With a user the assertion is a second factor; without one any discoverable credential may answer.
+   */
+  static async generateAuthenticationOptions(userId: string | null): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const { rpID } = this.getRelyingParty();
+
+    let allowCredentials: { id: string; transports?: AuthenticatorTransportFuture[] }[] | undefined;
+    if (userId) {
+      const credentials = await WebAuthnCredential.find({ userId }).select('credentialId transports');
+      if (credentials.length === 0) {
+        throw new AppError('No security keys registered', 400, 'WEBAUTHN_NOT_REGISTERED');
+      }
+      allowCredentials = credentials.map(credential => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      }));
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID,
+      allowCredentials,
+      userVerification: userId ? 'preferred' : 'required',
+    });
+
+    await this.storeChallenge(options.challenge, WebAuthnCeremony.AUTHENTICATION, userId);
+
+    return options;
+  }
+
+  /**
+   * Verify an assertion and return the user it authenticates
+   * Passwordless assertions (no userId) must be user-verified since they replace both factors.
+   */
+  static async verifyAuthentication(response: AuthenticationResponseJSON, userId: string | null): Promise<IUser> {
+    const challenge = this.extractChallenge(response.response.clientDataJSON);
+    await this.consumeChallenge(challenge, WebAuthnCeremony.AUTHENTICATION, userId);
+
+    const credential = await WebAuthnCredential.findOne({ credentialId: response.id });
+    if (!credential || (userId && credential.userId.toString() !== userId)) {
+      throw new AppError('Unknown security key', 401, 'WEBAUTHN_UNKNOWN_CREDENTIAL');
+    }
+
+    // Discoverable credentials report the user handle set at registration
+    if (response.response.userHandle
+      && Buffer.from(response.response.userHandle, 'base64url').toString() !== credential.userId.toString()) {
+      throw new AppError('Unknown security key', 401, 'WEBAUTHN_UNKNOWN_CREDENTIAL');
+    }
+
+    const { rpID, origin } = this.getRelyingParty();
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        credential: {
+          id: credential.credentialId,
+          publicKey: Buffer.from(credential.publicKey, 'base64url'),
+          counter: credential.counter,
+          transports: credential.transports as AuthenticatorTransportFuture[],
+        },
+        requireUserVerification: !userId,
+      });
+    } catch (error) {
+      await this.handleFailedAssertion(credential, response, error);
+      throw new AppError('Security key verification failed', 401, 'WEBAUTHN_VERIFICATION_FAILED');
+    }
+
+    if (!verification.verified) {
+      throw new AppError('Security key verification failed', 401, 'WEBAUTHN_VERIFICATION_FAILED');
+    }
+
+    credential.counter = verification.authenticationInfo.newCounter;
+    credential.lastUsedAt = new Date();
+    await credential.save();
+
+    return this.getUser(credential.userId.toString());
+  }
+
+  /**
+   * List a user's registered credentials
+   */
+  static async listCredentials(userId: string): Promise<IWebAuthnCredential[]> {
+    return WebAuthnCredential.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Remove a registered credential
+   */
+  static async deleteCredential(userId: string, id: string): Promise<void> {
+    const credential = await WebAuthnCredential.findOneAndDelete({ _id: id, userId });
+    if (!credential) {
+      throw new AppError('Security key not found', 404, 'WEBAUTHN_CREDENTIAL_NOT_FOUND');
+    }
+
+    await SecurityFeaturesService.logSecurityEvent(
+      userId,
+      AuditEventType.WEBAUTHN_CREDENTIAL_REMOVE,
+      'WebAuthn credential removed',
+      { direction: SecurityDirection.SOUTHEAST, credentialId: credential._id }
+    );
+
+    // Recovery codes are only meaningful while some second factor remains
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled && !await this.hasCredentials(userId)) {
+      await User.findByIdAndUpdate(userId, { twoFactorRecoveryCodes: [] });
+    }
+
+    await SecurityFeaturesService.syncAuthenticatorFeatures(userId);
+  }
+
+  /**
+   * Whether the user has at least one registered credential
+   */
+  static async hasCredentials(userId: string): Promise<boolean> {
+    return (await WebAuthnCredential.exists({ userId })) !== null;
+  }
+
+  /**
+   * Flag counter regressions, which indicate a cloned authenticator
+   */
+  private static async handleFailedAssertion(
+    credential: IWebAuthnCredential,
+    response: AuthenticationResponseJSON,
+    error: unknown
+  ): Promise<void> {
+    // Sign count is the big-endian uint32 after the RP ID hash (32 bytes) and flags (1 byte)
+    const authData = Buffer.from(response.response.authenticatorData, 'base64url');
+    const signCount = authData.length >= 37 ? authData.readUInt32BE(33) : 0;
+    const counterRegressed = (signCount > 0 || credential.counter > 0) && signCount <= credential.counter;
+
+    if (counterRegressed) {
+      await SecurityFeaturesService.logSecurityEvent(
+        credential.userId.toString(),
+        AuditEventType.SUSPICIOUS_ACTIVITY,
+        'WebAuthn signature counter did not increase, the authenticator may be cloned',
+        { direction: SecurityDirection.SOUTHEAST, credentialId: credential._id, storedCounter: credential.counter, signCount }
+      );
+    }
+
+    logger.warn('WebAuthn assertion rejected', {
+      userId: credential.userId,
+      counterRegressed,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  private static async storeChallenge(challenge: string, ceremony: WebAuthnCeremony, userId: string | null): Promise<void> {
+    await WebAuthnChallenge.create({
+      challenge,
+      ceremony,
+      userId,
+      expiresAt: new Date(Date.now() + this.CHALLENGE_TTL_MS),
+    });
+  }
+
+  /**
+   * Atomically use up a challenge so an assertion can never be replayed
+   */
+  private static async consumeChallenge(challenge: string, ceremony: WebAuthnCeremony, userId: string | null): Promise<void> {
+    const record = await WebAuthnChallenge.findOneAndDelete({
+      challenge,
+      ceremony,
+      userId,
+      expiresAt: { $gt: new Date() },
+    });
+
+    if (!record) {
+      throw new AppError('WebAuthn challenge is invalid or expired', 400, 'WEBAUTHN_CHALLENGE_INVALID');
+    }
+  }
+
+  private static extractChallenge(clientDataJSON: string): string {
+    try {
+      const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+      if (typeof clientData.challenge !== 'string') {
+        throw new Error('Missing challenge');
+      }
+      return clientData.challenge;
+    } catch (error) {
+      throw new AppError('Malformed WebAuthn response', 400, 'WEBAUTHN_INVALID_RESPONSE');
+    }
+  }
+
+  private static getRelyingParty(): { rpName: string; rpID: string; origin: string } {
+    const origin = process.env.WEBAUTHN_ORIGIN || process.env.FRONTEND_URL || 'http://localhost:3000';
+    return {
+      rpName: process.env.WEBAUTHN_RP_NAME || 'Aṣṭa Digbandhanam Vault',
+      rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+      origin,
+    };
+  }
+
+  private static async getUser(userId: string): Promise<IUser> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+}
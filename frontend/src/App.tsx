@@ -6,6 +6,9 @@ import { LoginPage } from '@/pages/LoginPage'
 import { RegisterPage } from '@/pages/RegisterPage'
 import { DashboardPage } from '@/pages/DashboardPage'
 import { VaultPage } from '@/pages/VaultPage'
+import { OrganizationsPage } from '@/pages/OrganizationsPage'
+import { SendsPage } from '@/pages/SendsPage'
+import { SendAccessPage } from '@/pages/SendAccessPage'
 import { SecurityPage } from '@/pages/SecurityPage'
 import { ProfilePage } from '@/pages/ProfilePage'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
@@ -38,6 +41,9 @@ function App() {
           }
         />
 
+        {/* Send links work whether or not the visitor is signed in */}
+        <Route path="/send/:accessId" element={<SendAccessPage />} />
+
         {/* Protected routes */}
         <Route
           path="/"
@@ -75,6 +81,30 @@ function App() {
             )
           }
         />
+        <Route
+          path="/organizations"
+          element={
+            isAuthenticated ? (
+              <Layout>
+                <OrganizationsPage />
+              </Layout>
+            ) : (
+              <Navigate to="/login" replace />
+            )
+          }
+        />
+        <Route
+          path="/sends"
+          element={
+            isAuthenticated ? (
+              <Layout>
+                <SendsPage />
+              </Layout>
+            ) : (
+              <Navigate to="/login" replace />
+            )
+          }
+        />
         <Route
           path="/security"
           element={
@@ -0,0 +1,70 @@
+// QR code images as PNG, encoded in base64
+
+// otpauth://totp/ACME%20Co:jane@example.com?secret=JBSWY3DPEHPK3PXP&issuer=ACME%20Co&algorithm=SHA1&digits=6&period=30
+export const TOTP_QR_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAANQAAADUCAYAAADk3g0YAAAAAklEQVR4AewaftIAAApTSURBVO3BQY4YybLgQDJR978yR0tfBZDI' +
+  'KKn/GzezP1hrXfGw1rrmYa11zcNa65qHtdY1D2utax7WWtc8rLWueVhrXfOw1rrmYa11zcNa65qHtdY1D2utax7WWtc8rLWu+eEj' +
+  'lb+p4kTli4pJ5aTib1KZKr5QmSomlaniJpWpYlL5myq+eFhrXfOw1rrmYa11zQ+XVdyk8kbFpPKGyhsqb1RMKlPFScWk8kXFScUb' +
+  'KlPFpDJVvFFxk8pND2utax7WWtc8rLWu+eGXqbxR8YbKFxVfqEwVb1RMKlPFpDJVTCo3qfyXqbxR8Zse1lrXPKy1rnlYa13zw/+Y' +
+  'ikllqjhR+ZtUpopJ5Y2KSeVE5aTiDZU3VKaK/8se1lrXPKy1rnlYa13zw//nVE4qTlQmlS9U3lCZKt6omFQmlanipGJS+f/Jw1rr' +
+  'moe11jUPa61rfvhlFX+TyonKGypvVEwqU8WkMlW8oTKpTBWTyhsVJypTxVTxmyr+Sx7WWtc8rLWueVhrXfPDZSr/UsWkMlVMKlPF' +
+  'pDJVTCq/SWWqOKmYVKaKSWWqmFSmijdUpopJZao4Ufkve1hrXfOw1rrmYa11zQ8fVfyXqJyoTBUnFScVk8pNFW+oTBWTyhcqU8UX' +
+  'FScV/5c8rLWueVhrXfOw1rrG/uADlaliUrmp4kRlqjhRmSomlaliUpkqJpV/qWJSmSq+UJkqJpU3KiaVmyp+08Na65qHtdY1D2ut' +
+  'a374xypuqjhRmSomlaniDZXfVDGpTBUnFb9JZao4UZlUpoqbVE4qvnhYa13zsNa65mGtdY39wQcqJxWTyhcVJypTxYnK31TxhcpU' +
+  'MamcVJyonFScqPymijdUTipuelhrXfOw1rrmYa11jf3BRSonFZPKScWkclIxqUwVJypTxRsqN1X8SypTxaQyVUwqU8WJyknFpHJT' +
+  'xRcPa61rHtZa1zysta754bKKE5WpYlKZVE4qJpWp4iaVqeKNikllqphUTiomlTcqTiomlanipooTlaniDZXf9LDWuuZhrXXNw1rr' +
+  'mh8uUzmpmFROKk5U3lA5qZhUpopJZaqYVCaVE5WpYlJ5o2JSmVSmipsqJpU3Kk5UpoqTiknlpoe11jUPa61rHtZa19gffKDyRsWJ' +
+  'yknFicobFZPKScWkMlWcqJxU3KRyUjGpTBWTylQxqbxRcaJyUjGpnFT8poe11jUPa61rHtZa1/xwWcWkMqlMFVPFGyp/k8obKlPF' +
+  'icpUMalMFScVv0llqphUpopJZao4qZhUpop/6WGtdc3DWuuah7XWNT9cpjJVnKi8UTFVTCpvqEwVJypTxU0Vb6hMFScqN1VMKm9U' +
+  'TCpTxaRyovJGxU0Pa61rHtZa1zysta754aOKN1ROKk5U/qWKNyomlaliUnmj4kRlqphUTlSmiptUpopJZap4Q+VvelhrXfOw1rrm' +
+  'Ya11zQ8fqUwVk8pUcaLyRsWkclIxqZyofFFxonKTyhsVJyqTylTxRcWkcqJyUnFS8Zse1lrXPKy1rnlYa13zwy+rOFGZKt5QmSom' +
+  'lUnlRGWq+JsqTlROKiaVSeWk4g2V31QxqbxRcaIyVXzxsNa65mGtdc3DWusa+4NfpDJVTCq/qWJSmSpOVE4qvlD5TRWTylTxN6n8' +
+  'SxW/6WGtdc3DWuuah7XWNT98pHJSMamcVLyhMlWcVHxR8Zsq3lCZKiaVqeJE5V+qeEPlDZWTii8e1lrXPKy1rnlYa13zw0cVJypf' +
+  'qEwVf1PFicpJxRcqU8WJylRxojJV/E0qJypTxUnFpHJScdPDWuuah7XWNQ9rrWt+uExlqphU3qj4QuWLikllqnhD5Y2KNypOVKaK' +
+  'L1Smiknli4o3VP6lh7XWNQ9rrWse1lrX/PCRylQxqUwVk8qk8psqJpUvVE4qpopJZVK5SWWqOFE5qfiiYlKZVG6qmFR+08Na65qH' +
+  'tdY1D2uta+wPLlKZKk5UTiomlaliUvmbKk5U/qaKm1SmikllqvgvUZkqJpWp4ouHtdY1D2utax7WWtfYH1yk8i9VTCpvVPxNKicV' +
+  'b6icVEwqX1ScqEwVb6icVEwqb1Tc9LDWuuZhrXXNw1rrmh8uq/hNKlPFpPJGxaQyVUwqU8WkclIxVbyhclLxRcUbKlPFicr/soe1' +
+  '1jUPa61rHtZa1/xwmcpJxYnKGypTxYnKpDJVTCpfVJyonFScVJyovKHyRsVJxaTyRsWJylTxLz2sta55WGtd87DWuuaHX1YxqbxR' +
+  'Mal8UTGpnFScqEwVb1RMKpPKVDGpTBUnFZPKVDGpnKicVLxR8UbFicpUMalMFV88rLWueVhrXfOw1rrmh49UpoqTikllqphUpooT' +
+  'lZOKE5WpYlI5UTmpmFSmir+pYlKZKr5QmSomlUllqnhDZar4mx7WWtc8rLWueVhrXWN/8ItUporfpHJS8YbKVDGpTBWTylRxojJV' +
+  'nKicVJyoTBWTyhcVk8pUcaJyUnGiclJx08Na65qHtdY1D2uta374SGWq+ELlpOILlZOKqeKk4guVE5Wp4qRiUnlD5Y2KSeWkYlI5' +
+  'qThROak4UZkqvnhYa13zsNa65mGtdY39wT+kclIxqfxNFScqU8WJylRxojJVTCpTxRcqf1PFpDJVTCpTxRsqJxVfPKy1rnlYa13z' +
+  'sNa65of/mIpJ5Y2KSWWqmFSmit9U8YXKVDGpvFExVUwqf1PFScWkMlVMKlPFb3pYa13zsNa65mGtdY39wUUqX1ScqLxRMamcVEwq' +
+  'JxVvqEwVk8pJxRsqU8Wk8kXFicobFZPKScUbKicVXzysta55WGtd87DWuuaHj1SmihOVN1Smipsq3qiYVL5QeUPlpGKqmFSmiknl' +
+  'pOJE5aRiUplU3lD5L3lYa13zsNa65mGtdc0PH1W8UfFGxYnKGxWTylQxVZxUvKFyUvGGyt+k8psq3lCZKiaVqWJSuelhrXXNw1rr' +
+  'moe11jU/fKTyN1VMFV9UTConFZPKVDGpfKEyVXxR8UbFicpUcZPKVPGFylRx08Na65qHtdY1D2uta364rOImlROVk4pJ5aTiC5Wb' +
+  'Km5SmSqmiv+SijdUTip+08Na65qHtdY1D2uta374ZSpvVHxRMalMFZPKpHJScVIxqUwVk8qk8psq3lCZKk5UpopJ5UTli4p/6WGt' +
+  'dc3DWuuah7XWNT/8j1GZKr6omFROVN6oOFE5qZhUpooTlaniRGWq+KLiRGWqmFQmlaliUjmp+OJhrXXNw1rrmoe11jU//I9TeaNi' +
+  'UpkqblI5qThRmSpOVKaKk4o3VE4qvlB5Q2Wq+E0Pa61rHtZa1zysta754ZdV/KaKSeWkYlI5qThROan4QuWmiknlpopJZVKZKr6o' +
+  'mFT+pYe11jUPa61rHtZa1/xwmcrfpPJFxYnKVDFVvKEyVUwqJxUnKlPFpHJSMamcVLxRMam8UfFGxaQyVdz0sNa65mGtdc3DWusa' +
+  '+4O11hUPa61rHtZa1zysta55WGtd87DWuuZhrXXNw1rrmoe11jUPa61rHtZa1zysta55WGtd87DWuuZhrXXNw1rrmv8Hix993YJo' +
+  'rJ4AAAAASUVORK5CYII='
+
+// otpauth://hotp/ACME%20Co:jane@example.com?secret=JBSWY3DPEHPK3PXP&counter=0
+export const HOTP_QR_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAALQAAAC0CAYAAAA9zQYyAAAAAklEQVR4AewaftIAAAc4SURBVO3BQY5byZIAQfcE739lHy1jNg8g' +
+  'yCqp84eZ/cFalzisdZHDWhc5rHWRw1oXOax1kcNaFzmsdZHDWhc5rHWRw1oXOax1kcNaFzmsdZHDWhc5rHWRFx9S+U0Vk8qTiicq' +
+  'U8UTlaliUpkqJpXfVDGpPKmYVH5TxScOa13ksNZFDmtd5MWXVXyTypOKJypPKr6p4h0Vk8pUMam8Q+VJxTsqvknlmw5rXeSw1kUO' +
+  'a13kxQ9TeUfFJ1SeVDxR+YTKk4p3qEwV71B5ojJVvEPlHRU/6bDWRQ5rXeSw1kVe/MepTBVPVD5RMalMFZPKOyreoTJVPKmYVG5y' +
+  'WOsih7UucljrIi/W/1PxCZWp4ptUnqj8LzusdZHDWhc5rHWRFz+s4m9SmSqeqEwVk8pUMak8UZkqJpUnFe9Q+UkV/5LDWhc5rHWR' +
+  'w1oXefFlKv8lKlPFpDJVTCpTxaQyVUwqU8Wk8kRlqvhJKv+yw1oXOax1kcNaF7E/+A9TeVIxqUwV/xKVqeKJylTxv+yw1kUOa13k' +
+  'sNZFXnxIZap4h8pUMam8o2JSmSomlScVk8qTiicqn1CZKp6o/E0VT1Smik8c1rrIYa2LHNa6iP3BD1J5UjGpTBVPVD5RMalMFZ9Q' +
+  'eVIxqfxNFe9QmSqeqEwV33RY6yKHtS5yWOsiL35YxaTypGJSeVLxCZUnKk8qJpWpYlJ5UjGpTBWTypOKSeUdKt9U8ZMOa13ksNZF' +
+  'Dmtd5MWHVD6hMlVMFU9U3lHxjopJZVL5hMo3VUwq31TxDpUnFd90WOsih7UucljrIi/+MSpPKp5UfKJiUpkqJpV3VEwq36QyVUwq' +
+  'U8U7VKaKSeUdKlPFJw5rXeSw1kUOa13E/uADKlPFpPKk4h0q31TxROVJxROVqeKJylQxqUwVT1SeVLxD5UnF33RY6yKHtS5yWOsi' +
+  '9gdfpDJVTCpTxaTyiYpJZaqYVKaKJypTxaQyVXxC5R0VT1TeUfFE5R0VP+mw1kUOa13ksNZFXnxIZaqYVJ6oPKn4TSpTxSdUpoon' +
+  'Kk8qfpPKVPGkYlL5TYe1LnJY6yKHtS7y4odVfEJlqniiMlVMKlPFpDKpvKNiUnmi8qTiEypTxSdUPqHypOITh7UucljrIoe1LvLi' +
+  'y1SmiknlHRWTylTxRGWqmFSmikllqphUnlRMKk8qJpV3VDxRmSo+UfGkYlKZKr7psNZFDmtd5LDWRV58WcWTiknlicpU8U0VP0ll' +
+  'qnii8qRiUvlJKlPFE5WpYqr4SYe1LnJY6yKHtS7y4kMVT1SmindUPFF5UjGpTBWfqJhUpopPVEwqU8UnVKaKT1RMKlPFpDJVfOKw' +
+  '1kUOa13ksNZFXvxjKiaVqWKqeEfFJ1SmineoTBVPVKaKSeVJxROVSeUnqUwV33RY6yKHtS5yWOsi9gc/SOUTFZPKk4p3qPymit+k' +
+  '8o6KJypPKv6mw1oXOax1kcNaF7E/+CKVd1RMKn9TxROVqeKJylQxqUwVk8qTiknlmyo+oTJV/KTDWhc5rHWRw1oXefFlFZPKE5Wp' +
+  '4iepTBWTylQxVbyj4jdVTCpPKj6hMlW8Q2Wq+MRhrYsc1rrIYa2LvPgylaniicoTlaliUpkqJpWpYlKZKp6oPKl4ovJEZar4popJ' +
+  'Zap4ojJVTCp/02GtixzWushhrYvYH3xAZap4ovKOikllqphUpopPqEwV71D5myomlaliUvmmit90WOsih7UucljrIi8+VPFE5UnF' +
+  'E5Wp4knFE5VPqEwVk8qTik+oPKmYVH5SxROVqeInHda6yGGtixzWusiLX1YxqUwVU8U7VKaKqeKJyjtUvknlScVvqphUJpWp4m86' +
+  'rHWRw1oXOax1kRcfUnmHyjtUpop3qDypeFLxDpV3qPymiknlico7VN6hMlV84rDWRQ5rXeSw1kXsD/7DVKaKSWWqmFSmiicqTyom' +
+  'laniicpUMan8pIp3qDypmFSmim86rHWRw1oXOax1kRcfUvlNFU9Unqi8Q+VJxaQyVXxC5UnFpDJVPFF5ojJVPKmYVKaKn3RY6yKH' +
+  'tS5yWOsiL76s4ptUnlS8Q+UTFZPKE5Wp4h0V76j4poqfpDJVfOKw1kUOa13ksNZFXvwwlXdUvEPlScU7VN5R8URlUpkqpopPqDyp' +
+  'eKLyCZUnKlPFNx3WushhrYsc1rrIi/+4ikllUnlS8QmVJxWTyqQyVUwqU8Wk8g6Vb6qYVKaKSeUnHda6yGGtixzWusiL/zEV71CZ' +
+  'Kp5UTCpPKiaVqWJSeVIxqUwVT1S+SeU3Hda6yGGtixzWusiLH1bxmyp+U8WkMlVMKpPKv6Tiv+yw1kUOa13ksNZFXnyZym9SeVIx' +
+  'qTypeKIyVbyjYlKZKiaVqeITKu+oeKLyCZWp4hOHtS5yWOsih7UuYn+w1iUOa13ksNZFDmtd5LDWRQ5rXeSw1kUOa13ksNZFDmtd' +
+  '5LDWRQ5rXeSw1kUOa13ksNZFDmtd5P8AwqmMrc7D33QAAAAASUVORK5CYII='
@@ -1,17 +1,18 @@
 import '@testing-library/jest-dom'
+import { vi } from 'vitest'
 
 // Mock window.matchMedia
 Object.defineProperty(window, 'matchMedia', {
   writable: true,
-  value: jest.fn().mockImplementation(query => ({
+  value: vi.fn().mockImplementation(query => ({
     matches: false,
     media: query,
     onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
+    addListener: vi.fn(), // deprecated
+    removeListener: vi.fn(), // deprecated
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    dispatchEvent: vi.fn(),
   })),
 })
 
@@ -31,37 +32,38 @@ global.ResizeObserver = class ResizeObserver {
   unobserve() {}
 }
 
-// Mock crypto for testing
+// Mock crypto for testing, calling through to the platform's WebCrypto so results are real
+const { subtle } = globalThis.crypto
 Object.defineProperty(global, 'crypto', {
   value: {
     getRandomValues: (arr: any) => arr.map(() => Math.floor(Math.random() * 256)),
     subtle: {
-      generateKey: jest.fn(),
-      importKey: jest.fn(),
-      exportKey: jest.fn(),
-      encrypt: jest.fn(),
-      decrypt: jest.fn(),
-      sign: jest.fn(),
-      verify: jest.fn(),
-      digest: jest.fn(),
+      generateKey: vi.fn(subtle.generateKey.bind(subtle)),
+      importKey: vi.fn(subtle.importKey.bind(subtle)),
+      exportKey: vi.fn(subtle.exportKey.bind(subtle)),
+      encrypt: vi.fn(subtle.encrypt.bind(subtle)),
+      decrypt: vi.fn(subtle.decrypt.bind(subtle)),
+      sign: vi.fn(subtle.sign.bind(subtle)),
+      verify: vi.fn(subtle.verify.bind(subtle)),
+      digest: vi.fn(subtle.digest.bind(subtle)),
     },
   },
 })
 
 // Mock localStorage
 const localStorageMock = {
-  getItem: jest.fn(),
-  setItem: jest.fn(),
-  removeItem: jest.fn(),
-  clear: jest.fn(),
+  getItem: vi.fn(),
+  setItem: vi.fn(),
+  removeItem: vi.fn(),
+  clear: vi.fn(),
 }
 global.localStorage = localStorageMock
 
 // Mock sessionStorage
 const sessionStorageMock = {
-  getItem: jest.fn(),
-  setItem: jest.fn(),
-  removeItem: jest.fn(),
-  clear: jest.fn(),
+  getItem: vi.fn(),
+  setItem: vi.fn(),
+  removeItem: vi.fn(),
+  clear: vi.fn(),
 }
 global.sessionStorage = sessionStorageMock
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { estimatePasswordStrength, getPasswordStrengthIssue } from '@/utils/passwordStrength'
+import { COMMON_PASSWORDS, ENGLISH_WORDS, NAMES } from '@/utils/passwordDictionaries'
+import { EFF_SHORT_WORDLIST } from '@/utils/effShortWordlist'
+// The server keeps its own copy of the estimator to check new passwords, and both must agree
+import { PasswordStrengthService } from '../../../../backend/src/services/passwordStrength'
+import * as backendDictionaries from '../../../../backend/src/data/passwordDictionaries'
+import * as backendWordlist from '../../../../backend/src/data/effShortWordlist'
+
+const CORPUS: Array<[string, string[]]> = [
+  ['', []],
+  ['a', []],
+  ['password', []],
+  ['Password1!', []],
+  ['p@ssw0rd', []],
+  ['drowssap', []],
+  ['qwertyuiop', []],
+  ['zxcvbn', []],
+  ['1qaz2wsx', []],
+  ['aaaaaaaaaa', []],
+  ['abcabcabc', []],
+  ['abcdefgh', []],
+  ['13579', []],
+  ['zyxwvu', []],
+  ['12/25/1990', []],
+  ['19900715', []],
+  ['jennifer2010', []],
+  ['michael', []],
+  ['correct horse battery staple', []],
+  ['Tr0ub4dor&3', []],
+  ['acid-bunny-cable-drum', []],
+  ['x7#Kq9!vR2$mLp', []],
+  ['aliceSmith1985', ['alice.smith@example.com']],
+  ['Examplecorp2024', ['example', 'corp']],
+  ['🔒secure🔑vault', []],
+  ['a'.repeat(200), []],
+]
+
+describe('passwordStrength', () => {
+  describe('parity with the server', () => {
+    it('should ship the same dictionaries', () => {
+      expect(COMMON_PASSWORDS).toEqual(backendDictionaries.COMMON_PASSWORDS)
+      expect(ENGLISH_WORDS).toEqual(backendDictionaries.ENGLISH_WORDS)
+      expect(NAMES).toEqual(backendDictionaries.NAMES)
+      expect(EFF_SHORT_WORDLIST).toEqual(backendWordlist.EFF_SHORT_WORDLIST)
+    })
+
+    it.each(CORPUS)('should estimate %j the same way', (password, userInputs) => {
+      expect(estimatePasswordStrength(password, userInputs)).toEqual(PasswordStrengthService.estimate(password, userInputs))
+    })
+  })
+
+  describe('estimatePasswordStrength', () => {
+    it('should score common passwords as weak', () => {
+      expect(estimatePasswordStrength('password').score).toBe(0)
+      expect(estimatePasswordStrength('p@ssw0rd').score).toBeLessThanOrEqual(1)
+    })
+
+    it('should score long random passwords as strong', () => {
+      expect(estimatePasswordStrength('x7#Kq9!vR2$mLp').score).toBe(4)
+    })
+
+    it('should penalize passwords built from the user inputs', () => {
+      const withoutInputs = estimatePasswordStrength('aliceSmith1985')
+      const withInputs = estimatePasswordStrength('aliceSmith1985', ['alice.smith@example.com'])
+
+      expect(withInputs.guesses).toBeLessThan(withoutInputs.guesses)
+      expect(withInputs.sequence.some((match) => match.dictionary === 'userInputs')).toBe(true)
+    })
+  })
+
+  describe('getPasswordStrengthIssue', () => {
+    it('should accept strong enough passwords', () => {
+      expect(getPasswordStrengthIssue('x7#Kq9!vR2$mLp', 'master')).toBeNull()
+    })
+
+    it('should explain why a weak password is rejected', () => {
+      expect(getPasswordStrengthIssue('password', 'account')).toMatch(/^Password is too easy to guess: /)
+      expect(getPasswordStrengthIssue('password', 'master')).toMatch(/^Master password is too easy to guess: /)
+    })
+  })
+})
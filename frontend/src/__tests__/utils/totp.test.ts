@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { decode } from 'fast-png'
+import { generateTotp, getTotpRemaining, isValidTotp, parseTotp, readTotpQrCode, TotpAlgorithm, TotpConfig } from '@/utils/totp'
+import { HOTP_QR_PNG, TOTP_QR_PNG } from '../fixtures/qrCodes'
+
+// Seeds of RFC 6238 appendix B, each as long as its hash output
+const RFC_SECRETS: Record<TotpAlgorithm, string> = {
+  sha1: '12345678901234567890',
+  sha256: '12345678901234567890123456789012',
+  sha512: '1234567890'.repeat(6) + '1234',
+}
+
+// RFC 6238 appendix B: [unix time, SHA-1, SHA-256, SHA-512]
+const RFC_VECTORS: Array<[number, string, string, string]> = [
+  [59, '94287082', '46119246', '90693936'],
+  [1111111109, '07081804', '68084774', '25091201'],
+  [1111111111, '14050471', '67062674', '99943326'],
+  [1234567890, '89005924', '91819424', '93441116'],
+  [2000000000, '69279037', '90698825', '38618901'],
+  [20000000000, '65353130', '77737706', '47863826'],
+]
+
+const rfcConfig = (algorithm: TotpAlgorithm, digits: 6 | 8): TotpConfig => ({
+  secret: new TextEncoder().encode(RFC_SECRETS[algorithm]),
+  algorithm,
+  digits,
+  period: 30,
+})
+
+const pngFile = (base64: string): Blob =>
+  new Blob([Uint8Array.from(atob(base64), char => char.charCodeAt(0))], { type: 'image/png' })
+
+// RGBA pixels of an 8-bit PNG, as a canvas would return them
+const toRgba = ({ data, channels, width, height }: ReturnType<typeof decode>): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const pixel = Array.from(data.subarray(i * channels, (i + 1) * channels))
+    const [r, g, b] = channels >= 3 ? pixel : [pixel[0], pixel[0], pixel[0]]
+    const alpha = channels === 2 || channels === 4 ? pixel[channels - 1] : 255
+    rgba.set([r, g, b, alpha], i * 4)
+  }
+  return rgba
+}
+
+// jsdom's Blob has no arrayBuffer()
+const readBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+
+// jsdom has neither createImageBitmap nor a 2D canvas, so decode the PNG in their place
+const stubCanvas = () => {
+  vi.stubGlobal('createImageBitmap', async (image: Blob) => {
+    const png = decode(await readBytes(image))
+    return { width: png.width, height: png.height, pixels: toRgba(png), close: vi.fn() }
+  })
+
+  let drawn: { width: number; height: number; pixels: Uint8ClampedArray } | null = null
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ({
+    drawImage: (bitmap: typeof drawn) => {
+      drawn = bitmap
+    },
+    getImageData: () => ({ data: drawn!.pixels, width: drawn!.width, height: drawn!.height }),
+  }) as unknown as CanvasRenderingContext2D)
+}
+
+const cases = RFC_VECTORS.flatMap(([time, ...codes]) =>
+  (['sha1', 'sha256', 'sha512'] as const).map((algorithm, i) => [algorithm, time, codes[i]] as const)
+)
+
+describe('totp', () => {
+  describe('generateTotp', () => {
+    it.each(cases)('should match the RFC 6238 %s vector at %i', async (algorithm, time, code) => {
+      expect(await generateTotp(rfcConfig(algorithm, 8), time * 1000)).toBe(code)
+    })
+
+    it.each(cases)('should truncate the RFC 6238 %s vector at %i to 6 digits', async (algorithm, time, code) => {
+      expect(await generateTotp(rfcConfig(algorithm, 6), time * 1000)).toBe(code.slice(-6))
+    })
+
+    it('should generate codes from a parsed base32 secret', async () => {
+      // Base32 of the RFC 6238 SHA-1 seed
+      const config = parseTotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+
+      expect(await generateTotp(config, 59 * 1000)).toBe('287082')
+    })
+
+    it('should keep the same code within a period', async () => {
+      const config = rfcConfig('sha1', 6)
+
+      expect(await generateTotp(config, 60 * 1000)).toBe(await generateTotp(config, 89 * 1000))
+      expect(await generateTotp(config, 60 * 1000)).not.toBe(await generateTotp(config, 90 * 1000))
+    })
+  })
+
+  describe('parseTotp', () => {
+    it('should default a bare secret to SHA-1, 6 digits and 30 seconds', () => {
+      const config = parseTotp(' jbsw y3dp ehpk 3pxp ')
+
+      expect(config).toEqual({
+        secret: new Uint8Array([0x48, 0x65, 0x6c, 0x6c, 0x6f, 0x21, 0xde, 0xad, 0xbe, 0xef]),
+        algorithm: 'sha1',
+        digits: 6,
+        period: 30,
+      })
+    })
+
+    it('should read every parameter of an otpauth URI', () => {
+      const config = parseTotp('otpauth://totp/ACME%20Co:jane@example.com?secret=JBSWY3DPEHPK3PXP&algorithm=SHA256&digits=8&period=60&issuer=ACME%20Co')
+
+      expect(config.algorithm).toBe('sha256')
+      expect(config.digits).toBe(8)
+      expect(config.period).toBe(60)
+      expect(config.issuer).toBe('ACME Co')
+      expect(config.account).toBe('jane@example.com')
+    })
+
+    it('should take the issuer from the label when the parameter is missing', () => {
+      const config = parseTotp('otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP')
+
+      expect(config.issuer).toBe('GitHub')
+      expect(config.account).toBe('octocat')
+      expect(config.algorithm).toBe('sha1')
+    })
+
+    it('should accept a label without an issuer', () => {
+      const config = parseTotp('otpauth://totp/octocat?secret=JBSWY3DPEHPK3PXP&algorithm=SHA-512')
+
+      expect(config.issuer).toBeUndefined()
+      expect(config.account).toBe('octocat')
+      expect(config.algorithm).toBe('sha512')
+    })
+
+    it.each([
+      ['a counter-based URI', 'otpauth://hotp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP&counter=0', /time-based/],
+      ['a missing secret', 'otpauth://totp/GitHub:octocat', /base32/],
+      ['a secret that is not base32', 'otpauth://totp/GitHub:octocat?secret=JBSWY3DP01', /base32/],
+      ['an unsupported algorithm', 'otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP&algorithm=MD5', /algorithm/],
+      ['7 digits', 'otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP&digits=7', /6 or 8 digits/],
+      ['a zero period', 'otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP&period=0', /period/],
+      ['a period over 300 seconds', 'otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP&period=301', /period/],
+    ])('should reject %s', (_, value, message) => {
+      expect(() => parseTotp(value)).toThrow(message)
+      expect(isValidTotp(value)).toBe(false)
+    })
+
+    it('should accept valid secrets and URIs', () => {
+      expect(isValidTotp('JBSWY3DPEHPK3PXP')).toBe(true)
+      expect(isValidTotp('otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP')).toBe(true)
+      expect(isValidTotp('')).toBe(false)
+    })
+  })
+
+  describe('readTotpQrCode', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      vi.restoreAllMocks()
+      delete window.BarcodeDetector
+    })
+
+    it('should decode the otpauth URI of a QR code image', async () => {
+      stubCanvas()
+
+      const uri = await readTotpQrCode(pngFile(TOTP_QR_PNG))
+
+      expect(uri).toBe('otpauth://totp/ACME%20Co:jane@example.com?secret=JBSWY3DPEHPK3PXP&issuer=ACME%20Co&algorithm=SHA1&digits=6&period=30')
+      expect(parseTotp(uri).issuer).toBe('ACME Co')
+    })
+
+    it('should fall back to the bundled decoder when BarcodeDetector finds nothing', async () => {
+      stubCanvas()
+      const detect = vi.fn().mockResolvedValue([])
+      window.BarcodeDetector = vi.fn(() => ({ detect }))
+
+      const uri = await readTotpQrCode(pngFile(TOTP_QR_PNG))
+
+      expect(detect).toHaveBeenCalled()
+      expect(uri).toMatch(/^otpauth:\/\/totp\//)
+    })
+
+    it('should use BarcodeDetector where the browser ships it', async () => {
+      vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue({}))
+      window.BarcodeDetector = vi.fn(() => ({
+        detect: vi.fn().mockResolvedValue([{ rawValue: 'otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP' }]),
+      }))
+      const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+
+      expect(await readTotpQrCode(pngFile(TOTP_QR_PNG))).toBe('otpauth://totp/GitHub:octocat?secret=JBSWY3DPEHPK3PXP')
+      expect(getContext).not.toHaveBeenCalled()
+    })
+
+    it('should say so when a QR code is not a TOTP key', async () => {
+      stubCanvas()
+
+      await expect(readTotpQrCode(pngFile(HOTP_QR_PNG))).rejects.toThrow('This QR code is not a TOTP key')
+    })
+
+    it('should say so when the image has no QR code', async () => {
+      vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue({ width: 64, height: 64, close: vi.fn() }))
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        drawImage: vi.fn(),
+        getImageData: () => ({ data: new Uint8ClampedArray(64 * 64 * 4).fill(255), width: 64, height: 64 }),
+      } as unknown as CanvasRenderingContext2D)
+
+      await expect(readTotpQrCode(pngFile(TOTP_QR_PNG))).rejects.toThrow('No QR code found in the image')
+    })
+  })
+
+  describe('getTotpRemaining', () => {
+    it('should count down to the end of the period', () => {
+      expect(getTotpRemaining(30, 0)).toBe(30)
+      expect(getTotpRemaining(30, 29_999)).toBe(1)
+      expect(getTotpRemaining(30, 30_000)).toBe(30)
+      expect(getTotpRemaining(60, 45_000)).toBe(15)
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useVaultStore } from '@/store/vaultStore'
+import { VaultItem } from '@/types'
+import { ArrowDownTrayIcon, PaperClipIcon, TrashIcon } from '@heroicons/react/24/outline'
+import toast from 'react-hot-toast'
+
+// Leaves headroom under the server's 100 MB limit for the IV and tag
+const MAX_FILE_BYTES = 99 * 1024 * 1024
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+interface AttachmentsModalProps {
+  item: VaultItem
+  onClose: () => void
+}
+
+export const AttachmentsModal: React.FC<AttachmentsModalProps> = ({ item, onClose }) => {
+  const { attachments, fetchAttachments, uploadAttachment, downloadAttachment, deleteAttachment } = useVaultStore()
+  const [isSaving, setIsSaving] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    fetchAttachments(item.id)
+  }, [item.id, fetchAttachments])
+
+  const handleUpload = async (file: File | null) => {
+    if (!file) {
+      return
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      toast.error(`Files can be at most ${MAX_FILE_BYTES / (1024 * 1024)} MB`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await uploadAttachment(item.id, file)
+    } catch {
+      // Error is already surfaced by the store
+    } finally {
+      setIsSaving(false)
+      if (fileInput.current) {
+        fileInput.current.value = ''
+      }
+    }
+  }
+
+  const handleDownload = async (attachmentId: string) => {
+    try {
+      const { fileName, data } = await downloadAttachment(item.id, attachmentId)
+      const url = URL.createObjectURL(new Blob([new Uint8Array(data)]))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleDelete = async (attachmentId: string, fileName?: string) => {
+    if (!confirm(`Delete ${fileName || 'this attachment'}? This cannot be undone.`)) {
+      return
+    }
+    setIsSaving(true)
+    try {
+      await deleteAttachment(item.id, attachmentId)
+    } catch {
+      // Error is already surfaced by the store
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+          Attachments for {item.decryptedData?.title || 'item'}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Files are encrypted in your browser before upload, under a key only this item can open.
+        </p>
+
+        {attachments.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No attachments yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-60 overflow-y-auto">
+            {attachments.map((attachment) => (
+              <li key={attachment.id} className="flex items-center justify-between py-2">
+                <div className="flex items-center min-w-0 text-sm">
+                  <PaperClipIcon className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+                  <span className="truncate text-gray-900 dark:text-white">{attachment.fileName}</span>
+                  <span className="ml-2 flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                    {formatSize(attachment.size)}
+                  </span>
+                </div>
+                <div className="flex space-x-1 ml-2">
+                  <button
+                    onClick={() => handleDownload(attachment.id)}
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    title="Download"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(attachment.id, attachment.fileName)}
+                    className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    disabled={isSaving}
+                    title="Delete"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-between items-center mt-6">
+          <div>
+            <input
+              ref={fileInput}
+              type="file"
+              className="hidden"
+              onChange={(e) => handleUpload(e.target.files?.[0] ?? null)}
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="btn-secondary"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Working...' : 'Attach File'}
+            </button>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Up to {MAX_FILE_BYTES / (1024 * 1024)} MB
+            </p>
+          </div>
+          <button onClick={onClose} className="btn-secondary">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react'
+import { useOrganizationStore } from '@/store/organizationStore'
+import { CollectionAccess, OrganizationCollection } from '@/types'
+
+interface CollectionAccessModalProps {
+  collection: OrganizationCollection
+  onClose: () => void
+}
+
+export const CollectionAccessModal: React.FC<CollectionAccessModalProps> = ({ collection, onClose }) => {
+  const { members, setCollectionAccess } = useOrganizationStore()
+  const [access, setAccess] = useState<CollectionAccess[]>(collection.access)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const findAccess = (userId: string) => access.find(entry => entry.userId === userId)
+
+  const toggleMember = (userId: string) => {
+    setAccess(findAccess(userId)
+      ? access.filter(entry => entry.userId !== userId)
+      : [...access, { userId, readOnly: false }])
+  }
+
+  const toggleReadOnly = (userId: string) => {
+    setAccess(access.map(entry => entry.userId === userId ? { ...entry, readOnly: !entry.readOnly } : entry))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await setCollectionAccess(collection.id, access)
+      onClose()
+    } catch {
+      // Error is already surfaced by the store
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+          Access to {collection.name}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Every item's key is re-encrypted in your browser for each member you add.
+        </p>
+
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-80 overflow-y-auto">
+          {members.map((member) => {
+            const entry = findAccess(member.userId)
+            return (
+              <li key={member.userId} className="flex items-center justify-between py-2">
+                <label className="flex items-center space-x-3 text-sm text-gray-900 dark:text-white">
+                  <input
+                    type="checkbox"
+                    checked={!!entry}
+                    onChange={() => toggleMember(member.userId)}
+                    disabled={!member.publicKey}
+                  />
+                  <span>{member.email}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 capitalize">{member.role}</span>
+                </label>
+                {entry && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={entry.readOnly}
+                      onChange={() => toggleReadOnly(member.userId)}
+                    />
+                    <span>Read-only</span>
+                  </label>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="btn-primary" disabled={isSaving || access.length === 0}>
+            Save Access
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
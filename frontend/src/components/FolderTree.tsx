@@ -0,0 +1,212 @@
+import React, { useState } from 'react'
+import {
+  FolderIcon,
+  FolderPlusIcon,
+  InboxIcon,
+  PencilIcon,
+  TrashIcon,
+  Squares2X2Icon,
+  ChevronRightIcon,
+  ChevronDownIcon
+} from '@heroicons/react/24/outline'
+import { useVaultStore } from '@/store/vaultStore'
+import { Folder } from '@/types'
+
+// Drag payload types, so a drop can tell an item from a folder
+export const ITEM_DRAG_TYPE = 'application/x-vault-item'
+export const FOLDER_DRAG_TYPE = 'application/x-vault-folder'
+
+interface FolderTreeProps {
+  selectedFolderId: string | null
+  onSelect: (folderId: string | null) => void
+}
+
+export const FolderTree: React.FC<FolderTreeProps> = ({ selectedFolderId, onSelect }) => {
+  const { vaultKey, folders, createFolder, renameFolder, moveFolder, deleteFolder, moveItemToFolder } = useVaultStore()
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const getChildren = (parentId: string | null) =>
+    folders
+      .filter(folder => folder.parentId === parentId)
+      .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setCollapsed(next)
+  }
+
+  const handleCreate = async (parentId: string | null) => {
+    const name = prompt('Folder name')?.trim()
+    if (!name) {
+      return
+    }
+    try {
+      await createFolder(name, parentId)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleRename = async (folder: Folder) => {
+    const name = prompt('Rename folder', folder.name)?.trim()
+    if (!name || name === folder.name) {
+      return
+    }
+    try {
+      await renameFolder(folder.id, name)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleDelete = async (folder: Folder) => {
+    if (!confirm(`Delete the folder "${folder.name}"?`)) {
+      return
+    }
+    const trashItems = confirm(
+      'Move the items in this folder and its subfolders to the trash as well?\n\n'
+      + 'Choose Cancel to keep them and move them up to the parent folder.'
+    )
+    try {
+      await deleteFolder(folder.id, trashItems ? 'trash' : 'moveToParent')
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  // A null target files the item, or places the folder, at the top level
+  const handleDrop = async (e: React.DragEvent, folderId: string | null) => {
+    e.preventDefault()
+    setDropTarget(null)
+
+    const itemId = e.dataTransfer.getData(ITEM_DRAG_TYPE)
+    const draggedFolderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE)
+    try {
+      if (itemId) {
+        await moveItemToFolder(itemId, folderId)
+      } else if (draggedFolderId && draggedFolderId !== folderId) {
+        await moveFolder(draggedFolderId, folderId)
+      }
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const dropProps = (key: string, folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (e.dataTransfer.types.includes(ITEM_DRAG_TYPE) || e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)) {
+        e.preventDefault()
+        setDropTarget(key)
+      }
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => handleDrop(e, folderId),
+  })
+
+  const rowClass = (selected: boolean, key: string) =>
+    `group flex items-center py-1.5 pr-2 rounded-md text-sm cursor-pointer ${
+      dropTarget === key
+        ? 'bg-primary-100 dark:bg-primary-900'
+        : selected
+          ? 'bg-gray-100 text-primary-600 dark:bg-gray-700 dark:text-primary-400'
+          : 'text-gray-700 hover:bg-gray-50 dark:text-gray-300 dark:hover:bg-gray-700'
+    }`
+
+  const renderFolder = (folder: Folder, depth: number): React.ReactNode => {
+    const children = getChildren(folder.id)
+    const isCollapsed = collapsed.has(folder.id)
+
+    return (
+      <li key={folder.id}>
+        <div
+          draggable
+          onDragStart={(e) => e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id)}
+          onClick={() => onSelect(folder.id)}
+          className={rowClass(selectedFolderId === folder.id, folder.id)}
+          style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}
+          {...dropProps(folder.id, folder.id)}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation()
+              toggleCollapsed(folder.id)
+            }}
+            className={`p-0.5 text-gray-400 ${children.length === 0 ? 'invisible' : ''}`}
+          >
+            {isCollapsed ? <ChevronRightIcon className="h-3 w-3" /> : <ChevronDownIcon className="h-3 w-3" />}
+          </button>
+          <FolderIcon className="h-4 w-4 mx-1.5 flex-shrink-0" />
+          <span className="flex-1 truncate">{folder.name}</span>
+          <div className="hidden group-hover:flex space-x-1" onClick={(e) => e.stopPropagation()}>
+            <button onClick={() => handleCreate(folder.id)} className="text-gray-400 hover:text-gray-600" title="New subfolder">
+              <FolderPlusIcon className="h-4 w-4" />
+            </button>
+            <button onClick={() => handleRename(folder)} className="text-gray-400 hover:text-gray-600" title="Rename">
+              <PencilIcon className="h-4 w-4" />
+            </button>
+            <button onClick={() => handleDelete(folder)} className="text-gray-400 hover:text-red-600" title="Delete">
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+        {!isCollapsed && children.length > 0 && (
+          <ul>{children.map(child => renderFolder(child, depth + 1))}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="card-body">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Folders</h3>
+          <button
+            onClick={() => handleCreate(null)}
+            disabled={!vaultKey}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            title="New folder"
+          >
+            <FolderPlusIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <ul className="space-y-0.5">
+          <li>
+            <div
+              onClick={() => onSelect(null)}
+              className={rowClass(selectedFolderId === null, 'all')}
+              {...dropProps('all', null)}
+            >
+              <Squares2X2Icon className="h-4 w-4 ml-5 mr-1.5" />
+              <span>All Items</span>
+            </div>
+          </li>
+          <li>
+            <div
+              onClick={() => onSelect('none')}
+              className={rowClass(selectedFolderId === 'none', 'none')}
+              {...dropProps('none', null)}
+            >
+              <InboxIcon className="h-4 w-4 ml-5 mr-1.5" />
+              <span>Unfiled</span>
+            </div>
+          </li>
+          {getChildren(null).map(folder => renderFolder(folder, 0))}
+        </ul>
+
+        {vaultKey && folders.length === 0 && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Drag items onto a folder to file them.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
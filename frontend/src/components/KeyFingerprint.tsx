@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react'
+import { getPublicKeyFingerprint } from '@/utils/vaultCrypto'
+
+interface KeyFingerprintProps {
+  publicKey: string
+  className?: string
+}
+
+/**
+ * A public key's fingerprint, computed in the browser so it can be compared out of band
+ */
+export const KeyFingerprint: React.FC<KeyFingerprintProps> = ({ publicKey, className = '' }) => {
+  const [fingerprint, setFingerprint] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    getPublicKeyFingerprint(publicKey)
+      .then((value) => !cancelled && setFingerprint(value))
+      .catch((error) => console.error('Failed to fingerprint public key:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [publicKey])
+
+  return (
+    <code className={`font-mono text-xs text-gray-600 dark:text-gray-400 break-words ${className}`}>
+      {fingerprint || '…'}
+    </code>
+  )
+}
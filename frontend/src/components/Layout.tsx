@@ -3,6 +3,8 @@ import { Link, useLocation } from 'react-router-dom'
 import { 
   HomeIcon, 
   LockClosedIcon, 
+  UserGroupIcon,
+  PaperAirplaneIcon,
   ShieldCheckIcon, 
   UserIcon,
   Bars3Icon,
@@ -19,6 +21,8 @@ interface LayoutProps {
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
   { name: 'Vault', href: '/vault', icon: LockClosedIcon },
+  { name: 'Organizations', href: '/organizations', icon: UserGroupIcon },
+  { name: 'Send', href: '/sends', icon: PaperAirplaneIcon },
   { name: 'Security', href: '/security', icon: ShieldCheckIcon },
   { name: 'Profile', href: '/profile', icon: UserIcon },
 ]
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { useSecurityStore } from '@/store/securityStore'
+import { GeneratedSecret, GeneratorSettings, GeneratorType, PassphraseOptions, PasswordOptions } from '@/types'
+import {
+  DEFAULT_GENERATOR_SETTINGS,
+  generate,
+  MAX_LENGTH,
+  MAX_SEPARATOR_LENGTH,
+  MAX_WORDS,
+  MIN_LENGTH,
+  MIN_WORDS,
+} from '@/utils/passwordGenerator'
+
+interface PasswordGeneratorModalProps {
+  onUse: (value: string) => void
+  onClose: () => void
+}
+
+const CLASS_OPTIONS: Array<{ name: 'lowercase' | 'uppercase' | 'numbers' | 'symbols'; min: keyof PasswordOptions; label: string }> = [
+  { name: 'lowercase', min: 'minLowercase', label: 'a-z' },
+  { name: 'uppercase', min: 'minUppercase', label: 'A-Z' },
+  { name: 'numbers', min: 'minNumbers', label: '0-9' },
+  { name: 'symbols', min: 'minSymbols', label: '!@#$' },
+]
+
+export const PasswordGeneratorModal: React.FC<PasswordGeneratorModalProps> = ({ onUse, onClose }) => {
+  const { generatorSettings, fetchGeneratorSettings, saveGeneratorSettings } = useSecurityStore()
+  const [settings, setSettings] = useState<GeneratorSettings>(generatorSettings || DEFAULT_GENERATOR_SETTINGS)
+  const [nonce, setNonce] = useState(0)
+
+  useEffect(() => {
+    if (!generatorSettings) {
+      fetchGeneratorSettings()
+    }
+  }, [generatorSettings, fetchGeneratorSettings])
+
+  // Pick up the saved settings once they arrive
+  useEffect(() => {
+    if (generatorSettings) {
+      setSettings(generatorSettings)
+    }
+  }, [generatorSettings])
+
+  const result = useMemo<GeneratedSecret | { error: string }>(() => {
+    try {
+      return generate(settings)
+    } catch (error: any) {
+      return { error: error.message }
+    }
+    // nonce only forces a fresh value
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings, nonce])
+
+  const setType = (type: GeneratorType) => setSettings({ ...settings, type })
+  const setPassword = (updates: Partial<PasswordOptions>) =>
+    setSettings({ ...settings, password: { ...settings.password, ...updates } })
+  const setPassphrase = (updates: Partial<PassphraseOptions>) =>
+    setSettings({ ...settings, passphrase: { ...settings.passphrase, ...updates } })
+
+  const handleUse = async () => {
+    if ('error' in result) {
+      return
+    }
+    onUse(result.value)
+    onClose()
+    try {
+      await saveGeneratorSettings(settings)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          Generate Password
+        </h3>
+
+        <div className="flex space-x-2 mb-4">
+          {(['password', 'passphrase'] as const).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setType(type)}
+              className={settings.type === type ? 'btn-primary' : 'btn-secondary'}
+            >
+              {type === 'password' ? 'Password' : 'Passphrase'}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-3 rounded-md bg-gray-50 dark:bg-gray-700">
+          {'error' in result ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{result.error}</p>
+          ) : (
+            <>
+              <p className="font-mono text-sm text-gray-900 dark:text-white break-all">{result.value}</p>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {result.entropyBits} bits of entropy
+              </p>
+            </>
+          )}
+        </div>
+
+        {settings.type === 'password' ? (
+          <div className="space-y-3 mt-4">
+            <div>
+              <label htmlFor="generatorLength" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Length: {settings.password.length}
+              </label>
+              <input
+                id="generatorLength"
+                type="range"
+                min={MIN_LENGTH}
+                max={MAX_LENGTH}
+                value={settings.password.length}
+                onChange={(e) => setPassword({ length: Number(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {CLASS_OPTIONS.map((option) => (
+                <div key={option.name} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.password[option.name]}
+                      onChange={(e) => setPassword({ [option.name]: e.target.checked })}
+                    />
+                    <span className="font-mono">{option.label}</span>
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_LENGTH}
+                    value={settings.password[option.min] as number}
+                    onChange={(e) => setPassword({ [option.min]: Number(e.target.value) })}
+                    disabled={!settings.password[option.name]}
+                    className="input w-16 py-1"
+                    title="Minimum count"
+                  />
+                </div>
+              ))}
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.password.excludeAmbiguous}
+                onChange={(e) => setPassword({ excludeAmbiguous: e.target.checked })}
+              />
+              <span>Avoid ambiguous characters (0 O o 1 I l |)</span>
+            </label>
+          </div>
+        ) : (
+          <div className="space-y-3 mt-4">
+            <div>
+              <label htmlFor="generatorWords" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Words: {settings.passphrase.words}
+              </label>
+              <input
+                id="generatorWords"
+                type="range"
+                min={MIN_WORDS}
+                max={MAX_WORDS}
+                value={settings.passphrase.words}
+                onChange={(e) => setPassphrase({ words: Number(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label htmlFor="generatorSeparator" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Separator
+              </label>
+              <input
+                id="generatorSeparator"
+                type="text"
+                maxLength={MAX_SEPARATOR_LENGTH}
+                value={settings.passphrase.separator}
+                onChange={(e) => setPassphrase({ separator: e.target.value })}
+                className="input mt-1 w-24"
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.passphrase.capitalize}
+                onChange={(e) => setPassphrase({ capitalize: e.target.checked })}
+              />
+              <span>Capitalize words</span>
+            </label>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button type="button" onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button type="button" onClick={() => setNonce(nonce + 1)} className="btn-secondary">
+            Regenerate
+          </button>
+          <button type="button" onClick={handleUse} className="btn-primary" disabled={'error' in result}>
+            Use
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import React from 'react'
+import { ArrowDownTrayIcon, PrinterIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+
+interface RecoveryCodesModalProps {
+  codes: string[]
+  onClose: () => void
+}
+
+const formatCodes = (codes: string[]) => [
+  'Aṣṭa Digbandhanam Vault - two-factor recovery codes',
+  `Generated ${new Date().toLocaleString()}`,
+  '',
+  'Each code can be used once in place of an authenticator code.',
+  '',
+  ...codes,
+].join('\n')
+
+export const RecoveryCodesModal: React.FC<RecoveryCodesModalProps> = ({ codes, onClose }) => {
+  const handleDownload = () => {
+    const blob = new Blob([formatCodes(codes)], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'astadigbandhanam-recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=600,height=600')
+    if (!printWindow) {
+      return
+    }
+
+    const pre = printWindow.document.createElement('pre')
+    pre.textContent = formatCodes(codes)
+    pre.style.fontFamily = 'monospace'
+    pre.style.fontSize = '14px'
+    printWindow.document.body.appendChild(pre)
+    printWindow.document.close()
+    printWindow.focus()
+    printWindow.print()
+    printWindow.close()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          Save your recovery codes
+        </h3>
+        <div className="space-y-4">
+          <div className="flex items-start space-x-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+            <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              These codes will not be shown again. Each one can be used once to sign in if you lose access to your authenticator app.
+            </p>
+          </div>
+          <ul className="grid grid-cols-2 gap-2 p-3 bg-gray-100 dark:bg-gray-700 rounded-lg font-mono text-sm text-gray-900 dark:text-white">
+            {codes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+          <div className="flex space-x-3">
+            <button onClick={handleDownload} className="btn-secondary flex-1 flex items-center justify-center">
+              <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+              Download
+            </button>
+            <button onClick={handlePrint} className="btn-secondary flex-1 flex items-center justify-center">
+              <PrinterIcon className="h-4 w-4 mr-2" />
+              Print
+            </button>
+          </div>
+        </div>
+        <div className="flex justify-end mt-6">
+          <button onClick={onClose} className="btn-primary">
+            I have saved these codes
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
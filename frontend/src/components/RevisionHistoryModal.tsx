@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react'
+import { ArrowUturnLeftIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
+import { useVaultStore } from '@/store/vaultStore'
+import { VaultItem, VaultItemData } from '@/types'
+import { diffItemData, getFieldLabel, SENSITIVE_FIELDS, FieldChange } from '@/utils/vaultDiff'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+
+interface RevisionHistoryModalProps {
+  item: VaultItem
+  onClose: () => void
+}
+
+interface Version {
+  // Revision number, or null for the item's current payload
+  revision: number | null
+  label: string
+  data?: VaultItemData
+}
+
+const CHANGE_STYLES: Record<FieldChange['kind'], string> = {
+  added: 'text-green-600 dark:text-green-400',
+  removed: 'text-red-600 dark:text-red-400',
+  changed: 'text-yellow-600 dark:text-yellow-400',
+}
+
+export const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ item, onClose }) => {
+  const { items, revisions, isLoadingRevisions, fetchRevisions, restoreRevision } = useVaultStore()
+  const [from, setFrom] = useState<number | null>(null)
+  const [to, setTo] = useState<number | null>(null)
+  const [showValues, setShowValues] = useState(false)
+
+  // The item is replaced in the store after a rollback
+  const current = items.find(candidate => candidate.id === item.id) || item
+
+  useEffect(() => {
+    fetchRevisions(item.id)
+  }, [item.id, fetchRevisions])
+
+  // Default to the latest change: the newest revision against the current payload
+  useEffect(() => {
+    setFrom(revisions[0]?.revision ?? null)
+    setTo(null)
+  }, [revisions])
+
+  const versions: Version[] = [
+    { revision: null, label: `Current (revision ${current.revision})`, data: current.decryptedData },
+    ...revisions.map((revision) => ({
+      revision: revision.revision,
+      label: `Revision ${revision.revision} · ${new Date(revision.createdAt).toLocaleString()}`
+        + (revision.restoredFrom !== null ? ` (restored from ${revision.restoredFrom})` : ''),
+      data: revision.decryptedData,
+    })),
+  ]
+
+  const findVersion = (revision: number | null) => versions.find(version => version.revision === revision)
+  const before = findVersion(from)?.data
+  const after = findVersion(to)?.data
+  const changes = before && after ? diffItemData(before, after) : []
+
+  const formatValue = (field: FieldChange['field'], value?: string) => {
+    if (value === undefined) {
+      return '—'
+    }
+    return SENSITIVE_FIELDS.includes(field) && !showValues ? '••••••••' : value
+  }
+
+  const handleRestore = async () => {
+    if (from === null || !confirm(`Restore revision ${from}? The current version will be kept in the history.`)) {
+      return
+    }
+    try {
+      await restoreRevision(item.id, from)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const renderSelect = (value: number | null, onChange: (revision: number | null) => void) => (
+    <select
+      value={value ?? 'current'}
+      onChange={(e) => onChange(e.target.value === 'current' ? null : Number(e.target.value))}
+      className="input"
+    >
+      {versions.map((version) => (
+        <option key={version.revision ?? 'current'} value={version.revision ?? 'current'}>
+          {version.label}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-2xl w-full mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          History of {current.decryptedData?.title || 'this item'}
+        </h3>
+
+        {isLoadingRevisions ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-gray-600 dark:text-gray-400 mb-6">
+            This item has not been changed since it was created.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+                {renderSelect(from, setFrom)}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+                {renderSelect(to, setTo)}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={() => setShowValues(!showValues)}
+                className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 flex items-center"
+              >
+                {showValues ? <EyeSlashIcon className="h-4 w-4 mr-1" /> : <EyeIcon className="h-4 w-4 mr-1" />}
+                {showValues ? 'Hide secrets' : 'Show secrets'}
+              </button>
+            </div>
+
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {before && after ? 'No differences between these versions.' : 'These versions could not be decrypted.'}
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2">Field</th>
+                    <th className="py-2">Before</th>
+                    <th className="py-2">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {changes.map((change) => (
+                    <tr key={change.field}>
+                      <td className={`py-2 font-medium ${CHANGE_STYLES[change.kind]}`}>
+                        {getFieldLabel(change.field)}
+                      </td>
+                      <td className="py-2 font-mono break-all text-gray-700 dark:text-gray-300">
+                        {formatValue(change.field, change.before)}
+                      </td>
+                      <td className="py-2 font-mono break-all text-gray-900 dark:text-white">
+                        {formatValue(change.field, change.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} className="btn-secondary">
+            Close
+          </button>
+          {from !== null && from < current.keyRotatedRevision && (
+            <p className="self-center text-sm text-gray-500 dark:text-gray-400">
+              Revisions from before a share was revoked cannot be restored
+            </p>
+          )}
+          {from !== null && from >= current.keyRotatedRevision && (
+            <button onClick={handleRestore} className="btn-primary" disabled={isLoadingRevisions}>
+              <ArrowUturnLeftIcon className="h-5 w-5 mr-2" />
+              Restore Revision {from}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react'
+import { useVaultStore } from '@/store/vaultStore'
+import { vaultService } from '@/services/vaultService'
+import { PublicKeyInfo, SharePermission, VaultItem } from '@/types'
+import { getPublicKeyFingerprint } from '@/utils/vaultCrypto'
+import { KeyFingerprint } from '@/components/KeyFingerprint'
+import toast from 'react-hot-toast'
+
+interface ShareItemModalProps {
+  item: VaultItem
+  onClose: () => void
+}
+
+export const ShareItemModal: React.FC<ShareItemModalProps> = ({ item, onClose }) => {
+  const { itemShares, fetchShares, shareItem, revokeShare } = useVaultStore()
+  const [email, setEmail] = useState('')
+  const [permission, setPermission] = useState<SharePermission>('read')
+  const [recipient, setRecipient] = useState<PublicKeyInfo | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchShares(item.id)
+  }, [item.id, fetchShares])
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setRecipient(null)
+
+    try {
+      const info = await vaultService.getPublicKey(email)
+      // A mismatch means the key was altered between the server and here
+      if (await getPublicKeyFingerprint(info.publicKey) !== info.fingerprint) {
+        throw new Error('The public key does not match its fingerprint')
+      }
+      setRecipient(info)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to look up public key'
+      toast.error(errorMessage)
+    }
+  }
+
+  const handleShare = async () => {
+    if (!recipient) {
+      return
+    }
+    setIsSaving(true)
+    try {
+      await shareItem(item.id, recipient, permission)
+      setRecipient(null)
+      setEmail('')
+    } catch {
+      // Error is already surfaced by the store
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (shareId: string, shareEmail: string) => {
+    if (!confirm(`Stop sharing this item with ${shareEmail}? It will be re-encrypted under a new key.`)) {
+      return
+    }
+    setIsSaving(true)
+    try {
+      await revokeShare(item.id, shareId)
+    } catch {
+      // Error is already surfaced by the store
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+          Share {item.decryptedData?.title || 'item'}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          The item's key is encrypted in your browser for the recipient's public key.
+        </p>
+
+        <form onSubmit={handleLookup} className="flex gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => {
+              setEmail(e.target.value)
+              setRecipient(null)
+            }}
+            className="input flex-1"
+            placeholder="Recipient's email"
+          />
+          <select
+            value={permission}
+            onChange={(e) => setPermission(e.target.value as SharePermission)}
+            className="input w-auto"
+          >
+            <option value="read">Can view</option>
+            <option value="edit">Can edit</option>
+          </select>
+          <button type="submit" className="btn-secondary" disabled={!email}>
+            Look Up
+          </button>
+        </form>
+
+        {recipient && (
+          <div className="mt-4 p-3 rounded-md bg-gray-50 dark:bg-gray-700">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Check this fingerprint with {recipient.email} before sharing:
+            </p>
+            <KeyFingerprint publicKey={recipient.publicKey} className="block mt-1 text-sm" />
+            <div className="flex justify-end mt-3">
+              <button onClick={handleShare} className="btn-primary" disabled={isSaving}>
+                Fingerprint Matches, Share
+              </button>
+            </div>
+          </div>
+        )}
+
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white mt-6 mb-2">
+          Shared With
+        </h4>
+        {itemShares.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Not shared with anyone yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-60 overflow-y-auto">
+            {itemShares.map((share) => (
+              <li key={share.id} className="flex items-center justify-between py-2">
+                <div className="text-sm">
+                  <span className="text-gray-900 dark:text-white">{share.email}</span>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {share.permission === 'edit' ? 'Can edit' : 'Can view'}
+                    {share.status === 'pending' && ' · Pending'}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleRevoke(share.id, share.email)}
+                  className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                  disabled={isSaving}
+                >
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button onClick={onClose} className="btn-secondary">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import React, { useState } from 'react'
+import { VaultItemData } from '@/types'
+import { TotpCode } from '@/components/TotpCode'
+import { PasswordGeneratorModal } from '@/components/PasswordGeneratorModal'
+import { isValidTotp, readTotpQrCode } from '@/utils/totp'
+import toast from 'react-hot-toast'
+
+interface SharedItemModalProps {
+  // The item being edited, or undefined to add a new login
+  item?: { decryptedData?: VaultItemData }
+  onSave: (data: VaultItemData) => Promise<void>
+  onClose: () => void
+}
+
+export const SharedItemModal: React.FC<SharedItemModalProps> = ({ item, onSave, onClose }) => {
+  const [data, setData] = useState<VaultItemData>(item?.decryptedData || {})
+  const [isSaving, setIsSaving] = useState(false)
+  const [showGenerator, setShowGenerator] = useState(false)
+
+  const fields: Array<{ name: keyof VaultItemData; label: string; type: string }> = [
+    { name: 'title', label: 'Name', type: 'text' },
+    { name: 'username', label: 'Username', type: 'text' },
+    { name: 'password', label: 'Password', type: 'password' },
+    { name: 'url', label: 'URL', type: 'url' },
+    { name: 'totp', label: 'Authenticator Key (TOTP)', type: 'text' },
+    { name: 'notes', label: 'Notes', type: 'text' },
+  ]
+
+  const handleQrImage = async (file: File | null) => {
+    if (!file) {
+      return
+    }
+    try {
+      setData({ ...data, totp: await readTotpQrCode(file) })
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to read QR code')
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (data.totp && !isValidTotp(data.totp)) {
+      toast.error('The authenticator key must be an otpauth:// URI or a base32 secret')
+      return
+    }
+    setIsSaving(true)
+    try {
+      await onSave(data)
+      onClose()
+    } catch {
+      // Error is already surfaced by the store
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+          {item ? 'Edit Shared Item' : 'Share a Login'}
+        </h3>
+
+        <div className="space-y-4">
+          {fields.map((field) => (
+            <div key={field.name}>
+              <label htmlFor={field.name} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {field.label}
+              </label>
+              <input
+                id={field.name}
+                type={field.type}
+                autoComplete="off"
+                value={data[field.name] || ''}
+                onChange={(e) => setData({ ...data, [field.name]: e.target.value })}
+                className="input mt-1"
+              />
+              {field.name === 'password' && (
+                <button
+                  type="button"
+                  onClick={() => setShowGenerator(true)}
+                  className="mt-1 text-xs text-primary-600 dark:text-primary-400"
+                >
+                  Generate
+                </button>
+              )}
+              {field.name === 'totp' && (
+                <div className="flex items-center justify-between mt-1">
+                  <label className="text-xs text-primary-600 dark:text-primary-400 cursor-pointer">
+                    Read from QR code image
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => handleQrImage(e.target.files?.[0] ?? null)}
+                    />
+                  </label>
+                  {data.totp && isValidTotp(data.totp) && <TotpCode value={data.totp} />}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button type="button" onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button type="submit" className="btn-primary" disabled={isSaving || !data.title}>
+            {item ? 'Save' : 'Share'}
+          </button>
+        </div>
+      </form>
+
+      {showGenerator && (
+        <PasswordGeneratorModal
+          onUse={(password) => setData({ ...data, password })}
+          onClose={() => setShowGenerator(false)}
+        />
+      )}
+    </div>
+  )
+}
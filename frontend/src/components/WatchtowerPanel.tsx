@@ -0,0 +1,199 @@
+import React, { useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  DevicePhoneMobileIcon,
+  DocumentDuplicateIcon,
+  ExclamationTriangleIcon,
+  ShieldExclamationIcon,
+} from '@heroicons/react/24/outline'
+import { useVaultStore } from '@/store/vaultStore'
+import { WatchtowerFinding, WatchtowerFindingType } from '@/types'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+
+const PASSWORD_AGE_OPTIONS = [90, 180, 365, 730]
+
+const FINDING_STYLES: Record<WatchtowerFindingType, {
+  label: string
+  icon: React.ComponentType<{ className?: string }>
+  color: string
+}> = {
+  breached: { label: 'Breached', icon: ShieldExclamationIcon, color: 'text-red-600 dark:text-red-400' },
+  reused: { label: 'Reused', icon: DocumentDuplicateIcon, color: 'text-orange-600 dark:text-orange-400' },
+  weak: { label: 'Weak', icon: ExclamationTriangleIcon, color: 'text-yellow-600 dark:text-yellow-400' },
+  old: { label: 'Old', icon: ClockIcon, color: 'text-blue-600 dark:text-blue-400' },
+  missingTotp: { label: 'No 2FA', icon: DevicePhoneMobileIcon, color: 'text-purple-600 dark:text-purple-400' },
+}
+
+/**
+ * Watchtower findings over the vault's logins, each linking to the affected item
+ */
+export const WatchtowerPanel: React.FC = () => {
+  const {
+    vaultKey,
+    watchtowerReport: report,
+    isScanningHealth,
+    fetchWatchtowerReport,
+    scanVaultHealth,
+    setWatchtowerPasswordAge,
+  } = useVaultStore()
+
+  // Refetched on unlock so the affected logins can be named
+  useEffect(() => {
+    fetchWatchtowerReport()
+  }, [vaultKey, fetchWatchtowerReport])
+
+  const handleScan = async () => {
+    try {
+      await scanVaultHealth()
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handlePasswordAge = async (days: number) => {
+    try {
+      await setWatchtowerPasswordAge(days)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const titles = new Map((report?.items || []).map(item => [item.id, item.decryptedData?.title || 'Login']))
+  const getTitle = (itemId: string) => (vaultKey ? titles.get(itemId) || 'Login' : 'Locked login')
+
+  const describe = (finding: WatchtowerFinding) => {
+    switch (finding.type) {
+      case 'breached':
+        return `Seen ${finding.breachCount!.toLocaleString()} times in data breaches`
+      case 'reused':
+        return `Same password as ${finding.reusedWith!.map(getTitle).join(', ')}`
+      case 'weak':
+        return `Easy to guess (strength ${finding.strength}/4)`
+      case 'old':
+        return `Not changed in ${finding.ageDays} days`
+      case 'missingTotp':
+        return 'The site offers authenticator codes, but none are set up'
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            Watchtower
+          </h3>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            Breached, reused, weak and old passwords across your logins
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          {report && (
+            <span className="text-2xl font-bold text-gray-900 dark:text-white" title="Watchtower score">
+              {report.score}%
+            </span>
+          )}
+          <button
+            onClick={handleScan}
+            disabled={!vaultKey || isScanningHealth}
+            className="btn-secondary"
+            title={vaultKey ? 'Recheck every login' : 'Unlock the vault to scan'}
+          >
+            <ArrowPathIcon className={`h-5 w-5 mr-2 ${isScanningHealth ? 'animate-spin' : ''}`} />
+            {isScanningHealth ? 'Scanning...' : 'Scan Vault'}
+          </button>
+        </div>
+      </div>
+      <div className="card-body space-y-4">
+        {!report ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {(Object.keys(FINDING_STYLES) as WatchtowerFindingType[]).map((type) => {
+                const style = FINDING_STYLES[type]
+                return (
+                  <div key={type} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700 text-center">
+                    <style.icon className={`mx-auto h-5 w-5 ${style.color}`} />
+                    <p className="mt-1 text-xl font-bold text-gray-900 dark:text-white">
+                      {report.summary[type]}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{style.label}</p>
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <span>
+                {report.summary.checked} of {report.summary.logins} logins checked
+                {report.summary.unchecked > 0 && (vaultKey
+                  ? ' · scan the vault to check the rest'
+                  : ' · unlock the vault to check the rest')}
+              </span>
+              <label className="flex items-center space-x-2">
+                <span>Flag passwords older than</span>
+                <select
+                  value={report.maxPasswordAgeDays}
+                  onChange={(e) => handlePasswordAge(Number(e.target.value))}
+                  className="input py-1 w-auto"
+                >
+                  {[...new Set([...PASSWORD_AGE_OPTIONS, report.maxPasswordAgeDays])].sort((a, b) => a - b).map((days) => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {report.findings.length === 0 ? (
+              <div className="text-center py-6">
+                <CheckCircleIcon className="mx-auto h-12 w-12 text-green-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
+                  No issues found
+                </h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {report.summary.checked > 0
+                    ? 'Every checked login has a strong, unique and unbreached password.'
+                    : 'Scan the vault to check your logins.'}
+                </p>
+              </div>
+            ) : (
+              <ul className="space-y-2 max-h-96 overflow-y-auto">
+                {report.findings.map((finding) => {
+                  const style = FINDING_STYLES[finding.type]
+                  return (
+                    <li
+                      key={`${finding.type}-${finding.itemId}`}
+                      className="flex items-center space-x-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700"
+                    >
+                      <style.icon className={`h-5 w-5 flex-shrink-0 ${style.color}`} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {getTitle(finding.itemId)}
+                        </p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {describe(finding)}
+                        </p>
+                      </div>
+                      <Link
+                        to={`/vault?item=${finding.itemId}`}
+                        className="text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+                      >
+                        View
+                      </Link>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { useSecurityStore } from '@/store/securityStore'
 import { useVaultStore } from '@/store/vaultStore'
 import { useAuthStore } from '@/store/authStore'
 import { SecurityMandala } from '@/components/SecurityMandala'
+import { WatchtowerPanel } from '@/components/WatchtowerPanel'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
 import { 
   ShieldCheckIcon, 
@@ -148,6 +149,9 @@ export const DashboardPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Watchtower */}
+      <WatchtowerPanel />
+
       {/* Recent Activity & Recommendations */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Recent Vault Items */}
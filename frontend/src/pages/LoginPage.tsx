@@ -3,23 +3,37 @@ import { Link, useNavigate } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser'
 import { useAuthStore } from '@/store/authStore'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
-import { LockClosedIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
+import { LockClosedIcon, EyeIcon, EyeSlashIcon, KeyIcon, FingerPrintIcon } from '@heroicons/react/24/outline'
 
 const loginSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
   password: z.string().min(1, 'Password is required'),
-  twoFactorToken: z.string().optional(),
+  twoFactorToken: z.string().max(16, 'Enter a 6-digit code or a recovery code').optional(),
+  masterPassword: z.string().optional(),
 })
 
 type LoginForm = z.infer<typeof loginSchema>
 
 export const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false)
-  const [showTwoFactor, setShowTwoFactor] = useState(false)
   const navigate = useNavigate()
-  const { login, isLoading, error } = useAuthStore()
+  const {
+    login,
+    verifyTwoFactorLogin,
+    verifyDeviceLogin,
+    loginWithWebAuthn,
+    cancelTwoFactorLogin,
+    twoFactorChallenge,
+    twoFactorMethods,
+    isLoading,
+  } = useAuthStore()
+  const showTwoFactor = twoFactorChallenge !== null
+  // Accounts without a second factor confirm unknown devices with the master password
+  const showDeviceVerification = showTwoFactor && twoFactorMethods.includes('master_password')
+  const webAuthnSupported = browserSupportsWebAuthn()
 
   const {
     register,
@@ -32,14 +46,37 @@ export const LoginPage: React.FC = () => {
 
   const onSubmit = async (data: LoginForm) => {
     try {
-      await login(data)
-      navigate('/dashboard')
-    } catch (error: any) {
-      if (error.response?.data?.code === 'TWO_FACTOR_REQUIRED') {
-        setShowTwoFactor(true)
+      if (showDeviceVerification) {
+        if (!data.masterPassword) {
+          setError('masterPassword', { message: 'Master password is required' })
+          return
+        }
+        await verifyDeviceLogin(data.masterPassword)
+      } else if (showTwoFactor) {
+        if (!data.twoFactorToken) {
+          setError('twoFactorToken', { message: 'Two-factor code is required' })
+          return
+        }
+        await verifyTwoFactorLogin(data.twoFactorToken)
       } else {
-        setError('root', { message: error.message })
+        await login({ email: data.email, password: data.password })
+      }
+
+      // A correct password alone leaves a pending challenge instead of a session
+      if (useAuthStore.getState().isAuthenticated) {
+        navigate('/dashboard')
       }
+    } catch (error: any) {
+      setError('root', { message: error.response?.data?.message || error.message })
+    }
+  }
+
+  const handleWebAuthnLogin = async () => {
+    try {
+      await loginWithWebAuthn()
+      navigate('/dashboard')
+    } catch (error: any) {
+      setError('root', { message: error.response?.data?.message || error.message })
     }
   }
 
@@ -67,6 +104,7 @@ export const LoginPage: React.FC = () => {
               <input
                 {...register('email')}
                 type="email"
+                readOnly={showTwoFactor}
                 autoComplete="email"
                 className={`input mt-1 ${errors.email ? 'input-error' : ''}`}
                 placeholder="Enter your email"
@@ -86,6 +124,7 @@ export const LoginPage: React.FC = () => {
                 <input
                   {...register('password')}
                   type={showPassword ? 'text' : 'password'}
+                  readOnly={showTwoFactor}
                   autoComplete="current-password"
                   className={`input pr-10 ${errors.password ? 'input-error' : ''}`}
                   placeholder="Enter your password"
@@ -109,23 +148,77 @@ export const LoginPage: React.FC = () => {
               )}
             </div>
 
-            {showTwoFactor && (
+            {showDeviceVerification && (
+              <div>
+                <label htmlFor="masterPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Master Password
+                </label>
+                <input
+                  {...register('masterPassword')}
+                  type="password"
+                  autoComplete="off"
+                  autoFocus
+                  className={`input mt-1 ${errors.masterPassword ? 'input-error' : ''}`}
+                  placeholder="Enter your master password"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  This device hasn't been used with your account before. Confirm it with your master password.
+                </p>
+                {errors.masterPassword && (
+                  <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                    {errors.masterPassword.message}
+                  </p>
+                )}
+                <button
+                  type="button"
+                  className="mt-2 text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                  onClick={cancelTwoFactorLogin}
+                >
+                  Use a different account
+                </button>
+              </div>
+            )}
+
+            {showTwoFactor && !showDeviceVerification && (
               <div>
+                {webAuthnSupported && twoFactorMethods.includes('webauthn') && (
+                  <button
+                    type="button"
+                    onClick={handleWebAuthnLogin}
+                    disabled={isLoading}
+                    className="btn-secondary w-full flex justify-center items-center py-2 px-4 mb-4"
+                  >
+                    <KeyIcon className="h-5 w-5 mr-2" />
+                    Use security key
+                  </button>
+                )}
                 <label htmlFor="twoFactorToken" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                   Two-Factor Authentication Code
                 </label>
                 <input
                   {...register('twoFactorToken')}
                   type="text"
-                  maxLength={6}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  maxLength={16}
                   className={`input mt-1 ${errors.twoFactorToken ? 'input-error' : ''}`}
-                  placeholder="Enter 6-digit code"
+                  placeholder="Enter 6-digit code or a recovery code"
                 />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Lost your authenticator? Use one of your saved recovery codes instead.
+                </p>
                 {errors.twoFactorToken && (
                   <p className="mt-1 text-sm text-red-600 dark:text-red-400">
                     {errors.twoFactorToken.message}
                   </p>
                 )}
+                <button
+                  type="button"
+                  className="mt-2 text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                  onClick={cancelTwoFactorLogin}
+                >
+                  Use a different account
+                </button>
               </div>
             )}
           </div>
@@ -146,12 +239,30 @@ export const LoginPage: React.FC = () => {
             >
               {isLoading ? (
                 <LoadingSpinner size="sm" />
+              ) : showDeviceVerification ? (
+                'Verify device'
+              ) : showTwoFactor ? (
+                'Verify code'
               ) : (
                 'Sign in'
               )}
             </button>
           </div>
 
+          {!showTwoFactor && webAuthnSupported && (
+            <div>
+              <button
+                type="button"
+                onClick={handleWebAuthnLogin}
+                disabled={isLoading}
+                className="btn-secondary w-full flex justify-center items-center py-2 px-4"
+              >
+                <FingerPrintIcon className="h-5 w-5 mr-2" />
+                Sign in with a passkey
+              </button>
+            </div>
+          )}
+
           <div className="text-center">
             <p className="text-sm text-gray-600 dark:text-gray-400">
               Don't have an account?{' '}
@@ -0,0 +1,515 @@
+import React, { useEffect, useState } from 'react'
+import { useOrganizationStore } from '@/store/organizationStore'
+import { useVaultStore } from '@/store/vaultStore'
+import { useAuthStore } from '@/store/authStore'
+import { OrganizationCollection, OrganizationItem, OrganizationRole, VaultItemType } from '@/types'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { CollectionAccessModal } from '@/components/CollectionAccessModal'
+import { SharedItemModal } from '@/components/SharedItemModal'
+import { TotpCode } from '@/components/TotpCode'
+import { KeyFingerprint } from '@/components/KeyFingerprint'
+import {
+  PlusIcon,
+  UserGroupIcon,
+  RectangleStackIcon,
+  UsersIcon,
+  PencilIcon,
+  TrashIcon,
+  KeyIcon,
+  LockClosedIcon,
+  ArrowRightOnRectangleIcon
+} from '@heroicons/react/24/outline'
+
+// Mirrors the role order on the server
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  owner: 3,
+  admin: 2,
+  manager: 1,
+  member: 0,
+}
+
+const ROLES: OrganizationRole[] = ['owner', 'admin', 'manager', 'member']
+
+export const OrganizationsPage: React.FC = () => {
+  const {
+    organizations,
+    currentOrganizationId,
+    members,
+    collections,
+    items,
+    isLoading,
+    fetchOrganizations,
+    selectOrganization,
+    createOrganization,
+    deleteOrganization,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    createCollection,
+    deleteCollection,
+    createItem,
+    updateItem,
+    deleteItem
+  } = useOrganizationStore()
+  const { privateKey } = useVaultStore()
+  const { user } = useAuthStore()
+
+  const [activeTab, setActiveTab] = useState<'collections' | 'members'>('collections')
+  const [memberEmail, setMemberEmail] = useState('')
+  const [memberRole, setMemberRole] = useState<OrganizationRole>('member')
+  const [accessCollection, setAccessCollection] = useState<OrganizationCollection | null>(null)
+  const [itemModal, setItemModal] = useState<{ collectionId: string; item?: OrganizationItem } | null>(null)
+
+  const organization = organizations.find(candidate => candidate.id === currentOrganizationId)
+  const atLeast = (role: OrganizationRole) => !!organization && ROLE_RANK[organization.role] >= ROLE_RANK[role]
+
+  useEffect(() => {
+    fetchOrganizations()
+  }, [fetchOrganizations])
+
+  const handleCreateOrganization = async () => {
+    const name = prompt('Organization name')?.trim()
+    if (!name) {
+      return
+    }
+    try {
+      await createOrganization(name)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleDeleteOrganization = async () => {
+    if (!organization || !confirm(`Delete ${organization.name} with all of its collections and items? This cannot be undone.`)) {
+      return
+    }
+    try {
+      await deleteOrganization(organization.id)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleLeave = async () => {
+    if (!organization || !user || !confirm(`Leave ${organization.name}? You will lose access to its items.`)) {
+      return
+    }
+    try {
+      await removeMember(user.id)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await addMember(memberEmail, memberRole)
+      setMemberEmail('')
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleRoleChange = async (userId: string, role: OrganizationRole) => {
+    try {
+      await updateMemberRole(userId, role)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleRemoveMember = async (userId: string, email: string) => {
+    if (!confirm(`Remove ${email}? Their copies of item keys are deleted, but anything they already saw cannot be taken back.`)) {
+      return
+    }
+    try {
+      await removeMember(userId)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleCreateCollection = async () => {
+    const name = prompt('Collection name')?.trim()
+    if (!name) {
+      return
+    }
+    try {
+      await createCollection(name)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleDeleteCollection = async (collection: OrganizationCollection) => {
+    if (!confirm(`Delete ${collection.name} and every item in it? This cannot be undone.`)) {
+      return
+    }
+    try {
+      await deleteCollection(collection.id)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleDeleteItem = async (item: OrganizationItem) => {
+    if (!confirm(`Delete ${item.decryptedData?.title || 'this item'} for everyone in the collection?`)) {
+      return
+    }
+    try {
+      await deleteItem(item.id)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const canManageCollection = (collection: OrganizationCollection) =>
+    atLeast('admin') || (organization?.role === 'manager' && collection.access.some(entry => entry.userId === user?.id))
+
+  const getOwnAccess = (collection: OrganizationCollection) =>
+    collection.access.find(entry => entry.userId === user?.id)
+
+  const tabs = [
+    { id: 'collections' as const, name: 'Collections', icon: RectangleStackIcon },
+    { id: 'members' as const, name: 'Members', icon: UsersIcon },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Organizations
+          </h1>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            Share credentials with your team, encrypted for each member
+          </p>
+        </div>
+        <button onClick={handleCreateOrganization} className="btn-primary">
+          <PlusIcon className="h-5 w-5 mr-2" />
+          New Organization
+        </button>
+      </div>
+
+      {!privateKey && (
+        <div className="card">
+          <div className="card-body flex items-center space-x-3 text-sm text-gray-600 dark:text-gray-400">
+            <LockClosedIcon className="h-5 w-5 flex-shrink-0" />
+            <span>Unlock your vault to read and share items. Members need to have unlocked theirs once before they can be added.</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Organization List */}
+        <aside className="lg:w-64 flex-shrink-0">
+          <div className="card">
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {organizations.length === 0 && (
+                <li className="p-4 text-sm text-gray-500 dark:text-gray-400">
+                  You are not in any organization yet.
+                </li>
+              )}
+              {organizations.map((candidate) => (
+                <li key={candidate.id}>
+                  <button
+                    onClick={() => selectOrganization(candidate.id)}
+                    className={`w-full text-left p-4 ${
+                      candidate.id === currentOrganizationId
+                        ? 'bg-gray-100 dark:bg-gray-700'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{candidate.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      <span className="capitalize">{candidate.role}</span> · {candidate.memberCount} members
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-6">
+          {!organization ? (
+            <div className="card">
+              <div className="card-body text-center py-12">
+                <UserGroupIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                  Select an organization
+                </h3>
+              </div>
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{organization.name}</h2>
+                <div className="flex space-x-3">
+                  <button onClick={handleLeave} className="btn-secondary">
+                    <ArrowRightOnRectangleIcon className="h-5 w-5 mr-2" />
+                    Leave
+                  </button>
+                  {organization.role === 'owner' && (
+                    <button onClick={handleDeleteOrganization} className="btn-secondary">
+                      <TrashIcon className="h-5 w-5 mr-2" />
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Tabs */}
+              <div className="border-b border-gray-200 dark:border-gray-700">
+                <nav className="-mb-px flex space-x-8">
+                  {tabs.map((tab) => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setActiveTab(tab.id)}
+                      className={`flex items-center space-x-2 py-2 px-1 border-b-2 font-medium text-sm ${
+                        activeTab === tab.id
+                          ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                      }`}
+                    >
+                      <tab.icon className="h-5 w-5" />
+                      <span>{tab.name}</span>
+                    </button>
+                  ))}
+                </nav>
+              </div>
+
+              {/* Collections Tab */}
+              {activeTab === 'collections' && (
+                <div className="space-y-6">
+                  {atLeast('manager') && (
+                    <div className="flex justify-end">
+                      <button onClick={handleCreateCollection} className="btn-secondary">
+                        <PlusIcon className="h-5 w-5 mr-2" />
+                        New Collection
+                      </button>
+                    </div>
+                  )}
+
+                  {collections.length === 0 && (
+                    <div className="card">
+                      <div className="card-body text-center py-12 text-gray-600 dark:text-gray-400">
+                        No collections shared with you yet.
+                      </div>
+                    </div>
+                  )}
+
+                  {collections.map((collection) => {
+                    const ownAccess = getOwnAccess(collection)
+                    const collectionItems = items.filter(item => item.collectionId === collection.id)
+
+                    return (
+                      <div key={collection.id} className="card">
+                        <div className="card-body">
+                          <div className="flex items-center justify-between mb-4">
+                            <div>
+                              <h3 className="text-lg font-medium text-gray-900 dark:text-white">{collection.name}</h3>
+                              <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {collection.access.length} members
+                                {ownAccess?.readOnly && ' · read-only for you'}
+                                {!ownAccess && ' · you are not a member'}
+                              </p>
+                            </div>
+                            <div className="flex space-x-2">
+                              {ownAccess && !ownAccess.readOnly && (
+                                <button
+                                  onClick={() => setItemModal({ collectionId: collection.id })}
+                                  disabled={!privateKey}
+                                  className="btn-secondary"
+                                >
+                                  <PlusIcon className="h-4 w-4 mr-2" />
+                                  Add Item
+                                </button>
+                              )}
+                              {canManageCollection(collection) && (
+                                <>
+                                  <button
+                                    onClick={() => setAccessCollection(collection)}
+                                    disabled={!privateKey}
+                                    className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                                    title="Manage access"
+                                  >
+                                    <KeyIcon className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteCollection(collection)}
+                                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                    title="Delete collection"
+                                  >
+                                    <TrashIcon className="h-4 w-4" />
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+
+                          {collectionItems.length > 0 && (
+                            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                              {collectionItems.map((item) => (
+                                <li key={item.id} className="flex items-center justify-between py-3">
+                                  <div>
+                                    <p className="vault-item-title">
+                                      {item.decryptedData?.title || (privateKey ? 'Unreadable item' : 'Locked')}
+                                    </p>
+                                    <p className="vault-item-subtitle">
+                                      {item.decryptedData?.username || item.decryptedData?.url
+                                        || `Updated ${new Date(item.updatedAt).toLocaleDateString()}`}
+                                    </p>
+                                    {item.decryptedData?.totp && (
+                                      <TotpCode value={item.decryptedData.totp} className="mt-1" />
+                                    )}
+                                  </div>
+                                  {!item.readOnly && (
+                                    <div className="flex space-x-1">
+                                      <button
+                                        onClick={() => setItemModal({ collectionId: collection.id, item })}
+                                        disabled={!item.decryptedData}
+                                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                                        title="Edit"
+                                      >
+                                        <PencilIcon className="h-4 w-4" />
+                                      </button>
+                                      <button
+                                        onClick={() => handleDeleteItem(item)}
+                                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                        title="Delete"
+                                      >
+                                        <TrashIcon className="h-4 w-4" />
+                                      </button>
+                                    </div>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              {/* Members Tab */}
+              {activeTab === 'members' && (
+                <div className="space-y-6">
+                  {atLeast('admin') && (
+                    <div className="card">
+                      <div className="card-body">
+                        <form onSubmit={handleAddMember} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+                          <div className="flex-1">
+                            <label htmlFor="memberEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                              Email
+                            </label>
+                            <input
+                              id="memberEmail"
+                              type="email"
+                              value={memberEmail}
+                              onChange={(e) => setMemberEmail(e.target.value)}
+                              className="input mt-1"
+                              placeholder="teammate@example.com"
+                            />
+                          </div>
+                          <div className="sm:w-40">
+                            <select
+                              value={memberRole}
+                              onChange={(e) => setMemberRole(e.target.value as OrganizationRole)}
+                              className="input"
+                            >
+                              {ROLES.filter(role => role !== 'owner' || organization.role === 'owner').map((role) => (
+                                <option key={role} value={role} className="capitalize">{role}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <button type="submit" className="btn-primary" disabled={!memberEmail}>
+                            <PlusIcon className="h-5 w-5 mr-2" />
+                            Add Member
+                          </button>
+                        </form>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="card">
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {members.map((member) => {
+                        const canManage = atLeast('admin') && member.userId !== user?.id
+                          && (member.role !== 'owner' || organization.role === 'owner')
+
+                        return (
+                          <li key={member.userId} className="flex items-center justify-between p-4">
+                            <div>
+                              <p className="text-sm font-medium text-gray-900 dark:text-white">{member.email}</p>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Joined {new Date(member.joinedAt).toLocaleDateString()}
+                              </p>
+                              {member.publicKey ? (
+                                <KeyFingerprint publicKey={member.publicKey} className="block mt-1" />
+                              ) : (
+                                <p className="mt-1 text-xs text-yellow-600 dark:text-yellow-400">
+                                  No sharing key yet; they need to unlock their vault once
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              {canManage ? (
+                                <>
+                                  <select
+                                    value={member.role}
+                                    onChange={(e) => handleRoleChange(member.userId, e.target.value as OrganizationRole)}
+                                    className="input w-auto"
+                                  >
+                                    {ROLES.filter(role => role !== 'owner' || organization.role === 'owner').map((role) => (
+                                      <option key={role} value={role}>{role}</option>
+                                    ))}
+                                  </select>
+                                  <button
+                                    onClick={() => handleRemoveMember(member.userId, member.email)}
+                                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                    title="Remove member"
+                                  >
+                                    <TrashIcon className="h-4 w-4" />
+                                  </button>
+                                </>
+                              ) : (
+                                <span className="text-sm text-gray-600 dark:text-gray-400 capitalize">{member.role}</span>
+                              )}
+                            </div>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {accessCollection && (
+        <CollectionAccessModal collection={accessCollection} onClose={() => setAccessCollection(null)} />
+      )}
+
+      {itemModal && (
+        <SharedItemModal
+          item={itemModal.item}
+          onSave={(data) => itemModal.item
+            ? updateItem(itemModal.item.id, data)
+            : createItem(itemModal.collectionId, VaultItemType.LOGIN, data)}
+          onClose={() => setItemModal(null)}
+        />
+      )}
+    </div>
+  )
+}
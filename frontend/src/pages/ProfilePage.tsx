@@ -1,25 +1,41 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
+import toast from 'react-hot-toast'
 import { useAuthStore } from '@/store/authStore'
+import { useVaultStore } from '@/store/vaultStore'
+import { authService } from '@/services/authService'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { KeyFingerprint } from '@/components/KeyFingerprint'
+import { vaultService } from '@/services/vaultService'
+import { getPublicKeyFingerprint } from '@/utils/vaultCrypto'
+import { getPasswordStrengthIssue } from '@/utils/passwordStrength'
+import { KeyRotation, Device, Session, PublicKeyInfo } from '@/types'
 import { 
   UserIcon, 
   EnvelopeIcon, 
   ShieldCheckIcon,
+  LockClosedIcon,
   EyeIcon,
   EyeSlashIcon,
   CheckCircleIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ComputerDesktopIcon,
+  TrashIcon,
+  KeyIcon
 } from '@heroicons/react/24/outline'
 
 const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
   newPassword: z.string()
     .min(8, 'Password must be at least 8 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/, 
-      'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    .superRefine((value, ctx) => {
+      const issue = getPasswordStrengthIssue(value, 'account')
+      if (issue) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue })
+      }
+    }),
   confirmPassword: z.string(),
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
@@ -30,8 +46,12 @@ const changeMasterPasswordSchema = z.object({
   currentMasterPassword: z.string().min(1, 'Current master password is required'),
   newMasterPassword: z.string()
     .min(8, 'Master password must be at least 8 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/, 
-      'Master password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    .superRefine((value, ctx) => {
+      const issue = getPasswordStrengthIssue(value, 'master')
+      if (issue) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue })
+      }
+    }),
   confirmMasterPassword: z.string(),
 }).refine((data) => data.newMasterPassword === data.confirmMasterPassword, {
   message: "Master passwords don't match",
@@ -42,8 +62,9 @@ type ChangePasswordForm = z.infer<typeof changePasswordSchema>
 type ChangeMasterPasswordForm = z.infer<typeof changeMasterPasswordSchema>
 
 export const ProfilePage: React.FC = () => {
-  const { user } = useAuthStore()
-  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'master-password'>('profile')
+  const { user, logout } = useAuthStore()
+  const { changeMasterPassword, publicKey } = useVaultStore()
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'master-password' | 'devices'>('profile')
   const [showCurrentPassword, setShowCurrentPassword] = useState(false)
   const [showNewPassword, setShowNewPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
@@ -51,6 +72,11 @@ export const ProfilePage: React.FC = () => {
   const [showNewMasterPassword, setShowNewMasterPassword] = useState(false)
   const [showConfirmMasterPassword, setShowConfirmMasterPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [rotation, setRotation] = useState<KeyRotation | null>(null)
+  const [devices, setDevices] = useState<Device[]>([])
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [contactEmail, setContactEmail] = useState('')
+  const [contactKey, setContactKey] = useState<PublicKeyInfo | null>(null)
 
   const passwordForm = useForm<ChangePasswordForm>({
     resolver: zodResolver(changePasswordSchema),
@@ -73,14 +99,110 @@ export const ProfilePage: React.FC = () => {
     }
   }
 
+  useEffect(() => {
+    authService.getMasterPasswordRotation()
+      .then(setRotation)
+      .catch((error) => console.error('Failed to load master password rotation:', error))
+  }, [])
+
+  useEffect(() => {
+    if (activeTab === 'devices') {
+      authService.getDevices()
+        .then(setDevices)
+        .catch((error) => console.error('Failed to load devices:', error))
+      authService.getSessions()
+        .then(setSessions)
+        .catch((error) => console.error('Failed to load sessions:', error))
+    }
+  }, [activeTab])
+
+  const handleRevokeDevice = async (device: Device) => {
+    const message = device.current
+      ? 'Revoke this device? You will need to verify it again the next time you sign in.'
+      : `Revoke "${device.name}"? It will be signed out and must be verified again.`
+    if (!confirm(message)) {
+      return
+    }
+
+    try {
+      await authService.revokeDevice(device.id)
+      setDevices(await authService.getDevices())
+      toast.success('Device revoked')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to revoke device'
+      toast.error(errorMessage)
+    }
+  }
+
+  const handleRevokeSession = async (session: Session) => {
+    if (session.current) {
+      await logout()
+      return
+    }
+
+    try {
+      await authService.revokeSession(session.id)
+      setSessions(await authService.getSessions())
+      toast.success('Session revoked')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to revoke session'
+      toast.error(errorMessage)
+    }
+  }
+
+  const handleRevokeAllSessions = async () => {
+    if (!confirm('Sign out of every session, including this one?')) {
+      return
+    }
+
+    try {
+      await authService.revokeAllSessions()
+      await logout()
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to revoke sessions'
+      toast.error(errorMessage)
+    }
+  }
+
+  const handleLookupPublicKey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setContactKey(null)
+
+    try {
+      const info = await vaultService.getPublicKey(contactEmail)
+      // A mismatch means the key was altered between the server and here
+      if (await getPublicKeyFingerprint(info.publicKey) !== info.fingerprint) {
+        throw new Error('The public key does not match its fingerprint')
+      }
+      setContactKey(info)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to look up public key'
+      toast.error(errorMessage)
+    }
+  }
+
+  const isRotationPending = rotation?.status === 'staging' || rotation?.status === 'committed'
+
   const onMasterPasswordSubmit = async (data: ChangeMasterPasswordForm) => {
     setIsLoading(true)
     try {
-      // Implement master password change
-      console.log('Changing master password:', data)
-      // await authService.changeMasterPassword(data.currentMasterPassword, data.newMasterPassword)
-    } catch (error) {
-      console.error('Failed to change master password:', error)
+      // Resume an interrupted server-side change with the same passwords instead of starting over
+      if (isRotationPending) {
+        const result = await authService.resumeMasterPasswordRotation(data.currentMasterPassword, data.newMasterPassword)
+        setRotation(result)
+        masterPasswordForm.reset()
+        toast.success(`Master password changed. ${result.totalItems} vault items re-encrypted.`)
+        return
+      }
+
+      // Re-wrapped in the browser, so neither password is sent to the server
+      await changeMasterPassword(data.currentMasterPassword, data.newMasterPassword)
+      masterPasswordForm.reset()
+      toast.success('Master password changed.')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to change master password'
+      toast.error(errorMessage)
+      setRotation(await authService.getMasterPasswordRotation().catch(() => rotation))
     } finally {
       setIsLoading(false)
     }
@@ -90,6 +212,7 @@ export const ProfilePage: React.FC = () => {
     { id: 'profile', name: 'Profile', icon: UserIcon },
     { id: 'password', name: 'Password', icon: ShieldCheckIcon },
     { id: 'master-password', name: 'Master Password', icon: LockClosedIcon },
+    { id: 'devices', name: 'Devices', icon: ComputerDesktopIcon },
   ]
 
   return (
@@ -236,6 +359,59 @@ export const ProfilePage: React.FC = () => {
               </div>
             </div>
           </div>
+
+          {/* Sharing Key */}
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                Sharing Key
+              </h3>
+            </div>
+            <div className="card-body space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Your Fingerprint
+                </label>
+                <div className="mt-1 flex items-center space-x-3">
+                  <KeyIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  {publicKey ? (
+                    <KeyFingerprint publicKey={publicKey} className="text-sm" />
+                  ) : (
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      Unlock your vault to see your fingerprint
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <form onSubmit={handleLookupPublicKey}>
+                <label htmlFor="contactEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Verify a Contact
+                </label>
+                <div className="mt-1 flex space-x-3">
+                  <input
+                    id="contactEmail"
+                    type="email"
+                    value={contactEmail}
+                    onChange={(e) => setContactEmail(e.target.value)}
+                    className="input"
+                    placeholder="contact@example.com"
+                  />
+                  <button type="submit" className="btn-secondary" disabled={!contactEmail}>
+                    Look Up
+                  </button>
+                </div>
+                {contactKey && (
+                  <div className="mt-3">
+                    <KeyFingerprint publicKey={contactKey.publicKey} className="text-sm" />
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                      Compare this with the fingerprint on {contactKey.email}'s profile over a channel you trust, such as a call, before sharing with them.
+                    </p>
+                  </div>
+                )}
+              </form>
+            </div>
+          </div>
         </div>
       )}
 
@@ -374,7 +550,7 @@ export const ProfilePage: React.FC = () => {
                   </h3>
                   <div className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
                     <p>
-                      Changing your master password will re-encrypt all vault items. 
+                      Changing your master password re-encrypts your vault key in this browser.
                       Make sure you remember your new master password, as losing it will 
                       result in permanent data loss.
                     </p>
@@ -383,6 +559,32 @@ export const ProfilePage: React.FC = () => {
               </div>
             </div>
 
+            {rotation && rotation.status !== 'completed' && (
+              <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                <h3 className="text-sm font-medium text-red-800 dark:text-red-200">
+                  {isRotationPending
+                    ? 'Master password change was interrupted'
+                    : 'Last master password change failed'}
+                </h3>
+                <div className="mt-2 flex items-center space-x-3">
+                  <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-red-500 h-2 rounded-full"
+                      style={{ width: `${rotation.totalItems ? (rotation.processedItems / rotation.totalItems) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="text-xs text-red-700 dark:text-red-300">
+                    {rotation.processedItems}/{rotation.totalItems} items
+                  </span>
+                </div>
+                <p className="mt-2 text-sm text-red-700 dark:text-red-300">
+                  {isRotationPending
+                    ? 'Enter the same current and new master passwords to finish re-encrypting your vault.'
+                    : `Your vault is still protected by your current master password. ${rotation.error || ''}`}
+                </p>
+              </div>
+            )}
+
             <form onSubmit={masterPasswordForm.handleSubmit(onMasterPasswordSubmit)} className="space-y-6">
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -477,13 +679,129 @@ export const ProfilePage: React.FC = () => {
                   disabled={isLoading}
                   className="btn-danger"
                 >
-                  {isLoading ? <LoadingSpinner size="sm" /> : 'Change Master Password'}
+                  {isLoading ? <LoadingSpinner size="sm" /> : isRotationPending ? 'Resume Master Password Change' : 'Change Master Password'}
                 </button>
               </div>
             </form>
           </div>
         </div>
       )}
+
+      {/* Devices Tab */}
+      {activeTab === 'devices' && (
+        <div className="space-y-6">
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                Devices
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Devices that have signed in to your account. Unknown devices must be verified before they get access.
+              </p>
+            </div>
+            <div className="card-body">
+              {devices.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  No devices found
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {devices.map((device) => (
+                    <li key={device.id} className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <ComputerDesktopIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">
+                            {device.name}
+                            {device.current && (
+                              <span className="ml-2 text-xs text-primary-600 dark:text-primary-400">This device</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            First seen {new Date(device.firstSeenAt).toLocaleDateString()}
+                            {` · Last seen ${new Date(device.lastSeenAt).toLocaleString()}`}
+                            {device.ipAddress && ` · ${device.ipAddress}`}
+                          </p>
+                          <p className={`text-xs ${
+                            device.revokedAt
+                              ? 'text-red-600 dark:text-red-400'
+                              : device.verifiedAt
+                                ? 'text-green-600 dark:text-green-400'
+                                : 'text-yellow-600 dark:text-yellow-400'
+                          }`}>
+                            {device.revokedAt ? 'Revoked' : device.verifiedAt ? 'Verified' : 'Not verified'}
+                          </p>
+                        </div>
+                      </div>
+                      {!device.revokedAt && (
+                        <button
+                          onClick={() => handleRevokeDevice(device)}
+                          className="btn-secondary"
+                          title="Revoke"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="card-header flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                  Active Sessions
+                </h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Each browser you are signed in to. Revoking a session signs it out.
+                </p>
+              </div>
+              {sessions.length > 0 && (
+                <button onClick={handleRevokeAllSessions} className="btn-danger">
+                  Sign out everywhere
+                </button>
+              )}
+            </div>
+            <div className="card-body">
+              {sessions.length === 0 ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  No active sessions
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {sessions.map((session) => (
+                    <li key={session.id} className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">
+                          {devices.find((device) => device.id === session.deviceId)?.name || 'Unknown device'}
+                          {session.current && (
+                            <span className="ml-2 text-xs text-primary-600 dark:text-primary-400">This session</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Signed in {new Date(session.createdAt).toLocaleString()}
+                          {` · Last active ${new Date(session.lastUsedAt).toLocaleString()}`}
+                          {session.ipAddress && ` · ${session.ipAddress}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleRevokeSession(session)}
+                        className="btn-secondary"
+                        title={session.current ? 'Sign out' : 'Revoke'}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -5,19 +5,16 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { useAuthStore } from '@/store/authStore'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { getPasswordStrengthIssue } from '@/utils/passwordStrength'
 import { LockClosedIcon, EyeIcon, EyeSlashIcon, ShieldCheckIcon } from '@heroicons/react/24/outline'
 
 const registerSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
   password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/, 
-      'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    .min(8, 'Password must be at least 8 characters'),
   confirmPassword: z.string(),
   masterPassword: z.string()
-    .min(8, 'Master password must be at least 8 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?])/, 
-      'Master password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    .min(8, 'Master password must be at least 8 characters'),
   confirmMasterPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -25,6 +22,16 @@ const registerSchema = z.object({
 }).refine((data) => data.masterPassword === data.confirmMasterPassword, {
   message: "Master passwords don't match",
   path: ["confirmMasterPassword"],
+}).superRefine((data, ctx) => {
+  // The server runs the same estimate on the password; the master password is only ever checked here
+  const passwordIssue = getPasswordStrengthIssue(data.password, 'account', [data.email])
+  if (passwordIssue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: passwordIssue, path: ['password'] })
+  }
+  const masterPasswordIssue = getPasswordStrengthIssue(data.masterPassword, 'master', [data.email])
+  if (masterPasswordIssue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: masterPasswordIssue, path: ['masterPassword'] })
+  }
 })
 
 type RegisterForm = z.infer<typeof registerSchema>
@@ -1,13 +1,18 @@
 import React, { useEffect, useState } from 'react'
+import { platformAuthenticatorIsAvailable } from '@simplewebauthn/browser'
 import { useSecurityStore } from '@/store/securityStore'
 import { SecurityMandala } from '@/components/SecurityMandala'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { RecoveryCodesModal } from '@/components/RecoveryCodesModal'
 import { 
   ShieldCheckIcon, 
   ExclamationTriangleIcon,
   CheckCircleIcon,
   CogIcon,
-  QrCodeIcon
+  QrCodeIcon,
+  KeyIcon,
+  FingerPrintIcon,
+  TrashIcon
 } from '@heroicons/react/24/outline'
 
 export const SecurityPage: React.FC = () => {
@@ -16,16 +21,42 @@ export const SecurityPage: React.FC = () => {
     isLoading,
     fetchDashboard,
     enableTwoFactor,
+    verifyTwoFactor,
     disableTwoFactor,
-    updateFeature
+    updateFeature,
+    recoveryCodesRemaining,
+    fetchRecoveryCodeCount,
+    regenerateRecoveryCodes,
+    webAuthnCredentials,
+    fetchWebAuthnCredentials,
+    registerWebAuthnCredential,
+    removeWebAuthnCredential
   } = useSecurityStore()
 
   const [showTwoFactorSetup, setShowTwoFactorSetup] = useState(false)
   const [twoFactorData, setTwoFactorData] = useState<{ secret: string; qrCodeUrl: string } | null>(null)
+  const [verificationCode, setVerificationCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [showRegenerate, setShowRegenerate] = useState(false)
+  const [regenerateCode, setRegenerateCode] = useState('')
+  const [securityKeyName, setSecurityKeyName] = useState('')
+  const [platformAuthenticatorAvailable, setPlatformAuthenticatorAvailable] = useState(false)
+
+  const multiFactorFeature = dashboard?.features.find(f => f.direction === 'southeast')
+  const twoFactorEnabled = !!multiFactorFeature?.enabled
+  const totpEnabled = !!multiFactorFeature?.configuration?.totpEnabled
 
   useEffect(() => {
     fetchDashboard()
-  }, [fetchDashboard])
+    fetchWebAuthnCredentials()
+    platformAuthenticatorIsAvailable().then(setPlatformAuthenticatorAvailable)
+  }, [fetchDashboard, fetchWebAuthnCredentials])
+
+  useEffect(() => {
+    if (twoFactorEnabled) {
+      fetchRecoveryCodeCount()
+    }
+  }, [twoFactorEnabled, fetchRecoveryCodeCount])
 
   const handleEnableTwoFactor = async () => {
     try {
@@ -37,6 +68,50 @@ export const SecurityPage: React.FC = () => {
     }
   }
 
+  const handleVerifyTwoFactor = async () => {
+    try {
+      const codes = await verifyTwoFactor(verificationCode)
+      setShowTwoFactorSetup(false)
+      setTwoFactorData(null)
+      setVerificationCode('')
+      setRecoveryCodes(codes)
+      await fetchDashboard()
+    } catch (error) {
+      console.error('Failed to verify two-factor authentication:', error)
+    }
+  }
+
+  const handleRegenerateRecoveryCodes = async () => {
+    try {
+      const codes = await regenerateRecoveryCodes(regenerateCode)
+      setShowRegenerate(false)
+      setRegenerateCode('')
+      setRecoveryCodes(codes)
+    } catch (error) {
+      console.error('Failed to regenerate recovery codes:', error)
+    }
+  }
+
+  const handleRegisterSecurityKey = async (authenticatorAttachment: 'platform' | 'cross-platform') => {
+    try {
+      const codes = await registerWebAuthnCredential(securityKeyName, authenticatorAttachment)
+      setSecurityKeyName('')
+      if (codes) {
+        setRecoveryCodes(codes)
+      }
+    } catch (error) {
+      console.error('Failed to register security key:', error)
+    }
+  }
+
+  const handleRemoveSecurityKey = async (id: string) => {
+    try {
+      await removeWebAuthnCredential(id)
+    } catch (error) {
+      console.error('Failed to remove security key:', error)
+    }
+  }
+
   const handleDisableTwoFactor = async () => {
     try {
       await disableTwoFactor()
@@ -212,7 +287,7 @@ export const SecurityPage: React.FC = () => {
               </p>
             </div>
             <div className="flex items-center space-x-3">
-              {dashboard?.features.find(f => f.direction === 'southeast')?.enabled ? (
+              {totpEnabled ? (
                 <button
                   onClick={handleDisableTwoFactor}
                   className="btn-danger"
@@ -229,6 +304,132 @@ export const SecurityPage: React.FC = () => {
               )}
             </div>
           </div>
+
+          <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+            <h4 className="font-medium text-gray-900 dark:text-white">
+              Security Keys &amp; Biometrics
+            </h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Use a FIDO2 security key or this device's FaceID/TouchID as a second factor or to sign in without a password
+            </p>
+            {webAuthnCredentials.length > 0 && (
+              <ul className="mt-4 space-y-2">
+                {webAuthnCredentials.map((credential) => (
+                  <li key={credential.id} className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      {credential.authenticatorAttachment === 'platform' ? (
+                        <FingerPrintIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                      ) : (
+                        <KeyIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                      )}
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">
+                          {credential.name}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Added {new Date(credential.createdAt).toLocaleDateString()}
+                          {credential.lastUsedAt && ` · Last used ${new Date(credential.lastUsedAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveSecurityKey(credential.id)}
+                      className="btn-secondary"
+                      title="Remove"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="mt-4 flex items-center space-x-3">
+              <input
+                type="text"
+                value={securityKeyName}
+                onChange={(e) => setSecurityKeyName(e.target.value)}
+                maxLength={100}
+                className="input flex-1"
+                placeholder="Name (optional)"
+              />
+              <button
+                onClick={() => handleRegisterSecurityKey('cross-platform')}
+                className="btn-primary"
+              >
+                Add security key
+              </button>
+              {platformAuthenticatorAvailable && (
+                <button
+                  onClick={() => handleRegisterSecurityKey('platform')}
+                  className="btn-secondary"
+                >
+                  Use this device
+                </button>
+              )}
+            </div>
+          </div>
+
+          {twoFactorEnabled && (
+            <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium text-gray-900 dark:text-white">
+                    Recovery Codes
+                  </h4>
+                  <p className={`text-sm ${
+                    recoveryCodesRemaining !== null && recoveryCodesRemaining <= 2
+                      ? 'text-red-600 dark:text-red-400'
+                      : 'text-gray-600 dark:text-gray-400'
+                  }`}>
+                    {recoveryCodesRemaining === null
+                      ? 'Single-use codes for when you lose your authenticator app'
+                      : `${recoveryCodesRemaining} unused recovery code${recoveryCodesRemaining === 1 ? '' : 's'} remaining`}
+                  </p>
+                </div>
+                {!showRegenerate && (
+                  <button
+                    onClick={() => setShowRegenerate(true)}
+                    className="btn-secondary"
+                  >
+                    Regenerate
+                  </button>
+                )}
+              </div>
+              {showRegenerate && (
+                <div className="mt-4 space-y-3">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Enter a code from your authenticator app to replace all existing recovery codes.
+                  </p>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="text"
+                      value={regenerateCode}
+                      onChange={(e) => setRegenerateCode(e.target.value)}
+                      autoComplete="one-time-code"
+                      className="input flex-1"
+                      placeholder="6-digit code or recovery code"
+                    />
+                    <button
+                      onClick={handleRegenerateRecoveryCodes}
+                      disabled={!regenerateCode}
+                      className="btn-primary"
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowRegenerate(false)
+                        setRegenerateCode('')
+                      }}
+                      className="btn-secondary"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -285,6 +486,22 @@ export const SecurityPage: React.FC = () => {
               <div className="p-3 bg-gray-100 dark:bg-gray-700 rounded-lg font-mono text-sm">
                 {twoFactorData.secret}
               </div>
+              <div>
+                <label htmlFor="verificationCode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Enter the 6-digit code from your app to finish setup:
+                </label>
+                <input
+                  id="verificationCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={verificationCode}
+                  onChange={(e) => setVerificationCode(e.target.value)}
+                  className="input mt-1"
+                  placeholder="Enter 6-digit code"
+                />
+              </div>
             </div>
             <div className="flex justify-end space-x-3 mt-6">
               <button
@@ -293,10 +510,25 @@ export const SecurityPage: React.FC = () => {
               >
                 Close
               </button>
+              <button
+                onClick={handleVerifyTwoFactor}
+                disabled={!/^\d{6}$/.test(verificationCode)}
+                className="btn-primary"
+              >
+                Verify
+              </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* Recovery codes are only ever shown once */}
+      {recoveryCodes && (
+        <RecoveryCodesModal
+          codes={recoveryCodes}
+          onClose={() => setRecoveryCodes(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react'
+import { useLocation, useParams } from 'react-router-dom'
+import { sendService } from '@/services/sendService'
+import { decryptSend, SendContent } from '@/utils/vaultCrypto'
+import toast from 'react-hot-toast'
+import {
+  PaperAirplaneIcon,
+  ClipboardDocumentIcon,
+  ArrowDownTrayIcon
+} from '@heroicons/react/24/outline'
+
+/**
+ * Opens a send for anyone holding its link, without an account
+ * Nothing is fetched until the recipient asks, since every retrieval counts as a view.
+ */
+export const SendAccessPage: React.FC = () => {
+  const { accessId = '' } = useParams()
+  const location = useLocation()
+  const key = location.hash.slice(1)
+
+  const [password, setPassword] = useState('')
+  const [needsPassword, setNeedsPassword] = useState(false)
+  const [content, setContent] = useState<SendContent | null>(null)
+  const [remainingViews, setRemainingViews] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(key ? null : 'This link is missing its key.')
+  const [isOpening, setIsOpening] = useState(false)
+
+  const downloadUrl = useMemo(
+    () => content?.type === 'file' ? URL.createObjectURL(new Blob([new Uint8Array(content.data)])) : null,
+    [content]
+  )
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsOpening(true)
+    try {
+      const send = await sendService.accessSend(accessId, password || undefined)
+      setContent(await decryptSend(send, key))
+      setRemainingViews(send.remainingViews)
+      setError(null)
+    } catch (error: any) {
+      const code = error.response?.data?.code
+      if (code === 'SEND_PASSWORD_REQUIRED' || code === 'INVALID_SEND_PASSWORD') {
+        setNeedsPassword(true)
+        if (code === 'INVALID_SEND_PASSWORD') {
+          toast.error('Invalid password')
+        }
+      } else if (error.response) {
+        setError(error.response.data?.message || 'This send is no longer available.')
+      } else {
+        // No response from the server means the key from the link did not open the ciphertext
+        setError('This link is damaged or incomplete.')
+      }
+    } finally {
+      setIsOpening(false)
+    }
+  }
+
+  const handleCopy = async (text: string) => {
+    await navigator.clipboard.writeText(text)
+    toast.success('Copied to clipboard')
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100 dark:bg-primary-900">
+            <PaperAirplaneIcon className="h-6 w-6 text-primary-600 dark:text-primary-400" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
+            Someone sent you a secret
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
+            It is decrypted in your browser with the key in your link
+          </p>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            {error ? (
+              <p className="text-sm text-center text-gray-700 dark:text-gray-300">{error}</p>
+            ) : content ? (
+              <div className="space-y-4">
+                {content.type === 'text' ? (
+                  <>
+                    <textarea readOnly rows={6} value={content.text} className="input font-mono text-sm" />
+                    <div className="flex justify-end">
+                      <button onClick={() => handleCopy(content.text)} className="btn-secondary">
+                        <ClipboardDocumentIcon className="h-5 w-5 mr-2" />
+                        Copy
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-900 dark:text-white break-all">{content.fileName}</span>
+                    <a href={downloadUrl!} download={content.fileName} className="btn-primary">
+                      <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+                      Download
+                    </a>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {remainingViews === 0
+                    ? 'This was the last view; the send has been deleted. Save what you need now.'
+                    : remainingViews === null
+                      ? 'Save what you need; the send disappears once it expires.'
+                      : `The send can be opened ${remainingViews} more ${remainingViews === 1 ? 'time' : 'times'}.`}
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleOpen} className="space-y-4">
+                {needsPassword && (
+                  <div>
+                    <label htmlFor="sendPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Password
+                    </label>
+                    <input
+                      id="sendPassword"
+                      type="password"
+                      autoComplete="off"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="input mt-1"
+                      placeholder="The sender protected this send with a password"
+                    />
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Opening the send counts as one view.
+                </p>
+                <button type="submit" className="btn-primary w-full" disabled={isOpening || (needsPassword && !password)}>
+                  Open Send
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react'
+import { useSendStore } from '@/store/sendStore'
+import { useVaultStore } from '@/store/vaultStore'
+import { Send, SendType } from '@/types'
+import { SendContent } from '@/utils/vaultCrypto'
+import { LoadingSpinner } from '@/components/LoadingSpinner'
+import toast from 'react-hot-toast'
+import {
+  PaperAirplaneIcon,
+  DocumentTextIcon,
+  PaperClipIcon,
+  ClipboardDocumentIcon,
+  TrashIcon,
+  LockClosedIcon,
+  EyeSlashIcon,
+  EyeIcon
+} from '@heroicons/react/24/outline'
+
+// Files are capped below the server's 5 MB so the encrypted upload fits
+const MAX_FILE_BYTES = 4 * 1024 * 1024
+
+const HOUR_MS = 60 * 60 * 1000
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 7 * 24 },
+  { label: '30 days', hours: 30 * 24 },
+]
+
+export const SendsPage: React.FC = () => {
+  const { sends, isLoading, fetchSends, createSend, updateSend, deleteSend } = useSendStore()
+  const { vaultKey } = useVaultStore()
+
+  const [type, setType] = useState<SendType>('text')
+  const [name, setName] = useState('')
+  const [text, setText] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [password, setPassword] = useState('')
+  const [maxViews, setMaxViews] = useState('')
+  const [expiryHours, setExpiryHours] = useState(24)
+  const [createdLink, setCreatedLink] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    fetchSends()
+  }, [fetchSends, vaultKey])
+
+  const handleFileChange = (selected: File | null) => {
+    if (selected && selected.size > MAX_FILE_BYTES) {
+      toast.error(`Files can be at most ${MAX_FILE_BYTES / (1024 * 1024)} MB`)
+      setFile(null)
+      return
+    }
+    setFile(selected)
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      const content: SendContent = type === 'file' && file
+        ? { type: 'file', fileName: file.name, data: new Uint8Array(await file.arrayBuffer()) }
+        : { type: 'text', text }
+
+      const link = await createSend({
+        name: name || file?.name || 'Untitled send',
+        content,
+        password: password || undefined,
+        maxViews: maxViews ? Number(maxViews) : null,
+        expiresAt: new Date(Date.now() + expiryHours * HOUR_MS),
+      })
+
+      setCreatedLink(link)
+      setName('')
+      setText('')
+      setFile(null)
+      setPassword('')
+      setMaxViews('')
+    } catch {
+      // Error is already surfaced by the store
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCopy = async (link: string) => {
+    await navigator.clipboard.writeText(link)
+    toast.success('Link copied')
+  }
+
+  const handleToggle = async (send: Send) => {
+    try {
+      await updateSend(send.id, { disabled: !send.disabled })
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleDelete = async (send: Send) => {
+    if (!confirm(`Delete ${send.name || 'this send'}? The link stops working right away.`)) {
+      return
+    }
+    try {
+      await deleteSend(send.id)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const formatViews = (send: Send) =>
+    send.maxViews === null ? `${send.viewCount} views` : `${send.viewCount} of ${send.maxViews} views`
+
+  const canCreate = type === 'text' ? !!text : !!file
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Send
+        </h1>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Share a secret with anyone through a link that expires. The key stays in the link, never on our servers.
+        </p>
+      </div>
+
+      {!vaultKey && (
+        <div className="card">
+          <div className="card-body flex items-center space-x-3 text-sm text-gray-600 dark:text-gray-400">
+            <LockClosedIcon className="h-5 w-5 flex-shrink-0" />
+            <span>Unlock your vault to create sends and copy their links.</span>
+          </div>
+        </div>
+      )}
+
+      {/* Create */}
+      <div className="card">
+        <form onSubmit={handleCreate} className="card-body space-y-4">
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => setType('text')}
+              className={type === 'text' ? 'btn-primary' : 'btn-secondary'}
+            >
+              <DocumentTextIcon className="h-5 w-5 mr-2" />
+              Text
+            </button>
+            <button
+              type="button"
+              onClick={() => setType('file')}
+              className={type === 'file' ? 'btn-primary' : 'btn-secondary'}
+            >
+              <PaperClipIcon className="h-5 w-5 mr-2" />
+              File
+            </button>
+          </div>
+
+          <div>
+            <label htmlFor="sendName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Name
+            </label>
+            <input
+              id="sendName"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input mt-1"
+              placeholder="Only you see this"
+            />
+          </div>
+
+          {type === 'text' ? (
+            <div>
+              <label htmlFor="sendText" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Text
+              </label>
+              <textarea
+                id="sendText"
+                rows={4}
+                autoComplete="off"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="input mt-1"
+              />
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="sendFile" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                File
+              </label>
+              <input
+                id="sendFile"
+                type="file"
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                className="mt-1 block text-sm text-gray-700 dark:text-gray-300"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Up to {MAX_FILE_BYTES / (1024 * 1024)} MB
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="sendExpiry" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Expires After
+              </label>
+              <select
+                id="sendExpiry"
+                value={expiryHours}
+                onChange={(e) => setExpiryHours(Number(e.target.value))}
+                className="input mt-1"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="sendMaxViews" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Max Views
+              </label>
+              <input
+                id="sendMaxViews"
+                type="number"
+                min={1}
+                max={1000}
+                value={maxViews}
+                onChange={(e) => setMaxViews(e.target.value)}
+                className="input mt-1"
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label htmlFor="sendPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Password
+              </label>
+              <input
+                id="sendPassword"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input mt-1"
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button type="submit" className="btn-primary" disabled={!vaultKey || !canCreate || isSaving}>
+              <PaperAirplaneIcon className="h-5 w-5 mr-2" />
+              Create Link
+            </button>
+          </div>
+
+          {createdLink && (
+            <div className="p-3 rounded-md bg-gray-50 dark:bg-gray-700">
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+                Anyone with this link can open the send until it expires or runs out of views:
+              </p>
+              <div className="flex gap-2">
+                <input type="text" readOnly value={createdLink} className="input flex-1 font-mono text-xs" />
+                <button type="button" onClick={() => handleCopy(createdLink)} className="btn-secondary">
+                  <ClipboardDocumentIcon className="h-5 w-5 mr-2" />
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+      </div>
+
+      {/* Sends */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <LoadingSpinner />
+        </div>
+      ) : sends.length === 0 ? (
+        <div className="card">
+          <div className="card-body text-center py-12">
+            <PaperAirplaneIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              No active sends
+            </h3>
+          </div>
+        </div>
+      ) : (
+        <div className="card">
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sends.map((send) => (
+              <li key={send.id} className="flex items-center justify-between p-4">
+                <div className="flex items-center space-x-3">
+                  {send.type === 'file'
+                    ? <PaperClipIcon className="h-5 w-5 text-gray-400" />
+                    : <DocumentTextIcon className="h-5 w-5 text-gray-400" />}
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                      {send.name || 'Encrypted send'}
+                      {send.disabled && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Disabled</span>
+                      )}
+                    </h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatViews(send)} · Expires {new Date(send.expiresAt).toLocaleString()}
+                      {send.hasPassword && ' · Password protected'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  {send.link && (
+                    <button
+                      onClick={() => handleCopy(send.link!)}
+                      className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      title="Copy link"
+                    >
+                      <ClipboardDocumentIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleToggle(send)}
+                    className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    title={send.disabled ? 'Enable' : 'Disable'}
+                  >
+                    {send.disabled ? <EyeIcon className="h-4 w-4" /> : <EyeSlashIcon className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(send)}
+                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    title="Delete"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,14 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { useVaultStore } from '@/store/vaultStore'
-import { VaultItemType } from '@/types'
+import { VaultItem, VaultItemType, VaultSortField, SortOrder, SharedItem } from '@/types'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { RevisionHistoryModal } from '@/components/RevisionHistoryModal'
+import { ShareItemModal } from '@/components/ShareItemModal'
+import { AttachmentsModal } from '@/components/AttachmentsModal'
+import { TotpCode } from '@/components/TotpCode'
+import { SharedItemModal } from '@/components/SharedItemModal'
+import { FolderTree, ITEM_DRAG_TYPE } from '@/components/FolderTree'
 import { 
   PlusIcon, 
   MagnifyingGlassIcon, 
@@ -9,30 +16,117 @@ import {
   StarIcon,
   EyeIcon,
   PencilIcon,
-  TrashIcon
+  TrashIcon,
+  LockClosedIcon,
+  ArrowUturnLeftIcon,
+  Squares2X2Icon,
+  ClockIcon,
+  ShareIcon,
+  UsersIcon,
+  PaperClipIcon,
+  InboxArrowDownIcon,
+  ArrowRightOnRectangleIcon
 } from '@heroicons/react/24/outline'
 
 export const VaultPage: React.FC = () => {
   const {
+    vaultKey,
+    privateKey,
     items,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    trashItems,
+    trashRetentionDays,
+    sharedItems,
     searchQuery,
     selectedType,
     selectedTags,
     showFavoritesOnly,
+    sortBy,
+    sortOrder,
+    selectedFolderId,
     fetchItems,
+    fetchMoreItems,
     setSearchQuery,
     setSelectedType,
     setShowFavoritesOnly,
-    deleteItem
+    setSort,
+    setSelectedFolder,
+    deleteItem,
+    fetchTrash,
+    restoreItem,
+    purgeItem,
+    emptyTrash,
+    setTrashRetention,
+    fetchSharedItems,
+    acceptShare,
+    declineShare,
+    updateSharedItem,
+    unlock,
+    lock
   } = useVaultStore()
 
   const [showAddModal, setShowAddModal] = useState(false)
+  const [masterPassword, setMasterPassword] = useState('')
+  const [activeTab, setActiveTab] = useState<'items' | 'shared' | 'trash'>('items')
+  const [historyItem, setHistoryItem] = useState<VaultItem | null>(null)
+  const [sharingItem, setSharingItem] = useState<VaultItem | null>(null)
+  const [attachmentsItem, setAttachmentsItem] = useState<VaultItem | null>(null)
+  const [editingShare, setEditingShare] = useState<SharedItem | null>(null)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  // Watchtower findings link to the affected item with ?item=<id>
+  const [searchParams] = useSearchParams()
+  const focusedItemId = searchParams.get('item')
+  const scrolledToRef = useRef<string | null>(null)
 
   useEffect(() => {
     fetchItems()
   }, [fetchItems])
 
+  useEffect(() => {
+    if (activeTab === 'trash') {
+      fetchTrash()
+    }
+  }, [activeTab, fetchTrash])
+
+  useEffect(() => {
+    if (activeTab === 'shared' && vaultKey) {
+      fetchSharedItems()
+    }
+  }, [activeTab, vaultKey, fetchSharedItems])
+
+  // Load the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore) {
+      return
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        fetchMoreItems()
+      }
+    }, { rootMargin: '400px' })
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [activeTab, hasMore, items.length, fetchMoreItems])
+
+  // Load pages until the linked item is in, then bring it into view once
+  useEffect(() => {
+    if (!focusedItemId || isLoading || scrolledToRef.current === focusedItemId) {
+      return
+    }
+
+    if (items.some(item => item.id === focusedItemId)) {
+      scrolledToRef.current = focusedItemId
+      document.getElementById(`vault-item-${focusedItemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    } else if (hasMore && !isLoadingMore) {
+      fetchMoreItems()
+    }
+  }, [focusedItemId, items, hasMore, isLoading, isLoadingMore, fetchMoreItems])
+
   const handleSearch = (query: string) => {
     setSearchQuery(query)
     fetchItems()
@@ -48,6 +142,76 @@ export const VaultPage: React.FC = () => {
     fetchItems()
   }
 
+  const handleSort = (value: string) => {
+    const [field, order] = value.split(':')
+    setSort(field as VaultSortField, order as SortOrder)
+    fetchItems()
+  }
+
+  const handleFolderSelect = (folderId: string | null) => {
+    setSelectedFolder(folderId)
+    fetchItems()
+  }
+
+  const handlePurge = async (id: string) => {
+    if (!confirm('Permanently delete this item? This cannot be undone.')) {
+      return
+    }
+    try {
+      await purgeItem(id)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${trashItems.length} items in the trash? This cannot be undone.`)) {
+      return
+    }
+    try {
+      await emptyTrash()
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      await setTrashRetention(days)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleAcceptShare = async (shareId: string) => {
+    try {
+      await acceptShare(shareId)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleDeclineShare = async (shareId: string, message: string) => {
+    if (!confirm(message)) {
+      return
+    }
+    try {
+      await declineShare(shareId)
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await unlock(masterPassword)
+      setMasterPassword('')
+    } catch {
+      // Error is already surfaced by the store
+    }
+  }
+
   const getItemIcon = (type: VaultItemType) => {
     const icons = {
       [VaultItemType.LOGIN]: '🔐',
@@ -68,6 +232,18 @@ export const VaultPage: React.FC = () => {
     return labels[type] || type
   }
 
+  const getItemSubtitle = (item: VaultItem) => {
+    const data = item.decryptedData
+    return data?.username || data?.email || data?.url || data?.cardholderName
+      || `Added ${new Date(item.createdAt).toLocaleDateString()}`
+  }
+
+  const tabs = [
+    { id: 'items' as const, name: 'Items', icon: Squares2X2Icon },
+    { id: 'shared' as const, name: 'Shared with Me', icon: InboxArrowDownIcon },
+    { id: 'trash' as const, name: 'Trash', icon: TrashIcon },
+  ]
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -88,144 +264,473 @@ export const VaultPage: React.FC = () => {
             Manage your encrypted secrets and passwords
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="btn-primary"
-        >
-          <PlusIcon className="h-5 w-5 mr-2" />
-          Add Item
-        </button>
+        <div className="flex space-x-3">
+          {vaultKey && (
+            <button
+              onClick={lock}
+              className="btn-secondary"
+            >
+              <LockClosedIcon className="h-5 w-5 mr-2" />
+              Lock
+            </button>
+          )}
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="btn-primary"
+          >
+            <PlusIcon className="h-5 w-5 mr-2" />
+            Add Item
+          </button>
+        </div>
       </div>
 
-      {/* Filters */}
-      <div className="card">
-        <div className="card-body">
-          <div className="flex flex-col sm:flex-row gap-4">
-            {/* Search */}
-            <div className="flex-1">
-              <div className="relative">
-                <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+      {/* Unlock */}
+      {!vaultKey && (
+        <div className="card">
+          <div className="card-body">
+            <form onSubmit={handleUnlock} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+              <div className="flex-1">
+                <label htmlFor="masterPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Master Password
+                </label>
                 <input
-                  type="text"
-                  placeholder="Search vault items..."
-                  value={searchQuery}
-                  onChange={(e) => handleSearch(e.target.value)}
-                  className="input pl-10"
+                  id="masterPassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={masterPassword}
+                  onChange={(e) => setMasterPassword(e.target.value)}
+                  className="input mt-1"
+                  placeholder="Enter your master password to unlock"
                 />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Your vault is decrypted in this browser only.
+                </p>
               </div>
-            </div>
-
-            {/* Type Filter */}
-            <div className="sm:w-48">
-              <select
-                value={selectedType || ''}
-                onChange={(e) => handleTypeFilter(e.target.value as VaultItemType || null)}
-                className="input"
-              >
-                <option value="">All Types</option>
-                <option value={VaultItemType.LOGIN}>Logins</option>
-                <option value={VaultItemType.SECURE_NOTE}>Secure Notes</option>
-                <option value={VaultItemType.PAYMENT_CARD}>Payment Cards</option>
-                <option value={VaultItemType.IDENTITY}>Identities</option>
-              </select>
-            </div>
+              <button type="submit" className="btn-primary" disabled={!masterPassword}>
+                <LockClosedIcon className="h-5 w-5 mr-2" />
+                Unlock Vault
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
 
-            {/* Favorites Filter */}
+      {/* Tabs */}
+      <div className="border-b border-gray-200 dark:border-gray-700">
+        <nav className="-mb-px flex space-x-8">
+          {tabs.map((tab) => (
             <button
-              onClick={() => handleFavoritesFilter(!showFavoritesOnly)}
-              className={`btn ${showFavoritesOnly ? 'btn-primary' : 'btn-secondary'}`}
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center space-x-2 py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+              }`}
             >
-              <StarIcon className={`h-5 w-5 mr-2 ${showFavoritesOnly ? 'text-yellow-500' : ''}`} />
-              Favorites
+              <tab.icon className="h-5 w-5" />
+              <span>{tab.name}</span>
             </button>
-          </div>
-        </div>
+          ))}
+        </nav>
       </div>
 
-      {/* Vault Items Grid */}
-      {items.length === 0 ? (
+      {activeTab === 'items' && (
+        <div className="flex flex-col lg:flex-row gap-6">
+        {/* Folder Sidebar */}
+        <aside className="lg:w-64 flex-shrink-0">
+          <FolderTree selectedFolderId={selectedFolderId} onSelect={handleFolderSelect} />
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-6">
+        {/* Filters */}
         <div className="card">
-          <div className="card-body text-center py-12">
-            <div className="mx-auto h-12 w-12 text-gray-400 mb-4">
-              🔒
+          <div className="card-body">
+            <div className="flex flex-col sm:flex-row gap-4">
+              {/* Search */}
+              <div className="flex-1">
+                <div className="relative">
+                  <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder={vaultKey ? 'Search by name, site or username...' : 'Unlock the vault to search'}
+                    value={searchQuery}
+                    onChange={(e) => handleSearch(e.target.value)}
+                    disabled={!vaultKey}
+                    className="input pl-10"
+                  />
+                </div>
+              </div>
+
+              {/* Type Filter */}
+              <div className="sm:w-48">
+                <select
+                  value={selectedType || ''}
+                  onChange={(e) => handleTypeFilter(e.target.value as VaultItemType || null)}
+                  className="input"
+                >
+                  <option value="">All Types</option>
+                  <option value={VaultItemType.LOGIN}>Logins</option>
+                  <option value={VaultItemType.SECURE_NOTE}>Secure Notes</option>
+                  <option value={VaultItemType.PAYMENT_CARD}>Payment Cards</option>
+                  <option value={VaultItemType.IDENTITY}>Identities</option>
+                </select>
+              </div>
+
+              {/* Sort */}
+              <div className="sm:w-48">
+                <select
+                  value={`${sortBy}:${sortOrder}`}
+                  onChange={(e) => handleSort(e.target.value)}
+                  className="input"
+                >
+                  <option value="createdAt:desc">Newest First</option>
+                  <option value="createdAt:asc">Oldest First</option>
+                  <option value="updatedAt:desc">Recently Updated</option>
+                  <option value="type:asc">By Type</option>
+                  <option value="favorite:desc">Favorites First</option>
+                </select>
+              </div>
+
+              {/* Favorites Filter */}
+              <button
+                onClick={() => handleFavoritesFilter(!showFavoritesOnly)}
+                className={`btn ${showFavoritesOnly ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                <StarIcon className={`h-5 w-5 mr-2 ${showFavoritesOnly ? 'text-yellow-500' : ''}`} />
+                Favorites
+              </button>
             </div>
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-              No vault items found
-            </h3>
-            <p className="text-gray-600 dark:text-gray-400 mb-6">
-              {searchQuery || selectedType || showFavoritesOnly
-                ? 'Try adjusting your filters to see more items.'
-                : 'Get started by adding your first secure item to the vault.'}
-            </p>
-            <button
-              onClick={() => setShowAddModal(true)}
-              className="btn-primary"
-            >
-              <PlusIcon className="h-5 w-5 mr-2" />
-              Add Your First Item
-            </button>
           </div>
         </div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {items.map((item) => (
-            <div key={item.id} className="vault-item">
-              <div className="card-body">
-                <div className="vault-item-header">
-                  <div className="flex items-center space-x-3">
-                    <div className="vault-item-icon bg-primary-500">
-                      <span className="text-lg">{getItemIcon(item.type)}</span>
+
+        {/* Vault Items Grid */}
+        {items.length === 0 ? (
+          <div className="card">
+            <div className="card-body text-center py-12">
+              <div className="mx-auto h-12 w-12 text-gray-400 mb-4">
+                🔒
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                No vault items found
+              </h3>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                {searchQuery || selectedType || showFavoritesOnly || selectedFolderId
+                  ? 'Try adjusting your filters to see more items.'
+                  : 'Get started by adding your first secure item to the vault.'}
+              </p>
+              <button
+                onClick={() => setShowAddModal(true)}
+                className="btn-primary"
+              >
+                <PlusIcon className="h-5 w-5 mr-2" />
+                Add Your First Item
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                id={`vault-item-${item.id}`}
+                className={`vault-item ${item.id === focusedItemId ? 'ring-2 ring-primary-500' : ''}`}
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData(ITEM_DRAG_TYPE, item.id)}
+              >
+                <div className="card-body">
+                  <div className="vault-item-header">
+                    <div className="flex items-center space-x-3">
+                      <div className="vault-item-icon bg-primary-500">
+                        <span className="text-lg">{getItemIcon(item.type)}</span>
+                      </div>
+                      <div>
+                        <h3 className="vault-item-title">
+                          {item.decryptedData?.title || getItemTypeLabel(item.type)}
+                        </h3>
+                        <p className="vault-item-subtitle">
+                          {getItemSubtitle(item)}
+                        </p>
+                      </div>
                     </div>
-                    <div>
-                      <h3 className="vault-item-title">
-                        {getItemTypeLabel(item.type)}
-                      </h3>
-                      <p className="vault-item-subtitle">
-                        Added {new Date(item.createdAt).toLocaleDateString()}
-                      </p>
+                    <div className="flex items-center space-x-2">
+                      {item.favorite && (
+                        <StarIcon className="h-5 w-5 text-yellow-500" />
+                      )}
+                      {item.shareCount > 0 && (
+                        <span title={`Shared with ${item.shareCount} ${item.shareCount === 1 ? 'person' : 'people'}`}>
+                          <UsersIcon className="h-5 w-5 text-primary-500" />
+                        </span>
+                      )}
+                      {item.attachmentCount > 0 && (
+                        <span title={`${item.attachmentCount} ${item.attachmentCount === 1 ? 'attachment' : 'attachments'}`}>
+                          <PaperClipIcon className="h-5 w-5 text-gray-500" />
+                        </span>
+                      )}
+                      <div className="flex space-x-1">
+                        <button className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                          <EyeIcon className="h-4 w-4" />
+                        </button>
+                        <button className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setHistoryItem(item)}
+                          disabled={!vaultKey}
+                          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                          title="History"
+                        >
+                          <ClockIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setSharingItem(item)}
+                          disabled={!vaultKey || !item.clientEncrypted}
+                          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                          title="Share"
+                        >
+                          <ShareIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setAttachmentsItem(item)}
+                          disabled={!vaultKey || !item.clientEncrypted}
+                          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                          title="Attachments"
+                        >
+                          <PaperClipIcon className="h-4 w-4" />
+                        </button>
+                        <button 
+                          onClick={() => deleteItem(item.id)}
+                          className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
                     </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    {item.favorite && (
-                      <StarIcon className="h-5 w-5 text-yellow-500" />
-                    )}
-                    <div className="flex space-x-1">
-                      <button className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
-                        <EyeIcon className="h-4 w-4" />
-                      </button>
-                      <button className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
-                        <PencilIcon className="h-4 w-4" />
-                      </button>
-                      <button 
-                        onClick={() => deleteItem(item.id)}
-                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
-                      >
-                        <TrashIcon className="h-4 w-4" />
-                      </button>
+
+                  {item.decryptedData?.totp && (
+                    <div className="mt-3">
+                      <TotpCode value={item.decryptedData.totp} />
+                    </div>
+                  )}
+
+                  {item.tags.length > 0 && (
+                    <div className="vault-item-tags">
+                      {item.tags.map((tag, index) => (
+                        <span key={index} className="vault-item-tag">
+                          {tag}
+                        </span>
+                      ))}
                     </div>
+                  )}
+
+                  <div className="mt-4 flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+                    <span>Last updated: {new Date(item.updatedAt).toLocaleDateString()}</span>
+                    <span className="capitalize">{item.algorithm}</span>
                   </div>
                 </div>
+              </div>
+            ))}
+          </div>
+        )}
 
-                {item.tags.length > 0 && (
-                  <div className="vault-item-tags">
-                    {item.tags.map((tag, index) => (
-                      <span key={index} className="vault-item-tag">
-                        {tag}
-                      </span>
-                    ))}
-                  </div>
-                )}
+        {/* Infinite scroll */}
+        {items.length > 0 && (
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {isLoadingMore && <LoadingSpinner />}
+          </div>
+        )}
+        </div>
+        </div>
+      )}
 
-                <div className="mt-4 flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
-                  <span>Last updated: {new Date(item.updatedAt).toLocaleDateString()}</span>
-                  <span className="capitalize">{item.algorithm}</span>
-                </div>
+      {/* Shared With Me Tab */}
+      {activeTab === 'shared' && (
+        <div className="space-y-6">
+          {vaultKey && !privateKey && (
+            <div className="card">
+              <div className="card-body text-sm text-gray-600 dark:text-gray-400">
+                Your sharing key could not be opened, so shared items stay encrypted.
               </div>
             </div>
-          ))}
+          )}
+
+          {sharedItems.length === 0 ? (
+            <div className="card">
+              <div className="card-body text-center py-12">
+                <InboxArrowDownIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                  Nothing has been shared with you
+                </h3>
+              </div>
+            </div>
+          ) : (
+            <div className="card">
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {sharedItems.map((share) => (
+                  <li key={share.id} className="flex items-center justify-between p-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="vault-item-icon bg-primary-500">
+                        <span className="text-lg">{getItemIcon(share.type)}</span>
+                      </div>
+                      <div>
+                        <h3 className="vault-item-title">
+                          {share.decryptedData?.title || getItemTypeLabel(share.type)}
+                        </h3>
+                        <p className="vault-item-subtitle">
+                          {share.decryptedData?.username && `${share.decryptedData.username} · `}
+                          Shared by {share.ownerEmail}
+                          {share.permission === 'read' && ' · Read-only'}
+                        </p>
+                        {share.decryptedData?.totp && (
+                          <TotpCode value={share.decryptedData.totp} className="mt-1" />
+                        )}
+                      </div>
+                    </div>
+                    {share.status === 'pending' ? (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleAcceptShare(share.id)}
+                          className="btn-primary"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => handleDeclineShare(share.id, 'Decline this shared item?')}
+                          className="btn-secondary"
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex space-x-2">
+                        {share.permission === 'edit' && (
+                          <button
+                            onClick={() => setEditingShare(share)}
+                            disabled={!share.decryptedData}
+                            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                            title="Edit"
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDeclineShare(share.id, `Stop receiving this item from ${share.ownerEmail}?`)}
+                          className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                          title="Leave"
+                        >
+                          <ArrowRightOnRectangleIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
 
+      {/* Trash Tab */}
+      {activeTab === 'trash' && (
+        <div className="space-y-6">
+          <div className="card">
+            <div className="card-body flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
+              <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <span>Deleted items are permanently removed after</span>
+                <select
+                  value={trashRetentionDays}
+                  onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                  className="input w-auto"
+                >
+                  {[7, 14, 30, 60, 90, 180, 365].map((days) => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleEmptyTrash}
+                disabled={trashItems.length === 0}
+                className="btn-secondary"
+              >
+                <TrashIcon className="h-5 w-5 mr-2" />
+                Empty Trash
+              </button>
+            </div>
+          </div>
+
+          {trashItems.length === 0 ? (
+            <div className="card">
+              <div className="card-body text-center py-12">
+                <TrashIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                  Trash is empty
+                </h3>
+              </div>
+            </div>
+          ) : (
+            <div className="card">
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {trashItems.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between p-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="vault-item-icon bg-gray-400">
+                        <span className="text-lg">{getItemIcon(item.type)}</span>
+                      </div>
+                      <div>
+                        <h3 className="vault-item-title">
+                          {item.decryptedData?.title || getItemTypeLabel(item.type)}
+                        </h3>
+                        <p className="vault-item-subtitle">
+                          {item.deletedAt && `Deleted ${new Date(item.deletedAt).toLocaleDateString()}`}
+                          {item.purgeAt && ` · Removed for good on ${new Date(item.purgeAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => restoreItem(item.id)}
+                        className="btn-secondary"
+                      >
+                        <ArrowUturnLeftIcon className="h-4 w-4 mr-2" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handlePurge(item.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        title="Delete permanently"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {historyItem && (
+        <RevisionHistoryModal item={historyItem} onClose={() => setHistoryItem(null)} />
+      )}
+
+      {sharingItem && (
+        <ShareItemModal item={sharingItem} onClose={() => setSharingItem(null)} />
+      )}
+
+      {attachmentsItem && (
+        <AttachmentsModal item={attachmentsItem} onClose={() => setAttachmentsItem(null)} />
+      )}
+
+      {editingShare && (
+        <SharedItemModal
+          item={editingShare}
+          onSave={(data) => updateSharedItem(editingShare.id, data)}
+          onClose={() => setEditingShare(null)}
+        />
+      )}
+
       {/* Add Item Modal Placeholder */}
       {showAddModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
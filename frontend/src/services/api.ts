@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios'
 import { useAuthStore } from '@/store/authStore'
 import toast from 'react-hot-toast'
+import { getDeviceId } from '@/utils/deviceId'
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
@@ -11,7 +12,7 @@ const api: AxiosInstance = axios.create({
   },
 })
 
-// Request interceptor to add auth token
+// Request interceptor to add auth token and device identifier
 api.interceptors.request.use(
   (config: AxiosRequestConfig) => {
     const { accessToken } = useAuthStore.getState()
@@ -19,6 +20,10 @@ api.interceptors.request.use(
     if (accessToken && config.headers) {
       config.headers.Authorization = `Bearer ${accessToken}`
     }
+
+    if (config.headers) {
+      config.headers['X-Device-Id'] = getDeviceId()
+    }
     
     return config
   },
@@ -35,8 +40,13 @@ api.interceptors.response.use(
   async (error) => {
     const originalRequest = error.config
     
+    // Login failures are credential errors, not expired sessions
+    const isLoginRequest = originalRequest.url?.startsWith('/auth/login')
+    // Sends are opened without an account, so a 401 there is about the send's password
+    const isSendAccess = originalRequest.url?.startsWith('/sends/access')
+
     // If error is 401 and we haven't already tried to refresh
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    if (error.response?.status === 401 && !originalRequest._retry && !isLoginRequest && !isSendAccess) {
       originalRequest._retry = true
       
       try {
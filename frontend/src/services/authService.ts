@@ -1,14 +1,46 @@
+import { startAuthentication } from '@simplewebauthn/browser'
 import { api } from './api'
-import { LoginCredentials, RegisterCredentials, AuthResponse } from '@/types'
+import { LoginCredentials, AuthResponse, TwoFactorChallenge, KeyRotation, Device, Session } from '@/types'
+import { VaultKeyMaterial } from '@/utils/vaultCrypto'
+
+interface RegisterRequest extends VaultKeyMaterial {
+  email: string
+  password: string
+}
+
+// Zero-knowledge accounts prove the master password with its hash, legacy accounts send it
+type MasterPasswordProof = { masterPasswordHash: string } | { masterPassword: string }
+
+interface ChangeMasterPasswordRequest extends Omit<VaultKeyMaterial, 'masterPasswordHash'> {
+  currentMasterPasswordHash: string
+  newMasterPasswordHash: string
+}
 
 class AuthService {
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallenge> {
     const response = await api.post('/auth/login', credentials)
     return response.data.data
   }
 
-  async register(credentials: RegisterCredentials): Promise<AuthResponse> {
-    const response = await api.post('/auth/register', credentials)
+  async loginTwoFactor(challengeToken: string, code: string): Promise<AuthResponse> {
+    const response = await api.post('/auth/login/2fa', { challengeToken, code })
+    return response.data.data
+  }
+
+  async loginWithMasterPassword(challengeToken: string, proof: MasterPasswordProof): Promise<AuthResponse> {
+    const response = await api.post('/auth/login/verify-device', { challengeToken, ...proof })
+    return response.data.data
+  }
+
+  async loginWithWebAuthn(challengeToken?: string): Promise<AuthResponse> {
+    const optionsResponse = await api.post('/auth/webauthn/options', { challengeToken })
+    const response = await startAuthentication({ optionsJSON: optionsResponse.data.data.options })
+    const verifyResponse = await api.post('/auth/webauthn/verify', { response, challengeToken })
+    return verifyResponse.data.data
+  }
+
+  async register(request: RegisterRequest): Promise<AuthResponse> {
+    const response = await api.post('/auth/register', request)
     return response.data.data
   }
 
@@ -33,11 +65,43 @@ class AuthService {
     })
   }
 
-  async changeMasterPassword(currentMasterPassword: string, newMasterPassword: string): Promise<void> {
-    await api.put('/auth/change-master-password', {
+  async changeMasterPassword(request: ChangeMasterPasswordRequest): Promise<void> {
+    await api.put('/auth/change-master-password', request)
+  }
+
+  async getMasterPasswordRotation(): Promise<KeyRotation | null> {
+    const response = await api.get('/auth/master-password/rotation')
+    return response.data.data.rotation
+  }
+
+  async resumeMasterPasswordRotation(currentMasterPassword: string, newMasterPassword: string): Promise<KeyRotation> {
+    const response = await api.post('/auth/master-password/rotation/resume', {
       currentMasterPassword,
       newMasterPassword,
     })
+    return response.data.data.rotation
+  }
+
+  async getDevices(): Promise<Device[]> {
+    const response = await api.get('/auth/devices')
+    return response.data.data.devices
+  }
+
+  async revokeDevice(id: string): Promise<void> {
+    await api.delete(`/auth/devices/${id}`)
+  }
+
+  async getSessions(): Promise<Session[]> {
+    const response = await api.get('/auth/sessions')
+    return response.data.data.sessions
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await api.delete(`/auth/sessions/${id}`)
+  }
+
+  async revokeAllSessions(): Promise<void> {
+    await api.delete('/auth/sessions')
   }
 }
 
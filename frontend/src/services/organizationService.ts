@@ -0,0 +1,101 @@
+import { api } from './api'
+import {
+  Organization,
+  OrganizationRole,
+  OrganizationMember,
+  OrganizationCollection,
+  OrganizationItem,
+  CollectionAccess,
+  VaultItemType,
+} from '@/types'
+import { RecipientKey, SharedCiphertext } from '@/utils/vaultCrypto'
+
+interface CreateOrganizationItemRequest extends SharedCiphertext {
+  collectionId: string
+  type: VaultItemType
+  keys: RecipientKey[]
+}
+
+interface UpdateCollectionRequest {
+  name?: string
+  access?: CollectionAccess[]
+  // Data keys of the collection's items wrapped for each user being given access
+  keys?: Array<RecipientKey & { itemId: string }>
+}
+
+class OrganizationService {
+  async getOrganizations(): Promise<Organization[]> {
+    const response = await api.get('/organizations')
+    return response.data.data.organizations
+  }
+
+  async createOrganization(name: string): Promise<void> {
+    await api.post('/organizations', { name })
+  }
+
+  async updateOrganization(id: string, name: string): Promise<void> {
+    await api.put(`/organizations/${id}`, { name })
+  }
+
+  async deleteOrganization(id: string): Promise<void> {
+    await api.delete(`/organizations/${id}`)
+  }
+
+  async getMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const response = await api.get(`/organizations/${organizationId}/members`)
+    return response.data.data.members
+  }
+
+  async addMember(organizationId: string, email: string, role: OrganizationRole): Promise<void> {
+    await api.post(`/organizations/${organizationId}/members`, { email, role })
+  }
+
+  async updateMember(organizationId: string, userId: string, role: OrganizationRole): Promise<void> {
+    await api.put(`/organizations/${organizationId}/members/${userId}`, { role })
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    await api.delete(`/organizations/${organizationId}/members/${userId}`)
+  }
+
+  async getCollections(organizationId: string): Promise<OrganizationCollection[]> {
+    const response = await api.get(`/organizations/${organizationId}/collections`)
+    return response.data.data.collections
+  }
+
+  async createCollection(organizationId: string, name: string): Promise<OrganizationCollection> {
+    const response = await api.post(`/organizations/${organizationId}/collections`, { name })
+    return response.data.data
+  }
+
+  async updateCollection(organizationId: string, collectionId: string, updates: UpdateCollectionRequest): Promise<OrganizationCollection> {
+    const response = await api.put(`/organizations/${organizationId}/collections/${collectionId}`, updates)
+    return response.data.data
+  }
+
+  async deleteCollection(organizationId: string, collectionId: string): Promise<void> {
+    await api.delete(`/organizations/${organizationId}/collections/${collectionId}`)
+  }
+
+  async getItems(organizationId: string, collectionId?: string): Promise<OrganizationItem[]> {
+    const params = collectionId ? `?collectionId=${collectionId}` : ''
+    const response = await api.get(`/organizations/${organizationId}/items${params}`)
+    return response.data.data.items
+  }
+
+  async createItem(organizationId: string, item: CreateOrganizationItemRequest): Promise<OrganizationItem> {
+    const response = await api.post(`/organizations/${organizationId}/items`, item)
+    return response.data.data
+  }
+
+  async updateItem(organizationId: string, itemId: string, ciphertext: SharedCiphertext): Promise<OrganizationItem> {
+    const response = await api.put(`/organizations/${organizationId}/items/${itemId}`, ciphertext)
+    return response.data.data
+  }
+
+  async deleteItem(organizationId: string, itemId: string): Promise<void> {
+    await api.delete(`/organizations/${organizationId}/items/${itemId}`)
+  }
+}
+
+export const organizationService = new OrganizationService()
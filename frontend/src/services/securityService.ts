@@ -1,5 +1,15 @@
+import { startRegistration } from '@simplewebauthn/browser'
 import { api } from './api'
-import { SecurityFeature, SecurityDirection, SecurityDashboard, PasswordStrengthAnalysis, BreachCheck } from '@/types'
+import {
+  SecurityFeature,
+  SecurityDirection,
+  SecurityDashboard,
+  PasswordStrengthAnalysis,
+  BreachCheck,
+  WebAuthnCredential,
+  GeneratorSettings,
+  WatchtowerReport,
+} from '@/types'
 
 interface UpdateSecurityFeatureRequest {
   enabled?: boolean
@@ -28,14 +38,44 @@ class SecurityService {
     return response.data.data
   }
 
-  async verifyTwoFactor(token: string): Promise<void> {
-    await api.post('/security/two-factor/verify', { token })
+  async verifyTwoFactor(token: string): Promise<string[]> {
+    const response = await api.post('/security/two-factor/verify', { token })
+    return response.data.data.recoveryCodes
   }
 
   async disableTwoFactor(): Promise<void> {
     await api.delete('/security/two-factor/disable')
   }
 
+  async getRecoveryCodeCount(): Promise<number> {
+    const response = await api.get('/security/two-factor/recovery-codes')
+    return response.data.data.remaining
+  }
+
+  async regenerateRecoveryCodes(token: string): Promise<string[]> {
+    const response = await api.post('/security/two-factor/recovery-codes', { token })
+    return response.data.data.recoveryCodes
+  }
+
+  async registerWebAuthnCredential(
+    name: string,
+    authenticatorAttachment?: 'platform' | 'cross-platform'
+  ): Promise<{ credential: WebAuthnCredential; recoveryCodes?: string[] }> {
+    const optionsResponse = await api.post('/security/webauthn/register/options', { authenticatorAttachment })
+    const response = await startRegistration({ optionsJSON: optionsResponse.data.data.options })
+    const verifyResponse = await api.post('/security/webauthn/register/verify', { response, name })
+    return verifyResponse.data.data
+  }
+
+  async getWebAuthnCredentials(): Promise<WebAuthnCredential[]> {
+    const response = await api.get('/security/webauthn/credentials')
+    return response.data.data.credentials
+  }
+
+  async deleteWebAuthnCredential(id: string): Promise<void> {
+    await api.delete(`/security/webauthn/credentials/${id}`)
+  }
+
   async analyzePasswordStrength(password: string): Promise<{ strength: PasswordStrengthAnalysis; breach: BreachCheck }> {
     const response = await api.post('/security/analyze-password', { password })
     return response.data.data
@@ -46,6 +86,22 @@ class SecurityService {
     return response.data.data
   }
 
+  // Breach counts for every hash sharing the prefix, keyed by the other 35 characters
+  async getBreachRange(prefix: string): Promise<Record<string, number>> {
+    const response = await api.get(`/security/breach-range/${prefix}`)
+    return response.data.data.suffixes
+  }
+
+  async getGeneratorSettings(): Promise<GeneratorSettings> {
+    const response = await api.get('/security/generator/settings')
+    return response.data.data
+  }
+
+  async updateGeneratorSettings(settings: Partial<GeneratorSettings>): Promise<GeneratorSettings> {
+    const response = await api.put('/security/generator/settings', settings)
+    return response.data.data
+  }
+
   async enableVaultEncryption(algorithm: 'aes' | 'xchacha' = 'aes'): Promise<void> {
     await api.post('/security/vault-encryption/enable', { algorithm })
   }
@@ -53,6 +109,16 @@ class SecurityService {
   async enableWatchtowerAI(): Promise<void> {
     await api.post('/security/watchtower/enable')
   }
+
+  async getWatchtowerReport(): Promise<WatchtowerReport> {
+    const response = await api.get('/security/watchtower/report')
+    return response.data.data
+  }
+
+  async updateWatchtowerSettings(maxPasswordAgeDays: number): Promise<WatchtowerReport> {
+    const response = await api.put('/security/watchtower/settings', { maxPasswordAgeDays })
+    return response.data.data
+  }
 }
 
 export const securityService = new SecurityService()
@@ -0,0 +1,50 @@
+import { api } from './api'
+import { Send, SendAccess } from '@/types'
+import { EncryptedSend } from '@/utils/vaultCrypto'
+
+interface CreateSendRequest extends EncryptedSend {
+  encryptedName: string
+  password?: string
+  maxViews?: number | null
+  expiresAt: string
+}
+
+interface UpdateSendRequest {
+  encryptedName?: string
+  // A new password, or null to remove it
+  password?: string | null
+  maxViews?: number | null
+  expiresAt?: string
+  disabled?: boolean
+}
+
+class SendService {
+  async getSends(): Promise<Send[]> {
+    const response = await api.get('/sends')
+    return response.data.data.sends
+  }
+
+  async createSend(send: CreateSendRequest): Promise<Send> {
+    const response = await api.post('/sends', send)
+    return response.data.data
+  }
+
+  async updateSend(id: string, updates: UpdateSendRequest): Promise<Send> {
+    const response = await api.put(`/sends/${id}`, updates)
+    return response.data.data
+  }
+
+  async deleteSend(id: string): Promise<void> {
+    await api.delete(`/sends/${id}`)
+  }
+
+  /**
+   * Open a send without an account; every call counts as a view
+   */
+  async accessSend(accessId: string, password?: string): Promise<SendAccess> {
+    const response = await api.post(`/sends/access/${accessId}`, { password })
+    return response.data.data
+  }
+}
+
+export const sendService = new SendService()
@@ -1,53 +1,111 @@
 import { api } from './api'
-import { VaultItem, VaultItemType, VaultItemData } from '@/types'
+import {
+  VaultItem,
+  VaultItemType,
+  VaultKeys,
+  PublicKeyInfo,
+  ItemShare,
+  SharedItem,
+  SharePermission,
+  Attachment,
+  LegacyVaultItem,
+  VaultItemRevision,
+  Folder,
+  FolderDeletePolicy,
+  PaginatedResponse,
+  VaultSortField,
+  SortOrder,
+} from '@/types'
+import { AttachmentKey, EncryptedAttachment, EncryptedItem, SharedCiphertext, ShareKey } from '@/utils/vaultCrypto'
+import { SearchIndex } from '@/utils/vaultSearch'
+import { ItemHealthReport } from '@/utils/vaultHealth'
 
 interface VaultItemFilters {
   type?: VaultItemType
   tags?: string[]
   favorite?: boolean
-  search?: string
+  searchTokens?: string[]
+  // A folder id, or 'none' for items outside any folder
+  folderId?: string
 }
 
-interface CreateVaultItemRequest {
+interface PageRequest {
+  limit?: number
+  cursor?: string | null
+  sortBy?: VaultSortField
+  sortOrder?: SortOrder
+}
+
+// Item data only ever leaves the browser as ciphertext
+export interface CreateVaultItemRequest extends EncryptedItem, SearchIndex {
   type: VaultItemType
-  data: VaultItemData
   tags: string[]
   favorite: boolean
-  masterPassword: string
-  algorithm?: 'aes' | 'xchacha'
+  folderId?: string | null
+  // Logins only
+  health?: ItemHealthReport
 }
 
-interface UpdateVaultItemRequest {
-  data?: VaultItemData
+interface UpdateVaultItemRequest extends Partial<EncryptedItem>, Partial<SearchIndex> {
+  health?: ItemHealthReport
   tags?: string[]
   favorite?: boolean
-  masterPassword: string
-  algorithm?: 'aes' | 'xchacha'
+  folderId?: string | null
+  // The new data key wrapped for every share of the item
+  shareKeys?: ShareKey[]
+  // Every attachment key re-wrapped under the new data key
+  attachmentKeys?: AttachmentKey[]
+}
+
+interface RevokeShareRequest extends EncryptedItem {
+  shareKeys: ShareKey[]
+  attachmentKeys?: AttachmentKey[]
 }
 
-interface ImportVaultRequest {
-  importData: any
+interface UpdateFolderRequest {
+  encryptedName?: string
+  parentId?: string | null
+}
+
+interface StartMigrationRequest {
   masterPassword: string
-  algorithm?: 'aes' | 'xchacha'
+  masterPasswordHash: string
+  encryptedVaultKey?: string
+}
+
+interface MigratedVaultItem extends EncryptedItem, SearchIndex {
+  id: string
+}
+
+interface SearchIndexUpdate extends SearchIndex {
+  id: string
+}
+
+interface HealthUpdate {
+  id: string
+  health: ItemHealthReport
 }
 
 class VaultService {
-  async getVaultItems(filters: VaultItemFilters = {}): Promise<{ items: VaultItem[]; count: number }> {
+  async getVaultItems(filters: VaultItemFilters = {}, page: PageRequest = {}): Promise<PaginatedResponse<VaultItem>> {
     const params = new URLSearchParams()
     
     if (filters.type) params.append('type', filters.type)
     if (filters.tags) filters.tags.forEach(tag => params.append('tags', tag))
     if (filters.favorite !== undefined) params.append('favorite', filters.favorite.toString())
-    if (filters.search) params.append('search', filters.search)
+    if (filters.folderId) params.append('folderId', filters.folderId)
+    if (filters.searchTokens) filters.searchTokens.forEach(token => params.append('searchTokens', token))
+    if (page.limit) params.append('limit', page.limit.toString())
+    if (page.cursor) params.append('cursor', page.cursor)
+    if (page.sortBy) params.append('sortBy', page.sortBy)
+    if (page.sortOrder) params.append('sortOrder', page.sortOrder)
     
     const response = await api.get(`/vault/items?${params.toString()}`)
     return response.data.data
   }
 
-  async getVaultItem(id: string, masterPassword: string): Promise<VaultItem> {
-    const response = await api.get(`/vault/items/${id}`, {
-      data: { masterPassword }
-    })
+  async getVaultItem(id: string): Promise<VaultItem> {
+    const response = await api.get(`/vault/items/${id}`)
     return response.data.data
   }
 
@@ -65,15 +123,173 @@ class VaultService {
     await api.delete(`/vault/items/${id}`)
   }
 
-  async exportVault(masterPassword: string): Promise<any> {
-    const response = await api.get('/vault/export', {
-      data: { masterPassword }
+  async getFolders(): Promise<Folder[]> {
+    const response = await api.get('/vault/folders')
+    return response.data.data.folders
+  }
+
+  async createFolder(encryptedName: string, parentId: string | null = null): Promise<Folder> {
+    const response = await api.post('/vault/folders', { encryptedName, parentId })
+    return response.data.data
+  }
+
+  async updateFolder(id: string, updates: UpdateFolderRequest): Promise<Folder> {
+    const response = await api.put(`/vault/folders/${id}`, updates)
+    return response.data.data
+  }
+
+  async deleteFolder(id: string, policy: FolderDeletePolicy): Promise<{ movedItems: number; trashedItems: number }> {
+    const response = await api.delete(`/vault/folders/${id}?items=${policy}`)
+    return response.data.data
+  }
+
+  async getRevisions(id: string): Promise<VaultItemRevision[]> {
+    const response = await api.get(`/vault/items/${id}/revisions`)
+    return response.data.data.revisions
+  }
+
+  async restoreRevision(
+    id: string,
+    revision: number,
+    shareKeys?: ShareKey[],
+    attachmentKeys?: AttachmentKey[]
+  ): Promise<VaultItem> {
+    const response = await api.post(`/vault/items/${id}/revisions/${revision}/restore`, { shareKeys, attachmentKeys })
+    return response.data.data
+  }
+
+  async getItemShares(id: string): Promise<ItemShare[]> {
+    const response = await api.get(`/vault/items/${id}/shares`)
+    return response.data.data.shares
+  }
+
+  async shareItem(id: string, recipientId: string, permission: SharePermission, encryptedDataKey: string): Promise<ItemShare> {
+    const response = await api.post(`/vault/items/${id}/shares`, { recipientId, permission, encryptedDataKey })
+    return response.data.data
+  }
+
+  async revokeShare(id: string, shareId: string, rotated: RevokeShareRequest): Promise<VaultItem> {
+    const response = await api.post(`/vault/items/${id}/shares/${shareId}/revoke`, rotated)
+    return response.data.data
+  }
+
+  async getAttachments(id: string): Promise<Attachment[]> {
+    const response = await api.get(`/vault/items/${id}/attachments`)
+    return response.data.data.attachments
+  }
+
+  /**
+   * Upload ciphertext as a raw body, with its encrypted name and wrapped key in headers
+   */
+  async uploadAttachment(id: string, attachment: EncryptedAttachment): Promise<Attachment> {
+    const response = await api.post(`/vault/items/${id}/attachments`, attachment.content, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Encrypted-File-Name': attachment.encryptedFileName,
+        'X-Encrypted-Key': attachment.encryptedKey,
+      },
+      // Large files can take longer than the default timeout
+      timeout: 0,
     })
     return response.data.data
   }
 
-  async importVault(importRequest: ImportVaultRequest): Promise<{ importedCount: number; items: VaultItem[] }> {
-    const response = await api.post('/vault/import', importRequest)
+  async downloadAttachment(id: string, attachmentId: string): Promise<Uint8Array> {
+    const response = await api.get(`/vault/items/${id}/attachments/${attachmentId}`, {
+      responseType: 'arraybuffer',
+      timeout: 0,
+    })
+    return new Uint8Array(response.data)
+  }
+
+  async deleteAttachment(id: string, attachmentId: string): Promise<void> {
+    await api.delete(`/vault/items/${id}/attachments/${attachmentId}`)
+  }
+
+  async getSharedItems(): Promise<SharedItem[]> {
+    const response = await api.get('/vault/shared')
+    return response.data.data.shares
+  }
+
+  async acceptShare(shareId: string): Promise<SharedItem> {
+    const response = await api.post(`/vault/shared/${shareId}/accept`)
+    return response.data.data
+  }
+
+  async declineShare(shareId: string): Promise<void> {
+    await api.post(`/vault/shared/${shareId}/decline`)
+  }
+
+  async updateSharedItem(shareId: string, ciphertext: SharedCiphertext): Promise<SharedItem> {
+    const response = await api.put(`/vault/shared/${shareId}`, ciphertext)
+    return response.data.data
+  }
+
+  async getTrash(): Promise<{ items: VaultItem[]; count: number; retentionDays: number }> {
+    const response = await api.get('/vault/trash')
+    return response.data.data
+  }
+
+  async restoreVaultItem(id: string): Promise<VaultItem> {
+    const response = await api.post(`/vault/items/${id}/restore`)
+    return response.data.data
+  }
+
+  async purgeVaultItem(id: string): Promise<void> {
+    await api.delete(`/vault/trash/${id}`)
+  }
+
+  async emptyTrash(): Promise<{ purgedCount: number }> {
+    const response = await api.delete('/vault/trash')
+    return response.data.data
+  }
+
+  async updateTrashSettings(retentionDays: number): Promise<{ retentionDays: number }> {
+    const response = await api.put('/vault/trash/settings', { retentionDays })
+    return response.data.data
+  }
+
+  async exportVault(): Promise<{ version: string; exportedAt: string; items: VaultItem[] }> {
+    const response = await api.get('/vault/export')
+    return response.data.data
+  }
+
+  async importVault(items: CreateVaultItemRequest[]): Promise<{ importedCount: number; items: VaultItem[] }> {
+    const response = await api.post('/vault/import', { items })
+    return response.data.data
+  }
+
+  async updateSearchIndex(items: SearchIndexUpdate[]): Promise<{ indexedCount: number }> {
+    const response = await api.put('/vault/search-index', { items })
+    return response.data.data
+  }
+
+  async updateHealth(items: HealthUpdate[]): Promise<{ checkedCount: number }> {
+    const response = await api.put('/vault/health', { items })
+    return response.data.data
+  }
+
+  async setKeyPair(publicKey: string, encryptedPrivateKey: string): Promise<void> {
+    await api.put('/vault/keys/keypair', { publicKey, encryptedPrivateKey })
+  }
+
+  async getPublicKey(email: string): Promise<PublicKeyInfo> {
+    const response = await api.get(`/user/public-key?email=${encodeURIComponent(email)}`)
+    return response.data.data
+  }
+
+  async getVaultKeys(): Promise<VaultKeys> {
+    const response = await api.get('/vault/keys')
+    return response.data.data
+  }
+
+  async startMigration(request: StartMigrationRequest): Promise<LegacyVaultItem[]> {
+    const response = await api.post('/vault/migration', request)
+    return response.data.data.items
+  }
+
+  async completeMigration(items: MigratedVaultItem[]): Promise<{ migratedCount: number; remaining: number }> {
+    const response = await api.post('/vault/migration/complete', { items })
     return response.data.data
   }
 }
@@ -1,7 +1,9 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { User, AuthResponse, LoginCredentials, RegisterCredentials } from '@/types'
+import { User, AuthResponse, LoginCredentials, RegisterCredentials, TwoFactorMethod, KdfParams } from '@/types'
 import { authService } from '@/services/authService'
+import { useVaultStore } from '@/store/vaultStore'
+import { createVaultKeyMaterial, deriveMasterKey, deriveMasterPasswordHash, generateVaultKey } from '@/utils/vaultCrypto'
 import toast from 'react-hot-toast'
 
 interface AuthState {
@@ -11,10 +13,17 @@ interface AuthState {
   isAuthenticated: boolean
   isLoading: boolean
   error: string | null
+  twoFactorChallenge: string | null
+  twoFactorMethods: TwoFactorMethod[]
+  twoFactorKdf: KdfParams | null
 }
 
 interface AuthActions {
   login: (credentials: LoginCredentials) => Promise<void>
+  verifyTwoFactorLogin: (code: string) => Promise<void>
+  verifyDeviceLogin: (masterPassword: string) => Promise<void>
+  loginWithWebAuthn: () => Promise<void>
+  cancelTwoFactorLogin: () => void
   register: (credentials: RegisterCredentials) => Promise<void>
   logout: () => Promise<void>
   refreshAccessToken: () => Promise<void>
@@ -34,6 +43,9 @@ export const useAuthStore = create<AuthStore>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      twoFactorChallenge: null,
+      twoFactorMethods: [],
+      twoFactorKdf: null,
 
       // Actions
       login: async (credentials: LoginCredentials) => {
@@ -41,6 +53,18 @@ export const useAuthStore = create<AuthStore>()(
         
         try {
           const response = await authService.login(credentials)
+
+          // Password accepted, the server wants a second factor
+          if ('requiresTwoFactor' in response) {
+            set({
+              isLoading: false,
+              error: null,
+              twoFactorChallenge: response.challengeToken,
+              twoFactorMethods: response.methods,
+              twoFactorKdf: response.kdf ?? null,
+            })
+            return
+          }
           
           set({
             user: response.user,
@@ -49,6 +73,7 @@ export const useAuthStore = create<AuthStore>()(
             isAuthenticated: true,
             isLoading: false,
             error: null,
+            twoFactorChallenge: null,
           })
           
           toast.success('Login successful!')
@@ -61,17 +86,144 @@ export const useAuthStore = create<AuthStore>()(
             isAuthenticated: false,
             isLoading: false,
             error: errorMessage,
+            twoFactorChallenge: null,
+          })
+          toast.error(errorMessage)
+          throw error
+        }
+      },
+
+      verifyTwoFactorLogin: async (code: string) => {
+        const { twoFactorChallenge } = get()
+
+        if (!twoFactorChallenge) {
+          throw new Error('No two-factor challenge in progress')
+        }
+
+        set({ isLoading: true, error: null })
+
+        try {
+          const response = await authService.loginTwoFactor(twoFactorChallenge, code)
+
+          set({
+            user: response.user,
+            accessToken: response.accessToken,
+            refreshToken: response.refreshToken,
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+            twoFactorChallenge: null,
+          })
+
+          toast.success('Login successful!')
+        } catch (error: any) {
+          const errorMessage = error.response?.data?.message || error.message || 'Verification failed'
+          const code = error.response?.data?.code
+          // An expired or rejected challenge means starting over from the password step
+          const challengeInvalid = code === '2FA_CHALLENGE_EXPIRED' || code === 'INVALID_2FA_CHALLENGE'
+          set({
+            isLoading: false,
+            error: errorMessage,
+            twoFactorChallenge: challengeInvalid ? null : twoFactorChallenge,
           })
           toast.error(errorMessage)
           throw error
         }
       },
 
+      verifyDeviceLogin: async (masterPassword: string) => {
+        const { twoFactorChallenge, twoFactorKdf } = get()
+
+        if (!twoFactorChallenge) {
+          throw new Error('No device verification in progress')
+        }
+
+        set({ isLoading: true, error: null })
+
+        try {
+          // Only accounts not yet upgraded to client-side encryption send the master password itself
+          const proof = twoFactorKdf
+            ? { masterPasswordHash: await deriveMasterPasswordHash(await deriveMasterKey(masterPassword, twoFactorKdf), masterPassword) }
+            : { masterPassword }
+          const response = await authService.loginWithMasterPassword(twoFactorChallenge, proof)
+
+          set({
+            user: response.user,
+            accessToken: response.accessToken,
+            refreshToken: response.refreshToken,
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+            twoFactorChallenge: null,
+            twoFactorMethods: [],
+            twoFactorKdf: null,
+          })
+
+          toast.success('Device verified, login successful!')
+        } catch (error: any) {
+          const errorMessage = error.response?.data?.message || error.message || 'Device verification failed'
+          const code = error.response?.data?.code
+          const challengeInvalid = code === '2FA_CHALLENGE_EXPIRED' || code === 'INVALID_2FA_CHALLENGE'
+          set({
+            isLoading: false,
+            error: errorMessage,
+            twoFactorChallenge: challengeInvalid ? null : twoFactorChallenge,
+          })
+          toast.error(errorMessage)
+          throw error
+        }
+      },
+
+      loginWithWebAuthn: async () => {
+        // With a pending challenge the key is the second factor, otherwise a passwordless passkey login
+        const { twoFactorChallenge } = get()
+
+        set({ isLoading: true, error: null })
+
+        try {
+          const response = await authService.loginWithWebAuthn(twoFactorChallenge ?? undefined)
+
+          set({
+            user: response.user,
+            accessToken: response.accessToken,
+            refreshToken: response.refreshToken,
+            isAuthenticated: true,
+            isLoading: false,
+            error: null,
+            twoFactorChallenge: null,
+            twoFactorMethods: [],
+          })
+
+          toast.success('Login successful!')
+        } catch (error: any) {
+          const errorMessage = error.response?.data?.message || error.message || 'Security key verification failed'
+          const code = error.response?.data?.code
+          const challengeInvalid = code === '2FA_CHALLENGE_EXPIRED' || code === 'INVALID_2FA_CHALLENGE'
+          set({
+            isLoading: false,
+            error: errorMessage,
+            twoFactorChallenge: challengeInvalid ? null : twoFactorChallenge,
+          })
+          toast.error(errorMessage)
+          throw error
+        }
+      },
+
+      cancelTwoFactorLogin: () => {
+        set({ twoFactorChallenge: null, twoFactorMethods: [], twoFactorKdf: null, error: null })
+      },
+
       register: async (credentials: RegisterCredentials) => {
         set({ isLoading: true, error: null })
         
         try {
-          const response = await authService.register(credentials)
+          // The master password stays in the browser, only key material derived from it is sent
+          const keys = await createVaultKeyMaterial(credentials.masterPassword, await generateVaultKey())
+          const response = await authService.register({
+            email: credentials.email,
+            password: credentials.password,
+            ...keys,
+          })
           
           set({
             user: response.user,
@@ -107,6 +259,8 @@ export const useAuthStore = create<AuthStore>()(
           // Continue with logout even if API call fails
           console.error('Logout API call failed:', error)
         }
+
+        useVaultStore.getState().lock()
         
         set({
           user: null,
@@ -0,0 +1,375 @@
+import { create } from 'zustand'
+import {
+  Organization,
+  OrganizationRole,
+  OrganizationMember,
+  OrganizationCollection,
+  OrganizationItem,
+  CollectionAccess,
+  VaultItemType,
+  VaultItemData,
+} from '@/types'
+import { organizationService } from '@/services/organizationService'
+import { useVaultStore } from '@/store/vaultStore'
+import {
+  decryptSharedItem,
+  encryptSharedItem,
+  reencryptSharedItem,
+  rewrapSharedKey,
+} from '@/utils/vaultCrypto'
+import toast from 'react-hot-toast'
+
+interface OrganizationState {
+  organizations: Organization[]
+  currentOrganizationId: string | null
+  members: OrganizationMember[]
+  collections: OrganizationCollection[]
+  // Items of the current organization's collections the user belongs to, decrypted when possible
+  items: OrganizationItem[]
+  isLoading: boolean
+  error: string | null
+}
+
+interface OrganizationActions {
+  fetchOrganizations: () => Promise<void>
+  selectOrganization: (id: string | null) => Promise<void>
+  createOrganization: (name: string) => Promise<void>
+  deleteOrganization: (id: string) => Promise<void>
+  addMember: (email: string, role: OrganizationRole) => Promise<void>
+  updateMemberRole: (userId: string, role: OrganizationRole) => Promise<void>
+  removeMember: (userId: string) => Promise<void>
+  createCollection: (name: string) => Promise<void>
+  setCollectionAccess: (collectionId: string, access: CollectionAccess[]) => Promise<void>
+  deleteCollection: (collectionId: string) => Promise<void>
+  createItem: (collectionId: string, type: VaultItemType, data: VaultItemData) => Promise<void>
+  updateItem: (itemId: string, data: VaultItemData) => Promise<void>
+  deleteItem: (itemId: string) => Promise<void>
+  clearError: () => void
+}
+
+type OrganizationStore = OrganizationState & OrganizationActions
+
+/**
+ * The private key that opens shared data keys; it is only available while the vault is unlocked
+ */
+const requirePrivateKey = (): CryptoKey => {
+  const { privateKey } = useVaultStore.getState()
+  if (!privateKey) {
+    throw new Error('Unlock the vault first')
+  }
+  return privateKey
+}
+
+const requireOrganization = (id: string | null): string => {
+  if (!id) {
+    throw new Error('Select an organization first')
+  }
+  return id
+}
+
+/**
+ * Public keys of the users with access to a collection, to wrap a data key for each of them
+ */
+const getRecipients = (collection: OrganizationCollection, members: OrganizationMember[]) =>
+  collection.access.map((entry) => {
+    const member = members.find(candidate => candidate.userId === entry.userId)
+    if (!member?.publicKey) {
+      throw new Error(`${member?.email || 'A member'} has no public key to share with`)
+    }
+    return { userId: entry.userId, publicKey: member.publicKey }
+  })
+
+const decryptItems = async (items: OrganizationItem[]): Promise<OrganizationItem[]> => {
+  const { privateKey } = useVaultStore.getState()
+  if (!privateKey) {
+    return items
+  }
+
+  return Promise.all(items.map(async (item) => {
+    try {
+      return { ...item, decryptedData: await decryptSharedItem(item, privateKey) }
+    } catch (error) {
+      console.error('Failed to decrypt shared item:', item.id, error)
+      return item
+    }
+  }))
+}
+
+export const useOrganizationStore = create<OrganizationStore>((set, get) => ({
+  // Initial state
+  organizations: [],
+  currentOrganizationId: null,
+  members: [],
+  collections: [],
+  items: [],
+  isLoading: false,
+  error: null,
+
+  // Actions
+  fetchOrganizations: async () => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const organizations = await organizationService.getOrganizations()
+
+      set({
+        organizations,
+        isLoading: false,
+        error: null,
+      })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch organizations'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+    }
+  },
+
+  selectOrganization: async (id: string | null) => {
+    if (!id) {
+      set({ currentOrganizationId: null, members: [], collections: [], items: [] })
+      return
+    }
+
+    set({ currentOrganizationId: id, isLoading: true, error: null })
+
+    try {
+      const [members, collections, items] = await Promise.all([
+        organizationService.getMembers(id),
+        organizationService.getCollections(id),
+        organizationService.getItems(id),
+      ])
+
+      set({
+        members,
+        collections,
+        items: await decryptItems(items),
+        isLoading: false,
+        error: null,
+      })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to load organization'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+    }
+  },
+
+  createOrganization: async (name: string) => {
+    try {
+      await organizationService.createOrganization(name)
+      await get().fetchOrganizations()
+      toast.success('Organization created')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to create organization'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  deleteOrganization: async (id: string) => {
+    try {
+      await organizationService.deleteOrganization(id)
+      if (get().currentOrganizationId === id) {
+        await get().selectOrganization(null)
+      }
+      await get().fetchOrganizations()
+      toast.success('Organization deleted')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to delete organization'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  addMember: async (email: string, role: OrganizationRole) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      await organizationService.addMember(organizationId, email, role)
+
+      set({ members: await organizationService.getMembers(organizationId) })
+      toast.success(`${email} added. Give them access to collections to share items.`)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to add member'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  updateMemberRole: async (userId: string, role: OrganizationRole) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      await organizationService.updateMember(organizationId, userId, role)
+
+      set((state) => ({
+        members: state.members.map(member => member.userId === userId ? { ...member, role } : member),
+      }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to update member'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  removeMember: async (userId: string) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      await organizationService.removeMember(organizationId, userId)
+
+      set((state) => ({
+        members: state.members.filter(member => member.userId !== userId),
+        collections: state.collections.map(collection => ({
+          ...collection,
+          access: collection.access.filter(entry => entry.userId !== userId),
+        })),
+      }))
+
+      // Removing yourself means leaving, after which the organization is gone from the list
+      await get().fetchOrganizations()
+      if (!get().organizations.some(organization => organization.id === organizationId)) {
+        await get().selectOrganization(null)
+      }
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to remove member'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  createCollection: async (name: string) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      const collection = await organizationService.createCollection(organizationId, name)
+
+      set((state) => ({ collections: [...state.collections, collection] }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to create collection'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  setCollectionAccess: async (collectionId: string, access: CollectionAccess[]) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      const privateKey = requirePrivateKey()
+      const { collections, members, items } = get()
+      const collection = collections.find(candidate => candidate.id === collectionId)!
+
+      // Everyone newly given access needs their own copy of every item's data key
+      const added = access.filter(entry => !collection.access.some(current => current.userId === entry.userId))
+      const recipients = getRecipients({ ...collection, access: added }, members)
+      const keys = await Promise.all(
+        items
+          .filter(item => item.collectionId === collectionId)
+          .flatMap(item => recipients.map(async recipient => ({
+            itemId: item.id,
+            userId: recipient.userId,
+            encryptedDataKey: await rewrapSharedKey(item.encryptedDataKey, privateKey, recipient.publicKey),
+          })))
+      )
+
+      const updated = await organizationService.updateCollection(organizationId, collectionId, { access, keys })
+
+      set((state) => ({
+        collections: state.collections.map(candidate => candidate.id === collectionId ? updated : candidate),
+      }))
+      toast.success('Collection access updated')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to update collection access'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  deleteCollection: async (collectionId: string) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      await organizationService.deleteCollection(organizationId, collectionId)
+
+      set((state) => ({
+        collections: state.collections.filter(collection => collection.id !== collectionId),
+        items: state.items.filter(item => item.collectionId !== collectionId),
+      }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to delete collection'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  createItem: async (collectionId: string, type: VaultItemType, data: VaultItemData) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      requirePrivateKey()
+      const collection = get().collections.find(candidate => candidate.id === collectionId)!
+
+      const item = await organizationService.createItem(organizationId, {
+        collectionId,
+        type,
+        ...(await encryptSharedItem(data, getRecipients(collection, get().members))),
+      })
+
+      set((state) => ({ items: [{ ...item, decryptedData: data }, ...state.items] }))
+      toast.success('Item shared')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to create item'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  updateItem: async (itemId: string, data: VaultItemData) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      const privateKey = requirePrivateKey()
+      const item = get().items.find(candidate => candidate.id === itemId)!
+
+      const updated = await organizationService.updateItem(
+        organizationId,
+        itemId,
+        await reencryptSharedItem(data, item.encryptedDataKey, privateKey)
+      )
+
+      set((state) => ({
+        items: state.items.map(candidate => candidate.id === itemId ? { ...updated, decryptedData: data } : candidate),
+      }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to update item'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  deleteItem: async (itemId: string) => {
+    try {
+      const organizationId = requireOrganization(get().currentOrganizationId)
+      await organizationService.deleteItem(organizationId, itemId)
+
+      set((state) => ({ items: state.items.filter(item => item.id !== itemId) }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to delete item'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  clearError: () => {
+    set({ error: null })
+  },
+}))
@@ -1,5 +1,13 @@
 import { create } from 'zustand'
-import { SecurityFeature, SecurityDirection, SecurityDashboard, PasswordStrengthAnalysis, BreachCheck } from '@/types'
+import {
+  SecurityFeature,
+  SecurityDirection,
+  SecurityDashboard,
+  PasswordStrengthAnalysis,
+  BreachCheck,
+  WebAuthnCredential,
+  GeneratorSettings,
+} from '@/types'
 import { securityService } from '@/services/securityService'
 import toast from 'react-hot-toast'
 
@@ -9,6 +17,10 @@ interface SecurityState {
   isLoading: boolean
   error: string | null
   selectedFeature: SecurityFeature | null
+  recoveryCodesRemaining: number | null
+  webAuthnCredentials: WebAuthnCredential[]
+  // Null until loaded; the generator falls back to its defaults meanwhile
+  generatorSettings: GeneratorSettings | null
 }
 
 interface SecurityActions {
@@ -16,10 +28,17 @@ interface SecurityActions {
   fetchDashboard: () => Promise<void>
   updateFeature: (direction: SecurityDirection, updates: Partial<SecurityFeature>) => Promise<void>
   enableTwoFactor: () => Promise<any>
-  verifyTwoFactor: (token: string) => Promise<void>
+  verifyTwoFactor: (token: string) => Promise<string[]>
   disableTwoFactor: () => Promise<void>
+  fetchRecoveryCodeCount: () => Promise<void>
+  regenerateRecoveryCodes: (token: string) => Promise<string[]>
+  fetchWebAuthnCredentials: () => Promise<void>
+  registerWebAuthnCredential: (name: string, authenticatorAttachment?: 'platform' | 'cross-platform') => Promise<string[] | undefined>
+  removeWebAuthnCredential: (id: string) => Promise<void>
   analyzePasswordStrength: (password: string) => Promise<PasswordStrengthAnalysis>
   checkPasswordBreach: (password: string) => Promise<BreachCheck>
+  fetchGeneratorSettings: () => Promise<void>
+  saveGeneratorSettings: (settings: GeneratorSettings) => Promise<void>
   enableVaultEncryption: (algorithm?: 'aes' | 'xchacha') => Promise<void>
   enableWatchtowerAI: () => Promise<void>
   setSelectedFeature: (feature: SecurityFeature | null) => void
@@ -35,6 +54,9 @@ export const useSecurityStore = create<SecurityStore>((set, get) => ({
   isLoading: false,
   error: null,
   selectedFeature: null,
+  recoveryCodesRemaining: null,
+  webAuthnCredentials: [],
+  generatorSettings: null,
 
   // Actions
   fetchFeatures: async () => {
@@ -143,17 +165,19 @@ export const useSecurityStore = create<SecurityStore>((set, get) => ({
     set({ isLoading: true, error: null })
     
     try {
-      await securityService.verifyTwoFactor(token)
+      const recoveryCodes = await securityService.verifyTwoFactor(token)
       
       set({
         isLoading: false,
         error: null,
+        recoveryCodesRemaining: recoveryCodes.length,
       })
       
       toast.success('Two-factor authentication verified successfully!')
       
       // Refresh features to get updated 2FA status
       await get().fetchFeatures()
+      return recoveryCodes
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || error.message || 'Failed to verify two-factor authentication'
       set({
@@ -174,6 +198,7 @@ export const useSecurityStore = create<SecurityStore>((set, get) => ({
       set({
         isLoading: false,
         error: null,
+        recoveryCodesRemaining: null,
       })
       
       toast.success('Two-factor authentication disabled successfully!')
@@ -191,6 +216,107 @@ export const useSecurityStore = create<SecurityStore>((set, get) => ({
     }
   },
 
+  fetchRecoveryCodeCount: async () => {
+    try {
+      const remaining = await securityService.getRecoveryCodeCount()
+      set({ recoveryCodesRemaining: remaining })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch recovery codes'
+      set({ error: errorMessage })
+    }
+  },
+
+  regenerateRecoveryCodes: async (token: string) => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const recoveryCodes = await securityService.regenerateRecoveryCodes(token)
+
+      set({
+        isLoading: false,
+        error: null,
+        recoveryCodesRemaining: recoveryCodes.length,
+      })
+
+      toast.success('New recovery codes generated!')
+      return recoveryCodes
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to regenerate recovery codes'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  fetchWebAuthnCredentials: async () => {
+    try {
+      const credentials = await securityService.getWebAuthnCredentials()
+      set({ webAuthnCredentials: credentials })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch security keys'
+      set({ error: errorMessage })
+    }
+  },
+
+  registerWebAuthnCredential: async (name: string, authenticatorAttachment?: 'platform' | 'cross-platform') => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const { credential, recoveryCodes } = await securityService.registerWebAuthnCredential(name, authenticatorAttachment)
+
+      set((state) => ({
+        webAuthnCredentials: [credential, ...state.webAuthnCredentials],
+        recoveryCodesRemaining: recoveryCodes ? recoveryCodes.length : state.recoveryCodesRemaining,
+        isLoading: false,
+        error: null,
+      }))
+
+      toast.success('Security key registered!')
+
+      // Refresh dashboard to get updated MFA and biometric scores
+      await get().fetchDashboard()
+      return recoveryCodes
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to register security key'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  removeWebAuthnCredential: async (id: string) => {
+    set({ isLoading: true, error: null })
+
+    try {
+      await securityService.deleteWebAuthnCredential(id)
+
+      set((state) => ({
+        webAuthnCredentials: state.webAuthnCredentials.filter((credential) => credential.id !== id),
+        isLoading: false,
+        error: null,
+      }))
+
+      toast.success('Security key removed')
+
+      // Refresh dashboard to get updated MFA and biometric scores
+      await get().fetchDashboard()
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to remove security key'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
   analyzePasswordStrength: async (password: string) => {
     set({ isLoading: true, error: null })
     
@@ -237,6 +363,30 @@ export const useSecurityStore = create<SecurityStore>((set, get) => ({
     }
   },
 
+  fetchGeneratorSettings: async () => {
+    try {
+      set({ generatorSettings: await securityService.getGeneratorSettings() })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch generator settings'
+      // The defaults still work, so this stays quiet
+      set({ error: errorMessage })
+    }
+  },
+
+  saveGeneratorSettings: async (settings: GeneratorSettings) => {
+    // Applied right away so the generator does not wait on the round trip
+    set({ generatorSettings: settings })
+
+    try {
+      set({ generatorSettings: await securityService.updateGeneratorSettings(settings) })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to save generator settings'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
   enableVaultEncryption: async (algorithm: 'aes' | 'xchacha' = 'aes') => {
     set({ isLoading: true, error: null })
     
@@ -0,0 +1,171 @@
+import { create } from 'zustand'
+import { Send } from '@/types'
+import { sendService } from '@/services/sendService'
+import { useVaultStore } from '@/store/vaultStore'
+import { decryptText, encryptSend, encryptText, openSendKey, SendContent } from '@/utils/vaultCrypto'
+import toast from 'react-hot-toast'
+
+interface NewSend {
+  name: string
+  content: SendContent
+  password?: string
+  maxViews?: number | null
+  expiresAt: Date
+}
+
+interface SendUpdates {
+  password?: string | null
+  maxViews?: number | null
+  expiresAt?: Date
+  disabled?: boolean
+}
+
+interface SendState {
+  // Decrypted names and links are attached while the vault is unlocked
+  sends: Send[]
+  isLoading: boolean
+  error: string | null
+}
+
+interface SendActions {
+  fetchSends: () => Promise<void>
+  // Resolves to the link to hand out
+  createSend: (send: NewSend) => Promise<string>
+  updateSend: (id: string, updates: SendUpdates) => Promise<void>
+  deleteSend: (id: string) => Promise<void>
+  clearError: () => void
+}
+
+type SendStore = SendState & SendActions
+
+const requireVaultKey = (): CryptoKey => {
+  const { vaultKey } = useVaultStore.getState()
+  if (!vaultKey) {
+    throw new Error('Unlock the vault first')
+  }
+  return vaultKey
+}
+
+/**
+ * The key goes in the fragment, which browsers never send to the server
+ */
+const getSendLink = (accessId: string, key: string) =>
+  `${window.location.origin}/send/${accessId}#${key}`
+
+const decryptSends = (sends: Send[], vaultKey: CryptoKey | null): Promise<Send[]> =>
+  Promise.all(sends.map(async (send) => {
+    if (!vaultKey) {
+      return send
+    }
+    try {
+      return {
+        ...send,
+        name: await decryptText(send.encryptedName, vaultKey),
+        link: getSendLink(send.accessId, await openSendKey(send.encryptedKey, vaultKey)),
+      }
+    } catch (error) {
+      console.error('Failed to decrypt send:', send.id, error)
+      return send
+    }
+  }))
+
+export const useSendStore = create<SendStore>((set) => ({
+  // Initial state
+  sends: [],
+  isLoading: false,
+  error: null,
+
+  // Actions
+  fetchSends: async () => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const sends = await sendService.getSends()
+
+      set({
+        sends: await decryptSends(sends, useVaultStore.getState().vaultKey),
+        isLoading: false,
+        error: null,
+      })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch sends'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+    }
+  },
+
+  createSend: async ({ name, content, password, maxViews, expiresAt }: NewSend) => {
+    try {
+      const vaultKey = requireVaultKey()
+      const { send, key } = await encryptSend(content, vaultKey)
+      const created = await sendService.createSend({
+        ...send,
+        encryptedName: await encryptText(name, vaultKey),
+        password: password || undefined,
+        maxViews,
+        expiresAt: expiresAt.toISOString(),
+      })
+      const link = getSendLink(created.accessId, key)
+
+      set((state) => ({
+        sends: [{ ...created, name, link }, ...state.sends],
+        error: null,
+      }))
+
+      toast.success('Send created')
+      return link
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to create send'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  updateSend: async (id: string, { expiresAt, ...updates }: SendUpdates) => {
+    try {
+      const updated = await sendService.updateSend(id, {
+        ...updates,
+        expiresAt: expiresAt?.toISOString(),
+      })
+      const [response] = await decryptSends([updated], useVaultStore.getState().vaultKey)
+
+      set((state) => ({
+        sends: state.sends.map(send => send.id === id ? response : send),
+        error: null,
+      }))
+
+      toast.success('Send updated')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to update send'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  deleteSend: async (id: string) => {
+    try {
+      await sendService.deleteSend(id)
+
+      set((state) => ({
+        sends: state.sends.filter(send => send.id !== id),
+        error: null,
+      }))
+
+      toast.success('Send deleted')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to delete send'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  clearError: () => {
+    set({ error: null })
+  },
+}))
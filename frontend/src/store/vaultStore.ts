@@ -1,69 +1,564 @@
 import { create } from 'zustand'
-import { VaultItem, VaultItemType, VaultItemData } from '@/types'
+import {
+  VaultItem,
+  VaultItemRevision,
+  SharedItem,
+  ItemShare,
+  SharePermission,
+  PublicKeyInfo,
+  Attachment,
+  Folder,
+  FolderDeletePolicy,
+  VaultItemType,
+  VaultItemData,
+  VaultExport,
+  KdfParams,
+  VaultKeys,
+  VaultSortField,
+  SortOrder,
+  WatchtowerReport,
+} from '@/types'
 import { vaultService } from '@/services/vaultService'
+import { authService } from '@/services/authService'
+import { securityService } from '@/services/securityService'
+import {
+  AttachmentKey,
+  createVaultKeyMaterial,
+  decryptAttachment,
+  decryptAttachmentName,
+  decryptItem,
+  deriveMasterKey,
+  deriveMasterPasswordHash,
+  deriveSearchKey,
+  deriveHealthKey,
+  decryptText,
+  encryptAttachment,
+  encryptItem,
+  encryptItemForShares,
+  encryptText,
+  decryptSharedItem,
+  generateKeyPair,
+  generateVaultKey,
+  reencryptSharedItem,
+  rewrapAttachmentKeys,
+  ShareRecipient,
+  unwrapPrivateKey,
+  unwrapVaultKey,
+  wrapItemKeyFor,
+  wrapVaultKey,
+} from '@/utils/vaultCrypto'
+import { createQueryTokens, createSearchIndex, SEARCH_INDEX_VERSION } from '@/utils/vaultSearch'
+import { BreachChecker, createBreachChecker, createItemHealth } from '@/utils/vaultHealth'
 import toast from 'react-hot-toast'
 
+const PAGE_SIZE = 50
+// The largest page the server serves, for walking the whole vault
+const SCAN_PAGE_SIZE = 200
+
+interface NewVaultItem {
+  type: VaultItemType
+  data: VaultItemData
+  tags?: string[]
+  favorite?: boolean
+  folderId?: string | null
+}
+
+interface VaultItemUpdates {
+  data?: VaultItemData
+  tags?: string[]
+  favorite?: boolean
+}
+
 interface VaultState {
+  // Held in memory only, never persisted
+  vaultKey: CryptoKey | null
+  searchKey: CryptoKey | null
+  // Keys the password hashes Watchtower compares to find reuse
+  healthKey: CryptoKey | null
+  // Opens data keys others shared with this user; null until a keypair could be opened
+  privateKey: CryptoKey | null
+  // The matching public key as published, for showing its fingerprint
+  publicKey: string | null
   items: VaultItem[]
+  // Cursor for the page after the loaded items; null once the last page is in
+  nextCursor: string | null
+  hasMore: boolean
   isLoading: boolean
+  isLoadingMore: boolean
+  trashItems: VaultItem[]
+  folders: Folder[]
+  // Folder the list is narrowed to: null for every item, 'none' for items outside any folder
+  selectedFolderId: string | null
+  // Earlier payloads of the item whose history is open, newest first
+  revisions: VaultItemRevision[]
+  // Kept apart from isLoading so the history modal stays open while it loads
+  isLoadingRevisions: boolean
+  // Items other users shared with this one, pending or accepted
+  sharedItems: SharedItem[]
+  // Who the item whose sharing dialog is open is shared with
+  itemShares: ItemShare[]
+  // Files on the item whose attachments dialog is open
+  attachments: Attachment[]
+  trashRetentionDays: number
   error: string | null
   selectedItem: VaultItem | null
   searchQuery: string
   selectedType: VaultItemType | null
   selectedTags: string[]
   showFavoritesOnly: boolean
+  sortBy: VaultSortField
+  sortOrder: SortOrder
+  watchtowerReport: WatchtowerReport | null
+  isScanningHealth: boolean
 }
 
 interface VaultActions {
+  unlock: (masterPassword: string) => Promise<void>
+  lock: () => void
+  changeMasterPassword: (currentMasterPassword: string, newMasterPassword: string) => Promise<void>
   fetchItems: () => Promise<void>
-  getItem: (id: string, masterPassword: string) => Promise<VaultItem | null>
-  createItem: (item: Partial<VaultItem>, masterPassword: string) => Promise<void>
-  updateItem: (id: string, updates: Partial<VaultItem>, masterPassword: string) => Promise<void>
+  fetchMoreItems: () => Promise<void>
+  getItem: (id: string) => Promise<VaultItem | null>
+  createItem: (item: NewVaultItem) => Promise<void>
+  updateItem: (id: string, updates: VaultItemUpdates) => Promise<void>
   deleteItem: (id: string) => Promise<void>
+  fetchFolders: () => Promise<void>
+  createFolder: (name: string, parentId?: string | null) => Promise<void>
+  renameFolder: (id: string, name: string) => Promise<void>
+  moveFolder: (id: string, parentId: string | null) => Promise<void>
+  deleteFolder: (id: string, policy: FolderDeletePolicy) => Promise<void>
+  moveItemToFolder: (itemId: string, folderId: string | null) => Promise<void>
+  setSelectedFolder: (folderId: string | null) => void
+  fetchRevisions: (id: string) => Promise<void>
+  restoreRevision: (id: string, revision: number) => Promise<void>
+  fetchSharedItems: () => Promise<void>
+  acceptShare: (shareId: string) => Promise<void>
+  declineShare: (shareId: string) => Promise<void>
+  updateSharedItem: (shareId: string, data: VaultItemData) => Promise<void>
+  fetchShares: (itemId: string) => Promise<void>
+  shareItem: (itemId: string, recipient: PublicKeyInfo, permission: SharePermission) => Promise<void>
+  revokeShare: (itemId: string, shareId: string) => Promise<void>
+  fetchAttachments: (itemId: string) => Promise<void>
+  uploadAttachment: (itemId: string, file: File) => Promise<void>
+  downloadAttachment: (itemId: string, attachmentId: string) => Promise<{ fileName: string; data: Uint8Array }>
+  deleteAttachment: (itemId: string, attachmentId: string) => Promise<void>
+  fetchTrash: () => Promise<void>
+  restoreItem: (id: string) => Promise<void>
+  purgeItem: (id: string) => Promise<void>
+  emptyTrash: () => Promise<void>
+  setTrashRetention: (days: number) => Promise<void>
   setSelectedItem: (item: VaultItem | null) => void
   setSearchQuery: (query: string) => void
   setSelectedType: (type: VaultItemType | null) => void
   setSelectedTags: (tags: string[]) => void
   setShowFavoritesOnly: (show: boolean) => void
+  setSort: (sortBy: VaultSortField, sortOrder: SortOrder) => void
   clearError: () => void
-  exportVault: (masterPassword: string) => Promise<any>
-  importVault: (importData: any, masterPassword: string) => Promise<void>
+  exportVault: () => Promise<VaultExport>
+  importVault: (importData: VaultExport) => Promise<void>
+  fetchWatchtowerReport: () => Promise<void>
+  scanVaultHealth: () => Promise<void>
+  setWatchtowerPasswordAge: (days: number) => Promise<void>
 }
 
 type VaultStore = VaultState & VaultActions
 
+/**
+ * Derive the master key, open the vault key and finish any migration from server-side encryption
+ * Legacy items are decrypted by the server one last time and re-encrypted here. Vault keys
+ * wrapped under outdated KDF parameters are then re-wrapped under the ones the server offers.
+ */
+const openVault = async (masterPassword: string): Promise<{
+  vaultKey: CryptoKey
+  privateKey: CryptoKey | null
+  publicKey: string | null
+  masterPasswordHash: string
+  kdf: KdfParams
+}> => {
+  const keys = await vaultService.getVaultKeys()
+  const masterKey = await deriveMasterKey(masterPassword, keys.kdf)
+  const masterPasswordHash = await deriveMasterPasswordHash(masterKey, masterPassword)
+
+  const vaultKey = keys.encryptedVaultKey
+    ? await unwrapVaultKey(keys.encryptedVaultKey, masterKey)
+    : await generateVaultKey()
+
+  if (!keys.zeroKnowledge || keys.legacyItemCount > 0) {
+    const legacyItems = await vaultService.startMigration({
+      masterPassword,
+      masterPasswordHash,
+      encryptedVaultKey: keys.encryptedVaultKey ? undefined : await wrapVaultKey(vaultKey, masterKey),
+    })
+
+    if (legacyItems.length > 0) {
+      const searchKey = await deriveSearchKey(vaultKey)
+      await vaultService.completeMigration(await Promise.all(
+        legacyItems.map(async (item) => ({
+          id: item.id,
+          ...(await encryptItem(item.data, vaultKey)),
+          ...(await createSearchIndex(item.data, searchKey)),
+        }))
+      ))
+      toast.success(`${legacyItems.length} vault items upgraded to client-side encryption`)
+    }
+  }
+
+  const { privateKey, publicKey } = await openKeyPair(keys, vaultKey)
+
+  if (keys.kdfUpgrade) {
+    try {
+      const upgraded = await createVaultKeyMaterial(masterPassword, vaultKey, keys.kdfUpgrade)
+      await authService.changeMasterPassword({
+        currentMasterPasswordHash: masterPasswordHash,
+        newMasterPasswordHash: upgraded.masterPasswordHash,
+        masterKeySalt: upgraded.masterKeySalt,
+        encryptedVaultKey: upgraded.encryptedVaultKey,
+        kdf: upgraded.kdf,
+      })
+
+      return {
+        vaultKey,
+        privateKey,
+        publicKey,
+        masterPasswordHash: upgraded.masterPasswordHash,
+        kdf: { ...upgraded.kdf, salt: upgraded.masterKeySalt },
+      }
+    } catch (error) {
+      // The old parameters still open the vault, so try again on the next unlock
+      console.error('Failed to upgrade key derivation:', error)
+    }
+  }
+
+  return { vaultKey, privateKey, publicKey, masterPasswordHash, kdf: keys.kdf }
+}
+
+/**
+ * Open the keypair for shared items, publishing a new one the first time
+ * Sharing stays unavailable if this fails, but the vault itself still opens.
+ */
+const openKeyPair = async (keys: VaultKeys, vaultKey: CryptoKey): Promise<{
+  privateKey: CryptoKey | null
+  publicKey: string | null
+}> => {
+  try {
+    if (keys.encryptedPrivateKey) {
+      return {
+        privateKey: await unwrapPrivateKey(keys.encryptedPrivateKey, vaultKey),
+        publicKey: keys.publicKey,
+      }
+    }
+
+    const keyPair = await generateKeyPair(vaultKey)
+    await vaultService.setKeyPair(keyPair.publicKey, keyPair.encryptedPrivateKey)
+    return { privateKey: keyPair.privateKey, publicKey: keyPair.publicKey }
+  } catch (error) {
+    console.error('Failed to open the sharing keypair:', error)
+    return { privateKey: null, publicKey: null }
+  }
+}
+
+const requireKey = (key: CryptoKey | null): CryptoKey => {
+  if (!key) {
+    throw new Error('Unlock the vault first')
+  }
+  return key
+}
+
+type DecryptableItem = Pick<VaultItem, 'id' | 'encryptedData' | 'encryptedDataKey' | 'iv' | 'tag' | 'decryptedData'> & {
+  clientEncrypted?: boolean
+}
+
+/**
+ * Attach decrypted data to items, leaving any that cannot be opened encrypted
+ */
+const decryptItems = <T extends DecryptableItem>(items: T[], vaultKey: CryptoKey | null): Promise<T[]> =>
+  Promise.all(items.map(async (item) => {
+    if (!vaultKey || item.clientEncrypted === false) {
+      return item
+    }
+    try {
+      return { ...item, decryptedData: await decryptItem(item, vaultKey) }
+    } catch (error) {
+      console.error('Failed to decrypt vault item:', item.id, error)
+      return item
+    }
+  }))
+
+/**
+ * Attach decrypted data to accepted shares, leaving pending ones and any that cannot be opened as they are
+ */
+const decryptSharedItems = (shares: SharedItem[], privateKey: CryptoKey | null): Promise<SharedItem[]> =>
+  Promise.all(shares.map(async (share) => {
+    const { encryptedData, encryptedDataKey, iv, tag } = share
+    if (!privateKey || !encryptedData || !encryptedDataKey || !iv || !tag) {
+      return share
+    }
+    try {
+      return { ...share, decryptedData: await decryptSharedItem({ encryptedData, encryptedDataKey, iv, tag }, privateKey) }
+    } catch (error) {
+      console.error('Failed to decrypt shared item:', share.id, error)
+      return share
+    }
+  }))
+
+/**
+ * Public keys of everyone an item is shared with, for wrapping a new data key
+ */
+const getShareRecipients = async (itemId: string, revokedShareId?: string): Promise<ShareRecipient[]> => {
+  const shares = await vaultService.getItemShares(itemId)
+
+  return shares
+    .filter(share => share.id !== revokedShareId)
+    .map((share) => {
+      if (!share.publicKey) {
+        throw new Error(`${share.email} no longer has a sharing key; revoke their access first`)
+      }
+      return { shareId: share.id, publicKey: share.publicKey }
+    })
+}
+
+/**
+ * Attachment keys re-wrapped for an item moving to another data key, if it has any attachments
+ */
+const getAttachmentKeys = async (
+  item: VaultItem | undefined,
+  encryptedDataKey: string,
+  vaultKey: CryptoKey
+): Promise<AttachmentKey[] | undefined> => {
+  if (!item || item.attachmentCount === 0) {
+    return undefined
+  }
+  return rewrapAttachmentKeys(await vaultService.getAttachments(item.id), item.encryptedDataKey, encryptedDataKey, vaultKey)
+}
+
+/**
+ * Decrypt attachment names, falling back to a placeholder for any that cannot be opened
+ */
+const decryptAttachmentNames = (attachments: Attachment[], item: VaultItem, vaultKey: CryptoKey): Promise<Attachment[]> =>
+  Promise.all(attachments.map(async (attachment) => {
+    try {
+      return { ...attachment, fileName: await decryptAttachmentName(attachment, item.encryptedDataKey, vaultKey) }
+    } catch (error) {
+      console.error('Failed to decrypt attachment name:', attachment.id, error)
+      return { ...attachment, fileName: 'Encrypted file' }
+    }
+  }))
+
+/**
+ * Decrypt folder names, falling back to a placeholder for any that cannot be opened
+ */
+const decryptFolders = (folders: Folder[], vaultKey: CryptoKey): Promise<Folder[]> =>
+  Promise.all(folders.map(async (folder) => {
+    try {
+      return { ...folder, name: await decryptText(folder.encryptedName, vaultKey) }
+    } catch (error) {
+      console.error('Failed to decrypt folder name:', folder.id, error)
+      return { ...folder, name: 'Unnamed folder' }
+    }
+  }))
+
+/**
+ * Filters and sort order for the item list
+ * The query itself never leaves the browser, only its blind tokens.
+ */
+const getListQuery = async (state: VaultState, cursor: string | null = null) => {
+  const { searchKey, searchQuery } = state
+
+  return {
+    filters: {
+      type: state.selectedType ?? undefined,
+      tags: state.selectedTags,
+      favorite: state.showFavoritesOnly ? true : undefined,
+      folderId: state.selectedFolderId ?? undefined,
+      searchTokens: searchKey && searchQuery ? await createQueryTokens(searchQuery, searchKey) : undefined,
+    },
+    page: {
+      limit: PAGE_SIZE,
+      cursor,
+      sortBy: state.sortBy,
+      sortOrder: state.sortOrder,
+    },
+  }
+}
+
+/**
+ * Rebuild the search tokens of items indexed before search existed or under an older version
+ */
+const indexStaleItems = async (items: VaultItem[], searchKey: CryptoKey): Promise<void> => {
+  const stale = items.filter(item => item.decryptedData && item.searchIndexVersion !== SEARCH_INDEX_VERSION)
+
+  for (let i = 0; i < stale.length; i += 1000) {
+    await vaultService.updateSearchIndex(await Promise.all(
+      stale.slice(i, i + 1000).map(async (item) => ({
+        id: item.id,
+        ...(await createSearchIndex(item.decryptedData!, searchKey)),
+      }))
+    ))
+  }
+}
+
+const newBreachChecker = (): BreachChecker =>
+  createBreachChecker((prefix) => securityService.getBreachRange(prefix))
+
+/**
+ * Watchtower health to send along with a login's new ciphertext
+ */
+const getItemHealth = async (type: VaultItemType | undefined, data: VaultItemData, healthKey: CryptoKey | null) =>
+  type === VaultItemType.LOGIN && healthKey
+    ? { health: await createItemHealth(data, healthKey, newBreachChecker()) }
+    : {}
+
 export const useVaultStore = create<VaultStore>((set, get) => ({
   // Initial state
+  vaultKey: null,
+  searchKey: null,
+  healthKey: null,
+  privateKey: null,
+  publicKey: null,
   items: [],
+  nextCursor: null,
+  hasMore: false,
   isLoading: false,
+  isLoadingMore: false,
+  trashItems: [],
+  trashRetentionDays: 30,
+  folders: [],
+  selectedFolderId: null,
+  revisions: [],
+  isLoadingRevisions: false,
+  sharedItems: [],
+  itemShares: [],
+  attachments: [],
   error: null,
   selectedItem: null,
   searchQuery: '',
   selectedType: null,
   selectedTags: [],
   showFavoritesOnly: false,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  watchtowerReport: null,
+  isScanningHealth: false,
 
   // Actions
+  unlock: async (masterPassword: string) => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const { vaultKey, privateKey, publicKey } = await openVault(masterPassword)
+
+      set({
+        vaultKey,
+        privateKey,
+        publicKey,
+        searchKey: await deriveSearchKey(vaultKey),
+        healthKey: await deriveHealthKey(vaultKey),
+        isLoading: false,
+        error: null,
+      })
+
+      await Promise.all([get().fetchItems(), get().fetchFolders(), get().fetchSharedItems()])
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to unlock vault'
+      set({
+        vaultKey: null,
+        searchKey: null,
+        healthKey: null,
+        privateKey: null,
+        publicKey: null,
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  lock: () => {
+    set({
+      vaultKey: null,
+      searchKey: null,
+      healthKey: null,
+      privateKey: null,
+      publicKey: null,
+      items: [],
+      nextCursor: null,
+      hasMore: false,
+      trashItems: [],
+      folders: [],
+      selectedFolderId: null,
+      revisions: [],
+      sharedItems: [],
+      itemShares: [],
+      attachments: [],
+      selectedItem: null,
+      watchtowerReport: null,
+    })
+  },
+
+  changeMasterPassword: async (currentMasterPassword: string, newMasterPassword: string) => {
+    set({ isLoading: true, error: null })
+
+    try {
+      // Only the vault key is re-wrapped; item data keys stay under the same vault key
+      const { vaultKey, privateKey, publicKey, masterPasswordHash } = await openVault(currentMasterPassword)
+      const keys = await createVaultKeyMaterial(newMasterPassword, vaultKey)
+
+      await authService.changeMasterPassword({
+        currentMasterPasswordHash: masterPasswordHash,
+        newMasterPasswordHash: keys.masterPasswordHash,
+        masterKeySalt: keys.masterKeySalt,
+        encryptedVaultKey: keys.encryptedVaultKey,
+        kdf: keys.kdf,
+      })
+
+      set({
+        vaultKey,
+        privateKey,
+        publicKey,
+        searchKey: await deriveSearchKey(vaultKey),
+        healthKey: await deriveHealthKey(vaultKey),
+        isLoading: false,
+        error: null,
+      })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to change master password'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      throw error
+    }
+  },
+
   fetchItems: async () => {
     set({ isLoading: true, error: null })
     
     try {
-      const response = await vaultService.getVaultItems({
-        type: get().selectedType,
-        tags: get().selectedTags,
-        favorite: get().showFavoritesOnly ? true : undefined,
-        search: get().searchQuery,
-      })
+      const { filters, page } = await getListQuery(get())
+      const response = await vaultService.getVaultItems(filters, page)
+      const items = await decryptItems(response.items, get().vaultKey)
       
       set({
-        items: response.items,
+        items,
+        nextCursor: response.nextCursor,
+        hasMore: response.hasMore,
         isLoading: false,
         error: null,
       })
+
+      const { searchKey } = get()
+      if (searchKey) {
+        indexStaleItems(items, searchKey).catch((error) => {
+          console.error('Failed to update search index:', error)
+        })
+      }
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch vault items'
       set({
         items: [],
+        nextCursor: null,
+        hasMore: false,
         isLoading: false,
         error: errorMessage,
       })
@@ -71,11 +566,56 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
     }
   },
 
-  getItem: async (id: string, masterPassword: string) => {
+  fetchMoreItems: async () => {
+    const { nextCursor, hasMore, isLoading, isLoadingMore } = get()
+    if (!nextCursor || !hasMore || isLoading || isLoadingMore) {
+      return
+    }
+
+    set({ isLoadingMore: true, error: null })
+
+    try {
+      const { filters, page } = await getListQuery(get(), nextCursor)
+      const response = await vaultService.getVaultItems(filters, page)
+      const items = await decryptItems(response.items, get().vaultKey)
+
+      // The list was reloaded with other filters while this page was in flight
+      if (get().nextCursor !== nextCursor) {
+        set({ isLoadingMore: false })
+        return
+      }
+
+      set((state) => ({
+        items: [...state.items, ...items],
+        nextCursor: response.nextCursor,
+        hasMore: response.hasMore,
+        isLoadingMore: false,
+        error: null,
+      }))
+
+      const { searchKey } = get()
+      if (searchKey) {
+        indexStaleItems(items, searchKey).catch((error) => {
+          console.error('Failed to update search index:', error)
+        })
+      }
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch vault items'
+      set({
+        isLoadingMore: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+    }
+  },
+
+  getItem: async (id: string) => {
     set({ isLoading: true, error: null })
     
     try {
-      const response = await vaultService.getVaultItem(id, masterPassword)
+      const vaultKey = requireKey(get().vaultKey)
+      const item = await vaultService.getVaultItem(id)
+      const response = { ...item, decryptedData: await decryptItem(item, vaultKey) }
       
       set({
         selectedItem: response,
@@ -96,17 +636,24 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
     }
   },
 
-  createItem: async (item: Partial<VaultItem>, masterPassword: string) => {
+  createItem: async (item: NewVaultItem) => {
     set({ isLoading: true, error: null })
     
     try {
+      const vaultKey = requireKey(get().vaultKey)
+      const searchKey = requireKey(get().searchKey)
       const response = await vaultService.createVaultItem({
-        ...item,
-        masterPassword,
-      } as any)
+        type: item.type,
+        tags: item.tags || [],
+        favorite: item.favorite || false,
+        folderId: item.folderId ?? null,
+        ...(await encryptItem(item.data, vaultKey)),
+        ...(await createSearchIndex(item.data, searchKey)),
+        ...(await getItemHealth(item.type, item.data, get().healthKey)),
+      })
       
       set((state) => ({
-        items: [response, ...state.items],
+        items: [{ ...response, decryptedData: item.data }, ...state.items],
         isLoading: false,
         error: null,
       }))
@@ -123,14 +670,27 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
     }
   },
 
-  updateItem: async (id: string, updates: Partial<VaultItem>, masterPassword: string) => {
+  updateItem: async (id: string, updates: VaultItemUpdates) => {
     set({ isLoading: true, error: null })
     
     try {
-      const response = await vaultService.updateVaultItem(id, {
-        ...updates,
-        masterPassword,
-      } as any)
+      const vaultKey = requireKey(get().vaultKey)
+      const searchKey = requireKey(get().searchKey)
+      const { data, ...fields } = updates
+      const item = get().items.find(candidate => candidate.id === id)
+      // A new data key has to reach everyone the item is shared with, and wrap its attachment keys
+      const isShared = (item?.shareCount ?? 0) > 0
+      const encrypted = data && (isShared
+        ? await encryptItemForShares(data, vaultKey, await getShareRecipients(id))
+        : await encryptItem(data, vaultKey))
+      const updated = await vaultService.updateVaultItem(id, {
+        ...fields,
+        ...encrypted,
+        ...(encrypted && { attachmentKeys: await getAttachmentKeys(item, encrypted.encryptedDataKey, vaultKey) }),
+        ...(data && await createSearchIndex(data, searchKey)),
+        ...(data && await getItemHealth(item?.type, data, get().healthKey)),
+      })
+      const [response] = await decryptItems([updated], vaultKey)
       
       set((state) => ({
         items: state.items.map(item => 
@@ -166,7 +726,7 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
         error: null,
       }))
       
-      toast.success('Vault item deleted successfully!')
+      toast.success('Vault item moved to trash')
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || error.message || 'Failed to delete vault item'
       set({
@@ -178,6 +738,532 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
     }
   },
 
+  fetchFolders: async () => {
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const folders = await vaultService.getFolders()
+
+      set({ folders: await decryptFolders(folders, vaultKey) })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch folders'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+    }
+  },
+
+  createFolder: async (name: string, parentId: string | null = null) => {
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const folder = await vaultService.createFolder(await encryptText(name, vaultKey), parentId)
+
+      set((state) => ({ folders: [...state.folders, { ...folder, name }] }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to create folder'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  renameFolder: async (id: string, name: string) => {
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const folder = await vaultService.updateFolder(id, { encryptedName: await encryptText(name, vaultKey) })
+
+      set((state) => ({
+        folders: state.folders.map(candidate => candidate.id === id ? { ...folder, name } : candidate),
+      }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to rename folder'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  moveFolder: async (id: string, parentId: string | null) => {
+    try {
+      const folder = await vaultService.updateFolder(id, { parentId })
+
+      set((state) => ({
+        folders: state.folders.map(candidate => candidate.id === id ? { ...candidate, parentId: folder.parentId } : candidate),
+      }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to move folder'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  deleteFolder: async (id: string, policy: FolderDeletePolicy) => {
+    try {
+      const result = await vaultService.deleteFolder(id, policy)
+
+      // Subfolders and items may have moved or gone, so reload both
+      if (get().selectedFolderId === id) {
+        set({ selectedFolderId: null })
+      }
+      await Promise.all([get().fetchFolders(), get().fetchItems()])
+
+      toast.success(policy === 'trash'
+        ? `Folder deleted, ${result.trashedItems} items moved to trash`
+        : 'Folder deleted')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to delete folder'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  moveItemToFolder: async (itemId: string, folderId: string | null) => {
+    try {
+      const updated = await vaultService.updateVaultItem(itemId, { folderId })
+      const { selectedFolderId } = get()
+      // Drop the item from a list narrowed to a folder it has left
+      const stillListed = selectedFolderId === null || selectedFolderId === (folderId ?? 'none')
+
+      set((state) => ({
+        items: stillListed
+          ? state.items.map(item => item.id === itemId ? { ...item, folderId: updated.folderId } : item)
+          : state.items.filter(item => item.id !== itemId),
+      }))
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to move vault item'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  setSelectedFolder: (folderId: string | null) => {
+    set({ selectedFolderId: folderId })
+  },
+
+  fetchRevisions: async (id: string) => {
+    set({ isLoadingRevisions: true, error: null, revisions: [] })
+
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const revisions = await vaultService.getRevisions(id)
+
+      set({
+        revisions: await decryptItems(revisions, vaultKey),
+        isLoadingRevisions: false,
+        error: null,
+      })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch item history'
+      set({
+        isLoadingRevisions: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+    }
+  },
+
+  restoreRevision: async (id: string, revision: number) => {
+    set({ isLoadingRevisions: true, error: null })
+
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const item = get().items.find(candidate => candidate.id === id)
+      const isShared = (item?.shareCount ?? 0) > 0
+      const restoring = get().revisions.find(candidate => candidate.revision === revision)
+      // The restored payload brings back its own data key, so wrap that one for the item's shares and attachments
+      const shareKeys = isShared && restoring
+        ? await Promise.all((await getShareRecipients(id)).map(async (share) => ({
+          shareId: share.shareId,
+          encryptedDataKey: await wrapItemKeyFor(restoring.encryptedDataKey, vaultKey, share.publicKey),
+        })))
+        : undefined
+      const attachmentKeys = restoring
+        ? await getAttachmentKeys(item, restoring.encryptedDataKey, vaultKey)
+        : undefined
+      const restored = await vaultService.restoreRevision(id, revision, shareKeys, attachmentKeys)
+      const [response] = await decryptItems([restored], vaultKey)
+
+      set((state) => ({
+        items: state.items.map(item => item.id === id ? response : item),
+        selectedItem: state.selectedItem?.id === id ? response : state.selectedItem,
+        isLoadingRevisions: false,
+        error: null,
+      }))
+
+      // The replaced payload is now the newest revision
+      await get().fetchRevisions(id)
+
+      toast.success(`Restored revision ${revision}`)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to restore revision'
+      set({
+        isLoadingRevisions: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  fetchSharedItems: async () => {
+    try {
+      const shares = await vaultService.getSharedItems()
+
+      set({ sharedItems: await decryptSharedItems(shares, get().privateKey) })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch shared items'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+    }
+  },
+
+  acceptShare: async (shareId: string) => {
+    try {
+      const accepted = await vaultService.acceptShare(shareId)
+      const [response] = await decryptSharedItems([accepted], get().privateKey)
+
+      set((state) => ({
+        sharedItems: state.sharedItems.map(share => share.id === shareId ? response : share),
+        error: null,
+      }))
+
+      toast.success('Shared item added to your vault')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to accept share'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  declineShare: async (shareId: string) => {
+    try {
+      await vaultService.declineShare(shareId)
+
+      set((state) => ({
+        sharedItems: state.sharedItems.filter(share => share.id !== shareId),
+        error: null,
+      }))
+
+      toast.success('Shared item removed')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to decline share'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  updateSharedItem: async (shareId: string, data: VaultItemData) => {
+    try {
+      const privateKey = requireKey(get().privateKey)
+      const share = get().sharedItems.find(candidate => candidate.id === shareId)
+      if (!share?.encryptedDataKey) {
+        throw new Error('Accept the share before editing the item')
+      }
+
+      const updated = await vaultService.updateSharedItem(
+        shareId,
+        await reencryptSharedItem(data, share.encryptedDataKey, privateKey)
+      )
+      const [response] = await decryptSharedItems([updated], privateKey)
+
+      set((state) => ({
+        sharedItems: state.sharedItems.map(candidate => candidate.id === shareId ? response : candidate),
+        error: null,
+      }))
+
+      toast.success('Shared item updated successfully!')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to update shared item'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  fetchShares: async (itemId: string) => {
+    set({ itemShares: [], error: null })
+
+    try {
+      set({ itemShares: await vaultService.getItemShares(itemId) })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch shares'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+    }
+  },
+
+  shareItem: async (itemId: string, recipient: PublicKeyInfo, permission: SharePermission) => {
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const item = get().items.find(candidate => candidate.id === itemId)
+      if (!item) {
+        throw new Error('Vault item not found')
+      }
+
+      const share = await vaultService.shareItem(
+        itemId,
+        recipient.userId,
+        permission,
+        await wrapItemKeyFor(item.encryptedDataKey, vaultKey, recipient.publicKey)
+      )
+
+      set((state) => ({
+        itemShares: [...state.itemShares, share],
+        items: state.items.map(candidate =>
+          candidate.id === itemId ? { ...candidate, shareCount: candidate.shareCount + 1 } : candidate
+        ),
+        error: null,
+      }))
+
+      toast.success(`Shared with ${recipient.email}`)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to share item'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  revokeShare: async (itemId: string, shareId: string) => {
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const item = get().items.find(candidate => candidate.id === itemId)
+      if (!item) {
+        throw new Error('Vault item not found')
+      }
+
+      // The revoked user may have kept the old data key, so the item moves to a new one
+      const data = item.decryptedData ?? await decryptItem(item, vaultKey)
+      const rotated = await encryptItemForShares(data, vaultKey, await getShareRecipients(itemId, shareId))
+      const updated = await vaultService.revokeShare(itemId, shareId, {
+        ...rotated,
+        attachmentKeys: await getAttachmentKeys(item, rotated.encryptedDataKey, vaultKey),
+      })
+      const [response] = await decryptItems([updated], vaultKey)
+
+      set((state) => ({
+        itemShares: state.itemShares.filter(share => share.id !== shareId),
+        items: state.items.map(candidate => candidate.id === itemId ? response : candidate),
+        selectedItem: state.selectedItem?.id === itemId ? response : state.selectedItem,
+        error: null,
+      }))
+
+      toast.success('Access revoked')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to revoke share'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  fetchAttachments: async (itemId: string) => {
+    set({ attachments: [], error: null })
+
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const item = get().items.find(candidate => candidate.id === itemId)
+      if (!item) {
+        throw new Error('Vault item not found')
+      }
+
+      set({ attachments: await decryptAttachmentNames(await vaultService.getAttachments(itemId), item, vaultKey) })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch attachments'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+    }
+  },
+
+  uploadAttachment: async (itemId: string, file: File) => {
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const item = get().items.find(candidate => candidate.id === itemId)
+      if (!item) {
+        throw new Error('Vault item not found')
+      }
+
+      const encrypted = await encryptAttachment(
+        { fileName: file.name, data: new Uint8Array(await file.arrayBuffer()) },
+        item.encryptedDataKey,
+        vaultKey
+      )
+      const attachment = await vaultService.uploadAttachment(itemId, encrypted)
+
+      set((state) => ({
+        attachments: [...state.attachments, { ...attachment, fileName: file.name }],
+        items: state.items.map(candidate =>
+          candidate.id === itemId ? { ...candidate, attachmentCount: candidate.attachmentCount + 1 } : candidate
+        ),
+        error: null,
+      }))
+
+      toast.success(`Attached ${file.name}`)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to upload attachment'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  downloadAttachment: async (itemId: string, attachmentId: string) => {
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const item = get().items.find(candidate => candidate.id === itemId)
+      const attachment = get().attachments.find(candidate => candidate.id === attachmentId)
+      if (!item || !attachment) {
+        throw new Error('Attachment not found')
+      }
+
+      const content = await vaultService.downloadAttachment(itemId, attachmentId)
+      return await decryptAttachment(attachment, content, item.encryptedDataKey, vaultKey)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to download attachment'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  deleteAttachment: async (itemId: string, attachmentId: string) => {
+    try {
+      await vaultService.deleteAttachment(itemId, attachmentId)
+
+      set((state) => ({
+        attachments: state.attachments.filter(attachment => attachment.id !== attachmentId),
+        items: state.items.map(candidate =>
+          candidate.id === itemId ? { ...candidate, attachmentCount: candidate.attachmentCount - 1 } : candidate
+        ),
+        error: null,
+      }))
+
+      toast.success('Attachment deleted')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to delete attachment'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  fetchTrash: async () => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const response = await vaultService.getTrash()
+
+      set({
+        trashItems: await decryptItems(response.items, get().vaultKey),
+        trashRetentionDays: response.retentionDays,
+        isLoading: false,
+        error: null,
+      })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to fetch trash'
+      set({
+        trashItems: [],
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+    }
+  },
+
+  restoreItem: async (id: string) => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const restored = await vaultService.restoreVaultItem(id)
+      const [response] = await decryptItems([restored], get().vaultKey)
+
+      set((state) => ({
+        trashItems: state.trashItems.filter(item => item.id !== id),
+        items: [response, ...state.items],
+        isLoading: false,
+        error: null,
+      }))
+
+      toast.success('Vault item restored successfully!')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to restore vault item'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  purgeItem: async (id: string) => {
+    set({ isLoading: true, error: null })
+
+    try {
+      await vaultService.purgeVaultItem(id)
+
+      set((state) => ({
+        trashItems: state.trashItems.filter(item => item.id !== id),
+        isLoading: false,
+        error: null,
+      }))
+
+      toast.success('Vault item permanently deleted')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to permanently delete vault item'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  emptyTrash: async () => {
+    set({ isLoading: true, error: null })
+
+    try {
+      const response = await vaultService.emptyTrash()
+
+      set({
+        trashItems: [],
+        isLoading: false,
+        error: null,
+      })
+
+      toast.success(`Trash emptied! ${response.purgedCount} items permanently deleted.`)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to empty trash'
+      set({
+        isLoading: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  setTrashRetention: async (days: number) => {
+    try {
+      const response = await vaultService.updateTrashSettings(days)
+
+      set({ trashRetentionDays: response.retentionDays })
+      // Trashed items were rescheduled on the server
+      await get().fetchTrash()
+
+      toast.success('Trash retention updated')
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to update trash retention'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
   setSelectedItem: (item: VaultItem | null) => {
     set({ selectedItem: item })
   },
@@ -198,15 +1284,34 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
     set({ showFavoritesOnly: show })
   },
 
+  setSort: (sortBy: VaultSortField, sortOrder: SortOrder) => {
+    set({ sortBy, sortOrder })
+  },
+
   clearError: () => {
     set({ error: null })
   },
 
-  exportVault: async (masterPassword: string) => {
+  exportVault: async () => {
     set({ isLoading: true, error: null })
     
     try {
-      const response = await vaultService.exportVault(masterPassword)
+      // The server only has ciphertext, so the readable export is assembled here
+      const vaultKey = requireKey(get().vaultKey)
+      const exported = await vaultService.exportVault()
+      const response: VaultExport = {
+        version: '1.0',
+        exportedAt: exported.exportedAt,
+        items: await Promise.all(exported.items.map(async (item) => ({
+          id: item.id,
+          type: item.type,
+          data: await decryptItem(item, vaultKey),
+          tags: item.tags,
+          favorite: item.favorite,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt,
+        }))),
+      }
       
       set({
         isLoading: false,
@@ -226,17 +1331,24 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
     }
   },
 
-  importVault: async (importData: any, masterPassword: string) => {
+  importVault: async (importData: VaultExport) => {
     set({ isLoading: true, error: null })
     
     try {
-      const response = await vaultService.importVault({
-        importData,
-        masterPassword,
-      })
+      const vaultKey = requireKey(get().vaultKey)
+      const searchKey = requireKey(get().searchKey)
+      const response = await vaultService.importVault(await Promise.all(
+        importData.items.map(async (item) => ({
+          type: item.type,
+          tags: item.tags || [],
+          favorite: item.favorite || false,
+          ...(await encryptItem(item.data, vaultKey)),
+          ...(await createSearchIndex(item.data, searchKey)),
+        }))
+      ))
       
       set({
-        items: [...get().items, ...response.items],
+        items: [...get().items, ...await decryptItems(response.items, vaultKey)],
         isLoading: false,
         error: null,
       })
@@ -252,4 +1364,74 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
       throw error
     }
   },
+
+  fetchWatchtowerReport: async () => {
+    try {
+      const report = await securityService.getWatchtowerReport()
+      // The server cannot name the affected logins; they are named here once the vault is open
+      set({ watchtowerReport: { ...report, items: await decryptItems(report.items, get().vaultKey) } })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to load Watchtower report'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+    }
+  },
+
+  scanVaultHealth: async () => {
+    set({ isScanningHealth: true, error: null })
+
+    try {
+      const vaultKey = requireKey(get().vaultKey)
+      const healthKey = requireKey(get().healthKey)
+      // Every login is rechecked: breaches are found and passwords age without the items changing
+      const checkBreach = newBreachChecker()
+      let checkedCount = 0
+      let cursor: string | null = null
+
+      do {
+        const response = await vaultService.getVaultItems(
+          { type: VaultItemType.LOGIN },
+          { limit: SCAN_PAGE_SIZE, cursor }
+        )
+        const logins = (await decryptItems(response.items, vaultKey)).filter(item => item.decryptedData)
+
+        if (logins.length > 0) {
+          const result = await vaultService.updateHealth(await Promise.all(
+            logins.map(async (item) => ({
+              id: item.id,
+              health: await createItemHealth(item.decryptedData!, healthKey, checkBreach),
+            }))
+          ))
+          checkedCount += result.checkedCount
+        }
+
+        cursor = response.hasMore ? response.nextCursor : null
+      } while (cursor)
+
+      set({ isScanningHealth: false })
+      await get().fetchWatchtowerReport()
+
+      toast.success(`${checkedCount} ${checkedCount === 1 ? 'login' : 'logins'} checked`)
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to scan vault'
+      set({
+        isScanningHealth: false,
+        error: errorMessage,
+      })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
+
+  setWatchtowerPasswordAge: async (days: number) => {
+    try {
+      const report = await securityService.updateWatchtowerSettings(days)
+      set({ watchtowerReport: { ...report, items: await decryptItems(report.items, get().vaultKey) } })
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || error.message || 'Failed to update Watchtower settings'
+      set({ error: errorMessage })
+      toast.error(errorMessage)
+      throw error
+    }
+  },
 }))
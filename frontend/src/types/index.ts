@@ -28,6 +28,72 @@ export interface AuthResponse {
   refreshToken: string
 }
 
+export type TwoFactorMethod = 'totp' | 'webauthn' | 'master_password'
+
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true
+  challengeToken: string
+  methods: TwoFactorMethod[]
+  kdf?: KdfParams
+}
+
+// Zero-knowledge vault keys
+export type KdfAlgorithm = 'pbkdf2-sha512' | 'argon2id'
+
+export interface KdfConfig {
+  algorithm: KdfAlgorithm
+  iterations: number
+  memory: number | null
+  parallelism: number | null
+  version: number
+}
+
+export interface KdfParams extends KdfConfig {
+  salt: string
+}
+
+export interface VaultKeys {
+  zeroKnowledge: boolean
+  kdf: KdfParams
+  encryptedVaultKey: string | null
+  publicKey: string | null
+  encryptedPrivateKey: string | null
+  legacyItemCount: number
+  kdfUpgrade: KdfConfig | null
+}
+
+export interface PublicKeyInfo {
+  userId: string
+  email: string
+  publicKey: string
+  // SHA-256 fingerprint as computed by the server; verify against getPublicKeyFingerprint
+  fingerprint: string
+}
+
+export interface LegacyVaultItem {
+  id: string
+  type: VaultItemType
+  data: VaultItemData
+  tags: string[]
+  favorite: boolean
+  isDeleted: boolean
+}
+
+export type KeyRotationStatus = 'staging' | 'committed' | 'completed' | 'failed'
+
+export interface KeyRotation {
+  _id: string
+  status: KeyRotationStatus
+  fromKeyVersion: number
+  toKeyVersion: number
+  totalItems: number
+  processedItems: number
+  error: string | null
+  startedAt: string
+  committedAt: string | null
+  completedAt: string | null
+}
+
 // Vault item types
 export enum VaultItemType {
   LOGIN = 'login',
@@ -37,14 +103,18 @@ export enum VaultItemType {
 }
 
 export interface VaultItemData {
+  // Shown in the vault list and indexed for search
+  title?: string
+
   // Login type
   username?: string
   password?: string
   url?: string
+  // Authenticator seed: an otpauth:// URI or a bare base32 secret
+  totp?: string
   notes?: string
   
   // Secure note type
-  title?: string
   content?: string
   
   // Payment card type
@@ -72,21 +142,201 @@ export interface VaultItemData {
 
 export interface VaultItem {
   id: string
+  folderId: string | null
   type: VaultItemType
   encryptedData: string
   encryptedDataKey: string
   iv: string
   tag: string
   algorithm: 'aes' | 'xchacha'
+  encryptionVersion: number
+  clientEncrypted: boolean
+  searchIndexVersion: number | null
+  // Null until the login has been checked by Watchtower
+  health?: ItemHealth | null
+  revision: number
+  restoredFrom: number | null
+  // Revisions before this one are under a data key replaced when a share was revoked
+  keyRotatedRevision: number
+  // Number of users holding a copy of the data key
+  shareCount: number
+  // Number of files whose keys are wrapped by the data key
+  attachmentCount: number
   tags: string[]
   favorite: boolean
   isDeleted: boolean
   deletedAt?: string
+  // When a trashed item is permanently removed
+  purgeAt?: string | null
+  createdAt: string
+  updatedAt: string
+  decryptedData?: VaultItemData
+}
+
+// Folder names are encrypted under the vault key; name is filled in once decrypted
+export interface Folder {
+  id: string
+  parentId: string | null
+  encryptedName: string
+  createdAt: string
+  updatedAt: string
+  name?: string
+}
+
+export type FolderDeletePolicy = 'moveToParent' | 'trash'
+
+// An earlier payload of a vault item, kept when it was overwritten
+export interface VaultItemRevision {
+  id: string
+  itemId: string
+  revision: number
+  encryptedData: string
+  encryptedDataKey: string
+  iv: string
+  tag: string
+  algorithm: 'aes' | 'xchacha'
+  restoredFrom: number | null
+  createdAt: string
+  decryptedData?: VaultItemData
+}
+
+// Organization types
+export type OrganizationRole = 'owner' | 'admin' | 'manager' | 'member'
+
+// An organization as seen by one of its members
+export interface Organization {
+  id: string
+  name: string
+  role: OrganizationRole
+  memberCount: number
+  createdAt: string
+}
+
+export interface OrganizationMember {
+  userId: string
+  email: string
+  role: OrganizationRole
+  publicKey: string | null
+  joinedAt: string
+}
+
+export interface CollectionAccess {
+  userId: string
+  readOnly: boolean
+}
+
+export interface OrganizationCollection {
+  id: string
+  organizationId: string
+  name: string
+  access: CollectionAccess[]
+  createdAt: string
+  updatedAt: string
+}
+
+// A shared item with the caller's own copy of its data key, wrapped with their public key
+export interface OrganizationItem {
+  id: string
+  collectionId: string
+  type: VaultItemType
+  encryptedData: string
+  encryptedDataKey: string
+  iv: string
+  tag: string
+  algorithm: 'aes' | 'xchacha'
+  readOnly: boolean
+  createdBy: string
+  updatedBy: string
   createdAt: string
   updatedAt: string
   decryptedData?: VaultItemData
 }
 
+export type SharePermission = 'read' | 'edit'
+
+export type ShareStatus = 'pending' | 'accepted'
+
+// A share of one of your items
+export interface ItemShare {
+  id: string
+  recipientId: string
+  email: string
+  publicKey: string | null
+  permission: SharePermission
+  status: ShareStatus
+  createdAt: string
+  acceptedAt: string | null
+}
+
+// An item someone shared with you; ciphertext arrives once the share is accepted
+export interface SharedItem {
+  id: string
+  itemId: string
+  ownerEmail: string
+  type: VaultItemType
+  permission: SharePermission
+  status: ShareStatus
+  encryptedData: string | null
+  encryptedDataKey: string | null
+  iv: string | null
+  tag: string | null
+  algorithm: 'aes' | 'xchacha' | null
+  createdAt: string
+  updatedAt: string
+  decryptedData?: VaultItemData
+}
+
+// A file on one of your items; fileName is filled in once decrypted
+export interface Attachment {
+  id: string
+  itemId: string
+  // Encrypted under the attachment key
+  encryptedFileName: string
+  // The attachment key wrapped by the item's data key
+  encryptedKey: string
+  // Ciphertext size in bytes
+  size: number
+  createdAt: string
+  updatedAt: string
+  fileName?: string
+}
+
+export type SendType = 'text' | 'file'
+
+// One of your sends; its ciphertext is left out of listings
+export interface Send {
+  id: string
+  accessId: string
+  type: SendType
+  encryptedFileName: string | null
+  // Encrypted under the vault key; decrypted into name
+  encryptedName: string
+  // The send key wrapped by the vault key, for copying the link again
+  encryptedKey: string
+  size: number
+  hasPassword: boolean
+  maxViews: number | null
+  viewCount: number
+  expiresAt: string
+  disabled: boolean
+  createdAt: string
+  updatedAt: string
+  name?: string
+  link?: string
+}
+
+// What anyone with the link receives, to decrypt with the key in its fragment
+export interface SendAccess {
+  type: SendType
+  encryptedData: string
+  iv: string
+  tag: string
+  algorithm: 'aes'
+  encryptedFileName: string | null
+  expiresAt: string
+  remainingViews: number | null
+}
+
 // Security feature types
 export enum SecurityDirection {
   EAST = 'east',
@@ -101,6 +351,42 @@ export enum SecurityDirection {
   BELOW = 'below',
 }
 
+export interface WebAuthnCredential {
+  id: string
+  credentialId: string
+  name: string
+  transports: string[]
+  authenticatorAttachment: 'platform' | 'cross-platform' | null
+  deviceType: 'singleDevice' | 'multiDevice'
+  backedUp: boolean
+  userVerified: boolean
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+export interface Device {
+  id: string
+  name: string
+  ipAddress: string | null
+  userAgent: string | null
+  firstSeenAt: string
+  lastSeenAt: string
+  verifiedAt: string | null
+  revokedAt: string | null
+  current: boolean
+}
+
+export interface Session {
+  id: string
+  deviceId: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  lastUsedAt: string
+  expiresAt: string
+  createdAt: string
+  current: boolean
+}
+
 export interface SecurityFeature {
   id: string
   userId: string
@@ -117,8 +403,53 @@ export interface SecurityFeature {
 }
 
 // Security analysis types
+export type MatchPattern = 'dictionary' | 'spatial' | 'repeat' | 'sequence' | 'date' | 'bruteforce'
+
+export type DictionaryName = 'passwords' | 'english' | 'names' | 'userInputs'
+
+// A guessable piece of a password, with the guesses it takes once its pattern is known
+export interface PasswordMatch {
+  pattern: MatchPattern
+  token: string
+  i: number
+  j: number
+  guesses: number
+  dictionary?: DictionaryName
+  matchedWord?: string
+  rank?: number
+  reversed?: boolean
+  substitutions?: Record<string, string>
+  graph?: string
+  turns?: number
+  shiftedCount?: number
+  baseToken?: string
+  baseGuesses?: number
+  repeatCount?: number
+  ascending?: boolean
+  year?: number
+}
+
+export interface WeakestMatch extends PasswordMatch {
+  explanation: string
+}
+
+export type AttackerModel = 'onlineThrottled' | 'onlineUnthrottled' | 'offlineSlowHash' | 'offlineFastHash'
+
+export interface CrackTime {
+  seconds: number
+  display: string
+}
+
+export type PasswordKind = 'account' | 'master'
+
 export interface PasswordStrengthAnalysis {
+  // 0 (under a thousand guesses) to 4 (over ten billion)
   score: number
+  guesses: number
+  guessesLog10: number
+  crackTimes: Record<AttackerModel, CrackTime>
+  sequence: PasswordMatch[]
+  weakest: WeakestMatch | null
   feedback: string[]
   recommendations: string[]
 }
@@ -129,6 +460,82 @@ export interface BreachCheck {
   recommendations: string[]
 }
 
+// Password health of a login as checked in the browser; its password hash never comes back
+export interface ItemHealth {
+  version: number
+  strength: number | null
+  // Null when the breach check could not be completed
+  breachCount: number | null
+  hasTotp: boolean
+  // The site is known to offer authenticator codes
+  totpSupported: boolean
+  passwordChangedAt: string | null
+  checkedAt: string
+}
+
+export type WatchtowerFindingType = 'breached' | 'reused' | 'weak' | 'old' | 'missingTotp'
+
+export interface WatchtowerFinding {
+  type: WatchtowerFindingType
+  itemId: string
+  // Other logins with the same password
+  reusedWith?: string[]
+  breachCount?: number
+  strength?: number
+  passwordChangedAt?: string
+  ageDays?: number
+}
+
+export interface WatchtowerReport {
+  // 0-100, also the NORTHEAST score while Watchtower is enabled
+  score: number
+  maxPasswordAgeDays: number
+  summary: Record<WatchtowerFindingType, number> & {
+    logins: number
+    checked: number
+    unchecked: number
+  }
+  // Most severe first
+  findings: WatchtowerFinding[]
+  // The logins the findings point at; decryptedData is filled in once the vault is unlocked
+  items: VaultItem[]
+  generatedAt: string
+}
+
+export type GeneratorType = 'password' | 'passphrase'
+
+export interface PasswordOptions {
+  length: number
+  lowercase: boolean
+  uppercase: boolean
+  numbers: boolean
+  symbols: boolean
+  // Leave out characters that are easily confused when read, such as 0/O and 1/l/I
+  excludeAmbiguous: boolean
+  minLowercase: number
+  minUppercase: number
+  minNumbers: number
+  minSymbols: number
+}
+
+export interface PassphraseOptions {
+  words: number
+  separator: string
+  capitalize: boolean
+}
+
+// What the generator form remembers between sessions
+export interface GeneratorSettings {
+  type: GeneratorType
+  password: PasswordOptions
+  passphrase: PassphraseOptions
+}
+
+export interface GeneratedSecret {
+  value: string
+  entropyBits: number
+}
+
 // API response types
 export interface ApiResponse<T = any> {
   success: boolean
@@ -137,14 +544,19 @@ export interface ApiResponse<T = any> {
   code?: string
 }
 
+// Cursor pages: pass nextCursor back to get the items after this page
 export interface PaginatedResponse<T> {
   items: T[]
-  total: number
-  page: number
+  count: number
   limit: number
-  totalPages: number
+  nextCursor: string | null
+  hasMore: boolean
 }
 
+export type VaultSortField = 'createdAt' | 'updatedAt' | 'type' | 'favorite'
+
+export type SortOrder = 'asc' | 'desc'
+
 // Form types
 export interface LoginForm {
   email: string
@@ -165,7 +577,6 @@ export interface VaultItemForm {
   data: VaultItemData
   tags: string[]
   favorite: boolean
-  masterPassword: string
 }
 
 export interface SecurityDashboard {
@@ -248,6 +659,4 @@ export interface VaultExport {
 
 export interface VaultImport {
   importData: VaultExport
-  masterPassword: string
-  algorithm?: 'aes' | 'xchacha'
 }
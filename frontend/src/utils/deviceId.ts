@@ -0,0 +1,16 @@
+const DEVICE_ID_KEY = 'device-id'
+
+/**
+ * Random identifier for this browser, sent with every request so the server
+ * can recognise trusted devices. It carries no information about the device itself.
+ */
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+
+  return deviceId
+}
@@ -0,0 +1,159 @@
+/**
+ * Ranked dictionaries for the password strength estimator, most frequent first
+ * A word's guess count starts from its rank, so order matters more than completeness.
+ * Kept in sync with backend/src/data/passwordDictionaries.ts.
+ */
+
+// Most common passwords from public breach corpora
+export const COMMON_PASSWORDS: readonly string[] = [
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567',
+  'dragon', '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', '696969', 'shadow',
+  'master', '666666', 'qwertyuiop', '123321', 'mustang', '1234567890', 'michael', '654321',
+  'superman', '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx', '123qwe', 'killer', 'trustno1',
+  'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster', 'soccer', 'harley', 'batman',
+  'andrew', 'tigger', 'sunshine', 'iloveyou', '2000', 'charlie', 'robert', 'thomas', 'hockey',
+  'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george', 'computer', 'michelle', 'jessica',
+  'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom', '777777', 'pass',
+  'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese', 'amanda', 'summer',
+  'love', 'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees', '987654321',
+  'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'mobilemail', 'mom', 'monitor', 'monitoring',
+  'montana', 'moon', 'moscow', 'william', 'corvette', 'hello', 'martin', 'heather', 'secret',
+  'merlin', 'diamond', '1234qwer', 'gfhjkm', 'hammer', 'silver', '222222', '88888888', 'anthony',
+  'justin', 'test', 'bailey', 'q1w2e3r4t5', 'patrick', 'internet', 'scooter', 'orange', '11111',
+  'golfer', 'cookie', 'richard', 'samantha', 'bigdog', 'guitar', 'jackson', 'whatever', 'mickey',
+  'chicken', 'sparky', 'snoopy', 'maverick', 'phoenix', 'camaro', 'peanut', 'morgan', 'welcome',
+  'falcon', 'cowboy', 'ferrari', 'samsung', 'andrea', 'smokey', 'steelers', 'joseph', 'mercedes',
+  'dakota', 'arsenal', 'eagles', 'melissa', 'boomer', 'booboo', 'spider', 'nascar', 'monster',
+  'tigers', 'yellow', 'xxxxxx', '123123123', 'gateway', 'marina', 'diablo', 'bulldog', 'qwer1234',
+  'compaq', 'purple', 'hardcore', 'banana', 'junior', 'hannah', '123654', 'porsche', 'lakers',
+  'iceman', 'money', 'cowboys', '987654', 'london', 'tennis', '999999', 'ncc1701', 'coffee',
+  'scooby', '0000', 'miller', 'boston', 'q1w2e3r4', 'brandon', 'yamaha', 'chester', 'mother',
+  'forever', 'johnny', 'edward', '333333', 'oliver', 'redsox', 'player', 'nikita', 'knight',
+  'fender', 'barney', 'midnight', 'please', 'brandy', 'chicago', 'badboy', 'slayer', 'rangers',
+  'charles', 'angel', 'flower', 'bigdaddy', 'rabbit', 'wizard', 'jasper', 'enter', 'rachel',
+  'chris', 'steven', 'winner', 'adidas', 'victoria', 'natasha', '1q2w3e4r', 'jasmine', 'winter',
+  'prince', 'panties', 'marine', 'ghbdtn', 'fishing', 'cocacola', 'casper', 'james', '232323',
+  'raiders', '888888', 'marlboro', 'gandalf', 'asdfasdf', 'crystal', '87654321', '12344321',
+  'golden', '8675309', 'panther', 'lauren', 'angela', 'thx1138', 'angels', 'madison', 'winston',
+  'shannon', 'mike', 'toyota', 'blowme', 'jordan23', 'canada', 'sophie', 'apples', 'dick', 'tiger',
+  'razz', '123abc', 'pokemon', 'qazxsw', '55555', 'qwaszx', 'muffin', 'johnson', 'murphy',
+  'cooper', 'jonathan', 'liverpoo', 'david', 'danielle', '159357', 'jackie', '1990', '123456a',
+  '789456', 'turtle', 'horny', 'abcd1234', 'scorpion', 'qazwsxedc', '101010', 'butter', 'carlos',
+  'password1', 'dennis', 'slipknot', 'qwerty123', 'booger', 'asdf', '1991', 'black', 'startrek',
+  '12341234', 'cameron', 'newyork', 'rainbow', 'nathan', 'john', '1992', 'rocket', 'viking',
+  'redskins', 'asdfghjkl', '1212', 'sierra', 'peaches', 'gemini', 'doctor', 'wilson', 'sandra',
+  'helpme', 'qwertyui', 'victor', 'florida', 'dolphin', 'pookie', 'captain', 'tucker', 'blue',
+  'liverpool', 'theman', 'bandit', 'dolphins', 'maddog', 'packers', 'jaguar', 'lovers', 'nicholas',
+  'united', 'tiffany', 'maxwell', 'zzzzzz', 'nirvana', 'jeremy', 'suckit', 'stupid', 'porn',
+  'monica', 'elephant', 'giants', 'jackass', 'hotdog', 'rosebud', 'success', 'debbie', 'mountain',
+  '444444', 'xxxxxxxx', 'warrior', '1q2w3e4r5t', 'q1w2e3', '123456q', 'albert', 'metallic',
+  'lucky', 'azerty', '7777', 'alex', 'bond007', 'alexis', '1111111', 'samson', '5150', 'willie',
+  'scorpio', 'bonnie', 'gators', 'benjamin', 'voodoo', 'driver', 'dexter', '2112', 'jason',
+  'calvin', 'freddy', '212121', 'creative', '12345a', 'sydney', 'rush2112', '1989', 'asdfghjk',
+  'red123', 'bubba', '4815162342', 'passw0rd', 'trouble', 'gunner', 'happy', 'gordon', 'legend',
+  'jessie', 'stella', 'qwert', 'eminem', 'arthur', 'apple', 'nissan', 'bullshit', 'bear',
+  'america', '1qazxsw2', 'nothing', 'parker', '4444', 'rebecca', 'qweqwe', 'garfield', '01012011',
+  'beavis', '69696969', 'jack', 'asdasd', 'december', '2222', '102030', '252525', '11223344',
+  'magic', 'apollo', 'skippy', '315475', 'girls', 'kitten', 'golf', 'copper', 'braves', 'shelby',
+  'godzilla', 'beaver', 'fred', 'tomcat', 'august', 'buddy', 'airborne', '1993', '1988',
+  'lifehack', 'qqqqqq', 'brooklyn', 'animal', 'platinum', 'phantom', 'online', 'xavier',
+  'darkness', 'blink182', 'power', 'fish', 'green', '789456123', 'voyager', 'police', 'travis',
+  '12qwaszx', 'heaven', 'snowball', 'lover', 'abcdef', '00000', 'pakistan', '007007', 'walter',
+  'playboy', 'blazer', 'cricket', 'sniper', 'donkey', 'willow', 'loveme', 'saturn', 'therock',
+  'redwings', 'admin', 'root', 'letmein1', 'welcome1', 'password123', 'abc12345', 'iloveyou1',
+  'princess1', 'qwerty1', 'monkey1', 'dragon1', 'football1', 'baseball1', 'changeme', 'default',
+  'guest', 'login', '1q2w3e', 'secret1', 'superman1', 'trustno11', 'solo', 'starwars1', 'master1',
+  'hello123', 'zaq12wsx', '1qaz2wsx3edc', 'passpass', 'p@ssw0rd', 'p@ssword', 'pa55word',
+]
+
+// Frequent English words, as they turn up in passwords
+export const ENGLISH_WORDS: readonly string[] = [
+  'you', 'the', 'to', 'it', 'and', 'that', 'of', 'what', 'is', 'in', 'me', 'this', 'my', 'your',
+  'for', 'have', 'on', 'be', 'not', 'do', 'know', 'just', 'with', 'we', 'can', 'no', 'are', 'all',
+  'was', 'so', 'get', 'but', 'here', 'like', 'go', 'about', 'if', 'up', 'there', 'out', 'got',
+  'at', 'right', 'yeah', 'well', 'one', 'he', 'now', 'how', 'she', 'come', 'think', 'see', 'they',
+  'want', 'her', 'time', 'his', 'oh', 'good', 'as', 'from', 'or', 'would', 'really', 'back',
+  'going', 'take', 'did', 'then', 'okay', 'who', 'why', 'let', 'them', 'way', 'when', 'make',
+  'could', 'need', 'something', 'say', 'look', 'sorry', 'where', 'been', 'tell', 'an', 'our',
+  'sure', 'him', 'man', 'thank', 'very', 'will', 'never', 'more', 'over', 'yes', 'down', 'us',
+  'thing', 'love', 'little', 'any', 'life', 'please', 'mean', 'some', 'off', 'guess', 'because',
+  'give', 'anything', 'only', 'even', 'nothing', 'too', 'into', 'maybe', 'people', 'other', 'day',
+  'help', 'work', 'must', 'always', 'great', 'talk', 'should', 'god', 'these', 'much', 'night',
+  'home', 'said', 'last', 'money', 'those', 'than', 'first', 'feel', 'still', 'new', 'away',
+  'place', 'find', 'around', 'before', 'car', 'made', 'long', 'world', 'kind', 'father', 'boy',
+  'mother', 'house', 'tonight', 'hey', 'again', 'school', 'dead', 'stop', 'better', 'friend',
+  'girl', 'doing', 'old', 'whole', 'wait', 'guy', 'believe', 'thought', 'everything', 'wife',
+  'family', 'name', 'leave', 'every', 'keep', 'hear', 'call', 'live', 'nice', 'happy', 'game',
+  'sister', 'brother', 'baby', 'city', 'son', 'woman', 'women', 'fine', 'morning', 'show', 'play',
+  'might', 'while', 'both', 'together', 'real', 'hand', 'head', 'watch', 'kill', 'lot', 'best',
+  'room', 'years', 'wrong', 'kid', 'heart', 'hard', 'month', 'week', 'hope', 'door', 'water',
+  'power', 'music', 'light', 'dream', 'party', 'town', 'story', 'food', 'someone', 'business',
+  'eyes', 'face', 'word', 'death', 'truth', 'fire', 'heaven', 'hell', 'sun', 'star', 'moon',
+  'earth', 'sky', 'sea', 'river', 'rain', 'snow', 'winter', 'summer', 'spring', 'autumn', 'fall',
+  'black', 'white', 'red', 'blue', 'green', 'yellow', 'orange', 'purple', 'pink', 'brown', 'gray',
+  'silver', 'gold', 'dark', 'bright', 'cold', 'hot', 'warm', 'sweet', 'angel', 'devil', 'dragon',
+  'tiger', 'lion', 'eagle', 'wolf', 'bear', 'horse', 'dog', 'cat', 'bird', 'fish', 'snake',
+  'monkey', 'rabbit', 'mouse', 'chicken', 'turtle', 'shark', 'spider', 'butterfly', 'flower',
+  'rose', 'lily', 'daisy', 'tree', 'forest', 'mountain', 'ocean', 'island', 'beach', 'desert',
+  'field', 'garden', 'country', 'state', 'nation', 'king', 'queen', 'prince', 'princess', 'lord',
+  'lady', 'knight', 'soldier', 'hunter', 'warrior', 'master', 'doctor', 'teacher', 'student',
+  'player', 'driver', 'captain', 'pilot', 'police', 'secret', 'magic', 'energy', 'force', 'spirit',
+  'soul', 'mind', 'body', 'blood', 'bone', 'skin', 'hair', 'sleep', 'awake', 'alive', 'free',
+  'freedom', 'peace', 'war', 'battle', 'fight', 'victory', 'glory', 'honor', 'pride', 'faith',
+  'hate', 'fear', 'anger', 'joy', 'pain', 'sorrow', 'smile', 'laugh', 'cry', 'kiss', 'hug',
+  'touch', 'honey', 'sugar', 'candy', 'chocolate', 'coffee', 'tea', 'milk', 'bread', 'butter',
+  'cheese', 'apple', 'banana', 'cherry', 'lemon', 'peach', 'pear', 'plum', 'grape', 'berry',
+  'melon', 'pizza', 'pasta', 'burger', 'cookie', 'cake', 'pie', 'soup', 'salad', 'rice', 'bean',
+  'corn', 'potato', 'tomato', 'carrot', 'onion', 'pepper', 'salt', 'spice', 'computer', 'phone',
+  'internet', 'email', 'password', 'login', 'access', 'admin', 'user', 'account', 'system',
+  'server', 'network', 'online', 'website', 'web', 'data', 'file', 'code', 'program', 'software',
+  'hardware', 'window', 'table', 'chair', 'bed', 'desk', 'book', 'paper', 'pen', 'pencil',
+  'letter', 'number', 'dollar', 'bank', 'card', 'credit', 'cash', 'price', 'shop', 'store',
+  'market', 'office', 'company', 'boss', 'team', 'job', 'career', 'daughter', 'uncle', 'aunt',
+  'cousin', 'grandma', 'grandpa', 'child', 'husband', 'lover', 'darling', 'sweetheart', 'monday',
+  'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'january', 'february',
+  'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november',
+  'december', 'today', 'tomorrow', 'yesterday', 'evening', 'midnight', 'hello', 'goodbye',
+  'welcome', 'thanks', 'forever', 'sometimes', 'everyone', 'nobody', 'football', 'baseball',
+  'soccer', 'hockey', 'tennis', 'golf', 'basketball', 'boxing', 'racing', 'running', 'swimming',
+  'fishing', 'hunting', 'rock', 'metal', 'jazz', 'blues', 'guitar', 'piano', 'drum', 'song',
+  'dance', 'movie', 'film', 'hero', 'legend', 'champion', 'winner', 'loser', 'killer', 'shadow',
+  'ghost', 'zombie', 'vampire', 'monster', 'demon', 'paradise', 'rainbow', 'thunder', 'lightning',
+  'storm', 'cloud', 'wind', 'ice', 'stone', 'diamond', 'crystal', 'pearl', 'ruby', 'emerald',
+  'jade', 'iron', 'steel',
+]
+
+// Common first names and surnames
+export const NAMES: readonly string[] = [
+  'james', 'john', 'robert', 'michael', 'william', 'david', 'richard', 'joseph', 'thomas',
+  'charles', 'christopher', 'daniel', 'matthew', 'anthony', 'mark', 'donald', 'steven', 'paul',
+  'andrew', 'joshua', 'kenneth', 'kevin', 'brian', 'george', 'timothy', 'ronald', 'edward',
+  'jason', 'jeffrey', 'ryan', 'jacob', 'gary', 'nicholas', 'eric', 'jonathan', 'stephen', 'larry',
+  'justin', 'scott', 'brandon', 'benjamin', 'samuel', 'gregory', 'alexander', 'frank', 'patrick',
+  'raymond', 'jack', 'dennis', 'jerry', 'tyler', 'aaron', 'jose', 'adam', 'nathan', 'henry',
+  'douglas', 'zachary', 'peter', 'kyle', 'ethan', 'walter', 'noah', 'jeremy', 'christian', 'keith',
+  'roger', 'terry', 'gerald', 'harold', 'sean', 'austin', 'carl', 'arthur', 'lawrence', 'dylan',
+  'jesse', 'jordan', 'bryan', 'billy', 'joe', 'bruce', 'gabriel', 'logan', 'albert', 'willie',
+  'alan', 'juan', 'wayne', 'elijah', 'randy', 'roy', 'vincent', 'ralph', 'eugene', 'russell',
+  'bobby', 'mason', 'philip', 'louis', 'mary', 'patricia', 'jennifer', 'linda', 'elizabeth',
+  'barbara', 'susan', 'jessica', 'sarah', 'karen', 'lisa', 'nancy', 'betty', 'margaret', 'sandra',
+  'ashley', 'kimberly', 'emily', 'donna', 'michelle', 'carol', 'amanda', 'dorothy', 'melissa',
+  'deborah', 'stephanie', 'rebecca', 'sharon', 'laura', 'cynthia', 'kathleen', 'amy', 'angela',
+  'shirley', 'anna', 'brenda', 'pamela', 'emma', 'nicole', 'helen', 'samantha', 'katherine',
+  'christine', 'debra', 'rachel', 'carolyn', 'janet', 'catherine', 'maria', 'heather', 'diane',
+  'ruth', 'julie', 'olivia', 'joyce', 'virginia', 'victoria', 'kelly', 'lauren', 'christina',
+  'joan', 'evelyn', 'judith', 'megan', 'andrea', 'cheryl', 'hannah', 'jacqueline', 'martha',
+  'gloria', 'teresa', 'ann', 'sara', 'madison', 'frances', 'kathryn', 'janice', 'jean', 'abigail',
+  'alice', 'judy', 'sophia', 'grace', 'denise', 'amber', 'doris', 'marilyn', 'danielle', 'beverly',
+  'isabella', 'theresa', 'diana', 'natalie', 'brittany', 'charlotte', 'marie', 'kayla', 'alexis',
+  'lori', 'alex', 'max', 'sam', 'charlie', 'lucy', 'daisy', 'bella', 'molly', 'sophie', 'chloe',
+  'jasmine', 'jessie', 'buddy', 'rocky', 'smith', 'johnson', 'williams', 'brown', 'jones',
+  'garcia', 'miller', 'davis', 'rodriguez', 'martinez', 'hernandez', 'lopez', 'gonzalez', 'wilson',
+  'anderson', 'taylor', 'moore', 'jackson', 'martin', 'lee', 'perez', 'thompson', 'white',
+  'harris', 'sanchez', 'clark', 'ramirez', 'lewis', 'robinson', 'walker', 'young', 'allen', 'king',
+  'wright', 'hill', 'green', 'adams', 'baker', 'nelson', 'carter', 'mitchell', 'roberts', 'turner',
+  'phillips', 'campbell', 'parker', 'evans', 'edwards', 'collins', 'stewart', 'morris', 'murphy',
+  'cook', 'rogers', 'morgan', 'cooper', 'peterson', 'reed', 'bailey', 'bell', 'howard', 'ward',
+  'cox', 'richardson', 'wood', 'watson', 'brooks', 'bennett', 'gray', 'hughes', 'price', 'sanders',
+  'myers', 'long', 'ross', 'foster',
+]
@@ -0,0 +1,153 @@
+import { GeneratedSecret, GeneratorSettings, PassphraseOptions, PasswordOptions } from '@/types'
+import { EFF_SHORT_WORDLIST } from '@/utils/effShortWordlist'
+
+/**
+ * Password and passphrase generation in the browser
+ *
+ * Mirrors PasswordGeneratorService on the server, so a generated password never has to
+ * cross the network before it is encrypted into an item. Randomness comes from
+ * crypto.getRandomValues, with rejection sampling to keep every choice uniform.
+ */
+
+export const MIN_LENGTH = 5
+export const MAX_LENGTH = 128
+export const MIN_WORDS = 3
+export const MAX_WORDS = 20
+export const MAX_SEPARATOR_LENGTH = 3
+
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+  type: 'password',
+  password: {
+    length: 20,
+    lowercase: true,
+    uppercase: true,
+    numbers: true,
+    symbols: true,
+    excludeAmbiguous: false,
+    minLowercase: 1,
+    minUppercase: 1,
+    minNumbers: 1,
+    minSymbols: 1,
+  },
+  passphrase: {
+    words: 6,
+    separator: '-',
+    capitalize: false,
+  },
+}
+
+const CHARACTER_CLASSES = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  numbers: '0123456789',
+  symbols: '!@#$%^&*()-_=+[]{};:,.<>/?~',
+}
+
+type CharacterClass = keyof typeof CHARACTER_CLASSES
+
+const MINIMUMS = {
+  lowercase: 'minLowercase',
+  uppercase: 'minUppercase',
+  numbers: 'minNumbers',
+  symbols: 'minSymbols',
+} as const
+
+const AMBIGUOUS_CHARACTERS = /[0Oo1Il|]/g
+
+/**
+ * A uniform integer in [0, max)
+ */
+const randomInt = (max: number): number => {
+  // Largest multiple of max below 2^32, so the modulo carries no bias
+  const limit = Math.floor(0x100000000 / max) * max
+  const buffer = new Uint32Array(1)
+  do {
+    crypto.getRandomValues(buffer)
+  } while (buffer[0] >= limit)
+  return buffer[0] % max
+}
+
+const round = (bits: number): number => Math.round(bits * 10) / 10
+
+const getCharacterClasses = (options: PasswordOptions): Record<CharacterClass, string> => {
+  const filter = (characters: string) =>
+    options.excludeAmbiguous ? characters.replace(AMBIGUOUS_CHARACTERS, '') : characters
+
+  return {
+    lowercase: options.lowercase ? filter(CHARACTER_CLASSES.lowercase) : '',
+    uppercase: options.uppercase ? filter(CHARACTER_CLASSES.uppercase) : '',
+    numbers: options.numbers ? filter(CHARACTER_CLASSES.numbers) : '',
+    symbols: options.symbols ? filter(CHARACTER_CLASSES.symbols) : '',
+  }
+}
+
+/**
+ * Generate a password: each class's minimum is drawn from that class, the rest from every
+ * enabled class together, and the result is shuffled
+ */
+export const generatePassword = (options: PasswordOptions): GeneratedSecret => {
+  if (!Number.isInteger(options.length) || options.length < MIN_LENGTH || options.length > MAX_LENGTH) {
+    throw new Error(`Length must be between ${MIN_LENGTH} and ${MAX_LENGTH}`)
+  }
+
+  const classes = getCharacterClasses(options)
+  const required = (Object.keys(classes) as CharacterClass[])
+    .filter(name => classes[name])
+    .map(name => ({ characters: classes[name], count: Math.max(0, Math.floor(options[MINIMUMS[name]] || 0)) }))
+  const pool = Object.values(classes).join('')
+  const requiredCount = required.reduce((total, entry) => total + entry.count, 0)
+
+  if (!pool) {
+    throw new Error('Enable at least one character class')
+  }
+  if (requiredCount > options.length) {
+    throw new Error('Minimum character counts exceed the length')
+  }
+
+  const characters: string[] = []
+  for (const entry of required) {
+    for (let i = 0; i < entry.count; i++) {
+      characters.push(entry.characters[randomInt(entry.characters.length)])
+    }
+  }
+  while (characters.length < options.length) {
+    characters.push(pool[randomInt(pool.length)])
+  }
+
+  // Fisher-Yates, so required characters can land anywhere
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1)
+    ;[characters[i], characters[j]] = [characters[j], characters[i]]
+  }
+
+  // Entropy of the draws before shuffling, which the shuffle can only add to
+  const entropyBits = required.reduce((bits, entry) => bits + entry.count * Math.log2(entry.characters.length), 0)
+    + (options.length - requiredCount) * Math.log2(pool.length)
+
+  return { value: characters.join(''), entropyBits: round(entropyBits) }
+}
+
+/**
+ * Generate a diceware passphrase from the EFF short wordlist
+ */
+export const generatePassphrase = (options: PassphraseOptions): GeneratedSecret => {
+  if (!Number.isInteger(options.words) || options.words < MIN_WORDS || options.words > MAX_WORDS) {
+    throw new Error(`Word count must be between ${MIN_WORDS} and ${MAX_WORDS}`)
+  }
+  if (options.separator.length > MAX_SEPARATOR_LENGTH) {
+    throw new Error(`Separator can be at most ${MAX_SEPARATOR_LENGTH} characters`)
+  }
+
+  const words = Array.from({ length: options.words }, () => {
+    const word = EFF_SHORT_WORDLIST[randomInt(EFF_SHORT_WORDLIST.length)]
+    return options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word
+  })
+
+  return {
+    value: words.join(options.separator),
+    entropyBits: round(options.words * Math.log2(EFF_SHORT_WORDLIST.length)),
+  }
+}
+
+export const generate = (settings: GeneratorSettings): GeneratedSecret =>
+  settings.type === 'passphrase' ? generatePassphrase(settings.passphrase) : generatePassword(settings.password)
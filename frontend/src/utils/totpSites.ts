@@ -0,0 +1,133 @@
+/**
+ * Sites known to accept codes from an authenticator app (TOTP) as a second factor
+ *
+ * Drawn from the 2FA Directory (2fa.directory). Only registrable domains are listed; a login
+ * matches when its host is the domain or one of its subdomains. Sites that only offer SMS,
+ * email or their own app are left out, since a vault TOTP seed cannot stand in for those.
+ */
+const TOTP_DOMAINS = new Set([
+  '1password.com',
+  'adobe.com',
+  'airbnb.com',
+  'airtable.com',
+  'amazon.com',
+  'asana.com',
+  'atlassian.com',
+  'auth0.com',
+  'backblaze.com',
+  'binance.com',
+  'bitbucket.org',
+  'bitwarden.com',
+  'bitstamp.net',
+  'box.com',
+  'canva.com',
+  'circleci.com',
+  'cloudflare.com',
+  'coinbase.com',
+  'datadoghq.com',
+  'digitalocean.com',
+  'discord.com',
+  'docker.com',
+  'dropbox.com',
+  'ea.com',
+  'ebay.com',
+  'epicgames.com',
+  'etsy.com',
+  'evernote.com',
+  'facebook.com',
+  'fastmail.com',
+  'figma.com',
+  'firefox.com',
+  'gandi.net',
+  'gemini.com',
+  'github.com',
+  'gitlab.com',
+  'godaddy.com',
+  'google.com',
+  'hackerone.com',
+  'heroku.com',
+  'hetzner.com',
+  'hubspot.com',
+  'instagram.com',
+  'kickstarter.com',
+  'kraken.com',
+  'lastpass.com',
+  'linkedin.com',
+  'linode.com',
+  'live.com',
+  'mailchimp.com',
+  'mailgun.com',
+  'mega.nz',
+  'microsoft.com',
+  'namecheap.com',
+  'netlify.com',
+  'nintendo.com',
+  'notion.so',
+  'npmjs.com',
+  'okta.com',
+  'openai.com',
+  'outlook.com',
+  'ovh.com',
+  'patreon.com',
+  'paypal.com',
+  'pinterest.com',
+  'playstation.com',
+  'porkbun.com',
+  'proton.me',
+  'protonmail.com',
+  'pypi.org',
+  'reddit.com',
+  'robinhood.com',
+  'salesforce.com',
+  'sendgrid.com',
+  'sentry.io',
+  'shopify.com',
+  'slack.com',
+  'snapchat.com',
+  'squarespace.com',
+  'stripe.com',
+  'tiktok.com',
+  'trello.com',
+  'tumblr.com',
+  'twilio.com',
+  'twitch.tv',
+  'twitter.com',
+  'ubisoft.com',
+  'vercel.com',
+  'vultr.com',
+  'wise.com',
+  'wix.com',
+  'wordpress.com',
+  'x.com',
+  'xbox.com',
+  'yahoo.com',
+  'zendesk.com',
+  'zoho.com',
+  'zoom.us',
+])
+
+const getHost = (url: string): string | null => {
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(url) ? url : `https://${url}`).hostname.toLowerCase()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether the site a login is for lets its users add authenticator codes
+ */
+export const supportsTotp = (url: string | undefined): boolean => {
+  const host = url && getHost(url.trim())
+  if (!host) {
+    return false
+  }
+
+  const labels = host.replace(/^www\./, '').split('.')
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (TOTP_DOMAINS.has(labels.slice(i).join('.'))) {
+      return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,599 @@
+import { argon2id } from 'hash-wasm'
+import { Attachment, KdfConfig, KdfParams, SendAccess, SendType, VaultItemData } from '@/types'
+
+/**
+ * Client-side vault encryption with WebCrypto
+ *
+ * The master key is derived from the master password in the browser and never leaves it.
+ * It wraps a random vault key, and the vault key wraps a fresh data key for every item.
+ * The server only receives ciphertext, the wrapped vault key and a master password hash
+ * that proves knowledge of the master password without revealing it.
+ *
+ * Shared items are the exception: their data key is wrapped with each recipient's RSA-OAEP
+ * public key, and each user's private key is in turn wrapped by their vault key.
+ *
+ * Sends are encrypted under a random key that only travels in the fragment of their link,
+ * which browsers never send to the server.
+ *
+ * Attachments get a key of their own wrapped by their item's data key, so when that key
+ * changes only the wrapped attachment keys need to follow, never the files.
+ */
+
+const KEY_LENGTH_BITS = 256
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+const SALT_LENGTH = 32
+const SEARCH_TOKEN_LENGTH = 16
+
+const RSA_ALGORITHM: RsaHashedImportParams = { name: 'RSA-OAEP', hash: 'SHA-256' }
+const RSA_MODULUS_LENGTH = 3072
+
+// Mirrors KdfService.CURRENT on the server
+export const DEFAULT_KDF: KdfConfig = {
+  algorithm: 'argon2id',
+  iterations: 3,
+  memory: 65536,
+  parallelism: 4,
+  version: 2,
+}
+
+export interface EncryptedItem {
+  encryptedData: string
+  encryptedDataKey: string
+  iv: string
+  tag: string
+  algorithm: 'aes'
+}
+
+export interface SharedCiphertext {
+  encryptedData: string
+  iv: string
+  tag: string
+  algorithm: 'aes'
+}
+
+// A data key wrapped with one recipient's public key
+export interface RecipientKey {
+  userId: string
+  encryptedDataKey: string
+}
+
+export interface SharedEncryptedItem extends SharedCiphertext {
+  keys: RecipientKey[]
+}
+
+export interface Recipient {
+  userId: string
+  publicKey: string
+}
+
+// A vault item's data key wrapped for one user it is shared with
+export interface ShareKey {
+  shareId: string
+  encryptedDataKey: string
+}
+
+// An attachment key wrapped by an item's new data key
+export interface AttachmentKey {
+  attachmentId: string
+  encryptedKey: string
+}
+
+export interface EncryptedAttachment {
+  // iv || ciphertext || tag, uploaded as is
+  content: Uint8Array
+  encryptedFileName: string
+  encryptedKey: string
+}
+
+export interface ShareRecipient {
+  shareId: string
+  publicKey: string
+}
+
+// A send's contents once decrypted
+export type SendContent =
+  | { type: 'text'; text: string }
+  | { type: 'file'; fileName: string; data: Uint8Array }
+
+export interface EncryptedSend {
+  type: SendType
+  encryptedData: string
+  iv: string
+  tag: string
+  encryptedFileName: string | null
+  encryptedKey: string
+}
+
+export interface KeyPair {
+  publicKey: string
+  encryptedPrivateKey: string
+  privateKey: CryptoKey
+}
+
+export interface VaultKeyMaterial {
+  masterPasswordHash: string
+  masterKeySalt: string
+  encryptedVaultKey: string
+  kdf: KdfConfig
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+
+// URL-safe without padding, for keys carried in a link
+const toBase64Url = (bytes: Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const fromBase64Url = (value: string) =>
+  fromBase64(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='))
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+const fromHex = (value: string) =>
+  new Uint8Array((value.match(/.{2}/g) || []).map((byte) => parseInt(byte, 16)))
+
+const importAesKey = (raw: BufferSource): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', raw, 'AES-GCM', true, ['encrypt', 'decrypt'])
+
+/**
+ * AES-GCM encrypt, returning the IV, ciphertext and tag separately
+ */
+const seal = async (plaintext: BufferSource, key: CryptoKey) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext))
+
+  return {
+    iv,
+    ciphertext: sealed.slice(0, sealed.length - TAG_LENGTH),
+    tag: sealed.slice(sealed.length - TAG_LENGTH),
+  }
+}
+
+const open = async (iv: BufferSource, ciphertext: Uint8Array, tag: Uint8Array, key: CryptoKey) => {
+  const sealed = new Uint8Array(ciphertext.length + tag.length)
+  sealed.set(ciphertext)
+  sealed.set(tag, ciphertext.length)
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, sealed))
+}
+
+/**
+ * Encrypt as a single iv || ciphertext || tag buffer
+ */
+const sealToBytes = async (plaintext: Uint8Array, key: CryptoKey): Promise<Uint8Array> => {
+  const { iv, ciphertext, tag } = await seal(new Uint8Array(plaintext), key)
+
+  const sealed = new Uint8Array(iv.length + ciphertext.length + tag.length)
+  sealed.set(iv)
+  sealed.set(ciphertext, iv.length)
+  sealed.set(tag, iv.length + ciphertext.length)
+  return sealed
+}
+
+const sealToBase64 = async (plaintext: Uint8Array, key: CryptoKey): Promise<string> =>
+  toBase64(await sealToBytes(plaintext, key))
+
+const openBytes = (bytes: Uint8Array, key: CryptoKey): Promise<Uint8Array> =>
+  open(
+    bytes.slice(0, IV_LENGTH),
+    bytes.slice(IV_LENGTH, bytes.length - TAG_LENGTH),
+    bytes.slice(bytes.length - TAG_LENGTH),
+    key
+  )
+
+const openFromBase64 = (sealed: string, key: CryptoKey): Promise<Uint8Array> =>
+  openBytes(fromBase64(sealed), key)
+
+const wrapKey = async (key: CryptoKey, wrappingKey: CryptoKey): Promise<string> =>
+  sealToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)), wrappingKey)
+
+const unwrapKey = async (wrapped: string, wrappingKey: CryptoKey): Promise<CryptoKey> =>
+  importAesKey(new Uint8Array(await openFromBase64(wrapped, wrappingKey)))
+
+const importPublicKey = (publicKey: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('spki', fromBase64(publicKey), RSA_ALGORITHM, false, ['encrypt'])
+
+const wrapKeyFor = async (key: CryptoKey, publicKey: string): Promise<string> => {
+  const raw = await crypto.subtle.exportKey('raw', key)
+  return toBase64(new Uint8Array(await crypto.subtle.encrypt(RSA_ALGORITHM, await importPublicKey(publicKey), raw)))
+}
+
+const unwrapKeyWith = async (wrapped: string, privateKey: CryptoKey): Promise<CryptoKey> =>
+  importAesKey(await crypto.subtle.decrypt(RSA_ALGORITHM, privateKey, fromBase64(wrapped)))
+
+/**
+ * Encrypt item data under a given data key
+ */
+const encryptData = async (data: VaultItemData, dataKey: CryptoKey): Promise<SharedCiphertext> => {
+  const { iv, ciphertext, tag } = await seal(encoder.encode(JSON.stringify(data)), dataKey)
+
+  return {
+    encryptedData: toBase64(ciphertext),
+    iv: toBase64(iv),
+    tag: toBase64(tag),
+    algorithm: 'aes',
+  }
+}
+
+const decryptData = async (
+  item: Pick<SharedCiphertext, 'encryptedData' | 'iv' | 'tag'>,
+  dataKey: CryptoKey
+): Promise<VaultItemData> => {
+  const plaintext = await open(fromBase64(item.iv), fromBase64(item.encryptedData), fromBase64(item.tag), dataKey)
+  return JSON.parse(decoder.decode(plaintext))
+}
+
+export const generateKdfSalt = (): string =>
+  toHex(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)))
+
+/**
+ * Derive the master key from the master password
+ * PBKDF2 is kept for accounts that have not been upgraded; it matches the server's legacy derivation.
+ */
+export const deriveMasterKey = async (masterPassword: string, kdf: KdfParams): Promise<CryptoKey> => {
+  if (kdf.algorithm === 'argon2id') {
+    const raw = await argon2id({
+      password: masterPassword,
+      salt: fromHex(kdf.salt),
+      iterations: kdf.iterations,
+      memorySize: kdf.memory!,
+      parallelism: kdf.parallelism!,
+      hashLength: KEY_LENGTH_BITS / 8,
+      outputType: 'binary',
+    })
+    return importAesKey(new Uint8Array(raw))
+  }
+
+  const material = await crypto.subtle.importKey('raw', encoder.encode(masterPassword), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-512', salt: fromHex(kdf.salt), iterations: kdf.iterations },
+    material,
+    KEY_LENGTH_BITS
+  )
+  return importAesKey(new Uint8Array(bits))
+}
+
+/**
+ * Hash the master key once more with the master password as salt
+ * This is what the server stores and verifies; it cannot be turned back into the master key.
+ */
+export const deriveMasterPasswordHash = async (masterKey: CryptoKey, masterPassword: string): Promise<string> => {
+  const raw = await crypto.subtle.exportKey('raw', masterKey)
+  const material = await crypto.subtle.importKey('raw', raw, 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(masterPassword), iterations: 1 },
+    material,
+    KEY_LENGTH_BITS
+  )
+  return toBase64(new Uint8Array(bits))
+}
+
+export const generateVaultKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: KEY_LENGTH_BITS }, true, ['encrypt', 'decrypt'])
+
+export const wrapVaultKey = (vaultKey: CryptoKey, masterKey: CryptoKey): Promise<string> =>
+  wrapKey(vaultKey, masterKey)
+
+/**
+ * Open the wrapped vault key; fails when the master key is wrong
+ */
+export const unwrapVaultKey = async (encryptedVaultKey: string, masterKey: CryptoKey): Promise<CryptoKey> => {
+  try {
+    return await unwrapKey(encryptedVaultKey, masterKey)
+  } catch {
+    throw new Error('Invalid master password')
+  }
+}
+
+/**
+ * Derive everything the server needs from a master password, under a fresh salt
+ */
+export const createVaultKeyMaterial = async (
+  masterPassword: string,
+  vaultKey: CryptoKey,
+  config: KdfConfig = DEFAULT_KDF
+): Promise<VaultKeyMaterial> => {
+  const kdf = { ...config, salt: generateKdfSalt() }
+  const masterKey = await deriveMasterKey(masterPassword, kdf)
+
+  return {
+    masterPasswordHash: await deriveMasterPasswordHash(masterKey, masterPassword),
+    masterKeySalt: kdf.salt,
+    encryptedVaultKey: await wrapVaultKey(vaultKey, masterKey),
+    kdf: config,
+  }
+}
+
+/**
+ * Encrypt item data under a fresh data key wrapped by the vault key
+ */
+export const encryptItem = async (data: VaultItemData, vaultKey: CryptoKey): Promise<EncryptedItem> => {
+  const dataKey = await generateVaultKey()
+
+  return {
+    ...(await encryptData(data, dataKey)),
+    encryptedDataKey: await wrapKey(dataKey, vaultKey),
+  }
+}
+
+/**
+ * Encrypt item data under a fresh data key wrapped by the vault key and for each share of the item
+ */
+export const encryptItemForShares = async (
+  data: VaultItemData,
+  vaultKey: CryptoKey,
+  shares: ShareRecipient[]
+): Promise<EncryptedItem & { shareKeys: ShareKey[] }> => {
+  const dataKey = await generateVaultKey()
+
+  return {
+    ...(await encryptData(data, dataKey)),
+    encryptedDataKey: await wrapKey(dataKey, vaultKey),
+    shareKeys: await Promise.all(shares.map(async (share) => ({
+      shareId: share.shareId,
+      encryptedDataKey: await wrapKeyFor(dataKey, share.publicKey),
+    }))),
+  }
+}
+
+/**
+ * Wrap a vault item's data key, opened with the vault key, for another user's public key
+ */
+export const wrapItemKeyFor = async (encryptedDataKey: string, vaultKey: CryptoKey, publicKey: string): Promise<string> =>
+  wrapKeyFor(await unwrapKey(encryptedDataKey, vaultKey), publicKey)
+
+/**
+ * Encrypt a file under a fresh attachment key wrapped by the item's data key
+ */
+export const encryptAttachment = async (
+  file: { fileName: string; data: Uint8Array },
+  encryptedDataKey: string,
+  vaultKey: CryptoKey
+): Promise<EncryptedAttachment> => {
+  const attachmentKey = await generateVaultKey()
+
+  return {
+    content: await sealToBytes(new Uint8Array(file.data), attachmentKey),
+    encryptedFileName: await sealToBase64(encoder.encode(file.fileName), attachmentKey),
+    encryptedKey: await wrapKey(attachmentKey, await unwrapKey(encryptedDataKey, vaultKey)),
+  }
+}
+
+export const decryptAttachmentName = async (
+  attachment: Pick<Attachment, 'encryptedFileName' | 'encryptedKey'>,
+  encryptedDataKey: string,
+  vaultKey: CryptoKey
+): Promise<string> => {
+  const attachmentKey = await unwrapKey(attachment.encryptedKey, await unwrapKey(encryptedDataKey, vaultKey))
+  return decoder.decode(await openFromBase64(attachment.encryptedFileName, attachmentKey))
+}
+
+export const decryptAttachment = async (
+  attachment: Pick<Attachment, 'encryptedFileName' | 'encryptedKey'>,
+  content: Uint8Array,
+  encryptedDataKey: string,
+  vaultKey: CryptoKey
+): Promise<{ fileName: string; data: Uint8Array }> => {
+  const attachmentKey = await unwrapKey(attachment.encryptedKey, await unwrapKey(encryptedDataKey, vaultKey))
+
+  return {
+    fileName: decoder.decode(await openFromBase64(attachment.encryptedFileName, attachmentKey)),
+    data: await openBytes(content, attachmentKey),
+  }
+}
+
+/**
+ * Re-wrap an item's attachment keys when the item moves to another data key
+ * Only the small keys change hands; the files themselves are never re-encrypted.
+ */
+export const rewrapAttachmentKeys = async (
+  attachments: Pick<Attachment, 'id' | 'encryptedKey'>[],
+  fromEncryptedDataKey: string,
+  toEncryptedDataKey: string,
+  vaultKey: CryptoKey
+): Promise<AttachmentKey[]> => {
+  const fromKey = await unwrapKey(fromEncryptedDataKey, vaultKey)
+  const toKey = await unwrapKey(toEncryptedDataKey, vaultKey)
+
+  return Promise.all(attachments.map(async (attachment) => ({
+    attachmentId: attachment.id,
+    encryptedKey: await wrapKey(await unwrapKey(attachment.encryptedKey, fromKey), toKey),
+  })))
+}
+
+/**
+ * Encrypt a short string, such as a folder name, directly under the vault key
+ */
+export const encryptText = (value: string, vaultKey: CryptoKey): Promise<string> =>
+  sealToBase64(encoder.encode(value), vaultKey)
+
+export const decryptText = async (sealed: string, vaultKey: CryptoKey): Promise<string> =>
+  decoder.decode(await openFromBase64(sealed, vaultKey))
+
+export const decryptItem = async (
+  item: Pick<EncryptedItem, 'encryptedData' | 'encryptedDataKey' | 'iv' | 'tag'>,
+  vaultKey: CryptoKey
+): Promise<VaultItemData> => {
+  return decryptData(item, await unwrapKey(item.encryptedDataKey, vaultKey))
+}
+
+/**
+ * Generate the keypair others wrap shared data keys for, with the private key wrapped by the vault key
+ */
+export const generateKeyPair = async (vaultKey: CryptoKey): Promise<KeyPair> => {
+  const { publicKey, privateKey } = await crypto.subtle.generateKey(
+    { ...RSA_ALGORITHM, modulusLength: RSA_MODULUS_LENGTH, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ['encrypt', 'decrypt']
+  )
+
+  return {
+    publicKey: toBase64(new Uint8Array(await crypto.subtle.exportKey('spki', publicKey))),
+    encryptedPrivateKey: await sealToBase64(new Uint8Array(await crypto.subtle.exportKey('pkcs8', privateKey)), vaultKey),
+    privateKey,
+  }
+}
+
+export const unwrapPrivateKey = async (encryptedPrivateKey: string, vaultKey: CryptoKey): Promise<CryptoKey> =>
+  crypto.subtle.importKey('pkcs8', new Uint8Array(await openFromBase64(encryptedPrivateKey, vaultKey)), RSA_ALGORITHM, false, ['decrypt'])
+
+/**
+ * SHA-256 of a public key in groups of four hex digits, as EncryptionService.publicKeyFingerprint
+ * Computed here rather than taken from the server, so comparing it out of band proves the key is genuine.
+ */
+export const getPublicKeyFingerprint = async (publicKey: string): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64(publicKey)))
+  const hex = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')
+  return hex.match(/.{4}/g)!.join(' ')
+}
+
+/**
+ * Encrypt item data under a fresh data key wrapped for each recipient
+ */
+export const encryptSharedItem = async (data: VaultItemData, recipients: Recipient[]): Promise<SharedEncryptedItem> => {
+  const dataKey = await generateVaultKey()
+
+  return {
+    ...(await encryptData(data, dataKey)),
+    keys: await Promise.all(recipients.map(async (recipient) => ({
+      userId: recipient.userId,
+      encryptedDataKey: await wrapKeyFor(dataKey, recipient.publicKey),
+    }))),
+  }
+}
+
+/**
+ * Re-encrypt a shared item under its existing data key, so every recipient's copy stays valid
+ */
+export const reencryptSharedItem = async (
+  data: VaultItemData,
+  encryptedDataKey: string,
+  privateKey: CryptoKey
+): Promise<SharedCiphertext> =>
+  encryptData(data, await unwrapKeyWith(encryptedDataKey, privateKey))
+
+export const decryptSharedItem = async (
+  item: Pick<EncryptedItem, 'encryptedData' | 'encryptedDataKey' | 'iv' | 'tag'>,
+  privateKey: CryptoKey
+): Promise<VaultItemData> =>
+  decryptData(item, await unwrapKeyWith(item.encryptedDataKey, privateKey))
+
+/**
+ * Wrap a shared item's data key, opened with our private key, for another recipient
+ */
+export const rewrapSharedKey = async (
+  encryptedDataKey: string,
+  privateKey: CryptoKey,
+  recipientPublicKey: string
+): Promise<string> =>
+  wrapKeyFor(await unwrapKeyWith(encryptedDataKey, privateKey), recipientPublicKey)
+
+/**
+ * Encrypt a text or file under a fresh send key
+ * The key is returned for the fragment of the link, and wrapped by the vault key so the owner can copy the link again.
+ */
+export const encryptSend = async (content: SendContent, vaultKey: CryptoKey): Promise<{ send: EncryptedSend; key: string }> => {
+  const sendKey = await generateVaultKey()
+  const plaintext = content.type === 'text' ? encoder.encode(content.text) : new Uint8Array(content.data)
+  const { iv, ciphertext, tag } = await seal(plaintext, sendKey)
+
+  return {
+    send: {
+      type: content.type,
+      encryptedData: toBase64(ciphertext),
+      iv: toBase64(iv),
+      tag: toBase64(tag),
+      encryptedFileName: content.type === 'file' ? await sealToBase64(encoder.encode(content.fileName), sendKey) : null,
+      encryptedKey: await wrapKey(sendKey, vaultKey),
+    },
+    key: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', sendKey))),
+  }
+}
+
+/**
+ * Recover the key for the link of one of our own sends
+ */
+export const openSendKey = async (encryptedKey: string, vaultKey: CryptoKey): Promise<string> =>
+  toBase64Url(await openFromBase64(encryptedKey, vaultKey))
+
+export const decryptSend = async (
+  send: Pick<SendAccess, 'type' | 'encryptedData' | 'iv' | 'tag' | 'encryptedFileName'>,
+  key: string
+): Promise<SendContent> => {
+  const sendKey = await importAesKey(fromBase64Url(key))
+  const plaintext = await open(fromBase64(send.iv), fromBase64(send.encryptedData), fromBase64(send.tag), sendKey)
+
+  if (send.type === 'file' && send.encryptedFileName) {
+    return {
+      type: 'file',
+      fileName: decoder.decode(await openFromBase64(send.encryptedFileName, sendKey)),
+      data: plaintext,
+    }
+  }
+  return { type: 'text', text: decoder.decode(plaintext) }
+}
+
+/**
+ * Derive the key for blind search tokens from the vault key
+ * A separate key keeps tokens from being usable as anything but equality tests.
+ */
+export const deriveSearchKey = async (vaultKey: CryptoKey): Promise<CryptoKey> => {
+  const raw = await crypto.subtle.exportKey('raw', vaultKey)
+  const material = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode('vault-search-index') },
+    material,
+    { name: 'HMAC', hash: 'SHA-256', length: KEY_LENGTH_BITS },
+    false,
+    ['sign']
+  )
+}
+
+/**
+ * Truncated HMAC of a normalized search term; equal terms always give equal tokens
+ */
+export const createSearchToken = async (term: string, searchKey: CryptoKey): Promise<string> => {
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', searchKey, encoder.encode(term)))
+  return toBase64(mac.slice(0, SEARCH_TOKEN_LENGTH))
+}
+
+/**
+ * Derive the key for Watchtower password hashes from the vault key
+ * Kept apart from the search key so a password hash never equals the search token of a term.
+ */
+export const deriveHealthKey = async (vaultKey: CryptoKey): Promise<CryptoKey> => {
+  const raw = await crypto.subtle.exportKey('raw', vaultKey)
+  const material = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode('vault-password-health') },
+    material,
+    { name: 'HMAC', hash: 'SHA-256', length: KEY_LENGTH_BITS },
+    false,
+    ['sign']
+  )
+}
+
+/**
+ * Full HMAC of a password, so the server can tell reused passwords apart without learning them
+ * Not truncated: a collision would report two different passwords as reused.
+ */
+export const createPasswordHash = async (password: string, healthKey: CryptoKey): Promise<string> =>
+  toBase64(new Uint8Array(await crypto.subtle.sign('HMAC', healthKey, encoder.encode(password))))
+
+/**
+ * Upper-case hex SHA-1 of a password, as Pwned Passwords ranges are keyed
+ */
+export const sha1Hex = async (value: string): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-1', encoder.encode(value)))).toUpperCase()
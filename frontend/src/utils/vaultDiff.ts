@@ -0,0 +1,54 @@
+import { VaultItemData } from '@/types'
+
+export type FieldChangeKind = 'added' | 'removed' | 'changed'
+
+export interface FieldChange {
+  field: keyof VaultItemData
+  kind: FieldChangeKind
+  before?: string
+  after?: string
+}
+
+// Masked in diffs until the user asks to see them
+export const SENSITIVE_FIELDS: (keyof VaultItemData)[] = ['password', 'totp', 'cardNumber', 'cvv', 'ssn']
+
+const FIELD_LABELS: Partial<Record<keyof VaultItemData, string>> = {
+  cardNumber: 'Card number',
+  cardholderName: 'Cardholder name',
+  expiryMonth: 'Expiry month',
+  expiryYear: 'Expiry year',
+  cvv: 'CVV',
+  firstName: 'First name',
+  lastName: 'Last name',
+  zipCode: 'ZIP code',
+  dateOfBirth: 'Date of birth',
+  ssn: 'SSN',
+  url: 'URL',
+  totp: 'Authenticator key',
+}
+
+export const getFieldLabel = (field: keyof VaultItemData): string =>
+  FIELD_LABELS[field] || field.charAt(0).toUpperCase() + field.slice(1)
+
+/**
+ * Field-level differences between two decrypted payloads, in a stable field order
+ */
+export const diffItemData = (before: VaultItemData, after: VaultItemData): FieldChange[] => {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])) as (keyof VaultItemData)[]
+
+  return fields.sort().flatMap((field): FieldChange[] => {
+    const previous = before[field] || undefined
+    const next = after[field] || undefined
+
+    if (previous === next) {
+      return []
+    }
+    if (previous === undefined) {
+      return [{ field, kind: 'added', after: next }]
+    }
+    if (next === undefined) {
+      return [{ field, kind: 'removed', before: previous }]
+    }
+    return [{ field, kind: 'changed', before: previous, after: next }]
+  })
+}
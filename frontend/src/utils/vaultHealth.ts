@@ -0,0 +1,74 @@
+import { VaultItemData } from '@/types'
+import { createPasswordHash, sha1Hex } from '@/utils/vaultCrypto'
+import { estimatePasswordStrength } from '@/utils/passwordStrength'
+import { supportsTotp } from '@/utils/totpSites'
+
+/**
+ * Watchtower health of login items
+ *
+ * Each login is checked in the browser and only the outcome is sent to the server: a keyed
+ * hash of the password for spotting reuse, its strength score, how often it was breached and
+ * whether the site offers authenticator codes. Breaches are looked up by the first five
+ * characters of the password's SHA-1 hash, so neither the password nor its hash leaves here.
+ */
+
+// Bump when what is checked or how passwords are hashed changes so stored health is rechecked
+export const HEALTH_VERSION = 1
+
+export interface ItemHealthReport {
+  version: number
+  passwordHash: string | null
+  strength: number | null
+  // Null when the breach check could not be completed
+  breachCount: number | null
+  hasTotp: boolean
+  totpSupported: boolean
+}
+
+// How often a password appears in known breaches, or null if that could not be found out
+export type BreachChecker = (password: string) => Promise<number | null>
+
+/**
+ * Breach checks against hash ranges from `getRange`
+ * Ranges are kept for the checker's lifetime, so a scan fetches each prefix once.
+ */
+export const createBreachChecker = (getRange: (prefix: string) => Promise<Record<string, number>>): BreachChecker => {
+  const ranges = new Map<string, Promise<Record<string, number>>>()
+
+  return async (password) => {
+    const hash = await sha1Hex(password)
+    const prefix = hash.slice(0, 5)
+    if (!ranges.has(prefix)) {
+      ranges.set(prefix, getRange(prefix))
+    }
+
+    try {
+      return (await ranges.get(prefix)!)[hash.slice(5)] ?? 0
+    } catch {
+      // Left unchecked this time; the next scan tries again
+      ranges.delete(prefix)
+      return null
+    }
+  }
+}
+
+/**
+ * Check one login
+ */
+export const createItemHealth = async (
+  data: VaultItemData,
+  healthKey: CryptoKey,
+  checkBreach: BreachChecker
+): Promise<ItemHealthReport> => {
+  const password = data.password || ''
+  const userInputs = [data.title, data.username, data.email].filter((value): value is string => !!value)
+
+  return {
+    version: HEALTH_VERSION,
+    passwordHash: password ? await createPasswordHash(password, healthKey) : null,
+    strength: password ? estimatePasswordStrength(password, userInputs).score : null,
+    breachCount: password ? await checkBreach(password) : null,
+    hasTotp: !!data.totp?.trim(),
+    totpSupported: supportsTotp(data.url),
+  }
+}
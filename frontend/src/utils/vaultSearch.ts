@@ -0,0 +1,87 @@
+import { VaultItemData } from '@/types'
+import { createSearchToken } from '@/utils/vaultCrypto'
+
+/**
+ * Blind search index for client-encrypted vault items
+ *
+ * Every word prefix of an item's name, site and account fields is turned into a keyed token
+ * in the browser. The server stores the tokens and matches queries by token equality, so it
+ * learns which items share a term but never the term itself.
+ */
+
+// Bump when the indexed fields or normalization change so stored indexes are rebuilt
+export const SEARCH_INDEX_VERSION = 1
+
+const MIN_TERM_LENGTH = 2
+const MAX_TERM_LENGTH = 32
+// Matches the server's per-item limit
+const MAX_TOKENS = 512
+// Matches the server's per-query limit
+const MAX_QUERY_TERMS = 16
+
+const INDEXED_FIELDS: (keyof VaultItemData)[] = [
+  'title',
+  'username',
+  'email',
+  'cardholderName',
+  'firstName',
+  'lastName',
+]
+
+export interface SearchIndex {
+  searchTokens: string[]
+  searchIndexVersion: number
+}
+
+const toWords = (value: string): string[] =>
+  value
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= MIN_TERM_LENGTH)
+    .map((word) => word.slice(0, MAX_TERM_LENGTH))
+
+const getHost = (url: string): string | null => {
+  try {
+    const { hostname } = new URL(url.includes('://') ? url : `https://${url}`)
+    return hostname.replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Terms an item can be found by: every prefix of every word, so partial queries still match
+ */
+const getIndexTerms = (data: VaultItemData): string[] => {
+  const values = INDEXED_FIELDS.map((field) => data[field]).filter((value): value is string => !!value)
+  const host = data.url && getHost(data.url)
+  if (host) {
+    values.push(host)
+  }
+
+  const terms = new Set<string>()
+  values.flatMap(toWords).forEach((word) => {
+    for (let length = MIN_TERM_LENGTH; length <= word.length; length++) {
+      terms.add(word.slice(0, length))
+    }
+  })
+  return Array.from(terms)
+}
+
+export const createSearchIndex = async (data: VaultItemData, searchKey: CryptoKey): Promise<SearchIndex> => {
+  const tokens = await Promise.all(getIndexTerms(data).map((term) => createSearchToken(term, searchKey)))
+
+  return {
+    searchTokens: tokens.slice(0, MAX_TOKENS),
+    searchIndexVersion: SEARCH_INDEX_VERSION,
+  }
+}
+
+/**
+ * Tokens for a search query; an item matches when it carries all of them
+ */
+export const createQueryTokens = async (query: string, searchKey: CryptoKey): Promise<string[]> => {
+  const words = Array.from(new Set(toWords(query))).slice(0, MAX_QUERY_TERMS)
+  return Promise.all(words.map((word) => createSearchToken(word, searchKey)))
+}